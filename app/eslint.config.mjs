@@ -96,6 +96,14 @@ const eslintConfig = defineConfig([
       "no-unused-expressions": "off",
     },
   },
+
+  // CLI scripts report progress on the console
+  {
+    files: ["scripts/**/*.ts"],
+    rules: {
+      "no-console": "off",
+    },
+  },
 ]);
 
 export default eslintConfig;
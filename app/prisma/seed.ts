@@ -1,5 +1,6 @@
 import { PrismaClient } from "@prisma/client";
 import { calculatePhenoAge, calculateAgeReduction, calculatePaceOfAging } from "../src/lib/phenoage";
+import { toBiomarkerValueRecords } from "../src/lib/biomarkers";
 
 const prisma = new PrismaClient();
 
@@ -115,9 +116,10 @@ const testUsers = [
   },
 ];
 
-// Helper to generate birth year from age
-function birthYearFromAge(age: number): number {
-  return new Date().getFullYear() - age;
+// Helper to generate a birth date (UTC midnight) for someone `age` years and ~1 month old
+function birthDateFromAge(age: number): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear() - age, now.getUTCMonth() - 1, 1));
 }
 
 // Helper to determine generation from birth year
@@ -281,7 +283,7 @@ const badgeDefinitions = [
   { name: "Rising Star", slug: "rising-star", description: "Achieved biggest age reduction improvement in a season", icon: "trending", category: "IMPROVEMENT" as const },
   { name: "Comeback Kid", slug: "comeback-kid", description: "Improved 3+ years after a previous decline", icon: "target", category: "IMPROVEMENT" as const },
   { name: "Steady Climber", slug: "steady-climber", description: "Improved age reduction for 5 submissions in a row", icon: "chart-line", category: "IMPROVEMENT" as const },
-  { name: "Breakthrough", slug: "breakthrough", description: "First time breaking 5-year age reduction barrier", icon: "zap", category: "IMPROVEMENT" as const },
+  { name: "Breakthrough", slug: "breakthrough", description: "Lowered PhenoAge by 5+ years within a season", icon: "zap", category: "IMPROVEMENT" as const },
   { name: "Unstoppable", slug: "unstoppable", description: "Maintained improvement streak for 10+ submissions", icon: "flame", category: "IMPROVEMENT" as const },
 
   // ============================================
@@ -415,7 +417,8 @@ async function main() {
 
     let athlete = null;
     if (testUser.createAthlete && testUser.athleteData) {
-      const birthYear = birthYearFromAge(testUser.athleteData.age);
+      const birthDate = birthDateFromAge(testUser.athleteData.age);
+      const birthYear = birthDate.getUTCFullYear();
       const generation = getGeneration(birthYear);
 
       athlete = await prisma.athlete.create({
@@ -424,6 +427,7 @@ async function main() {
           displayName: testUser.athleteData.displayName,
           slug: testUser.athleteData.slug,
           bio: testUser.athleteData.bio,
+          birthDate,
           birthYear,
           chronologicalAge: testUser.athleteData.age,
           division: testUser.athleteData.division,
@@ -449,7 +453,8 @@ async function main() {
 
   for (let i = 0; i < athletesData.length; i++) {
     const athleteData = athletesData[i];
-    const birthYear = birthYearFromAge(athleteData.age);
+    const birthDate = birthDateFromAge(athleteData.age);
+    const birthYear = birthDate.getUTCFullYear();
     const generation = getGeneration(birthYear);
     const slug = athleteData.name.toLowerCase().replace(/\s+/g, "-");
 
@@ -471,6 +476,7 @@ async function main() {
         displayName: athleteData.name,
         slug,
         bio: athleteData.bio,
+        birthDate,
         birthYear,
         chronologicalAge: athleteData.age,
         division: athleteData.division,
@@ -580,7 +586,7 @@ async function main() {
         seasonId: activeSeason.id,
         leagueId, // REQUIRED - leagues-first architecture
         submittedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000), // Random date in last 30 days
-        ...biomarkers,
+        values: { create: toBiomarkerValueRecords(biomarkers) },
         phenoAge,
         ageReduction,
         paceOfAging,
@@ -617,7 +623,7 @@ async function main() {
           seasonId: pastSeason.id,
           leagueId, // REQUIRED - leagues-first architecture
           submittedAt: new Date(`${currentYear - 1}-06-15`),
-          ...pastBiomarkers,
+          values: { create: toBiomarkerValueRecords(pastBiomarkers) },
           phenoAge: pastPhenoAge,
           ageReduction: (data.age - 1) - pastPhenoAge,
           paceOfAging: pastPhenoAge / (data.age - 1),
@@ -890,6 +896,7 @@ async function main() {
       data: {
         seasonId: activeSeason.id,
         ...donation,
+        status: "CONFIRMED",
         confirmedAt: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000),
       },
     });
@@ -0,0 +1,108 @@
+// ============================================================================
+// Longevity World Cup - Biomarker Value Backfill
+// ============================================================================
+//
+// Copies the legacy biomarker columns of BiomarkerSubmission (albumin … wbc)
+// into BiomarkerValue rows, which the review UI, charts, leaderboard rebuild
+// and exports read. Submissions from before BiomarkerValue have no value rows
+// until this has run.
+//
+// Run it after `npm run db:push` on every database that has submissions from
+// before BiomarkerValue. Values are stored in the catalog's canonical units,
+// the units the legacy columns used. Rows that already exist are kept, so the
+// script can be run again safely.
+//
+// Usage:
+//   npm run db:backfill-biomarkers
+//   npm run db:backfill-biomarkers -- --dry-run   # Count without writing
+//
+// ============================================================================
+
+import { PrismaClient } from "@prisma/client";
+import { toBiomarkerValueRecords, type BiomarkerValues } from "../src/lib/biomarkers";
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+
+const LEGACY_COLUMNS = [
+  "albumin",
+  "creatinine",
+  "glucose",
+  "crp",
+  "lymphocytePercent",
+  "mcv",
+  "rdw",
+  "alp",
+  "wbc",
+] as const;
+
+const LEGACY_SELECT = {
+  id: true,
+  albumin: true,
+  creatinine: true,
+  glucose: true,
+  crp: true,
+  lymphocytePercent: true,
+  mcv: true,
+  rdw: true,
+  alp: true,
+  wbc: true,
+} as const;
+
+type LegacySubmission = { id: string } & Record<(typeof LEGACY_COLUMNS)[number], number | null>;
+
+function legacyValues(submission: LegacySubmission): BiomarkerValues {
+  const values: BiomarkerValues = {};
+  for (const column of LEGACY_COLUMNS) {
+    const value = submission[column];
+    if (value !== null) values[column] = value;
+  }
+  return values;
+}
+
+async function main(): Promise<void> {
+  const dryRun = process.argv.includes("--dry-run");
+  let cursor: string | undefined;
+  let submissions = 0;
+  let created = 0;
+
+  for (;;) {
+    const batch: LegacySubmission[] = await prisma.biomarkerSubmission.findMany({
+      where: { OR: LEGACY_COLUMNS.map((column) => ({ [column]: { not: null } })) },
+      select: LEGACY_SELECT,
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+    if (batch.length === 0) break;
+
+    const rows = batch.flatMap((submission) =>
+      toBiomarkerValueRecords(legacyValues(submission)).map((record) => ({
+        ...record,
+        submissionId: submission.id,
+      }))
+    );
+    if (!dryRun) {
+      // skipDuplicates keeps values already stored (e.g. by an earlier run)
+      const { count } = await prisma.biomarkerValue.createMany({ data: rows, skipDuplicates: true });
+      created += count;
+    }
+
+    submissions += batch.length;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  console.log(
+    dryRun
+      ? `${submissions} submissions have legacy biomarker columns (dry run, nothing written)`
+      : `${submissions} submissions with legacy biomarker columns; ${created} BiomarkerValue rows created`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
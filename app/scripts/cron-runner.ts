@@ -0,0 +1,83 @@
+// ============================================================================
+// Longevity World Cup - Local Cron Runner
+// ============================================================================
+//
+// Calls the scheduled endpoints (README "Scheduled Endpoints") on their cron
+// schedules against a running app, for local development and self-hosting
+// without a platform scheduler. Schedules are UTC.
+//
+// Usage:
+//   npm run cron                # Run until stopped (Ctrl+C)
+//   npm run cron -- --once      # Call every job once and exit
+//
+// Environment:
+//   CRON_SECRET   Same secret as the app (required)
+//   APP_URL       Base URL of the app (default http://localhost:3000)
+//
+// ============================================================================
+
+import { matchesCron, parseCronExpression } from "../src/lib/cron-schedule";
+
+const JOBS = [
+  // Hourly: open, lock and complete seasons as their dates pass
+  { path: "/api/cron/season-transitions", schedule: "0 * * * *" },
+  // Daily, after the day's season transitions
+  { path: "/api/cron/rank-snapshots", schedule: "5 0 * * *" },
+  // Every 10 minutes: record and confirm donations to season addresses
+  { path: "/api/cron/donations", schedule: "*/10 * * * *" },
+].map((job) => ({ ...job, parsed: parseCronExpression(job.schedule) }));
+
+const appUrl = process.env.APP_URL || "http://localhost:3000";
+const secret = process.env.CRON_SECRET;
+
+async function runJob(path: string): Promise<void> {
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(`${appUrl}${path}`, {
+      headers: { Authorization: `Bearer ${secret}` },
+    });
+    const body = await response.text();
+    console.log(`[${new Date().toISOString()}] ${path} ${response.status} (${Date.now() - startedAt}ms) ${body}`);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] ${path} failed:`, error);
+  }
+}
+
+async function tick(): Promise<void> {
+  const now = new Date();
+  for (const job of JOBS) {
+    if (matchesCron(job.parsed, now)) {
+      await runJob(job.path);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (!secret) {
+    console.error("CRON_SECRET is not set");
+    process.exit(1);
+  }
+
+  if (process.argv.includes("--once")) {
+    for (const job of JOBS) {
+      await runJob(job.path);
+    }
+    return;
+  }
+
+  console.log(`Cron runner calling ${appUrl}:`);
+  for (const job of JOBS) {
+    console.log(`  ${job.schedule.padEnd(12)} ${job.path}`);
+  }
+
+  // Check once per minute, aligned to the start of the minute
+  const scheduleNextTick = () => {
+    setTimeout(async () => {
+      await tick();
+      scheduleNextTick();
+    }, 60_000 - (Date.now() % 60_000));
+  };
+  scheduleNextTick();
+}
+
+main();
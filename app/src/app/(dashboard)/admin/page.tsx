@@ -1,6 +1,7 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/db";
+import { fromBiomarkerValueRecords } from "@/lib/biomarkers";
 import { AdminDashboardClient } from "./admin-dashboard-client";
 
 async function getAdminData() {
@@ -24,6 +25,13 @@ async function getAdminData() {
           year: true,
         },
       },
+      values: {
+        select: {
+          biomarkerKey: true,
+          value: true,
+          unit: true,
+        },
+      },
     },
     orderBy: { submittedAt: "asc" },
   });
@@ -75,20 +83,15 @@ async function getAdminData() {
       athleteEmail: s.athlete.user.email,
       seasonName: `${s.season.name} ${s.season.year}`,
       submittedAt: s.submittedAt.toISOString(),
+      collectedAt: s.collectedAt?.toISOString() ?? null,
       phenoAge: s.phenoAge,
       ageReduction: s.ageReduction,
-      biomarkers: {
-        albumin: s.albumin,
-        creatinine: s.creatinine,
-        glucose: s.glucose,
-        crp: s.crp,
-        lymphocytePercent: s.lymphocytePercent,
-        mcv: s.mcv,
-        rdw: s.rdw,
-        alp: s.alp,
-        wbc: s.wbc,
-      },
+      biomarkers: fromBiomarkerValueRecords(s.values),
       proofImages: (s.proofImages as string[]) || [],
+      entryMethod: s.entryMethod,
+      labName: s.labName,
+      labTemplateId: s.labTemplateId,
+      labTemplateVersion: s.labTemplateVersion,
     })),
     pendingAthletes: pendingAthletes.map((a) => ({
       id: a.id,
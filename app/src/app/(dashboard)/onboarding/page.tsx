@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { User, Calendar, Users, Check, ArrowRight, ArrowLeft, Building2, Plus, Search, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/components/ui/toast";
 import { cn } from "@/lib/utils";
+import { calculateChronologicalAge } from "@/lib/phenoage";
 
 type Division = "mens" | "womens" | "open";
 
@@ -23,21 +24,21 @@ interface League {
 
 interface OnboardingData {
   displayName: string;
-  birthYear: number;
+  birthDate: string; // YYYY-MM-DD
   division: Division;
   leagueId: string | null;
 }
 
 interface FormErrors {
   displayName?: string;
-  birthYear?: string;
+  birthDate?: string;
   division?: string;
   leagueId?: string;
 }
 
 const steps = [
   { id: 1, title: "Your Name", icon: User },
-  { id: 2, title: "Birth Year", icon: Calendar },
+  { id: 2, title: "Birth Date", icon: Calendar },
   { id: 3, title: "Division", icon: Users },
   { id: 4, title: "Join League", icon: Building2 },
   { id: 5, title: "Confirm", icon: Check },
@@ -51,12 +52,17 @@ const divisions: { value: Division; label: string; description: string }[] = [
 
 export default function OnboardingPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const toast = useToast();
+  // League invite being redeemed (/invite/[token] sends invitees without a profile here)
+  const inviteToken = searchParams.get("invite");
+  // Join link being used (/join/[code] sends athletes without a profile here)
+  const joinCode = inviteToken ? null : searchParams.get("join");
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [data, setData] = useState<OnboardingData>({
     displayName: "",
-    birthYear: new Date().getFullYear() - 30,
+    birthDate: "",
     division: "open",
     leagueId: null,
   });
@@ -67,9 +73,27 @@ export default function OnboardingPage() {
   const [loadingLeagues, setLoadingLeagues] = useState(false);
   const [leagueSearch, setLeagueSearch] = useState("");
   const [selectedLeague, setSelectedLeague] = useState<League | null>(null);
+  const [invitedLeagueName, setInvitedLeagueName] = useState<string | null>(null);
 
-  const currentYear = new Date().getFullYear();
-  const calculatedAge = currentYear - data.birthYear;
+  const today = new Date().toISOString().slice(0, 10);
+  const birthDate = data.birthDate ? new Date(`${data.birthDate}T00:00:00Z`) : null;
+  const calculatedAge = birthDate ? Math.floor(calculateChronologicalAge(birthDate)) : null;
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    fetch(`/api/invites/${inviteToken}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setInvitedLeagueName(result?.invite?.league.name ?? null))
+      .catch((error) => console.error("Failed to fetch invite:", error));
+  }, [inviteToken]);
+
+  useEffect(() => {
+    if (!joinCode) return;
+    fetch(`/api/join/${joinCode}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => setInvitedLeagueName(result?.link?.league.name ?? null))
+      .catch((error) => console.error("Failed to fetch join link:", error));
+  }, [joinCode]);
 
   // Fetch leagues when reaching step 4
   useEffect(() => {
@@ -114,12 +138,15 @@ export default function OnboardingPage() {
     }
 
     if (step === 2) {
-      if (data.birthYear < 1900 || data.birthYear > currentYear - 18) {
-        newErrors.birthYear = "You must be at least 18 years old";
+      if (!birthDate || calculatedAge === null || birthDate.getUTCFullYear() < 1900) {
+        newErrors.birthDate = "Please enter your birth date";
+      } else if (calculatedAge < 18) {
+        newErrors.birthDate = "You must be at least 18 years old";
       }
     }
 
-    if (step === 4 && !data.leagueId) {
+    // The invited (or join link) league counts as the athlete's league
+    if (step === 4 && !data.leagueId && !inviteToken && !joinCode) {
       newErrors.leagueId = "Please select a league to join";
     }
 
@@ -149,7 +176,7 @@ export default function OnboardingPage() {
 
       if (response.ok) {
         toast.success("Profile created!", "Welcome to Longevity World Cup");
-        router.push("/dashboard");
+        router.push(await joinInvitedLeague());
       } else {
         const error = await response.json();
         toast.error("Failed to create profile", error.message || "Please try again");
@@ -161,6 +188,41 @@ export default function OnboardingPage() {
     }
   };
 
+  // Joins the league of the invite or join link; returns where to go next
+  async function joinInvitedLeague(): Promise<string> {
+    if (inviteToken) return acceptInvite(inviteToken);
+    if (joinCode) return joinWithLink(joinCode);
+    return "/dashboard";
+  }
+
+  async function acceptInvite(token: string): Promise<string> {
+    try {
+      const response = await fetch(`/api/invites/${token}/accept`, { method: "POST" });
+      if (response.ok) {
+        const result = await response.json();
+        return `/leagues/${result.league.slug}`;
+      }
+    } catch (error) {
+      console.error("Failed to accept invite:", error);
+    }
+    // The invite page explains why it couldn't be accepted
+    return `/invite/${token}`;
+  }
+
+  async function joinWithLink(code: string): Promise<string> {
+    try {
+      const response = await fetch(`/api/join/${code}`, { method: "POST" });
+      if (response.ok) {
+        const result = await response.json();
+        return `/leagues/${result.league.slug}`;
+      }
+    } catch (error) {
+      console.error("Failed to join with link:", error);
+    }
+    // The join page explains why the link couldn't be used
+    return `/join/${code}`;
+  }
+
   return (
     <div className="min-h-screen bg-gradient-radial py-12 px-4">
       <div className="container mx-auto max-w-2xl">
@@ -240,7 +302,7 @@ export default function OnboardingPage() {
                 </motion.div>
               )}
 
-              {/* Step 2: Birth Year */}
+              {/* Step 2: Birth Date */}
               {currentStep === 2 && (
                 <motion.div
                   key="step2"
@@ -250,22 +312,25 @@ export default function OnboardingPage() {
                   className="space-y-6"
                 >
                   <Input
-                    label="Birth Year"
-                    type="number"
-                    min={1900}
-                    max={currentYear - 18}
-                    value={data.birthYear}
-                    onChange={(e) => setData({ ...data, birthYear: parseInt(e.target.value) || 0 })}
-                    error={errors.birthYear as string}
+                    label="Birth Date"
+                    type="date"
+                    min="1900-01-01"
+                    max={today}
+                    value={data.birthDate}
+                    onChange={(e) => setData({ ...data, birthDate: e.target.value })}
+                    error={errors.birthDate as string}
+                    hint="Your exact age at each blood draw is used to calculate PhenoAge"
                   />
-                  <div className="p-4 rounded-xl bg-[var(--background-card)] border border-[var(--border)]">
-                    <p className="text-sm text-[var(--foreground-secondary)]">
-                      Calculated Age:{" "}
-                      <span className="text-xl font-bold text-[var(--color-primary)]">
-                        {calculatedAge} years old
-                      </span>
-                    </p>
-                  </div>
+                  {calculatedAge !== null ? (
+                    <div className="p-4 rounded-xl bg-[var(--background-card)] border border-[var(--border)]">
+                      <p className="text-sm text-[var(--foreground-secondary)]">
+                        Calculated Age:{" "}
+                        <span className="text-xl font-bold text-[var(--color-primary)]">
+                          {calculatedAge} years old
+                        </span>
+                      </p>
+                    </div>
+                  ) : null}
                 </motion.div>
               )}
 
@@ -305,6 +370,15 @@ export default function OnboardingPage() {
                   exit={{ opacity: 0, x: -20 }}
                   className="space-y-4"
                 >
+                  {inviteToken || joinCode ? (
+                    <div className="p-4 rounded-xl border border-[var(--color-primary)] bg-[var(--color-primary)]/10">
+                      <p className="text-sm text-[var(--foreground)]">
+                        You&apos;ll join {invitedLeagueName || (inviteToken ? "the league that invited you" : "the league you're joining")} once your profile is
+                        created. You can pick another league too.
+                      </p>
+                    </div>
+                  ) : null}
+
                   {/* Search */}
                   <form onSubmit={handleLeagueSearch} className="flex gap-2">
                     <div className="relative flex-1">
@@ -395,8 +469,8 @@ export default function OnboardingPage() {
                       <span className="font-semibold text-[var(--foreground)]">{data.displayName}</span>
                     </div>
                     <div className="flex justify-between p-4 rounded-xl bg-[var(--background-card)]">
-                      <span className="text-[var(--foreground-secondary)]">Birth Year</span>
-                      <span className="font-semibold text-[var(--foreground)]">{data.birthYear}</span>
+                      <span className="text-[var(--foreground-secondary)]">Birth Date</span>
+                      <span className="font-semibold text-[var(--foreground)]">{data.birthDate}</span>
                     </div>
                     <div className="flex justify-between p-4 rounded-xl bg-[var(--background-card)]">
                       <span className="text-[var(--foreground-secondary)]">Age</span>
@@ -411,7 +485,7 @@ export default function OnboardingPage() {
                     <div className="flex justify-between p-4 rounded-xl bg-[var(--background-card)]">
                       <span className="text-[var(--foreground-secondary)]">League</span>
                       <span className="font-semibold text-[var(--foreground)]">
-                        {selectedLeague?.name || "None selected"}
+                        {[selectedLeague?.name, invitedLeagueName].filter(Boolean).join(", ") || "None selected"}
                       </span>
                     </div>
                   </div>
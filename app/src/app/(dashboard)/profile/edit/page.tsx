@@ -22,11 +22,13 @@ async function getAthleteProfile(clerkId: string) {
     bio: user.athlete.bio,
     profilePicture: user.athlete.profilePicture,
     birthYear: user.athlete.birthYear,
+    birthDate: user.athlete.birthDate?.toISOString().slice(0, 10) ?? null,
     division: user.athlete.division,
     website: user.athlete.website,
     twitter: user.athlete.twitter,
     instagram: user.athlete.instagram,
     mediaContact: user.athlete.mediaContact,
+    shareBiomarkersWithLeagues: user.athlete.shareBiomarkersWithLeagues,
   };
 }
 
@@ -17,6 +17,7 @@ import {
   CheckCircle,
   Loader2,
   Trash2,
+  Lock,
 } from "lucide-react";
 import Link from "next/link";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
@@ -32,11 +33,14 @@ interface AthleteProfile {
   bio: string | null;
   profilePicture: string | null;
   birthYear: number;
+  /** YYYY-MM-DD, null until set */
+  birthDate: string | null;
   division: string;
   website: string | null;
   twitter: string | null;
   instagram: string | null;
   mediaContact: string | null;
+  shareBiomarkersWithLeagues: boolean;
 }
 
 interface ProfileEditClientProps {
@@ -61,6 +65,11 @@ export function ProfileEditClient({ athlete }: ProfileEditClientProps) {
     instagram: athlete.instagram || "",
     mediaContact: athlete.mediaContact || "",
   });
+  // Older profiles only have a birth year; the exact date can be added once
+  const [birthDate, setBirthDate] = useState("");
+  const [shareBiomarkersWithLeagues, setShareBiomarkersWithLeagues] = useState(
+    athlete.shareBiomarkersWithLeagues
+  );
 
   const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -153,7 +162,11 @@ export function ProfileEditClient({ athlete }: ProfileEditClientProps) {
       const response = await fetch("/api/athletes/me", {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          shareBiomarkersWithLeagues,
+          ...(birthDate ? { birthDate } : {}),
+        }),
       });
 
       if (!response.ok) {
@@ -368,6 +381,59 @@ export function ProfileEditClient({ athlete }: ProfileEditClientProps) {
                   </div>
                 </div>
 
+                {/* Privacy */}
+                <div className="space-y-4 pt-4 border-t border-[var(--border)]">
+                  <h3 className="text-sm font-medium text-[var(--foreground-secondary)]">
+                    Privacy
+                  </h3>
+
+                  <label htmlFor="shareBiomarkersWithLeagues" className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      id="shareBiomarkersWithLeagues"
+                      name="shareBiomarkersWithLeagues"
+                      type="checkbox"
+                      checked={shareBiomarkersWithLeagues}
+                      onChange={(e) => {
+                        setShareBiomarkersWithLeagues(e.target.checked);
+                        setSuccess(false);
+                      }}
+                      className="mt-1 h-4 w-4 accent-[var(--color-primary)]"
+                    />
+                    <span className="space-y-1">
+                      <span className="flex items-center gap-2 text-sm text-[var(--foreground)]">
+                        <Lock className="w-4 h-4 text-[var(--foreground-muted)]" />
+                        Share biomarker values with my leagues
+                      </span>
+                      <span className="block text-xs text-[var(--foreground-muted)]">
+                        League managers can include your individual lab values in their exports.
+                        Your PhenoAge and age reduction are part of exports either way.
+                      </span>
+                    </span>
+                  </label>
+                </div>
+
+                {/* Birth date - required to submit biomarkers */}
+                {athlete.birthDate ? null : (
+                  <div className="space-y-2 pt-4 border-t border-[var(--border)]">
+                    <Label htmlFor="birthDate" className="flex items-center gap-2">
+                      <Calendar className="w-4 h-4 text-[var(--foreground-muted)]" />
+                      Birth Date
+                    </Label>
+                    <Input
+                      id="birthDate"
+                      name="birthDate"
+                      type="date"
+                      min={`${athlete.birthYear}-01-01`}
+                      max={`${athlete.birthYear}-12-31`}
+                      value={birthDate}
+                      onChange={(e) => setBirthDate(e.target.value)}
+                    />
+                    <p className="text-xs text-[var(--foreground-muted)]">
+                      Needed to calculate your exact age at each blood draw. It can only be set once.
+                    </p>
+                  </div>
+                )}
+
                 {/* Read-only Info */}
                 <div className="space-y-4 pt-4 border-t border-[var(--border)]">
                   <h3 className="text-sm font-medium text-[var(--foreground-secondary)]">
@@ -378,9 +444,9 @@ export function ProfileEditClient({ athlete }: ProfileEditClientProps) {
                     <div className="space-y-1">
                       <Label className="flex items-center gap-2 text-[var(--foreground-muted)]">
                         <Calendar className="w-4 h-4" />
-                        Birth Year
+                        {athlete.birthDate ? "Birth Date" : "Birth Year"}
                       </Label>
-                      <p className="text-[var(--foreground)]">{athlete.birthYear}</p>
+                      <p className="text-[var(--foreground)]">{athlete.birthDate ?? athlete.birthYear}</p>
                     </div>
                     <div className="space-y-1">
                       <Label className="text-[var(--foreground-muted)]">Division</Label>
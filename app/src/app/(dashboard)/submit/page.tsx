@@ -3,8 +3,17 @@
 import { useState, useCallback, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { motion } from "framer-motion";
-import { calculatePhenoAge, validateBiomarkers, type BiomarkerInput } from "@/lib/phenoage";
-import type { BiomarkerKey, BiomarkerExtraction, OcrExtractionResult } from "@/lib/ocr/types";
+import {
+  calculatePhenoAge,
+  calculateAgeReduction,
+  calculatePaceOfAging,
+  calculateChronologicalAge,
+  validateBiomarkers,
+  type BiomarkerInput,
+} from "@/lib/phenoage";
+import type { BiomarkerKey, BiomarkerExtraction } from "@/lib/ocr/types";
+import type { SubmissionDraftView } from "@/lib/ocr/submission-draft";
+import { waitForOcrResult } from "@/hooks";
 import { useToast } from "@/components/ui/toast";
 import {
   LeagueSelector,
@@ -12,7 +21,7 @@ import {
   ManualEntryPanel,
   OcrEntryPanel,
   CalculationPreview,
-  biomarkerFields,
+  requiredBiomarkerFields,
   type LeagueMembership,
   type BiomarkerFieldKey,
   type CalculationResult,
@@ -24,7 +33,9 @@ export default function SubmitBiomarkersPage() {
   const router = useRouter();
   const toast = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [chronologicalAge, setChronologicalAge] = useState(35);
+  const [birthDate, setBirthDate] = useState<Date | null>(null);
+  // Blood draw date (YYYY-MM-DD), read from the report or entered by hand
+  const [collectedAt, setCollectedAt] = useState("");
   const [biomarkers, setBiomarkers] = useState<Partial<Record<BiomarkerFieldKey, number>>>({});
   const [proofFile, setProofFile] = useState<File | null>(null);
 
@@ -39,6 +50,9 @@ export default function SubmitBiomarkersPage() {
   const [ocrError, setOcrError] = useState<string | null>(null);
   const [ocrExtractions, setOcrExtractions] = useState<Record<BiomarkerKey, BiomarkerExtraction> | null>(null);
   const [entryMethod, setEntryMethod] = useState<"MANUAL" | "OCR_ASSISTED">("MANUAL");
+  // Multi-document draft - every uploaded report is merged into one submission
+  const [draft, setDraft] = useState<SubmissionDraftView | null>(null);
+  const [ocrProofFiles, setOcrProofFiles] = useState<File[]>([]);
 
   // Fetch user's league memberships on mount
   useEffect(() => {
@@ -53,8 +67,8 @@ export default function SubmitBiomarkersPage() {
               setSelectedLeagueId(athlete.leagueMemberships[0].league.id);
             }
           }
-          if (athlete.chronologicalAge) {
-            setChronologicalAge(athlete.chronologicalAge);
+          if (athlete.birthDate) {
+            setBirthDate(new Date(athlete.birthDate));
           }
         }
       } catch (error) {
@@ -67,13 +81,21 @@ export default function SubmitBiomarkersPage() {
   }, []);
 
   // Check if all required fields are filled
-  const allFieldsFilled = biomarkerFields.every(
+  const allFieldsFilled = requiredBiomarkerFields.every(
     (field) => biomarkers[field.key] !== undefined && biomarkers[field.key] !== null
-  ) && selectedLeagueId !== null;
+  ) && selectedLeagueId !== null && collectedAt !== "";
+
+  // Preview only - the server computes the age at the blood draw from the profile
+  const ageAtCollection = birthDate && collectedAt
+    ? calculateChronologicalAge(birthDate, new Date(`${collectedAt}T00:00:00Z`))
+    : null;
 
   // Calculate PhenoAge
   const calculateResult = (): CalculationResult => {
     if (!allFieldsFilled) return null;
+    if (ageAtCollection === null) {
+      return { error: ["Add your birth date to your profile before submitting"] };
+    }
 
     const input: BiomarkerInput = {
       albumin: biomarkers.albumin!,
@@ -85,7 +107,7 @@ export default function SubmitBiomarkersPage() {
       rdw: biomarkers.rdw!,
       alp: biomarkers.alp!,
       wbc: biomarkers.wbc!,
-      chronologicalAge,
+      chronologicalAge: ageAtCollection,
     };
 
     const validation = validateBiomarkers(input);
@@ -94,57 +116,130 @@ export default function SubmitBiomarkersPage() {
     }
 
     const phenoAge = calculatePhenoAge(input);
-    const ageReduction = chronologicalAge - phenoAge;
-    const paceOfAging = phenoAge / chronologicalAge;
+    const ageReduction = calculateAgeReduction(ageAtCollection, phenoAge);
+    const paceOfAging = calculatePaceOfAging(ageAtCollection, phenoAge);
 
     return { phenoAge, ageReduction, paceOfAging };
   };
 
   const result = calculateResult();
 
-  // Handle OCR file upload
+  // Show a draft's merged values and auto-fill the form from them
+  const applyDraft = useCallback((view: SubmissionDraftView) => {
+    setDraft(view);
+    setOcrExtractions(view.merged.extractions);
+
+    // Auto-fill biomarkers with high/medium confidence values
+    const newBiomarkers: Partial<Record<BiomarkerFieldKey, number>> = {};
+    for (const [key, extraction] of Object.entries(view.merged.extractions)) {
+      if (extraction.value !== null && extraction.confidence >= 0.5) {
+        newBiomarkers[key as BiomarkerFieldKey] = extraction.value;
+      }
+    }
+    setBiomarkers(newBiomarkers);
+
+    // Use the earliest collection date found on the reports unless one was entered
+    const detectedDates = view.documents
+      .map((document) => document.collectedAt)
+      .filter((date): date is string => date !== null)
+      .sort();
+    if (detectedDates.length > 0) {
+      setCollectedAt((prev) => prev || detectedDates[0].slice(0, 10));
+    }
+  }, []);
+
+  // Apply a change to the draft (conflict resolution, dates, removed documents)
+  const updateDraft = useCallback(async (changes: Record<string, unknown>) => {
+    if (!draft) return;
+
+    try {
+      const response = await fetch(`/api/submissions/drafts/${draft.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update documents");
+      }
+      applyDraft(data);
+    } catch (error) {
+      toast.error("Failed to update documents", error instanceof Error ? error.message : undefined);
+    }
+  }, [draft, applyDraft, toast]);
+
+  // Handle OCR file upload - the first report starts a draft, later ones are added to it
   const handleOcrUpload = useCallback(async (file: File) => {
     setOcrStage("uploading");
     setOcrError(null);
-    setProofFile(file);
 
     try {
-      setOcrStage("extracting");
+      let draftId = draft?.id;
+      if (!draftId) {
+        const draftResponse = await fetch("/api/submissions/drafts", { method: "POST" });
+        const created = await draftResponse.json();
+        if (!draftResponse.ok) {
+          throw new Error(created.error || "Failed to start submission");
+        }
+        draftId = created.id as string;
+      }
 
       const formData = new FormData();
       formData.append("file", file);
+      formData.append("draftId", draftId);
 
       const response = await fetch("/api/ocr/upload", {
         method: "POST",
         body: formData,
       });
 
-      setOcrStage("analyzing");
-
       const data = await response.json();
 
       if (!response.ok || !data.success) {
         throw new Error(data.error || "OCR processing failed");
       }
 
-      const extractionResult = data.result as OcrExtractionResult;
-      setOcrExtractions(extractionResult.extractions);
-      setOcrStage("complete");
-      setEntryMethod("OCR_ASSISTED");
+      setOcrStage("extracting");
 
-      // Auto-fill biomarkers with high/medium confidence values
-      const newBiomarkers: Partial<Record<BiomarkerFieldKey, number>> = {};
-      for (const [key, extraction] of Object.entries(extractionResult.extractions)) {
-        if (extraction.value !== null && extraction.confidence >= 0.5) {
-          newBiomarkers[key as BiomarkerFieldKey] = extraction.value;
-        }
+      // OCR runs in a background job - poll until the extraction is ready
+      await waitForOcrResult(data.jobId, {
+        onProgress: (status, progress) => {
+          if (status === "PROCESSING" && progress >= 70) {
+            setOcrStage("analyzing");
+          }
+        },
+      });
+
+      const draftResponse = await fetch(`/api/submissions/drafts/${draftId}`);
+      const view = await draftResponse.json();
+      if (!draftResponse.ok) {
+        throw new Error(view.error || "Failed to load extracted values");
       }
-      setBiomarkers(newBiomarkers);
+
+      applyDraft(view);
+      setOcrProofFiles((prev) => [...prev, file]);
+      setOcrStage("complete");
+      setEntryMethod("OCR_ASSISTED");
     } catch (error) {
       setOcrStage("error");
       setOcrError(error instanceof Error ? error.message : "OCR processing failed");
     }
-  }, []);
+  }, [draft, applyDraft]);
+
+  const handleResolveConflict = useCallback((biomarker: BiomarkerKey, jobId: string) => {
+    updateDraft({ resolutions: { [biomarker]: jobId } });
+  }, [updateDraft]);
+
+  const handleCollectionDateChange = useCallback((jobId: string, date: string) => {
+    updateDraft({ collectionDates: { [jobId]: date } });
+  }, [updateDraft]);
+
+  const handleRemoveDocument = useCallback((jobId: string) => {
+    const removed = draft?.documents.find((document) => document.jobId === jobId);
+    setOcrProofFiles((prev) => prev.filter((file) => file.name !== removed?.fileName));
+    updateDraft({ removeDocuments: [jobId] });
+  }, [draft, updateDraft]);
 
   // Handle OCR value change
   const handleOcrValueChange = useCallback((biomarker: BiomarkerKey, value: number | null) => {
@@ -178,8 +273,14 @@ export default function SubmitBiomarkersPage() {
     setOcrStage("idle");
     setOcrError(null);
     setOcrExtractions(null);
+    setOcrProofFiles([]);
     setProofFile(null);
-  }, []);
+
+    if (draft) {
+      fetch(`/api/submissions/drafts/${draft.id}`, { method: "DELETE" }).catch(() => {});
+      setDraft(null);
+    }
+  }, [draft]);
 
   // Handle submission
   const handleSubmit = async () => {
@@ -189,14 +290,22 @@ export default function SubmitBiomarkersPage() {
 
     try {
       const formData = new FormData();
-      formData.append("chronologicalAge", chronologicalAge.toString());
       formData.append("biomarkers", JSON.stringify(biomarkers));
       formData.append("phenoAge", result.phenoAge.toString());
       formData.append("ageReduction", result.ageReduction.toString());
       formData.append("paceOfAging", result.paceOfAging.toString());
       formData.append("entryMethod", entryMethod);
       formData.append("leagueId", selectedLeagueId);
+      formData.append("collectedAt", collectedAt);
 
+      if (draft) {
+        formData.append("draftId", draft.id);
+      }
+
+      // Every lab document is kept as proof
+      for (const file of draft ? ocrProofFiles : []) {
+        formData.append("proof", file);
+      }
       if (proofFile) {
         formData.append("proof", proofFile);
       }
@@ -211,7 +320,7 @@ export default function SubmitBiomarkersPage() {
         router.push("/dashboard?submitted=true");
       } else {
         const error = await response.json();
-        toast.error("Failed to submit", error.message || "Please check your data and try again");
+        toast.error("Failed to submit", error.error || error.message || "Please check your data and try again");
       }
     } catch {
       toast.error("Something went wrong", "An error occurred. Please try again.");
@@ -279,18 +388,24 @@ export default function SubmitBiomarkersPage() {
                 stage={ocrStage}
                 error={ocrError}
                 extractions={ocrExtractions}
-                chronologicalAge={chronologicalAge}
-                onChronologicalAgeChange={setChronologicalAge}
+                ageAtCollection={ageAtCollection}
+                collectedAt={collectedAt}
+                onCollectedAtChange={setCollectedAt}
                 onFileSelect={handleOcrUpload}
                 onError={setOcrError}
                 onValueChange={handleOcrValueChange}
                 onAcceptAll={handleAcceptOcr}
                 onRetry={handleRetryOcr}
+                draft={draft}
+                onResolveConflict={handleResolveConflict}
+                onCollectionDateChange={handleCollectionDateChange}
+                onRemoveDocument={handleRemoveDocument}
               />
             ) : (
               <ManualEntryPanel
-                chronologicalAge={chronologicalAge}
-                onChronologicalAgeChange={setChronologicalAge}
+                ageAtCollection={ageAtCollection}
+                collectedAt={collectedAt}
+                onCollectedAtChange={setCollectedAt}
                 biomarkers={biomarkers}
                 onBiomarkerChange={updateBiomarker}
                 proofFile={proofFile}
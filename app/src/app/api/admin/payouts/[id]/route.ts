@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  BadRequestError,
+} from "@/lib/api-utils";
+import { isPayoutStatus, updatePayoutStatus } from "@/lib/payouts";
+
+/**
+ * PATCH /api/admin/payouts/[id]
+ *
+ * Moves a payout one step along the ledger:
+ * - `{ "status": "APPROVED" }` once the winner is confirmed
+ * - `{ "status": "PAID", "txReference": "<txid>" }` after the transfer
+ *
+ * The acting admin and time are recorded. Returns 409 when the move isn't
+ * the next step.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const body = (await request.json()) as { status?: unknown; txReference?: unknown };
+
+    if (!isPayoutStatus(body.status)) {
+      throw new BadRequestError("status must be APPROVED or PAID");
+    }
+    if (body.txReference !== undefined && typeof body.txReference !== "string") {
+      throw new BadRequestError("txReference must be a string");
+    }
+
+    const payout = await updatePayoutStatus(
+      id,
+      { status: body.status, txReference: body.txReference },
+      adminResult.context.user.id
+    );
+
+    return NextResponse.json({ payout });
+  } catch (error) {
+    return handleApiError(error, "update payout");
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  BadRequestError,
+} from "@/lib/api-utils";
+import { getBtcUsdRate, importBtcUsdRates } from "@/lib/prices";
+
+/**
+ * GET /api/admin/prices
+ *
+ * The BTC/USD rate used for a time, as donations and prize pools are valued.
+ *
+ * Query: at (ISO time, default now)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const atParam = new URL(request.url).searchParams.get("at");
+    const at = atParam ? new Date(atParam) : new Date();
+    if (Number.isNaN(at.getTime())) {
+      throw new BadRequestError("at must be an ISO date");
+    }
+
+    const rate = await getBtcUsdRate(at);
+
+    return NextResponse.json({
+      at: at.toISOString(),
+      rate: rate ? { usd: rate.usd, at: rate.at.toISOString(), source: rate.source } : null,
+    });
+  } catch (error) {
+    return handleApiError(error, "get BTC/USD rate");
+  }
+}
+
+/**
+ * POST /api/admin/prices
+ *
+ * Import historical BTC/USD rates from a CSV body (`text/csv`), e.g. a daily
+ * price export, so past donations can be valued without a price provider.
+ * Rates already stored for the same time are kept.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const csv = await request.text();
+    if (!csv.trim()) {
+      throw new BadRequestError("CSV body is required");
+    }
+
+    const result = await importBtcUsdRates(csv);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "import BTC/USD rates");
+  }
+}
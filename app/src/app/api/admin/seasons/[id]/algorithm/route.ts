@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import { getBiologicalAgeAlgorithms, hasBiologicalAgeAlgorithm } from "@/lib/biological-age";
+
+/**
+ * GET /api/admin/seasons/[id]/algorithm
+ *
+ * Returns the season's ranking algorithm and the registered alternatives.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const season = await prisma.season.findUnique({
+      where: { id },
+      select: { id: true, rankingAlgorithmId: true },
+    });
+
+    if (!season) {
+      throw new NotFoundError("Season not found");
+    }
+
+    return NextResponse.json({
+      rankingAlgorithmId: season.rankingAlgorithmId,
+      algorithms: getBiologicalAgeAlgorithms().map(({ id, name, version, description, biomarkers }) => ({
+        id,
+        name,
+        version,
+        description,
+        biomarkers,
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error, "fetch season algorithm");
+  }
+}
+
+/**
+ * PATCH /api/admin/seasons/[id]/algorithm
+ *
+ * Sets the biological age algorithm the season ranks on. Only allowed before
+ * the season has submissions, whose stored scores use the current algorithm.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const { algorithmId } = (await request.json()) as { algorithmId?: string };
+
+    if (!algorithmId || !hasBiologicalAgeAlgorithm(algorithmId)) {
+      throw new BadRequestError(`Unknown biological age algorithm: ${algorithmId}`);
+    }
+
+    const season = await prisma.season.findUnique({
+      where: { id },
+      include: { _count: { select: { submissions: true } } },
+    });
+
+    if (!season) {
+      throw new NotFoundError("Season not found");
+    }
+
+    if (season.rankingAlgorithmId !== algorithmId && season._count.submissions > 0) {
+      throw new ConflictError("Cannot change the ranking algorithm of a season with submissions");
+    }
+
+    const updated = await prisma.season.update({
+      where: { id },
+      data: { rankingAlgorithmId: algorithmId },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return handleApiError(error, "update season algorithm");
+  }
+}
@@ -4,23 +4,26 @@ import {
   ensureAdmin,
   checkRateLimitOrError,
   handleApiError,
-  createEvent,
+  BadRequestError,
+  NotFoundError,
 } from "@/lib/api-utils";
-import { badgeService } from "@/lib/badges";
+import { archiveFinalStandings, completeSeason, type SeasonHookResult } from "@/lib/seasons";
 
 /**
  * POST /api/admin/seasons/[id]/complete
  *
- * Completes a season and awards competition badges to top athletes.
- * This endpoint should be called when a season ends to:
- * 1. Mark the season as COMPLETED
- * 2. Finalize leaderboard rankings
- * 3. Award competition badges (champion, podium-finisher, rising-star) to top athletes
+ * Completes a season now instead of waiting for the schedule. An ACTIVE
+ * season is locked first, so both steps' hooks run:
+ * 1. Lock: freeze leaderboards
+ * 2. Complete: final standings and their archive (with prize allocations),
+ *    competition badges for the top athletes, final rank snapshot and the
+ *    SEASON_COMPLETED event
  *
- * Competition badge awarding logic:
- * - Top 3 athletes: podium-finisher badge
- * - 1st place: champion badge
- * - Athletes who improved significantly from previous season: rising-star badge
+ * A completed season without an archive (completed before archiving existed,
+ * or whose archive hook failed) is archived from its current leaderboard.
+ *
+ * Returns 409 while submissions are still pending review; an ACTIVE season
+ * then stays ACTIVE.
  */
 export async function POST(
   request: NextRequest,
@@ -45,75 +48,34 @@ export async function POST(
     });
 
     if (!season) {
-      return NextResponse.json({ error: "Season not found" }, { status: 404 });
+      throw new NotFoundError("Season not found");
     }
 
-    if (season.status === "COMPLETED") {
-      return NextResponse.json(
-        { error: "Season already completed" },
-        { status: 400 }
-      );
+    if (season.status === "COMPLETED" && season.archivedAt) {
+      throw new BadRequestError("Season already completed");
     }
 
-    // Update season status to COMPLETED
-    const completedSeason = await prisma.season.update({
-      where: { id },
-      data: {
-        status: "COMPLETED",
-      },
-    });
-
-    // Get final rankings (top 10 to check for rising stars)
-    const finalRankings = await prisma.leaderboardEntry.findMany({
-      where: { seasonId: id },
-      orderBy: { rank: "asc" },
-      take: 10,
-      include: {
-        athlete: {
-          select: {
-            id: true,
-            displayName: true,
-          },
-        },
-      },
-    });
-
-    // Award badges to top athletes (async, non-blocking)
-    const badgeAwardPromises: Promise<void>[] = [];
-
-    for (const entry of finalRankings) {
-      badgeAwardPromises.push(
-        badgeService.checkAndAwardBadges(entry.athleteId).catch((err) => {
-          console.error(
-            `Failed to check and award badges for athlete ${entry.athleteId}:`,
-            err
-          );
-        })
-      );
+    const hooks: SeasonHookResult[] = [];
+    if (season.status === "COMPLETED") {
+      await archiveFinalStandings(id);
+    } else {
+      hooks.push(...(await completeSeason(id)).flatMap((transition) => transition.hooks));
     }
 
-    // Wait for all badge awarding to complete before sending response
-    await Promise.allSettled(badgeAwardPromises);
-
-    // Create season completion event
-    await createEvent({
-      type: "SEASON_COMPLETED",
-      seasonId: id,
-      message: `${season.name} has been completed`,
-      data: {
-        topThree: finalRankings.slice(0, 3).map((entry) => ({
-          rank: entry.rank,
-          athleteId: entry.athleteId,
-          athleteName: entry.athlete.displayName,
-          ageReduction: entry.bestAgeReduction,
-        })),
-      },
-    });
+    const [completedSeason, finalRankings] = await Promise.all([
+      prisma.season.findUnique({ where: { id } }),
+      prisma.seasonFinalStanding.findMany({
+        where: { seasonId: id },
+        orderBy: { rank: "asc" },
+        take: 3,
+      }),
+    ]);
 
     return NextResponse.json({
       success: true,
       season: completedSeason,
-      finalRankings: finalRankings.slice(0, 3), // Return top 3 for display
+      finalRankings, // Top 3 for display
+      hooks,
       message: "Season completed successfully. Competition badges awarded to top athletes.",
     });
   } catch (error) {
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import { listSeasonPayouts, payoutsToCsv } from "@/lib/payouts";
+
+/**
+ * GET /api/admin/seasons/[id]/payouts/export
+ *
+ * The season's payout ledger as a CSV download for the treasurer.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const season = await prisma.season.findUnique({ where: { id }, select: { name: true, slug: true } });
+    if (!season) {
+      throw new NotFoundError("Season not found");
+    }
+
+    const csv = payoutsToCsv(season, await listSeasonPayouts(id));
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${season.slug}-payouts.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "export season payouts");
+  }
+}
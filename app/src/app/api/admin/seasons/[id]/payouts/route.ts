@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import {
+  PAYOUT_STATUSES,
+  calculateSeasonPayouts,
+  listSeasonPayouts,
+  totalPayouts,
+} from "@/lib/payouts";
+import type { SeasonPayout } from "@prisma/client";
+
+function withTotals(payouts: SeasonPayout[]) {
+  return {
+    data: payouts,
+    totals: {
+      all: totalPayouts(payouts),
+      ...Object.fromEntries(
+        PAYOUT_STATUSES.map((status) => [
+          status,
+          totalPayouts(payouts.filter((payout) => payout.status === status)),
+        ])
+      ),
+    },
+  };
+}
+
+/**
+ * GET /api/admin/seasons/[id]/payouts
+ *
+ * The season's payout ledger with totals overall and per status
+ * (CALCULATED, APPROVED, PAID).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const season = await prisma.season.findUnique({ where: { id }, select: { id: true } });
+    if (!season) {
+      throw new NotFoundError("Season not found");
+    }
+
+    return NextResponse.json(withTotals(await listSeasonPayouts(id)));
+  } catch (error) {
+    return handleApiError(error, "list season payouts");
+  }
+}
+
+/**
+ * POST /api/admin/seasons/[id]/payouts
+ *
+ * Calculates (or recalculates) the season's payouts from its final standings
+ * and current prize pool. Returns 409 before the season is completed and
+ * archived, or once any payout has been approved.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const payouts = await calculateSeasonPayouts(id);
+
+    return NextResponse.json(withTotals(payouts));
+  } catch (error) {
+    return handleApiError(error, "calculate season payouts");
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import { recomputeSeasonLeaderboard, takeRankSnapshots } from "@/lib/leaderboard";
+import { refreshAllLeagueScores } from "@/lib/league-scoring";
+
+/**
+ * POST /api/admin/seasons/[id]/recompute
+ *
+ * Rebuilds the season's individual and league leaderboards from its approved
+ * submissions. Safe to run repeatedly; unchanged entries are not rewritten.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const season = await prisma.season.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!season) {
+      throw new NotFoundError("Season not found");
+    }
+
+    const { created, updated, removed, standings } = await recomputeSeasonLeaderboard(id);
+    const leagues = await refreshAllLeagueScores(id);
+    await takeRankSnapshots(id, "EVENT");
+
+    return NextResponse.json({
+      seasonId: id,
+      entries: standings.length,
+      created,
+      updated,
+      removed,
+      leagues,
+    });
+  } catch (error) {
+    return handleApiError(error, "recompute season leaderboard");
+  }
+}
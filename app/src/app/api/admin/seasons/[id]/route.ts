@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import { getNextSeasonStatus, isSeasonStatus, parseSeasonInput, updateSeason } from "@/lib/seasons";
+
+/**
+ * GET /api/admin/seasons/[id]
+ *
+ * A season with its submission counts and the status it can move to next.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const season = await prisma.season.findUnique({
+      where: { id },
+      include: { _count: { select: { submissions: true } } },
+    });
+
+    if (!season) {
+      throw new NotFoundError("Season not found");
+    }
+
+    return NextResponse.json({
+      ...season,
+      nextStatus: isSeasonStatus(season.status) ? getNextSeasonStatus(season.status) : null,
+    });
+  } catch (error) {
+    return handleApiError(error, "fetch season");
+  }
+}
+
+/**
+ * PATCH /api/admin/seasons/[id]
+ *
+ * Edits a season's name, dates, prize pool and rules. Status changes go
+ * through /transition and the ranking algorithm through /algorithm;
+ * completed seasons are read-only.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const season = await updateSeason(id, parseSeasonInput(await request.json(), true));
+
+    return NextResponse.json(season);
+  } catch (error) {
+    return handleApiError(error, "update season");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  BadRequestError,
+} from "@/lib/api-utils";
+import { SEASON_STATUSES, isSeasonStatus, transitionSeason } from "@/lib/seasons";
+
+/**
+ * POST /api/admin/seasons/[id]/transition
+ *
+ * Moves a season to its next status ahead of schedule, e.g. opening a season
+ * early or locking submissions. Body: `{ "status": "ACTIVE" | "LOCKED" | "COMPLETED" }`.
+ * Returns 409 when the move isn't the next step, another season is still
+ * active, or (for COMPLETED) submissions are still pending review.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const { status } = (await request.json()) as { status?: string };
+
+    if (!isSeasonStatus(status)) {
+      throw new BadRequestError(`status must be one of: ${SEASON_STATUSES.join(", ")}`);
+    }
+
+    const { season, from, to, hooks } = await transitionSeason(id, status);
+
+    return NextResponse.json({ season, from, to, hooks });
+  } catch (error) {
+    return handleApiError(error, "transition season");
+  }
+}
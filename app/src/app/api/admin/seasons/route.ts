@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { ensureAdmin, checkRateLimitOrError, handleApiError } from "@/lib/api-utils";
+import { createSeason, parseSeasonInput } from "@/lib/seasons";
+
+/**
+ * GET /api/admin/seasons
+ *
+ * All seasons, newest first, with submission counts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const seasons = await prisma.season.findMany({
+      orderBy: { startDate: "desc" },
+      include: { _count: { select: { submissions: true } } },
+    });
+
+    return NextResponse.json({ data: seasons });
+  } catch (error) {
+    return handleApiError(error, "fetch seasons");
+  }
+}
+
+/**
+ * POST /api/admin/seasons
+ *
+ * Creates a season. It starts UPCOMING and opens on its startDate (see
+ * /api/cron/season-transitions). Slug defaults to `season-<year>`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const season = await createSeason(parseSeasonInput(await request.json()));
+
+    return NextResponse.json(season, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "create season");
+  }
+}
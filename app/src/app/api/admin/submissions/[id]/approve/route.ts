@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
-import { onSubmissionApproved } from "@/lib/league-scoring";
+import { applySubmissionChange } from "@/lib/leaderboard";
 import { sendSubmissionApproved } from "@/lib/email";
 import { badgeService } from "@/lib/badges";
+import { ConflictError, handleApiError } from "@/lib/api-utils";
+import { buildStatusChange } from "@/lib/submissions";
 
 export async function POST(
   request: NextRequest,
@@ -43,89 +45,26 @@ export async function POST(
       );
     }
 
-    // Approve the submission
-    const updatedSubmission = await prisma.biomarkerSubmission.update({
-      where: { id },
-      data: {
-        status: "APPROVED",
-        verifiedBy: user.id,
-        verifiedAt: new Date(),
-      },
-    });
-
-    // Update or create leaderboard entry
-    const existingEntry = await prisma.leaderboardEntry.findUnique({
-      where: {
-        athleteId_seasonId: {
-          athleteId: submission.athleteId,
-          seasonId: submission.seasonId,
-        },
-      },
-    });
-
-    if (existingEntry) {
-      // Update if this submission is better
-      if (submission.ageReduction > existingEntry.bestAgeReduction) {
-        await prisma.leaderboardEntry.update({
-          where: { id: existingEntry.id },
-          data: {
-            bestPhenoAge: submission.phenoAge,
-            bestAgeReduction: submission.ageReduction,
-            bestPaceOfAging: submission.paceOfAging,
-            submissionCount: { increment: 1 },
-          },
-        });
-      } else {
-        await prisma.leaderboardEntry.update({
-          where: { id: existingEntry.id },
-          data: {
-            submissionCount: { increment: 1 },
-          },
-        });
-      }
-    } else {
-      // Get current rank count
-      const entryCount = await prisma.leaderboardEntry.count({
-        where: { seasonId: submission.seasonId },
-      });
-
-      await prisma.leaderboardEntry.create({
+    // Approve the submission and rebuild the season standings with it
+    const { result: updatedSubmission, leaderboard } = await applySubmissionChange(submission, async (tx) => {
+      // Guarded on PENDING, so concurrent reviews can't both apply
+      const { count } = await tx.biomarkerSubmission.updateMany({
+        where: { id, status: "PENDING" },
         data: {
-          athleteId: submission.athleteId,
-          seasonId: submission.seasonId,
-          rank: entryCount + 1,
-          bestPhenoAge: submission.phenoAge,
-          bestAgeReduction: submission.ageReduction,
-          bestPaceOfAging: submission.paceOfAging,
-          submissionCount: 1,
+          status: "APPROVED",
+          verifiedBy: user.id,
+          verifiedAt: new Date(),
         },
       });
-    }
-
-    // Recalculate ranks
-    const allEntries = await prisma.leaderboardEntry.findMany({
-      where: { seasonId: submission.seasonId },
-      orderBy: { bestAgeReduction: "desc" },
-    });
+      if (count === 0) {
+        throw new ConflictError("Submission was reviewed meanwhile");
+      }
 
-    for (let i = 0; i < allEntries.length; i++) {
-      await prisma.leaderboardEntry.update({
-        where: { id: allEntries[i].id },
-        data: {
-          previousRank: allEntries[i].rank,
-          rank: i + 1,
-        },
+      await tx.submissionStatusChange.create({
+        data: { submissionId: id, ...buildStatusChange("APPROVED", submission.status, { changedBy: user.id }) },
       });
-    }
-
-    // Update league leaderboard if submission has a league
-    if (submission.leagueId) {
-      await onSubmissionApproved(
-        submission.athleteId,
-        submission.leagueId,
-        submission.seasonId
-      );
-    }
+      return tx.biomarkerSubmission.findUniqueOrThrow({ where: { id } });
+    });
 
     // Create event
     await prisma.event.create({
@@ -147,7 +86,7 @@ export async function POST(
     });
 
     // Get athlete's new rank and previous rank
-    const athleteEntry = allEntries.find((e) => e.athleteId === submission.athleteId);
+    const athleteEntry = leaderboard.standings.find((e) => e.athleteId === submission.athleteId);
     const newRank = athleteEntry?.rank ?? 1;
     const previousRank = athleteEntry?.previousRank ?? undefined;
 
@@ -174,10 +113,6 @@ export async function POST(
       submission: updatedSubmission,
     });
   } catch (error) {
-    console.error("Error approving submission:", error);
-    return NextResponse.json(
-      { error: "Failed to approve submission" },
-      { status: 500 }
-    );
+    return handleApiError(error, "approve submission");
   }
 }
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import { getSubmissionHistory } from "@/lib/submissions";
+
+/**
+ * GET /api/admin/submissions/[id]/history
+ *
+ * The submission's status changes, oldest first: the action, the statuses
+ * before and after, who made it (with their role) and the reason given.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const submission = await prisma.biomarkerSubmission.findUnique({
+      where: { id },
+      select: { id: true, status: true },
+    });
+    if (!submission) {
+      throw new NotFoundError("Submission not found");
+    }
+
+    const history = await getSubmissionHistory(id);
+    const userIds = [...new Set(history.flatMap((change) => (change.changedBy ? [change.changedBy] : [])))];
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, email: true, role: true },
+    });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    return NextResponse.json({
+      submissionId: id,
+      status: submission.status,
+      history: history.map((change) => ({
+        ...change,
+        changedBy: change.changedBy ? (usersById.get(change.changedBy) ?? { id: change.changedBy }) : null,
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error, "get submission history");
+  }
+}
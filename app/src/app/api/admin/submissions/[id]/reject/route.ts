@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { applySubmissionChange } from "@/lib/leaderboard";
 import { sendSubmissionRejected } from "@/lib/email";
+import { badgeService } from "@/lib/badges";
+import { ConflictError, handleApiError } from "@/lib/api-utils";
+import { assertReviewable, buildStatusChange } from "@/lib/submissions";
 
 export async function POST(
   request: NextRequest,
@@ -30,31 +34,59 @@ export async function POST(
     // Get the submission
     const submission = await prisma.biomarkerSubmission.findUnique({
       where: { id },
-      include: { athlete: true },
+      include: { athlete: true, season: true },
     });
 
     if (!submission) {
       return NextResponse.json({ error: "Submission not found" }, { status: 404 });
     }
 
-    if (submission.status !== "PENDING") {
+    if (submission.status === "REJECTED") {
       return NextResponse.json(
-        { error: "Submission already processed" },
+        { error: "Submission already rejected" },
         { status: 400 }
       );
     }
 
-    // Reject the submission
-    const updatedSubmission = await prisma.biomarkerSubmission.update({
-      where: { id },
-      data: {
-        status: "REJECTED",
-        verifiedBy: user.id,
-        verifiedAt: new Date(),
-        rejectionReason: reason || "Submission rejected",
-      },
+    // Rejecting an approval rewrites the standings, so it follows the same
+    // rule as revocations: a completed season's results are final
+    if (submission.status === "APPROVED") {
+      assertReviewable(submission, "REJECTED");
+    }
+
+    // Reject the submission; an approved one also leaves the season standings
+    const { result: updatedSubmission } = await applySubmissionChange(submission, async (tx) => {
+      // Guarded on the status read above, so concurrent reviews can't both apply
+      const { count } = await tx.biomarkerSubmission.updateMany({
+        where: { id, status: submission.status },
+        data: {
+          status: "REJECTED",
+          verifiedBy: user.id,
+          verifiedAt: new Date(),
+          rejectionReason: reason || "Submission rejected",
+        },
+      });
+      if (count === 0) {
+        throw new ConflictError("Submission was reviewed meanwhile");
+      }
+
+      await tx.submissionStatusChange.create({
+        data: {
+          submissionId: id,
+          ...buildStatusChange("REJECTED", submission.status, {
+            changedBy: user.id,
+            reason: reason || "Submission rejected",
+          }),
+        },
+      });
+      return tx.biomarkerSubmission.findUniqueOrThrow({ where: { id } });
     });
 
+    // Badges that came with a withdrawn approval go with it
+    if (submission.status === "APPROVED" && submission.verifiedAt) {
+      await badgeService.revokeUnearnedBadges(submission.athleteId, submission.verifiedAt);
+    }
+
     // Create event
     await prisma.event.create({
       data: {
@@ -88,10 +120,6 @@ export async function POST(
       submission: updatedSubmission,
     });
   } catch (error) {
-    console.error("Error rejecting submission:", error);
-    return NextResponse.json(
-      { error: "Failed to reject submission" },
-      { status: 500 }
-    );
+    return handleApiError(error, "reject submission");
   }
 }
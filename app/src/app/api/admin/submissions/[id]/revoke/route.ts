@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  BadRequestError,
+} from "@/lib/api-utils";
+import { revokeApproval } from "@/lib/submissions";
+
+/**
+ * POST /api/admin/submissions/[id]/revoke
+ *
+ * Withdraws an approval: the submission returns to PENDING for re-review,
+ * the season leaderboard is rebuilt without it and badges earned since the
+ * approval that no longer hold are taken back. Only while the season is
+ * ACTIVE or LOCKED.
+ *
+ * Body: { reason: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.reason !== "string" || !body.reason.trim()) {
+      throw new BadRequestError("reason is required");
+    }
+
+    const result = await revokeApproval(id, {
+      userId: adminResult.context.user.id,
+      reason: body.reason,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return handleApiError(error, "revoke submission approval");
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  ensureAdmin,
+  checkRateLimitOrError,
+  handleApiError,
+  createEvent,
+  ConflictError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import { applySubmissionChange } from "@/lib/leaderboard";
+import { badgeService } from "@/lib/badges";
+import { assertSeasonReviewable } from "@/lib/submissions";
+
+/**
+ * DELETE /api/admin/submissions/[id]
+ *
+ * Deletes a submission and rebuilds its season's standings without it.
+ * Approved submissions follow the rule of rejections: they can only be
+ * deleted while their season is ACTIVE or LOCKED, and badges that came with
+ * them are revoked.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "admin");
+    if (rateLimitError) return rateLimitError;
+
+    const adminResult = await ensureAdmin();
+    if (!adminResult.success) {
+      return adminResult.response;
+    }
+
+    const { id } = await params;
+    const submission = await prisma.biomarkerSubmission.findUnique({
+      where: { id },
+      include: { athlete: { select: { displayName: true } }, season: true },
+    });
+
+    if (!submission) {
+      throw new NotFoundError("Submission not found");
+    }
+
+    if (submission.status === "APPROVED") {
+      assertSeasonReviewable(submission.season);
+    }
+
+    await applySubmissionChange(submission, async (tx) => {
+      // Drafts only reference their submission by id
+      await tx.submissionDraft.updateMany({
+        where: { submissionId: id },
+        data: { status: "DISCARDED", submissionId: null },
+      });
+      // Guarded on the status read above, so a concurrent review can't slip in
+      const { count } = await tx.biomarkerSubmission.deleteMany({
+        where: { id, status: submission.status },
+      });
+      if (count === 0) {
+        throw new ConflictError("Submission was reviewed meanwhile");
+      }
+    });
+
+    if (submission.status === "APPROVED" && submission.verifiedAt) {
+      await badgeService.revokeUnearnedBadges(submission.athleteId, submission.verifiedAt);
+    }
+
+    await createEvent({
+      type: "SUBMISSION_DELETED",
+      athleteId: submission.athleteId,
+      seasonId: submission.seasonId,
+      message: `${submission.athlete.displayName}'s biomarker submission was deleted`,
+      data: { submissionId: id, status: submission.status },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "delete submission");
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
+import { checkRateLimitOrError, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { getAthleteRankHistory } from "@/lib/leaderboard";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/athletes/[slug]/rank-history?seasonId=
+ *
+ * Daily global, division and generation ranks of an athlete in a season
+ * (the current season by default), oldest first.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request);
+    if (rateLimitError) return rateLimitError;
+
+    const { slug } = await params;
+    const seasonId = new URL(request.url).searchParams.get("seasonId");
+
+    const athlete = await prisma.athlete.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!athlete) {
+      throw new NotFoundError("Athlete not found");
+    }
+
+    const season = seasonId
+      ? await prisma.season.findUnique({ where: { id: seasonId } })
+      : await getCurrentSeason();
+
+    if (!season) {
+      return NextResponse.json({ data: [], season: null });
+    }
+
+    return NextResponse.json({
+      data: await getAthleteRankHistory(athlete.id, season.id),
+      season: { id: season.id, name: season.name, year: season.year },
+    });
+  } catch (error) {
+    return handleApiError(error, "fetch rank history");
+  }
+}
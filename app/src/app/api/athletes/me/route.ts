@@ -4,7 +4,9 @@ import {
   ensureAuth,
   handleApiError,
   athleteFullInclude,
+  BadRequestError,
 } from "@/lib/api-utils";
+import { calculateChronologicalAge } from "@/lib/phenoage";
 
 // GET /api/athletes/me - Get current user's athlete profile
 export async function GET() {
@@ -77,6 +79,33 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    // Opt-in: league managers only see biomarker values in exports when set
+    if (body.shareBiomarkersWithLeagues !== undefined) {
+      if (typeof body.shareBiomarkersWithLeagues !== "boolean") {
+        throw new BadRequestError("shareBiomarkersWithLeagues must be a boolean");
+      }
+      updateData.shareBiomarkersWithLeagues = body.shareBiomarkersWithLeagues;
+    }
+
+    // Profiles created before birth dates were collected can set one once,
+    // within the birth year already on record
+    if (body.birthDate !== undefined) {
+      if (athlete.birthDate) {
+        throw new BadRequestError("Birth date cannot be changed");
+      }
+
+      const birthDate = new Date(`${body.birthDate}T00:00:00.000Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(body.birthDate) || isNaN(birthDate.getTime())) {
+        throw new BadRequestError("Invalid birth date");
+      }
+      if (birthDate.getUTCFullYear() !== athlete.birthYear) {
+        throw new BadRequestError(`Birth date must be in ${athlete.birthYear}`);
+      }
+
+      updateData.birthDate = birthDate;
+      updateData.chronologicalAge = Math.floor(calculateChronologicalAge(birthDate));
+    }
+
     const updatedAthlete = await prisma.athlete.update({
       where: { id: athlete.id },
       data: updateData,
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
 import { getGenerationFromBirthYear } from "@/lib/utils";
+import { calculateChronologicalAge } from "@/lib/phenoage";
 import { Prisma } from "@prisma/client";
 import { sendWelcomeEmail } from "@/lib/email";
 
@@ -40,9 +42,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get active season for rank info
-    const activeSeason = await prisma.season.findFirst({
-      where: { status: "ACTIVE" },
-    });
+    const activeSeason = await getCurrentSeason();
 
     const [athletes, total] = await Promise.all([
       prisma.athlete.findMany({
@@ -151,10 +151,10 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { displayName, birthYear, division: divisionInput, leagueId } = body;
+    const { displayName, birthDate: birthDateInput, division: divisionInput, leagueId } = body;
 
     // Validate input
-    if (!displayName || !birthYear || !divisionInput) {
+    if (!displayName || !birthDateInput || !divisionInput) {
       return NextResponse.json(
         { error: "Missing required fields" },
         { status: 400 }
@@ -190,8 +190,17 @@ export async function POST(request: NextRequest) {
     };
     const division = divisionMap[divisionInput.toLowerCase()] || "OPEN";
 
-    const currentYear = new Date().getFullYear();
-    const chronologicalAge = currentYear - birthYear;
+    // Birth date as YYYY-MM-DD, stored as UTC midnight
+    const birthDate = new Date(`${birthDateInput}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(birthDateInput) || isNaN(birthDate.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid birth date" },
+        { status: 400 }
+      );
+    }
+
+    const birthYear = birthDate.getUTCFullYear();
+    const chronologicalAge = Math.floor(calculateChronologicalAge(birthDate));
 
     if (chronologicalAge < 18) {
       return NextResponse.json(
@@ -249,6 +258,7 @@ export async function POST(request: NextRequest) {
         userId: dbUser.id,
         displayName,
         slug,
+        birthDate,
         birthYear,
         chronologicalAge,
         division,
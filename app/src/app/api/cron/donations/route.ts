@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, requireCronSecret } from "@/lib/api-utils";
+import { syncDonations } from "@/lib/donations";
+
+/**
+ * GET /api/cron/donations
+ *
+ * Polls the chain adapter for every season still taking donations, records
+ * new transactions to its bitcoinAddress and confirms those with enough
+ * confirmations into the prize pool, valuing any donation confirmed before
+ * a BTC/USD rate was known. Called by the scheduler with
+ * `Authorization: Bearer $CRON_SECRET`; transactions are deduped by txHash, so
+ * reruns only pick up what changed on chain.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const seasons = await syncDonations();
+
+    return NextResponse.json({ seasons });
+  } catch (error) {
+    return handleApiError(error, "sync donations");
+  }
+}
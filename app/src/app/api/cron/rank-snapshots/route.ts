@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, requireCronSecret } from "@/lib/api-utils";
+import { takeDailyRankSnapshots } from "@/lib/leaderboard";
+
+/**
+ * GET /api/cron/rank-snapshots
+ *
+ * Daily snapshot of every active season's athlete and league ranks. Called
+ * by the scheduler with `Authorization: Bearer $CRON_SECRET`; running it
+ * again the same day refreshes that day's snapshot.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const snapshots = await takeDailyRankSnapshots();
+
+    return NextResponse.json({ snapshots });
+  } catch (error) {
+    return handleApiError(error, "take rank snapshots");
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleApiError, requireCronSecret } from "@/lib/api-utils";
+import { runScheduledTransitions } from "@/lib/seasons";
+
+/**
+ * GET /api/cron/season-transitions
+ *
+ * Applies every season transition that is due (open at startDate, lock after
+ * submissionDeadline, complete after endDate once review is done) and runs
+ * their hooks. Called by the scheduler with `Authorization: Bearer
+ * $CRON_SECRET`; runs with nothing due change nothing.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    requireCronSecret(request);
+
+    const { transitions, skipped } = await runScheduledTransitions();
+
+    return NextResponse.json({
+      transitions: transitions.map(({ season, from, to, hooks }) => ({
+        seasonId: season.id,
+        from,
+        to,
+        hooks,
+      })),
+      skipped,
+    });
+  } catch (error) {
+    return handleApiError(error, "run season transitions");
+  }
+}
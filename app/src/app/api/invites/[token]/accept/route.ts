@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { acceptInvite } from "@/lib/leagues";
+
+/**
+ * POST /api/invites/[token]/accept
+ *
+ * Join the invite's league with the invited role. The signed-in account must
+ * be the one the invite was sent to. Accounts without an athlete profile get
+ * 404 with needsOnboarding and come back here after onboarding.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const athlete = await prisma.athlete.findUnique({
+      where: { userId: user.id },
+      select: { id: true, displayName: true },
+    });
+    if (!athlete) {
+      return NextResponse.json(
+        { error: "Athlete profile required. Please complete onboarding first.", needsOnboarding: true },
+        { status: 404 }
+      );
+    }
+
+    const { token } = await params;
+    const result = await acceptInvite(token, {
+      email: user.email,
+      athleteId: athlete.id,
+      athleteName: athlete.displayName,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "accept invite");
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { declineInvite } from "@/lib/leagues";
+
+/**
+ * POST /api/invites/[token]/decline
+ *
+ * Turn down an invite. Only the account it was sent to can decline it; no
+ * athlete profile is needed.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+
+    const { token } = await params;
+    await declineInvite(token, userResult.context.user.email);
+
+    return NextResponse.json({ message: "Invite declined" });
+  } catch (error) {
+    return handleApiError(error, "decline invite");
+  }
+}
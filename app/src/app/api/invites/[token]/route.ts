@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { getInvitePreview } from "@/lib/leagues";
+
+/**
+ * GET /api/invites/[token]
+ *
+ * The league and state of an invite for its landing page. Public: the token
+ * itself is the secret.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const { token } = await params;
+    const invite = await getInvitePreview(token);
+    if (!invite) {
+      throw new NotFoundError("Invite not found");
+    }
+
+    return NextResponse.json({ invite });
+  } catch (error) {
+    return handleApiError(error, "fetch invite");
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { checkRateLimitOrError, ensureUser, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { getJoinLinkPreview, joinWithLink } from "@/lib/leagues";
+
+interface RouteParams {
+  params: Promise<{ code: string }>;
+}
+
+/**
+ * GET /api/join/[code]
+ *
+ * The league and state of a join link for its landing page. Public: the code
+ * itself is the secret.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const { code } = await params;
+    const link = await getJoinLinkPreview(code);
+    if (!link) {
+      throw new NotFoundError("Join link not found");
+    }
+
+    return NextResponse.json({ link });
+  } catch (error) {
+    return handleApiError(error, "fetch join link");
+  }
+}
+
+/**
+ * POST /api/join/[code]
+ *
+ * Join the link's league as a member, without approval. Accounts without an
+ * athlete profile get 404 with needsOnboarding and come back here after
+ * onboarding.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const athlete = await prisma.athlete.findUnique({
+      where: { userId: user.id },
+      select: { id: true, displayName: true },
+    });
+    if (!athlete) {
+      return NextResponse.json(
+        { error: "Athlete profile required. Please complete onboarding first.", needsOnboarding: true },
+        { status: 404 }
+      );
+    }
+
+    const { code } = await params;
+    const result = await joinWithLink(code, athlete);
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "join league");
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
+import {
+  checkRateLimitOrError,
+  createPaginatedResponse,
+  handleApiError,
+  parsePagination,
+} from "@/lib/api-utils";
+import { getSeasonImprovementStandings } from "@/lib/leaderboard";
+import type { ImprovementLeaderboardEntry } from "@/types";
+
+function isFilterSet(value: string | null): value is string {
+  return Boolean(value) && value !== "all" && value !== "All";
+}
+
+/**
+ * GET /api/leaderboard/most-improved
+ *
+ * Athletes ranked by how much their PhenoAge dropped between their first and
+ * best approved samples of a season (see lib/leaderboard/improvement for the
+ * sample rules). Takes the league leaderboard's filters - seasonId (current
+ * season by default), type, tier, search, page, limit - plus division and
+ * generation. search matches athlete and league names, case-insensitively.
+ * Filters narrow the list; ranks stay those of the whole season.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request);
+    if (rateLimitError) return rateLimitError;
+
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePagination(searchParams, { limit: 50 });
+    const seasonId = searchParams.get("seasonId");
+    const type = searchParams.get("type");
+    const tier = searchParams.get("tier");
+    const division = searchParams.get("division");
+    const generation = searchParams.get("generation");
+    const search = searchParams.get("search")?.trim().toLowerCase();
+
+    const season = seasonId
+      ? await prisma.season.findUnique({ where: { id: seasonId } })
+      : await getCurrentSeason();
+
+    if (!season) {
+      return NextResponse.json({ ...createPaginatedResponse([], pagination, 0), season: null });
+    }
+
+    const standings = await getSeasonImprovementStandings(season.id);
+
+    const [athletes, leagues] = await Promise.all([
+      prisma.athlete.findMany({
+        where: { id: { in: standings.map((s) => s.athleteId) } },
+        select: { id: true, displayName: true, slug: true, profilePicture: true },
+      }),
+      prisma.league.findMany({
+        where: { id: { in: [...new Set(standings.map((s) => s.leagueId))] } },
+        select: { id: true, name: true, slug: true, type: true, tier: true },
+      }),
+    ]);
+    const athletesById = new Map(athletes.map((a) => [a.id, a]));
+    const leaguesById = new Map(leagues.map((l) => [l.id, l]));
+
+    const filtered = standings.flatMap((standing) => {
+      const athlete = athletesById.get(standing.athleteId);
+      const league = leaguesById.get(standing.leagueId);
+      const matches =
+        (!isFilterSet(division) || standing.division === division.toUpperCase()) &&
+        (!isFilterSet(generation) || standing.generation === generation.toUpperCase()) &&
+        (!isFilterSet(type) || league?.type === type.toUpperCase()) &&
+        (!isFilterSet(tier) || league?.tier === tier.toUpperCase()) &&
+        (!search ||
+          athlete?.displayName.toLowerCase().includes(search) ||
+          league?.name.toLowerCase().includes(search));
+      return athlete && matches ? [{ standing, athlete, league }] : [];
+    });
+
+    const data: ImprovementLeaderboardEntry[] = filtered
+      .slice(pagination.skip, pagination.skip + pagination.limit)
+      .map(({ standing, athlete, league }) => ({
+        rank: standing.rank,
+        divisionRank: standing.divisionRank,
+        generationRank: standing.generationRank,
+        athlete: {
+          id: athlete.id,
+          displayName: athlete.displayName,
+          slug: athlete.slug,
+          profilePicture: athlete.profilePicture,
+          division: standing.division,
+          generation: standing.generation,
+        },
+        league: league ? { name: league.name, slug: league.slug } : null,
+        baselinePhenoAge: standing.baselinePhenoAge,
+        bestPhenoAge: standing.bestPhenoAge,
+        improvement: standing.improvement,
+        ageReductionChange: standing.ageReductionChange,
+        baselineDate: standing.baselineSampledAt.toISOString().slice(0, 10),
+        bestDate: standing.bestSampledAt.toISOString().slice(0, 10),
+        sampleCount: standing.sampleCount,
+      }));
+
+    return NextResponse.json({
+      ...createPaginatedResponse(data, pagination, filtered.length),
+      season: {
+        id: season.id,
+        name: season.name,
+        year: season.year,
+        status: season.status,
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "fetch most improved leaderboard");
+  }
+}
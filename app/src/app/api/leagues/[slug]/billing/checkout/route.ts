@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { checkRateLimitOrError, ensureUser, ForbiddenError, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { startCheckout } from "@/lib/billing";
+
+/**
+ * POST /api/leagues/[slug]/billing/checkout
+ *
+ * Start checkout for a subscription. Body: { tier: "STARTER" | "PRO" }.
+ * Returns the provider's checkout URL; the tier changes once the provider
+ * reports the payment through the billing webhook. League owner only.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug } = await params;
+    const league = await prisma.league.findUnique({ where: { slug } });
+    if (!league) {
+      throw new NotFoundError("League not found");
+    }
+    if (league.ownerId !== user.id) {
+      throw new ForbiddenError("Forbidden: Only the league owner can manage billing");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const manageUrl = new URL(`/leagues/${slug}/manage`, request.url);
+    const session = await startCheckout(league, body.tier, user.email, {
+      successUrl: `${manageUrl}?billing=success`,
+      cancelUrl: `${manageUrl}?billing=canceled`,
+    });
+
+    return NextResponse.json({ data: { url: session.url } }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "start checkout");
+  }
+}
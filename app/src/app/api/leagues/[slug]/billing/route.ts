@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { getBillingStatus } from "@/lib/billing";
+import { requireLeagueManager } from "@/lib/leagues";
+
+/**
+ * GET /api/leagues/[slug]/billing
+ *
+ * The league's tier, member limit and running subscription.
+ * League owners, admins and captains only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+
+    return NextResponse.json({ data: await getBillingStatus(league, user.id) });
+  } catch (error) {
+    return handleApiError(error, "fetch billing status");
+  }
+}
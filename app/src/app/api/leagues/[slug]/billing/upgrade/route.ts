@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { checkRateLimitOrError, ensureUser, ForbiddenError, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { getBillingStatus, upgradeSubscription } from "@/lib/billing";
+
+/**
+ * POST /api/leagues/[slug]/billing/upgrade
+ *
+ * Move the running subscription to a higher tier. Body: { tier: "PRO" }.
+ * The provider prorates the charge; the new tier and its member limit apply
+ * right away. League owner only.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug } = await params;
+    const league = await prisma.league.findUnique({ where: { slug } });
+    if (!league) {
+      throw new NotFoundError("League not found");
+    }
+    if (league.ownerId !== user.id) {
+      throw new ForbiddenError("Forbidden: Only the league owner can manage billing");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    await upgradeSubscription(league, body.tier);
+
+    const updated = await prisma.league.findUniqueOrThrow({ where: { id: league.id } });
+    return NextResponse.json({ data: await getBillingStatus(updated, user.id) });
+  } catch (error) {
+    return handleApiError(error, "upgrade subscription");
+  }
+}
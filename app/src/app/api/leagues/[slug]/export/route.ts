@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BadRequestError, checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { requireFeature } from "@/lib/entitlements";
+import {
+  EXPORT_CONTENT_TYPES,
+  getExportFilename,
+  parseExportRequest,
+  streamLeagueExport,
+  toReadableStream,
+} from "@/lib/league-export";
+import { requireLeagueManager } from "@/lib/leagues";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/leagues/[slug]/export?format=csv|xlsx&dataset=
+ *
+ * Download the league's data, streamed as it is read:
+ * - format=csv (default): one dataset per file; dataset is required
+ *   (members, submissions, standings, or dictionary for the column meanings)
+ * - format=xlsx: one sheet per dataset (or only `dataset`) plus a "Columns"
+ *   sheet with the column dictionary
+ *
+ * Biomarker values are blank for athletes who don't share them with their
+ * leagues. League owners, admins and captains only; CSV exports are a
+ * STARTER feature.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "export");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+    requireFeature(league, "CSV_EXPORT");
+
+    const searchParams = new URL(request.url).searchParams;
+    const { request: exportRequest, errors } = parseExportRequest({
+      format: searchParams.get("format"),
+      dataset: searchParams.get("dataset"),
+    });
+    if (errors.length > 0) {
+      throw new BadRequestError("Invalid export", errors);
+    }
+
+    const chunks = streamLeagueExport(league, exportRequest);
+
+    return new NextResponse(toReadableStream(chunks, { leagueId: league.id, ...exportRequest }), {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[exportRequest.format],
+        "Content-Disposition": `attachment; filename="${getExportFilename(league.slug, exportRequest)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "export league data");
+  }
+}
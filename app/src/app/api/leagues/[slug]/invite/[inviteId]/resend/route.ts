@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { requireLeagueManager, resendInvite } from "@/lib/leagues";
+
+/**
+ * POST /api/leagues/[slug]/invite/[inviteId]/resend
+ *
+ * Email an open or expired invite again and renew it for another 7 days.
+ * League owners, admins and captains only.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; inviteId: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug, inviteId } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+
+    const inviter = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { firstName: true, lastName: true },
+    });
+    const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ") || user.email;
+
+    const invite = await resendInvite(inviteId, league, inviterName);
+
+    return NextResponse.json({ data: invite });
+  } catch (error) {
+    return handleApiError(error, "resend invite");
+  }
+}
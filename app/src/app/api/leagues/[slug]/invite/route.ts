@@ -3,19 +3,14 @@ import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
 import { randomBytes } from "crypto";
 import { sendLeagueInvite } from "@/lib/email";
+import { handleApiError } from "@/lib/api-utils";
+import { requireMemberCapacity } from "@/lib/entitlements";
+import { getInviteExpiry } from "@/lib/leagues";
 
 interface RouteParams {
   params: Promise<{ slug: string }>;
 }
 
-// Tier limits for member count
-const TIER_LIMITS: Record<string, number> = {
-  FREE: 10,
-  STARTER: 50,
-  PRO: 250,
-  ENTERPRISE: Infinity,
-};
-
 // GET /api/leagues/[slug]/invite - List pending invites
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -82,6 +77,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       where: {
         leagueId: league.id,
         acceptedAt: null,
+        declinedAt: null,
         expiresAt: { gt: new Date() },
       },
       orderBy: { createdAt: "desc" },
@@ -135,11 +131,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     const league = await prisma.league.findUnique({
       where: { slug },
-      include: {
-        _count: {
-          select: { members: true },
-        },
-      },
     });
 
     if (!league) {
@@ -188,27 +179,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    // Check capacity
-    const tierLimit = TIER_LIMITS[league.tier] || 10;
-    const pendingInvites = await prisma.leagueInvite.count({
-      where: {
-        leagueId: league.id,
-        acceptedAt: null,
-        expiresAt: { gt: new Date() },
-      },
-    });
-
-    const totalPotential = league._count.members + pendingInvites + emails.length;
-    if (totalPotential > tierLimit) {
-      return NextResponse.json(
-        { error: `Cannot send ${emails.length} invites: would exceed member limit (${tierLimit}). Current: ${league._count.members} members, ${pendingInvites} pending invites.` },
-        { status: 400 }
-      );
-    }
+    // Every invite may become a member, so open ones count against the plan too
+    await requireMemberCapacity(prisma, league, emails.length, { countPendingInvites: true });
 
     // Create invites
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 day expiration
+    const expiresAt = getInviteExpiry(new Date());
 
     const invites = await Promise.all(
       emails.map(async (email: string) => {
@@ -241,6 +216,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
             leagueId: league.id,
             email: email.toLowerCase(),
             acceptedAt: null,
+            declinedAt: null,
             expiresAt: { gt: new Date() },
           },
         });
@@ -277,11 +253,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({ data: invites }, { status: 201 });
   } catch (error) {
-    console.error("Error creating invites:", error);
-    return NextResponse.json(
-      { error: "Failed to create invites" },
-      { status: 500 }
-    );
+    return handleApiError(error, "create invites");
   }
 }
 
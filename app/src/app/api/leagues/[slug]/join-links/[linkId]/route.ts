@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { requireLeagueManager, revokeJoinLink } from "@/lib/leagues";
+
+/**
+ * DELETE /api/leagues/[slug]/join-links/[linkId]
+ *
+ * Revoke a join link; it stops working immediately.
+ * League owners, admins and captains only.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; linkId: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug, linkId } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+    await revokeJoinLink(league.id, linkId);
+
+    return NextResponse.json({ message: "Join link revoked" });
+  } catch (error) {
+    return handleApiError(error, "revoke join link");
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BadRequestError, checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { createJoinLink, listJoinLinks, parseJoinLinkOptions, requireLeagueManager } from "@/lib/leagues";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/leagues/[slug]/join-links
+ *
+ * The league's join links that haven't been revoked, newest first.
+ * League owners, admins and captains only.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+
+    return NextResponse.json({ data: await listJoinLinks(league.id) });
+  } catch (error) {
+    return handleApiError(error, "fetch join links");
+  }
+}
+
+/**
+ * POST /api/leagues/[slug]/join-links
+ *
+ * Create a join link. Body: { maxUses?: number | null, expiresAt?: ISO date | null }.
+ * League owners, admins and captains only.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+    if (league.status !== "ACTIVE") {
+      throw new BadRequestError("Cannot create join links: League is not active");
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { options, errors } = parseJoinLinkOptions(body, new Date());
+    if (errors.length > 0) {
+      throw new BadRequestError("Invalid join link", errors);
+    }
+
+    const link = await createJoinLink(league.id, user.id, options);
+
+    return NextResponse.json({ data: link }, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "create join link");
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { approveJoinRequest, requireLeagueManager } from "@/lib/leagues";
+
+/**
+ * POST /api/leagues/[slug]/join-requests/[requestId]/approve
+ *
+ * Approve a pending join request; the athlete joins as a member and the
+ * league's managers are notified. League owners, admins and captains only.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; requestId: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug, requestId } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+    const result = await approveJoinRequest(requestId, league, user.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleApiError(error, "approve join request");
+  }
+}
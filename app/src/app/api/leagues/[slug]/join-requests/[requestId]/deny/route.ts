@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { denyJoinRequest, requireLeagueManager } from "@/lib/leagues";
+
+/**
+ * POST /api/leagues/[slug]/join-requests/[requestId]/deny
+ *
+ * Deny a pending join request. The athlete may ask again later.
+ * League owners, admins and captains only.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string; requestId: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { slug, requestId } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+    await denyJoinRequest(requestId, league.id, user.id);
+
+    return NextResponse.json({ message: "Join request denied" });
+  } catch (error) {
+    return handleApiError(error, "deny join request");
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BadRequestError, checkRateLimitOrError, ensureUser, handleApiError } from "@/lib/api-utils";
+import { JOIN_REQUEST_STATUSES, listJoinRequests, requireLeagueManager, type JoinRequestStatus } from "@/lib/leagues";
+
+/**
+ * GET /api/leagues/[slug]/join-requests?status=PENDING
+ *
+ * The league's join requests in one status (PENDING by default), oldest first.
+ * League owners, admins and captains only.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const userResult = await ensureUser();
+    if (!userResult.success) {
+      return userResult.response;
+    }
+    const { user } = userResult.context;
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "PENDING";
+    if (!(JOIN_REQUEST_STATUSES as readonly string[]).includes(status)) {
+      throw new BadRequestError(`Invalid status. Must be one of: ${JOIN_REQUEST_STATUSES.join(", ")}`);
+    }
+
+    const { slug } = await params;
+    const league = await requireLeagueManager(slug, user.id);
+
+    return NextResponse.json({ data: await listJoinRequests(league.id, status as JoinRequestStatus) });
+  } catch (error) {
+    return handleApiError(error, "fetch join requests");
+  }
+}
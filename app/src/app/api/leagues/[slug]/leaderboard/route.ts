@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
 
 interface RouteParams {
   params: Promise<{ slug: string }>;
@@ -33,9 +34,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         where: { id: seasonId },
       });
     } else {
-      season = await prisma.season.findFirst({
-        where: { status: "ACTIVE" },
-      });
+      season = await getCurrentSeason();
     }
 
     if (!season) {
@@ -1,18 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
-import { sendLeagueMemberJoined } from "@/lib/email";
-import { badgeService } from "@/lib/badges";
-
-const MAX_LEAGUES_PER_ATHLETE = 3;
-
-// Tier limits for member count
-const TIER_LIMITS: Record<string, number> = {
-  FREE: 10,
-  STARTER: 50,
-  PRO: 250,
-  ENTERPRISE: Infinity,
-};
+import { handleApiError } from "@/lib/api-utils";
+import {
+  MEMBERSHIP_PROBLEM_STATUS,
+  addLeagueMember,
+  getMembershipContext,
+  getMembershipProblem,
+  notifyLeagueManagers,
+  requestToJoin,
+  toProblemError,
+} from "@/lib/leagues";
+
+// Longest note an athlete can attach to a join request
+const MAX_JOIN_MESSAGE_LENGTH = 500;
 
 interface RouteParams {
   params: Promise<{ slug: string }>;
@@ -120,7 +121,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
-// POST /api/leagues/[slug]/members - Join league
+// POST /api/leagues/[slug]/members - Join league (or ask to, for REQUEST-policy leagues)
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { userId } = await auth();
@@ -154,11 +155,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Get league
     const league = await prisma.league.findUnique({
       where: { slug },
-      include: {
-        _count: {
-          select: { members: true },
-        },
-      },
     });
 
     if (!league) {
@@ -168,108 +164,49 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    if (league.status !== "ACTIVE") {
-      return NextResponse.json(
-        { error: "This league is not accepting new members" },
-        { status: 400 }
-      );
+    // REQUEST-policy leagues queue a join request for the managers instead
+    if (league.joinPolicy === "REQUEST") {
+      const body = await request.json().catch(() => ({}));
+      const message = typeof body.message === "string" ? body.message.trim().slice(0, MAX_JOIN_MESSAGE_LENGTH) : "";
+      const joinRequest = await requestToJoin(league, athlete, message || null);
+      return NextResponse.json({ request: joinRequest, pending: true }, { status: 202 });
     }
 
-    // Check if already a member
-    const existingMembership = await prisma.leagueMember.findUnique({
-      where: {
-        leagueId_athleteId: {
-          leagueId: league.id,
-          athleteId: athlete.id,
-        },
-      },
-    });
-
-    if (existingMembership) {
-      return NextResponse.json(
-        { error: "You are already a member of this league" },
-        { status: 400 }
-      );
-    }
-
-    // Check athlete's current league count
-    const athleteLeagueCount = await prisma.leagueMember.count({
-      where: { athleteId: athlete.id },
-    });
-
-    if (athleteLeagueCount >= MAX_LEAGUES_PER_ATHLETE) {
-      return NextResponse.json(
-        { error: `Maximum ${MAX_LEAGUES_PER_ATHLETE} league memberships allowed per athlete` },
-        { status: 400 }
-      );
-    }
-
-    // Check league capacity
-    const tierLimit = TIER_LIMITS[league.tier] || 10;
-    if (league._count.members >= tierLimit) {
-      return NextResponse.json(
-        { error: `This league has reached its member limit (${tierLimit}). The league owner can upgrade to add more members.` },
-        { status: 400 }
-      );
-    }
+    const membership = await prisma.$transaction(async (tx) => {
+      const problem = getMembershipProblem(await getMembershipContext(tx, league, athlete.id));
+      if (problem) {
+        throw toProblemError(problem, MEMBERSHIP_PROBLEM_STATUS);
+      }
 
-    // Create membership
-    const membership = await prisma.leagueMember.create({
-      data: {
-        leagueId: league.id,
-        athleteId: athlete.id,
-        role: "MEMBER",
-      },
-      include: {
-        athlete: {
-          select: {
-            id: true,
-            displayName: true,
-            slug: true,
-            profilePicture: true,
+      const { id } = await addLeagueMember(tx, league.id, athlete.id, "MEMBER");
+      return tx.leagueMember.findUniqueOrThrow({
+        where: { id },
+        include: {
+          athlete: {
+            select: {
+              id: true,
+              displayName: true,
+              slug: true,
+              profilePicture: true,
+            },
           },
-        },
-        league: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
+          league: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+            },
           },
         },
-      },
-    });
-
-    // Check and award badges (async, non-blocking)
-    badgeService.checkAndAwardBadges(athlete.id).catch((err) => {
-      console.error("Failed to check and award badges:", err);
+      });
     });
 
-    // Notify league owner about new member (async, non-blocking)
-    if (league.ownerId) {
-      const owner = await prisma.user.findUnique({
-        where: { id: league.ownerId },
-        select: { email: true, firstName: true },
-      });
-      if (owner?.email) {
-        const newMemberCount = league._count.members + 1;
-        sendLeagueMemberJoined(owner.email, {
-          ownerName: owner.firstName || "League Owner",
-          leagueName: league.name,
-          newMemberName: athlete.displayName,
-          memberCount: newMemberCount,
-        }).catch((err) => {
-          console.error("Failed to send league member joined email:", err);
-        });
-      }
-    }
+    // Award badges and email the owner and league admins (non-blocking)
+    await notifyLeagueManagers(league, athlete);
 
     return NextResponse.json(membership, { status: 201 });
   } catch (error) {
-    console.error("Error joining league:", error);
-    return NextResponse.json(
-      { error: "Failed to join league" },
-      { status: 500 }
-    );
+    return handleApiError(error, "join league");
   }
 }
 
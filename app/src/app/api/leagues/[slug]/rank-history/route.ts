@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
+import { checkRateLimitOrError, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { requireFeature } from "@/lib/entitlements";
+import { getLeagueRankHistory } from "@/lib/leaderboard";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/leagues/[slug]/rank-history?seasonId=
+ *
+ * Daily league leaderboard ranks of a league in a season (the current season
+ * by default), oldest first. Rank history is advanced analytics (PRO and up).
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request);
+    if (rateLimitError) return rateLimitError;
+
+    const { slug } = await params;
+    const seasonId = new URL(request.url).searchParams.get("seasonId");
+
+    const league = await prisma.league.findUnique({
+      where: { slug },
+      select: { id: true, name: true, tier: true },
+    });
+
+    if (!league) {
+      throw new NotFoundError("League not found");
+    }
+
+    requireFeature(league, "ADVANCED_ANALYTICS");
+
+    const season = seasonId
+      ? await prisma.season.findUnique({ where: { id: seasonId } })
+      : await getCurrentSeason();
+
+    if (!season) {
+      return NextResponse.json({ data: [], season: null });
+    }
+
+    return NextResponse.json({
+      data: await getLeagueRankHistory(league.id, season.id),
+      season: { id: season.id, name: season.name, year: season.year },
+    });
+  } catch (error) {
+    return handleApiError(error, "fetch league rank history");
+  }
+}
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { handleApiError } from "@/lib/api-utils";
+import { requireFeature } from "@/lib/entitlements";
+import {
+  isScoringStrategy,
+  recalculateAllLeagueRanks,
+  SCORING_STRATEGY_IDS,
+  updateLeagueLeaderboardEntry,
+} from "@/lib/league-scoring";
+import { isJoinPolicy, JOIN_POLICIES } from "@/lib/leagues";
 
 interface RouteParams {
   params: Promise<{ slug: string }>;
@@ -82,6 +91,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       country: league.country,
       city: league.city,
       status: league.status,
+      joinPolicy: league.joinPolicy,
       verified: league.verified,
       verifiedAt: league.verifiedAt,
       owner: league.owner,
@@ -177,7 +187,26 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     const body = await request.json();
-    const { name, description, logo, country, city } = body;
+    const { name, description, logo, country, city, scoringStrategy, joinPolicy } = body;
+
+    if (scoringStrategy !== undefined && !isScoringStrategy(scoringStrategy)) {
+      return NextResponse.json(
+        { error: `Invalid scoring strategy. Must be one of: ${SCORING_STRATEGY_IDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (joinPolicy !== undefined && !isJoinPolicy(joinPolicy)) {
+      return NextResponse.json(
+        { error: `Invalid join policy. Must be one of: ${JOIN_POLICIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // A custom logo is branding; removing one is always allowed
+    if (logo && logo !== league.logo) {
+      requireFeature(league, "CUSTOM_BRANDING");
+    }
 
     // Update league (can't change type or tier via this endpoint)
     const updatedLeague = await prisma.league.update({
@@ -188,6 +217,8 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
         ...(logo !== undefined && { logo }),
         ...(country !== undefined && { country }),
         ...(city !== undefined && { city }),
+        ...(scoringStrategy !== undefined && { scoringStrategy }),
+        ...(joinPolicy !== undefined && { joinPolicy }),
       },
       include: {
         owner: {
@@ -204,16 +235,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       },
     });
 
+    // Rescore the active season under the new strategy
+    if (scoringStrategy !== undefined && scoringStrategy !== league.scoringStrategy) {
+      const activeSeason = await prisma.season.findFirst({
+        where: { status: "ACTIVE" },
+        select: { id: true },
+      });
+      if (activeSeason) {
+        await updateLeagueLeaderboardEntry(league.id, activeSeason.id);
+        await recalculateAllLeagueRanks(activeSeason.id);
+      }
+    }
+
     return NextResponse.json({
       ...updatedLeague,
       memberCount: updatedLeague._count.members,
     });
   } catch (error) {
-    console.error("Error updating league:", error);
-    return NextResponse.json(
-      { error: "Failed to update league" },
-      { status: 500 }
-    );
+    return handleApiError(error, "update league");
   }
 }
 
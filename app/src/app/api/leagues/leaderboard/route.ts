@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
 
 // GET /api/leagues/leaderboard - Get league leaderboard data
 export async function GET(request: NextRequest) {
@@ -18,9 +19,7 @@ export async function GET(request: NextRequest) {
         where: { id: seasonId },
       });
     } else {
-      season = await prisma.season.findFirst({
-        where: { status: "ACTIVE" },
-      });
+      season = await getCurrentSeason();
     }
 
     if (!season) {
@@ -107,6 +106,7 @@ export async function GET(request: NextRequest) {
         owner: entry.league.owner,
         memberCount: entry.league._count.members,
       },
+      scoringStrategy: entry.scoringStrategy,
       avgAgeReduction: entry.avgAgeReduction,
       totalMembers: entry.totalMembers,
       activeMembers: entry.activeMembers,
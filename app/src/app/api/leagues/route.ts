@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { ensureUser } from "@/lib/api-utils";
+import { ensureUser, handleApiError } from "@/lib/api-utils";
+import { requireFeature } from "@/lib/entitlements";
+import { isScoringStrategy, SCORING_STRATEGY_IDS } from "@/lib/league-scoring";
 
 // Helper to generate URL-friendly slug
 function generateSlug(name: string): string {
@@ -119,7 +121,7 @@ export async function POST(request: NextRequest) {
     const { user } = userResult.context;
 
     const body = await request.json();
-    const { name, description, type, country, city, logo } = body;
+    const { name, description, type, country, city, logo, scoringStrategy } = body;
 
     // Validate required fields
     if (!name || !type) {
@@ -138,6 +140,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (scoringStrategy !== undefined && !isScoringStrategy(scoringStrategy)) {
+      return NextResponse.json(
+        { error: `Invalid scoring strategy. Must be one of: ${SCORING_STRATEGY_IDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // New leagues start FREE, which has no custom branding
+    if (logo) {
+      requireFeature({ name, tier: "FREE" }, "CUSTOM_BRANDING");
+    }
+
     // Generate unique slug
     let slug = generateSlug(name);
     let slugExists = await prisma.league.findUnique({ where: { slug } });
@@ -159,6 +173,7 @@ export async function POST(request: NextRequest) {
         tier: "FREE", // All new leagues start as FREE
         country,
         city,
+        ...(scoringStrategy && { scoringStrategy }),
         status: "PENDING", // FREE tier needs admin approval
         ownerId: user.id,
       },
@@ -198,10 +213,6 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error) {
-    console.error("Error creating league:", error);
-    return NextResponse.json(
-      { error: "Failed to create league" },
-      { status: 500 }
-    );
+    return handleApiError(error, "create league");
   }
 }
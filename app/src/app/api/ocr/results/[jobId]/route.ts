@@ -8,6 +8,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/db';
+import {
+  aggregateConfidence,
+  getExtractionSummary,
+  type BiomarkerExtraction,
+  type BiomarkerKey,
+} from '@/lib/ocr';
 
 export async function GET(
   request: NextRequest,
@@ -76,19 +82,34 @@ export async function GET(
       );
     }
 
-    // Get extracted values (already parsed from Json type)
-    const extractedValues = job.extractedValues || null;
+    // Get extracted values (already parsed from Json type); jobs processed
+    // before a biomarker joined the catalog have no entry for it
+    const extractedValues = (job.extractedValues || null) as Partial<
+      Record<BiomarkerKey, BiomarkerExtraction>
+    > | null;
 
     return NextResponse.json({
       success: true,
       jobId: job.id,
       status: job.status,
       result: {
+        success: true,
         extractions: extractedValues,
         rawText: job.rawOcrText,
         pageCount: job.pageCount,
         processingTimeMs: job.processingTime,
+        errors: [],
+        labTemplate: job.labTemplateId
+          ? {
+              id: job.labTemplateId,
+              name: job.labName,
+              version: job.labTemplateVersion,
+            }
+          : null,
+        collectedAt: job.collectedAt?.toISOString() ?? null,
       },
+      summary: extractedValues ? getExtractionSummary(extractedValues) : undefined,
+      stats: extractedValues ? aggregateConfidence(extractedValues) : undefined,
       originalFileName: job.originalFileName,
       fileType: job.fileType,
       createdAt: job.createdAt,
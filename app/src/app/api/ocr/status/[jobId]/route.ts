@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import { prisma } from '@/lib/db';
+import { failOrphanedOcrJob, getOcrJobProgress, getQueuePosition } from '@/lib/ocr';
 
 export async function GET(
   request: NextRequest,
@@ -34,11 +35,11 @@ export async function GET(
     }
 
     // Look up job in database
-    const job = await prisma.ocrJob.findUnique({
+    const storedJob = await prisma.ocrJob.findUnique({
       where: { id: jobId },
     });
 
-    if (!job) {
+    if (!storedJob) {
       return NextResponse.json(
         { success: false, error: 'Job not found' },
         { status: 404 }
@@ -46,13 +47,16 @@ export async function GET(
     }
 
     // Verify user owns this job
-    if (job.userId !== userId) {
+    if (storedJob.userId !== userId) {
       return NextResponse.json(
         { success: false, error: 'Access denied' },
         { status: 403 }
       );
     }
 
+    // A job whose process restarted would otherwise stay PENDING / PROCESSING forever
+    const job = await failOrphanedOcrJob(storedJob);
+
     // Calculate progress based on status
     let progress = 0;
     switch (job.status) {
@@ -60,7 +64,8 @@ export async function GET(
         progress = 0;
         break;
       case 'PROCESSING':
-        progress = 50;
+        // Page-level progress is only known to the process running the job
+        progress = getOcrJobProgress(job.id) ?? 50;
         break;
       case 'COMPLETED':
         progress = 100;
@@ -75,6 +80,7 @@ export async function GET(
       jobId: job.id,
       status: job.status,
       progress,
+      queuePosition: job.status === 'PENDING' ? getQueuePosition(job.id) : undefined,
       pageCount: job.pageCount,
       createdAt: job.createdAt,
       completedAt: job.completedAt,
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { checkRateLimitOrError, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { getRecentDonations } from "@/lib/donations";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/seasons/[slug]/donations
+ *
+ * A season's latest confirmed donations, newest first. Donor names are only
+ * included for donors who chose not to stay anonymous.
+ *
+ * Query: limit (default 10, max 50)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request);
+    if (rateLimitError) return rateLimitError;
+
+    const { slug } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "10") || 10, 1), 50);
+
+    const season = await prisma.season.findUnique({ where: { slug }, select: { id: true } });
+    if (!season) {
+      throw new NotFoundError("Season not found");
+    }
+
+    const donations = await getRecentDonations(season.id, limit);
+
+    return NextResponse.json({
+      donations: donations.map((donation) => ({
+        id: donation.id,
+        donorName: donation.anonymous ? undefined : donation.donorName ?? undefined,
+        amountBTC: donation.amountBTC,
+        amountUSD: donation.amountUSD,
+        anonymous: donation.anonymous,
+        txHash: donation.txHash,
+        createdAt: (donation.confirmedAt ?? donation.createdAt).toISOString(),
+      })),
+    });
+  } catch (error) {
+    return handleApiError(error, "get season donations");
+  }
+}
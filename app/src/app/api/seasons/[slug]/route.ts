@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, handleApiError, NotFoundError } from "@/lib/api-utils";
+import { getSeasonArchive } from "@/lib/seasons";
+
+interface RouteParams {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/seasons/[slug]
+ *
+ * A completed season's frozen final standings: overall podium with prize
+ * allocations, division and generation podiums, every ranked athlete and the
+ * league standings. Written once when the season completed, so the results
+ * never change afterwards.
+ *
+ * Returns 404 for seasons that aren't completed and archived.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request);
+    if (rateLimitError) return rateLimitError;
+
+    const { slug } = await params;
+    const archive = await getSeasonArchive(slug);
+    if (!archive) {
+      throw new NotFoundError("Season archive not found");
+    }
+
+    return NextResponse.json(archive);
+  } catch (error) {
+    return handleApiError(error, "get season archive");
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimitOrError, handleApiError } from "@/lib/api-utils";
+import { listSeasonArchives } from "@/lib/seasons";
+
+/**
+ * GET /api/seasons
+ *
+ * Completed seasons with an archive of their final standings, newest first,
+ * each with its champion and number of ranked athletes.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request);
+    if (rateLimitError) return rateLimitError;
+
+    const seasons = await listSeasonArchives();
+
+    return NextResponse.json({ data: seasons });
+  } catch (error) {
+    return handleApiError(error, "list season archives");
+  }
+}
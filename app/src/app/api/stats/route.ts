@@ -1,34 +1,43 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
+import { valuePrizePool } from "@/lib/prices";
 
-// GET /api/stats - Get platform statistics
+/**
+ * GET /api/stats - Get platform statistics
+ *
+ * prizePoolUSD is the sum of donations valued when each confirmed;
+ * prizePoolValuation adds the whole pool at the latest BTC/USD rate with the
+ * rate's timestamp and source.
+ */
 export async function GET() {
   try {
-    // Get active season
-    const activeSeason = await prisma.season.findFirst({
-      where: { status: "ACTIVE" },
-    });
+    // Get current season
+    const activeSeason = await getCurrentSeason();
 
     if (!activeSeason) {
       return NextResponse.json({
         athleteCount: 0,
         prizePoolBTC: 0,
         prizePoolUSD: 0,
+        prizePoolValuation: null,
         prizeGoalBTC: 1,
         prizeGoalUSD: 100000,
         year: new Date().getFullYear(),
       });
     }
 
-    // Get verified athlete count
-    const athleteCount = await prisma.athlete.count({
-      where: { status: "VERIFIED" },
-    });
+    // Get verified athlete count and the pool's current value
+    const [athleteCount, prizePoolValuation] = await Promise.all([
+      prisma.athlete.count({ where: { status: "VERIFIED" } }),
+      valuePrizePool(activeSeason),
+    ]);
 
     return NextResponse.json({
       athleteCount,
       prizePoolBTC: activeSeason.prizePoolBTC,
       prizePoolUSD: activeSeason.prizePoolUSD,
+      prizePoolValuation,
       prizeGoalBTC: activeSeason.prizeGoalBTC,
       prizeGoalUSD: activeSeason.prizeGoalUSD,
       year: activeSeason.year,
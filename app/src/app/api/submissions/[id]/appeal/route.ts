@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ensureAthlete,
+  checkRateLimitOrError,
+  handleApiError,
+  BadRequestError,
+} from "@/lib/api-utils";
+import { uploadProofImage } from "@/lib/storage";
+import { parseReportDate } from "@/lib/ocr/collection-date";
+import { appealRejection, getAppealableSubmission, type AppealInput } from "@/lib/submissions";
+
+/**
+ * POST /api/submissions/[id]/appeal
+ *
+ * Appeal a rejected submission with new evidence. The submission returns to
+ * PENDING for another review; its earlier proof stays attached. Corrected
+ * values may be sent along and are scored again like a new submission.
+ *
+ * Form data:
+ * - reason: why the submission should be reviewed again (required)
+ * - proof: one or more evidence files (required)
+ * - biomarkers: corrected values as JSON (optional; replaces all values)
+ * - collectedAt: corrected blood draw date, YYYY-MM-DD (optional)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "submission");
+    if (rateLimitError) return rateLimitError;
+
+    const athleteResult = await ensureAthlete();
+    if (!athleteResult.success) {
+      return athleteResult.response;
+    }
+    const { athlete } = athleteResult.context;
+
+    const { id } = await params;
+    const formData = await request.formData();
+    const reason = formData.get("reason");
+    const proofFiles = formData.getAll("proof").filter((entry): entry is File => entry instanceof File);
+    const biomarkersJson = formData.get("biomarkers") as string | null;
+    const collectedAtInput = formData.get("collectedAt") as string | null;
+
+    if (typeof reason !== "string" || !reason.trim()) {
+      throw new BadRequestError("reason is required");
+    }
+    if (proofFiles.length === 0) {
+      throw new BadRequestError("Attach new evidence to appeal");
+    }
+
+    let amendment: AppealInput["amendment"];
+    if (biomarkersJson || collectedAtInput) {
+      amendment = {};
+      if (biomarkersJson) {
+        try {
+          amendment.biomarkers = JSON.parse(biomarkersJson);
+        } catch {
+          throw new BadRequestError("Invalid biomarkers JSON format");
+        }
+      }
+      if (collectedAtInput) {
+        amendment.collectedAt = parseReportDate(collectedAtInput);
+        if (!amendment.collectedAt) {
+          throw new BadRequestError(`Invalid blood draw date: ${collectedAtInput}`);
+        }
+      }
+    }
+
+    // Check before uploading, so a refused appeal leaves no files behind
+    await getAppealableSubmission(id, athlete.id);
+
+    const proofImages: string[] = [];
+    for (const proofFile of proofFiles) {
+      const uploadResult = await uploadProofImage(Buffer.from(await proofFile.arrayBuffer()), {
+        athleteId: athlete.id,
+        submissionId: id,
+        filename: proofFile.name,
+        contentType: proofFile.type,
+      });
+      proofImages.push(uploadResult.url);
+    }
+
+    const updated = await appealRejection(id, athlete.id, athlete.userId, {
+      reason,
+      proofImages,
+      amendment,
+    });
+
+    return NextResponse.json({ success: true, submission: updated });
+  } catch (error) {
+    return handleApiError(error, "appeal submission");
+  }
+}
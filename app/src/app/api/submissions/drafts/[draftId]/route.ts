@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import {
+  ensureAthlete,
+  checkRateLimitOrError,
+  handleApiError,
+  BadRequestError,
+  NotFoundError,
+} from "@/lib/api-utils";
+import { getSubmissionDraftView, parseReportDate, type ConflictResolutions } from "@/lib/ocr";
+
+interface UpdateDraftBody {
+  /** Chosen source document per conflicting biomarker */
+  resolutions?: ConflictResolutions;
+  /** Collection dates entered for documents where none was detected (YYYY-MM-DD) */
+  collectionDates?: Record<string, string>;
+  /** Documents to detach from the draft */
+  removeDocuments?: string[];
+}
+
+/**
+ * Load an OPEN draft owned by the athlete or throw
+ */
+async function findOpenDraft(draftId: string, athleteId: string) {
+  const draft = await prisma.submissionDraft.findFirst({
+    where: { id: draftId, athleteId },
+    include: { documents: { select: { id: true } } },
+  });
+
+  if (!draft) {
+    throw new NotFoundError("Submission draft not found");
+  }
+  if (draft.status !== "OPEN") {
+    throw new BadRequestError(`Submission draft is ${draft.status.toLowerCase()}`);
+  }
+
+  return draft;
+}
+
+/**
+ * GET /api/submissions/drafts/[draftId]
+ *
+ * Returns the draft's documents with merged values, conflicts and the
+ * collection-date gap check.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const athleteResult = await ensureAthlete();
+    if (!athleteResult.success) {
+      return athleteResult.response;
+    }
+
+    const { draftId } = await params;
+    const view = await getSubmissionDraftView(draftId, athleteResult.context.athlete.id);
+
+    if (!view) {
+      return NextResponse.json({ error: "Submission draft not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(view);
+  } catch (error) {
+    return handleApiError(error, "fetch submission draft");
+  }
+}
+
+/**
+ * PATCH /api/submissions/drafts/[draftId]
+ *
+ * Resolves conflicts, sets missing collection dates or removes documents.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const athleteResult = await ensureAthlete();
+    if (!athleteResult.success) {
+      return athleteResult.response;
+    }
+
+    const { draftId } = await params;
+    const athleteId = athleteResult.context.athlete.id;
+    const draft = await findOpenDraft(draftId, athleteId);
+    const documentIds = new Set(draft.documents.map((document) => document.id));
+
+    const body = (await request.json()) as UpdateDraftBody;
+
+    for (const jobId of [
+      ...Object.values(body.resolutions ?? {}),
+      ...Object.keys(body.collectionDates ?? {}),
+      ...(body.removeDocuments ?? []),
+    ]) {
+      if (!documentIds.has(jobId)) {
+        throw new BadRequestError(`Document ${jobId} is not part of this draft`);
+      }
+    }
+
+    if (body.resolutions) {
+      await prisma.submissionDraft.update({
+        where: { id: draftId },
+        data: {
+          resolutions: {
+            ...(draft.resolutions as ConflictResolutions),
+            ...body.resolutions,
+          } as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    for (const [jobId, value] of Object.entries(body.collectionDates ?? {})) {
+      const collectedAt = parseReportDate(value);
+      if (!collectedAt) {
+        throw new BadRequestError(`Invalid collection date: ${value}`);
+      }
+      await prisma.ocrJob.update({
+        where: { id: jobId },
+        data: { collectedAt },
+      });
+    }
+
+    if (body.removeDocuments?.length) {
+      await prisma.ocrJob.updateMany({
+        where: { id: { in: body.removeDocuments }, draftId },
+        data: { draftId: null },
+      });
+    }
+
+    const view = await getSubmissionDraftView(draftId, athleteId);
+    return NextResponse.json(view);
+  } catch (error) {
+    return handleApiError(error, "update submission draft");
+  }
+}
+
+/**
+ * DELETE /api/submissions/drafts/[draftId]
+ *
+ * Discards the draft. Its OCR jobs are kept for the job history.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ draftId: string }> }
+) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const athleteResult = await ensureAthlete();
+    if (!athleteResult.success) {
+      return athleteResult.response;
+    }
+
+    const { draftId } = await params;
+    await findOpenDraft(draftId, athleteResult.context.athlete.id);
+
+    await prisma.submissionDraft.update({
+      where: { id: draftId },
+      data: { status: "DISCARDED" },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleApiError(error, "discard submission draft");
+  }
+}
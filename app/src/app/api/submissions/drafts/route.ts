@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { ensureAthlete, checkRateLimitOrError, handleApiError } from "@/lib/api-utils";
+
+/**
+ * POST /api/submissions/drafts
+ *
+ * Starts a multi-document submission draft. Lab documents are attached by
+ * uploading them to /api/ocr/upload with the returned draft id.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitError = checkRateLimitOrError(request, "api");
+    if (rateLimitError) return rateLimitError;
+
+    const athleteResult = await ensureAthlete();
+    if (!athleteResult.success) {
+      return athleteResult.response;
+    }
+
+    const draft = await prisma.submissionDraft.create({
+      data: {
+        athleteId: athleteResult.context.athlete.id,
+      },
+    });
+
+    return NextResponse.json(draft, { status: 201 });
+  } catch (error) {
+    return handleApiError(error, "create submission draft");
+  }
+}
@@ -1,9 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
-import { calculatePhenoAge, validateBiomarkers, type BiomarkerInput } from "@/lib/phenoage";
+import { calculateChronologicalAge } from "@/lib/phenoage";
+import { toBiomarkerValueRecords, validateBiomarkerValues } from "@/lib/biomarkers";
+import {
+  calculateBiologicalAges,
+  getBiologicalAgeAlgorithm,
+  validateAlgorithmInput,
+} from "@/lib/biological-age";
 import { uploadProofImage } from "@/lib/storage";
+import {
+  collectReferenceRanges,
+  getSubmissionDraftView,
+  type BiomarkerExtraction,
+  type BiomarkerKey,
+} from "@/lib/ocr";
+import { parseReportDate } from "@/lib/ocr/collection-date";
+import { checkSubmissionWindow, SubmissionWindowErrorCode } from "@/lib/submission-window";
 import { sendSubmissionConfirmation } from "@/lib/email";
+import { buildStatusChange } from "@/lib/submissions";
 import { rateLimiters, getClientIdentifier, createRateLimitResponse } from "@/lib/rate-limit";
 
 // GET /api/submissions - Get user's submissions
@@ -129,9 +145,13 @@ export async function POST(request: NextRequest) {
     // Parse form data
     const formData = await request.formData();
     const biomarkersJson = formData.get("biomarkers") as string;
-    const chronologicalAge = parseInt(formData.get("chronologicalAge") as string);
     const leagueId = formData.get("leagueId") as string;
-    const proofFile = formData.get("proof") as File | null;
+    // Multi-document submissions send one proof per lab document
+    const proofFiles = formData.getAll("proof").filter((entry): entry is File => entry instanceof File);
+    const ocrJobId = formData.get("ocrJobId") as string | null;
+    const draftId = formData.get("draftId") as string | null;
+    // Blood draw date entered by the athlete (YYYY-MM-DD); OCR-detected otherwise
+    const collectedAtInput = formData.get("collectedAt") as string | null;
 
     if (!biomarkersJson) {
       return NextResponse.json(
@@ -147,6 +167,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Age is computed from the birth date, never taken from the client
+    if (!athlete.birthDate) {
+      return NextResponse.json(
+        {
+          error: "Add your birth date to your profile before submitting",
+          code: SubmissionWindowErrorCode.BIRTH_DATE_REQUIRED,
+        },
+        { status: 400 }
+      );
+    }
+
     // Verify athlete is a member of the league
     const membership = await prisma.leagueMember.findUnique({
       where: {
@@ -184,82 +215,196 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate biomarkers
-    const input: BiomarkerInput = {
-      albumin: biomarkers.albumin,
-      creatinine: biomarkers.creatinine,
-      glucose: biomarkers.glucose,
-      crp: biomarkers.crp,
-      lymphocytePercent: biomarkers.lymphocytePercent,
-      mcv: biomarkers.mcv,
-      rdw: biomarkers.rdw,
-      alp: biomarkers.alp,
-      wbc: biomarkers.wbc,
-      chronologicalAge,
-    };
-
-    const validation = validateBiomarkers(input);
-    if (!validation.valid) {
-      return NextResponse.json(
-        { error: "Invalid biomarker values", details: validation.errors },
-        { status: 400 }
+    // Link the OCR source of the values: a single OCR job or a multi-document
+    // draft (also records which lab parser ran)
+    let ocrData: Partial<Prisma.BiomarkerSubmissionUncheckedCreateInput> = {};
+    let ocrCollectedAt: Date | null = null;
+    if (draftId) {
+      const draft = await getSubmissionDraftView(draftId, athlete.id);
+
+      if (!draft || draft.status !== "OPEN") {
+        return NextResponse.json(
+          { error: "Submission draft not found" },
+          { status: 404 }
+        );
+      }
+
+      if (draft.documents.some((document) => document.status !== "COMPLETED")) {
+        return NextResponse.json(
+          { error: "All documents must finish processing before submitting" },
+          { status: 400 }
+        );
+      }
+
+      if (draft.merged.unresolved.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Documents disagree on some biomarkers. Choose which value to use.",
+            conflicts: draft.merged.conflicts.filter((conflict) => conflict.resolvedJobId === null),
+          },
+          { status: 409 }
+        );
+      }
+
+      const { collectionGap } = draft;
+      if (!collectionGap.valid) {
+        return NextResponse.json(
+          {
+            error: collectionGap.missingDates.length > 0
+              ? `Collection date missing for: ${collectionGap.missingDates.join(", ")}`
+              : `Lab documents must be collected within ${collectionGap.maxGapDays} days of each other (found ${collectionGap.gapDays} days)`,
+            collectionGap,
+          },
+          { status: 400 }
+        );
+      }
+
+      const { documents } = draft;
+      const labs = [...new Set(documents.map((document) => document.labName).filter(Boolean))];
+      const templates = new Set(
+        documents.map((document) => `${document.labTemplateId}@${document.labTemplateVersion}`)
       );
+      const [template] = documents;
+      // Documents are within the allowed gap; the earliest draw counts
+      const collectionTimes = documents
+        .filter((document) => document.collectedAt)
+        .map((document) => new Date(document.collectedAt as string).getTime());
+      ocrCollectedAt = collectionTimes.length > 0 ? new Date(Math.min(...collectionTimes)) : null;
+
+      ocrData = {
+        entryMethod: "OCR_ASSISTED",
+        labName: labs.length > 0 ? labs.join(", ") : null,
+        // Template is only meaningful when every document used the same parser
+        labTemplateId: templates.size === 1 ? template.labTemplateId : null,
+        labTemplateVersion: templates.size === 1 ? template.labTemplateVersion : null,
+        referenceRanges: collectReferenceRanges(
+          draft.merged.extractions,
+          biomarkers
+        ) as Prisma.InputJsonValue,
+      };
+    } else if (ocrJobId) {
+      const ocrJob = await prisma.ocrJob.findUnique({
+        where: { id: ocrJobId },
+      });
+
+      if (!ocrJob || ocrJob.userId !== userId || ocrJob.status !== "COMPLETED") {
+        return NextResponse.json(
+          { error: "OCR job not found or not completed" },
+          { status: 400 }
+        );
+      }
+
+      ocrCollectedAt = ocrJob.collectedAt;
+      ocrData = {
+        ocrJobId: ocrJob.id,
+        entryMethod: "OCR_ASSISTED",
+        labName: ocrJob.labName,
+        labTemplateId: ocrJob.labTemplateId,
+        labTemplateVersion: ocrJob.labTemplateVersion,
+        referenceRanges: collectReferenceRanges(
+          (ocrJob.extractedValues ?? {}) as Partial<Record<BiomarkerKey, BiomarkerExtraction>>,
+          biomarkers
+        ) as Prisma.InputJsonValue,
+      };
     }
 
-    // Calculate PhenoAge
-    const phenoAge = calculatePhenoAge(input);
-    const ageReduction = chronologicalAge - phenoAge;
-    const paceOfAging = phenoAge / chronologicalAge;
+    // A date entered by the athlete overrides the one read from the report
+    let collectedAt = ocrCollectedAt;
+    if (collectedAtInput) {
+      collectedAt = parseReportDate(collectedAtInput);
+      if (!collectedAt) {
+        return NextResponse.json(
+          {
+            error: `Invalid blood draw date: ${collectedAtInput}`,
+            code: SubmissionWindowErrorCode.COLLECTION_DATE_INVALID,
+          },
+          { status: 400 }
+        );
+      }
+    }
 
-    // Get active season
-    let season = await prisma.season.findFirst({
+    // Only the active season takes submissions; seasons open on schedule (lib/seasons)
+    const season = await prisma.season.findFirst({
       where: { status: "ACTIVE" },
     });
 
-    // If no active season, create one for the current year
     if (!season) {
-      const currentYear = new Date().getFullYear();
-      season = await prisma.season.upsert({
-        where: { slug: `season-${currentYear}` },
-        update: {},
-        create: {
-          name: `${currentYear} Season`,
-          year: currentYear,
-          slug: `season-${currentYear}`,
-          startDate: new Date(`${currentYear}-01-01`),
-          endDate: new Date(`${currentYear}-12-31`),
-          submissionDeadline: new Date(`${currentYear}-01-15`),
-          status: "ACTIVE",
+      return NextResponse.json(
+        {
+          error: "No season is open for submissions",
+          code: SubmissionWindowErrorCode.SEASON_NOT_OPEN,
         },
-      });
+        { status: 400 }
+      );
     }
 
+    const windowViolation = checkSubmissionWindow(season, collectedAt);
+    if (windowViolation) {
+      return NextResponse.json(
+        { error: windowViolation.message, code: windowViolation.code },
+        { status: 400 }
+      );
+    }
+
+    // PhenoAge is computed for the athlete's exact age when the blood was drawn
+    const ageAtCollection = calculateChronologicalAge(athlete.birthDate, collectedAt as Date);
+
+    // Validate against the catalog; the ranking algorithm decides which are required
+    const validation = validateBiomarkerValues(biomarkers);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: "Invalid biomarker values", details: validation.errors },
+        { status: 400 }
+      );
+    }
+    const values = validation.values;
+
+    // Score with every algorithm the values satisfy; the season ranks on one of them
+    const biologicalAges = calculateBiologicalAges(values, ageAtCollection);
+    const ranked = biologicalAges.find((result) => result.algorithmId === season.rankingAlgorithmId);
+
+    if (!ranked) {
+      const algorithm = getBiologicalAgeAlgorithm(season.rankingAlgorithmId);
+      return NextResponse.json(
+        {
+          error: `${algorithm.name} cannot be calculated from these values`,
+          details: validateAlgorithmInput(algorithm, values, ageAtCollection).errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { biologicalAge: phenoAge, ageReduction, paceOfAging } = ranked;
+
     // Create submission first to get ID for proof image path
     const submission = await prisma.biomarkerSubmission.create({
       data: {
         athleteId: athlete.id,
         seasonId: season.id,
         leagueId,
-        albumin: biomarkers.albumin,
-        creatinine: biomarkers.creatinine,
-        glucose: biomarkers.glucose,
-        crp: biomarkers.crp,
-        lymphocytePercent: biomarkers.lymphocytePercent,
-        mcv: biomarkers.mcv,
-        rdw: biomarkers.rdw,
-        alp: biomarkers.alp,
-        wbc: biomarkers.wbc,
+        values: {
+          create: toBiomarkerValueRecords(values),
+        },
         phenoAge,
         ageReduction,
         paceOfAging,
+        algorithmId: ranked.algorithmId,
+        biologicalAges: {
+          create: biologicalAges,
+        },
+        collectedAt,
         proofImages: [],
         status: "PENDING",
+        statusHistory: {
+          create: buildStatusChange("SUBMITTED", null, { changedBy: athlete.userId }),
+        },
+        ...ocrData,
       },
     });
 
-    // Handle proof file upload to S3
+    // Handle proof file uploads to S3 (one per lab document)
     const proofImages: string[] = [];
-    if (proofFile) {
+    for (const proofFile of proofFiles) {
       try {
         const arrayBuffer = await proofFile.arrayBuffer();
         const buffer = Buffer.from(arrayBuffer);
@@ -272,24 +417,34 @@ export async function POST(request: NextRequest) {
         });
 
         proofImages.push(uploadResult.url);
-
-        // Update submission with proof image URL
-        await prisma.biomarkerSubmission.update({
-          where: { id: submission.id },
-          data: { proofImages },
-        });
       } catch (uploadError) {
         console.error("Failed to upload proof image to S3:", uploadError);
-        // Continue without proof image - submission is still valid
+        // Continue without this proof image - submission is still valid
         // The image can be uploaded later via admin panel
       }
     }
 
-    // Update athlete's chronological age if needed
-    if (athlete.chronologicalAge !== chronologicalAge) {
+    if (proofImages.length > 0) {
+      // Update submission with proof image URLs
+      await prisma.biomarkerSubmission.update({
+        where: { id: submission.id },
+        data: { proofImages },
+      });
+    }
+
+    if (draftId) {
+      await prisma.submissionDraft.update({
+        where: { id: draftId },
+        data: { status: "SUBMITTED", submissionId: submission.id },
+      });
+    }
+
+    // Keep the displayed whole-year age current
+    const currentAge = Math.floor(calculateChronologicalAge(athlete.birthDate));
+    if (athlete.chronologicalAge !== currentAge) {
       await prisma.athlete.update({
         where: { id: athlete.id },
-        data: { chronologicalAge },
+        data: { chronologicalAge: currentAge },
       });
     }
 
@@ -317,7 +472,7 @@ export async function POST(request: NextRequest) {
         displayName: athlete.displayName,
         submissionId: submission.id,
         phenoAge,
-        chronologicalAge,
+        chronologicalAge: ageAtCollection,
         ageReduction,
       }).catch((err) => {
         console.error("Failed to send submission confirmation email:", err);
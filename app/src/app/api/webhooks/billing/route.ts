@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { BadRequestError, handleApiError } from "@/lib/api-utils";
+import { applyBillingEvent, getPaymentProvider } from "@/lib/billing";
+
+/**
+ * POST /api/webhooks/billing
+ *
+ * Subscription events from the payment provider (paid, past_due, canceled),
+ * signed in the `billing-signature` header. Verified events update the
+ * subscription and the league's tier; events for unknown leagues or older
+ * than the last one applied are acknowledged and skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider();
+    const payload = await request.text();
+    const event = provider.parseWebhook(payload, request.headers.get("billing-signature"), new Date());
+    if (!event) {
+      throw new BadRequestError("Invalid webhook signature or payload");
+    }
+
+    const result = await applyBillingEvent(event, provider.name);
+
+    return NextResponse.json({ received: true, applied: result.applied });
+  } catch (error) {
+    return handleApiError(error, "handle billing webhook");
+  }
+}
@@ -22,7 +22,10 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LazyPhenoAgeChart, LazyRankHistoryChart } from "@/components/features/charts";
 import { cn } from "@/lib/utils";
+import { BIOMARKER_CATALOG, type BiomarkerValues } from "@/lib/biomarkers";
+import type { RankHistoryData } from "@/types";
 
 interface AthleteData {
   id: string;
@@ -58,15 +61,7 @@ interface AthleteData {
     phenoAge: number;
     ageReduction: number;
     paceOfAging: number;
-    albumin: number;
-    creatinine: number;
-    glucose: number;
-    crp: number;
-    lymphocytePercent: number;
-    mcv: number;
-    rdw: number;
-    alp: number;
-    wbc: number;
+    biomarkers: BiomarkerValues;
     seasonName: string;
     seasonYear: number;
   }[];
@@ -78,6 +73,7 @@ interface AthleteData {
     seasonYear: number;
     seasonStatus: string;
   }[];
+  rankHistory: RankHistoryData[];
   guessMyAgeGame: {
     totalGuesses: number;
     averageGuess: number;
@@ -105,6 +101,12 @@ const divisionLabels: Record<string, string> = {
 
 export function AthleteProfileClient({ athlete }: AthleteProfileClientProps) {
   const latestSubmission = athlete.submissions[0];
+  // Oldest first; age at the draw is biological age plus the reduction
+  const phenoAgeHistory = [...athlete.submissions].reverse().map((submission) => ({
+    date: new Date(submission.submittedAt).toLocaleDateString(),
+    phenoAge: submission.phenoAge,
+    chronologicalAge: submission.phenoAge + submission.ageReduction,
+  }));
   const percentile = athlete.currentRank
     ? Math.round((1 - athlete.currentRank / athlete.totalAthletes) * 100)
     : null;
@@ -310,24 +312,16 @@ export function AthleteProfileClient({ athlete }: AthleteProfileClientProps) {
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
-                      {[
-                        { label: "Albumin", value: latestSubmission.albumin, unit: "g/dL" },
-                        { label: "Creatinine", value: latestSubmission.creatinine, unit: "mg/dL" },
-                        { label: "Glucose", value: latestSubmission.glucose, unit: "mg/dL" },
-                        { label: "CRP", value: latestSubmission.crp, unit: "mg/L" },
-                        { label: "Lymphocyte %", value: latestSubmission.lymphocytePercent, unit: "%" },
-                        { label: "MCV", value: latestSubmission.mcv, unit: "fL" },
-                        { label: "RDW", value: latestSubmission.rdw, unit: "%" },
-                        { label: "ALP", value: latestSubmission.alp, unit: "U/L" },
-                        { label: "WBC", value: latestSubmission.wbc, unit: "K/uL" },
-                      ].map((biomarker) => (
+                      {BIOMARKER_CATALOG.filter(
+                        (biomarker) => latestSubmission.biomarkers[biomarker.key] !== undefined
+                      ).map((biomarker) => (
                         <div
-                          key={biomarker.label}
+                          key={biomarker.key}
                           className="p-3 rounded-lg bg-[var(--background-elevated)]"
                         >
-                          <p className="text-xs text-[var(--foreground-muted)]">{biomarker.label}</p>
+                          <p className="text-xs text-[var(--foreground-muted)]">{biomarker.shortLabel}</p>
                           <p className="text-lg font-semibold text-[var(--foreground)]">
-                            {biomarker.value.toFixed(2)}
+                            {latestSubmission.biomarkers[biomarker.key]?.toFixed(2)}
                             <span className="text-xs font-normal text-[var(--foreground-muted)] ml-1">
                               {biomarker.unit}
                             </span>
@@ -339,6 +333,17 @@ export function AthleteProfileClient({ athlete }: AthleteProfileClientProps) {
                 </Card>
               </motion.div> : null}
 
+            {/* Progress */}
+            {latestSubmission ? <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.25 }}
+                className="grid grid-cols-1 xl:grid-cols-2 gap-8"
+              >
+                <LazyPhenoAgeChart data={phenoAgeHistory} />
+                <LazyRankHistoryChart data={athlete.rankHistory} />
+              </motion.div> : null}
+
             {/* Submission History */}
             {athlete.submissions.length > 1 && (
               <motion.div
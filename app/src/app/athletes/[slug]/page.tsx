@@ -1,6 +1,9 @@
 import { notFound } from "next/navigation";
 import { Metadata } from "next";
 import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
+import { fromBiomarkerValueRecords } from "@/lib/biomarkers";
+import { getAthleteRankHistory } from "@/lib/leaderboard";
 import { AthleteProfileClient } from "./athlete-profile-client";
 
 interface Props {
@@ -40,6 +43,13 @@ async function getAthlete(slug: string) {
               year: true,
             },
           },
+          values: {
+            select: {
+              biomarkerKey: true,
+              value: true,
+              unit: true,
+            },
+          },
         },
       },
       leaderboardEntries: {
@@ -68,12 +78,12 @@ async function getAthlete(slug: string) {
   }
 
   // Get current season rank
-  const activeSeason = await prisma.season.findFirst({
-    where: { status: "ACTIVE" },
-  });
+  const activeSeason = await getCurrentSeason();
 
   let currentRank = null;
+  let rankHistory: Awaited<ReturnType<typeof getAthleteRankHistory>> = [];
   if (activeSeason) {
+    rankHistory = await getAthleteRankHistory(athlete.id, activeSeason.id);
     const leaderboardEntry = await prisma.leaderboardEntry.findUnique({
       where: {
         athleteId_seasonId: {
@@ -93,6 +103,7 @@ async function getAthlete(slug: string) {
   return {
     ...athlete,
     currentRank,
+    rankHistory,
     totalAthletes,
     activeSeason,
   };
@@ -196,15 +207,7 @@ export default async function AthleteProfilePage({ params }: Props) {
       phenoAge: s.phenoAge,
       ageReduction: s.ageReduction,
       paceOfAging: s.paceOfAging,
-      albumin: s.albumin,
-      creatinine: s.creatinine,
-      glucose: s.glucose,
-      crp: s.crp,
-      lymphocytePercent: s.lymphocytePercent,
-      mcv: s.mcv,
-      rdw: s.rdw,
-      alp: s.alp,
-      wbc: s.wbc,
+      biomarkers: fromBiomarkerValueRecords(s.values),
       seasonName: s.season.name,
       seasonYear: s.season.year,
     })),
@@ -216,6 +219,7 @@ export default async function AthleteProfilePage({ params }: Props) {
       seasonYear: entry.season.year,
       seasonStatus: entry.season.status.toLowerCase(),
     })),
+    rankHistory: athlete.rankHistory,
     guessMyAgeGame: athlete.guessMyAgeGame
       ? {
           totalGuesses: athlete.guessMyAgeGame.totalGuesses,
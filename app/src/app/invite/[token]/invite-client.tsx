@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@clerk/nextjs";
+import { motion } from "framer-motion";
+import { Building2, Check, Clock, Mail, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/toast";
+import type { LeagueInvitePreview } from "@/types";
+
+const closedMessages: Record<Exclude<LeagueInvitePreview["status"], "PENDING">, string> = {
+  ACCEPTED: "This invite has already been accepted.",
+  DECLINED: "This invite has been declined.",
+  EXPIRED: "This invite has expired. Ask the league to send you a new one.",
+};
+
+interface InviteClientProps {
+  token: string;
+  invite: LeagueInvitePreview;
+}
+
+export function InviteClient({ token, invite }: InviteClientProps) {
+  const router = useRouter();
+  const { isSignedIn } = useAuth();
+  const toast = useToast();
+
+  const [status, setStatus] = useState(invite.status);
+  const [accepting, setAccepting] = useState(false);
+  const [declining, setDeclining] = useState(false);
+
+  const { league } = invite;
+  const returnUrl = encodeURIComponent(`/invite/${token}`);
+
+  async function handleAccept() {
+    setAccepting(true);
+    try {
+      const response = await fetch(`/api/invites/${token}/accept`, { method: "POST" });
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success("Joined!", `You're now a member of ${league.name}`);
+        router.push(`/leagues/${league.slug}`);
+      } else if (result.needsOnboarding) {
+        // Set up the athlete profile first; onboarding accepts the invite at the end
+        router.push(`/onboarding?invite=${token}`);
+      } else {
+        toast.error("Couldn't accept invite", result.error || "Please try again");
+      }
+    } catch (error) {
+      console.error("Failed to accept invite:", error);
+      toast.error("Something went wrong", "Please try again later");
+    } finally {
+      setAccepting(false);
+    }
+  }
+
+  async function handleDecline() {
+    if (!confirm(`Decline the invite to ${league.name}?`)) return;
+
+    setDeclining(true);
+    try {
+      const response = await fetch(`/api/invites/${token}/decline`, { method: "POST" });
+
+      if (response.ok) {
+        setStatus("DECLINED");
+        toast.info("Invite declined", `You won't join ${league.name}`);
+      } else {
+        const result = await response.json();
+        toast.error("Couldn't decline invite", result.error || "Please try again");
+      }
+    } catch (error) {
+      console.error("Failed to decline invite:", error);
+      toast.error("Something went wrong", "Please try again later");
+    } finally {
+      setDeclining(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-radial py-12 px-4">
+      <div className="container mx-auto max-w-lg">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Card variant="elevated">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center overflow-hidden rounded-2xl bg-[var(--background-card)]">
+                {league.logo ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={league.logo} alt={league.name} className="h-full w-full object-cover" />
+                ) : (
+                  <Building2 className="h-8 w-8 text-[var(--color-primary)]" />
+                )}
+              </div>
+              <CardTitle className="text-2xl font-display">You&apos;re invited to {league.name}</CardTitle>
+              <CardDescription>
+                Join as {invite.role === "CAPTAIN" ? "a captain" : "a member"} and compete together for age
+                reversal glory
+              </CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6 p-8 pt-0">
+              {league.description ? (
+                <p className="text-center text-sm text-[var(--foreground-secondary)]">{league.description}</p>
+              ) : null}
+
+              <div className="flex flex-wrap justify-center gap-4 text-sm text-[var(--foreground-secondary)]">
+                <span className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  {league.memberCount}
+                  {league.memberLimit !== null ? ` / ${league.memberLimit}` : ""} members
+                </span>
+                <span className="flex items-center gap-2">
+                  <Mail className="h-4 w-4" />
+                  {invite.email}
+                </span>
+                <Badge variant="secondary" className="capitalize">
+                  {league.type.toLowerCase()}
+                </Badge>
+              </div>
+
+              {status === "PENDING" ? (
+                <>
+                  <p className="flex items-center justify-center gap-2 text-xs text-[var(--foreground-muted)]">
+                    <Clock className="h-3 w-3" />
+                    Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                  </p>
+
+                  {isSignedIn ? (
+                    <div className="flex gap-3">
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        onClick={handleDecline}
+                        isLoading={declining}
+                        disabled={accepting}
+                      >
+                        <X className="mr-2 h-4 w-4" />
+                        Decline
+                      </Button>
+                      <Button className="flex-1" onClick={handleAccept} isLoading={accepting} disabled={declining}>
+                        <Check className="mr-2 h-4 w-4" />
+                        Accept Invite
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      <Link href={`/sign-up?redirect_url=${returnUrl}`} className="block">
+                        <Button className="w-full">Create an account to join</Button>
+                      </Link>
+                      <Link href={`/sign-in?redirect_url=${returnUrl}`} className="block">
+                        <Button variant="ghost" className="w-full">
+                          I already have an account
+                        </Button>
+                      </Link>
+                      <p className="text-center text-xs text-[var(--foreground-muted)]">
+                        Use {invite.email} so the invite can be matched to your account.
+                      </p>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="space-y-4 text-center">
+                  <p className="text-[var(--foreground-secondary)]">{closedMessages[status]}</p>
+                  <Link href={`/leagues/${league.slug}`}>
+                    <Button variant="outline">View {league.name}</Button>
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
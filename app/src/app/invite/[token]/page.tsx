@@ -0,0 +1,32 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { getInvitePreview } from "@/lib/leagues";
+import { InviteClient } from "./invite-client";
+
+interface Props {
+  params: Promise<{ token: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { token } = await params;
+  const invite = await getInvitePreview(token);
+
+  return {
+    title: invite
+      ? `Join ${invite.league.name} | Longevity World Cup`
+      : "Invite Not Found | Longevity World Cup",
+    // Invite links are personal
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function InvitePage({ params }: Props) {
+  const { token } = await params;
+  const invite = await getInvitePreview(token);
+
+  if (!invite) {
+    notFound();
+  }
+
+  return <InviteClient token={token} invite={invite} />;
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@clerk/nextjs";
+import { motion } from "framer-motion";
+import { Building2, Check, Clock, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/toast";
+import type { LeagueJoinLinkPreview } from "@/types";
+
+const closedMessages: Record<Exclude<LeagueJoinLinkPreview["status"], "ACTIVE">, string> = {
+  REVOKED: "This join link is no longer valid. Ask the league for a new one.",
+  EXPIRED: "This join link has expired. Ask the league for a new one.",
+  EXHAUSTED: "This join link has reached its usage limit. Ask the league for a new one.",
+};
+
+interface JoinClientProps {
+  link: LeagueJoinLinkPreview;
+}
+
+export function JoinClient({ link }: JoinClientProps) {
+  const router = useRouter();
+  const { isSignedIn } = useAuth();
+  const toast = useToast();
+
+  const [joining, setJoining] = useState(false);
+
+  const { league } = link;
+  const returnUrl = encodeURIComponent(`/join/${link.code}`);
+
+  async function handleJoin() {
+    setJoining(true);
+    try {
+      const response = await fetch(`/api/join/${link.code}`, { method: "POST" });
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success("Joined!", `You're now a member of ${league.name}`);
+        router.push(`/leagues/${league.slug}`);
+      } else if (result.needsOnboarding) {
+        // Set up the athlete profile first; onboarding joins with the link at the end
+        router.push(`/onboarding?join=${link.code}`);
+      } else {
+        toast.error("Couldn't join league", result.error || "Please try again");
+      }
+    } catch (error) {
+      console.error("Failed to join league:", error);
+      toast.error("Something went wrong", "Please try again later");
+    } finally {
+      setJoining(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-radial py-12 px-4">
+      <div className="container mx-auto max-w-lg">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <Card variant="elevated">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center overflow-hidden rounded-2xl bg-[var(--background-card)]">
+                {league.logo ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={league.logo} alt={league.name} className="h-full w-full object-cover" />
+                ) : (
+                  <Building2 className="h-8 w-8 text-[var(--color-primary)]" />
+                )}
+              </div>
+              <CardTitle className="text-2xl font-display">Join {league.name}</CardTitle>
+              <CardDescription>Compete together for age reversal glory</CardDescription>
+            </CardHeader>
+
+            <CardContent className="space-y-6 p-8 pt-0">
+              {league.description ? (
+                <p className="text-center text-sm text-[var(--foreground-secondary)]">{league.description}</p>
+              ) : null}
+
+              <div className="flex flex-wrap justify-center gap-4 text-sm text-[var(--foreground-secondary)]">
+                <span className="flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  {league.memberCount}
+                  {league.memberLimit !== null ? ` / ${league.memberLimit}` : ""} members
+                </span>
+                <Badge variant="secondary" className="capitalize">
+                  {league.type.toLowerCase()}
+                </Badge>
+              </div>
+
+              {link.status === "ACTIVE" ? (
+                <>
+                  {link.expiresAt ? (
+                    <p className="flex items-center justify-center gap-2 text-xs text-[var(--foreground-muted)]">
+                      <Clock className="h-3 w-3" />
+                      Link expires {new Date(link.expiresAt).toLocaleDateString()}
+                    </p>
+                  ) : null}
+
+                  {isSignedIn ? (
+                    <Button className="w-full" onClick={handleJoin} isLoading={joining}>
+                      <Check className="mr-2 h-4 w-4" />
+                      Join League
+                    </Button>
+                  ) : (
+                    <div className="space-y-3">
+                      <Link href={`/sign-up?redirect_url=${returnUrl}`} className="block">
+                        <Button className="w-full">Create an account to join</Button>
+                      </Link>
+                      <Link href={`/sign-in?redirect_url=${returnUrl}`} className="block">
+                        <Button variant="ghost" className="w-full">
+                          I already have an account
+                        </Button>
+                      </Link>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="space-y-4 text-center">
+                  <p className="text-[var(--foreground-secondary)]">{closedMessages[link.status]}</p>
+                  <Link href={`/leagues/${league.slug}`}>
+                    <Button variant="outline">View {league.name}</Button>
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { getJoinLinkPreview } from "@/lib/leagues";
+import { JoinClient } from "./join-client";
+
+interface Props {
+  params: Promise<{ code: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { code } = await params;
+  const link = await getJoinLinkPreview(code);
+
+  return {
+    title: link
+      ? `Join ${link.league.name} | Longevity World Cup`
+      : "Join Link Not Found | Longevity World Cup",
+    // Join links are shared privately
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function JoinPage({ params }: Props) {
+  const { code } = await params;
+  const link = await getJoinLinkPreview(code);
+
+  if (!link) {
+    notFound();
+  }
+
+  return <JoinClient link={link} />;
+}
@@ -24,7 +24,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/components/ui/toast";
-import type { LeagueType, LeagueTier } from "@/types";
+import { SCORING_STRATEGIES } from "@/lib/league-scoring/strategies";
+import type { LeagueJoinPolicy, LeagueType, LeagueTier, LeagueScoringStrategy } from "@/types";
 
 interface LeagueMember {
   id: string;
@@ -50,6 +51,7 @@ interface LeagueMember {
 interface LeaderboardEntry {
   rank: number;
   previousRank?: number;
+  scoringStrategy: LeagueScoringStrategy;
   avgAgeReduction: number;
   activeMembers: number;
   bestIndividual: number;
@@ -73,6 +75,7 @@ export interface LeagueProfileData {
   city?: string;
   country?: string;
   verified: boolean;
+  joinPolicy: LeagueJoinPolicy;
   createdAt: string;
   memberCount: number;
   submissionCount: number;
@@ -112,6 +115,7 @@ export function LeagueProfileClient({ league }: LeagueProfileClientProps) {
   const toast = useToast();
 
   const [joining, setJoining] = useState(false);
+  const [requested, setRequested] = useState(false);
   const [isMember, setIsMember] = useState(false);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [members, _setMembers] = useState(league.members);
@@ -142,7 +146,11 @@ export function LeagueProfileClient({ league }: LeagueProfileClientProps) {
         method: "POST",
       });
 
-      if (response.ok) {
+      if (response.status === 202) {
+        // REQUEST-policy league: a manager approves the request first
+        setRequested(true);
+        toast.success("Request sent", `${league.name} will review your request to join`);
+      } else if (response.ok) {
         setIsMember(true);
         setUserRole("MEMBER");
         setMemberCount((prev) => prev + 1);
@@ -161,6 +169,13 @@ export function LeagueProfileClient({ league }: LeagueProfileClientProps) {
     }
   }
 
+  let joinLabel = "Join League";
+  if (requested) {
+    joinLabel = "Request Sent";
+  } else if (league.joinPolicy === "REQUEST") {
+    joinLabel = "Request to Join";
+  }
+
   async function handleLeave() {
     if (!confirm("Are you sure you want to leave this league?")) return;
 
@@ -278,7 +293,7 @@ export function LeagueProfileClient({ league }: LeagueProfileClientProps) {
                       <div className="flex items-center gap-2">
                         <Medal className="h-4 w-4 text-[var(--color-success)]" />
                         <span className="text-[var(--color-success)] font-semibold">
-                          -{league.leaderboardEntry.avgAgeReduction.toFixed(1)} yrs avg
+                          -{league.leaderboardEntry.avgAgeReduction.toFixed(1)} yrs ({SCORING_STRATEGIES[league.leaderboardEntry.scoringStrategy].label.toLowerCase()})
                         </span>
                       </div>
                     </> : null}
@@ -316,13 +331,13 @@ export function LeagueProfileClient({ league }: LeagueProfileClientProps) {
                   </>
                 ) : (
                   <>
-                    <Button onClick={handleJoin} disabled={joining}>
+                    <Button onClick={handleJoin} disabled={joining || requested}>
                       {joining ? (
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                       ) : (
                         <UserPlus className="mr-2 h-4 w-4" />
                       )}
-                      Join League
+                      {joinLabel}
                     </Button>
                     <Button variant="outline" onClick={handleShare}>
                       <Share2 className="mr-2 h-4 w-4" />
@@ -396,7 +411,7 @@ export function LeagueProfileClient({ league }: LeagueProfileClientProps) {
                       No members yet
                     </p>
                     {!isMember && (
-                      <Button className="mt-4" onClick={handleJoin}>
+                      <Button className="mt-4" onClick={handleJoin} disabled={joining || requested}>
                         Be the first to join
                       </Button>
                     )}
@@ -429,8 +444,11 @@ export function LeagueProfileClient({ league }: LeagueProfileClientProps) {
                         <p className="text-2xl font-bold text-[var(--color-success)]">
                           -{league.leaderboardEntry.avgAgeReduction.toFixed(1)}
                         </p>
-                        <p className="text-xs text-[var(--foreground-muted)]">
-                          Avg Years
+                        <p
+                          className="text-xs text-[var(--foreground-muted)]"
+                          title={SCORING_STRATEGIES[league.leaderboardEntry.scoringStrategy].description}
+                        >
+                          {SCORING_STRATEGIES[league.leaderboardEntry.scoringStrategy].label}
                         </p>
                       </div>
                       <div>
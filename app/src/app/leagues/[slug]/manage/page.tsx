@@ -18,10 +18,20 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/components/ui/toast";
-import type { League, LeagueMemberRole } from "@/types";
+import {
+  JoinLinksPanel,
+  JoinRequestsPanel,
+  LeagueBillingPanel,
+  LeagueExportPanel,
+} from "@/components/features/leagues";
+import {
+  DEFAULT_SCORING_STRATEGY,
+  SCORING_STRATEGIES,
+  SCORING_STRATEGY_IDS,
+} from "@/lib/league-scoring/strategies";
+import type { League, LeagueJoinPolicy, LeagueMemberRole, LeagueScoringStrategy } from "@/types";
 
 interface LeagueMember {
   id: string;
@@ -40,6 +50,11 @@ interface LeagueDetail extends League {
   memberCount: number;
 }
 
+const joinPolicyOptions: { value: LeagueJoinPolicy; label: string; description: string }[] = [
+  { value: "OPEN", label: "Open", description: "Athletes join right away from the league page" },
+  { value: "REQUEST", label: "Request to join", description: "Owners, admins and captains approve each athlete" },
+];
+
 const roleOptions: { value: LeagueMemberRole; label: string }[] = [
   { value: "MEMBER", label: "Member" },
   { value: "CAPTAIN", label: "Captain" },
@@ -61,6 +76,8 @@ export default function ManageLeaguePage() {
     description: "",
     country: "",
     city: "",
+    scoringStrategy: DEFAULT_SCORING_STRATEGY,
+    joinPolicy: "OPEN" as LeagueJoinPolicy,
   });
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
@@ -88,6 +105,8 @@ export default function ManageLeaguePage() {
         description: data.description || "",
         country: data.country || "",
         city: data.city || "",
+        scoringStrategy: data.scoringStrategy ?? DEFAULT_SCORING_STRATEGY,
+        joinPolicy: data.joinPolicy ?? "OPEN",
       });
     } catch (error) {
       console.error("Failed to fetch league:", error);
@@ -111,6 +130,8 @@ export default function ManageLeaguePage() {
           description: formData.description.trim() || null,
           country: formData.country.trim() || null,
           city: formData.city.trim() || null,
+          scoringStrategy: formData.scoringStrategy,
+          joinPolicy: formData.joinPolicy,
         }),
       });
 
@@ -301,6 +322,54 @@ export default function ManageLeaguePage() {
                 </div>
               </div>
 
+              <div>
+                <Label htmlFor="scoringStrategy">Scoring</Label>
+                <select
+                  id="scoringStrategy"
+                  value={formData.scoringStrategy}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      scoringStrategy: e.target.value as LeagueScoringStrategy,
+                    }))
+                  }
+                  className="mt-1 h-10 w-full px-3 rounded-lg bg-[var(--background-card)] border border-[var(--border)] text-sm text-[var(--foreground)]"
+                >
+                  {SCORING_STRATEGY_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {SCORING_STRATEGIES[id].label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-[var(--foreground-muted)]">
+                  {SCORING_STRATEGIES[formData.scoringStrategy].description}
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="joinPolicy">Joining</Label>
+                <select
+                  id="joinPolicy"
+                  value={formData.joinPolicy}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      joinPolicy: e.target.value as LeagueJoinPolicy,
+                    }))
+                  }
+                  className="mt-1 h-10 w-full px-3 rounded-lg bg-[var(--background-card)] border border-[var(--border)] text-sm text-[var(--foreground)]"
+                >
+                  {joinPolicyOptions.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-[var(--foreground-muted)]">
+                  {joinPolicyOptions.find((opt) => opt.value === formData.joinPolicy)?.description}
+                </p>
+              </div>
+
               {error ? <p className="text-sm text-[var(--color-error)]">{error}</p> : null}
               {success ? <p className="text-sm text-[var(--color-success)]">{success}</p> : null}
 
@@ -399,40 +468,17 @@ export default function ManageLeaguePage() {
             </CardContent>
           </Card>
 
+          {/* Join Requests */}
+          <JoinRequestsPanel slug={slug} onApproved={fetchLeague} />
+
+          {/* Join Links */}
+          <JoinLinksPanel slug={slug} />
+
           {/* Tier Information */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Subscription Tier</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center justify-between p-4 rounded-lg bg-[var(--background-elevated)]">
-                <div>
-                  <Badge
-                    className={
-                      league.tier === "FREE"
-                        ? "bg-gray-500/10 text-gray-400"
-                        : league.tier === "STARTER"
-                        ? "bg-blue-500/10 text-blue-400"
-                        : league.tier === "PRO"
-                        ? "bg-purple-500/10 text-purple-400"
-                        : "bg-yellow-500/10 text-yellow-400"
-                    }
-                  >
-                    {league.tier}
-                  </Badge>
-                  <p className="text-sm text-[var(--foreground-muted)] mt-2">
-                    {league.tier === "FREE" && "Up to 10 members"}
-                    {league.tier === "STARTER" && "Up to 50 members"}
-                    {league.tier === "PRO" && "Up to 250 members"}
-                    {league.tier === "ENTERPRISE" && "Unlimited members"}
-                  </p>
-                </div>
-                <Button variant="secondary" disabled>
-                  Upgrade (Coming Soon)
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+          <LeagueBillingPanel slug={slug} onTierChanged={fetchLeague} />
+
+          {/* Data Export */}
+          <LeagueExportPanel slug={slug} tier={league.tier} />
 
           {/* Danger Zone */}
           <Card className="border-[var(--color-error)]/20">
@@ -1,6 +1,8 @@
 import { notFound } from "next/navigation";
 import { Metadata } from "next";
 import { prisma } from "@/lib/db";
+import { getScoringStrategy } from "@/lib/league-scoring/strategies";
+import { isJoinPolicy } from "@/lib/leagues";
 import { LeagueProfileClient, LeagueProfileData } from "./league-profile-client";
 
 interface Props {
@@ -178,6 +180,7 @@ export default async function LeagueProfilePage({ params }: Props) {
     city: league.city || undefined,
     country: league.country || undefined,
     verified: league.verified,
+    joinPolicy: isJoinPolicy(league.joinPolicy) ? league.joinPolicy : "OPEN",
     createdAt: league.createdAt.toISOString(),
     memberCount: league.memberCount,
     submissionCount: league.submissionCount,
@@ -207,6 +210,7 @@ export default async function LeagueProfilePage({ params }: Props) {
       ? {
           rank: league.leaderboardEntry.rank,
           previousRank: league.leaderboardEntry.previousRank || undefined,
+          scoringStrategy: getScoringStrategy(league.leaderboardEntry.scoringStrategy).id,
           avgAgeReduction: league.leaderboardEntry.avgAgeReduction,
           activeMembers: league.leaderboardEntry.activeMembers,
           bestIndividual: league.leaderboardEntry.bestIndividual,
@@ -1,5 +1,8 @@
 import { Suspense } from "react";
 import { prisma } from "@/lib/db";
+import { getCurrentSeason } from "@/lib/seasons";
+import { getScoringStrategy } from "@/lib/league-scoring/strategies";
+import { valuePrizePool } from "@/lib/prices";
 import {
   HeroSection,
   StatsSection,
@@ -26,11 +29,8 @@ async function getLeaderboardData(): Promise<{
   };
 }> {
   try {
-    // Fetch active season
-    const season = await prisma.season.findFirst({
-      where: { status: "ACTIVE" },
-      orderBy: { year: "desc" },
-    });
+    // Fetch current season (active, or locked while under review)
+    const season = await getCurrentSeason();
 
     // Fetch league leaderboard entries
     const leagueEntries = await prisma.leagueLeaderboardEntry.findMany({
@@ -41,6 +41,7 @@ async function getLeaderboardData(): Promise<{
         seasonId: true,
         rank: true,
         previousRank: true,
+        scoringStrategy: true,
         avgAgeReduction: true,
         totalMembers: true,
         activeMembers: true,
@@ -72,6 +73,7 @@ async function getLeaderboardData(): Promise<{
     const entries: LeagueLeaderboardEntry[] = leagueEntries.map((entry) => ({
       rank: entry.rank,
       previousRank: entry.previousRank ?? undefined,
+      scoringStrategy: getScoringStrategy(entry.scoringStrategy).id,
       avgAgeReduction: entry.avgAgeReduction,
       totalMembers: entry.totalMembers,
       activeMembers: entry.activeMembers,
@@ -97,10 +99,11 @@ async function getLeaderboardData(): Promise<{
       },
     }));
 
-    // Get counts
-    const [athleteCount, leagueCount] = await Promise.all([
+    // Get counts and the live pool value (at the current BTC/USD rate)
+    const [athleteCount, leagueCount, valuation] = await Promise.all([
       prisma.athlete.count({ where: { status: "VERIFIED" } }),
       prisma.league.count({ where: { status: "ACTIVE" } }),
+      season ? valuePrizePool(season) : null,
     ]);
 
     return {
@@ -109,7 +112,7 @@ async function getLeaderboardData(): Promise<{
         athleteCount,
         leagueCount: leagueCount || entries.length,
         prizePoolBTC: season?.prizePoolBTC || 0.85,
-        prizePoolUSD: season?.prizePoolUSD || 85420,
+        prizePoolUSD: valuation?.current?.usd ?? (season?.prizePoolUSD || 85420),
         prizeGoalBTC: 1.0,
         prizeGoalUSD: 100000,
         year: season?.year || new Date().getFullYear(),
@@ -0,0 +1,50 @@
+import { notFound } from "next/navigation";
+import { Metadata } from "next";
+import { getSeasonArchive } from "@/lib/seasons";
+import { SeasonArchiveClient } from "./season-archive-client";
+
+// Final standings are frozen when the season completes
+export const revalidate = 3600;
+
+interface Props {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { slug } = await params;
+  const archive = await getSeasonArchive(slug);
+
+  if (!archive) {
+    return {
+      title: "Season Not Found | Longevity World Cup",
+    };
+  }
+
+  const { season } = archive;
+  const description = season.champion
+    ? `${season.name} final standings: ${season.champion.athlete.displayName} won with ${season.champion.bestAgeReduction.toFixed(1)} years of age reduction among ${season.athleteCount} athletes.`
+    : `${season.name} final standings on Longevity World Cup.`;
+
+  return {
+    title: `${season.name} Final Standings | Longevity World Cup`,
+    description,
+    openGraph: {
+      title: `${season.name} Final Standings | Longevity World Cup`,
+      description,
+      type: "website",
+      url: `https://longevityworldcup.com/seasons/${season.slug}`,
+      images: [{ url: "/og-image.png", width: 1200, height: 630, alt: "Longevity World Cup" }],
+    },
+  };
+}
+
+export default async function SeasonArchivePage({ params }: Props) {
+  const { slug } = await params;
+  const archive = await getSeasonArchive(slug);
+
+  if (!archive) {
+    notFound();
+  }
+
+  return <SeasonArchiveClient archive={archive} />;
+}
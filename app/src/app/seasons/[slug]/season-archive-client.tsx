@@ -0,0 +1,261 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { motion } from "framer-motion";
+import { ArrowLeft, Calendar, Medal, Trophy, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { SCORING_STRATEGIES } from "@/lib/league-scoring/strategies";
+import { cn } from "@/lib/utils";
+import type { SeasonArchiveData, SeasonArchiveStanding } from "@/types";
+
+const divisionLabels: Record<string, string> = {
+  MENS: "Men's",
+  WOMENS: "Women's",
+  OPEN: "Open",
+};
+
+const generationLabels: Record<string, string> = {
+  SILENT: "Silent",
+  BOOMER: "Boomers",
+  GENX: "Gen X",
+  MILLENNIAL: "Millennials",
+  GENZ: "Gen Z",
+  GENALPHA: "Gen Alpha",
+};
+
+const placeColors = ["text-yellow-400", "text-gray-400", "text-orange-500"];
+
+type ArchiveTab = "athletes" | "leagues";
+
+interface SeasonArchiveClientProps {
+  archive: SeasonArchiveData;
+}
+
+function AthleteName({ standing }: { standing: SeasonArchiveStanding }) {
+  if (!standing.athlete.slug) {
+    return <span>{standing.athlete.displayName}</span>;
+  }
+  return (
+    <Link href={`/athletes/${standing.athlete.slug}`} className="hover:text-[var(--color-primary)]">
+      {standing.athlete.displayName}
+    </Link>
+  );
+}
+
+function GroupPodiums({
+  title,
+  podiums,
+  labels,
+}: {
+  title: string;
+  podiums: Record<string, SeasonArchiveStanding[]>;
+  labels: Record<string, string>;
+}) {
+  const groups = Object.keys(labels).filter((group) => podiums[group]?.length);
+  if (groups.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-3">
+        {groups.map((group) => (
+          <div key={group} className="rounded-lg border border-[var(--border)] p-4">
+            <p className="text-sm font-medium text-[var(--foreground-secondary)] mb-2">{labels[group]}</p>
+            <ol className="space-y-1">
+              {podiums[group].map((standing, index) => (
+                <li key={standing.rank} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-[var(--foreground)]">
+                    <span className={cn("font-bold mr-2", placeColors[index])}>#{index + 1}</span>
+                    <AthleteName standing={standing} />
+                  </span>
+                  <span className="text-[var(--color-success)]">
+                    -{standing.bestAgeReduction.toFixed(1)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SeasonArchiveClient({ archive }: SeasonArchiveClientProps) {
+  const router = useRouter();
+  const [tab, setTab] = useState<ArchiveTab>("athletes");
+  const { season, podium, divisions, generations, standings, leagues } = archive;
+
+  return (
+    <div className="min-h-screen bg-gradient-radial py-8 px-4">
+      <div className="container mx-auto max-w-6xl">
+        <Button variant="ghost" className="mb-6" onClick={() => router.push("/seasons")}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Seasons
+        </Button>
+
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <h1 className="text-3xl md:text-4xl font-display font-bold text-[var(--foreground)]">
+              {season.name}
+            </h1>
+            <Badge variant="secondary">Final</Badge>
+          </div>
+          <div className="flex flex-wrap gap-6 text-sm text-[var(--foreground-secondary)]">
+            <span className="flex items-center gap-2">
+              <Calendar className="h-4 w-4" />
+              {new Date(season.startDate).toLocaleDateString()} –{" "}
+              {new Date(season.endDate).toLocaleDateString()}
+            </span>
+            <span className="flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              {season.athleteCount} ranked athletes
+            </span>
+            <span className="flex items-center gap-2">
+              <Trophy className="h-4 w-4 text-yellow-400" />
+              {season.prizePoolBTC} BTC (${season.prizePoolUSD.toLocaleString()}) prize pool
+            </span>
+          </div>
+        </div>
+
+        {/* Podium */}
+        <div className="grid gap-4 md:grid-cols-3 mb-8">
+          {podium.map((standing, index) => (
+            <motion.div
+              key={standing.rank}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.1 }}
+            >
+              <Card variant="elevated">
+                <CardContent className="p-6 text-center">
+                  <Medal className={cn("h-8 w-8 mx-auto mb-2", placeColors[index])} />
+                  <p className={cn("text-2xl font-bold", placeColors[index])}>#{standing.rank}</p>
+                  <p className="text-lg font-semibold text-[var(--foreground)] mt-1">
+                    <AthleteName standing={standing} />
+                  </p>
+                  <p className="text-[var(--color-success)] font-semibold">
+                    -{standing.bestAgeReduction.toFixed(1)} yrs
+                  </p>
+                  {standing.prize ? (
+                    <p className="text-sm text-[var(--foreground-secondary)] mt-2">
+                      {standing.prize.btc} BTC (${standing.prize.usd.toLocaleString()}) · {Number(standing.prize.pct.toFixed(2))}%
+                    </p>
+                  ) : null}
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))}
+        </div>
+
+        <GroupPodiums title="Division Podiums" podiums={divisions} labels={divisionLabels} />
+        <GroupPodiums title="Generation Podiums" podiums={generations} labels={generationLabels} />
+
+        {/* Full standings */}
+        <div className="flex gap-2 mb-4" role="tablist">
+          <Button
+            role="tab"
+            aria-selected={tab === "athletes"}
+            variant={tab === "athletes" ? "default" : "ghost"}
+            onClick={() => setTab("athletes")}
+          >
+            Athletes
+          </Button>
+          <Button
+            role="tab"
+            aria-selected={tab === "leagues"}
+            variant={tab === "leagues" ? "default" : "ghost"}
+            onClick={() => setTab("leagues")}
+          >
+            Leagues
+          </Button>
+        </div>
+
+        <div className="overflow-x-auto rounded-xl border border-[var(--border)]">
+          {tab === "athletes" ? (
+            <table className="w-full">
+              <thead className="bg-[var(--background-elevated)]">
+                <tr className="text-left text-sm text-[var(--foreground-secondary)]">
+                  <th className="px-4 py-3 font-medium">Rank</th>
+                  <th className="px-4 py-3 font-medium">Athlete</th>
+                  <th className="px-4 py-3 font-medium hidden md:table-cell">Division</th>
+                  <th className="px-4 py-3 font-medium text-right">Age Reduction</th>
+                  <th className="px-4 py-3 font-medium text-right hidden md:table-cell">PhenoAge</th>
+                  <th className="px-4 py-3 font-medium text-right hidden lg:table-cell">Submissions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--border)]">
+                {standings.map((standing) => (
+                  <tr key={standing.rank}>
+                    <td className="px-4 py-3 font-bold text-[var(--foreground)]">#{standing.rank}</td>
+                    <td className="px-4 py-3 text-[var(--foreground)]">
+                      <AthleteName standing={standing} />
+                    </td>
+                    <td className="px-4 py-3 hidden md:table-cell text-sm text-[var(--foreground-secondary)]">
+                      {divisionLabels[standing.athlete.division] ?? standing.athlete.division} ·{" "}
+                      {generationLabels[standing.athlete.generation] ?? standing.athlete.generation}
+                    </td>
+                    <td className="px-4 py-3 text-right font-semibold text-[var(--color-success)]">
+                      -{standing.bestAgeReduction.toFixed(1)}
+                    </td>
+                    <td className="px-4 py-3 text-right hidden md:table-cell text-[var(--foreground)]">
+                      {standing.bestPhenoAge.toFixed(1)}
+                    </td>
+                    <td className="px-4 py-3 text-right hidden lg:table-cell text-[var(--foreground)]">
+                      {standing.submissionCount}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-[var(--background-elevated)]">
+                <tr className="text-left text-sm text-[var(--foreground-secondary)]">
+                  <th className="px-4 py-3 font-medium">Rank</th>
+                  <th className="px-4 py-3 font-medium">League</th>
+                  <th className="px-4 py-3 font-medium text-right">Score</th>
+                  <th className="px-4 py-3 font-medium text-right hidden md:table-cell">Active Members</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--border)]">
+                {leagues.map((standing) => (
+                  <tr key={standing.rank}>
+                    <td className="px-4 py-3 font-bold text-[var(--foreground)]">#{standing.rank}</td>
+                    <td className="px-4 py-3 text-[var(--foreground)]">
+                      {standing.league.slug ? (
+                        <Link href={`/leagues/${standing.league.slug}`} className="hover:text-[var(--color-primary)]">
+                          {standing.league.name}
+                        </Link>
+                      ) : (
+                        standing.league.name
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <span className="font-semibold text-[var(--color-success)]">
+                        -{standing.score.toFixed(1)}
+                      </span>
+                      <p className="text-xs text-[var(--foreground-muted)]">
+                        {SCORING_STRATEGIES[standing.scoringStrategy].label}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-right hidden md:table-cell text-[var(--foreground)]">
+                      {standing.activeMembers} / {standing.totalMembers}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { Metadata } from "next";
+import Link from "next/link";
+import { Calendar, Trophy, Users } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { listSeasonArchives } from "@/lib/seasons";
+import type { SeasonArchiveSummary } from "@/types";
+
+// Archives never change once written; revalidate only to pick up new seasons
+export const revalidate = 3600;
+
+export const metadata: Metadata = {
+  title: "Past Seasons | Longevity World Cup",
+  description: "Final standings, podiums and prize winners of every completed Longevity World Cup season.",
+};
+
+async function getSeasons(): Promise<SeasonArchiveSummary[]> {
+  try {
+    return await listSeasonArchives();
+  } catch {
+    // Database not available during build
+    return [];
+  }
+}
+
+export default async function SeasonsPage() {
+  const seasons = await getSeasons();
+
+  return (
+    <div className="min-h-screen bg-gradient-radial py-8 px-4">
+      <div className="container mx-auto max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-3xl md:text-4xl font-display font-bold text-[var(--foreground)] mb-2">
+            Past Seasons
+          </h1>
+          <p className="text-[var(--foreground-secondary)]">
+            Final standings as they stood when each season completed.
+          </p>
+        </div>
+
+        {seasons.length === 0 ? (
+          <div className="text-center py-12">
+            <Trophy className="h-12 w-12 mx-auto text-[var(--foreground-muted)] mb-4" />
+            <p className="text-[var(--foreground-secondary)]">No completed seasons yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {seasons.map((season) => (
+              <Link key={season.slug} href={`/seasons/${season.slug}`} className="block">
+                <Card hoverable>
+                  <CardContent className="p-6 flex flex-col md:flex-row md:items-center gap-4">
+                    <div className="flex-1">
+                      <h2 className="text-xl font-display font-semibold text-[var(--foreground)]">
+                        {season.name}
+                      </h2>
+                      <div className="flex flex-wrap gap-4 mt-2 text-sm text-[var(--foreground-secondary)]">
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-4 w-4" />
+                          {new Date(season.startDate).toLocaleDateString()} –{" "}
+                          {new Date(season.endDate).toLocaleDateString()}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Users className="h-4 w-4" />
+                          {season.athleteCount} ranked athletes
+                        </span>
+                      </div>
+                    </div>
+                    {season.champion ? (
+                      <div className="flex items-center gap-3">
+                        <Trophy className="h-6 w-6 text-yellow-400" />
+                        <div>
+                          <p className="font-medium text-[var(--foreground)]">
+                            {season.champion.athlete.displayName}
+                          </p>
+                          <p className="text-sm text-[var(--color-success)]">
+                            -{season.champion.bestAgeReduction.toFixed(1)} yrs
+                          </p>
+                        </div>
+                      </div>
+                    ) : null}
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
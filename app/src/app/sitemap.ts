@@ -36,6 +36,12 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       changeFrequency: "daily",
       priority: 0.9,
     },
+    {
+      url: `${baseUrl}/seasons`,
+      lastModified: new Date(),
+      changeFrequency: "monthly",
+      priority: 0.6,
+    },
     {
       url: `${baseUrl}/games/guess-age`,
       lastModified: new Date(),
@@ -80,5 +86,23 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     // Database not available during build, skip dynamic league pages
   }
 
-  return [...staticPages, ...athletePages, ...leaguePages];
+  // Completed season archives
+  let seasonPages: MetadataRoute.Sitemap = [];
+  try {
+    const seasons = await prisma.season.findMany({
+      where: { status: "COMPLETED", archivedAt: { not: null } },
+      select: { slug: true, archivedAt: true },
+    });
+
+    seasonPages = seasons.map((season) => ({
+      url: `${baseUrl}/seasons/${season.slug}`,
+      lastModified: season.archivedAt ?? undefined,
+      changeFrequency: "yearly" as const,
+      priority: 0.5,
+    }));
+  } catch {
+    // Database not available during build, skip season archive pages
+  }
+
+  return [...staticPages, ...athletePages, ...leaguePages, ...seasonPages];
 }
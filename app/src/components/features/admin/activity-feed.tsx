@@ -7,6 +7,8 @@ import {
   FileCheck,
   Activity,
   ExternalLink,
+  FilePlus,
+  Undo2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatDate, type ActivityEvent } from "./types";
@@ -21,6 +23,8 @@ const eventTypeIcons: Record<string, React.ReactNode> = {
   BADGE_EARNED: <CheckCircle className="w-4 h-4 text-yellow-500" />,
   SUBMISSION_VERIFIED: <FileCheck className="w-4 h-4 text-green-500" />,
   SUBMISSION_REJECTED: <XCircle className="w-4 h-4 text-red-500" />,
+  SUBMISSION_APPEALED: <FilePlus className="w-4 h-4 text-blue-500" />,
+  SUBMISSION_REVOKED: <Undo2 className="w-4 h-4 text-orange-500" />,
 };
 
 export function ActivityFeed({ events }: ActivityFeedProps) {
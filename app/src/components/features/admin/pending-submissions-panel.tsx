@@ -13,6 +13,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { BIOMARKER_CATALOG } from "@/lib/biomarkers";
 import { formatDate, type PendingSubmission } from "./types";
 
 interface PendingSubmissionsPanelProps {
@@ -76,6 +77,7 @@ export function PendingSubmissionsPanel({
                           </p>
                           <p className="text-sm text-[var(--foreground-muted)]">
                             {submission.seasonName} • {formatDate(submission.submittedAt)}
+                            {submission.collectedAt ? ` • Drawn ${formatDate(submission.collectedAt)}` : null}
                           </p>
                         </div>
                       </div>
@@ -116,22 +118,43 @@ export function PendingSubmissionsPanel({
                               Biomarkers
                             </h4>
                             <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
-                              {Object.entries(submission.biomarkers).map(([key, value]) => (
+                              {BIOMARKER_CATALOG.filter(
+                                (biomarker) => submission.biomarkers[biomarker.key] !== undefined
+                              ).map((biomarker) => (
                                 <div
-                                  key={key}
+                                  key={biomarker.key}
                                   className="bg-[var(--background-card)] rounded p-2 text-center"
                                 >
-                                  <p className="text-xs text-[var(--foreground-muted)] capitalize">
-                                    {key.replace(/([A-Z])/g, " $1")}
+                                  <p className="text-xs text-[var(--foreground-muted)]">
+                                    {biomarker.shortLabel}
                                   </p>
                                   <p className="font-medium text-[var(--foreground)]">
-                                    {value.toFixed(2)}
+                                    {submission.biomarkers[biomarker.key]?.toFixed(2)}{" "}
+                                    <span className="text-xs text-[var(--foreground-muted)]">{biomarker.unit}</span>
                                   </p>
                                 </div>
                               ))}
                             </div>
                           </div>
 
+                          {/* OCR Source */}
+                          {submission.entryMethod === "OCR_ASSISTED" && (
+                            <div>
+                              <h4 className="text-sm font-medium text-[var(--foreground-secondary)] mb-2">
+                                OCR Source
+                              </h4>
+                              <p className="text-sm text-[var(--foreground)]">
+                                {submission.labName ?? "Unknown lab"}
+                                {submission.labTemplateId ? (
+                                  <span className="text-[var(--foreground-muted)]">
+                                    {" "}
+                                    • template {submission.labTemplateId} v{submission.labTemplateVersion}
+                                  </span>
+                                ) : null}
+                              </p>
+                            </div>
+                          )}
+
                           {/* Proof Images */}
                           {submission.proofImages.length > 0 && (
                             <div>
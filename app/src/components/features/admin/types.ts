@@ -1,3 +1,5 @@
+import type { BiomarkerValues } from "@/lib/biomarkers";
+
 export interface PendingSubmission {
   id: string;
   athleteId: string;
@@ -5,20 +7,18 @@ export interface PendingSubmission {
   athleteEmail: string;
   seasonName: string;
   submittedAt: string;
+  /** Blood draw date, null for submissions made before it was recorded */
+  collectedAt: string | null;
   phenoAge: number;
   ageReduction: number;
-  biomarkers: {
-    albumin: number;
-    creatinine: number;
-    glucose: number;
-    crp: number;
-    lymphocytePercent: number;
-    mcv: number;
-    rdw: number;
-    alp: number;
-    wbc: number;
-  };
+  /** Submitted values by catalog key, in canonical units */
+  biomarkers: BiomarkerValues;
   proofImages: string[];
+  entryMethod: string;
+  /** Lab detected by OCR and the template version used to parse it */
+  labName: string | null;
+  labTemplateId: string | null;
+  labTemplateVersion: string | null;
 }
 
 export interface PendingAthlete {
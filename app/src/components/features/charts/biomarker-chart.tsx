@@ -13,20 +13,12 @@ import {
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { BIOMARKER_CATALOG, BIOMARKER_KEYS, type BiomarkerKey, type BiomarkerValues } from "@/lib/biomarkers";
 
-interface BiomarkerDataPoint {
+interface BiomarkerDataPoint extends BiomarkerValues {
   date: string;
   phenoAge: number;
   chronologicalAge: number;
-  albumin?: number;
-  creatinine?: number;
-  glucose?: number;
-  crp?: number;
-  lymphocytePercent?: number;
-  mcv?: number;
-  rdw?: number;
-  alp?: number;
-  wbc?: number;
 }
 
 interface BiomarkerChartProps {
@@ -34,21 +26,24 @@ interface BiomarkerChartProps {
   className?: string;
 }
 
-const biomarkerConfig = {
+interface SeriesConfig {
+  label: string;
+  color: string;
+  unit: string;
+  optimal?: { min: number; max: number };
+}
+
+const biomarkerConfig: Record<"phenoAge" | "chronologicalAge" | BiomarkerKey, SeriesConfig> = {
   phenoAge: { label: "Biological Age", color: "#00BCD4", unit: "years" },
   chronologicalAge: { label: "Chronological Age", color: "#9E9E9E", unit: "years" },
-  albumin: { label: "Albumin", color: "#4CAF50", unit: "g/dL", optimal: { min: 3.5, max: 5.0 } },
-  creatinine: { label: "Creatinine", color: "#2196F3", unit: "mg/dL", optimal: { min: 0.6, max: 1.2 } },
-  glucose: { label: "Glucose", color: "#FF9800", unit: "mg/dL", optimal: { min: 70, max: 100 } },
-  crp: { label: "CRP", color: "#F44336", unit: "mg/L", optimal: { min: 0, max: 3.0 } },
-  lymphocytePercent: { label: "Lymphocyte %", color: "#9C27B0", unit: "%", optimal: { min: 20, max: 40 } },
-  mcv: { label: "MCV", color: "#00BCD4", unit: "fL", optimal: { min: 80, max: 100 } },
-  rdw: { label: "RDW", color: "#795548", unit: "%", optimal: { min: 11.5, max: 14.5 } },
-  alp: { label: "ALP", color: "#607D8B", unit: "U/L", optimal: { min: 44, max: 147 } },
-  wbc: { label: "WBC", color: "#E91E63", unit: "K/uL", optimal: { min: 4.5, max: 11.0 } },
+  ...(Object.fromEntries(
+    BIOMARKER_CATALOG.map(({ key, shortLabel, color, unit, optimal }) => [
+      key,
+      { label: shortLabel, color, unit, optimal },
+    ])
+  ) as Record<BiomarkerKey, SeriesConfig>),
 };
 
-type BiomarkerKey = keyof typeof biomarkerConfig;
 
 interface TooltipPayloadEntry {
   color: string;
@@ -77,7 +72,7 @@ const CustomTooltip = ({ active, payload, label }: CustomTooltipProps) => {
           />
           <span className="text-[var(--foreground-secondary)]">{entry.name}:</span>
           <span className="font-medium text-[var(--foreground)]">
-            {entry.value?.toFixed(1)} {biomarkerConfig[entry.dataKey as BiomarkerKey]?.unit}
+            {entry.value?.toFixed(1)} {biomarkerConfig[entry.dataKey as keyof typeof biomarkerConfig]?.unit}
           </span>
         </div>
       ))}
@@ -175,17 +170,8 @@ export function BiomarkerTrendChart({ data, className }: BiomarkerChartProps) {
     "crp",
   ]);
 
-  const biomarkerKeys: BiomarkerKey[] = [
-    "albumin",
-    "creatinine",
-    "glucose",
-    "crp",
-    "lymphocytePercent",
-    "mcv",
-    "rdw",
-    "alp",
-    "wbc",
-  ];
+  // Only biomarkers measured in at least one submission
+  const biomarkerKeys = BIOMARKER_KEYS.filter((key) => data.some((point) => point[key] !== undefined));
 
   const toggleBiomarker = (key: BiomarkerKey) => {
     setSelectedBiomarkers((prev) =>
@@ -274,6 +260,9 @@ interface ZScoreData {
   value: number;
   zScore: number;
   optimal: { min: number; max: number };
+  /** Reference range and flag printed by the lab, when the value came from a report */
+  labRange?: { low: number | null; high: number | null; text: string } | null;
+  labFlag?: "H" | "L" | "HH" | "LL" | "A" | null;
 }
 
 interface ZScoreChartProps {
@@ -301,7 +290,12 @@ export function ZScoreChart({ data, className }: ZScoreChartProps) {
               <div key={item.biomarker} className="space-y-1">
                 <div className="flex justify-between text-sm">
                   <span className="text-[var(--foreground)]">{item.biomarker}</span>
-                  <span className="text-[var(--foreground-muted)]">
+                  <span className="flex items-center gap-2 text-[var(--foreground-muted)]">
+                    {item.labFlag ? (
+                      <span className="px-1.5 rounded text-xs font-medium bg-[var(--color-warning)]/20 text-[var(--color-warning)]">
+                        {item.labFlag}
+                      </span>
+                    ) : null}
                     {item.value.toFixed(2)}
                   </span>
                 </div>
@@ -328,6 +322,11 @@ export function ZScoreChart({ data, className }: ZScoreChartProps) {
                   <span>Optimal</span>
                   <span>High</span>
                 </div>
+                {item.labRange ? (
+                  <p className="text-xs text-[var(--foreground-muted)]">
+                    Lab reference range: {item.labRange.text}
+                  </p>
+                ) : null}
               </div>
             );
           })}
@@ -1,8 +1,10 @@
 export { PhenoAgeChart, BiomarkerTrendChart, ZScoreChart } from "./biomarker-chart";
+export { RankHistoryChart } from "./rank-history-chart";
 
 // Lazy-loaded versions for better performance (use these when charts are below the fold)
 export {
   LazyPhenoAgeChart,
   LazyBiomarkerTrendChart,
   LazyZScoreChart,
+  LazyRankHistoryChart,
 } from "./lazy-charts";
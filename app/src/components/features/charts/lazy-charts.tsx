@@ -29,3 +29,11 @@ export const LazyZScoreChart = dynamic(
     ssr: false,
   }
 );
+
+export const LazyRankHistoryChart = dynamic(
+  () => import("./rank-history-chart").then((mod) => ({ default: mod.RankHistoryChart })),
+  {
+    loading: () => <ChartSkeleton />,
+    ssr: false,
+  }
+);
@@ -0,0 +1,117 @@
+"use client";
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { RankHistoryData } from "@/types";
+
+interface RankHistoryChartProps {
+  data: RankHistoryData[];
+  className?: string;
+}
+
+export function RankHistoryChart({ data, className }: RankHistoryChartProps) {
+  if (!data.length) {
+    return (
+      <Card className={className}>
+        <CardContent className="py-12 text-center">
+          <p className="text-[var(--foreground-muted)]">No rank history yet</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Positive when the athlete climbed (lower rank number)
+  const rankChange = data[0].rank - data[data.length - 1].rank;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Rank Over Time</CardTitle>
+          {rankChange !== 0 ? (
+            <div
+              className={cn(
+                "text-sm font-medium px-2 py-1 rounded",
+                rankChange > 0
+                  ? "bg-[var(--color-success)]/10 text-[var(--color-success)]"
+                  : "bg-[var(--color-error)]/10 text-[var(--color-error)]"
+              )}
+            >
+              {rankChange > 0 ? "Up" : "Down"} {Math.abs(rankChange)} {Math.abs(rankChange) === 1 ? "place" : "places"}
+            </div>
+          ) : null}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+              <XAxis
+                dataKey="date"
+                stroke="var(--foreground-muted)"
+                fontSize={12}
+                tickLine={false}
+              />
+              {/* Rank 1 at the top */}
+              <YAxis
+                reversed
+                allowDecimals={false}
+                stroke="var(--foreground-muted)"
+                fontSize={12}
+                tickLine={false}
+                domain={[1, "dataMax + 1"]}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "var(--background-card)",
+                  border: "1px solid var(--border)",
+                  borderRadius: "0.5rem",
+                }}
+                formatter={(value) => [`#${value}`]}
+              />
+              <Legend />
+              <Line
+                type="stepAfter"
+                dataKey="rank"
+                name="Global"
+                stroke="#00BCD4"
+                strokeWidth={3}
+                dot={{ fill: "#00BCD4", strokeWidth: 2, r: 3 }}
+                activeDot={{ r: 6, strokeWidth: 2 }}
+              />
+              <Line
+                type="stepAfter"
+                dataKey="divisionRank"
+                name="Division"
+                stroke="#9C27B0"
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+              <Line
+                type="stepAfter"
+                dataKey="generationRank"
+                name="Generation"
+                stroke="#FF9800"
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,21 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { ArrowRight, Building2, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { LeagueLeaderboardTable } from "@/components/features/leaderboard/league-leaderboard-table";
-import type { LeagueLeaderboardEntry } from "@/types";
+import { ImprovementLeaderboardTable } from "@/components/features/leaderboard/improvement-leaderboard-table";
+import { cn } from "@/lib/utils";
+import type { ImprovementLeaderboardEntry, LeagueLeaderboardEntry } from "@/types";
+
+type LeaderboardTab = "leagues" | "most-improved";
+
+const tabs: { value: LeaderboardTab; label: string }[] = [
+  { value: "leagues", label: "Leagues" },
+  { value: "most-improved", label: "Most Improved" },
+];
 
 interface LeaderboardSectionProps {
   entries: LeagueLeaderboardEntry[];
@@ -14,6 +24,29 @@ interface LeaderboardSectionProps {
 
 export function LeaderboardSection({ entries, isLoading = false }: LeaderboardSectionProps) {
   const router = useRouter();
+  const [activeTab, setActiveTab] = useState<LeaderboardTab>("leagues");
+  const [improvementEntries, setImprovementEntries] = useState<ImprovementLeaderboardEntry[] | null>(null);
+
+  // Most improved standings are loaded the first time the tab is opened
+  useEffect(() => {
+    if (activeTab !== "most-improved" || improvementEntries !== null) return;
+
+    const loadImprovementEntries = async () => {
+      try {
+        const response = await fetch("/api/leaderboard/most-improved?limit=20");
+        if (response.ok) {
+          const data = await response.json();
+          setImprovementEntries(data.data || []);
+          return;
+        }
+      } catch (error) {
+        console.error("Failed to fetch most improved leaderboard:", error);
+      }
+      setImprovementEntries([]);
+    };
+
+    loadImprovementEntries();
+  }, [activeTab, improvementEntries]);
 
   const handleLeagueClick = (leagueSlug: string) => {
     router.push(`/leagues/${leagueSlug}`);
@@ -32,13 +65,47 @@ export function LeaderboardSection({ entries, isLoading = false }: LeaderboardSe
           </Button>
         </div>
 
-        {Boolean(isLoading) && (
+        <div role="tablist" className="flex gap-2 mb-6">
+          {tabs.map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              role="tab"
+              aria-selected={activeTab === tab.value}
+              onClick={() => setActiveTab(tab.value)}
+              className={cn(
+                "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                activeTab === tab.value
+                  ? "bg-[var(--color-primary)] text-white"
+                  : "bg-[var(--background-card)] text-[var(--foreground-secondary)] hover:text-[var(--foreground)]"
+              )}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === "most-improved" && improvementEntries === null ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-[var(--color-primary)]" />
+          </div>
+        ) : null}
+
+        {activeTab === "most-improved" && improvementEntries !== null ? (
+          <ImprovementLeaderboardTable
+            entries={improvementEntries}
+            showFilters={false}
+            onAthleteClick={(athleteSlug) => router.push(`/athletes/${athleteSlug}`)}
+          />
+        ) : null}
+
+        {activeTab === "leagues" && Boolean(isLoading) && (
           <div className="flex items-center justify-center py-20">
             <Loader2 className="w-8 h-8 animate-spin text-[var(--color-primary)]" />
           </div>
         )}
 
-        {!isLoading && entries.length > 0 && (
+        {activeTab === "leagues" && !isLoading && entries.length > 0 && (
           <LeagueLeaderboardTable
             entries={entries}
             showFilters={false}
@@ -46,7 +113,7 @@ export function LeaderboardSection({ entries, isLoading = false }: LeaderboardSe
           />
         )}
 
-        {!isLoading && entries.length === 0 && (
+        {activeTab === "leagues" && !isLoading && entries.length === 0 && (
           <Card>
             <CardContent className="py-12 text-center">
               <Building2 className="h-12 w-12 mx-auto text-[var(--foreground-muted)] mb-4" />
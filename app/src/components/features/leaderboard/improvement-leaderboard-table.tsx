@@ -0,0 +1,183 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { Search, TrendingUp } from "lucide-react";
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { ImprovementLeaderboardEntry } from "@/types";
+
+interface ImprovementLeaderboardTableProps {
+  entries: ImprovementLeaderboardEntry[];
+  showFilters?: boolean;
+  onAthleteClick?: (athleteSlug: string) => void;
+}
+
+const divisions: { value: string; label: string }[] = [
+  { value: "all", label: "All Divisions" },
+  { value: "MENS", label: "Men's" },
+  { value: "WOMENS", label: "Women's" },
+  { value: "OPEN", label: "Open" },
+];
+
+const generations: { value: string; label: string }[] = [
+  { value: "all", label: "All Generations" },
+  { value: "SILENT", label: "Silent" },
+  { value: "BOOMER", label: "Boomers" },
+  { value: "GENX", label: "Gen X" },
+  { value: "MILLENNIAL", label: "Millennials" },
+  { value: "GENZ", label: "Gen Z" },
+  { value: "GENALPHA", label: "Gen Alpha" },
+];
+
+export function ImprovementLeaderboardTable({
+  entries,
+  showFilters = true,
+  onAthleteClick,
+}: ImprovementLeaderboardTableProps) {
+  const [search, setSearch] = useState("");
+  const [selectedDivision, setSelectedDivision] = useState("all");
+  const [selectedGeneration, setSelectedGeneration] = useState("all");
+
+  const filteredEntries = entries.filter((entry) => {
+    const matchesSearch = entry.athlete.displayName
+      .toLowerCase()
+      .includes(search.toLowerCase());
+    const matchesDivision =
+      selectedDivision === "all" || entry.athlete.division === selectedDivision;
+    const matchesGeneration =
+      selectedGeneration === "all" || entry.athlete.generation === selectedGeneration;
+    return matchesSearch && matchesDivision && matchesGeneration;
+  });
+
+  return (
+    <div className="w-full">
+      {/* Filters */}
+      {showFilters ? (
+        <div className="flex flex-col md:flex-row gap-4 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-[var(--foreground-muted)]" />
+            <Input
+              placeholder="Search athletes..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          <div className="flex gap-2 flex-wrap">
+            <select
+              value={selectedDivision}
+              onChange={(e) => setSelectedDivision(e.target.value)}
+              className="h-10 px-3 rounded-lg bg-[var(--background-card)] border border-[var(--border)] text-sm text-[var(--foreground)] focus:border-[var(--color-primary)] focus:outline-none"
+            >
+              {divisions.map((d) => (
+                <option key={d.value} value={d.value}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={selectedGeneration}
+              onChange={(e) => setSelectedGeneration(e.target.value)}
+              className="h-10 px-3 rounded-lg bg-[var(--background-card)] border border-[var(--border)] text-sm text-[var(--foreground)] focus:border-[var(--color-primary)] focus:outline-none"
+            >
+              {generations.map((g) => (
+                <option key={g.value} value={g.value}>
+                  {g.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ) : null}
+
+      {/* Table */}
+      <div className="overflow-x-auto rounded-xl border border-[var(--border)]">
+        <table className="w-full">
+          <thead className="bg-[var(--background-elevated)]">
+            <tr className="text-left text-sm text-[var(--foreground-secondary)]">
+              <th className="px-4 py-3 font-medium">Rank</th>
+              <th className="px-4 py-3 font-medium">Athlete</th>
+              <th className="px-4 py-3 font-medium text-right">PhenoAge Drop</th>
+              <th className="px-4 py-3 font-medium text-right hidden md:table-cell">First → Best</th>
+              <th className="px-4 py-3 font-medium text-right hidden lg:table-cell">Samples</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-[var(--border)]">
+            {filteredEntries.map((entry, index) => (
+              <motion.tr
+                key={entry.athlete.id}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: index * 0.05 }}
+                onClick={() => onAthleteClick?.(entry.athlete.slug)}
+                className={cn(
+                  "hover:bg-[var(--background-card)] transition-colors cursor-pointer",
+                  entry.rank <= 3 && "bg-[var(--background-card)]/50"
+                )}
+              >
+                {/* Rank */}
+                <td className="px-4 py-4">
+                  <span
+                    className={cn(
+                      "font-bold text-lg",
+                      entry.rank === 1 && "text-yellow-400",
+                      entry.rank === 2 && "text-gray-400",
+                      entry.rank === 3 && "text-orange-500"
+                    )}
+                  >
+                    #{entry.rank}
+                  </span>
+                </td>
+
+                {/* Athlete */}
+                <td className="px-4 py-4">
+                  <p className="font-medium text-[var(--foreground)]">{entry.athlete.displayName}</p>
+                  {entry.league ? (
+                    <p className="text-xs text-[var(--foreground-muted)]">{entry.league.name}</p>
+                  ) : null}
+                </td>
+
+                {/* PhenoAge Drop */}
+                <td className="px-4 py-4 text-right">
+                  <span className="font-bold text-lg text-[var(--color-success)]">
+                    -{entry.improvement.toFixed(1)}
+                  </span>
+                  <span className="text-sm text-[var(--foreground-secondary)]"> yrs</span>
+                </td>
+
+                {/* First → Best */}
+                <td className="px-4 py-4 text-right hidden md:table-cell">
+                  <span className="text-[var(--foreground)]">
+                    {entry.baselinePhenoAge.toFixed(1)} → {entry.bestPhenoAge.toFixed(1)}
+                  </span>
+                  <p className="text-xs text-[var(--foreground-muted)]">
+                    {entry.baselineDate} → {entry.bestDate}
+                  </p>
+                </td>
+
+                {/* Samples */}
+                <td className="px-4 py-4 text-right hidden lg:table-cell text-[var(--foreground)]">
+                  {entry.sampleCount}
+                </td>
+              </motion.tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Empty State */}
+      {filteredEntries.length === 0 && (
+        <div className="text-center py-12">
+          <TrendingUp className="h-12 w-12 mx-auto text-[var(--foreground-muted)] mb-4" />
+          <p className="text-[var(--foreground-secondary)]">No improvements yet</p>
+          <p className="text-sm text-[var(--foreground-muted)] mt-1">
+            Athletes appear here once a later test shows a lower PhenoAge than their first of the season
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,3 @@
 export * from "./podium";
 export * from "./league-leaderboard-table";
+export * from "./improvement-leaderboard-table";
@@ -141,6 +141,16 @@ describe('LeagueLeaderboardTable', () => {
     expect(screen.getByText('-7.2')).toBeInTheDocument();
   });
 
+  it('displays the scoring strategy behind each score', () => {
+    render(
+      <LeagueLeaderboardTable
+        entries={[createMockEntry({ scoringStrategy: 'MEDIAN' })]}
+      />
+    );
+
+    expect(screen.getByText('Median')).toBeInTheDocument();
+  });
+
   it('displays member counts', () => {
     render(<LeagueLeaderboardTable entries={mockEntries} />);
 
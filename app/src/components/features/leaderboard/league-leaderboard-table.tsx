@@ -6,6 +6,7 @@ import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
+import { SCORING_STRATEGIES } from "@/lib/league-scoring/strategies";
 import type { LeagueLeaderboardEntry, LeagueType, LeagueTier } from "@/types";
 
 interface LeagueLeaderboardTableProps {
@@ -211,6 +212,14 @@ export function LeagueLeaderboardTable({
                     {Math.abs(entry.avgAgeReduction).toFixed(1)}
                   </span>
                   <span className="text-sm text-[var(--foreground-secondary)]"> yrs</span>
+                  {entry.scoringStrategy ? (
+                    <p
+                      className="text-xs text-[var(--foreground-muted)]"
+                      title={SCORING_STRATEGIES[entry.scoringStrategy].description}
+                    >
+                      {SCORING_STRATEGIES[entry.scoringStrategy].label}
+                    </p>
+                  ) : null}
                 </td>
 
                 {/* Members */}
@@ -0,0 +1,4 @@
+export * from "./join-links-panel";
+export * from "./join-requests-panel";
+export * from "./league-billing-panel";
+export * from "./league-export-panel";
@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy, Link2, Loader2, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/toast";
+import type { LeagueJoinLink } from "@/types";
+
+const statusVariants: Record<LeagueJoinLink["status"], "success" | "muted" | "warning"> = {
+  ACTIVE: "success",
+  REVOKED: "muted",
+  EXPIRED: "muted",
+  EXHAUSTED: "warning",
+};
+
+interface JoinLinksPanelProps {
+  slug: string;
+}
+
+export function JoinLinksPanel({ slug }: JoinLinksPanelProps) {
+  const toast = useToast();
+
+  const [links, setLinks] = useState<LeagueJoinLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [maxUses, setMaxUses] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/leagues/${slug}/join-links`);
+      if (response.ok) {
+        const result = await response.json();
+        setLinks(result.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch join links:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  async function handleCreate() {
+    setCreating(true);
+    try {
+      const response = await fetch(`/api/leagues/${slug}/join-links`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          maxUses: maxUses ? Number(maxUses) : null,
+          // Valid through the end of the chosen day
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details) ? result.details.join(", ") : null;
+        toast.error("Failed to create link", details || result.error || "Please try again");
+        return;
+      }
+
+      setLinks((prev) => [result.data, ...prev]);
+      setMaxUses("");
+      setExpiresOn("");
+      toast.success("Join link created", "Share it with the athletes you want in your league");
+    } catch (error) {
+      console.error("Failed to create join link:", error);
+      toast.error("Something went wrong", "Failed to create link");
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleCopy(code: string) {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/join/${code}`);
+      toast.success("Link copied", "Paste it wherever you share it");
+    } catch (error) {
+      console.error("Failed to copy join link:", error);
+      toast.error("Couldn't copy link", `The code is ${code}`);
+    }
+  }
+
+  async function handleRevoke(link: LeagueJoinLink) {
+    if (!confirm(`Revoke join link ${link.code}? It stops working immediately.`)) return;
+
+    try {
+      const response = await fetch(`/api/leagues/${slug}/join-links/${link.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const result = await response.json();
+        toast.error("Failed to revoke link", result.error || "Please try again");
+        return;
+      }
+
+      setLinks((prev) => prev.filter((l) => l.id !== link.id));
+      toast.success("Join link revoked", "Nobody can join with it anymore");
+    } catch (error) {
+      console.error("Failed to revoke join link:", error);
+      toast.error("Something went wrong", "Failed to revoke link");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Join Links
+        </CardTitle>
+        <CardDescription>
+          Anyone with a link joins right away, even when join requests need approval
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <div>
+            <Label htmlFor="joinLinkMaxUses">Max uses</Label>
+            <Input
+              id="joinLinkMaxUses"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={maxUses}
+              onChange={(e) => setMaxUses(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="joinLinkExpiresOn">Expires on</Label>
+            <Input
+              id="joinLinkExpiresOn"
+              type="date"
+              min={today}
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <Button onClick={handleCreate} isLoading={creating}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Link
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-[var(--color-primary)]" />
+          </div>
+        ) : null}
+
+        {!loading && links.length === 0 ? (
+          <p className="text-center text-[var(--foreground-muted)] py-4">No join links yet</p>
+        ) : null}
+
+        {links.length > 0 ? (
+          <div className="space-y-3">
+            {links.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-center gap-4 p-3 rounded-lg bg-[var(--background-elevated)]"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono font-medium text-[var(--foreground)]">{link.code}</p>
+                  <p className="text-xs text-[var(--foreground-muted)]">
+                    {link.useCount}
+                    {link.maxUses !== null ? ` / ${link.maxUses}` : ""} uses
+                    {link.expiresAt ? ` • Expires ${new Date(link.expiresAt).toLocaleDateString()}` : ""}
+                  </p>
+                </div>
+                <Badge variant={statusVariants[link.status]}>{link.status.toLowerCase()}</Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleCopy(link.code)}
+                  disabled={link.status !== "ACTIVE"}
+                  aria-label={`Copy join link ${link.code}`}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-[var(--color-error)] hover:text-[var(--color-error)]"
+                  onClick={() => handleRevoke(link)}
+                  aria-label={`Revoke join link ${link.code}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
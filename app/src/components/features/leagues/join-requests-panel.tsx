@@ -0,0 +1,153 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Inbox, Loader2, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useToast } from "@/components/ui/toast";
+import type { LeagueJoinRequest } from "@/types";
+
+interface JoinRequestsPanelProps {
+  slug: string;
+  /** Called after a request is approved, so the member list can refresh */
+  onApproved?: () => void;
+}
+
+export function JoinRequestsPanel({ slug, onApproved }: JoinRequestsPanelProps) {
+  const toast = useToast();
+
+  const [requests, setRequests] = useState<LeagueJoinRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/leagues/${slug}/join-requests`);
+      if (response.ok) {
+        const result = await response.json();
+        setRequests(result.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch join requests:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  async function handleReview(request: LeagueJoinRequest, action: "approve" | "deny") {
+    setProcessingIds((prev) => new Set(prev).add(request.id));
+    try {
+      const response = await fetch(`/api/leagues/${slug}/join-requests/${request.id}/${action}`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        toast.error(`Failed to ${action} request`, result.error || "Please try again");
+        // Already reviewed by someone else or no longer joinable
+        if (response.status === 404 || response.status === 409) fetchRequests();
+        return;
+      }
+
+      setRequests((prev) => prev.filter((r) => r.id !== request.id));
+      if (action === "approve") {
+        toast.success("Request approved", `${request.athlete.displayName} is now a member`);
+        onApproved?.();
+      } else {
+        toast.info("Request denied", `${request.athlete.displayName} won't join`);
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} join request:`, error);
+      toast.error("Something went wrong", `Failed to ${action} request`);
+    } finally {
+      setProcessingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(request.id);
+        return next;
+      });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          Join Requests
+          {requests.length > 0 ? (
+            <Badge variant="warning" className="ml-2">
+              {requests.length}
+            </Badge>
+          ) : null}
+        </CardTitle>
+        <CardDescription>Athletes asking to join your league</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-[var(--color-primary)]" />
+          </div>
+        ) : null}
+
+        {!loading && requests.length === 0 ? (
+          <p className="text-center text-[var(--foreground-muted)] py-4">No pending requests</p>
+        ) : null}
+
+        {requests.length > 0 ? (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div
+                key={request.id}
+                className="flex items-center gap-4 p-3 rounded-lg bg-[var(--background-elevated)]"
+              >
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={request.athlete.profilePicture || undefined} />
+                  <AvatarFallback>{request.athlete.displayName.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={`/athletes/${request.athlete.slug}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-[var(--foreground)] truncate hover:underline"
+                  >
+                    {request.athlete.displayName}
+                  </a>
+                  {request.message ? (
+                    <p className="text-sm text-[var(--foreground-secondary)] truncate">{request.message}</p>
+                  ) : null}
+                  <p className="text-xs text-[var(--foreground-muted)]">
+                    Asked {new Date(request.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleReview(request, "deny")}
+                  disabled={processingIds.has(request.id)}
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Deny
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleReview(request, "approve")}
+                  isLoading={processingIds.has(request.id)}
+                >
+                  <Check className="mr-1 h-4 w-4" />
+                  Approve
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
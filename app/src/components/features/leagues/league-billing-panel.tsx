@@ -0,0 +1,206 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, Check, CreditCard, Loader2, Lock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/toast";
+import type { LeagueBillingStatus, LeagueFeature, LeagueTier } from "@/types";
+
+const tierColors: Record<LeagueTier, string> = {
+  FREE: "bg-gray-500/10 text-gray-400",
+  STARTER: "bg-blue-500/10 text-blue-400",
+  PRO: "bg-purple-500/10 text-purple-400",
+  ENTERPRISE: "bg-yellow-500/10 text-yellow-400",
+};
+
+// Mirrors FEATURE_TIERS in lib/entitlements, which enforces them
+const featureLabels: { feature: LeagueFeature; label: string; tier: LeagueTier }[] = [
+  { feature: "CSV_EXPORT", label: "CSV exports", tier: "STARTER" },
+  { feature: "CUSTOM_BRANDING", label: "Custom branding", tier: "STARTER" },
+  { feature: "ADVANCED_ANALYTICS", label: "Advanced analytics", tier: "PRO" },
+];
+
+// Tiers sold through checkout, lowest first; ENTERPRISE is arranged directly
+const purchasableTiers: LeagueTier[] = ["STARTER", "PRO"];
+const tierOrder: LeagueTier[] = ["FREE", "STARTER", "PRO", "ENTERPRISE"];
+
+interface LeagueBillingPanelProps {
+  slug: string;
+  /** Called after an upgrade, so the rest of the page can refresh */
+  onTierChanged?: () => void;
+}
+
+export function LeagueBillingPanel({ slug, onTierChanged }: LeagueBillingPanelProps) {
+  const toast = useToast();
+
+  const [billing, setBilling] = useState<LeagueBillingStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [purchasing, setPurchasing] = useState<LeagueTier | null>(null);
+
+  const fetchBilling = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/leagues/${slug}/billing`);
+      if (response.ok) {
+        const result = await response.json();
+        setBilling(result.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch billing status:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    fetchBilling();
+  }, [fetchBilling]);
+
+  // Checkout sends the owner back with ?billing=success or ?billing=canceled
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const outcome = url.searchParams.get("billing");
+    if (!outcome) return;
+
+    if (outcome === "success") {
+      toast.success("Payment received", "Your new tier applies as soon as the payment is confirmed");
+    } else {
+      toast.info("Checkout canceled", "Your plan hasn't changed");
+    }
+    url.searchParams.delete("billing");
+    window.history.replaceState(null, "", url.toString());
+  }, [toast]);
+
+  async function handlePurchase(tier: LeagueTier) {
+    if (!billing) return;
+
+    // A running subscription is upgraded in place; otherwise the owner checks out
+    const upgrading = billing.subscription !== null;
+    setPurchasing(tier);
+    try {
+      const response = await fetch(`/api/leagues/${slug}/billing/${upgrading ? "upgrade" : "checkout"}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tier }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error("Couldn't change plan", result.error || "Please try again");
+        return;
+      }
+
+      if (upgrading) {
+        setBilling(result.data);
+        toast.success("Plan upgraded", `Your league is now on ${tier}`);
+        onTierChanged?.();
+      } else {
+        window.location.href = result.data.url;
+      }
+    } catch (error) {
+      console.error("Failed to change plan:", error);
+      toast.error("Something went wrong", "Failed to change plan");
+    } finally {
+      setPurchasing(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-[var(--color-primary)]" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!billing) {
+    return null;
+  }
+
+  const upgrades = purchasableTiers.filter((tier) => tierOrder.indexOf(tier) > tierOrder.indexOf(billing.tier));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          Subscription Tier
+        </CardTitle>
+        {billing.subscription ? (
+          <CardDescription>
+            {billing.subscription.tier} subscription
+            {billing.subscription.status === "ACTIVE"
+              ? `, renews ${new Date(billing.subscription.currentPeriodEnd).toLocaleDateString()}`
+              : ", payment past due"}
+          </CardDescription>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-4 rounded-lg bg-[var(--background-elevated)]">
+          <div>
+            <Badge className={tierColors[billing.tier]}>{billing.tier}</Badge>
+            <p className="text-sm text-[var(--foreground-muted)] mt-2">
+              {billing.memberLimit !== null ? `Up to ${billing.memberLimit} members` : "Unlimited members"} •{" "}
+              {billing.memberCount} now
+            </p>
+          </div>
+          {billing.canPurchase && upgrades.length > 0 ? (
+            <div className="flex gap-2">
+              {upgrades.map((tier) => (
+                <Button
+                  key={tier}
+                  variant="secondary"
+                  onClick={() => handlePurchase(tier)}
+                  isLoading={purchasing === tier}
+                  disabled={purchasing !== null || billing.subscription?.status === "PAST_DUE"}
+                >
+                  Upgrade to {tier}
+                </Button>
+              ))}
+            </div>
+          ) : null}
+        </div>
+
+        <ul className="grid grid-cols-2 gap-2 text-sm">
+          {featureLabels.map(({ feature, label, tier }) => (
+            <li
+              key={feature}
+              className={`flex items-center gap-2 ${billing.features[feature] ? "" : "text-[var(--foreground-muted)]"}`}
+            >
+              {billing.features[feature] ? (
+                <Check className="h-4 w-4 text-[var(--color-success)]" />
+              ) : (
+                <Lock className="h-4 w-4" />
+              )}
+              {label}
+              {billing.features[feature] ? null : <span className="text-xs">({tier})</span>}
+            </li>
+          ))}
+        </ul>
+
+        {billing.paymentPastDue ? (
+          <p className="flex items-start gap-2 text-sm text-[var(--color-warning)]">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            The last payment failed. The league keeps its tier while the payment is retried, but can&apos;t grow
+            beyond the FREE limit until it is settled. If the subscription lapses, the league moves to FREE.
+          </p>
+        ) : null}
+
+        {billing.overLimitBy > 0 ? (
+          <p className="flex items-start gap-2 text-sm text-[var(--color-warning)]">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            The league has {billing.overLimitBy} more {billing.overLimitBy === 1 ? "member" : "members"} than its
+            tier allows. Everyone stays, but nobody new can join until you upgrade or members leave.
+          </p>
+        ) : null}
+
+        {!billing.canPurchase ? (
+          <p className="text-xs text-[var(--foreground-muted)]">Only the league owner can change the plan.</p>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
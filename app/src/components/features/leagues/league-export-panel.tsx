@@ -0,0 +1,80 @@
+"use client";
+
+import { Download, FileSpreadsheet, Lock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { LeagueTier } from "@/types";
+
+// CSV exports start at STARTER (FEATURE_TIERS in lib/entitlements, which enforces it)
+const exportTiers: LeagueTier[] = ["STARTER", "PRO", "ENTERPRISE"];
+
+const csvDownloads: { dataset: string; label: string; description: string }[] = [
+  { dataset: "members", label: "Members", description: "Roster with roles, join dates, best and latest results" },
+  {
+    dataset: "submissions",
+    label: "Submissions",
+    description: "Approved submissions, with biomarker values from athletes who share them",
+  },
+  { dataset: "standings", label: "Standings", description: "League leaderboard history by season" },
+  { dataset: "dictionary", label: "Column dictionary", description: "What every exported column means" },
+];
+
+interface LeagueExportPanelProps {
+  slug: string;
+  tier: LeagueTier;
+}
+
+export function LeagueExportPanel({ slug, tier }: LeagueExportPanelProps) {
+  const available = exportTiers.includes(tier);
+  const exportUrl = `/api/leagues/${slug}/export`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Export Data
+        </CardTitle>
+        <CardDescription>
+          Download your league&apos;s members, submissions and standings for your own records
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {available ? (
+          <div className="space-y-3">
+            {csvDownloads.map(({ dataset, label, description }) => (
+              <div
+                key={dataset}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg bg-[var(--background-elevated)]"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-[var(--foreground)]">{label}</p>
+                  <p className="text-xs text-[var(--foreground-muted)]">{description}</p>
+                </div>
+                <a href={`${exportUrl}?format=csv&dataset=${dataset}`} download>
+                  <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4" />
+                    CSV
+                  </Button>
+                </a>
+              </div>
+            ))}
+            <div className="flex justify-end pt-2">
+              <a href={`${exportUrl}?format=xlsx`} download>
+                <Button>
+                  <Download className="h-4 w-4" />
+                  Everything (Excel)
+                </Button>
+              </a>
+            </div>
+          </div>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-[var(--foreground-muted)]">
+            <Lock className="h-4 w-4" />
+            Exports are included from the STARTER tier. Upgrade your league above to download its data.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,8 +16,14 @@ import {
   HelpCircle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { BIOMARKER_RANGES } from "@/lib/phenoage";
-import type { BiomarkerKey, BiomarkerExtraction, ExtractionSource } from "@/lib/ocr/types";
+import { BIOMARKER_KEYS, getBiomarker } from "@/lib/biomarkers";
+import { PHENOAGE_BIOMARKER_KEYS } from "@/lib/phenoage";
+import type {
+  AbnormalFlag,
+  BiomarkerKey,
+  BiomarkerExtraction,
+  ExtractionSource,
+} from "@/lib/ocr/types";
 import { generateDetailedConfidenceBreakdown } from "@/lib/ocr/confidence-scorer";
 import { ConfidenceIndicator } from "./confidence-breakdown-tooltip";
 import { ExtractionSourceInline } from "./extraction-source-badge";
@@ -25,7 +31,7 @@ import { RawTextPreviewButton } from "./raw-text-preview";
 import { LowConfidenceSuggestions } from "./low-confidence-suggestions";
 
 interface ReviewPanelProps {
-  extractions: Record<BiomarkerKey, BiomarkerExtraction>;
+  extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>>;
   onValueChange: (biomarker: BiomarkerKey, value: number | null) => void;
   onAcceptAll: () => void;
   onRetry: () => void;
@@ -34,29 +40,16 @@ interface ReviewPanelProps {
   modifiedFields?: Set<BiomarkerKey>;
 }
 
-const BIOMARKER_LABELS: Record<BiomarkerKey, string> = {
-  albumin: "Albumin",
-  creatinine: "Creatinine",
-  glucose: "Glucose (Fasting)",
-  crp: "C-Reactive Protein",
-  lymphocytePercent: "Lymphocyte %",
-  mcv: "MCV",
-  rdw: "RDW",
-  alp: "Alkaline Phosphatase",
-  wbc: "White Blood Cells",
-};
+// PhenoAge inputs are always reviewed; other catalog biomarkers only when found
+const REQUIRED_BIOMARKERS = new Set<BiomarkerKey>(PHENOAGE_BIOMARKER_KEYS);
 
-const BIOMARKER_ORDER: BiomarkerKey[] = [
-  "albumin",
-  "creatinine",
-  "glucose",
-  "crp",
-  "lymphocytePercent",
-  "mcv",
-  "rdw",
-  "alp",
-  "wbc",
-];
+function getReviewKeys(extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>>): BiomarkerKey[] {
+  return BIOMARKER_KEYS.filter(
+    (key) =>
+      extractions[key] !== undefined &&
+      (REQUIRED_BIOMARKERS.has(key) || extractions[key]?.value !== null)
+  );
+}
 
 export const ReviewPanel = memo(function ReviewPanel({
   extractions,
@@ -69,6 +62,8 @@ export const ReviewPanel = memo(function ReviewPanel({
   const [editingField, setEditingField] = useState<BiomarkerKey | null>(null);
   const [localModified, setLocalModified] = useState<Set<BiomarkerKey>>(new Set(modifiedFields));
 
+  const reviewKeys = useMemo(() => getReviewKeys(extractions), [extractions]);
+
   // Count extractions by confidence level - memoized to prevent recalculation
   const stats = useMemo(() => {
     const result = {
@@ -78,8 +73,8 @@ export const ReviewPanel = memo(function ReviewPanel({
       missing: 0,
     };
 
-    BIOMARKER_ORDER.forEach((key) => {
-      const ext = extractions[key];
+    reviewKeys.forEach((key) => {
+      const ext = extractions[key] as BiomarkerExtraction;
       if (ext.value === null) {
         result.missing++;
       } else if (ext.confidence >= 0.8) {
@@ -92,7 +87,7 @@ export const ReviewPanel = memo(function ReviewPanel({
     });
 
     return result;
-  }, [extractions]);
+  }, [extractions, reviewKeys]);
 
   const allValid = stats.missing === 0;
 
@@ -137,9 +132,9 @@ export const ReviewPanel = memo(function ReviewPanel({
 
       {/* Biomarker values grid */}
       <div className="grid gap-3">
-        {BIOMARKER_ORDER.map((biomarker) => {
+        {reviewKeys.map((biomarker) => {
           const wasModified = localModified.has(biomarker);
-          const extraction = extractions[biomarker];
+          const extraction = extractions[biomarker] as BiomarkerExtraction;
           const source: ExtractionSource = extraction.value === null
             ? 'manual'
             : wasModified
@@ -181,12 +176,12 @@ export const ReviewPanel = memo(function ReviewPanel({
                 Please enter {stats.missing === 1 ? "it" : "them"} manually by tapping the edit button.
               </p>
               <div className="flex flex-wrap gap-2">
-                {BIOMARKER_ORDER.filter((key) => extractions[key].value === null).map((key) => (
+                {reviewKeys.filter((key) => extractions[key]?.value === null).map((key) => (
                   <span
                     key={key}
                     className="px-2 py-1 text-xs bg-gray-800 text-gray-300 rounded-md"
                   >
-                    {BIOMARKER_LABELS[key]}
+                    {getBiomarker(key).label}
                   </span>
                 ))}
               </div>
@@ -228,6 +223,33 @@ export const ReviewPanel = memo(function ReviewPanel({
   );
 });
 
+const FLAG_LABELS: Record<AbnormalFlag, string> = {
+  H: "High",
+  L: "Low",
+  HH: "Critical high",
+  LL: "Critical low",
+  A: "Abnormal",
+};
+
+/**
+ * Abnormal flag printed by the lab (or derived from its reference range)
+ */
+function AbnormalFlagBadge({ flag }: { flag: AbnormalFlag }) {
+  const critical = flag === "HH" || flag === "LL";
+
+  return (
+    <span
+      className={cn(
+        "px-1.5 py-0.5 rounded text-xs font-medium",
+        critical ? "bg-red-500/20 text-red-400" : "bg-amber-500/20 text-amber-400"
+      )}
+      title="Flag from your lab report"
+    >
+      {FLAG_LABELS[flag]}
+    </span>
+  );
+}
+
 interface BiomarkerRowProps {
   biomarker: BiomarkerKey;
   extraction: BiomarkerExtraction;
@@ -251,8 +273,8 @@ const BiomarkerRow = memo(function BiomarkerRow({
     extraction.value?.toString() || ""
   );
 
-  const range = BIOMARKER_RANGES[biomarker];
-  const label = BIOMARKER_LABELS[biomarker];
+  const definition = getBiomarker(biomarker);
+  const label = definition.label;
   const hasValue = extraction.value !== null;
   const confidence = extraction.confidence;
 
@@ -324,7 +346,7 @@ const BiomarkerRow = memo(function BiomarkerRow({
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-1 sm:gap-2 flex-wrap">
             <span className="text-white font-medium text-sm sm:text-base">{label}</span>
-            <span className="text-gray-500 text-xs sm:text-sm">{range.unit}</span>
+            <span className="text-gray-500 text-xs sm:text-sm">{definition.unit}</span>
             {/* Source indicator */}
             {hasValue && source !== 'manual' ? <ExtractionSourceInline source={source} /> : null}
           </div>
@@ -337,9 +359,9 @@ const BiomarkerRow = memo(function BiomarkerRow({
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyDown={handleKeyDown}
                 step="0.01"
-                min={range.min}
-                max={range.max}
-                placeholder={`${range.optimal.min} - ${range.optimal.max}`}
+                min={definition.min}
+                max={definition.max}
+                placeholder={`${definition.optimal.min} - ${definition.optimal.max}`}
                 className="flex-1 px-3 py-2 sm:py-1.5 bg-gray-800 border border-gray-600 rounded-lg text-white text-sm focus:border-cyan-400 focus:outline-none"
                 autoFocus
               />
@@ -367,6 +389,13 @@ const BiomarkerRow = memo(function BiomarkerRow({
               ) : (
                 <span className="text-red-400 text-xs sm:text-sm italic">Not found - tap to enter</span>
               )}
+              {/* Lab-printed flag and reference range */}
+              {hasValue && extraction.flag ? <AbnormalFlagBadge flag={extraction.flag} /> : null}
+              {hasValue && extraction.referenceRange ? (
+                <span className="text-gray-500 text-xs">
+                  Lab range: {extraction.referenceRange.text}
+                </span>
+              ) : null}
               {/* Raw text preview link */}
               {extraction.rawText ? <RawTextPreviewButton extraction={extraction} /> : null}
             </div>
@@ -389,13 +418,19 @@ const BiomarkerRow = memo(function BiomarkerRow({
         <div className="flex-shrink-0 group relative hidden sm:block">
           <HelpCircle className="w-4 h-4 text-gray-500" />
           <div className="absolute right-0 bottom-full mb-2 w-48 p-2 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10 shadow-lg">
+            {extraction.referenceRange ? (
+              <p className="mb-1">
+                <span className="text-gray-400">Lab range:</span>{" "}
+                {extraction.referenceRange.text}
+              </p>
+            ) : null}
             <p>
               <span className="text-gray-400">Normal range:</span>{" "}
-              {range.optimal.min} - {range.optimal.max} {range.unit}
+              {definition.optimal.min} - {definition.optimal.max} {definition.unit}
             </p>
             <p className="mt-1">
-              <span className="text-gray-400">Valid:</span> {range.min} -{" "}
-              {range.max} {range.unit}
+              <span className="text-gray-400">Valid:</span> {definition.min} -{" "}
+              {definition.max} {definition.unit}
             </p>
           </div>
         </div>
@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
-import { biomarkerFields, type BiomarkerFieldKey, type CalculationResult, type CalculationError } from "./types";
+import { requiredBiomarkerFields, type BiomarkerFieldKey, type CalculationResult, type CalculationError } from "./types";
 
 interface CalculationPreviewProps {
   biomarkers: Partial<Record<BiomarkerFieldKey, number>>;
@@ -22,8 +22,8 @@ export function CalculationPreview({
   isSubmitting,
   onSubmit,
 }: CalculationPreviewProps) {
-  const filledCount = Object.keys(biomarkers).filter(
-    (k) => biomarkers[k as BiomarkerFieldKey] !== undefined
+  const filledCount = requiredBiomarkerFields.filter(
+    (field) => biomarkers[field.key] !== undefined
   ).length;
 
   return (
@@ -42,11 +42,11 @@ export function CalculationPreview({
               Fill in all biomarker values to see your calculated biological age
             </p>
             <Progress
-              value={(filledCount / biomarkerFields.length) * 100}
+              value={(filledCount / requiredBiomarkerFields.length) * 100}
               className="mt-4"
             />
             <p className="text-xs text-[var(--foreground-muted)] mt-2">
-              {filledCount} of {biomarkerFields.length} fields completed
+              {filledCount} of {requiredBiomarkerFields.length} fields completed
             </p>
           </div>
         ) : result && "error" in result ? (
@@ -0,0 +1,137 @@
+"use client";
+
+import { FileText, Trash2, AlertTriangle, CalendarDays } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { FileUpload } from "@/components/features/ocr";
+import type { BiomarkerKey } from "@/lib/ocr/types";
+import type { SubmissionDraftView } from "@/lib/ocr/submission-draft";
+import { biomarkerFields } from "./types";
+
+interface DraftDocumentsPanelProps {
+  draft: SubmissionDraftView;
+  isProcessing: boolean;
+  onAddDocument: (file: File) => void;
+  onError: (error: string) => void;
+  onResolveConflict: (biomarker: BiomarkerKey, jobId: string) => void;
+  onCollectionDateChange: (jobId: string, date: string) => void;
+  onRemoveDocument: (jobId: string) => void;
+}
+
+const statusVariant: Record<string, "success" | "warning" | "error" | "muted"> = {
+  COMPLETED: "success",
+  PROCESSING: "warning",
+  PENDING: "muted",
+  FAILED: "error",
+};
+
+function biomarkerLabel(key: BiomarkerKey): string {
+  return biomarkerFields.find((field) => field.key === key)?.label ?? key;
+}
+
+export function DraftDocumentsPanel({
+  draft,
+  isProcessing,
+  onAddDocument,
+  onError,
+  onResolveConflict,
+  onCollectionDateChange,
+  onRemoveDocument,
+}: DraftDocumentsPanelProps) {
+  const { documents, merged, collectionGap } = draft;
+  const gapExceeded = collectionGap.gapDays !== null && !collectionGap.valid;
+
+  return (
+    <div className="space-y-4">
+      {/* Documents in this submission */}
+      <div className="p-4 rounded-xl bg-[var(--background-elevated)] border border-[var(--border)]">
+        <h4 className="font-semibold text-[var(--foreground)] mb-3">
+          Lab documents ({documents.length})
+        </h4>
+        <ul className="space-y-2">
+          {documents.map((document) => (
+            <li key={document.jobId} className="flex flex-wrap items-center gap-3 text-sm">
+              <FileText className="w-4 h-4 text-[var(--foreground-muted)] flex-shrink-0" />
+              <span className="text-[var(--foreground)] truncate max-w-[12rem]">{document.fileName}</span>
+              <Badge variant={statusVariant[document.status] ?? "muted"}>
+                {document.status.toLowerCase()}
+              </Badge>
+              {document.labName ? (
+                <span className="text-[var(--foreground-muted)]">{document.labName}</span>
+              ) : null}
+              <label className="flex items-center gap-1 text-[var(--foreground-muted)] ml-auto">
+                <CalendarDays className="w-4 h-4" />
+                <input
+                  type="date"
+                  aria-label={`Collection date for ${document.fileName}`}
+                  className="bg-transparent border border-[var(--border)] rounded px-1"
+                  value={document.collectedAt?.slice(0, 10) ?? ""}
+                  onChange={(e) => e.target.value && onCollectionDateChange(document.jobId, e.target.value)}
+                />
+              </label>
+              <button
+                onClick={() => onRemoveDocument(document.jobId)}
+                className="p-1 text-gray-500 hover:text-[var(--color-error)] transition-colors"
+                aria-label={`Remove ${document.fileName}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {collectionGap.missingDates.length > 0 ? (
+          <p className="mt-3 text-sm text-[var(--color-warning)]">
+            Enter the collection date for: {collectionGap.missingDates.join(", ")}
+          </p>
+        ) : null}
+        {gapExceeded ? (
+          <p className="mt-3 text-sm text-[var(--color-error)]">
+            Samples were collected {collectionGap.gapDays} days apart; documents in one
+            submission must be within {collectionGap.maxGapDays} days.
+          </p>
+        ) : null}
+      </div>
+
+      {/* Values that differ between documents */}
+      {merged.conflicts.length > 0 ? (
+        <div className="p-4 rounded-xl bg-[var(--color-warning)]/5 border border-[var(--color-warning)]/20">
+          <h4 className="flex items-center gap-2 font-semibold text-[var(--foreground)] mb-3">
+            <AlertTriangle className="w-4 h-4 text-[var(--color-warning)]" />
+            Choose which value to use
+          </h4>
+          <div className="space-y-3">
+            {merged.conflicts.map((conflict) => (
+              <div key={conflict.biomarker} className="text-sm">
+                <p className="text-[var(--foreground)] mb-1">{biomarkerLabel(conflict.biomarker)}</p>
+                <div className="flex flex-wrap gap-2">
+                  {conflict.candidates.map((candidate) => (
+                    <button
+                      key={candidate.jobId}
+                      onClick={() => onResolveConflict(conflict.biomarker, candidate.jobId)}
+                      className={`px-3 py-1 rounded-lg border transition-colors ${
+                        conflict.resolvedJobId === candidate.jobId
+                          ? "border-[var(--color-primary)] bg-[var(--color-primary)]/10 text-[var(--foreground)]"
+                          : "border-[var(--border)] text-[var(--foreground-secondary)] hover:border-[var(--color-primary)]/50"
+                      }`}
+                    >
+                      {candidate.value} {candidate.unit ?? ""}
+                      <span className="ml-2 text-xs text-[var(--foreground-muted)]">{candidate.fileName}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {/* Add another report, e.g. a separate CBC */}
+      <div>
+        <p className="text-sm text-[var(--foreground-muted)] mb-2">
+          Results split across several reports? Add another document.
+        </p>
+        <FileUpload onFileSelect={onAddDocument} onError={onError} isProcessing={isProcessing} />
+      </div>
+    </div>
+  );
+}
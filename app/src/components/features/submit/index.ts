@@ -4,3 +4,4 @@ export * from "./entry-mode-toggle";
 export * from "./manual-entry-panel";
 export * from "./ocr-entry-panel";
 export * from "./calculation-preview";
+export * from "./draft-documents-panel";
@@ -5,12 +5,17 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
-import { BIOMARKER_RANGES } from "@/lib/phenoage";
-import { biomarkerFields, type BiomarkerFieldKey } from "./types";
+import { getBiomarker } from "@/lib/biomarkers";
+import { biomarkerFields, requiredBiomarkerFields, type BiomarkerField, type BiomarkerFieldKey } from "./types";
+
+const optionalBiomarkerFields = biomarkerFields.filter((field) => !field.required);
 
 interface ManualEntryPanelProps {
-  chronologicalAge: number;
-  onChronologicalAgeChange: (age: number) => void;
+  /** Exact age at the blood draw, computed from the profile birth date */
+  ageAtCollection: number | null;
+  /** Blood draw date (YYYY-MM-DD) */
+  collectedAt: string;
+  onCollectedAtChange: (date: string) => void;
   biomarkers: Partial<Record<BiomarkerFieldKey, number>>;
   onBiomarkerChange: (key: BiomarkerFieldKey, value: string) => void;
   proofFile: File | null;
@@ -19,8 +24,9 @@ interface ManualEntryPanelProps {
 }
 
 export function ManualEntryPanel({
-  chronologicalAge,
-  onChronologicalAgeChange,
+  ageAtCollection,
+  collectedAt,
+  onCollectedAtChange,
   biomarkers,
   onBiomarkerChange,
   proofFile,
@@ -29,12 +35,82 @@ export function ManualEntryPanel({
 }: ManualEntryPanelProps) {
   const getBiomarkerStatus = (key: BiomarkerFieldKey, value: number | undefined) => {
     if (value === undefined) return "empty";
-    const range = BIOMARKER_RANGES[key];
+    const range = getBiomarker(key);
     if (value >= range.optimal.min && value <= range.optimal.max) return "optimal";
     if (value >= range.min && value <= range.max) return "acceptable";
     return "out-of-range";
   };
 
+  const renderField = (field: BiomarkerField) => {
+    const value = biomarkers[field.key];
+    const status = getBiomarkerStatus(field.key, value);
+    const range = getBiomarker(field.key);
+
+    // Calculate position relative to optimal range for visual indicator
+    const getValueIndicator = () => {
+      if (value === undefined) return null;
+      if (status === "optimal") {
+        return { icon: Minus, color: "text-[var(--color-success)]", label: "Optimal" };
+      }
+      if (status === "acceptable") {
+        if (value < range.optimal.min) {
+          return { icon: TrendingDown, color: "text-[var(--color-warning)]", label: "Below optimal" };
+        }
+        return { icon: TrendingUp, color: "text-[var(--color-warning)]", label: "Above optimal" };
+      }
+      if (value < range.min) {
+        return { icon: TrendingDown, color: "text-[var(--color-error)]", label: "Too low" };
+      }
+      return { icon: TrendingUp, color: "text-[var(--color-error)]", label: "Too high" };
+    };
+
+    const indicator = getValueIndicator();
+
+    return (
+      <div
+        key={field.key}
+        className={cn(
+          "p-4 rounded-xl border transition-all",
+          status === "optimal" && "border-[var(--color-success)]/50 bg-[var(--color-success)]/5",
+          status === "acceptable" && "border-[var(--color-warning)]/50 bg-[var(--color-warning)]/5",
+          status === "out-of-range" && "border-[var(--color-error)]/50 bg-[var(--color-error)]/5",
+          status === "empty" && "border-[var(--border)]"
+        )}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <label className="text-sm font-medium text-[var(--foreground)]">
+            {field.label}
+          </label>
+          <div className="flex items-center gap-2">
+            {indicator && (
+              <span className={cn("flex items-center gap-1 text-xs", indicator.color)}>
+                <indicator.icon className="w-3 h-3" />
+                <span className="hidden sm:inline">{indicator.label}</span>
+              </span>
+            )}
+            <span className="text-xs text-[var(--foreground-muted)]">{field.unit}</span>
+          </div>
+        </div>
+        <input
+          type="number"
+          step="0.01"
+          placeholder={`${range.optimal.min} - ${range.optimal.max}`}
+          value={value ?? ""}
+          onChange={(e) => onBiomarkerChange(field.key, e.target.value)}
+          className="w-full h-10 px-3 rounded-lg bg-[var(--background-card)] border border-[var(--border)] text-[var(--foreground)] placeholder:text-[var(--foreground-muted)] focus:border-[var(--color-primary)] focus:outline-none"
+        />
+        {/* Reference range hint */}
+        <div className="flex items-center justify-between mt-1.5">
+          <p className="text-xs text-[var(--foreground-muted)]">{field.hint}</p>
+          <span className="text-xs text-[var(--foreground-muted)] flex items-center gap-1">
+            <HelpCircle className="w-3 h-3" />
+            <span className="hidden xs:inline">Normal:</span> {range.optimal.min}-{range.optimal.max}
+          </span>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -53,90 +129,38 @@ export function ManualEntryPanel({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Chronological Age */}
-        <div className="p-4 rounded-xl bg-[var(--background-elevated)] border border-[var(--border)]">
+        {/* Chronological Age and blood draw date */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 rounded-xl bg-[var(--background-elevated)] border border-[var(--border)]">
+          <Input
+            label="Age at Blood Draw"
+            value={ageAtCollection !== null ? ageAtCollection.toFixed(2) : ""}
+            placeholder="Enter the blood draw date"
+            readOnly
+            hint="Calculated from your birth date"
+          />
           <Input
-            label="Your Chronological Age"
-            type="number"
-            min={18}
-            max={120}
-            value={chronologicalAge}
-            onChange={(e) => onChronologicalAgeChange(parseInt(e.target.value) || 0)}
-            hint="Your actual age in years"
+            label="Blood Draw Date"
+            type="date"
+            value={collectedAt}
+            onChange={(e) => onCollectedAtChange(e.target.value)}
+            hint="Must fall within the current season"
           />
         </div>
 
         {/* Biomarker Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-          {biomarkerFields.map((field) => {
-            const value = biomarkers[field.key];
-            const status = getBiomarkerStatus(field.key, value);
-            const range = BIOMARKER_RANGES[field.key];
-
-            // Calculate position relative to optimal range for visual indicator
-            const getValueIndicator = () => {
-              if (value === undefined) return null;
-              if (status === "optimal") {
-                return { icon: Minus, color: "text-[var(--color-success)]", label: "Optimal" };
-              }
-              if (status === "acceptable") {
-                if (value < range.optimal.min) {
-                  return { icon: TrendingDown, color: "text-[var(--color-warning)]", label: "Below optimal" };
-                }
-                return { icon: TrendingUp, color: "text-[var(--color-warning)]", label: "Above optimal" };
-              }
-              if (value < range.min) {
-                return { icon: TrendingDown, color: "text-[var(--color-error)]", label: "Too low" };
-              }
-              return { icon: TrendingUp, color: "text-[var(--color-error)]", label: "Too high" };
-            };
-
-            const indicator = getValueIndicator();
+          {requiredBiomarkerFields.map(renderField)}
+        </div>
 
-            return (
-              <div
-                key={field.key}
-                className={cn(
-                  "p-4 rounded-xl border transition-all",
-                  status === "optimal" && "border-[var(--color-success)]/50 bg-[var(--color-success)]/5",
-                  status === "acceptable" && "border-[var(--color-warning)]/50 bg-[var(--color-warning)]/5",
-                  status === "out-of-range" && "border-[var(--color-error)]/50 bg-[var(--color-error)]/5",
-                  status === "empty" && "border-[var(--border)]"
-                )}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <label className="text-sm font-medium text-[var(--foreground)]">
-                    {field.label}
-                  </label>
-                  <div className="flex items-center gap-2">
-                    {indicator && (
-                      <span className={cn("flex items-center gap-1 text-xs", indicator.color)}>
-                        <indicator.icon className="w-3 h-3" />
-                        <span className="hidden sm:inline">{indicator.label}</span>
-                      </span>
-                    )}
-                    <span className="text-xs text-[var(--foreground-muted)]">{field.unit}</span>
-                  </div>
-                </div>
-                <input
-                  type="number"
-                  step="0.01"
-                  placeholder={`${range.optimal.min} - ${range.optimal.max}`}
-                  value={value ?? ""}
-                  onChange={(e) => onBiomarkerChange(field.key, e.target.value)}
-                  className="w-full h-10 px-3 rounded-lg bg-[var(--background-card)] border border-[var(--border)] text-[var(--foreground)] placeholder:text-[var(--foreground-muted)] focus:border-[var(--color-primary)] focus:outline-none"
-                />
-                {/* Reference range hint */}
-                <div className="flex items-center justify-between mt-1.5">
-                  <p className="text-xs text-[var(--foreground-muted)]">{field.hint}</p>
-                  <span className="text-xs text-[var(--foreground-muted)] flex items-center gap-1">
-                    <HelpCircle className="w-3 h-3" />
-                    <span className="hidden xs:inline">Normal:</span> {range.optimal.min}-{range.optimal.max}
-                  </span>
-                </div>
-              </div>
-            );
-          })}
+        {/* Optional catalog biomarkers, stored with the submission */}
+        <div>
+          <h4 className="text-sm font-medium text-[var(--foreground)] mb-1">Additional Biomarkers</h4>
+          <p className="text-xs text-[var(--foreground-muted)] mb-3">
+            Optional - not used for your PhenoAge, but saved with your submission
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {optionalBiomarkerFields.map(renderField)}
+          </div>
         </div>
 
         {/* Proof Upload */}
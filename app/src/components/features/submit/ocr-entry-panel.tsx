@@ -6,19 +6,28 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Input } from "@/components/ui/input";
 import { FileUpload, ProcessingStatus, ReviewPanel } from "@/components/features/ocr";
 import type { BiomarkerKey, BiomarkerExtraction } from "@/lib/ocr/types";
+import type { SubmissionDraftView } from "@/lib/ocr/submission-draft";
+import { DraftDocumentsPanel } from "./draft-documents-panel";
 import type { OcrStage } from "./types";
 
 interface OcrEntryPanelProps {
   stage: OcrStage;
   error: string | null;
   extractions: Record<BiomarkerKey, BiomarkerExtraction> | null;
-  chronologicalAge: number;
-  onChronologicalAgeChange: (age: number) => void;
+  /** Exact age at the blood draw, computed from the profile birth date */
+  ageAtCollection: number | null;
+  /** Blood draw date (YYYY-MM-DD) */
+  collectedAt: string;
+  onCollectedAtChange: (date: string) => void;
   onFileSelect: (file: File) => void;
   onError: (error: string) => void;
   onValueChange: (biomarker: BiomarkerKey, value: number | null) => void;
   onAcceptAll: () => void;
   onRetry: () => void;
+  draft?: SubmissionDraftView | null;
+  onResolveConflict?: (biomarker: BiomarkerKey, jobId: string) => void;
+  onCollectionDateChange?: (jobId: string, date: string) => void;
+  onRemoveDocument?: (jobId: string) => void;
 }
 
 // Tips component for first-time users
@@ -75,13 +84,18 @@ export function OcrEntryPanel({
   stage,
   error,
   extractions,
-  chronologicalAge,
-  onChronologicalAgeChange,
+  ageAtCollection,
+  collectedAt,
+  onCollectedAtChange,
   onFileSelect,
   onError,
   onValueChange,
   onAcceptAll,
   onRetry,
+  draft,
+  onResolveConflict = () => {},
+  onCollectionDateChange = () => {},
+  onRemoveDocument = () => {},
 }: OcrEntryPanelProps) {
   const [showTips, setShowTips] = useState(true);
 
@@ -133,16 +147,34 @@ export function OcrEntryPanel({
             onRetry={onRetry}
           /> : null}
 
-        {/* Chronological Age */}
-        <div className="p-4 rounded-xl bg-[var(--background-elevated)] border border-[var(--border)]">
+        {/* Documents merged into this submission */}
+        {stage === "complete" && draft ? (
+          <DraftDocumentsPanel
+            draft={draft}
+            isProcessing={false}
+            onAddDocument={onFileSelect}
+            onError={onError}
+            onResolveConflict={onResolveConflict}
+            onCollectionDateChange={onCollectionDateChange}
+            onRemoveDocument={onRemoveDocument}
+          />
+        ) : null}
+
+        {/* Chronological Age and blood draw date */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 rounded-xl bg-[var(--background-elevated)] border border-[var(--border)]">
+          <Input
+            label="Age at Blood Draw"
+            value={ageAtCollection !== null ? ageAtCollection.toFixed(2) : ""}
+            placeholder="Enter the blood draw date"
+            readOnly
+            hint="Calculated from your birth date"
+          />
           <Input
-            label="Your Chronological Age"
-            type="number"
-            min={18}
-            max={120}
-            value={chronologicalAge}
-            onChange={(e) => onChronologicalAgeChange(parseInt(e.target.value) || 0)}
-            hint="Your actual age in years"
+            label="Blood Draw Date"
+            type="date"
+            value={collectedAt}
+            onChange={(e) => onCollectedAtChange(e.target.value)}
+            hint="Must fall within the current season"
           />
         </div>
       </CardContent>
@@ -1,4 +1,5 @@
-import type { BiomarkerInput } from "@/lib/phenoage";
+import { BIOMARKER_CATALOG, type BiomarkerKey } from "@/lib/biomarkers";
+import { PHENOAGE_BIOMARKER_KEYS } from "@/lib/phenoage";
 import type { BiomarkerExtraction } from "@/lib/ocr/types";
 
 export interface LeagueMembership {
@@ -12,7 +13,7 @@ export interface LeagueMembership {
   };
 }
 
-export type BiomarkerFieldKey = keyof Omit<BiomarkerInput, "chronologicalAge">;
+export type BiomarkerFieldKey = BiomarkerKey;
 
 export type CalculationError = { error: string[] };
 export type CalculationSuccess = { phenoAge: number; ageReduction: number; paceOfAging: number };
@@ -26,19 +27,19 @@ export interface BiomarkerField {
   label: string;
   unit: string;
   hint: string;
+  /** PhenoAge inputs are required; other catalog biomarkers are optional */
+  required: boolean;
 }
 
-export const biomarkerFields: BiomarkerField[] = [
-  { key: "albumin", label: "Albumin", unit: "g/dL", hint: "Normal: 3.5-5.0" },
-  { key: "creatinine", label: "Creatinine", unit: "mg/dL", hint: "Normal: 0.6-1.2" },
-  { key: "glucose", label: "Glucose (Fasting)", unit: "mg/dL", hint: "Normal: 70-100" },
-  { key: "crp", label: "C-Reactive Protein", unit: "mg/L", hint: "Normal: 0-3.0" },
-  { key: "lymphocytePercent", label: "Lymphocyte %", unit: "%", hint: "Normal: 20-40" },
-  { key: "mcv", label: "Mean Corpuscular Volume", unit: "fL", hint: "Normal: 80-100" },
-  { key: "rdw", label: "Red Cell Distribution Width", unit: "%", hint: "Normal: 11.5-14.5" },
-  { key: "alp", label: "Alkaline Phosphatase", unit: "U/L", hint: "Normal: 44-147" },
-  { key: "wbc", label: "White Blood Cell Count", unit: "K/uL", hint: "Normal: 4.5-11.0" },
-];
+export const biomarkerFields: BiomarkerField[] = BIOMARKER_CATALOG.map((biomarker) => ({
+  key: biomarker.key,
+  label: biomarker.label,
+  unit: biomarker.unit,
+  hint: `Normal: ${biomarker.optimal.min}-${biomarker.optimal.max}`,
+  required: (PHENOAGE_BIOMARKER_KEYS as BiomarkerKey[]).includes(biomarker.key),
+}));
+
+export const requiredBiomarkerFields = biomarkerFields.filter((field) => field.required);
 
 export interface OcrExtractions {
   [key: string]: BiomarkerExtraction;
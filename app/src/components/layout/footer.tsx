@@ -11,7 +11,7 @@ const footerLinks = {
   resources: [
     { href: "/about", label: "About" },
     { href: "/faq", label: "FAQ" },
-    { href: "/history", label: "History" },
+    { href: "/seasons", label: "Past Seasons" },
     { href: "https://github.com/LongevityWorldCup", label: "GitHub", external: true },
   ],
   legal: [
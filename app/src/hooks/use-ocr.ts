@@ -4,7 +4,8 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { BiomarkerKey, OcrExtractionResult } from '@/lib/ocr/types';
+import { BIOMARKER_KEYS } from '@/lib/biomarkers';
+import type { BiomarkerKey, OcrExtractionResult, OcrJobStatus } from '@/lib/ocr/types';
 import { OcrError, OcrErrorCode, createOcrError } from '@/lib/ocr/errors';
 
 export type ProcessingStage =
@@ -47,19 +48,61 @@ const INITIAL_STATE: OcrState = {
   progress: 0,
   error: null,
   result: null,
-  editedValues: {
-    albumin: null,
-    creatinine: null,
-    glucose: null,
-    crp: null,
-    lymphocytePercent: null,
-    mcv: null,
-    rdw: null,
-    alp: null,
-    wbc: null,
-  },
+  editedValues: Object.fromEntries(BIOMARKER_KEYS.map((key) => [key, null])) as Record<
+    BiomarkerKey,
+    number | null
+  >,
 };
 
+// Multi-page PDFs can sit in the queue behind other uploads
+const POLL_INTERVAL_MS = 1000;
+const MAX_POLL_ATTEMPTS = 180;
+
+export interface WaitForOcrResultOptions {
+  signal?: AbortSignal;
+  onProgress?: (status: OcrJobStatus, progress: number) => void;
+}
+
+/**
+ * Poll an OCR job until it completes, then fetch its extraction results
+ */
+export async function waitForOcrResult(
+  jobId: string,
+  options: WaitForOcrResultOptions = {}
+): Promise<OcrExtractionResult> {
+  const { signal, onProgress } = options;
+
+  for (let attempt = 0; attempt < MAX_POLL_ATTEMPTS; attempt++) {
+    const statusResponse = await fetch(`/api/ocr/status/${jobId}`, { signal });
+
+    if (!statusResponse.ok) {
+      throw new Error('Failed to check status');
+    }
+
+    const statusData = await statusResponse.json();
+    onProgress?.(statusData.status, statusData.progress || 0);
+
+    if (statusData.status === 'FAILED') {
+      throw new Error(statusData.errorMessage || 'Processing failed');
+    }
+
+    if (statusData.status === 'COMPLETED') {
+      const resultsResponse = await fetch(`/api/ocr/results/${jobId}`, { signal });
+      const resultsData = await resultsResponse.json();
+
+      if (!resultsResponse.ok || !resultsData.success) {
+        throw new Error(resultsData.error || 'Failed to fetch results');
+      }
+
+      return resultsData.result as OcrExtractionResult;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new OcrError(OcrErrorCode.EXTRACTION_TIMEOUT);
+}
+
 export function useOcr(options: UseOcrOptions = {}): UseOcrReturn {
   const { onComplete, onError, autoRetry = false, maxRetries = 2 } = options;
 
@@ -140,29 +183,11 @@ export function useOcr(options: UseOcrOptions = {}): UseOcrReturn {
       const { jobId } = await uploadResponse.json();
       setStage('converting', 30);
 
-      // Poll for results
-      let attempts = 0;
-      const maxAttempts = 60; // 60 seconds timeout
-      let result: OcrExtractionResult | null = null;
-
-      while (attempts < maxAttempts) {
-        if (abortController.current?.signal.aborted) {
-          return;
-        }
-
-        const statusResponse = await fetch(`/api/ocr/status/${jobId}`, {
-          signal: abortController.current?.signal,
-        });
-
-        if (!statusResponse.ok) {
-          throw new Error('Failed to check status');
-        }
-
-        const statusData = await statusResponse.json();
-
-        // Update stage based on status
-        if (statusData.status === 'PROCESSING') {
-          const progress = statusData.progress || 0;
+      // Poll until the background job finishes
+      const result = await waitForOcrResult(jobId, {
+        signal: abortController.current?.signal,
+        onProgress: (status, progress) => {
+          if (status !== 'PROCESSING') return;
           if (progress < 40) {
             setStage('converting', 30 + progress * 0.25);
           } else if (progress < 70) {
@@ -170,20 +195,8 @@ export function useOcr(options: UseOcrOptions = {}): UseOcrReturn {
           } else {
             setStage('analyzing', 70 + (progress - 70) * 0.3);
           }
-        } else if (statusData.status === 'COMPLETED') {
-          result = statusData.result;
-          break;
-        } else if (statusData.status === 'FAILED') {
-          throw new Error(statusData.errorMessage || 'Processing failed');
-        }
-
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        attempts++;
-      }
-
-      if (!result) {
-        throw new OcrError(OcrErrorCode.EXTRACTION_TIMEOUT);
-      }
+        },
+      });
 
       // Check if any biomarkers were found
       const foundCount = Object.values(result.extractions).filter(
@@ -5,7 +5,7 @@
  * This is part of the INFRASTRUCTURE layer in DDD terms.
  *
  * ## Key Abstractions
- * - **Authentication**: ensureAuth, ensureAdmin, ensureAthlete
+ * - **Authentication**: ensureAuth, ensureAdmin, ensureAthlete, requireCronSecret
  * - **Rate Limiting**: checkRateLimitOrError with configurable limits
  * - **Pagination**: parsePagination, createPaginatedResponse
  * - **Error Handling**: handleApiError with Prisma-aware error classification
@@ -32,6 +32,7 @@
  * @module lib/api-utils
  */
 
+import { timingSafeEqual } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
@@ -268,11 +269,27 @@ export async function ensureUser(): Promise<
   };
 }
 
+/**
+ * Ensure a scheduler request carries `Authorization: Bearer $CRON_SECRET`
+ *
+ * Compared in constant time so response timing doesn't leak the secret.
+ * @throws UnauthorizedError if CRON_SECRET is unset or the header doesn't match
+ */
+export function requireCronSecret(request: NextRequest): void {
+  const secret = process.env.CRON_SECRET;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") ?? "");
+
+  if (!secret || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new UnauthorizedError("Invalid cron secret");
+  }
+}
+
 // ============================================
 // Rate Limiting Helpers
 // ============================================
 
-type RateLimitType = "api" | "auth" | "submission" | "ocr" | "admin";
+type RateLimitType = "api" | "auth" | "submission" | "ocr" | "admin" | "export";
 
 /**
  * Check rate limit and return error response if exceeded
@@ -630,7 +647,14 @@ type EventType =
   | "RANK_CHANGED"
   | "BADGE_EARNED"
   | "SUBMISSION_VERIFIED"
-  | "SUBMISSION_REJECTED";
+  | "SUBMISSION_REJECTED"
+  | "SUBMISSION_DELETED"
+  | "SUBMISSION_APPEALED"
+  | "SUBMISSION_REVOKED"
+  | "DONATION_RECEIVED"
+  | "SEASON_STARTED"
+  | "SEASON_LOCKED"
+  | "SEASON_COMPLETED";
 
 /**
  * Create a standardized event
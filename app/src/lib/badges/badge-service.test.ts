@@ -5,7 +5,8 @@
  */
 
 import { describe, it, expect, vi } from "vitest";
-import { BADGE_RULES, BadgeContext } from "./badge-service";
+import { prisma } from "@/lib/db";
+import { BADGE_RULES, BadgeContext, badgeService } from "./badge-service";
 
 // Mock Prisma
 vi.mock("@/lib/db", () => ({
@@ -18,6 +19,7 @@ vi.mock("@/lib/db", () => ({
       findMany: vi.fn(),
       findUnique: vi.fn(),
       create: vi.fn(),
+      delete: vi.fn(),
     },
     biomarkerSubmission: {
       count: vi.fn(),
@@ -38,6 +40,7 @@ vi.mock("@/lib/db", () => ({
     },
     event: {
       create: vi.fn(),
+      deleteMany: vi.fn(),
     },
   },
 }));
@@ -253,17 +256,53 @@ describe("Badge Rules", () => {
     const steadyClimberRule = BADGE_RULES.find((r) => r.slug === "steady-climber");
     const comebackKidRule = BADGE_RULES.find((r) => r.slug === "comeback-kid");
 
-    it("breakthrough - should be eligible when first 5+ year reduction achieved", async () => {
+    it("breakthrough - should be eligible when PhenoAge drops 5+ years within a season", async () => {
       const context: BadgeContext = {
         athleteId: "athlete-1",
         submissions: [
-          { id: "1", phenoAge: 30, ageReduction: 5, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date(), seasonId: "s1" },
+          { id: "1", phenoAge: 40, ageReduction: 0, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date("2024-01-10"), seasonId: "s1" },
+          { id: "2", phenoAge: 35, ageReduction: 5, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date("2024-06-10"), seasonId: "s1" },
         ],
       };
 
       expect(await breakthroughRule?.check(context)).toBe(true);
     });
 
+    it("breakthrough - should not be eligible for a single high age reduction", async () => {
+      const context: BadgeContext = {
+        athleteId: "athlete-1",
+        submissions: [
+          { id: "1", phenoAge: 30, ageReduction: 5, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date(), seasonId: "s1" },
+        ],
+      };
+
+      expect(await breakthroughRule?.check(context)).toBe(false);
+    });
+
+    it("breakthrough - should not count samples drawn less than the minimum gap apart", async () => {
+      const context: BadgeContext = {
+        athleteId: "athlete-1",
+        submissions: [
+          { id: "1", phenoAge: 40, ageReduction: 0, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date("2024-06-01"), collectedAt: new Date("2024-01-10"), seasonId: "s1" },
+          { id: "2", phenoAge: 34, ageReduction: 6, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date("2024-06-10"), collectedAt: new Date("2024-02-10"), seasonId: "s1" },
+        ],
+      };
+
+      expect(await breakthroughRule?.check(context)).toBe(false);
+    });
+
+    it("breakthrough - should not combine samples from different seasons", async () => {
+      const context: BadgeContext = {
+        athleteId: "athlete-1",
+        submissions: [
+          { id: "1", phenoAge: 40, ageReduction: 0, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date("2024-01-10"), seasonId: "s1" },
+          { id: "2", phenoAge: 34, ageReduction: 6, status: "APPROVED", entryMethod: "MANUAL", submittedAt: new Date("2025-01-10"), seasonId: "s2" },
+        ],
+      };
+
+      expect(await breakthroughRule?.check(context)).toBe(false);
+    });
+
     it("steady-climber - should be eligible with 5 consecutive improvements", async () => {
       const baseDate = new Date("2024-01-01");
       const context: BadgeContext = {
@@ -406,3 +445,51 @@ describe("Badge Rules Coverage", () => {
     expect(slugs.length).toBe(uniqueSlugs.size);
   });
 });
+
+describe("revokeUnearnedBadges", () => {
+  const since = new Date("2026-03-01T00:00:00Z");
+
+  function award(id: string, slug: string) {
+    return { id, athleteId: "athlete-1", badgeId: `badge-${slug}`, earnedAt: since, badge: { slug } };
+  }
+
+  it("takes back recent badges the athlete no longer qualifies for", async () => {
+    vi.mocked(prisma.athleteBadge.findMany).mockResolvedValue([
+      award("ab-1", "age-bender"),
+      award("ab-2", "verified"),
+    ] as never);
+    vi.mocked(prisma.athlete.findUnique).mockResolvedValue({
+      id: "athlete-1",
+      displayName: "Test Athlete",
+      verified: true,
+      createdAt: new Date("2025-01-01"),
+    } as never);
+    // The submission behind age-bender is no longer approved
+    vi.mocked(prisma.biomarkerSubmission.findMany).mockResolvedValue([
+      { id: "s1", phenoAge: 40, ageReduction: 6, status: "PENDING", entryMethod: "MANUAL", submittedAt: since, seasonId: "season-1" },
+    ] as never);
+    vi.mocked(prisma.leagueMember.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.leaderboardEntry.findFirst).mockResolvedValue(null);
+
+    const revoked = await badgeService.revokeUnearnedBadges("athlete-1", since);
+
+    expect(revoked).toEqual(["age-bender"]);
+    expect(prisma.athleteBadge.delete).toHaveBeenCalledWith({ where: { id: "ab-1" } });
+    expect(prisma.event.deleteMany).toHaveBeenCalledWith({
+      where: {
+        type: "BADGE_EARNED",
+        athleteId: "athlete-1",
+        createdAt: { gte: since },
+        data: { path: ["badgeSlug"], equals: "age-bender" },
+      },
+    });
+  });
+
+  it("does nothing without badges earned since", async () => {
+    vi.mocked(prisma.athleteBadge.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.athlete.findUnique).mockClear();
+
+    expect(await badgeService.revokeUnearnedBadges("athlete-1", since)).toEqual([]);
+    expect(prisma.athlete.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -25,6 +25,7 @@
 
 import { prisma } from "@/lib/db";
 import { BadgeCategory } from "@/components/features/badges/badge-display";
+import { getSampleDate, measureImprovement } from "@/lib/leaderboard/improvement";
 
 // ============================================
 // Types
@@ -60,6 +61,8 @@ interface SubmissionData {
   entryMethod: string;
   submittedAt: Date;
   seasonId: string;
+  algorithmId?: string;
+  collectedAt?: Date | null;
 }
 
 interface LeagueMembershipData {
@@ -88,6 +91,16 @@ export interface BadgeAwardResult {
 // Badge Rules Configuration
 // ============================================
 
+/**
+ * Approved submissions in the order the samples were taken (blood draw date
+ * when known), as the improvement leaderboard orders them
+ */
+function approvedSamplesInOrder(ctx: BadgeContext): SubmissionData[] {
+  return (ctx.submissions || [])
+    .filter((s) => s.status === "APPROVED")
+    .sort((a, b) => getSampleDate(a).getTime() - getSampleDate(b).getTime());
+}
+
 /**
  * Badge eligibility rules organized by category
  * Each rule defines the condition for earning a badge
@@ -220,7 +233,7 @@ export const BADGE_RULES: BadgeRule[] = [
         where: {
           athleteId: ctx.athleteId,
           status: "APPROVED",
-          crp: { lt: 1.0 },
+          values: { some: { biomarkerKey: "crp", value: { lt: 1.0 } } },
         },
       });
       return lowCrpCount >= 3;
@@ -235,7 +248,7 @@ export const BADGE_RULES: BadgeRule[] = [
         where: {
           athleteId: ctx.athleteId,
           status: "APPROVED",
-          glucose: { gte: 70, lte: 100 },
+          values: { some: { biomarkerKey: "glucose", value: { gte: 70, lte: 100 } } },
         },
       });
       return optimalGlucoseCount >= 5;
@@ -250,7 +263,7 @@ export const BADGE_RULES: BadgeRule[] = [
         where: {
           athleteId: ctx.athleteId,
           status: "APPROVED",
-          creatinine: { gte: 0.6, lte: 1.2 },
+          values: { some: { biomarkerKey: "creatinine", value: { gte: 0.6, lte: 1.2 } } },
         },
       });
       return optimalCount >= 5;
@@ -265,7 +278,7 @@ export const BADGE_RULES: BadgeRule[] = [
         where: {
           athleteId: ctx.athleteId,
           status: "APPROVED",
-          alp: { gte: 44, lte: 147 },
+          values: { some: { biomarkerKey: "alp", value: { gte: 44, lte: 147 } } },
         },
       });
       return optimalCount >= 5;
@@ -279,25 +292,35 @@ export const BADGE_RULES: BadgeRule[] = [
     slug: "breakthrough",
     category: "IMPROVEMENT",
     check: (ctx) => {
-      const submissions = ctx.submissions || [];
-      return submissions.some((s) => s.status === "APPROVED" && s.ageReduction >= 5);
+      // PhenoAge down 5+ years within a season, under the most improved
+      // leaderboard's sample rules (lib/leaderboard/improvement)
+      const bySeason = new Map<string, SubmissionData[]>();
+      for (const s of approvedSamplesInOrder(ctx)) {
+        bySeason.set(s.seasonId, [...(bySeason.get(s.seasonId) || []), s]);
+      }
+
+      return [...bySeason.values()].some((samples) => {
+        const measure = measureImprovement(samples);
+        return measure !== null && measure.baseline.phenoAge - measure.best.phenoAge >= 5;
+      });
     },
   },
   {
     slug: "steady-climber",
     category: "IMPROVEMENT",
     check: (ctx) => {
-      const submissions = ctx.submissions || [];
-      const approved = submissions
-        .filter((s) => s.status === "APPROVED")
-        .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+      const approved = approvedSamplesInOrder(ctx);
 
       if (approved.length < 5) return false;
 
-      // Check for 5 consecutive improvements
+      // Check for 5 consecutive improvements; results from different
+      // algorithms aren't comparable and restart the streak
       let streak = 1;
       for (let i = 1; i < approved.length; i++) {
-        if (approved[i].ageReduction > approved[i - 1].ageReduction) {
+        if (
+          approved[i].algorithmId === approved[i - 1].algorithmId &&
+          approved[i].ageReduction > approved[i - 1].ageReduction
+        ) {
           streak++;
           if (streak >= 5) return true;
         } else {
@@ -311,19 +334,22 @@ export const BADGE_RULES: BadgeRule[] = [
     slug: "comeback-kid",
     category: "IMPROVEMENT",
     check: (ctx) => {
-      const submissions = ctx.submissions || [];
-      const approved = submissions
-        .filter((s) => s.status === "APPROVED")
-        .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+      const approved = approvedSamplesInOrder(ctx);
 
       if (approved.length < 3) return false;
 
-      // Check for decline followed by 3+ year improvement
+      // Check for decline followed by 3+ year improvement (same algorithm)
       for (let i = 1; i < approved.length - 1; i++) {
-        if (approved[i].ageReduction < approved[i - 1].ageReduction) {
+        if (
+          approved[i].algorithmId === approved[i - 1].algorithmId &&
+          approved[i].ageReduction < approved[i - 1].ageReduction
+        ) {
           // Found a decline, check if subsequent submission improved by 3+
           for (let j = i + 1; j < approved.length; j++) {
-            if (approved[j].ageReduction - approved[i].ageReduction >= 3) {
+            if (
+              approved[j].algorithmId === approved[i].algorithmId &&
+              approved[j].ageReduction - approved[i].ageReduction >= 3
+            ) {
               return true;
             }
           }
@@ -588,6 +614,42 @@ class BadgeService {
     }
   }
 
+  /**
+   * Take back badges earned since `since` that the athlete no longer
+   * qualifies for, e.g. after the approval they came from was revoked.
+   * Their BADGE_EARNED events are removed with them.
+   *
+   * @returns Slugs of the badges taken back
+   */
+  async revokeUnearnedBadges(athleteId: string, since: Date): Promise<string[]> {
+    const recentAwards = await prisma.athleteBadge.findMany({
+      where: { athleteId, earnedAt: { gte: since } },
+      include: { badge: true },
+    });
+    if (recentAwards.length === 0) return [];
+
+    const context = await this.loadContext(athleteId);
+    const revoked: string[] = [];
+
+    for (const award of recentAwards) {
+      const rule = BADGE_RULES.find((r) => r.slug === award.badge.slug);
+      if (!rule || (await rule.check(context))) continue;
+
+      await prisma.athleteBadge.delete({ where: { id: award.id } });
+      await prisma.event.deleteMany({
+        where: {
+          type: "BADGE_EARNED",
+          athleteId,
+          createdAt: { gte: since },
+          data: { path: ["badgeSlug"], equals: award.badge.slug },
+        },
+      });
+      revoked.push(award.badge.slug);
+    }
+
+    return revoked;
+  }
+
   /**
    * Get all badges for an athlete
    */
@@ -658,6 +720,8 @@ class BadgeService {
         entryMethod: s.entryMethod,
         submittedAt: s.submittedAt,
         seasonId: s.seasonId,
+        algorithmId: s.algorithmId,
+        collectedAt: s.collectedAt,
       })),
       leagueMemberships: leagueMemberships.map((m) => ({
         leagueId: m.leagueId,
@@ -0,0 +1,253 @@
+/**
+ * Billing Service Tests
+ * Tests checkout, upgrades and applying provider events to leagues
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { applyBillingEvent, getBillingStatus, startCheckout, upgradeSubscription } from './billing-service';
+import { FakePaymentProvider } from './providers';
+import type { BillingEvent } from './types';
+
+const tx = {
+  league: { findUnique: vi.fn(), update: vi.fn() },
+  leagueSubscription: { findUnique: vi.fn(), findFirst: vi.fn(), upsert: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    leagueMember: { count: vi.fn() },
+    leagueSubscription: { findFirst: vi.fn() },
+  },
+}));
+
+const now = new Date('2026-03-10T12:00:00Z');
+const provider = new FakePaymentProvider('whsec_test');
+const league = { id: 'l1', name: 'Longevity Lab', tier: 'FREE' as const, status: 'ACTIVE' as const, ownerId: 'u1' };
+const urls = { successUrl: 'https://example.com/manage?billing=success', cancelUrl: 'https://example.com/manage' };
+
+const subscriptionRecord = {
+  id: 'ls1',
+  leagueId: 'l1',
+  tier: 'STARTER' as const,
+  status: 'ACTIVE' as const,
+  provider: 'fake',
+  stripeCustomerId: 'cus_1',
+  stripeSubscriptionId: 'sub_1',
+  currentPeriodStart: new Date('2026-03-01T00:00:00Z'),
+  currentPeriodEnd: new Date('2026-04-01T00:00:00Z'),
+  lastEventAt: new Date('2026-03-01T00:00:00Z'),
+  createdAt: new Date('2026-03-01T00:00:00Z'),
+  updatedAt: new Date('2026-03-01T00:00:00Z'),
+};
+
+function event(type: BillingEvent['type'], overrides: Partial<BillingEvent['subscription']> = {}): BillingEvent {
+  return {
+    id: 'evt_1',
+    type,
+    occurredAt: new Date('2026-03-10T11:00:00Z'),
+    subscription: {
+      customerId: 'cus_1',
+      subscriptionId: 'sub_1',
+      leagueId: 'l1',
+      tier: 'STARTER',
+      currentPeriodStart: new Date('2026-03-10T00:00:00Z'),
+      currentPeriodEnd: new Date('2026-04-10T00:00:00Z'),
+      ...overrides,
+    },
+  };
+}
+
+function leagueRecord(tier: string, status: string, members: number) {
+  return { ...league, tier, status, _count: { members } };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(prisma.$transaction).mockImplementation((fn: unknown) => (fn as (t: typeof tx) => unknown)(tx) as never);
+  vi.mocked(prisma.leagueSubscription.findFirst).mockResolvedValue(null);
+  tx.leagueSubscription.findUnique.mockResolvedValue(null);
+  tx.leagueSubscription.findFirst.mockResolvedValue(null);
+});
+
+describe('getBillingStatus', () => {
+  it('reports the entitlements, the overflow and who may buy', async () => {
+    vi.mocked(prisma.leagueMember.count).mockResolvedValue(12);
+
+    const status = await getBillingStatus(league, 'u1');
+
+    expect(status).toEqual({
+      tier: 'FREE',
+      features: { CSV_EXPORT: false, CUSTOM_BRANDING: false, ADVANCED_ANALYTICS: false },
+      memberCount: 12,
+      memberLimit: 10,
+      overLimitBy: 2,
+      remainingSeats: 0,
+      paymentPastDue: false,
+      subscription: null,
+      canPurchase: true,
+    });
+    expect((await getBillingStatus(league, 'u2')).canPurchase).toBe(false);
+  });
+
+  it('reports a past-due subscription', async () => {
+    vi.mocked(prisma.leagueMember.count).mockResolvedValue(12);
+    vi.mocked(prisma.leagueSubscription.findFirst).mockResolvedValue({ ...subscriptionRecord, status: 'PAST_DUE' });
+
+    const status = await getBillingStatus({ ...league, tier: 'STARTER' }, 'u1');
+
+    expect(status).toMatchObject({ paymentPastDue: true, remainingSeats: 0, subscription: { status: 'PAST_DUE' } });
+  });
+
+  it('has no limit on ENTERPRISE', async () => {
+    vi.mocked(prisma.leagueMember.count).mockResolvedValue(900);
+
+    expect((await getBillingStatus({ ...league, tier: 'ENTERPRISE' }, 'u1')).memberLimit).toBeNull();
+  });
+});
+
+describe('startCheckout', () => {
+  it('starts a checkout for a higher tier, reusing the lapsed customer', async () => {
+    const createCheckout = vi.spyOn(provider, 'createCheckout');
+    vi.mocked(prisma.leagueSubscription.findFirst)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...subscriptionRecord, status: 'CANCELED' });
+
+    const session = await startCheckout(league, 'PRO', 'owner@example.com', urls, provider);
+
+    expect(session.url).toContain('billing=success');
+    expect(createCheckout).toHaveBeenCalledWith(
+      expect.objectContaining({ leagueId: 'l1', tier: 'PRO', customerId: 'cus_1' })
+    );
+  });
+
+  it('refuses tiers that are not for sale or not an upgrade', async () => {
+    await expect(startCheckout(league, 'ENTERPRISE', 'o@example.com', urls, provider)).rejects.toThrow('Invalid tier');
+    await expect(startCheckout({ ...league, tier: 'PRO' }, 'STARTER', 'o@example.com', urls, provider)).rejects.toThrow(
+      'already on PRO'
+    );
+  });
+
+  it('refuses suspended leagues and leagues with a running subscription', async () => {
+    await expect(
+      startCheckout({ ...league, status: 'SUSPENDED' }, 'PRO', 'o@example.com', urls, provider)
+    ).rejects.toThrow('Suspended');
+
+    vi.mocked(prisma.leagueSubscription.findFirst).mockResolvedValue(subscriptionRecord);
+    await expect(startCheckout(league, 'PRO', 'o@example.com', urls, provider)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
+
+describe('upgradeSubscription', () => {
+  it('moves the running subscription to the new tier right away', async () => {
+    vi.mocked(prisma.leagueSubscription.findFirst).mockResolvedValue(subscriptionRecord);
+    tx.league.findUnique.mockResolvedValue(leagueRecord('STARTER', 'ACTIVE', 30));
+    tx.leagueSubscription.findUnique.mockResolvedValueOnce(subscriptionRecord);
+
+    const result = await upgradeSubscription({ ...league, tier: 'STARTER' }, 'PRO', provider, now);
+
+    expect(result.applied).toBe(true);
+    expect(tx.leagueSubscription.upsert).toHaveBeenCalledWith({
+      where: { provider_stripeSubscriptionId: { provider: 'fake', stripeSubscriptionId: 'sub_1' } },
+      create: expect.anything(),
+      update: expect.objectContaining({ tier: 'PRO', status: 'ACTIVE' }),
+    });
+    expect(tx.league.update).toHaveBeenCalledWith({ where: { id: 'l1' }, data: { tier: 'PRO' } });
+  });
+
+  it("leaves lastEventAt to the provider's own event for the upgrade", async () => {
+    vi.mocked(prisma.leagueSubscription.findFirst).mockResolvedValue(subscriptionRecord);
+    tx.league.findUnique.mockResolvedValue(leagueRecord('STARTER', 'ACTIVE', 30));
+    tx.leagueSubscription.findUnique.mockResolvedValue(subscriptionRecord);
+
+    await upgradeSubscription({ ...league, tier: 'STARTER' }, 'PRO', provider, now);
+    const upgraded = tx.leagueSubscription.upsert.mock.calls[0][0];
+    expect(upgraded.update).not.toHaveProperty('lastEventAt');
+
+    // The provider stamped its event a little before our clock; it still applies
+    const webhook = { ...event('subscription.paid', { tier: 'PRO' }), occurredAt: new Date(now.getTime() - 1000) };
+    expect(await applyBillingEvent(webhook, 'fake', now)).toMatchObject({ applied: true });
+  });
+
+  it('needs a running subscription that is paid up', async () => {
+    await expect(upgradeSubscription({ ...league, tier: 'STARTER' }, 'PRO', provider, now)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+
+    vi.mocked(prisma.leagueSubscription.findFirst).mockResolvedValue({ ...subscriptionRecord, status: 'PAST_DUE' });
+    await expect(upgradeSubscription({ ...league, tier: 'STARTER' }, 'PRO', provider, now)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+});
+
+describe('applyBillingEvent', () => {
+  it('creates the subscription and auto-approves a pending league on payment', async () => {
+    tx.league.findUnique.mockResolvedValue(leagueRecord('FREE', 'PENDING', 4));
+
+    const result = await applyBillingEvent(event('subscription.paid'), 'fake', now);
+
+    expect(result).toMatchObject({ applied: true, plan: { leagueTier: 'STARTER', approve: true } });
+    expect(tx.leagueSubscription.upsert).toHaveBeenCalledWith({
+      where: { provider_stripeSubscriptionId: { provider: 'fake', stripeSubscriptionId: 'sub_1' } },
+      update: expect.anything(),
+      create: expect.objectContaining({
+        leagueId: 'l1',
+        provider: 'fake',
+        stripeSubscriptionId: 'sub_1',
+        tier: 'STARTER',
+        status: 'ACTIVE',
+      }),
+    });
+    expect(tx.league.update).toHaveBeenCalledWith({
+      where: { id: 'l1' },
+      data: { tier: 'STARTER', status: 'ACTIVE', verified: true, verifiedAt: now, verifiedBy: 'PAYMENT_AUTO' },
+    });
+  });
+
+  it('keeps the tier while a payment is past due', async () => {
+    tx.league.findUnique.mockResolvedValue(leagueRecord('STARTER', 'ACTIVE', 30));
+    tx.leagueSubscription.findUnique.mockResolvedValueOnce(subscriptionRecord);
+
+    await applyBillingEvent(event('subscription.past_due'), 'fake', now);
+
+    expect(tx.leagueSubscription.upsert).toHaveBeenCalledWith({
+      where: { provider_stripeSubscriptionId: { provider: 'fake', stripeSubscriptionId: 'sub_1' } },
+      create: expect.anything(),
+      update: expect.objectContaining({ status: 'PAST_DUE' }),
+    });
+    expect(tx.league.update).toHaveBeenCalledWith({ where: { id: 'l1' }, data: { tier: 'STARTER' } });
+  });
+
+  it('downgrades a lapsed league to FREE without touching its members', async () => {
+    tx.league.findUnique.mockResolvedValue(leagueRecord('STARTER', 'ACTIVE', 30));
+    tx.leagueSubscription.findUnique.mockResolvedValueOnce(subscriptionRecord);
+
+    const result = await applyBillingEvent(event('subscription.canceled'), 'fake', now);
+
+    expect(result.plan).toMatchObject({ leagueTier: 'FREE', overLimitBy: 20 });
+    expect(tx.league.update).toHaveBeenCalledWith({ where: { id: 'l1' }, data: { tier: 'FREE' } });
+  });
+
+  it('skips events older than the last one applied', async () => {
+    tx.league.findUnique.mockResolvedValue(leagueRecord('STARTER', 'ACTIVE', 30));
+    tx.leagueSubscription.findUnique.mockResolvedValueOnce({ ...subscriptionRecord, lastEventAt: now });
+
+    expect(await applyBillingEvent(event('subscription.canceled'), 'fake', now)).toEqual({
+      applied: false,
+      reason: 'STALE',
+    });
+    expect(tx.league.update).not.toHaveBeenCalled();
+  });
+
+  it('skips events for unknown leagues', async () => {
+    tx.league.findUnique.mockResolvedValue(null);
+
+    expect(await applyBillingEvent(event('subscription.paid'), 'fake', now)).toEqual({
+      applied: false,
+      reason: 'UNKNOWN_LEAGUE',
+    });
+    expect(tx.leagueSubscription.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Billing Service - League subscriptions through the payment provider
+ *
+ * - getBillingStatus: the league's entitlements and live subscription
+ * - startCheckout: the owner buys a first subscription (STARTER or PRO)
+ * - upgradeSubscription: the owner moves a running subscription up a tier
+ * - applyBillingEvent: a verified webhook event updates the subscription and
+ *   League.tier (see planSubscriptionChange)
+ *
+ * Events are applied in the order the provider emitted them: an event older
+ * than the last one applied to its subscription is ignored, so retried and
+ * reordered deliveries are harmless.
+ *
+ * ## Usage
+ * ```typescript
+ * import { applyBillingEvent, getPaymentProvider } from '@/lib/billing';
+ *
+ * const provider = getPaymentProvider();
+ * const event = provider.parseWebhook(body, signature, new Date());
+ * if (event) await applyBillingEvent(event, provider.name);
+ * ```
+ *
+ * @module lib/billing/billing-service
+ */
+
+import type { League, LeagueSubscription } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/api-utils';
+import {
+  LIVE_SUBSCRIPTION_STATUSES,
+  getLeagueEntitlements,
+  isBillableTier,
+  isTierUpgrade,
+} from '@/lib/entitlements';
+import type { LeagueBillingStatus, LeagueTier, SubscriptionStatus } from '@/types';
+import { PAYMENT_AUTO_VERIFIER, planSubscriptionChange, type SubscriptionChangePlan } from './plans';
+import { getPaymentProvider } from './providers';
+import type { BillingEvent, CheckoutSession, PaymentProvider, ProviderSubscription } from './types';
+
+const log = domainLoggers.billing;
+
+type BillableLeague = Pick<League, 'id' | 'name' | 'tier' | 'status' | 'ownerId'>;
+
+export interface BillingEventResult {
+  applied: boolean;
+  /** Why the event was skipped */
+  reason?: 'UNKNOWN_LEAGUE' | 'STALE';
+  plan?: SubscriptionChangePlan;
+}
+
+function toProviderSubscription(subscription: LeagueSubscription): ProviderSubscription {
+  return {
+    customerId: subscription.stripeCustomerId ?? '',
+    subscriptionId: subscription.stripeSubscriptionId ?? '',
+    leagueId: subscription.leagueId,
+    tier: subscription.tier,
+    currentPeriodStart: subscription.currentPeriodStart,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+  };
+}
+
+async function findLiveSubscription(leagueId: string) {
+  return prisma.leagueSubscription.findFirst({
+    where: { leagueId, status: { in: LIVE_SUBSCRIPTION_STATUSES } },
+    orderBy: { currentPeriodEnd: 'desc' },
+  });
+}
+
+function requireBillableUpgrade(current: LeagueTier, tier: unknown): LeagueTier {
+  if (!isBillableTier(tier)) {
+    throw new BadRequestError('Invalid tier. Must be STARTER or PRO; contact us for ENTERPRISE');
+  }
+  if (!isTierUpgrade(current, tier)) {
+    throw new BadRequestError(`The league is already on ${current}; pick a higher tier`);
+  }
+  return tier;
+}
+
+/**
+ * The league's plan and entitlements as its manage page shows them
+ */
+export async function getBillingStatus(league: BillableLeague, userId: string): Promise<LeagueBillingStatus> {
+  const [memberCount, subscription] = await Promise.all([
+    prisma.leagueMember.count({ where: { leagueId: league.id } }),
+    findLiveSubscription(league.id),
+  ]);
+  const status = subscription?.status as SubscriptionStatus | undefined;
+
+  return {
+    ...getLeagueEntitlements({ ...league, subscriptionStatus: status, memberCount }),
+    subscription: subscription
+      ? {
+          tier: subscription.tier,
+          status: subscription.status as SubscriptionStatus,
+          currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
+        }
+      : null,
+    canPurchase: league.ownerId === userId,
+  };
+}
+
+/**
+ * Start checkout for the league's first (or next, after a lapse) subscription
+ *
+ * @throws BadRequestError for tiers that can't be bought or aren't an upgrade,
+ *   and for suspended leagues
+ * @throws ConflictError if a subscription is running; upgrade it instead
+ */
+export async function startCheckout(
+  league: BillableLeague,
+  tier: unknown,
+  customerEmail: string,
+  urls: { successUrl: string; cancelUrl: string },
+  provider: PaymentProvider = getPaymentProvider()
+): Promise<CheckoutSession> {
+  const target = requireBillableUpgrade(league.tier, tier);
+  if (league.status === 'SUSPENDED') {
+    throw new BadRequestError('Suspended leagues cannot start a subscription');
+  }
+  if (await findLiveSubscription(league.id)) {
+    throw new ConflictError('The league already has a subscription; upgrade it instead');
+  }
+
+  // Reuse the customer of a lapsed subscription so the provider keeps one billing history
+  const previous = await prisma.leagueSubscription.findFirst({
+    where: { leagueId: league.id, provider: provider.name, stripeCustomerId: { not: null } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const session = await provider.createCheckout({
+    leagueId: league.id,
+    tier: target,
+    customerEmail,
+    customerId: previous?.stripeCustomerId ?? null,
+    ...urls,
+  });
+
+  log.info('Checkout started', { leagueId: league.id, tier: target, sessionId: session.id });
+  return session;
+}
+
+/**
+ * Move the league's running subscription to a higher tier
+ *
+ * @throws BadRequestError for tiers that can't be bought or aren't an upgrade
+ * @throws NotFoundError without a running subscription; check out instead
+ * @throws ConflictError while a payment is past due
+ */
+export async function upgradeSubscription(
+  league: BillableLeague,
+  tier: unknown,
+  provider: PaymentProvider = getPaymentProvider(),
+  now: Date = new Date()
+): Promise<BillingEventResult> {
+  const target = requireBillableUpgrade(league.tier, tier);
+
+  const subscription = await findLiveSubscription(league.id);
+  if (!subscription || subscription.provider !== provider.name) {
+    throw new NotFoundError('The league has no subscription to upgrade; start a checkout instead');
+  }
+  if (subscription.status === 'PAST_DUE') {
+    throw new ConflictError('Settle the past-due payment before upgrading');
+  }
+
+  const changed = await provider.changeTier(toProviderSubscription(subscription), target);
+  log.info('Subscription upgraded', { leagueId: league.id, from: subscription.tier, to: target });
+
+  // Applied right away rather than on the provider's webhook, but without
+  // advancing lastEventAt: that webhook may carry an earlier timestamp than
+  // our clock and must not be dropped as stale
+  return applySubscriptionEvent(
+    {
+      id: `upgrade_${subscription.id}_${now.getTime()}`,
+      type: 'subscription.paid',
+      occurredAt: now,
+      subscription: changed,
+    },
+    provider.name,
+    now,
+    false
+  );
+}
+
+/**
+ * Apply a verified provider event to the subscription and its league
+ *
+ * Unknown leagues and stale events are skipped rather than failed, so the
+ * provider doesn't retry them forever.
+ */
+export async function applyBillingEvent(
+  event: BillingEvent,
+  providerName: string,
+  now: Date = new Date()
+): Promise<BillingEventResult> {
+  return applySubscriptionEvent(event, providerName, now, true);
+}
+
+/**
+ * @param fromProvider - false for changes the provider confirmed synchronously;
+ *   they skip the staleness check and leave lastEventAt to the provider's events
+ */
+async function applySubscriptionEvent(
+  event: BillingEvent,
+  providerName: string,
+  now: Date,
+  fromProvider: boolean
+): Promise<BillingEventResult> {
+  const { subscription: sub } = event;
+
+  const result = await prisma.$transaction(async (tx): Promise<BillingEventResult> => {
+    const league = await tx.league.findUnique({
+      where: { id: sub.leagueId },
+      include: { _count: { select: { members: true } } },
+    });
+    if (!league) {
+      return { applied: false, reason: 'UNKNOWN_LEAGUE' };
+    }
+
+    const key = { provider: providerName, stripeSubscriptionId: sub.subscriptionId };
+    const existing = await tx.leagueSubscription.findUnique({ where: { provider_stripeSubscriptionId: key } });
+    if (fromProvider && existing?.lastEventAt && existing.lastEventAt >= event.occurredAt) {
+      return { applied: false, reason: 'STALE' };
+    }
+
+    const otherActive = await tx.leagueSubscription.findFirst({
+      where: {
+        leagueId: league.id,
+        status: 'ACTIVE',
+        NOT: key,
+      },
+      orderBy: { currentPeriodEnd: 'desc' },
+    });
+
+    const plan = planSubscriptionChange(
+      {
+        league: { tier: league.tier, status: league.status, memberCount: league._count.members },
+        otherActiveTier: otherActive?.tier ?? null,
+      },
+      event
+    );
+
+    const data = {
+      tier: sub.tier,
+      stripeCustomerId: sub.customerId,
+      currentPeriodStart: sub.currentPeriodStart,
+      currentPeriodEnd: sub.currentPeriodEnd,
+      status: plan.subscriptionStatus,
+      ...(fromProvider && { lastEventAt: event.occurredAt }),
+    };
+    // Upsert on the unique key: concurrent deliveries of a new subscription's
+    // first events must not create it twice
+    await tx.leagueSubscription.upsert({
+      where: { provider_stripeSubscriptionId: key },
+      create: { ...data, ...key, leagueId: league.id },
+      update: data,
+    });
+
+    await tx.league.update({
+      where: { id: league.id },
+      data: {
+        tier: plan.leagueTier,
+        ...(plan.approve && {
+          status: 'ACTIVE',
+          verified: true,
+          verifiedAt: now,
+          verifiedBy: PAYMENT_AUTO_VERIFIER,
+        }),
+      },
+    });
+
+    return { applied: true, plan };
+  });
+
+  if (!result.applied) {
+    log.warn('Billing event skipped', { eventId: event.id, type: event.type, reason: result.reason });
+  } else if (result.plan && result.plan.overLimitBy > 0) {
+    log.warn('League is over its member limit after a tier change', {
+      leagueId: sub.leagueId,
+      tier: result.plan.leagueTier,
+      overLimitBy: result.plan.overLimitBy,
+    });
+  } else {
+    log.info('Billing event applied', { eventId: event.id, type: event.type, leagueId: sub.leagueId });
+  }
+
+  return result;
+}
@@ -0,0 +1,43 @@
+/**
+ * Billing Module
+ *
+ * League subscriptions behind a pluggable payment provider: checkout and
+ * upgrades for league owners, signed webhooks that move League.tier, and a
+ * graceful fallback to FREE (without dropping members) when a subscription
+ * lapses.
+ *
+ * @example
+ * ```typescript
+ * import { startCheckout } from '@/lib/billing';
+ *
+ * const session = await startCheckout(league, 'STARTER', user.email, { successUrl, cancelUrl });
+ * redirect(session.url);
+ * ```
+ *
+ * @module lib/billing
+ */
+
+export {
+  applyBillingEvent,
+  getBillingStatus,
+  startCheckout,
+  upgradeSubscription,
+} from './billing-service';
+export type { BillingEventResult } from './billing-service';
+export {
+  DEFAULT_PAYMENT_PROVIDER,
+  FakePaymentProvider,
+  getPaymentProvider,
+  registerPaymentProvider,
+} from './providers';
+export { PAYMENT_AUTO_VERIFIER, SUBSCRIPTION_STATUS_BY_EVENT, planSubscriptionChange } from './plans';
+export type { SubscriptionChangePlan } from './plans';
+export { SIGNATURE_TOLERANCE_SECONDS, signPayload, verifySignature } from './signature';
+export type {
+  BillingEvent,
+  BillingEventType,
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentProvider,
+  ProviderSubscription,
+} from './types';
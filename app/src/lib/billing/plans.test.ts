@@ -0,0 +1,61 @@
+/**
+ * Billing Plan Tests
+ * Tests what provider events do to a league
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planSubscriptionChange } from './plans';
+import type { BillingEventType } from './types';
+
+const subscription = {
+  customerId: 'cus_1',
+  subscriptionId: 'sub_1',
+  leagueId: 'l1',
+  tier: 'PRO' as const,
+  currentPeriodStart: new Date('2026-03-01T00:00:00Z'),
+  currentPeriodEnd: new Date('2026-04-01T00:00:00Z'),
+};
+
+function plan(
+  type: BillingEventType,
+  league: { tier: 'FREE' | 'STARTER' | 'PRO' | 'ENTERPRISE'; status: string; memberCount: number },
+  otherActiveTier: 'STARTER' | 'PRO' | null = null
+) {
+  return planSubscriptionChange({ league, otherActiveTier }, { type, subscription });
+}
+
+describe('planSubscriptionChange', () => {
+  it('gives the league the paid tier and approves it while pending', () => {
+    expect(plan('subscription.paid', { tier: 'FREE', status: 'PENDING', memberCount: 3 })).toEqual({
+      subscriptionStatus: 'ACTIVE',
+      leagueTier: 'PRO',
+      approve: true,
+      overLimitBy: 0,
+    });
+    expect(plan('subscription.paid', { tier: 'STARTER', status: 'ACTIVE', memberCount: 3 }).approve).toBe(false);
+  });
+
+  it('keeps the tier while a payment is past due', () => {
+    expect(plan('subscription.past_due', { tier: 'PRO', status: 'ACTIVE', memberCount: 60 })).toEqual({
+      subscriptionStatus: 'PAST_DUE',
+      leagueTier: 'PRO',
+      approve: false,
+      overLimitBy: 0,
+    });
+  });
+
+  it('falls back to FREE when the subscription lapses, keeping every member', () => {
+    expect(plan('subscription.canceled', { tier: 'PRO', status: 'ACTIVE', memberCount: 60 })).toEqual({
+      subscriptionStatus: 'CANCELED',
+      leagueTier: 'FREE',
+      approve: false,
+      overLimitBy: 50,
+    });
+  });
+
+  it('falls back to another active subscription instead of FREE', () => {
+    const result = plan('subscription.canceled', { tier: 'PRO', status: 'ACTIVE', memberCount: 60 }, 'STARTER');
+    expect(result.leagueTier).toBe('STARTER');
+    expect(result.overLimitBy).toBe(10);
+  });
+});
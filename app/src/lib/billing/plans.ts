@@ -0,0 +1,70 @@
+/**
+ * Billing Plans - What provider events do to a league
+ *
+ * STARTER and PRO are sold through checkout (BILLABLE_TIERS in
+ * lib/entitlements); ENTERPRISE is arranged with us directly. Provider events
+ * move the subscription and the league:
+ *
+ * - paid: the subscription is ACTIVE and the league gets its tier. A PENDING
+ *   league is approved on the spot (verifiedBy = PAYMENT_AUTO)
+ * - past_due: the subscription is PAST_DUE; the league keeps its tier while
+ *   the provider retries the payment
+ * - canceled: the subscription lapses and the league falls back to FREE (or
+ *   the tier of another active subscription)
+ *
+ * Downgrades never remove members. A league over its new member limit keeps
+ * everyone but takes no new members until it is back under the limit.
+ *
+ * @module lib/billing/plans
+ */
+
+import { getOverLimitBy } from '@/lib/entitlements/entitlements';
+import type { LeagueTier, SubscriptionStatus } from '@/types';
+import type { BillingEvent, BillingEventType } from './types';
+
+/** verifiedBy of leagues approved by paying */
+export const PAYMENT_AUTO_VERIFIER = 'PAYMENT_AUTO';
+
+export const SUBSCRIPTION_STATUS_BY_EVENT: Record<BillingEventType, SubscriptionStatus> = {
+  'subscription.paid': 'ACTIVE',
+  'subscription.past_due': 'PAST_DUE',
+  'subscription.canceled': 'CANCELED',
+};
+
+/** What an event does to the league */
+export interface SubscriptionChangePlan {
+  subscriptionStatus: SubscriptionStatus;
+  leagueTier: LeagueTier;
+  /** Approve a PENDING league */
+  approve: boolean;
+  /** Members beyond the new tier's limit; they stay, but nobody new can join */
+  overLimitBy: number;
+}
+
+/**
+ * What a provider event does to the league
+ *
+ * @param context.otherActiveTier - Tier of another ACTIVE subscription of the
+ *   league, which a canceled one falls back to instead of FREE
+ */
+export function planSubscriptionChange(
+  context: { league: { tier: LeagueTier; status: string; memberCount: number }; otherActiveTier: LeagueTier | null },
+  event: Pick<BillingEvent, 'type' | 'subscription'>
+): SubscriptionChangePlan {
+  const { league } = context;
+  const subscriptionStatus = SUBSCRIPTION_STATUS_BY_EVENT[event.type];
+
+  let leagueTier = league.tier;
+  if (event.type === 'subscription.paid') {
+    leagueTier = event.subscription.tier;
+  } else if (event.type === 'subscription.canceled') {
+    leagueTier = context.otherActiveTier ?? 'FREE';
+  }
+
+  return {
+    subscriptionStatus,
+    leagueTier,
+    approve: event.type === 'subscription.paid' && league.status === 'PENDING',
+    overLimitBy: getOverLimitBy(leagueTier, league.memberCount),
+  };
+}
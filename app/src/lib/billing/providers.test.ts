@@ -0,0 +1,99 @@
+/**
+ * Payment Provider Tests
+ * Tests webhook signatures, the fake provider and the provider registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FakePaymentProvider, getPaymentProvider, registerPaymentProvider } from './providers';
+import { signPayload, verifySignature } from './signature';
+import type { BillingEvent } from './types';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const event: BillingEvent = {
+  id: 'evt_1',
+  type: 'subscription.paid',
+  occurredAt: new Date('2026-03-10T11:59:00Z'),
+  subscription: {
+    customerId: 'cus_1',
+    subscriptionId: 'sub_1',
+    leagueId: 'l1',
+    tier: 'STARTER',
+    currentPeriodStart: new Date('2026-03-10T00:00:00Z'),
+    currentPeriodEnd: new Date('2026-04-10T00:00:00Z'),
+  },
+};
+
+describe('verifySignature', () => {
+  const header = signPayload('{"a":1}', 'secret', now);
+
+  it('accepts the signature of the same payload and secret', () => {
+    expect(verifySignature('{"a":1}', header, 'secret', now)).toBe(true);
+  });
+
+  it('refuses tampered payloads, other secrets and malformed headers', () => {
+    expect(verifySignature('{"a":2}', header, 'secret', now)).toBe(false);
+    expect(verifySignature('{"a":1}', header, 'other', now)).toBe(false);
+    expect(verifySignature('{"a":1}', null, 'secret', now)).toBe(false);
+    expect(verifySignature('{"a":1}', 'v1=abc', 'secret', now)).toBe(false);
+  });
+
+  it('refuses signatures older than the tolerance', () => {
+    expect(verifySignature('{"a":1}', header, 'secret', new Date('2026-03-10T12:04:00Z'))).toBe(true);
+    expect(verifySignature('{"a":1}', header, 'secret', new Date('2026-03-10T12:06:00Z'))).toBe(false);
+  });
+});
+
+describe('FakePaymentProvider', () => {
+  const provider = new FakePaymentProvider('whsec_test');
+
+  it('sends checkout straight to the success URL', async () => {
+    const session = await provider.createCheckout({
+      leagueId: 'l1',
+      tier: 'PRO',
+      customerEmail: 'owner@example.com',
+      customerId: null,
+      successUrl: 'https://example.com/leagues/lab/manage?billing=success',
+      cancelUrl: 'https://example.com/leagues/lab/manage?billing=canceled',
+    });
+
+    expect(session.id).toMatch(/^fake_cs_/);
+    expect(new URL(session.url).searchParams.get('billing')).toBe('success');
+    expect(new URL(session.url).searchParams.get('session_id')).toBe(session.id);
+  });
+
+  it('parses the events it signs', () => {
+    const { payload, signature } = provider.signEvent(event, now);
+
+    expect(provider.parseWebhook(payload, signature, now)).toEqual(event);
+  });
+
+  it('refuses unsigned, wrongly signed and malformed events', () => {
+    const { payload, signature } = provider.signEvent(event, now);
+
+    expect(provider.parseWebhook(payload, null, now)).toBeNull();
+    expect(new FakePaymentProvider('other').parseWebhook(payload, signature, now)).toBeNull();
+    expect(new FakePaymentProvider(null).parseWebhook(payload, signature, now)).toBeNull();
+
+    const bad = provider.signEvent({ ...event, subscription: { ...event.subscription, tier: 'GOLD' as never } }, now);
+    expect(provider.parseWebhook(bad.payload, bad.signature, now)).toBeNull();
+  });
+
+  it('cannot sign without a webhook secret', () => {
+    expect(() => new FakePaymentProvider(null).signEvent(event, now)).toThrow('BILLING_WEBHOOK_SECRET');
+  });
+});
+
+describe('getPaymentProvider', () => {
+  it('creates registered providers by name', () => {
+    const custom = new FakePaymentProvider('secret');
+    registerPaymentProvider('custom', () => custom);
+
+    expect(getPaymentProvider('custom')).toBe(custom);
+    expect(getPaymentProvider('fake')).toBeInstanceOf(FakePaymentProvider);
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => getPaymentProvider('nope')).toThrow('Unknown payment provider: nope');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Payment Providers - Who takes the money
+ *
+ * Built in:
+ * - `fake`: a local provider for development and tests. Checkout returns
+ *   straight to the success URL without charging anything; subscriptions only
+ *   change when a webhook signed with BILLING_WEBHOOK_SECRET arrives (see
+ *   FakePaymentProvider.signEvent)
+ *
+ * BILLING_PROVIDER selects the provider (default `fake`).
+ *
+ * ## Extension Points
+ * - **Real payments**: Implement `PaymentProvider` (e.g. against Stripe
+ *   Checkout and Billing) and call registerPaymentProvider()
+ *
+ * @module lib/billing/providers
+ */
+
+import { randomBytes } from 'crypto';
+import { LEAGUE_TIER_LIMITS, type LeagueTier } from '@/types';
+import { signPayload, verifySignature } from './signature';
+import type {
+  BillingEvent,
+  BillingEventType,
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentProvider,
+  ProviderSubscription,
+} from './types';
+
+export const DEFAULT_PAYMENT_PROVIDER = 'fake';
+
+const EVENT_TYPES: BillingEventType[] = ['subscription.paid', 'subscription.past_due', 'subscription.canceled'];
+
+function fakeId(prefix: string): string {
+  return `${prefix}_${randomBytes(8).toString('hex')}`;
+}
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a webhook body in the fake provider's format (a BillingEvent with ISO dates)
+ */
+function parseFakeEvent(payload: string): BillingEvent | null {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(payload);
+  } catch {
+    return null;
+  }
+  const sub = raw?.subscription as Record<string, unknown> | undefined;
+  if (!sub || typeof raw.id !== 'string' || !EVENT_TYPES.includes(raw.type as BillingEventType)) return null;
+
+  const occurredAt = toDate(raw.occurredAt);
+  const currentPeriodStart = toDate(sub.currentPeriodStart);
+  const currentPeriodEnd = toDate(sub.currentPeriodEnd);
+  if (
+    !occurredAt ||
+    !currentPeriodStart ||
+    !currentPeriodEnd ||
+    typeof sub.customerId !== 'string' ||
+    typeof sub.subscriptionId !== 'string' ||
+    typeof sub.leagueId !== 'string' ||
+    !(typeof sub.tier === 'string' && sub.tier in LEAGUE_TIER_LIMITS)
+  ) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    type: raw.type as BillingEventType,
+    occurredAt,
+    subscription: {
+      customerId: sub.customerId,
+      subscriptionId: sub.subscriptionId,
+      leagueId: sub.leagueId,
+      tier: sub.tier as LeagueTier,
+      currentPeriodStart,
+      currentPeriodEnd,
+    },
+  };
+}
+
+/**
+ * Local provider: no charges, webhooks signed with a shared secret
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly webhookSecret: string | null) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const id = fakeId('fake_cs');
+    const url = new URL(request.successUrl);
+    url.searchParams.set('session_id', id);
+    return { id, url: url.toString() };
+  }
+
+  async changeTier(subscription: ProviderSubscription, tier: LeagueTier): Promise<ProviderSubscription> {
+    return { ...subscription, tier };
+  }
+
+  parseWebhook(payload: string, signature: string | null, now: Date): BillingEvent | null {
+    if (!this.webhookSecret || !verifySignature(payload, signature, this.webhookSecret, now)) {
+      return null;
+    }
+    return parseFakeEvent(payload);
+  }
+
+  /**
+   * A webhook body and signature header for an event, as the fake provider
+   * would send it (for tests and simulating payments locally)
+   */
+  signEvent(event: BillingEvent, now: Date): { payload: string; signature: string } {
+    if (!this.webhookSecret) {
+      throw new Error('BILLING_WEBHOOK_SECRET is not set');
+    }
+    const payload = JSON.stringify(event);
+    return { payload, signature: signPayload(payload, this.webhookSecret, now) };
+  }
+}
+
+const providers = new Map<string, () => PaymentProvider>([
+  ['fake', () => new FakePaymentProvider(process.env.BILLING_WEBHOOK_SECRET || null)],
+]);
+
+/**
+ * Register (or replace) a provider factory
+ */
+export function registerPaymentProvider(name: string, factory: () => PaymentProvider): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Create the configured provider (BILLING_PROVIDER, default `fake`)
+ */
+export function getPaymentProvider(
+  name: string = process.env.BILLING_PROVIDER || DEFAULT_PAYMENT_PROVIDER
+): PaymentProvider {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return factory();
+}
@@ -0,0 +1,66 @@
+/**
+ * Billing - Payment provider contract
+ *
+ * A payment provider takes league owners through checkout, changes the tier
+ * of a running subscription and reports what happened to subscriptions
+ * through signed webhooks. The billing service applies those reports to
+ * LeagueSubscription and League.tier and doesn't care which provider sent them.
+ *
+ * @module lib/billing/types
+ */
+
+import type { LeagueTier } from '@/types';
+
+export type BillingEventType = 'subscription.paid' | 'subscription.past_due' | 'subscription.canceled';
+
+/** A subscription as the provider knows it */
+export interface ProviderSubscription {
+  customerId: string;
+  subscriptionId: string;
+  /** League the subscription pays for (checkout metadata) */
+  leagueId: string;
+  tier: LeagueTier;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+}
+
+/** A verified webhook event */
+export interface BillingEvent {
+  /** Provider event id, for logs */
+  id: string;
+  type: BillingEventType;
+  /** When the provider emitted it; events older than the last one applied are ignored */
+  occurredAt: Date;
+  subscription: ProviderSubscription;
+}
+
+export interface CheckoutRequest {
+  leagueId: string;
+  tier: LeagueTier;
+  customerEmail: string;
+  /** The league's customer from an earlier subscription, if any */
+  customerId: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  /** Where to send the owner to pay */
+  url: string;
+}
+
+export interface PaymentProvider {
+  /** Provider id stored on LeagueSubscription.provider, e.g. 'fake' */
+  readonly name: string;
+  /** Start a hosted checkout for a new subscription */
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  /** Move a running subscription to another tier, prorated by the provider */
+  changeTier(subscription: ProviderSubscription, tier: LeagueTier): Promise<ProviderSubscription>;
+  /**
+   * Verify and parse a webhook request body
+   *
+   * @returns The event, or null if the signature or payload is invalid
+   */
+  parseWebhook(payload: string, signature: string | null, now: Date): BillingEvent | null;
+}
@@ -0,0 +1,112 @@
+/**
+ * Biological Age Algorithms Tests
+ * Tests the Levine clock and the variant / Klemera–Doubal factories
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePhenoAge,
+  calculateLevineLinearPredictor,
+  phenoAgeFromLinearPredictor,
+} from '@/lib/phenoage';
+import {
+  levinePhenoAge,
+  createPhenoAgeVariant,
+  createKlemeraDoubalAlgorithm,
+} from './algorithms';
+
+const values = {
+  albumin: 4.5,
+  creatinine: 0.9,
+  glucose: 85,
+  crp: 0.5,
+  lymphocytePercent: 30,
+  mcv: 90,
+  rdw: 12.5,
+  alp: 70,
+  wbc: 5.5,
+};
+
+const cystatinC = { key: 'cystatinC', name: 'Cystatin C', unit: 'mg/L', min: 0.3, max: 5 };
+
+describe('Biological Age Algorithms', () => {
+  describe('levinePhenoAge', () => {
+    it('should match calculatePhenoAge', () => {
+      expect(levinePhenoAge.compute(values, 45)).toBe(calculatePhenoAge({ ...values, chronologicalAge: 45 }));
+    });
+
+    it('should require the 9 Levine biomarkers', () => {
+      expect(levinePhenoAge.biomarkers.map((b) => b.key)).toHaveLength(9);
+    });
+  });
+
+  describe('createPhenoAgeVariant', () => {
+    it('should equal Levine PhenoAge when no terms change', () => {
+      const variant = createPhenoAgeVariant({
+        id: 'noop',
+        name: 'No-op',
+        version: '1.0',
+        description: '',
+        terms: [],
+      });
+
+      expect(variant.compute(values, 45)).toBe(levinePhenoAge.compute(values, 45));
+    });
+
+    it('should replace a Levine term with a new biomarker', () => {
+      const variant = createPhenoAgeVariant({
+        id: 'cystatin',
+        name: 'PhenoAge + cystatin C',
+        version: '1.0',
+        description: '',
+        terms: [{ biomarker: cystatinC, coefficient: -3 }],
+        replaces: ['creatinine'],
+      });
+
+      const keys = variant.biomarkers.map((b) => b.key);
+      expect(keys).toContain('cystatinC');
+      expect(keys).not.toContain('creatinine');
+
+      // Levine's creatinine term is swapped for the cystatin C term
+      const xb =
+        calculateLevineLinearPredictor({ ...values, chronologicalAge: 45 }) -
+        0.0095 * values.creatinine -
+        3 * 1.2;
+      expect(variant.compute({ ...values, cystatinC: 1.2 }, 45)).toBe(phenoAgeFromLinearPredictor(xb, 45));
+    });
+  });
+
+  describe('createKlemeraDoubalAlgorithm', () => {
+    const kdm = createKlemeraDoubalAlgorithm({
+      id: 'kdm',
+      name: 'KDM',
+      version: '1.0',
+      description: '',
+      parameters: [
+        { biomarker: { key: 'a', name: 'A', unit: '', min: 0, max: 1000 }, intercept: 10, slope: 1, residualSd: 5 },
+        { biomarker: { key: 'b', name: 'B', unit: '', min: 0, max: 1000 }, intercept: 100, slope: -0.5, residualSd: 5 },
+      ],
+    });
+
+    it('should recover the age implied by every regression', () => {
+      // a = 10 + 40, b = 100 - 0.5 * 40
+      expect(kdm.compute({ a: 50, b: 80 }, 60)).toBe(40);
+    });
+
+    it('should pull the estimate toward chronological age when weighted', () => {
+      const weighted = createKlemeraDoubalAlgorithm({
+        id: 'kdm-ca',
+        name: 'KDM (with CA)',
+        version: '1.0',
+        description: '',
+        parameters: [
+          { biomarker: { key: 'a', name: 'A', unit: '', min: 0, max: 1000 }, intercept: 10, slope: 1, residualSd: 5 },
+        ],
+        chronologicalAgeVariance: 25,
+      });
+
+      // Equal weights: halfway between 40 (biomarker) and 60 (chronological)
+      expect(weighted.compute({ a: 50 }, 60)).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Biological Age Algorithms - Built-in clock and algorithm families
+ *
+ * - **levinePhenoAge**: Levine et al. (2018) PhenoAge on 9 biomarkers (the
+ *   default, registered out of the box)
+ * - **createPhenoAgeVariant()**: PhenoAge with terms added to or removed from
+ *   the Levine linear predictor, e.g. a cystatin C variant replacing creatinine
+ * - **createKlemeraDoubalAlgorithm()**: Klemera–Doubal method (KDM) estimate
+ *   from per-biomarker regressions on age
+ *
+ * Variants and KDM are built from fitted coefficients (a reference population
+ * such as NHANES), which is why they are factories rather than hard-coded
+ * clocks: register the fitted algorithm with registerBiologicalAgeAlgorithm().
+ *
+ * @module lib/biological-age/algorithms
+ */
+
+import { getBiomarker, type BiomarkerKey } from '@/lib/biomarkers';
+import {
+  PHENOAGE_BIOMARKER_KEYS,
+  calculateLevineLinearPredictor,
+  phenoAgeFromLinearPredictor,
+  type BiomarkerInput,
+  type PhenoAgeBiomarkerKey,
+} from '@/lib/phenoage';
+import type { BiologicalAgeAlgorithm, BiologicalAgeInput, BiomarkerRequirement } from './types';
+
+/**
+ * Requirement for a catalog biomarker, in its canonical unit
+ */
+export function catalogRequirement(key: BiomarkerKey): BiomarkerRequirement {
+  const { name, unit, min, max } = getBiomarker(key);
+  return { key, name, unit, min, max };
+}
+
+const LEVINE_BIOMARKERS: BiomarkerRequirement[] = PHENOAGE_BIOMARKER_KEYS.map(catalogRequirement);
+
+function toLevineInput(values: BiologicalAgeInput, chronologicalAge: number): BiomarkerInput {
+  return {
+    albumin: values.albumin,
+    creatinine: values.creatinine,
+    glucose: values.glucose,
+    crp: values.crp,
+    lymphocytePercent: values.lymphocytePercent,
+    mcv: values.mcv,
+    rdw: values.rdw,
+    alp: values.alp,
+    wbc: values.wbc,
+    chronologicalAge,
+  };
+}
+
+/**
+ * Levine PhenoAge (default ranking algorithm)
+ */
+export const levinePhenoAge: BiologicalAgeAlgorithm = {
+  id: 'levine-phenoage',
+  name: 'PhenoAge (Levine 2018)',
+  version: '1.0',
+  description: 'Phenotypic age from 9 blood biomarkers and chronological age',
+  biomarkers: LEVINE_BIOMARKERS,
+
+  compute(values, chronologicalAge) {
+    return phenoAgeFromLinearPredictor(
+      calculateLevineLinearPredictor(toLevineInput(values, chronologicalAge)),
+      chronologicalAge
+    );
+  },
+};
+
+/**
+ * Extra term added to the Levine linear predictor
+ */
+export interface PhenoAgeTerm {
+  biomarker: BiomarkerRequirement;
+  coefficient: number;
+  /** Optional transform applied before the coefficient (e.g. Math.log) */
+  transform?: (value: number) => number;
+}
+
+export interface PhenoAgeVariantConfig {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  /** Terms added to the linear predictor */
+  terms: PhenoAgeTerm[];
+  /** Levine biomarkers whose terms are dropped (e.g. creatinine) */
+  replaces?: PhenoAgeBiomarkerKey[];
+}
+
+/**
+ * Build a PhenoAge variant with terms added to or removed from Levine's model
+ */
+export function createPhenoAgeVariant(config: PhenoAgeVariantConfig): BiologicalAgeAlgorithm {
+  const replaced = new Set<string>(config.replaces ?? []);
+
+  return {
+    id: config.id,
+    name: config.name,
+    version: config.version,
+    description: config.description,
+    biomarkers: [
+      ...LEVINE_BIOMARKERS.filter((b) => !replaced.has(b.key)),
+      ...config.terms.map((term) => term.biomarker),
+    ],
+
+    compute(values, chronologicalAge) {
+      // Dropped Levine terms are evaluated at zero so their coefficient has no effect
+      const levineValues = { ...values };
+      for (const key of replaced) {
+        levineValues[key] = key === 'crp' ? 0.9 : 0; // log(0.9 + 0.1) = 0
+      }
+
+      let xb = calculateLevineLinearPredictor(toLevineInput(levineValues, chronologicalAge));
+      for (const term of config.terms) {
+        const value = values[term.biomarker.key];
+        xb += term.coefficient * (term.transform ? term.transform(value) : value);
+      }
+
+      return phenoAgeFromLinearPredictor(xb, chronologicalAge);
+    },
+  };
+}
+
+/**
+ * Per-biomarker regression on chronological age: value = intercept + slope * age
+ */
+export interface KdmBiomarkerParameters {
+  biomarker: BiomarkerRequirement;
+  intercept: number;
+  slope: number;
+  /** Root mean squared error of the regression */
+  residualSd: number;
+  /** Optional transform applied to the value before the regression (e.g. Math.log) */
+  transform?: (value: number) => number;
+}
+
+export interface KlemeraDoubalConfig {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  parameters: KdmBiomarkerParameters[];
+  /**
+   * Variance of biological age around chronological age (s²BA). Weights
+   * chronological age as an extra biomarker; omit for the pure estimate.
+   */
+  chronologicalAgeVariance?: number;
+}
+
+/**
+ * Build a Klemera–Doubal biological age estimator
+ */
+export function createKlemeraDoubalAlgorithm(config: KlemeraDoubalConfig): BiologicalAgeAlgorithm {
+  return {
+    id: config.id,
+    name: config.name,
+    version: config.version,
+    description: config.description,
+    biomarkers: config.parameters.map((p) => p.biomarker),
+
+    compute(values, chronologicalAge) {
+      let numerator = 0;
+      let denominator = 0;
+
+      for (const { biomarker, intercept, slope, residualSd, transform } of config.parameters) {
+        const raw = values[biomarker.key];
+        const value = transform ? transform(raw) : raw;
+        const variance = residualSd * residualSd;
+
+        numerator += ((value - intercept) * slope) / variance;
+        denominator += (slope * slope) / variance;
+      }
+
+      if (config.chronologicalAgeVariance) {
+        numerator += chronologicalAge / config.chronologicalAgeVariance;
+        denominator += 1 / config.chronologicalAgeVariance;
+      }
+
+      const biologicalAge = numerator / denominator;
+      return Math.round(biologicalAge * 10) / 10;
+    },
+  };
+}
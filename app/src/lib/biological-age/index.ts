@@ -0,0 +1,40 @@
+/**
+ * Biological Age Module
+ *
+ * Registry of biological-age algorithms. Submissions store a result per
+ * algorithm; each season ranks on one of them.
+ *
+ * @example
+ * ```typescript
+ * import { calculateBiologicalAges, getBiologicalAgeAlgorithm } from '@/lib/biological-age';
+ *
+ * const results = calculateBiologicalAges(biomarkers, ageAtCollection);
+ * const ranked = results.find((r) => r.algorithmId === season.rankingAlgorithmId);
+ * ```
+ *
+ * @module lib/biological-age
+ */
+
+export * from './types';
+export {
+  catalogRequirement,
+  levinePhenoAge,
+  createPhenoAgeVariant,
+  createKlemeraDoubalAlgorithm,
+} from './algorithms';
+export type {
+  PhenoAgeTerm,
+  PhenoAgeVariantConfig,
+  KdmBiomarkerParameters,
+  KlemeraDoubalConfig,
+} from './algorithms';
+export {
+  DEFAULT_ALGORITHM_ID,
+  registerBiologicalAgeAlgorithm,
+  getBiologicalAgeAlgorithm,
+  hasBiologicalAgeAlgorithm,
+  getBiologicalAgeAlgorithms,
+  validateAlgorithmInput,
+  calculateBiologicalAge,
+  calculateBiologicalAges,
+} from './registry';
@@ -0,0 +1,94 @@
+/**
+ * Biological Age Registry Tests
+ * Tests algorithm registration, validation and per-algorithm scoring
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createKlemeraDoubalAlgorithm } from './algorithms';
+import {
+  DEFAULT_ALGORITHM_ID,
+  registerBiologicalAgeAlgorithm,
+  getBiologicalAgeAlgorithm,
+  hasBiologicalAgeAlgorithm,
+  validateAlgorithmInput,
+  calculateBiologicalAges,
+} from './registry';
+
+const values = {
+  albumin: 4.5,
+  creatinine: 0.9,
+  glucose: 85,
+  crp: 0.5,
+  lymphocytePercent: 30,
+  mcv: 90,
+  rdw: 12.5,
+  alp: 70,
+  wbc: 5.5,
+};
+
+describe('Biological Age Registry', () => {
+  it('should register Levine PhenoAge as the default', () => {
+    expect(DEFAULT_ALGORITHM_ID).toBe('levine-phenoage');
+    expect(getBiologicalAgeAlgorithm(DEFAULT_ALGORITHM_ID).name).toContain('PhenoAge');
+  });
+
+  it('should throw for unknown algorithms', () => {
+    expect(hasBiologicalAgeAlgorithm('missing')).toBe(false);
+    expect(() => getBiologicalAgeAlgorithm('missing')).toThrow('Unknown biological age algorithm');
+  });
+
+  describe('validateAlgorithmInput', () => {
+    const algorithm = getBiologicalAgeAlgorithm(DEFAULT_ALGORITHM_ID);
+
+    it('should accept complete, plausible values', () => {
+      expect(validateAlgorithmInput(algorithm, values, 45).valid).toBe(true);
+    });
+
+    it('should list missing biomarkers', () => {
+      const { glucose: _glucose, ...partial } = values;
+      const result = validateAlgorithmInput(algorithm, partial, 45);
+
+      expect(result.valid).toBe(false);
+      expect(result.missing).toEqual(['glucose']);
+    });
+
+    it('should reject out-of-range values and ages', () => {
+      const result = validateAlgorithmInput(algorithm, { ...values, glucose: 1000 }, 12);
+
+      expect(result.errors).toHaveLength(2);
+    });
+  });
+
+  describe('calculateBiologicalAges', () => {
+    it('should score only the algorithms the values satisfy', () => {
+      registerBiologicalAgeAlgorithm(
+        createKlemeraDoubalAlgorithm({
+          id: 'test-kdm',
+          name: 'Test KDM',
+          version: '0.1',
+          description: '',
+          parameters: [
+            {
+              biomarker: { key: 'cystatinC', name: 'Cystatin C', unit: 'mg/L', min: 0.3, max: 5 },
+              intercept: 0.5,
+              slope: 0.01,
+              residualSd: 0.1,
+            },
+          ],
+        })
+      );
+
+      const withoutCystatin = calculateBiologicalAges(values, 45);
+      const withCystatin = calculateBiologicalAges({ ...values, cystatinC: 0.95 }, 45);
+
+      expect(withoutCystatin.map((r) => r.algorithmId)).toEqual(['levine-phenoage']);
+      expect(withCystatin.map((r) => r.algorithmId)).toEqual(['levine-phenoage', 'test-kdm']);
+      expect(withCystatin[1]).toMatchObject({
+        algorithmVersion: '0.1',
+        biologicalAge: 45,
+        ageReduction: 0,
+        paceOfAging: 1,
+      });
+    });
+  });
+});
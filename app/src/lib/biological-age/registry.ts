@@ -0,0 +1,126 @@
+/**
+ * Biological Age Registry - Algorithms available for scoring and ranking
+ *
+ * Submissions are scored with every registered algorithm whose biomarkers
+ * were provided; the season's `rankingAlgorithmId` picks the one the
+ * leaderboard ranks on.
+ *
+ * ## Extension Points
+ * - **New clocks**: Implement `BiologicalAgeAlgorithm` (or use the factories
+ *   in ./algorithms) and call registerBiologicalAgeAlgorithm()
+ *
+ * @module lib/biological-age/registry
+ */
+
+import { calculateAgeReduction, calculatePaceOfAging } from '@/lib/phenoage';
+import { levinePhenoAge } from './algorithms';
+import type {
+  AlgorithmInputValidation,
+  BiologicalAgeAlgorithm,
+  BiologicalAgeInput,
+  BiologicalAgeResult,
+} from './types';
+
+export const DEFAULT_ALGORITHM_ID = levinePhenoAge.id;
+
+// Same bounds as validateBiomarkers() in lib/phenoage
+const MIN_CHRONOLOGICAL_AGE = 18;
+const MAX_CHRONOLOGICAL_AGE = 120;
+
+const algorithms = new Map<string, BiologicalAgeAlgorithm>([
+  [levinePhenoAge.id, levinePhenoAge],
+]);
+
+/**
+ * Register (or replace) an algorithm
+ */
+export function registerBiologicalAgeAlgorithm(algorithm: BiologicalAgeAlgorithm): void {
+  algorithms.set(algorithm.id, algorithm);
+}
+
+/**
+ * Get a registered algorithm by id
+ */
+export function getBiologicalAgeAlgorithm(id: string): BiologicalAgeAlgorithm {
+  const algorithm = algorithms.get(id);
+  if (!algorithm) {
+    throw new Error(`Unknown biological age algorithm: ${id}`);
+  }
+  return algorithm;
+}
+
+/**
+ * Check whether an algorithm id is registered
+ */
+export function hasBiologicalAgeAlgorithm(id: string): boolean {
+  return algorithms.has(id);
+}
+
+/**
+ * All registered algorithms
+ */
+export function getBiologicalAgeAlgorithms(): BiologicalAgeAlgorithm[] {
+  return [...algorithms.values()];
+}
+
+/**
+ * Validate submitted values against an algorithm's requirements
+ */
+export function validateAlgorithmInput(
+  algorithm: BiologicalAgeAlgorithm,
+  values: Partial<BiologicalAgeInput>,
+  chronologicalAge: number
+): AlgorithmInputValidation {
+  const missing: string[] = [];
+  const errors: string[] = [];
+
+  for (const biomarker of algorithm.biomarkers) {
+    const value = values[biomarker.key];
+    if (value === undefined || value === null || Number.isNaN(value)) {
+      missing.push(biomarker.key);
+    } else if (value < biomarker.min || value > biomarker.max) {
+      errors.push(`${biomarker.name} must be between ${biomarker.min} and ${biomarker.max} ${biomarker.unit}`);
+    }
+  }
+
+  if (missing.length > 0) {
+    errors.unshift(`${algorithm.name} requires: ${missing.join(', ')}`);
+  }
+
+  if (chronologicalAge < MIN_CHRONOLOGICAL_AGE || chronologicalAge > MAX_CHRONOLOGICAL_AGE) {
+    errors.push(`Chronological age must be between ${MIN_CHRONOLOGICAL_AGE} and ${MAX_CHRONOLOGICAL_AGE}`);
+  }
+
+  return { valid: errors.length === 0, missing, errors };
+}
+
+/**
+ * Score values with one algorithm (values must be valid)
+ */
+export function calculateBiologicalAge(
+  algorithm: BiologicalAgeAlgorithm,
+  values: BiologicalAgeInput,
+  chronologicalAge: number
+): BiologicalAgeResult {
+  const biologicalAge = algorithm.compute(values, chronologicalAge);
+
+  return {
+    algorithmId: algorithm.id,
+    algorithmVersion: algorithm.version,
+    biologicalAge,
+    ageReduction: calculateAgeReduction(chronologicalAge, biologicalAge),
+    paceOfAging: calculatePaceOfAging(chronologicalAge, biologicalAge),
+  };
+}
+
+/**
+ * Score values with every registered algorithm they satisfy
+ */
+export function calculateBiologicalAges(
+  values: Partial<BiologicalAgeInput>,
+  chronologicalAge: number
+): BiologicalAgeResult[] {
+  return getBiologicalAgeAlgorithms()
+    .filter((algorithm) => validateAlgorithmInput(algorithm, values, chronologicalAge).valid)
+    .map((algorithm) => calculateBiologicalAge(algorithm, values as BiologicalAgeInput, chronologicalAge));
+}
@@ -0,0 +1,58 @@
+/**
+ * Biological Age Types
+ *
+ * Contract shared by every biological-age clock the platform can rank on.
+ *
+ * @module lib/biological-age/types
+ */
+
+/**
+ * A biomarker an algorithm needs, in the unit its coefficients expect
+ */
+export interface BiomarkerRequirement {
+  /** Biomarker key in submitted values (e.g. "albumin", "cystatinC") */
+  key: string;
+  name: string;
+  unit: string;
+  /** Plausibility bounds; values outside are rejected */
+  min: number;
+  max: number;
+}
+
+/** Submitted biomarker values by key */
+export type BiologicalAgeInput = Record<string, number>;
+
+/**
+ * Biological age algorithm contract
+ */
+export interface BiologicalAgeAlgorithm {
+  /** Unique id, stored with results and referenced by seasons */
+  readonly id: string;
+  readonly name: string;
+  /** Bumped whenever coefficients change, stored with results */
+  readonly version: string;
+  readonly description: string;
+  readonly biomarkers: BiomarkerRequirement[];
+  /** Biological age in years; values are already validated */
+  compute(values: BiologicalAgeInput, chronologicalAge: number): number;
+}
+
+/**
+ * One algorithm's result for a submission
+ */
+export interface BiologicalAgeResult {
+  algorithmId: string;
+  algorithmVersion: string;
+  biologicalAge: number;
+  /** Positive = younger than chronological age */
+  ageReduction: number;
+  /** < 1 = aging slower */
+  paceOfAging: number;
+}
+
+export interface AlgorithmInputValidation {
+  valid: boolean;
+  /** Required biomarker keys with no value */
+  missing: string[];
+  errors: string[];
+}
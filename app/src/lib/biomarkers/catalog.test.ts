@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BIOMARKER_CATALOG,
+  BIOMARKER_KEYS,
+  getBiomarker,
+  getBiomarkersByCategory,
+  isBiomarkerKey,
+  validateBiomarkerValues,
+} from './catalog';
+
+describe('Biomarker Catalog', () => {
+  describe('BIOMARKER_CATALOG', () => {
+    it('should include the PhenoAge biomarkers and the optional panel', () => {
+      expect(BIOMARKER_KEYS).toEqual(
+        expect.arrayContaining([
+          'albumin', 'creatinine', 'glucose', 'crp', 'lymphocytePercent',
+          'mcv', 'rdw', 'alp', 'wbc', 'apoB', 'hba1c', 'cystatinC',
+        ])
+      );
+    });
+
+    it('should have consistent ranges for every biomarker', () => {
+      for (const biomarker of BIOMARKER_CATALOG) {
+        expect(biomarker.min).toBeLessThan(biomarker.max);
+        expect(biomarker.optimal.min).toBeGreaterThanOrEqual(biomarker.min);
+        expect(biomarker.optimal.max).toBeLessThanOrEqual(biomarker.max);
+      }
+    });
+
+    it('should list the canonical unit among each biomarker conversions', () => {
+      for (const biomarker of BIOMARKER_CATALOG) {
+        const canonical = biomarker.conversions.find((c) => c.unit === biomarker.unit);
+        expect(canonical?.factor).toBe(1);
+      }
+    });
+  });
+
+  describe('isBiomarkerKey', () => {
+    it('should accept catalog keys', () => {
+      expect(isBiomarkerKey('hba1c')).toBe(true);
+    });
+
+    it('should reject unknown keys and inherited properties', () => {
+      expect(isBiomarkerKey('ldl')).toBe(false);
+      expect(isBiomarkerKey('toString')).toBe(false);
+    });
+  });
+
+  describe('getBiomarker', () => {
+    it('should return the definition with its key', () => {
+      const apoB = getBiomarker('apoB');
+      expect(apoB.key).toBe('apoB');
+      expect(apoB.unit).toBe('mg/dL');
+      expect(apoB.category).toBe('lipids');
+    });
+  });
+
+  describe('getBiomarkersByCategory', () => {
+    it('should return the biomarkers of one category', () => {
+      const kidney = getBiomarkersByCategory('kidney').map((b) => b.key);
+      expect(kidney).toContain('creatinine');
+      expect(kidney).toContain('cystatinC');
+      expect(kidney).not.toContain('glucose');
+    });
+  });
+
+  describe('validateBiomarkerValues', () => {
+    it('should accept in-range values and skip missing ones', () => {
+      const result = validateBiomarkerValues({ albumin: 4.5, hba1c: 5.2, crp: null, mcv: undefined });
+      expect(result.valid).toBe(true);
+      expect(result.errors).toEqual([]);
+      expect(result.values).toEqual({ albumin: 4.5, hba1c: 5.2 });
+    });
+
+    it('should reject unknown biomarkers', () => {
+      const result = validateBiomarkerValues({ ldl: 120 });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Unknown biomarker: ldl');
+    });
+
+    it('should reject non-numeric values', () => {
+      const result = validateBiomarkerValues({ glucose: '95' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('must be a number');
+    });
+
+    it('should reject values outside the plausibility range', () => {
+      const result = validateBiomarkerValues({ apoB: 500 });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('between 20 and 300');
+      expect(result.values).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Biomarker Catalog - Single source of truth for every biomarker the platform knows
+ *
+ * Each entry carries the display names, canonical unit, unit conversions,
+ * report aliases, plausibility and optimal ranges and category of one
+ * biomarker. OCR extraction, unit conversion, validation, the review and entry
+ * forms and the charts all read this catalog, and submitted values are stored
+ * one row per biomarker (BiomarkerValue), so a new biomarker is a catalog
+ * entry rather than a schema change.
+ *
+ * ## Extension Points
+ * - **New biomarkers**: Add an entry to BIOMARKER_DEFINITIONS. Algorithms that
+ *   use it are registered separately in lib/biological-age
+ * - **New units**: Add a conversion to the biomarker's `conversions`
+ *
+ * @module lib/biomarkers/catalog
+ */
+
+export type BiomarkerCategory =
+  | 'metabolic'
+  | 'kidney'
+  | 'liver'
+  | 'inflammation'
+  | 'hematology'
+  | 'lipids';
+
+export const BIOMARKER_CATEGORY_LABELS: Record<BiomarkerCategory, string> = {
+  metabolic: 'Metabolic',
+  kidney: 'Kidney',
+  liver: 'Liver',
+  inflammation: 'Inflammation',
+  hematology: 'Blood Count',
+  lipids: 'Lipids',
+};
+
+/**
+ * Conversion from a lab unit to the biomarker's canonical unit:
+ * canonical = value * factor + (offset ?? 0)
+ */
+export interface BiomarkerUnitConversion {
+  /** Unit as printed by labs (e.g. "μmol/L") */
+  unit: string;
+  factor: number;
+  /** Only for non-proportional scales (e.g. HbA1c IFCC mmol/mol to NGSP %) */
+  offset?: number;
+  /** Other spellings of the unit */
+  aliases: string[];
+  /** Guess this unit when a value is printed without one and falls in its range */
+  detect?: boolean;
+}
+
+interface BiomarkerSpec {
+  /** Name used in validation messages */
+  name: string;
+  /** Label for entry and review forms */
+  label: string;
+  /** Compact label for charts and chips */
+  shortLabel: string;
+  category: BiomarkerCategory;
+  /** Canonical unit - values are converted to and stored in this unit */
+  unit: string;
+  /** Plausibility bounds in the canonical unit; values outside are rejected */
+  min: number;
+  max: number;
+  optimal: { min: number; max: number };
+  conversions: BiomarkerUnitConversion[];
+  /** Unit spellings recognized next to a value in report text */
+  reportUnits: string[];
+  /** Unit assumed for values printed without a unit, per unit system */
+  defaultUnits: { US: string; SI: string };
+  /** Report names, including international variations and common OCR errors */
+  aliases: string[];
+  /** Chart color */
+  color: string;
+}
+
+const BIOMARKER_DEFINITIONS = {
+  albumin: {
+    name: 'Albumin',
+    label: 'Albumin',
+    shortLabel: 'Albumin',
+    category: 'liver',
+    unit: 'g/dL',
+    min: 2.0,
+    max: 6.0,
+    optimal: { min: 3.5, max: 5.0 },
+    conversions: [
+      { unit: 'g/L', factor: 0.1, aliases: ['g/l', 'grams/l', 'grams/liter'], detect: true },
+      { unit: 'g/dL', factor: 1, aliases: ['g/dl', 'gm/dl', 'g%'] },
+    ],
+    reportUnits: ['g/dl', 'g/l', 'gm/dl', 'g%'],
+    defaultUnits: { US: 'g/dl', SI: 'g/l' },
+    aliases: [
+      'albumin', 'alb', 'serum albumin', 'albumina', 'albumine',
+      'alb.', 's-albumin', 'plasma albumin', 'albúmina', 'albumen',
+      'ser albumin', 'total albumin', 'albumin serum',
+      'albumine serique', // French
+    ],
+    color: '#4CAF50',
+  },
+
+  creatinine: {
+    name: 'Creatinine',
+    label: 'Creatinine',
+    shortLabel: 'Creatinine',
+    category: 'kidney',
+    unit: 'mg/dL',
+    min: 0.3,
+    max: 3.0,
+    optimal: { min: 0.6, max: 1.2 },
+    conversions: [
+      { unit: 'μmol/L', factor: 0.0113, aliases: ['umol/l', 'μmol/l', 'µmol/l', 'micromol/l'], detect: true },
+      { unit: 'mg/L', factor: 0.1, aliases: ['mg/l'] },
+      { unit: 'mg/dL', factor: 1, aliases: ['mg/dl', 'mg%'] },
+    ],
+    reportUnits: ['mg/dl', 'mg/l', 'umol/l', 'μmol/l', 'µmol/l'],
+    defaultUnits: { US: 'mg/dl', SI: 'umol/l' },
+    aliases: [
+      'creatinine', 'creat', 'crea', 'creatinin', 'kreatinin',
+      'serum creatinine', 's-creatinine', 'creat.', 'créatinine',
+      'kreatinine', 'creatinina', 'plasma creatinine', 'creatinine serum',
+    ],
+    color: '#2196F3',
+  },
+
+  glucose: {
+    name: 'Glucose',
+    label: 'Glucose (Fasting)',
+    shortLabel: 'Glucose',
+    category: 'metabolic',
+    unit: 'mg/dL',
+    min: 40,
+    max: 300,
+    optimal: { min: 70, max: 100 },
+    conversions: [
+      { unit: 'mmol/L', factor: 18.0182, aliases: ['mmol/l', 'millimol/l'], detect: true },
+      { unit: 'mg/L', factor: 0.1, aliases: ['mg/l'] },
+      { unit: 'mg/dL', factor: 1, aliases: ['mg/dl', 'mg%'] },
+    ],
+    reportUnits: ['mg/dl', 'mmol/l', 'mg/l', 'mg%'],
+    defaultUnits: { US: 'mg/dl', SI: 'mmol/l' },
+    aliases: [
+      'glucose', 'gluc', 'glu', 'fasting glucose', 'blood glucose',
+      'glucosa', 'glukose', 'fbs', 'fbg', 'blood sugar', 'fasting blood sugar',
+      'glycemia', 'glycémie', 'blutzucker', 'plasma glucose', 'serum glucose',
+      'glucose fasting', 'fasting plasma glucose', 'fpg', 'random glucose',
+    ],
+    color: '#FF9800',
+  },
+
+  crp: {
+    name: 'C-Reactive Protein',
+    label: 'C-Reactive Protein',
+    shortLabel: 'CRP',
+    category: 'inflammation',
+    unit: 'mg/L',
+    min: 0,
+    max: 50,
+    optimal: { min: 0, max: 3.0 },
+    conversions: [
+      { unit: 'nmol/L', factor: 0.0001047, aliases: ['nmol/l', 'nanomol/l'] },
+      { unit: 'mg/dL', factor: 10, aliases: ['mg/dl'], detect: true },
+      { unit: 'μg/mL', factor: 1, aliases: ['ug/ml', 'μg/ml', 'µg/ml', 'mcg/ml'] },
+      { unit: 'mg/L', factor: 1, aliases: ['mg/l'] },
+    ],
+    reportUnits: ['mg/l', 'mg/dl', 'nmol/l', 'ug/ml', 'μg/ml'],
+    defaultUnits: { US: 'mg/l', SI: 'mg/l' },
+    aliases: [
+      'crp', 'c-reactive protein', 'c reactive protein', 'hs-crp',
+      'hscrp', 'high sensitivity crp', 'proteina c reactiva', 'pcr',
+      'c-reaktives protein', 'protéine c réactive', 'high-sensitivity crp',
+      'hs crp', 'c-reactive', 'creactive protein', 'sensitive crp',
+      'cardiac crp', 'crp-hs', 'ultra-sensitive crp',
+    ],
+    color: '#F44336',
+  },
+
+  lymphocytePercent: {
+    name: 'Lymphocyte %',
+    label: 'Lymphocyte %',
+    shortLabel: 'Lymphocyte %',
+    category: 'hematology',
+    unit: '%',
+    min: 5,
+    max: 60,
+    optimal: { min: 20, max: 40 },
+    conversions: [
+      { unit: '%', factor: 1, aliases: ['%', 'percent', 'pct'] },
+      // Given as a fraction (0.35 instead of 35%)
+      { unit: 'decimal', factor: 100, aliases: [] },
+    ],
+    reportUnits: ['%', 'percent', 'pct'],
+    defaultUnits: { US: '%', SI: '%' },
+    aliases: [
+      'lymphocyte', 'lymph', 'lymphocytes', 'lymph %', 'lymph%',
+      'lym', 'lym%', 'lymphocyte %', 'linfocitos', 'lymphozyten',
+      'lymphocytes %', 'lymph percent', 'ly%', 'ly %', 'lymph pct',
+      'lymphocyte percent', '% lymphocytes', 'lymphocyte percentage',
+      'lymfocyty', 'b_lymfocyty', 'lymfocyt', // Czech
+      'lymphozyten, relativ', 'lymphozyten relativ', // German
+    ],
+    color: '#9C27B0',
+  },
+
+  mcv: {
+    name: 'Mean Corpuscular Volume',
+    label: 'Mean Corpuscular Volume',
+    shortLabel: 'MCV',
+    category: 'hematology',
+    unit: 'fL',
+    min: 60,
+    max: 120,
+    optimal: { min: 80, max: 100 },
+    conversions: [
+      { unit: 'fL', factor: 1, aliases: ['fl', 'femtoliters', 'femtoliter'] },
+      { unit: 'μm3', factor: 1, aliases: ['um3', 'μm3', 'µm3', 'cubic microns'] },
+    ],
+    reportUnits: ['fl', 'femtoliters', 'um3', 'μm3'],
+    defaultUnits: { US: 'fl', SI: 'fl' },
+    aliases: [
+      'mcv', 'mean corpuscular volume', 'mean cell volume',
+      'vcm', 'mch volume', 'mean corp vol', 'mean corp. volume',
+      'corpuscular volume', 'm.c.v', 'm.c.v.', 'erythrocyte mcv',
+    ],
+    color: '#00BCD4',
+  },
+
+  rdw: {
+    name: 'Red Cell Distribution Width',
+    label: 'Red Cell Distribution Width',
+    shortLabel: 'RDW',
+    category: 'hematology',
+    unit: '%',
+    min: 10,
+    max: 25,
+    optimal: { min: 11.5, max: 14.5 },
+    conversions: [
+      { unit: '%', factor: 1, aliases: ['%', 'percent', 'pct', 'cv'] },
+    ],
+    reportUnits: ['%', 'percent', 'pct', 'cv', 'ratio'], // ratio is converted to % by the extractor
+    defaultUnits: { US: '%', SI: '%' },
+    aliases: [
+      'rdw', 'red cell distribution width', 'rdw-cv', 'rdw-sd',
+      'red blood cell distribution width', 'anisocytosis', 'rdw cv',
+      'rdw sd', 'rbc distribution width', 'r.d.w', 'r.d.w.',
+      'red cell dist width', 'erythrocyte distribution width',
+      'rdw-distr', 'distr. šířka rbc', 'šířka rbc', // Czech
+      'evb', 'evb (rdw)', 'erythrozytenverteilungsbreite', // German
+    ],
+    color: '#795548',
+  },
+
+  alp: {
+    name: 'Alkaline Phosphatase',
+    label: 'Alkaline Phosphatase',
+    shortLabel: 'ALP',
+    category: 'liver',
+    unit: 'U/L',
+    min: 20,
+    max: 300,
+    optimal: { min: 44, max: 147 },
+    conversions: [
+      { unit: 'U/L', factor: 1, aliases: ['u/l', 'iu/l', 'units/l', 'unit/l'] },
+      { unit: 'μkat/L', factor: 60, aliases: ['ukat/l', 'μkat/l', 'µkat/l', 'microkat/l'] },
+      { unit: 'nkat/L', factor: 0.06, aliases: ['nkat/l', 'nanokat/l'] },
+    ],
+    reportUnits: ['u/l', 'iu/l', 'u/i', 'units/l'],
+    defaultUnits: { US: 'u/l', SI: 'u/l' },
+    aliases: [
+      'alp', 'alkaline phosphatase', 'alk phos', 'alkp',
+      'fosfatasa alcalina', 'ap', 'alk. phos.', 'alk phosphatase',
+      'alkalische phosphatase', 'phosphatase alcaline', 'alk.phos',
+      'alkaline phos', 'total alp', 'serum alp', 'palc',
+    ],
+    color: '#607D8B',
+  },
+
+  wbc: {
+    name: 'White Blood Cell Count',
+    label: 'White Blood Cell Count',
+    shortLabel: 'WBC',
+    category: 'hematology',
+    unit: 'K/uL',
+    min: 2,
+    max: 20,
+    optimal: { min: 4.5, max: 11.0 },
+    conversions: [
+      { unit: '10^9/L', factor: 1, aliases: ['10^9/l', 'x10^9/l', 'giga/l', 'g/l'] },
+      { unit: '10^3/uL', factor: 1, aliases: ['10^3/ul', 'x10^3/ul', 'thou/ul', 'k/mcl'] },
+      { unit: 'K/uL', factor: 1, aliases: ['k/ul', 'k/μl', 'k/µl'] },
+      { unit: 'cells/uL', factor: 0.001, aliases: ['cells/ul', '/ul', '/μl'], detect: true },
+    ],
+    reportUnits: ['k/ul', 'k/μl', '10^3/ul', '10^9/l', 'x10^3/ul', 'x10^9/l', 'thou/ul', 'k/mcl', 'giga/l', 'g/l'],
+    defaultUnits: { US: 'k/ul', SI: '10^9/l' },
+    aliases: [
+      'wbc', 'white blood cell', 'white blood cells', 'leucocytes',
+      'leukocytes', 'wcc', 'leucocitos', 'total wbc', 'white cell count',
+      'white blood count', 'w.b.c', 'w.b.c.', 'leukozyten', 'leucocyte count',
+      'leukocyte count', 'total white count', 'twbc',
+      'leukocyty', 'b_leukocyty', // Czech
+      'globules blancs', 'gb', // French
+    ],
+    color: '#E91E63',
+  },
+
+  apoB: {
+    name: 'Apolipoprotein B',
+    label: 'Apolipoprotein B',
+    shortLabel: 'ApoB',
+    category: 'lipids',
+    unit: 'mg/dL',
+    min: 20,
+    max: 300,
+    optimal: { min: 40, max: 90 },
+    conversions: [
+      { unit: 'g/L', factor: 100, aliases: ['g/l'], detect: true },
+      { unit: 'mg/dL', factor: 1, aliases: ['mg/dl'] },
+    ],
+    reportUnits: ['mg/dl', 'g/l'],
+    defaultUnits: { US: 'mg/dl', SI: 'g/l' },
+    aliases: [
+      'apob', 'apo b', 'apo-b', 'apolipoprotein b', 'apolipoprotein b-100',
+      'apo b-100', 'apob-100', 'apolipoproteina b', 'apolipoprotéine b',
+    ],
+    color: '#FFC107',
+  },
+
+  hba1c: {
+    name: 'Hemoglobin A1c',
+    label: 'Hemoglobin A1c',
+    shortLabel: 'HbA1c',
+    category: 'metabolic',
+    unit: '%',
+    min: 3,
+    max: 20,
+    optimal: { min: 4.0, max: 5.6 },
+    conversions: [
+      { unit: '%', factor: 1, aliases: ['%', 'percent'] },
+      // IFCC to NGSP master equation
+      { unit: 'mmol/mol', factor: 0.09148, offset: 2.152, aliases: ['mmol/mol'], detect: true },
+    ],
+    reportUnits: ['%', 'mmol/mol'],
+    defaultUnits: { US: '%', SI: 'mmol/mol' },
+    aliases: [
+      'hba1c', 'hb a1c', 'hemoglobin a1c', 'haemoglobin a1c', 'a1c',
+      'glycated hemoglobin', 'glycated haemoglobin', 'glycohemoglobin',
+      'glykiertes hämoglobin', 'hémoglobine glyquée', 'glykovaný hemoglobin',
+    ],
+    color: '#3F51B5',
+  },
+
+  cystatinC: {
+    name: 'Cystatin C',
+    label: 'Cystatin C',
+    shortLabel: 'Cystatin C',
+    category: 'kidney',
+    unit: 'mg/L',
+    min: 0.3,
+    max: 8,
+    optimal: { min: 0.5, max: 1.0 },
+    conversions: [
+      { unit: 'mg/L', factor: 1, aliases: ['mg/l'] },
+      { unit: 'nmol/L', factor: 0.0133, aliases: ['nmol/l'], detect: true },
+    ],
+    reportUnits: ['mg/l', 'nmol/l'],
+    defaultUnits: { US: 'mg/l', SI: 'mg/l' },
+    aliases: ['cystatin c', 'cystatin-c', 'cys c', 'cysc', 'cystatine c', 'cystatin c serum'],
+    color: '#8BC34A',
+  },
+} satisfies Record<string, BiomarkerSpec>;
+
+/** Key of a catalog biomarker (e.g. "albumin", "apoB") */
+export type BiomarkerKey = keyof typeof BIOMARKER_DEFINITIONS;
+
+export interface BiomarkerDefinition extends BiomarkerSpec {
+  key: BiomarkerKey;
+}
+
+/** Submitted values by biomarker key, in canonical units */
+export type BiomarkerValues = Partial<Record<BiomarkerKey, number>>;
+
+/** Every biomarker, in display order */
+export const BIOMARKER_CATALOG: BiomarkerDefinition[] = (
+  Object.entries(BIOMARKER_DEFINITIONS) as [BiomarkerKey, BiomarkerSpec][]
+).map(([key, spec]) => ({ key, ...spec }));
+
+export const BIOMARKER_KEYS: BiomarkerKey[] = BIOMARKER_CATALOG.map((biomarker) => biomarker.key);
+
+/**
+ * Check whether a string is a catalog biomarker key
+ */
+export function isBiomarkerKey(key: string): key is BiomarkerKey {
+  return Object.prototype.hasOwnProperty.call(BIOMARKER_DEFINITIONS, key);
+}
+
+/**
+ * Get a biomarker definition by key
+ */
+export function getBiomarker(key: BiomarkerKey): BiomarkerDefinition {
+  return { key, ...BIOMARKER_DEFINITIONS[key] };
+}
+
+/**
+ * Biomarkers of a category, in display order
+ */
+export function getBiomarkersByCategory(category: BiomarkerCategory): BiomarkerDefinition[] {
+  return BIOMARKER_CATALOG.filter((biomarker) => biomarker.category === category);
+}
+
+/**
+ * Validate submitted values against the catalog
+ * Unknown keys, non-numeric values and values outside the plausibility
+ * bounds are errors; missing biomarkers are not (algorithms check those).
+ */
+export function validateBiomarkerValues(values: Record<string, unknown>): {
+  valid: boolean;
+  errors: string[];
+  values: BiomarkerValues;
+} {
+  const errors: string[] = [];
+  const valid: BiomarkerValues = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || value === null) continue;
+
+    if (!isBiomarkerKey(key)) {
+      errors.push(`Unknown biomarker: ${key}`);
+      continue;
+    }
+
+    const biomarker = BIOMARKER_DEFINITIONS[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${biomarker.name} must be a number`);
+    } else if (value < biomarker.min || value > biomarker.max) {
+      errors.push(`${biomarker.name} must be between ${biomarker.min} and ${biomarker.max} ${biomarker.unit}`);
+    } else {
+      valid[key] = value;
+    }
+  }
+
+  return { valid: errors.length === 0, errors, values: valid };
+}
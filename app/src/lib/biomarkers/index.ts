@@ -0,0 +1,37 @@
+/**
+ * Biomarkers Module
+ *
+ * Catalog of every biomarker the platform knows, and the mapping between
+ * submitted values and their stored rows.
+ *
+ * @example
+ * ```typescript
+ * import { getBiomarker, validateBiomarkerValues, toBiomarkerValueRecords } from '@/lib/biomarkers';
+ *
+ * const { valid, errors, values } = validateBiomarkerValues(submitted);
+ * await prisma.biomarkerValue.createMany({
+ *   data: toBiomarkerValueRecords(values).map((row) => ({ ...row, submissionId })),
+ * });
+ * ```
+ *
+ * @module lib/biomarkers
+ */
+
+export {
+  BIOMARKER_CATALOG,
+  BIOMARKER_KEYS,
+  BIOMARKER_CATEGORY_LABELS,
+  isBiomarkerKey,
+  getBiomarker,
+  getBiomarkersByCategory,
+  validateBiomarkerValues,
+} from './catalog';
+export type {
+  BiomarkerKey,
+  BiomarkerCategory,
+  BiomarkerDefinition,
+  BiomarkerUnitConversion,
+  BiomarkerValues,
+} from './catalog';
+export { toBiomarkerValueRecords, fromBiomarkerValueRecords } from './values';
+export type { BiomarkerValueRecord } from './values';
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { fromBiomarkerValueRecords, toBiomarkerValueRecords } from './values';
+
+describe('Biomarker Values', () => {
+  describe('toBiomarkerValueRecords', () => {
+    it('should create one row per provided value in catalog order', () => {
+      const records = toBiomarkerValueRecords({ hba1c: 5.4, albumin: 4.5 });
+      expect(records).toEqual([
+        { biomarkerKey: 'albumin', value: 4.5, unit: 'g/dL' },
+        { biomarkerKey: 'hba1c', value: 5.4, unit: '%' },
+      ]);
+    });
+
+    it('should return no rows for empty values', () => {
+      expect(toBiomarkerValueRecords({})).toEqual([]);
+    });
+  });
+
+  describe('fromBiomarkerValueRecords', () => {
+    it('should round-trip stored rows', () => {
+      const values = { albumin: 4.5, crp: 0.8, cystatinC: 0.9 };
+      expect(fromBiomarkerValueRecords(toBiomarkerValueRecords(values))).toEqual(values);
+    });
+
+    it('should skip rows for biomarkers not in the catalog', () => {
+      const values = fromBiomarkerValueRecords([
+        { biomarkerKey: 'retired', value: 1, unit: 'mg/dL' },
+        { biomarkerKey: 'glucose', value: 90, unit: 'mg/dL' },
+      ]);
+      expect(values).toEqual({ glucose: 90 });
+    });
+  });
+});
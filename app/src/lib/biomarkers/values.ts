@@ -0,0 +1,38 @@
+/**
+ * Biomarker Values - Mapping between submitted values and BiomarkerValue rows
+ *
+ * @module lib/biomarkers/values
+ */
+
+import { BIOMARKER_KEYS, getBiomarker, isBiomarkerKey, type BiomarkerValues } from './catalog';
+
+/** Stored value row (BiomarkerValue) */
+export interface BiomarkerValueRecord {
+  biomarkerKey: string;
+  value: number;
+  unit: string;
+}
+
+/**
+ * Rows to store for a submission's values, in catalog order
+ */
+export function toBiomarkerValueRecords(values: BiomarkerValues): BiomarkerValueRecord[] {
+  return BIOMARKER_KEYS.filter((key) => values[key] !== undefined).map((key) => ({
+    biomarkerKey: key,
+    value: values[key] as number,
+    unit: getBiomarker(key).unit,
+  }));
+}
+
+/**
+ * Values by key from stored rows; rows for biomarkers no longer in the catalog are skipped
+ */
+export function fromBiomarkerValueRecords(records: BiomarkerValueRecord[]): BiomarkerValues {
+  const values: BiomarkerValues = {};
+  for (const record of records) {
+    if (isBiomarkerKey(record.biomarkerKey)) {
+      values[record.biomarkerKey] = record.value;
+    }
+  }
+  return values;
+}
@@ -0,0 +1,39 @@
+/**
+ * Cron Schedule Tests
+ * Tests parsing of five-field expressions and UTC matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { matchesCron, parseCronExpression } from './cron-schedule';
+
+describe('Cron Schedule', () => {
+  it('should match a daily schedule at its minute only', () => {
+    const schedule = parseCronExpression('5 0 * * *');
+
+    expect(matchesCron(schedule, new Date('2025-06-15T00:05:30Z'))).toBe(true);
+    expect(matchesCron(schedule, new Date('2025-06-15T00:06:00Z'))).toBe(false);
+    expect(matchesCron(schedule, new Date('2025-06-15T01:05:00Z'))).toBe(false);
+  });
+
+  it('should support steps, ranges and lists', () => {
+    const schedule = parseCronExpression('*/15 9-17 * * 1,3,5');
+
+    expect(matchesCron(schedule, new Date('2025-06-16T09:30:00Z'))).toBe(true); // Monday
+    expect(matchesCron(schedule, new Date('2025-06-16T09:20:00Z'))).toBe(false);
+    expect(matchesCron(schedule, new Date('2025-06-17T09:30:00Z'))).toBe(false); // Tuesday
+    expect(matchesCron(schedule, new Date('2025-06-16T18:00:00Z'))).toBe(false);
+  });
+
+  it('should evaluate in UTC', () => {
+    const schedule = parseCronExpression('0 0 1 1 *');
+
+    expect(matchesCron(schedule, new Date('2026-01-01T00:00:00Z'))).toBe(true);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('needs 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('Invalid cron minute');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('Invalid cron minute');
+    expect(() => parseCronExpression('* 5-2 * * *')).toThrow('Invalid cron hour');
+  });
+});
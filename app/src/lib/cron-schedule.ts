@@ -0,0 +1,91 @@
+/**
+ * Cron Schedule - Minimal five-field cron expressions
+ *
+ * `minute hour day-of-month month day-of-week`, evaluated in UTC. Each field
+ * is `*`, a number, a range (`1-5`), a step (`*\/15`, `0-30/10`) or a comma
+ * list of those. Used by the local cron runner (scripts/cron-runner.ts);
+ * hosted schedulers read the same expressions.
+ *
+ * No imports, so the runner script can load it directly.
+ *
+ * @module lib/cron-schedule
+ */
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 6 },
+];
+
+/** The allowed values of each field, in FIELDS order */
+export type CronSchedule = Set<number>[];
+
+function parseField(value: string, spec: FieldSpec): Set<number> {
+  const allowed = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let [from, to] = [spec.min, spec.max];
+
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      from = Number(startText);
+      // A single value with a step (`5/15`) runs to the field's maximum
+      if (endText !== undefined) {
+        to = Number(endText);
+      } else if (stepText === undefined) {
+        to = from;
+      }
+    }
+
+    if (
+      ![from, to, step].every(Number.isInteger) ||
+      step < 1 ||
+      from < spec.min ||
+      to > spec.max ||
+      from > to
+    ) {
+      throw new Error(`Invalid cron ${spec.name}: "${value}"`);
+    }
+
+    for (let n = from; n <= to; n += step) allowed.add(n);
+  }
+
+  return allowed;
+}
+
+/**
+ * Parse a five-field cron expression
+ *
+ * @throws Error if the expression is malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression needs ${FIELDS.length} fields: "${expression}"`);
+  }
+  return parts.map((part, index) => parseField(part, FIELDS[index]));
+}
+
+/**
+ * Whether a schedule fires in the UTC minute containing `date`
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  const values = [
+    date.getUTCMinutes(),
+    date.getUTCHours(),
+    date.getUTCDate(),
+    date.getUTCMonth() + 1,
+    date.getUTCDay(),
+  ];
+  return values.every((value, index) => schedule[index].has(value));
+}
@@ -0,0 +1,52 @@
+/**
+ * CSV Tests
+ * Tests quoting, formula neutralisation and document layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { streamCsv, toCsv, toCsvField } from './csv';
+
+describe('CSV', () => {
+  it('should quote fields with separators, quotes or line breaks', () => {
+    expect(toCsvField('plain')).toBe('plain');
+    expect(toCsvField('Smith, Jane')).toBe('"Smith, Jane"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('should neutralise text that spreadsheets would run as a formula', () => {
+    expect(toCsvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(toCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(toCsvField(-1.5)).toBe('-1.5');
+  });
+
+  it('should write empty fields for missing values and ISO dates', () => {
+    expect(toCsvField(null)).toBe('');
+    expect(toCsvField(undefined)).toBe('');
+    expect(toCsvField(new Date('2025-06-01T00:00:00Z'))).toBe('2025-06-01T00:00:00.000Z');
+  });
+
+  it('should end every line with CRLF', () => {
+    expect(toCsv(['a', 'b'], [[1, 'x'], [2, null]])).toBe('a,b\r\n1,x\r\n2,\r\n');
+  });
+
+  it('should stream the same document in chunks', async () => {
+    async function* rows() {
+      yield [1, 'x'];
+      yield [2, null];
+    }
+
+    const chunks: string[] = [];
+    for await (const chunk of streamCsv(['a', 'b'], rows(), 8)) chunks.push(chunk);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(toCsv(['a', 'b'], [[1, 'x'], [2, null]]));
+  });
+
+  it('should stream the header row without any rows', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of streamCsv(['a', 'b'], [])) chunks.push(chunk);
+
+    expect(chunks).toEqual(['a,b\r\n']);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * CSV - Minimal RFC 4180 writer for admin and league exports
+ *
+ * Fields with commas, quotes or line breaks are quoted. Text starting with
+ * =, +, -, @ or a tab is prefixed with an apostrophe so spreadsheet apps show
+ * it instead of evaluating it as a formula; numbers are written as is.
+ *
+ * @module lib/csv
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+const FORMULA_PREFIX = /^[=+\-@\t]/;
+const NEEDS_QUOTES = /[",\r\n]/;
+
+/**
+ * One CSV field
+ */
+export function toCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'string') return String(value);
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return NEEDS_QUOTES.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV line (without the line break)
+ */
+export function toCsvRow(values: CsvValue[]): string {
+  return values.map(toCsvField).join(',');
+}
+
+/**
+ * A CSV document with a header row and CRLF line breaks
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(toCsvRow).join('\r\n') + '\r\n';
+}
+
+/**
+ * A CSV document streamed in chunks of lines, for exports too large to build
+ * as one string; the header row comes first even without rows
+ */
+export async function* streamCsv(
+  headers: string[],
+  rows: AsyncIterable<CsvValue[]> | Iterable<CsvValue[]>,
+  chunkSize: number = 64 * 1024
+): AsyncGenerator<string> {
+  let chunk = toCsvRow(headers) + '\r\n';
+  for await (const row of rows) {
+    chunk += toCsvRow(row) + '\r\n';
+    if (chunk.length >= chunkSize) {
+      yield chunk;
+      chunk = '';
+    }
+  }
+  if (chunk) yield chunk;
+}
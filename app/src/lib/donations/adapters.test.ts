@@ -0,0 +1,114 @@
+/**
+ * Chain Adapter Tests
+ * Tests the file and memory adapters and the adapter registry
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileChainAdapter, MemoryChainAdapter, getChainAdapter, registerChainAdapter } from './adapters';
+import type { ChainTransaction } from './types';
+
+const donation: ChainTransaction = {
+  txHash: 'tx1',
+  address: 'bc1qseason',
+  amountSats: 25_000_000,
+  confirmations: 2,
+  blockHeight: 840000,
+};
+
+describe('MemoryChainAdapter', () => {
+  it('returns the transactions to an address', async () => {
+    const adapter = new MemoryChainAdapter([donation, { ...donation, txHash: 'tx2', address: 'bc1qother' }]);
+
+    expect(await adapter.getIncomingTransactions('bc1qseason')).toEqual([donation]);
+  });
+
+  it('replaces a transaction by txHash', async () => {
+    const adapter = new MemoryChainAdapter([donation]);
+    adapter.put({ ...donation, confirmations: 6 });
+
+    expect(await adapter.getIncomingTransactions('bc1qseason')).toEqual([{ ...donation, confirmations: 6 }]);
+  });
+});
+
+describe('FileChainAdapter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'chain-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads an array of transactions', async () => {
+    const file = join(dir, 'chain.json');
+    await writeFile(file, JSON.stringify([donation, { ...donation, txHash: 'tx2', address: 'bc1qother' }]));
+
+    expect(await new FileChainAdapter(file).getIncomingTransactions('bc1qseason')).toEqual([
+      { ...donation, blockTime: null },
+    ]);
+  });
+
+  it('reads a transactions object', async () => {
+    const file = join(dir, 'chain.json');
+    await writeFile(file, JSON.stringify({ transactions: [donation] }));
+
+    expect(await new FileChainAdapter(file).getIncomingTransactions('bc1qseason')).toEqual([
+      { ...donation, blockTime: null },
+    ]);
+  });
+
+  it('reads block times', async () => {
+    const file = join(dir, 'chain.json');
+    await writeFile(file, JSON.stringify([{ ...donation, blockTime: '2026-02-27T08:30:00Z' }]));
+
+    const [transaction] = await new FileChainAdapter(file).getIncomingTransactions('bc1qseason');
+
+    expect(transaction.blockTime).toEqual(new Date('2026-02-27T08:30:00Z'));
+  });
+
+  it('treats a missing file as no transactions', async () => {
+    expect(await new FileChainAdapter(join(dir, 'missing.json')).getIncomingTransactions('bc1qseason')).toEqual([]);
+  });
+
+  it('rejects files without a list of transactions', async () => {
+    const file = join(dir, 'chain.json');
+    for (const content of ['null', '42', '{"transactions": null}']) {
+      await writeFile(file, content);
+
+      await expect(new FileChainAdapter(file).getIncomingTransactions('bc1qseason')).rejects.toThrow(
+        'must contain an array of transactions'
+      );
+    }
+  });
+
+  it('rejects malformed transactions', async () => {
+    const file = join(dir, 'chain.json');
+    await writeFile(
+      file,
+      JSON.stringify([donation, { ...donation, amountSats: -1 }, { ...donation, blockTime: 'yesterday' }])
+    );
+
+    await expect(new FileChainAdapter(file).getIncomingTransactions('bc1qseason')).rejects.toThrow(
+      '2 malformed transactions'
+    );
+  });
+});
+
+describe('getChainAdapter', () => {
+  it('creates built-in and registered adapters', () => {
+    const custom = new MemoryChainAdapter();
+    registerChainAdapter('custom', () => custom);
+
+    expect(getChainAdapter('file')).toBeInstanceOf(FileChainAdapter);
+    expect(getChainAdapter('custom')).toBe(custom);
+  });
+
+  it('throws for unknown adapters', () => {
+    expect(() => getChainAdapter('nope')).toThrow('Unknown chain adapter: nope');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Chain Adapters - Where donation transactions come from
+ *
+ * Built in:
+ * - `file`: reads transactions from a JSON file (CHAIN_ADAPTER_FILE, default
+ *   `data/chain-transactions.json`) on every poll, so local setups can
+ *   simulate donations and confirmations by editing the file
+ * - `memory`: an in-process list, for tests and scripts
+ *
+ * CHAIN_ADAPTER selects the adapter (default `file`).
+ *
+ * ## Extension Points
+ * - **Real chains**: Implement `ChainAdapter` (e.g. against a block explorer
+ *   API) and call registerChainAdapter()
+ *
+ * @module lib/donations/adapters
+ */
+
+import { readFile } from 'fs/promises';
+import type { ChainAdapter, ChainTransaction } from './types';
+
+export const DEFAULT_CHAIN_ADAPTER = 'file';
+const DEFAULT_CHAIN_FILE = 'data/chain-transactions.json';
+
+/** A transaction as the file stores it: blockTime is an ISO string */
+type ChainTransactionRecord = Omit<ChainTransaction, 'blockTime'> & { blockTime?: string | null };
+
+/**
+ * Check one transaction record from an untrusted source
+ */
+function isChainTransactionRecord(value: unknown): value is ChainTransactionRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const tx = value as Record<string, unknown>;
+  return (
+    typeof tx.txHash === 'string' &&
+    tx.txHash.length > 0 &&
+    typeof tx.address === 'string' &&
+    Number.isInteger(tx.amountSats) &&
+    (tx.amountSats as number) > 0 &&
+    Number.isInteger(tx.confirmations) &&
+    (tx.confirmations as number) >= 0 &&
+    (tx.blockHeight === null || Number.isInteger(tx.blockHeight)) &&
+    (tx.blockTime === undefined ||
+      tx.blockTime === null ||
+      (typeof tx.blockTime === 'string' && !Number.isNaN(Date.parse(tx.blockTime))))
+  );
+}
+
+/**
+ * Transactions held in memory
+ */
+export class MemoryChainAdapter implements ChainAdapter {
+  readonly name: string = 'memory';
+
+  constructor(private transactions: ChainTransaction[] = []) {}
+
+  /** Add or replace (by txHash) a transaction */
+  put(transaction: ChainTransaction): void {
+    this.transactions = [
+      ...this.transactions.filter((tx) => tx.txHash !== transaction.txHash),
+      transaction,
+    ];
+  }
+
+  async getIncomingTransactions(address: string): Promise<ChainTransaction[]> {
+    return this.transactions.filter((tx) => tx.address === address);
+  }
+}
+
+/**
+ * Transactions read from a JSON file: an array of ChainTransaction (with
+ * blockTime as an ISO string), or `{ "transactions": [...] }`. A missing file
+ * means no transactions.
+ */
+export class FileChainAdapter implements ChainAdapter {
+  readonly name = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async getIncomingTransactions(address: string): Promise<ChainTransaction[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const parsed: unknown = JSON.parse(raw);
+    let records: unknown = parsed;
+    if (!Array.isArray(parsed) && typeof parsed === 'object' && parsed !== null) {
+      records = (parsed as { transactions?: unknown }).transactions;
+    }
+    if (!Array.isArray(records)) {
+      throw new Error(`${this.filePath} must contain an array of transactions`);
+    }
+
+    const invalid = records.filter((record) => !isChainTransactionRecord(record)).length;
+    if (invalid > 0) {
+      throw new Error(`${this.filePath} has ${invalid} malformed transactions`);
+    }
+
+    return (records as ChainTransactionRecord[])
+      .filter((tx) => tx.address === address)
+      .map((tx) => ({ ...tx, blockTime: tx.blockTime ? new Date(tx.blockTime) : null }));
+  }
+}
+
+const adapters = new Map<string, () => ChainAdapter>([
+  ['file', () => new FileChainAdapter(process.env.CHAIN_ADAPTER_FILE || DEFAULT_CHAIN_FILE)],
+  ['memory', () => new MemoryChainAdapter()],
+]);
+
+/**
+ * Register (or replace) an adapter factory
+ */
+export function registerChainAdapter(name: string, factory: () => ChainAdapter): void {
+  adapters.set(name, factory);
+}
+
+/**
+ * Create the configured adapter (CHAIN_ADAPTER, default `file`)
+ */
+export function getChainAdapter(name: string = process.env.CHAIN_ADAPTER || DEFAULT_CHAIN_ADAPTER): ChainAdapter {
+  const factory = adapters.get(name);
+  if (!factory) {
+    throw new Error(`Unknown chain adapter: ${name}`);
+  }
+  return factory();
+}
@@ -0,0 +1,176 @@
+/**
+ * Donation Service Tests
+ * Tests recording, confirming, valuing and the prize pool update
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { createEvent } from '@/lib/api-utils';
+import { MemoryChainAdapter } from './adapters';
+import { syncDonations, syncSeasonDonations } from './donation-service';
+
+const tx = {
+  donation: { updateMany: vi.fn() },
+  season: { update: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    season: { findMany: vi.fn() },
+    donation: { findMany: vi.fn(), createMany: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/api-utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api-utils')>()),
+  createEvent: vi.fn(),
+}));
+
+const season = { id: 's1', bitcoinAddress: 'bc1qseason' };
+const now = new Date('2026-03-01T12:00:00Z');
+const blockTime = new Date('2026-03-01T09:00:00Z');
+const usdPerBtcAt = vi.fn(async () => 50000);
+
+function chain(confirmations: number) {
+  return new MemoryChainAdapter([
+    { txHash: 'tx1', address: 'bc1qseason', amountSats: 10_000_000, confirmations, blockHeight: 840000, blockTime },
+  ]);
+}
+
+const pending = { id: 'd1', txHash: 'tx1', status: 'PENDING', confirmations: 2 };
+
+describe('syncSeasonDonations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation((fn: unknown) => (fn as (t: typeof tx) => unknown)(tx) as never);
+    vi.mocked(prisma.donation.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.donation.createMany).mockResolvedValue({ count: 1 });
+    tx.donation.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('records new transactions as pending donations', async () => {
+    const result = await syncSeasonDonations(season, { adapter: chain(1), minConfirmations: 3, now });
+
+    expect(prisma.donation.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ seasonId: 's1', txHash: 'tx1', amountBTC: 0.1, amountUSD: 0, confirmations: 1 }),
+      ],
+      skipDuplicates: true,
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(result).toEqual({ seasonId: 's1', detected: 1, confirmed: 0, amountBTC: 0, revalued: 0 });
+  });
+
+  it('confirms donations into the prize pool at their block time rate and posts an event', async () => {
+    vi.mocked(prisma.donation.findMany).mockResolvedValueOnce([pending] as never);
+
+    const result = await syncSeasonDonations(season, { adapter: chain(3), minConfirmations: 3, usdPerBtcAt, now });
+
+    expect(tx.donation.updateMany).toHaveBeenCalledWith({
+      where: { txHash: 'tx1', status: 'PENDING' },
+      data: expect.objectContaining({ status: 'CONFIRMED', amountUSD: 5000, blockTime, confirmedAt: now }),
+    });
+    expect(usdPerBtcAt).toHaveBeenCalledWith(blockTime);
+    expect(tx.season.update).toHaveBeenCalledWith({
+      where: { id: 's1' },
+      data: { prizePoolBTC: { increment: 0.1 }, prizePoolUSD: { increment: 5000 } },
+    });
+    expect(createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'DONATION_RECEIVED',
+        seasonId: 's1',
+        data: { amount: 0.1, currency: 'BTC', amountUSD: 5000, txHash: 'tx1' },
+      })
+    );
+    expect(result).toEqual({ seasonId: 's1', detected: 0, confirmed: 1, amountBTC: 0.1, revalued: 0 });
+  });
+
+  it('counts a donation another poll already confirmed once', async () => {
+    vi.mocked(prisma.donation.findMany).mockResolvedValueOnce([pending] as never);
+    tx.donation.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await syncSeasonDonations(season, { adapter: chain(3), minConfirmations: 3, usdPerBtcAt, now });
+
+    expect(tx.season.update).not.toHaveBeenCalled();
+    expect(createEvent).not.toHaveBeenCalled();
+    expect(result.confirmed).toBe(0);
+  });
+
+  it('ignores transactions of confirmed donations', async () => {
+    vi.mocked(prisma.donation.findMany).mockResolvedValueOnce([
+      { id: 'd1', txHash: 'tx1', status: 'CONFIRMED', confirmations: 3 },
+    ] as never);
+
+    await syncSeasonDonations(season, { adapter: chain(9), minConfirmations: 3, usdPerBtcAt, now });
+
+    expect(prisma.donation.createMany).not.toHaveBeenCalled();
+    expect(prisma.donation.updateMany).not.toHaveBeenCalled();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('values donations confirmed without a rate once one is known', async () => {
+    vi.mocked(prisma.donation.findMany)
+      .mockResolvedValueOnce([{ id: 'd1', txHash: 'tx1', status: 'CONFIRMED', confirmations: 3 }] as never)
+      .mockResolvedValueOnce([{ id: 'd1', amountBTC: 0.1, blockTime, confirmedAt: now }] as never);
+
+    const result = await syncSeasonDonations(season, { adapter: chain(9), minConfirmations: 3, usdPerBtcAt, now });
+
+    expect(prisma.donation.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { seasonId: 's1', status: 'CONFIRMED', amountUSD: 0 } })
+    );
+    expect(usdPerBtcAt).toHaveBeenCalledWith(blockTime);
+    expect(tx.donation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'd1', amountUSD: 0 },
+      data: { amountUSD: 5000 },
+    });
+    expect(tx.season.update).toHaveBeenCalledWith({ where: { id: 's1' }, data: { prizePoolUSD: { increment: 5000 } } });
+    expect(result.revalued).toBe(1);
+  });
+
+  it('leaves donations unvalued while there is still no rate', async () => {
+    vi.mocked(prisma.donation.findMany)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'd1', amountBTC: 0.1, blockTime: null, confirmedAt: now }] as never);
+
+    const result = await syncSeasonDonations(season, {
+      adapter: new MemoryChainAdapter(),
+      usdPerBtcAt: async () => 0,
+      now,
+    });
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(result.revalued).toBe(0);
+  });
+
+  it('skips seasons without an address', async () => {
+    const result = await syncSeasonDonations({ id: 's1', bitcoinAddress: null }, { adapter: chain(3) });
+
+    expect(prisma.donation.findMany).not.toHaveBeenCalled();
+    expect(result.detected).toBe(0);
+  });
+});
+
+describe('syncDonations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.donation.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.donation.createMany).mockResolvedValue({ count: 1 });
+  });
+
+  it('syncs every season still taking donations', async () => {
+    vi.mocked(prisma.season.findMany).mockResolvedValue([season, { id: 's2', bitcoinAddress: 'bc1qother' }] as never);
+
+    const results = await syncDonations({ adapter: chain(0), minConfirmations: 3, now });
+
+    expect(prisma.season.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: { in: ['UPCOMING', 'ACTIVE', 'LOCKED'] }, bitcoinAddress: { not: null } },
+      })
+    );
+    expect(results.map((r) => [r.seasonId, r.detected])).toEqual([
+      ['s1', 1],
+      ['s2', 0],
+    ]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Donation Service - Records donations to each season's Bitcoin address
+ *
+ * syncDonations polls the chain adapter for every season still taking
+ * donations (UPCOMING, ACTIVE or LOCKED with a bitcoinAddress) and applies
+ * the ingestion plan (./ingestion). Confirming a donation adds it to the
+ * season's prize pool and posts a DONATION_RECEIVED event; the pending →
+ * confirmed step is guarded so overlapping polls count a donation once.
+ *
+ * Donations are valued in USD at the time their block was mined (the
+ * confirmation time when the adapter doesn't know it). Without a BTC/USD rate
+ * for that time a donation is confirmed at 0 USD and valued on a later poll,
+ * once a rate is known, adding it to the pool's USD total then.
+ *
+ * ## Usage
+ * ```typescript
+ * import { syncDonations } from '@/lib/donations';
+ *
+ * // From the cron endpoint
+ * const results = await syncDonations();
+ * ```
+ *
+ * @module lib/donations/donation-service
+ */
+
+import type { Season } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { createEvent } from '@/lib/api-utils';
+import { getBtcUsdRate, valueInUsd } from '@/lib/prices';
+import { getChainAdapter } from './adapters';
+import { DEFAULT_MIN_CONFIRMATIONS, planDonationSync, satsToBtc } from './ingestion';
+import type { ChainAdapter, ChainTransaction } from './types';
+
+const log = domainLoggers.donations;
+
+/** Seasons whose address is still watched */
+const WATCHED_SEASON_STATUSES = ['UPCOMING', 'ACTIVE', 'LOCKED'];
+
+export interface DonationSyncOptions {
+  adapter?: ChainAdapter;
+  /** Default: DONATION_MIN_CONFIRMATIONS, else 3 */
+  minConfirmations?: number;
+  /** USD per BTC at a time, used to value donations */
+  usdPerBtcAt?: (at: Date) => Promise<number>;
+  now?: Date;
+}
+
+export interface DonationSyncResult {
+  seasonId: string;
+  detected: number;
+  confirmed: number;
+  amountBTC: number;
+  /** Confirmed donations valued on this poll after a rate became known */
+  revalued: number;
+}
+
+/**
+ * USD per BTC at a time from the price service; 0 (no USD value) when unknown
+ */
+async function storedBtcUsdRate(at: Date): Promise<number> {
+  return (await getBtcUsdRate(at))?.usd ?? 0;
+}
+
+function configuredMinConfirmations(): number {
+  const value = Number(process.env.DONATION_MIN_CONFIRMATIONS);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MIN_CONFIRMATIONS;
+}
+
+/**
+ * Confirm a pending donation and add it to the season's prize pool
+ *
+ * @returns false if the donation was already confirmed (e.g. by another poll)
+ */
+async function confirmDonation(
+  season: Pick<Season, 'id'>,
+  transaction: ChainTransaction,
+  usdPerBtc: number,
+  at: Date
+): Promise<boolean> {
+  const amountBTC = satsToBtc(transaction.amountSats);
+  const amountUSD = valueInUsd(amountBTC, usdPerBtc);
+
+  const confirmed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.donation.updateMany({
+      where: { txHash: transaction.txHash, status: 'PENDING' },
+      data: {
+        status: 'CONFIRMED',
+        confirmations: transaction.confirmations,
+        blockHeight: transaction.blockHeight,
+        blockTime: transaction.blockTime ?? null,
+        amountUSD,
+        confirmedAt: at,
+      },
+    });
+    if (count === 0) return false;
+
+    await tx.season.update({
+      where: { id: season.id },
+      data: { prizePoolBTC: { increment: amountBTC }, prizePoolUSD: { increment: amountUSD } },
+    });
+    return true;
+  });
+
+  if (confirmed) {
+    await createEvent({
+      type: 'DONATION_RECEIVED',
+      seasonId: season.id,
+      message: `${amountBTC} BTC donated to the prize pool`,
+      data: { amount: amountBTC, currency: 'BTC', amountUSD, txHash: transaction.txHash },
+    });
+  }
+  return confirmed;
+}
+
+/**
+ * Value the season's confirmed donations still at 0 USD, now that a rate may
+ * be known, and add them to the pool's USD total
+ *
+ * @returns How many donations were valued
+ */
+async function revalueDonations(
+  season: Pick<Season, 'id'>,
+  usdPerBtcAt: (at: Date) => Promise<number>
+): Promise<number> {
+  const unvalued = await prisma.donation.findMany({
+    where: { seasonId: season.id, status: 'CONFIRMED', amountUSD: 0 },
+    select: { id: true, amountBTC: true, blockTime: true, confirmedAt: true },
+  });
+
+  let revalued = 0;
+  for (const donation of unvalued) {
+    const valuedAt = donation.blockTime ?? donation.confirmedAt;
+    if (!valuedAt) continue;
+    const amountUSD = valueInUsd(donation.amountBTC, await usdPerBtcAt(valuedAt));
+    if (amountUSD === 0) continue;
+
+    // Guarded like confirming: overlapping polls add the value once
+    const applied = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.donation.updateMany({
+        where: { id: donation.id, amountUSD: 0 },
+        data: { amountUSD },
+      });
+      if (count === 0) return false;
+
+      await tx.season.update({ where: { id: season.id }, data: { prizePoolUSD: { increment: amountUSD } } });
+      return true;
+    });
+    if (applied) revalued++;
+  }
+  return revalued;
+}
+
+/**
+ * Record and confirm the donations to one season's address
+ */
+export async function syncSeasonDonations(
+  season: Pick<Season, 'id' | 'bitcoinAddress'>,
+  options: DonationSyncOptions = {}
+): Promise<DonationSyncResult> {
+  const result: DonationSyncResult = {
+    seasonId: season.id,
+    detected: 0,
+    confirmed: 0,
+    amountBTC: 0,
+    revalued: 0,
+  };
+  if (!season.bitcoinAddress) return result;
+
+  const adapter = options.adapter ?? getChainAdapter();
+  const minConfirmations = options.minConfirmations ?? configuredMinConfirmations();
+  const now = options.now ?? new Date();
+  const usdPerBtcAt = options.usdPerBtcAt ?? storedBtcUsdRate;
+
+  const transactions = await adapter.getIncomingTransactions(season.bitcoinAddress);
+  const recorded = await prisma.donation.findMany({
+    where: { txHash: { in: transactions.map((tx) => tx.txHash) } },
+    select: { id: true, txHash: true, status: true, confirmations: true },
+  });
+  const plan = planDonationSync(recorded, transactions, minConfirmations);
+
+  if (plan.create.length > 0) {
+    // skipDuplicates: another poll may record the same transaction meanwhile
+    const { count } = await prisma.donation.createMany({
+      data: plan.create.map((tx) => ({
+        seasonId: season.id,
+        txHash: tx.txHash,
+        address: tx.address,
+        amountBTC: satsToBtc(tx.amountSats),
+        amountUSD: 0,
+        confirmations: tx.confirmations,
+        blockHeight: tx.blockHeight,
+        blockTime: tx.blockTime ?? null,
+      })),
+      skipDuplicates: true,
+    });
+    result.detected = count;
+  }
+
+  for (const { id, transaction } of plan.update) {
+    await prisma.donation.updateMany({
+      where: { id, status: 'PENDING' },
+      data: {
+        confirmations: transaction.confirmations,
+        blockHeight: transaction.blockHeight,
+        blockTime: transaction.blockTime ?? null,
+      },
+    });
+  }
+
+  for (const transaction of plan.confirm) {
+    const valuedAt = transaction.blockTime ?? now;
+    const usdPerBtc = await usdPerBtcAt(valuedAt);
+    if (usdPerBtc === 0) {
+      log.warn('No BTC/USD rate; confirming the donation without a USD value for now', {
+        seasonId: season.id,
+        txHash: transaction.txHash,
+        valuedAt: valuedAt.toISOString(),
+      });
+    }
+
+    if (await confirmDonation(season, transaction, usdPerBtc, now)) {
+      result.confirmed++;
+      result.amountBTC += satsToBtc(transaction.amountSats);
+    }
+  }
+
+  result.revalued = await revalueDonations(season, usdPerBtcAt);
+
+  if (result.detected > 0 || result.confirmed > 0 || result.revalued > 0) {
+    log.info('Donations synced', { ...result, adapter: adapter.name });
+  }
+  return result;
+}
+
+/**
+ * Sync the donations of every season still taking them
+ */
+export async function syncDonations(options: DonationSyncOptions = {}): Promise<DonationSyncResult[]> {
+  const seasons = await prisma.season.findMany({
+    where: { status: { in: WATCHED_SEASON_STATUSES }, bitcoinAddress: { not: null } },
+    orderBy: { startDate: 'asc' },
+    select: { id: true, bitcoinAddress: true },
+  });
+
+  const adapter = options.adapter ?? getChainAdapter();
+  const results: DonationSyncResult[] = [];
+  for (const season of seasons) {
+    results.push(await syncSeasonDonations(season, { ...options, adapter }));
+  }
+  return results;
+}
+
+/**
+ * A season's latest confirmed donations
+ */
+export async function getRecentDonations(seasonId: string, limit = 10) {
+  return prisma.donation.findMany({
+    where: { seasonId, status: 'CONFIRMED' },
+    orderBy: { confirmedAt: 'desc' },
+    take: limit,
+  });
+}
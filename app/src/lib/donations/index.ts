@@ -0,0 +1,38 @@
+/**
+ * Donations Module
+ *
+ * Watches each season's Bitcoin address through a pluggable chain adapter,
+ * records incoming transactions as donations and adds them to the prize pool
+ * once confirmed.
+ *
+ * @example
+ * ```typescript
+ * import { syncDonations, MemoryChainAdapter } from '@/lib/donations';
+ *
+ * const results = await syncDonations({ adapter: new MemoryChainAdapter(transactions) });
+ * ```
+ *
+ * @module lib/donations
+ */
+
+export {
+  syncDonations,
+  syncSeasonDonations,
+  getRecentDonations,
+} from './donation-service';
+export type { DonationSyncOptions, DonationSyncResult } from './donation-service';
+export {
+  DEFAULT_CHAIN_ADAPTER,
+  MemoryChainAdapter,
+  FileChainAdapter,
+  registerChainAdapter,
+  getChainAdapter,
+} from './adapters';
+export {
+  DEFAULT_MIN_CONFIRMATIONS,
+  satsToBtc,
+  dedupeTransactions,
+  planDonationSync,
+} from './ingestion';
+export type { RecordedDonation, DonationSyncPlan } from './ingestion';
+export type { ChainAdapter, ChainTransaction } from './types';
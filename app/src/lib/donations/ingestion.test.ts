@@ -0,0 +1,94 @@
+/**
+ * Donation Ingestion Tests
+ * Tests txHash dedupe and the create/update/confirm plan
+ */
+
+import { describe, it, expect } from 'vitest';
+import { dedupeTransactions, planDonationSync, satsToBtc } from './ingestion';
+import type { ChainTransaction } from './types';
+
+function tx(overrides: Partial<ChainTransaction> = {}): ChainTransaction {
+  return {
+    txHash: 'tx1',
+    address: 'bc1qseason',
+    amountSats: 50_000_000,
+    confirmations: 0,
+    blockHeight: null,
+    ...overrides,
+  };
+}
+
+describe('satsToBtc', () => {
+  it('converts satoshis to BTC', () => {
+    expect(satsToBtc(100_000_000)).toBe(1);
+    expect(satsToBtc(1)).toBe(0.00000001);
+  });
+});
+
+describe('dedupeTransactions', () => {
+  it('keeps the most-confirmed report of each txHash', () => {
+    const result = dedupeTransactions([
+      tx({ confirmations: 1 }),
+      tx({ confirmations: 4, blockHeight: 100 }),
+      tx({ txHash: 'tx2' }),
+      tx({ confirmations: 2 }),
+    ]);
+
+    expect(result).toHaveLength(2);
+    expect(result.find((t) => t.txHash === 'tx1')).toMatchObject({ confirmations: 4, blockHeight: 100 });
+  });
+});
+
+describe('planDonationSync', () => {
+  it('creates unseen transactions as pending', () => {
+    const plan = planDonationSync([], [tx({ confirmations: 1 })], 3);
+
+    expect(plan.create.map((t) => t.txHash)).toEqual(['tx1']);
+    expect(plan.update).toEqual([]);
+    expect(plan.confirm).toEqual([]);
+  });
+
+  it('creates and confirms a transaction seen with enough confirmations', () => {
+    const plan = planDonationSync([], [tx({ confirmations: 6 })], 3);
+
+    expect(plan.create).toHaveLength(1);
+    expect(plan.confirm).toHaveLength(1);
+  });
+
+  it('updates pending donations whose confirmations moved', () => {
+    const recorded = [{ id: 'd1', txHash: 'tx1', status: 'PENDING', confirmations: 1 }];
+    const plan = planDonationSync(recorded, [tx({ confirmations: 2 })], 3);
+
+    expect(plan.create).toEqual([]);
+    expect(plan.update).toEqual([{ id: 'd1', transaction: tx({ confirmations: 2 }) }]);
+    expect(plan.confirm).toEqual([]);
+  });
+
+  it('leaves unchanged pending donations alone', () => {
+    const recorded = [{ id: 'd1', txHash: 'tx1', status: 'PENDING', confirmations: 1 }];
+    const plan = planDonationSync(recorded, [tx({ confirmations: 1 })], 3);
+
+    expect(plan).toEqual({ create: [], update: [], confirm: [] });
+  });
+
+  it('confirms pending donations at minConfirmations', () => {
+    const recorded = [{ id: 'd1', txHash: 'tx1', status: 'PENDING', confirmations: 2 }];
+    const plan = planDonationSync(recorded, [tx({ confirmations: 3 })], 3);
+
+    expect(plan.confirm.map((t) => t.txHash)).toEqual(['tx1']);
+  });
+
+  it('never touches confirmed donations', () => {
+    const recorded = [{ id: 'd1', txHash: 'tx1', status: 'CONFIRMED', confirmations: 3 }];
+    const plan = planDonationSync(recorded, [tx({ confirmations: 10 })], 3);
+
+    expect(plan).toEqual({ create: [], update: [], confirm: [] });
+  });
+
+  it('plans a duplicated transaction once', () => {
+    const plan = planDonationSync([], [tx({ confirmations: 3 }), tx({ confirmations: 3 })], 3);
+
+    expect(plan.create).toHaveLength(1);
+    expect(plan.confirm).toHaveLength(1);
+  });
+});
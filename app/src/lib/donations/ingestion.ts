@@ -0,0 +1,84 @@
+/**
+ * Donation Ingestion - Deciding what a chain poll changes
+ *
+ * - A transaction is recorded once (by txHash) as a PENDING donation
+ * - Its confirmation count is refreshed on every poll while pending
+ * - At minConfirmations it becomes CONFIRMED and counts toward the prize pool;
+ *   confirmed donations are never changed again, except to value one
+ *   confirmed without a BTC/USD rate (see the donation service)
+ *
+ * @module lib/donations/ingestion
+ */
+
+import type { ChainTransaction } from './types';
+
+/** Confirmations before a donation counts toward the prize pool */
+export const DEFAULT_MIN_CONFIRMATIONS = 3;
+
+const SATOSHIS_PER_BTC = 100_000_000;
+
+/** A recorded donation as the planner sees it */
+export interface RecordedDonation {
+  id: string;
+  txHash: string | null;
+  status: string;
+  confirmations: number;
+}
+
+export interface DonationSyncPlan {
+  /** Transactions not recorded yet */
+  create: ChainTransaction[];
+  /** Pending donations whose confirmation count moved */
+  update: Array<{ id: string; transaction: ChainTransaction }>;
+  /** Transactions (new or pending) that reached minConfirmations */
+  confirm: ChainTransaction[];
+}
+
+export function satsToBtc(sats: number): number {
+  return sats / SATOSHIS_PER_BTC;
+}
+
+/**
+ * One entry per txHash, keeping the most-confirmed report
+ */
+export function dedupeTransactions(transactions: ChainTransaction[]): ChainTransaction[] {
+  const byHash = new Map<string, ChainTransaction>();
+  for (const tx of transactions) {
+    const current = byHash.get(tx.txHash);
+    if (!current || tx.confirmations > current.confirmations) {
+      byHash.set(tx.txHash, tx);
+    }
+  }
+  return [...byHash.values()];
+}
+
+/**
+ * What a poll changes, given the donations already recorded
+ */
+export function planDonationSync(
+  recorded: RecordedDonation[],
+  transactions: ChainTransaction[],
+  minConfirmations: number = DEFAULT_MIN_CONFIRMATIONS
+): DonationSyncPlan {
+  const byHash = new Map(
+    recorded.flatMap((donation) => (donation.txHash ? [[donation.txHash, donation] as const] : []))
+  );
+  const plan: DonationSyncPlan = { create: [], update: [], confirm: [] };
+
+  for (const tx of dedupeTransactions(transactions)) {
+    const donation = byHash.get(tx.txHash);
+    if (donation?.status === 'CONFIRMED') continue;
+
+    if (!donation) {
+      plan.create.push(tx);
+    } else if (donation.confirmations !== tx.confirmations) {
+      plan.update.push({ id: donation.id, transaction: tx });
+    }
+
+    if (tx.confirmations >= minConfirmations) {
+      plan.confirm.push(tx);
+    }
+  }
+
+  return plan;
+}
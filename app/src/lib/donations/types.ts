@@ -0,0 +1,31 @@
+/**
+ * Donations - Chain adapter contract
+ *
+ * A chain adapter reports the transactions paying into a Bitcoin address.
+ * The donation service polls it for each season's bitcoinAddress and doesn't
+ * care where the data comes from (a block explorer API, a node, a file).
+ *
+ * @module lib/donations/types
+ */
+
+/** A transaction paying into a watched address */
+export interface ChainTransaction {
+  txHash: string;
+  /** Receiving address */
+  address: string;
+  /** Total paid to the address by this transaction, across its outputs */
+  amountSats: number;
+  /** 0 while in the mempool */
+  confirmations: number;
+  /** Null while unconfirmed */
+  blockHeight: number | null;
+  /** When its block was mined; null (or left out) while unconfirmed or unknown */
+  blockTime?: Date | null;
+}
+
+export interface ChainAdapter {
+  /** Adapter id, e.g. 'file' */
+  readonly name: string;
+  /** Incoming transactions to an address, confirmed or not */
+  getIncomingTransactions(address: string): Promise<ChainTransaction[]>;
+}
@@ -56,7 +56,7 @@ export function leagueInvite({
     </p>
 
     <div style="text-align: center;">
-      <a href="https://longevityworldcup.com/leagues/join?code=${inviteCode}" class="button">Accept Invitation</a>
+      <a href="https://longevityworldcup.com/invite/${inviteCode}" class="button">Accept Invitation</a>
     </div>
 
     <hr class="divider" />
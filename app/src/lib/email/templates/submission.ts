@@ -53,7 +53,7 @@ export function submissionConfirmation({
             <span style="color: #888;">Chronological Age</span>
           </td>
           <td style="padding: 12px 0; border-bottom: 1px solid #333; text-align: right; font-weight: bold; color: #fff;">
-            ${chronologicalAge} years
+            ${chronologicalAge.toFixed(1)} years
           </td>
         </tr>
         <tr>
@@ -0,0 +1,104 @@
+/**
+ * Entitlements Service Tests
+ * Tests enforcing features and member capacity against the stored plan
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { ApiHttpError } from '@/lib/api-utils';
+import {
+  getLeagueEntitlementsFor,
+  getSubscriptionStatus,
+  requireFeature,
+  requireMemberCapacity,
+} from './entitlements-service';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    leagueMember: { count: vi.fn() },
+    leagueInvite: { count: vi.fn() },
+    leagueSubscription: { findMany: vi.fn() },
+  },
+}));
+
+const now = new Date('2026-03-10T12:00:00Z');
+const league = { id: 'l1', name: 'Longevity Lab', tier: 'STARTER' as const };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(prisma.leagueMember.count).mockResolvedValue(45);
+  vi.mocked(prisma.leagueInvite.count).mockResolvedValue(3);
+  vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([{ status: 'ACTIVE' }] as never);
+});
+
+describe('getSubscriptionStatus', () => {
+  it('prefers an active subscription over a past-due one', async () => {
+    vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([
+      { status: 'PAST_DUE' },
+      { status: 'ACTIVE' },
+    ] as never);
+    expect(await getSubscriptionStatus(prisma, 'l1')).toBe('ACTIVE');
+
+    vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([{ status: 'PAST_DUE' }] as never);
+    expect(await getSubscriptionStatus(prisma, 'l1')).toBe('PAST_DUE');
+
+    vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([]);
+    expect(await getSubscriptionStatus(prisma, 'l1')).toBeNull();
+  });
+});
+
+describe('requireFeature', () => {
+  it('throws a 402 with the upgrade hint for features outside the tier', () => {
+    const error = (() => {
+      try {
+        requireFeature(league, 'ADVANCED_ANALYTICS');
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ApiHttpError);
+    expect(error).toMatchObject({
+      statusCode: 402,
+      details: {
+        code: 'FEATURE_UNAVAILABLE',
+        upgrade: { currentTier: 'STARTER', requiredTier: 'PRO', action: 'UPGRADE' },
+      },
+    });
+    expect(() => requireFeature(league, 'CSV_EXPORT')).not.toThrow();
+  });
+});
+
+describe('requireMemberCapacity', () => {
+  it('counts members only unless asked to count open invites', async () => {
+    await requireMemberCapacity(prisma, league, 5, { now });
+    expect(prisma.leagueInvite.count).not.toHaveBeenCalled();
+
+    await expect(
+      requireMemberCapacity(prisma, league, 5, { countPendingInvites: true, now })
+    ).rejects.toMatchObject({ statusCode: 402, details: { code: 'LEAGUE_FULL' } });
+    expect(prisma.leagueInvite.count).toHaveBeenCalledWith({
+      where: { leagueId: 'l1', acceptedAt: null, declinedAt: null, expiresAt: { gt: now } },
+    });
+  });
+
+  it('holds growth while the payment is past due', async () => {
+    vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([{ status: 'PAST_DUE' }] as never);
+
+    await expect(requireMemberCapacity(prisma, league, 1, { now })).rejects.toMatchObject({
+      statusCode: 402,
+      details: { code: 'PAYMENT_PAST_DUE', upgrade: { action: 'SETTLE_PAYMENT' } },
+    });
+  });
+});
+
+describe('getLeagueEntitlementsFor', () => {
+  it('loads the member count and subscription status', async () => {
+    expect(await getLeagueEntitlementsFor(league)).toMatchObject({
+      tier: 'STARTER',
+      memberCount: 45,
+      remainingSeats: 5,
+      paymentPastDue: false,
+    });
+  });
+});
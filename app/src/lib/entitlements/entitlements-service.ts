@@ -0,0 +1,115 @@
+/**
+ * Entitlements Service - Enforcing the league plan in routes
+ *
+ * - requireFeature: a tier-gated feature (CSV exports, custom branding,
+ *   advanced analytics)
+ * - requireMemberCapacity: room for new members or invites
+ * - getLeagueEntitlementsFor: everything the plan allows, for the manage page
+ *
+ * Blocked actions throw an ApiHttpError (402 or 403) whose details carry the
+ * problem code and an upgrade hint, so every route reports them the same way.
+ *
+ * ## Usage
+ * ```typescript
+ * import { requireFeature, requireMemberCapacity } from '@/lib/entitlements';
+ *
+ * requireFeature(league, 'CSV_EXPORT');
+ * await requireMemberCapacity(prisma, league, emails.length, { countPendingInvites: true });
+ * ```
+ *
+ * @module lib/entitlements/entitlements-service
+ */
+
+import type { League, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { ApiHttpError } from '@/lib/api-utils';
+import type { LeagueEntitlements, LeagueFeature, SubscriptionStatus } from '@/types';
+import {
+  LIVE_SUBSCRIPTION_STATUSES,
+  getCapacityProblem,
+  getFeatureProblem,
+  getLeagueEntitlements,
+  type EntitlementProblem,
+} from './entitlements';
+
+type PlannedLeague = Pick<League, 'id' | 'name' | 'tier'>;
+
+/**
+ * API error for a blocked action; details.code and details.upgrade tell
+ * clients what happened and how to unlock it
+ */
+export function toEntitlementError(problem: EntitlementProblem): ApiHttpError {
+  return new ApiHttpError(problem.status, problem.message, { code: problem.code, upgrade: problem.upgrade });
+}
+
+/**
+ * Status of the league's live subscription, or null without one; an ACTIVE
+ * subscription wins over a PAST_DUE one
+ */
+export async function getSubscriptionStatus(
+  db: Prisma.TransactionClient,
+  leagueId: string
+): Promise<SubscriptionStatus | null> {
+  const subscriptions = await db.leagueSubscription.findMany({
+    where: { leagueId, status: { in: LIVE_SUBSCRIPTION_STATUSES } },
+    select: { status: true },
+  });
+  if (subscriptions.length === 0) return null;
+  return subscriptions.some((subscription) => subscription.status === 'ACTIVE') ? 'ACTIVE' : 'PAST_DUE';
+}
+
+/**
+ * Check that the league's tier includes a feature
+ *
+ * @throws ApiHttpError (402 or 403, details.code FEATURE_UNAVAILABLE) otherwise
+ */
+export function requireFeature(league: Pick<League, 'name' | 'tier'>, feature: LeagueFeature): void {
+  const problem = getFeatureProblem(league, feature);
+  if (problem) {
+    throw toEntitlementError(problem);
+  }
+}
+
+/**
+ * Check that the league has room for `adding` more members
+ *
+ * @param options.countPendingInvites - Count open invites as taken seats
+ *   (when sending invites, each of which may become a member)
+ * @throws ApiHttpError (402 or 403, details.code LEAGUE_FULL or PAYMENT_PAST_DUE) otherwise
+ */
+export async function requireMemberCapacity(
+  db: Prisma.TransactionClient,
+  league: PlannedLeague,
+  adding: number,
+  options: { countPendingInvites?: boolean; now?: Date } = {}
+): Promise<void> {
+  const now = options.now ?? new Date();
+  const [memberCount, pendingInvites, subscriptionStatus] = await Promise.all([
+    db.leagueMember.count({ where: { leagueId: league.id } }),
+    options.countPendingInvites
+      ? db.leagueInvite.count({
+          where: { leagueId: league.id, acceptedAt: null, declinedAt: null, expiresAt: { gt: now } },
+        })
+      : 0,
+    getSubscriptionStatus(db, league.id),
+  ]);
+
+  const problem = getCapacityProblem({ ...league, subscriptionStatus, memberCount }, adding, pendingInvites);
+  if (problem) {
+    throw toEntitlementError(problem);
+  }
+}
+
+/**
+ * Everything the league's plan allows right now
+ */
+export async function getLeagueEntitlementsFor(
+  league: PlannedLeague,
+  db: Prisma.TransactionClient = prisma
+): Promise<LeagueEntitlements> {
+  const [memberCount, subscriptionStatus] = await Promise.all([
+    db.leagueMember.count({ where: { leagueId: league.id } }),
+    getSubscriptionStatus(db, league.id),
+  ]);
+  return getLeagueEntitlements({ ...league, subscriptionStatus, memberCount });
+}
@@ -0,0 +1,157 @@
+/**
+ * Entitlement Tests
+ * Tests the tier catalogue, feature gates, member capacity and upgrade hints
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getCapacityProblem,
+  getFeatureProblem,
+  getLeagueEntitlements,
+  getLeagueMemberLimit,
+  getOverLimitBy,
+  hasFeature,
+  isBillableTier,
+  isTierUpgrade,
+} from './entitlements';
+
+const plan = { name: 'Longevity Lab', tier: 'FREE', subscriptionStatus: null, memberCount: 4 };
+
+describe('tiers', () => {
+  it('sells STARTER and PRO only', () => {
+    expect(isBillableTier('STARTER')).toBe(true);
+    expect(isBillableTier('PRO')).toBe(true);
+    expect(isBillableTier('ENTERPRISE')).toBe(false);
+    expect(isBillableTier('FREE')).toBe(false);
+    expect(isBillableTier(undefined)).toBe(false);
+  });
+
+  it('only counts higher tiers as upgrades', () => {
+    expect(isTierUpgrade('FREE', 'STARTER')).toBe(true);
+    expect(isTierUpgrade('STARTER', 'PRO')).toBe(true);
+    expect(isTierUpgrade('PRO', 'PRO')).toBe(false);
+    expect(isTierUpgrade('PRO', 'STARTER')).toBe(false);
+  });
+
+  it('uses the tier member limits and falls back to FREE', () => {
+    expect(getLeagueMemberLimit('PRO')).toBe(250);
+    expect(getLeagueMemberLimit('ENTERPRISE')).toBe(Infinity);
+    expect(getLeagueMemberLimit('UNKNOWN')).toBe(10);
+  });
+
+  it('counts members beyond the tier limit', () => {
+    expect(getOverLimitBy('FREE', 8)).toBe(0);
+    expect(getOverLimitBy('FREE', 14)).toBe(4);
+    expect(getOverLimitBy('ENTERPRISE', 5000)).toBe(0);
+  });
+});
+
+describe('hasFeature', () => {
+  it('includes every feature of the lower tiers', () => {
+    expect(hasFeature('FREE', 'CSV_EXPORT')).toBe(false);
+    expect(hasFeature('STARTER', 'CSV_EXPORT')).toBe(true);
+    expect(hasFeature('STARTER', 'ADVANCED_ANALYTICS')).toBe(false);
+    expect(hasFeature('PRO', 'CUSTOM_BRANDING')).toBe(true);
+    expect(hasFeature('ENTERPRISE', 'ADVANCED_ANALYTICS')).toBe(true);
+  });
+});
+
+describe('getFeatureProblem', () => {
+  it('allows features the tier includes', () => {
+    expect(getFeatureProblem({ ...plan, tier: 'PRO' }, 'ADVANCED_ANALYTICS')).toBeNull();
+  });
+
+  it('asks for payment with a hint of the tier that unlocks it', () => {
+    const problem = getFeatureProblem({ ...plan, tier: 'STARTER' }, 'ADVANCED_ANALYTICS');
+
+    expect(problem).toMatchObject({
+      code: 'FEATURE_UNAVAILABLE',
+      status: 402,
+      upgrade: { currentTier: 'STARTER', requiredTier: 'PRO', action: 'UPGRADE' },
+    });
+    expect(problem?.message).toBe(
+      'Advanced analytics is not included in the STARTER tier. The league owner can upgrade to PRO to use it.'
+    );
+  });
+
+  it('keeps features while a payment is past due', () => {
+    expect(getFeatureProblem({ ...plan, tier: 'STARTER', subscriptionStatus: 'PAST_DUE' }, 'CSV_EXPORT')).toBeNull();
+  });
+});
+
+describe('getCapacityProblem', () => {
+  it('allows members up to the limit', () => {
+    expect(getCapacityProblem({ ...plan, memberCount: 9 }, 1)).toBeNull();
+    expect(getCapacityProblem({ ...plan, memberCount: 5 }, 3, 2)).toBeNull();
+  });
+
+  it('hints the lowest tier with room for everyone', () => {
+    const problem = getCapacityProblem({ ...plan, memberCount: 40 }, 20);
+
+    expect(problem).toMatchObject({
+      code: 'LEAGUE_FULL',
+      status: 402,
+      upgrade: { currentTier: 'FREE', requiredTier: 'PRO', action: 'UPGRADE' },
+    });
+  });
+
+  it('counts pending invites as taken seats', () => {
+    const problem = getCapacityProblem({ ...plan, memberCount: 5 }, 2, 4);
+
+    expect(problem?.message).toBe(
+      "Longevity Lab can't add 2 more: its member limit is 10 (5 members, 4 pending invites). The league owner can upgrade to STARTER to add more members."
+    );
+  });
+
+  it('refuses with 403 when only ENTERPRISE has room', () => {
+    const problem = getCapacityProblem({ ...plan, tier: 'PRO', memberCount: 250 }, 1);
+
+    expect(problem).toMatchObject({
+      status: 403,
+      upgrade: { currentTier: 'PRO', requiredTier: 'ENTERPRISE', action: 'CONTACT_US' },
+    });
+    expect(problem?.message).toContain('Contact us about ENTERPRISE');
+  });
+
+  it('holds growth beyond the FREE limit while a payment is past due', () => {
+    const pastDue = { ...plan, tier: 'PRO', subscriptionStatus: 'PAST_DUE' as const };
+
+    expect(getCapacityProblem({ ...pastDue, memberCount: 8 }, 2)).toBeNull();
+    expect(getCapacityProblem({ ...pastDue, memberCount: 8 }, 3)).toMatchObject({
+      code: 'PAYMENT_PAST_DUE',
+      status: 402,
+      upgrade: { currentTier: 'PRO', requiredTier: 'PRO', action: 'SETTLE_PAYMENT' },
+    });
+  });
+});
+
+describe('getLeagueEntitlements', () => {
+  it('lists the features and seats of the plan', () => {
+    expect(getLeagueEntitlements({ ...plan, tier: 'STARTER', memberCount: 12 })).toEqual({
+      tier: 'STARTER',
+      features: { CSV_EXPORT: true, CUSTOM_BRANDING: true, ADVANCED_ANALYTICS: false },
+      memberCount: 12,
+      memberLimit: 50,
+      overLimitBy: 0,
+      remainingSeats: 38,
+      paymentPastDue: false,
+    });
+  });
+
+  it('shows the overflow of a downgraded league and no seats', () => {
+    const entitlements = getLeagueEntitlements({ ...plan, memberCount: 30 });
+
+    expect(entitlements.overLimitBy).toBe(20);
+    expect(entitlements.remainingSeats).toBe(0);
+  });
+
+  it('has no limit on ENTERPRISE and only FREE seats while past due', () => {
+    expect(getLeagueEntitlements({ ...plan, tier: 'ENTERPRISE', memberCount: 900 })).toMatchObject({
+      memberLimit: null,
+      remainingSeats: null,
+    });
+    expect(
+      getLeagueEntitlements({ ...plan, tier: 'PRO', subscriptionStatus: 'PAST_DUE', memberCount: 6 })
+    ).toMatchObject({ memberLimit: 250, remainingSeats: 4, paymentPastDue: true });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * League Entitlements - What each tier includes
+ *
+ * The plan catalogue every tier check goes through:
+ * - Features: CSV exports and custom branding from STARTER, advanced
+ *   analytics from PRO (see getLeagueTierInfo)
+ * - Member limits: LEAGUE_TIER_LIMITS; a league over its limit after a
+ *   downgrade keeps everyone but can't add members
+ * - Past-due payments: the league keeps its tier and features while the
+ *   provider retries, but can't grow beyond the FREE limit until it is settled
+ *
+ * A blocked action comes back as an EntitlementProblem with an upgrade hint:
+ * 402 when paying unlocks it (upgrading, or settling the past-due payment),
+ * 403 when no tier sold through checkout does (ENTERPRISE is arranged with us).
+ *
+ * @module lib/entitlements/entitlements
+ */
+
+import {
+  LEAGUE_TIER_LIMITS,
+  type LeagueEntitlements,
+  type LeagueFeature,
+  type LeagueTier,
+  type LeagueUpgradeHint,
+  type SubscriptionStatus,
+} from '@/types';
+
+/** Tiers from lowest to highest */
+export const TIER_ORDER: LeagueTier[] = ['FREE', 'STARTER', 'PRO', 'ENTERPRISE'];
+
+/** Tiers sold through checkout */
+export const BILLABLE_TIERS = ['STARTER', 'PRO'] as const;
+
+export type BillableTier = (typeof BILLABLE_TIERS)[number];
+
+/** Subscriptions that still pay for the league */
+export const LIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['ACTIVE', 'PAST_DUE'];
+
+export const LEAGUE_FEATURES: LeagueFeature[] = ['CSV_EXPORT', 'CUSTOM_BRANDING', 'ADVANCED_ANALYTICS'];
+
+/** Lowest tier that includes each feature */
+export const FEATURE_TIERS: Record<LeagueFeature, LeagueTier> = {
+  CSV_EXPORT: 'STARTER',
+  CUSTOM_BRANDING: 'STARTER',
+  ADVANCED_ANALYTICS: 'PRO',
+};
+
+export const FEATURE_NAMES: Record<LeagueFeature, string> = {
+  CSV_EXPORT: 'CSV exports',
+  CUSTOM_BRANDING: 'Custom branding',
+  ADVANCED_ANALYTICS: 'Advanced analytics',
+};
+
+export type EntitlementProblemCode = 'FEATURE_UNAVAILABLE' | 'LEAGUE_FULL' | 'PAYMENT_PAST_DUE';
+
+export interface EntitlementProblem<Code extends EntitlementProblemCode = EntitlementProblemCode> {
+  code: Code;
+  message: string;
+  /** 402 when paying unlocks the action, 403 when it takes ENTERPRISE */
+  status: 402 | 403;
+  upgrade: LeagueUpgradeHint;
+}
+
+/** A league's plan, as the checks see it */
+export interface LeaguePlan {
+  name: string;
+  tier: string;
+  /** Status of the league's live subscription; null or absent without one */
+  subscriptionStatus?: SubscriptionStatus | null;
+}
+
+/**
+ * Check whether a value is a tier sold through checkout
+ */
+export function isBillableTier(value: unknown): value is BillableTier {
+  return typeof value === 'string' && (BILLABLE_TIERS as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `target` is a higher tier than `current`
+ */
+export function isTierUpgrade(current: LeagueTier, target: LeagueTier): boolean {
+  return TIER_ORDER.indexOf(target) > TIER_ORDER.indexOf(current);
+}
+
+function toTier(tier: string): LeagueTier {
+  return TIER_ORDER.includes(tier as LeagueTier) ? (tier as LeagueTier) : 'FREE';
+}
+
+/**
+ * Member limit of a league tier; unknown tiers get the FREE limit
+ */
+export function getLeagueMemberLimit(tier: string): number {
+  return LEAGUE_TIER_LIMITS[toTier(tier)];
+}
+
+/**
+ * Members beyond a tier's limit
+ */
+export function getOverLimitBy(tier: string, memberCount: number): number {
+  return Math.max(0, memberCount - getLeagueMemberLimit(tier));
+}
+
+/**
+ * Whether a tier includes a feature
+ */
+export function hasFeature(tier: string, feature: LeagueFeature): boolean {
+  return !isTierUpgrade(toTier(tier), FEATURE_TIERS[feature]);
+}
+
+function isPastDue(plan: LeaguePlan): boolean {
+  return plan.subscriptionStatus === 'PAST_DUE' && toTier(plan.tier) !== 'FREE';
+}
+
+/**
+ * Most members the league can have right now
+ */
+function getEffectiveMemberLimit(plan: LeaguePlan): number {
+  return isPastDue(plan) ? LEAGUE_TIER_LIMITS.FREE : getLeagueMemberLimit(plan.tier);
+}
+
+function toProblem<Code extends EntitlementProblemCode>(
+  code: Code,
+  message: string,
+  upgrade: LeagueUpgradeHint
+): EntitlementProblem<Code> {
+  return { code, message, status: upgrade.action === 'CONTACT_US' ? 403 : 402, upgrade };
+}
+
+function getUpgradeHint(currentTier: LeagueTier, requiredTier: LeagueTier): LeagueUpgradeHint {
+  return { currentTier, requiredTier, action: isBillableTier(requiredTier) ? 'UPGRADE' : 'CONTACT_US' };
+}
+
+function describeUpgrade(hint: LeagueUpgradeHint, goal: string): string {
+  return hint.action === 'UPGRADE'
+    ? `The league owner can upgrade to ${hint.requiredTier} ${goal}.`
+    : `Contact us about ${hint.requiredTier} ${goal}.`;
+}
+
+/**
+ * Why the league can't use a feature, or null if it can
+ */
+export function getFeatureProblem(
+  plan: LeaguePlan,
+  feature: LeagueFeature
+): EntitlementProblem<'FEATURE_UNAVAILABLE'> | null {
+  if (hasFeature(plan.tier, feature)) return null;
+
+  const tier = toTier(plan.tier);
+  const upgrade = getUpgradeHint(tier, FEATURE_TIERS[feature]);
+  return toProblem(
+    'FEATURE_UNAVAILABLE',
+    `${FEATURE_NAMES[feature]} ${feature === 'CSV_EXPORT' ? 'are' : 'is'} not included in the ${tier} tier. ${describeUpgrade(upgrade, 'to use it')}`,
+    upgrade
+  );
+}
+
+/**
+ * Why the league can't take `adding` more members, or null if it can
+ *
+ * @param pendingInvites - Open invites, which hold a seat until they expire
+ */
+export function getCapacityProblem(
+  plan: LeaguePlan & { memberCount: number },
+  adding: number,
+  pendingInvites: number = 0
+): EntitlementProblem<'LEAGUE_FULL' | 'PAYMENT_PAST_DUE'> | null {
+  const tier = toTier(plan.tier);
+  const memberLimit = getLeagueMemberLimit(tier);
+  const total = plan.memberCount + pendingInvites + adding;
+
+  if (isPastDue(plan) && total > LEAGUE_TIER_LIMITS.FREE) {
+    return toProblem(
+      'PAYMENT_PAST_DUE',
+      `${plan.name}'s subscription payment is past due. Members beyond the FREE limit (${LEAGUE_TIER_LIMITS.FREE}) can be added once it is settled.`,
+      { currentTier: tier, requiredTier: tier, action: 'SETTLE_PAYMENT' }
+    );
+  }
+  if (total <= memberLimit) return null;
+
+  const requiredTier = TIER_ORDER.find((candidate) => LEAGUE_TIER_LIMITS[candidate] >= total) ?? 'ENTERPRISE';
+  const upgrade = getUpgradeHint(tier, requiredTier);
+  const situation =
+    adding === 1 && pendingInvites === 0
+      ? `${plan.name} has reached its member limit (${memberLimit}).`
+      : `${plan.name} can't add ${adding} more: its member limit is ${memberLimit} (${plan.memberCount} members, ${pendingInvites} pending invites).`;
+
+  return toProblem('LEAGUE_FULL', `${situation} ${describeUpgrade(upgrade, 'to add more members')}`, upgrade);
+}
+
+/**
+ * Everything the league's plan allows, for the manage page
+ */
+export function getLeagueEntitlements(plan: LeaguePlan & { memberCount: number }): LeagueEntitlements {
+  const tier = toTier(plan.tier);
+  const memberLimit = getLeagueMemberLimit(tier);
+  const effectiveLimit = getEffectiveMemberLimit(plan);
+
+  return {
+    tier,
+    features: Object.fromEntries(LEAGUE_FEATURES.map((feature) => [feature, hasFeature(tier, feature)])) as Record<
+      LeagueFeature,
+      boolean
+    >,
+    memberCount: plan.memberCount,
+    memberLimit: Number.isFinite(memberLimit) ? memberLimit : null,
+    overLimitBy: getOverLimitBy(tier, plan.memberCount),
+    remainingSeats: Number.isFinite(effectiveLimit) ? Math.max(0, effectiveLimit - plan.memberCount) : null,
+    paymentPastDue: isPastDue(plan),
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Entitlements Module
+ *
+ * What a league's tier and subscription allow: tier-gated features, member
+ * limits and the grace rules of past-due payments. Routes enforce the plan
+ * here, and blocked actions return a 402/403 with an upgrade hint.
+ *
+ * @example
+ * ```typescript
+ * import { requireFeature } from '@/lib/entitlements';
+ *
+ * requireFeature(league, 'ADVANCED_ANALYTICS');
+ * ```
+ *
+ * @module lib/entitlements
+ */
+
+export {
+  BILLABLE_TIERS,
+  FEATURE_NAMES,
+  FEATURE_TIERS,
+  LEAGUE_FEATURES,
+  LIVE_SUBSCRIPTION_STATUSES,
+  TIER_ORDER,
+  getCapacityProblem,
+  getFeatureProblem,
+  getLeagueEntitlements,
+  getLeagueMemberLimit,
+  getOverLimitBy,
+  hasFeature,
+  isBillableTier,
+  isTierUpgrade,
+} from './entitlements';
+export type { BillableTier, EntitlementProblem, EntitlementProblemCode, LeaguePlan } from './entitlements';
+export {
+  getLeagueEntitlementsFor,
+  getSubscriptionStatus,
+  requireFeature,
+  requireMemberCapacity,
+  toEntitlementError,
+} from './entitlements-service';
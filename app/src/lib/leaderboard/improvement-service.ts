@@ -0,0 +1,45 @@
+/**
+ * Improvement Service - Loads a season's "most improved" standings
+ *
+ * Standings are computed on read from the season's approved submissions
+ * (see ./improvement for the sample rules), so approvals, rejections and
+ * deletions show up without a separate rebuild.
+ *
+ * @module lib/leaderboard/improvement-service
+ */
+
+import { prisma } from '@/lib/db';
+import {
+  buildImprovementStandings,
+  rankImprovementStandings,
+  type RankedImprovementStanding,
+} from './improvement';
+
+/**
+ * A season's ranked improvement standings, most improved first
+ */
+export async function getSeasonImprovementStandings(seasonId: string): Promise<RankedImprovementStanding[]> {
+  const submissions = await prisma.biomarkerSubmission.findMany({
+    where: { seasonId, status: 'APPROVED' },
+    select: {
+      athleteId: true,
+      leagueId: true,
+      phenoAge: true,
+      ageReduction: true,
+      algorithmId: true,
+      submittedAt: true,
+      collectedAt: true,
+      athlete: { select: { division: true, generation: true } },
+    },
+  });
+
+  return rankImprovementStandings(
+    buildImprovementStandings(
+      submissions.map(({ athlete, ...submission }) => ({
+        ...submission,
+        division: athlete.division,
+        generation: athlete.generation,
+      }))
+    )
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * Improvement Ranking Tests
+ * Tests the sample rules, improvement measure and tie-breaking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildImprovementStandings,
+  findImprovement,
+  rankImprovementStandings,
+  type ImprovementSample,
+} from './improvement';
+
+function sample(overrides: Partial<ImprovementSample> & { athleteId: string }): ImprovementSample {
+  return {
+    leagueId: 'league-1',
+    division: 'MENS',
+    generation: 'GENX',
+    phenoAge: 40,
+    ageReduction: 5,
+    algorithmId: 'levine-phenoage',
+    submittedAt: new Date('2025-01-15T00:00:00Z'),
+    collectedAt: null,
+    ...overrides,
+  };
+}
+
+describe('Improvement Ranking', () => {
+  describe('findImprovement', () => {
+    it('should measure the drop from the first sample to the lowest later one', () => {
+      const standing = findImprovement([
+        sample({ athleteId: 'a', phenoAge: 38, ageReduction: 7, submittedAt: new Date('2025-06-01T00:00:00Z') }),
+        sample({ athleteId: 'a', phenoAge: 45, ageReduction: 0, submittedAt: new Date('2025-01-01T00:00:00Z') }),
+        sample({ athleteId: 'a', phenoAge: 40, ageReduction: 5, submittedAt: new Date('2025-09-01T00:00:00Z') }),
+      ]);
+
+      expect(standing?.baselinePhenoAge).toBe(45);
+      expect(standing?.bestPhenoAge).toBe(38);
+      expect(standing?.improvement).toBe(7);
+      expect(standing?.ageReductionChange).toBe(7);
+      expect(standing?.sampleCount).toBe(3);
+    });
+
+    it('should require a single sample to be followed by another', () => {
+      expect(findImprovement([sample({ athleteId: 'a' })])).toBeNull();
+    });
+
+    it('should ignore samples drawn within the minimum gap of the baseline', () => {
+      const standing = findImprovement([
+        sample({ athleteId: 'a', phenoAge: 45, submittedAt: new Date('2025-01-01T00:00:00Z') }),
+        sample({ athleteId: 'a', phenoAge: 35, submittedAt: new Date('2025-02-01T00:00:00Z') }),
+        sample({ athleteId: 'a', phenoAge: 43, submittedAt: new Date('2025-05-01T00:00:00Z') }),
+      ]);
+
+      expect(standing?.bestPhenoAge).toBe(43);
+      expect(standing?.improvement).toBe(2);
+    });
+
+    it('should date samples by blood draw rather than submission', () => {
+      const standing = findImprovement([
+        sample({
+          athleteId: 'a',
+          phenoAge: 45,
+          collectedAt: new Date('2025-01-01T00:00:00Z'),
+          submittedAt: new Date('2025-05-01T00:00:00Z'),
+        }),
+        sample({
+          athleteId: 'a',
+          phenoAge: 40,
+          collectedAt: new Date('2025-02-01T00:00:00Z'),
+          submittedAt: new Date('2025-06-01T00:00:00Z'),
+        }),
+      ]);
+
+      expect(standing).toBeNull();
+    });
+
+    it('should only compare samples scored with the baseline algorithm', () => {
+      const standing = findImprovement([
+        sample({ athleteId: 'a', phenoAge: 45, submittedAt: new Date('2025-01-01T00:00:00Z') }),
+        sample({
+          athleteId: 'a',
+          phenoAge: 30,
+          algorithmId: 'other-clock',
+          submittedAt: new Date('2025-06-01T00:00:00Z'),
+        }),
+      ]);
+
+      expect(standing).toBeNull();
+    });
+
+    it('should not rank athletes who got older', () => {
+      const standing = findImprovement([
+        sample({ athleteId: 'a', phenoAge: 40, submittedAt: new Date('2025-01-01T00:00:00Z') }),
+        sample({ athleteId: 'a', phenoAge: 41, submittedAt: new Date('2025-06-01T00:00:00Z') }),
+      ]);
+
+      expect(standing).toBeNull();
+    });
+
+    it('should credit the league of the best sample', () => {
+      const standing = findImprovement([
+        sample({ athleteId: 'a', phenoAge: 45, submittedAt: new Date('2025-01-01T00:00:00Z') }),
+        sample({
+          athleteId: 'a',
+          phenoAge: 40,
+          leagueId: 'league-2',
+          submittedAt: new Date('2025-06-01T00:00:00Z'),
+        }),
+      ]);
+
+      expect(standing?.leagueId).toBe('league-2');
+    });
+  });
+
+  describe('rankImprovementStandings', () => {
+    const early = new Date('2025-01-01T00:00:00Z');
+
+    it('should rank the largest PhenoAge drop first with group ranks', () => {
+      const ranked = rankImprovementStandings(
+        buildImprovementStandings([
+          sample({ athleteId: 'a', phenoAge: 45, submittedAt: early }),
+          sample({ athleteId: 'a', phenoAge: 43, submittedAt: new Date('2025-06-01T00:00:00Z') }),
+          sample({ athleteId: 'b', phenoAge: 50, division: 'WOMENS', submittedAt: early }),
+          sample({ athleteId: 'b', phenoAge: 44, division: 'WOMENS', submittedAt: new Date('2025-06-01T00:00:00Z') }),
+          sample({ athleteId: 'c', phenoAge: 40, submittedAt: early }),
+        ])
+      );
+
+      expect(ranked.map((s) => [s.athleteId, s.rank, s.divisionRank])).toEqual([
+        ['b', 1, 1],
+        ['a', 2, 1],
+      ]);
+    });
+
+    it('should break ties by age reduction gain, then the earlier best sample', () => {
+      const ranked = rankImprovementStandings(
+        buildImprovementStandings([
+          sample({ athleteId: 'a', phenoAge: 45, ageReduction: 0, submittedAt: early }),
+          sample({ athleteId: 'a', phenoAge: 42, ageReduction: 3, submittedAt: new Date('2025-06-01T00:00:00Z') }),
+          sample({ athleteId: 'b', phenoAge: 45, ageReduction: 0, submittedAt: early }),
+          sample({ athleteId: 'b', phenoAge: 42, ageReduction: 3, submittedAt: new Date('2025-05-01T00:00:00Z') }),
+          sample({ athleteId: 'c', phenoAge: 45, ageReduction: 0, submittedAt: early }),
+          sample({ athleteId: 'c', phenoAge: 42, ageReduction: 4, submittedAt: new Date('2025-07-01T00:00:00Z') }),
+        ])
+      );
+
+      expect(ranked.map((s) => s.athleteId)).toEqual(['c', 'b', 'a']);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Improvement Ranking - "Most improved" standings within a season
+ *
+ * The main leaderboard rewards the best absolute age reduction, which favours
+ * athletes who were already biologically young. This ranks athletes instead
+ * by how far their PhenoAge dropped between their first approved sample of
+ * the season (baseline) and their best later one.
+ *
+ * ## Sample rules
+ * - Samples are dated by blood draw (collectedAt), falling back to submission
+ * - Only samples scored with the baseline's algorithm are compared
+ * - The best sample must be drawn at least IMPROVEMENT_RULES.minGapDays after
+ *   the baseline, so two draws a week apart can't count as progress
+ * - Athletes need IMPROVEMENT_RULES.minSamples comparable samples and a
+ *   positive improvement to be ranked
+ *
+ * ## Tie-breaking
+ * 1. Larger PhenoAge drop
+ * 2. Larger gain in age reduction
+ * 3. Earlier best sample
+ * 4. Athlete id, so repeated runs always produce the same order
+ *
+ * @module lib/leaderboard/improvement
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ImprovementRules {
+  /** Minimum days between the baseline and the best sample */
+  minGapDays: number;
+  /** Minimum comparable samples (baseline included) */
+  minSamples: number;
+}
+
+export const IMPROVEMENT_RULES: ImprovementRules = {
+  minGapDays: 90,
+  minSamples: 2,
+};
+
+/** The fields of an approved submission the sample rules look at */
+export interface DatedSample {
+  phenoAge: number;
+  ageReduction: number;
+  algorithmId?: string;
+  submittedAt: Date;
+  collectedAt?: Date | null;
+}
+
+/** Approved submission as loaded for improvement ranking */
+export interface ImprovementSample extends DatedSample {
+  athleteId: string;
+  leagueId: string;
+  division: string;
+  generation: string;
+}
+
+export interface ImprovementMeasure<T extends DatedSample> {
+  baseline: T;
+  best: T;
+  /** Samples comparable with the baseline (baseline included) */
+  sampleCount: number;
+}
+
+export interface ImprovementStanding {
+  athleteId: string;
+  /** League the best sample was submitted to */
+  leagueId: string;
+  division: string;
+  generation: string;
+  baselinePhenoAge: number;
+  bestPhenoAge: number;
+  /** Years of PhenoAge lost from the baseline to the best sample */
+  improvement: number;
+  /** Change in age reduction over the same samples */
+  ageReductionChange: number;
+  baselineSampledAt: Date;
+  bestSampledAt: Date;
+  sampleCount: number;
+}
+
+export interface RankedImprovementStanding extends ImprovementStanding {
+  rank: number;
+  divisionRank: number;
+  generationRank: number;
+}
+
+/**
+ * When a sample was taken: the blood draw date if known
+ */
+export function getSampleDate(sample: { collectedAt?: Date | null; submittedAt: Date }): Date {
+  return sample.collectedAt ?? sample.submittedAt;
+}
+
+/**
+ * Baseline and best sample of one athlete's samples under the sample rules;
+ * null if they don't meet the rules or didn't improve
+ */
+export function measureImprovement<T extends DatedSample>(
+  samples: T[],
+  rules: ImprovementRules = IMPROVEMENT_RULES
+): ImprovementMeasure<T> | null {
+  if (samples.length === 0) return null;
+
+  const ordered = [...samples].sort((a, b) => getSampleDate(a).getTime() - getSampleDate(b).getTime());
+  const baseline = ordered[0];
+  const comparable = ordered.filter((s) => s.algorithmId === baseline.algorithmId);
+  if (comparable.length < rules.minSamples) return null;
+
+  const earliestBest = getSampleDate(baseline).getTime() + rules.minGapDays * DAY_MS;
+  let best: T | null = null;
+  for (const sample of comparable) {
+    if (getSampleDate(sample).getTime() < earliestBest) continue;
+    if (!best || sample.phenoAge < best.phenoAge) best = sample;
+  }
+
+  if (!best || best.phenoAge >= baseline.phenoAge) return null;
+
+  return { baseline, best, sampleCount: comparable.length };
+}
+
+/**
+ * An athlete's improvement standing from their season samples
+ */
+export function findImprovement(
+  samples: ImprovementSample[],
+  rules: ImprovementRules = IMPROVEMENT_RULES
+): ImprovementStanding | null {
+  const measure = measureImprovement(samples, rules);
+  if (!measure) return null;
+
+  const { baseline, best, sampleCount } = measure;
+  return {
+    athleteId: baseline.athleteId,
+    leagueId: best.leagueId,
+    division: baseline.division,
+    generation: baseline.generation,
+    baselinePhenoAge: baseline.phenoAge,
+    bestPhenoAge: best.phenoAge,
+    improvement: baseline.phenoAge - best.phenoAge,
+    ageReductionChange: best.ageReduction - baseline.ageReduction,
+    baselineSampledAt: getSampleDate(baseline),
+    bestSampledAt: getSampleDate(best),
+    sampleCount,
+  };
+}
+
+/**
+ * One standing per qualifying athlete
+ */
+export function buildImprovementStandings(
+  samples: ImprovementSample[],
+  rules: ImprovementRules = IMPROVEMENT_RULES
+): ImprovementStanding[] {
+  const byAthlete = new Map<string, ImprovementSample[]>();
+  for (const sample of samples) {
+    const athleteSamples = byAthlete.get(sample.athleteId);
+    if (athleteSamples) {
+      athleteSamples.push(sample);
+    } else {
+      byAthlete.set(sample.athleteId, [sample]);
+    }
+  }
+
+  const standings: ImprovementStanding[] = [];
+  for (const athleteSamples of byAthlete.values()) {
+    const standing = findImprovement(athleteSamples, rules);
+    if (standing) standings.push(standing);
+  }
+  return standings;
+}
+
+/**
+ * Improvement order (see Tie-breaking above); negative when `a` ranks higher
+ */
+export function compareImprovement(a: ImprovementStanding, b: ImprovementStanding): number {
+  return (
+    b.improvement - a.improvement ||
+    b.ageReductionChange - a.ageReductionChange ||
+    a.bestSampledAt.getTime() - b.bestSampledAt.getTime() ||
+    a.athleteId.localeCompare(b.athleteId)
+  );
+}
+
+/**
+ * Order improvement standings and assign global, division and generation ranks
+ */
+export function rankImprovementStandings(standings: ImprovementStanding[]): RankedImprovementStanding[] {
+  const divisionCounts = new Map<string, number>();
+  const generationCounts = new Map<string, number>();
+
+  return [...standings].sort(compareImprovement).map((standing, index) => {
+    const divisionRank = (divisionCounts.get(standing.division) ?? 0) + 1;
+    const generationRank = (generationCounts.get(standing.generation) ?? 0) + 1;
+    divisionCounts.set(standing.division, divisionRank);
+    generationCounts.set(standing.generation, generationRank);
+
+    return { ...standing, rank: index + 1, divisionRank, generationRank };
+  });
+}
@@ -0,0 +1,47 @@
+/**
+ * Leaderboard Module
+ *
+ * Season standings rebuilt from approved submissions, with global, division
+ * and generation ranks, the "most improved" standings, and the daily and
+ * event-driven rank history.
+ *
+ * @example
+ * ```typescript
+ * import { recomputeSeasonLeaderboard } from '@/lib/leaderboard';
+ *
+ * const { created, updated, removed } = await recomputeSeasonLeaderboard(seasonId);
+ * ```
+ *
+ * @module lib/leaderboard
+ */
+
+export { recomputeSeasonLeaderboard, applySubmissionChange } from './leaderboard-service';
+export type { LeaderboardStanding, LeaderboardRecomputeResult } from './leaderboard-service';
+export {
+  getSnapshotDate,
+  takeRankSnapshots,
+  takeDailyRankSnapshots,
+  getAthleteRankHistory,
+  getLeagueRankHistory,
+} from './snapshots';
+export type { SnapshotSource, SnapshotResult, LeagueRankHistoryData } from './snapshots';
+export { buildStandings, compareStandings, rankStandings } from './ranking';
+export type { RankableSubmission, AthleteStanding, RankedStanding } from './ranking';
+export { getSeasonImprovementStandings } from './improvement-service';
+export {
+  IMPROVEMENT_RULES,
+  getSampleDate,
+  measureImprovement,
+  findImprovement,
+  buildImprovementStandings,
+  compareImprovement,
+  rankImprovementStandings,
+} from './improvement';
+export type {
+  ImprovementRules,
+  DatedSample,
+  ImprovementSample,
+  ImprovementMeasure,
+  ImprovementStanding,
+  RankedImprovementStanding,
+} from './improvement';
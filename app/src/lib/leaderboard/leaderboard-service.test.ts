@@ -0,0 +1,146 @@
+/**
+ * Leaderboard Service Tests
+ * Tests rebuilding entries from approved submissions and rerun safety
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { recalculateAllLeagueRanks, updateLeagueLeaderboardEntry } from '@/lib/league-scoring';
+import { applySubmissionChange, recomputeSeasonLeaderboard } from './leaderboard-service';
+import { takeRankSnapshots } from './snapshots';
+
+const tx = {
+  $queryRaw: vi.fn(),
+  biomarkerSubmission: { findMany: vi.fn(), update: vi.fn() },
+  leaderboardEntry: { findMany: vi.fn(), create: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/league-scoring', () => ({
+  updateLeagueLeaderboardEntry: vi.fn(),
+  recalculateAllLeagueRanks: vi.fn(),
+}));
+
+vi.mock('./snapshots', () => ({
+  takeRankSnapshots: vi.fn(),
+}));
+
+function approved(athleteId: string, ageReduction: number, division = 'MENS') {
+  return {
+    athleteId,
+    phenoAge: 40 - ageReduction,
+    ageReduction,
+    paceOfAging: 0.9,
+    submittedAt: new Date('2025-03-01T00:00:00Z'),
+    athlete: { division, generation: 'GENX' },
+  };
+}
+
+function entry(athleteId: string, rank: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `entry-${athleteId}`,
+    athleteId,
+    seasonId: 'season-1',
+    rank,
+    previousRank: null,
+    bestPhenoAge: 40,
+    bestAgeReduction: 0,
+    bestPaceOfAging: 0.9,
+    submissionCount: 1,
+    divisionRank: rank,
+    generationRank: rank,
+    ...overrides,
+  };
+}
+
+describe('Leaderboard Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (client: typeof tx) => unknown) =>
+      fn(tx)) as never);
+  });
+
+  describe('recomputeSeasonLeaderboard', () => {
+    it('should create entries with global, division and generation ranks', async () => {
+      tx.biomarkerSubmission.findMany.mockResolvedValue([
+        approved('a', 3),
+        approved('b', 6, 'WOMENS'),
+      ]);
+      tx.leaderboardEntry.findMany.mockResolvedValue([]);
+
+      const result = await recomputeSeasonLeaderboard('season-1');
+
+      expect(result.created).toBe(2);
+      expect(tx.leaderboardEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          athleteId: 'b',
+          seasonId: 'season-1',
+          rank: 1,
+          divisionRank: 1,
+          generationRank: 1,
+        }),
+      });
+      expect(tx.leaderboardEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ athleteId: 'a', rank: 2, divisionRank: 1, generationRank: 2 }),
+      });
+    });
+
+    it('should remove entries of athletes without approved submissions', async () => {
+      tx.biomarkerSubmission.findMany.mockResolvedValue([approved('a', 3)]);
+      tx.leaderboardEntry.findMany.mockResolvedValue([
+        entry('a', 2, { bestPhenoAge: 37, bestAgeReduction: 3, divisionRank: 2, generationRank: 2 }),
+        entry('b', 1),
+      ]);
+
+      const result = await recomputeSeasonLeaderboard('season-1');
+
+      expect(tx.leaderboardEntry.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['entry-b'] } },
+      });
+      expect(result.removed).toBe(1);
+      expect(result.standings[0]).toMatchObject({ athleteId: 'a', rank: 1, previousRank: 2 });
+    });
+
+    it('should write nothing when standings are unchanged', async () => {
+      tx.biomarkerSubmission.findMany.mockResolvedValue([approved('a', 6), approved('b', 3)]);
+      tx.leaderboardEntry.findMany.mockResolvedValue([
+        entry('a', 1, { bestPhenoAge: 34, bestAgeReduction: 6, previousRank: 2 }),
+        entry('b', 2, { bestPhenoAge: 37, bestAgeReduction: 3, previousRank: 1 }),
+      ]);
+
+      const result = await recomputeSeasonLeaderboard('season-1');
+
+      expect(result).toMatchObject({ created: 0, updated: 0, removed: 0 });
+      expect(tx.leaderboardEntry.update).not.toHaveBeenCalled();
+      expect(tx.leaderboardEntry.deleteMany).not.toHaveBeenCalled();
+      expect(result.standings.map((s) => s.previousRank)).toEqual([2, 1]);
+    });
+  });
+
+  describe('applySubmissionChange', () => {
+    it('should apply the change before ranking, then refresh the league and snapshot', async () => {
+      tx.biomarkerSubmission.update.mockResolvedValue({ id: 'sub-1', status: 'APPROVED' });
+      tx.biomarkerSubmission.findMany.mockResolvedValue([approved('a', 4)]);
+      tx.leaderboardEntry.findMany.mockResolvedValue([]);
+
+      const { result, leaderboard } = await applySubmissionChange(
+        { seasonId: 'season-1', leagueId: 'league-1' },
+        (client) => client.biomarkerSubmission.update({ where: { id: 'sub-1' }, data: { status: 'APPROVED' } })
+      );
+
+      expect(result).toEqual({ id: 'sub-1', status: 'APPROVED' });
+      expect(leaderboard.standings).toHaveLength(1);
+      expect(tx.biomarkerSubmission.update.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.biomarkerSubmission.findMany.mock.invocationCallOrder[0]
+      );
+      expect(updateLeagueLeaderboardEntry).toHaveBeenCalledWith('league-1', 'season-1');
+      expect(recalculateAllLeagueRanks).toHaveBeenCalledWith('season-1');
+      expect(takeRankSnapshots).toHaveBeenCalledWith('season-1', 'EVENT');
+    });
+  });
+});
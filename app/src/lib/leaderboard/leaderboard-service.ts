@@ -0,0 +1,163 @@
+/**
+ * Leaderboard Service - Rebuilds season standings from approved submissions
+ *
+ * Every change that can move a standing (approve, reject, delete, admin
+ * recompute) goes through here. The season's LeaderboardEntry rows are
+ * rebuilt from its approved submissions inside one transaction, so a run
+ * either applies completely or not at all, and running it again without new
+ * changes writes nothing.
+ *
+ * ## Usage
+ * ```typescript
+ * import { applySubmissionChange } from '@/lib/leaderboard';
+ *
+ * // Change a submission and rebuild the standings atomically
+ * const { result, leaderboard } = await applySubmissionChange(submission, (tx) =>
+ *   tx.biomarkerSubmission.update({ where: { id }, data: { status: 'APPROVED' } })
+ * );
+ * ```
+ *
+ * ## Extension Points
+ * - **Ordering**: Tie-breaking lives in ./ranking (compareStandings)
+ *
+ * @module lib/leaderboard/leaderboard-service
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recalculateAllLeagueRanks, updateLeagueLeaderboardEntry } from '@/lib/league-scoring';
+import { buildStandings, rankStandings, type RankedStanding } from './ranking';
+import { takeRankSnapshots } from './snapshots';
+
+// Large seasons rewrite many rows; Prisma's 5s default is too tight
+const TRANSACTION_TIMEOUT_MS = 30_000;
+
+export interface LeaderboardStanding extends RankedStanding {
+  previousRank: number | null;
+}
+
+export interface LeaderboardRecomputeResult {
+  seasonId: string;
+  standings: LeaderboardStanding[];
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+/**
+ * Rebuild a season's LeaderboardEntry rows inside a transaction
+ */
+async function rebuildSeasonLeaderboard(
+  tx: Prisma.TransactionClient,
+  seasonId: string
+): Promise<LeaderboardRecomputeResult> {
+  // Serialize recomputes of the same season; concurrent approvals would
+  // otherwise each rank from a snapshot missing the other's submission
+  await tx.$queryRaw`SELECT id FROM "Season" WHERE id = ${seasonId} FOR UPDATE`;
+
+  const [submissions, existingEntries] = await Promise.all([
+    tx.biomarkerSubmission.findMany({
+      where: { seasonId, status: 'APPROVED' },
+      select: {
+        athleteId: true,
+        phenoAge: true,
+        ageReduction: true,
+        paceOfAging: true,
+        submittedAt: true,
+        athlete: { select: { division: true, generation: true } },
+      },
+    }),
+    tx.leaderboardEntry.findMany({ where: { seasonId } }),
+  ]);
+
+  const ranked = rankStandings(
+    buildStandings(
+      submissions.map(({ athlete, ...submission }) => ({
+        ...submission,
+        division: athlete.division,
+        generation: athlete.generation,
+      }))
+    )
+  );
+
+  const existingByAthlete = new Map(existingEntries.map((entry) => [entry.athleteId, entry]));
+  const rankedAthletes = new Set(ranked.map((standing) => standing.athleteId));
+
+  // Athletes without an approved submission left (rejected or deleted)
+  const staleIds = existingEntries
+    .filter((entry) => !rankedAthletes.has(entry.athleteId))
+    .map((entry) => entry.id);
+  if (staleIds.length > 0) {
+    await tx.leaderboardEntry.deleteMany({ where: { id: { in: staleIds } } });
+  }
+
+  let created = 0;
+  let updated = 0;
+  const standings: LeaderboardStanding[] = [];
+
+  for (const standing of ranked) {
+    const existing = existingByAthlete.get(standing.athleteId);
+
+    // previousRank only moves when the rank does, so reruns are no-ops
+    const previousRank =
+      existing && existing.rank !== standing.rank ? existing.rank : (existing?.previousRank ?? null);
+
+    const data = {
+      rank: standing.rank,
+      previousRank,
+      bestPhenoAge: standing.bestPhenoAge,
+      bestAgeReduction: standing.bestAgeReduction,
+      bestPaceOfAging: standing.bestPaceOfAging,
+      submissionCount: standing.submissionCount,
+      divisionRank: standing.divisionRank,
+      generationRank: standing.generationRank,
+    };
+
+    if (!existing) {
+      await tx.leaderboardEntry.create({
+        data: { ...data, athleteId: standing.athleteId, seasonId },
+      });
+      created++;
+    } else if ((Object.keys(data) as (keyof typeof data)[]).some((key) => existing[key] !== data[key])) {
+      await tx.leaderboardEntry.update({ where: { id: existing.id }, data });
+      updated++;
+    }
+
+    standings.push({ ...standing, previousRank });
+  }
+
+  return { seasonId, standings, created, updated, removed: staleIds.length };
+}
+
+/**
+ * Rebuild a season's leaderboard from its approved submissions
+ */
+export async function recomputeSeasonLeaderboard(seasonId: string): Promise<LeaderboardRecomputeResult> {
+  return prisma.$transaction((tx) => rebuildSeasonLeaderboard(tx, seasonId), {
+    timeout: TRANSACTION_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Apply a change to a submission and rebuild its season's leaderboard in the
+ * same transaction, then refresh its league's standing and snapshot the ranks
+ */
+export async function applySubmissionChange<T>(
+  submission: { seasonId: string; leagueId: string },
+  change: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<{ result: T; leaderboard: LeaderboardRecomputeResult }> {
+  const outcome = await prisma.$transaction(
+    async (tx) => {
+      const result = await change(tx);
+      const leaderboard = await rebuildSeasonLeaderboard(tx, submission.seasonId);
+      return { result, leaderboard };
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  await updateLeagueLeaderboardEntry(submission.leagueId, submission.seasonId);
+  await recalculateAllLeagueRanks(submission.seasonId);
+  await takeRankSnapshots(submission.seasonId, 'EVENT');
+
+  return outcome;
+}
@@ -0,0 +1,105 @@
+/**
+ * Leaderboard Ranking Tests
+ * Tests best-result selection, tie-breaking and group ranks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildStandings, rankStandings, type RankableSubmission } from './ranking';
+
+function submission(overrides: Partial<RankableSubmission> & { athleteId: string }): RankableSubmission {
+  return {
+    division: 'MENS',
+    generation: 'GENX',
+    phenoAge: 40,
+    ageReduction: 5,
+    paceOfAging: 0.9,
+    submittedAt: new Date('2025-03-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Leaderboard Ranking', () => {
+  describe('buildStandings', () => {
+    it('should keep each athlete best result and count their submissions', () => {
+      const standings = buildStandings([
+        submission({ athleteId: 'a', ageReduction: 3, phenoAge: 42 }),
+        submission({ athleteId: 'a', ageReduction: 6, phenoAge: 39 }),
+        submission({ athleteId: 'b', ageReduction: 1 }),
+      ]);
+
+      const a = standings.find((s) => s.athleteId === 'a');
+      expect(a?.bestAgeReduction).toBe(6);
+      expect(a?.bestPhenoAge).toBe(39);
+      expect(a?.submissionCount).toBe(2);
+      expect(standings).toHaveLength(2);
+    });
+
+    it('should keep the earlier submission when an athlete repeats a result', () => {
+      const [standing] = buildStandings([
+        submission({ athleteId: 'a', submittedAt: new Date('2025-05-01T00:00:00Z') }),
+        submission({ athleteId: 'a', submittedAt: new Date('2025-02-01T00:00:00Z') }),
+      ]);
+
+      expect(standing.achievedAt.toISOString()).toBe('2025-02-01T00:00:00.000Z');
+    });
+  });
+
+  describe('rankStandings', () => {
+    it('should rank by age reduction, highest first', () => {
+      const ranked = rankStandings(
+        buildStandings([
+          submission({ athleteId: 'a', ageReduction: 2 }),
+          submission({ athleteId: 'b', ageReduction: 8 }),
+          submission({ athleteId: 'c', ageReduction: 5 }),
+        ])
+      );
+
+      expect(ranked.map((s) => [s.athleteId, s.rank])).toEqual([
+        ['b', 1],
+        ['c', 2],
+        ['a', 3],
+      ]);
+    });
+
+    it('should break ties on pace of aging, then submission time, then athlete id', () => {
+      const ranked = rankStandings(
+        buildStandings([
+          submission({ athleteId: 'd', submittedAt: new Date('2025-01-01T00:00:00Z') }),
+          submission({ athleteId: 'c' }),
+          submission({ athleteId: 'b' }),
+          submission({ athleteId: 'a', paceOfAging: 0.8 }),
+        ])
+      );
+
+      expect(ranked.map((s) => s.athleteId)).toEqual(['a', 'd', 'b', 'c']);
+    });
+
+    it('should rank within divisions and generations', () => {
+      const ranked = rankStandings(
+        buildStandings([
+          submission({ athleteId: 'a', ageReduction: 9, division: 'MENS', generation: 'GENX' }),
+          submission({ athleteId: 'b', ageReduction: 8, division: 'WOMENS', generation: 'GENX' }),
+          submission({ athleteId: 'c', ageReduction: 7, division: 'WOMENS', generation: 'MILLENNIAL' }),
+        ])
+      );
+
+      const byId = Object.fromEntries(ranked.map((s) => [s.athleteId, s]));
+      expect(byId.b.divisionRank).toBe(1);
+      expect(byId.c.divisionRank).toBe(2);
+      expect(byId.b.generationRank).toBe(2);
+      expect(byId.c.generationRank).toBe(1);
+    });
+
+    it('should produce the same order regardless of input order', () => {
+      const submissions = [
+        submission({ athleteId: 'x' }),
+        submission({ athleteId: 'y' }),
+        submission({ athleteId: 'z', ageReduction: 7 }),
+      ];
+      const forward = rankStandings(buildStandings(submissions)).map((s) => s.athleteId);
+      const reversed = rankStandings(buildStandings([...submissions].reverse())).map((s) => s.athleteId);
+
+      expect(reversed).toEqual(forward);
+    });
+  });
+});
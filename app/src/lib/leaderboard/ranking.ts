@@ -0,0 +1,115 @@
+/**
+ * Leaderboard Ranking - Season standings from approved submissions
+ *
+ * Picks each athlete's best approved result of the season and orders the
+ * field.
+ *
+ * ## Tie-breaking
+ * Standings are strictly ordered (no shared ranks):
+ * 1. Higher best age reduction
+ * 2. Lower pace of aging on that result
+ * 3. Earlier submission of that result - whoever posted the score first
+ * 4. Athlete id, so repeated runs always produce the same order
+ *
+ * Division and generation ranks use the same order within each group.
+ *
+ * @module lib/leaderboard/ranking
+ */
+
+/** Approved submission as loaded for ranking */
+export interface RankableSubmission {
+  athleteId: string;
+  division: string;
+  generation: string;
+  phenoAge: number;
+  ageReduction: number;
+  paceOfAging: number;
+  submittedAt: Date;
+}
+
+/** An athlete's season standing before ranking */
+export interface AthleteStanding {
+  athleteId: string;
+  division: string;
+  generation: string;
+  bestPhenoAge: number;
+  bestAgeReduction: number;
+  bestPaceOfAging: number;
+  /** When the best result was submitted (tie-breaker) */
+  achievedAt: Date;
+  submissionCount: number;
+}
+
+export interface RankedStanding extends AthleteStanding {
+  rank: number;
+  divisionRank: number;
+  generationRank: number;
+}
+
+/**
+ * Whether submission `a` is a better result than `b` for the same athlete
+ */
+function isBetterResult(a: RankableSubmission, b: RankableSubmission): boolean {
+  if (a.ageReduction !== b.ageReduction) return a.ageReduction > b.ageReduction;
+  if (a.paceOfAging !== b.paceOfAging) return a.paceOfAging < b.paceOfAging;
+  return a.submittedAt.getTime() < b.submittedAt.getTime();
+}
+
+/**
+ * One standing per athlete, from their best approved submission
+ */
+export function buildStandings(submissions: RankableSubmission[]): AthleteStanding[] {
+  const best = new Map<string, { submission: RankableSubmission; count: number }>();
+
+  for (const submission of submissions) {
+    const current = best.get(submission.athleteId);
+    if (!current) {
+      best.set(submission.athleteId, { submission, count: 1 });
+    } else {
+      current.count++;
+      if (isBetterResult(submission, current.submission)) {
+        current.submission = submission;
+      }
+    }
+  }
+
+  return [...best.values()].map(({ submission, count }) => ({
+    athleteId: submission.athleteId,
+    division: submission.division,
+    generation: submission.generation,
+    bestPhenoAge: submission.phenoAge,
+    bestAgeReduction: submission.ageReduction,
+    bestPaceOfAging: submission.paceOfAging,
+    achievedAt: submission.submittedAt,
+    submissionCount: count,
+  }));
+}
+
+/**
+ * Leaderboard order (see Tie-breaking above); negative when `a` ranks higher
+ */
+export function compareStandings(a: AthleteStanding, b: AthleteStanding): number {
+  return (
+    b.bestAgeReduction - a.bestAgeReduction ||
+    a.bestPaceOfAging - b.bestPaceOfAging ||
+    a.achievedAt.getTime() - b.achievedAt.getTime() ||
+    a.athleteId.localeCompare(b.athleteId)
+  );
+}
+
+/**
+ * Order standings and assign global, division and generation ranks
+ */
+export function rankStandings(standings: AthleteStanding[]): RankedStanding[] {
+  const divisionCounts = new Map<string, number>();
+  const generationCounts = new Map<string, number>();
+
+  return [...standings].sort(compareStandings).map((standing, index) => {
+    const divisionRank = (divisionCounts.get(standing.division) ?? 0) + 1;
+    const generationRank = (generationCounts.get(standing.generation) ?? 0) + 1;
+    divisionCounts.set(standing.division, divisionRank);
+    generationCounts.set(standing.generation, generationRank);
+
+    return { ...standing, rank: index + 1, divisionRank, generationRank };
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * Rank Snapshot Tests
+ * Tests snapshot day bucketing, upserts and history mapping
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { getAthleteRankHistory, getSnapshotDate, takeRankSnapshots } from './snapshots';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    leaderboardEntry: { findMany: vi.fn() },
+    leagueLeaderboardEntry: { findMany: vi.fn() },
+    rankSnapshot: { upsert: vi.fn(), deleteMany: vi.fn(), findMany: vi.fn() },
+    leagueRankSnapshot: { upsert: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+
+describe('Rank Snapshots', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getSnapshotDate', () => {
+    it('should bucket times into their UTC day', () => {
+      expect(getSnapshotDate(new Date('2025-06-15T23:59:00Z')).toISOString()).toBe(
+        '2025-06-15T00:00:00.000Z'
+      );
+      expect(getSnapshotDate(new Date('2025-06-16T00:00:00Z')).toISOString()).toBe(
+        '2025-06-16T00:00:00.000Z'
+      );
+    });
+  });
+
+  describe('takeRankSnapshots', () => {
+    it('should upsert one row per athlete and league for the day', async () => {
+      vi.mocked(prisma.leaderboardEntry.findMany).mockResolvedValue([
+        {
+          athleteId: 'a',
+          rank: 2,
+          divisionRank: 1,
+          generationRank: 2,
+          bestAgeReduction: 4.5,
+        },
+      ] as never);
+      vi.mocked(prisma.leagueLeaderboardEntry.findMany).mockResolvedValue([
+        { leagueId: 'l', rank: 1, avgAgeReduction: 3.2 },
+      ] as never);
+
+      const result = await takeRankSnapshots('season-1', 'EVENT', new Date('2025-06-15T14:30:00Z'));
+      const date = new Date('2025-06-15T00:00:00Z');
+
+      expect(result).toEqual({ seasonId: 'season-1', date, athletes: 1, leagues: 1 });
+      expect(prisma.rankSnapshot.upsert).toHaveBeenCalledWith({
+        where: { athleteId_seasonId_date: { athleteId: 'a', seasonId: 'season-1', date } },
+        update: { source: 'EVENT', rank: 2, divisionRank: 1, generationRank: 2, ageReduction: 4.5 },
+        create: {
+          source: 'EVENT',
+          rank: 2,
+          divisionRank: 1,
+          generationRank: 2,
+          ageReduction: 4.5,
+          athleteId: 'a',
+          seasonId: 'season-1',
+          date,
+        },
+      });
+      expect(prisma.leagueRankSnapshot.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { leagueId_seasonId_date: { leagueId: 'l', seasonId: 'season-1', date } },
+        })
+      );
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it("should drop the day's rows of athletes and leagues no longer ranked", async () => {
+      vi.mocked(prisma.leaderboardEntry.findMany).mockResolvedValue([
+        { athleteId: 'a', rank: 1, divisionRank: 1, generationRank: 1, bestAgeReduction: 4.5 },
+      ] as never);
+      vi.mocked(prisma.leagueLeaderboardEntry.findMany).mockResolvedValue([]);
+
+      await takeRankSnapshots('season-1', 'EVENT', new Date('2025-06-15T14:30:00Z'));
+      const date = new Date('2025-06-15T00:00:00Z');
+
+      expect(prisma.rankSnapshot.deleteMany).toHaveBeenCalledWith({
+        where: { seasonId: 'season-1', date, athleteId: { notIn: ['a'] } },
+      });
+      expect(prisma.leagueRankSnapshot.deleteMany).toHaveBeenCalledWith({
+        where: { seasonId: 'season-1', date, leagueId: { notIn: [] } },
+      });
+    });
+  });
+
+  describe('getAthleteRankHistory', () => {
+    it('should return dated ranks oldest first', async () => {
+      vi.mocked(prisma.rankSnapshot.findMany).mockResolvedValue([
+        {
+          date: new Date('2025-06-14T00:00:00Z'),
+          rank: 3,
+          divisionRank: 2,
+          generationRank: null,
+          ageReduction: 4,
+        },
+      ] as never);
+
+      const history = await getAthleteRankHistory('a', 'season-1');
+
+      expect(prisma.rankSnapshot.findMany).toHaveBeenCalledWith({
+        where: { athleteId: 'a', seasonId: 'season-1' },
+        orderBy: { date: 'asc' },
+      });
+      expect(history).toEqual([
+        { date: '2025-06-14', rank: 3, divisionRank: 2, generationRank: null, ageReduction: 4 },
+      ]);
+    });
+  });
+});
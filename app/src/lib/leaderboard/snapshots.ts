@@ -0,0 +1,142 @@
+/**
+ * Rank Snapshots - History of athlete and league ranks per season
+ *
+ * LeaderboardEntry only holds the current rank (and the one before it).
+ * Snapshots copy the season's ranks into RankSnapshot / LeagueRankSnapshot
+ * once a day (cron) and whenever standings change (approve, reject, delete,
+ * recompute). There is one row per athlete or league per UTC day, so taking
+ * a snapshot twice the same day just refreshes it, and drops the day's rows
+ * of athletes and leagues no longer ranked (e.g. after a rejection).
+ *
+ * @module lib/leaderboard/snapshots
+ */
+
+import { prisma } from '@/lib/db';
+import type { RankHistoryData } from '@/types';
+
+export type SnapshotSource = 'DAILY' | 'EVENT';
+
+export interface LeagueRankHistoryData {
+  date: string;
+  rank: number;
+  avgAgeReduction: number;
+}
+
+export interface SnapshotResult {
+  seasonId: string;
+  date: Date;
+  athletes: number;
+  leagues: number;
+}
+
+/**
+ * UTC midnight of the day containing `at`
+ */
+export function getSnapshotDate(at: Date = new Date()): Date {
+  return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+}
+
+/**
+ * Snapshot the current athlete and league ranks of a season
+ */
+export async function takeRankSnapshots(
+  seasonId: string,
+  source: SnapshotSource,
+  at: Date = new Date()
+): Promise<SnapshotResult> {
+  const date = getSnapshotDate(at);
+
+  const [entries, leagueEntries] = await Promise.all([
+    prisma.leaderboardEntry.findMany({ where: { seasonId } }),
+    prisma.leagueLeaderboardEntry.findMany({ where: { seasonId } }),
+  ]);
+
+  await prisma.$transaction([
+    prisma.rankSnapshot.deleteMany({
+      where: { seasonId, date, athleteId: { notIn: entries.map((entry) => entry.athleteId) } },
+    }),
+    prisma.leagueRankSnapshot.deleteMany({
+      where: { seasonId, date, leagueId: { notIn: leagueEntries.map((entry) => entry.leagueId) } },
+    }),
+    ...entries.map((entry) => {
+      const ranks = {
+        source,
+        rank: entry.rank,
+        divisionRank: entry.divisionRank,
+        generationRank: entry.generationRank,
+        ageReduction: entry.bestAgeReduction,
+      };
+      return prisma.rankSnapshot.upsert({
+        where: { athleteId_seasonId_date: { athleteId: entry.athleteId, seasonId, date } },
+        update: ranks,
+        create: { ...ranks, athleteId: entry.athleteId, seasonId, date },
+      });
+    }),
+    ...leagueEntries.map((entry) => {
+      const ranks = { source, rank: entry.rank, avgAgeReduction: entry.avgAgeReduction };
+      return prisma.leagueRankSnapshot.upsert({
+        where: { leagueId_seasonId_date: { leagueId: entry.leagueId, seasonId, date } },
+        update: ranks,
+        create: { ...ranks, leagueId: entry.leagueId, seasonId, date },
+      });
+    }),
+  ]);
+
+  return { seasonId, date, athletes: entries.length, leagues: leagueEntries.length };
+}
+
+/**
+ * Daily snapshot of every active season
+ */
+export async function takeDailyRankSnapshots(at: Date = new Date()): Promise<SnapshotResult[]> {
+  const seasons = await prisma.season.findMany({
+    where: { status: 'ACTIVE' },
+    select: { id: true },
+  });
+
+  const results: SnapshotResult[] = [];
+  for (const season of seasons) {
+    results.push(await takeRankSnapshots(season.id, 'DAILY', at));
+  }
+  return results;
+}
+
+/**
+ * An athlete's rank history in a season, oldest first
+ */
+export async function getAthleteRankHistory(
+  athleteId: string,
+  seasonId: string
+): Promise<RankHistoryData[]> {
+  const snapshots = await prisma.rankSnapshot.findMany({
+    where: { athleteId, seasonId },
+    orderBy: { date: 'asc' },
+  });
+
+  return snapshots.map((snapshot) => ({
+    date: snapshot.date.toISOString().slice(0, 10),
+    rank: snapshot.rank,
+    divisionRank: snapshot.divisionRank,
+    generationRank: snapshot.generationRank,
+    ageReduction: snapshot.ageReduction,
+  }));
+}
+
+/**
+ * A league's rank history in a season, oldest first
+ */
+export async function getLeagueRankHistory(
+  leagueId: string,
+  seasonId: string
+): Promise<LeagueRankHistoryData[]> {
+  const snapshots = await prisma.leagueRankSnapshot.findMany({
+    where: { leagueId, seasonId },
+    orderBy: { date: 'asc' },
+  });
+
+  return snapshots.map((snapshot) => ({
+    date: snapshot.date.toISOString().slice(0, 10),
+    rank: snapshot.rank,
+    avgAgeReduction: snapshot.avgAgeReduction,
+  }));
+}
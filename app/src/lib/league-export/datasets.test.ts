@@ -0,0 +1,214 @@
+/**
+ * League Export Dataset Tests
+ * Tests member summaries, biomarker privacy, standings history, the column
+ * dictionary and export request validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BIOMARKER_CATALOG } from '@/lib/biomarkers';
+import {
+  MEMBER_COLUMNS,
+  STANDING_COLUMNS,
+  SUBMISSION_COLUMNS,
+  getColumnDictionary,
+  getExportFilename,
+  mergeStandings,
+  parseExportRequest,
+  summarizeResults,
+  toExportRow,
+  toSubmissionExportRow,
+} from './datasets';
+
+function result(ageReduction: number, submittedAt: string, paceOfAging = 0.9) {
+  return { phenoAge: 40 - ageReduction, ageReduction, paceOfAging, submittedAt: new Date(submittedAt) };
+}
+
+const submission = {
+  id: 'sub1',
+  athleteId: 'a1',
+  submittedAt: new Date('2026-02-01T10:00:00Z'),
+  collectedAt: new Date('2026-01-28T00:00:00Z'),
+  verifiedAt: new Date('2026-02-02T09:00:00Z'),
+  algorithmId: 'levine-phenoage',
+  phenoAge: 35.4567,
+  ageReduction: 4.5433,
+  paceOfAging: 0.88654,
+  season: { name: 'Season 2026' },
+  athlete: { displayName: 'Ada', shareBiomarkersWithLeagues: true },
+  values: [
+    { biomarkerKey: 'albumin', value: 4.6, unit: 'g/dL' },
+    { biomarkerKey: 'retired', value: 1, unit: 'x' },
+  ],
+};
+
+describe('summarizeResults', () => {
+  it('picks the highest age reduction as best and the newest as latest', () => {
+    const summary = summarizeResults([
+      result(3, '2026-01-01T00:00:00Z'),
+      result(5, '2026-02-01T00:00:00Z'),
+      result(4, '2026-03-01T00:00:00Z'),
+    ]);
+
+    expect(summary.approvedSubmissions).toBe(3);
+    expect(summary.best?.ageReduction).toBe(5);
+    expect(summary.latest?.ageReduction).toBe(4);
+  });
+
+  it('breaks ties like the leaderboard: lower pace of aging, then earlier', () => {
+    const slower = result(5, '2026-01-01T00:00:00Z', 0.95);
+    const faster = result(5, '2026-02-01T00:00:00Z', 0.85);
+    const later = result(5, '2026-03-01T00:00:00Z', 0.85);
+
+    expect(summarizeResults([slower, faster, later]).best).toBe(faster);
+  });
+
+  it('is empty without approved submissions', () => {
+    expect(summarizeResults([])).toEqual({ approvedSubmissions: 0, best: null, latest: null });
+  });
+});
+
+describe('member columns', () => {
+  it('leave results blank for members without submissions', () => {
+    const row = toExportRow(MEMBER_COLUMNS, {
+      athleteId: 'a1',
+      displayName: 'Ada',
+      slug: 'ada',
+      role: 'CAPTAIN',
+      owner: false,
+      joinedAt: new Date('2026-01-01T00:00:00Z'),
+      division: 'WOMENS',
+      generation: 'MILLENNIAL',
+      verified: true,
+      approvedSubmissions: 0,
+      best: null,
+      latest: null,
+    });
+
+    expect(row).toHaveLength(MEMBER_COLUMNS.length);
+    expect(row.slice(0, 5)).toEqual(['a1', 'Ada', 'ada', 'CAPTAIN', false]);
+    expect(row.slice(10).every((value) => value === null || value === undefined)).toBe(true);
+  });
+});
+
+describe('toSubmissionExportRow', () => {
+  it('exports the biomarker values of athletes who share them', () => {
+    const row = toSubmissionExportRow(submission);
+    const values = toExportRow(SUBMISSION_COLUMNS, row);
+
+    expect(row.values).toEqual({ albumin: 4.6 });
+    expect(values[SUBMISSION_COLUMNS.findIndex((column) => column.header === 'Albumin (g/dL)')]).toBe(4.6);
+    expect(values[SUBMISSION_COLUMNS.findIndex((column) => column.header === 'Biomarkers Shared')]).toBe(true);
+  });
+
+  it('leaves biomarker values blank for athletes who keep them private', () => {
+    const row = toSubmissionExportRow({
+      ...submission,
+      athlete: { displayName: 'Ada', shareBiomarkersWithLeagues: false },
+    });
+    const values = toExportRow(SUBMISSION_COLUMNS, row);
+
+    expect(row.values).toBeNull();
+    expect(values.slice(-BIOMARKER_CATALOG.length).every((value) => value === undefined)).toBe(true);
+    expect(values[SUBMISSION_COLUMNS.findIndex((column) => column.header === 'Biomarkers Shared')]).toBe(false);
+    // Results are part of the export either way
+    expect(values[SUBMISSION_COLUMNS.findIndex((column) => column.header === 'PhenoAge')]).toBe(35.46);
+  });
+
+  it('rounds results for reading', () => {
+    const values = toExportRow(SUBMISSION_COLUMNS, toSubmissionExportRow(submission));
+
+    expect(values[SUBMISSION_COLUMNS.findIndex((column) => column.header === 'Age Reduction')]).toBe(4.54);
+    expect(values[SUBMISSION_COLUMNS.findIndex((column) => column.header === 'Pace of Aging')]).toBe(0.887);
+  });
+
+  it('has one column per catalog biomarker', () => {
+    expect(SUBMISSION_COLUMNS.length).toBe(12 + BIOMARKER_CATALOG.length);
+  });
+});
+
+describe('mergeStandings', () => {
+  const season2025 = { id: 's25', name: 'Season 2025', year: 2025, startDate: new Date('2025-01-01T00:00:00Z') };
+  const season2026 = { id: 's26', name: 'Season 2026', year: 2026, startDate: new Date('2026-01-01T00:00:00Z') };
+
+  const live = (season: typeof season2025, rank: number) => ({
+    season,
+    rank,
+    previousRank: rank + 1,
+    scoringStrategy: 'TOP_N_AVERAGE',
+    avgAgeReduction: 3.2,
+    totalMembers: 12,
+    activeMembers: 9,
+    bestIndividual: 8.1,
+    worstIndividual: 0.4,
+  });
+
+  it('prefers final standings and keeps live entries for the other seasons, oldest first', () => {
+    const rows = mergeStandings(
+      [
+        {
+          season: season2025,
+          rank: 2,
+          scoringStrategy: 'MEDIAN',
+          score: 2.9,
+          totalMembers: 10,
+          activeMembers: 8,
+          bestIndividual: 7.5,
+        },
+      ],
+      [live(season2026, 4), live(season2025, 3)]
+    );
+
+    expect(rows).toEqual([
+      expect.objectContaining({ season: 'Season 2025', final: true, rank: 2, score: 2.9, worstIndividual: null }),
+      expect.objectContaining({ season: 'Season 2026', final: false, rank: 4, previousRank: 5, score: 3.2 }),
+    ]);
+    expect(toExportRow(STANDING_COLUMNS, rows[0])).toHaveLength(STANDING_COLUMNS.length);
+  });
+});
+
+describe('getColumnDictionary', () => {
+  it('describes every exported column', () => {
+    const dictionary = getColumnDictionary();
+
+    expect(dictionary).toHaveLength(MEMBER_COLUMNS.length + SUBMISSION_COLUMNS.length + STANDING_COLUMNS.length);
+    expect(dictionary[0]).toEqual(['Members', 'Athlete ID', 'Stable athlete identifier']);
+    expect(dictionary.every(([, , description]) => typeof description === 'string' && description.length > 0)).toBe(
+      true
+    );
+  });
+});
+
+describe('parseExportRequest', () => {
+  it('defaults to CSV and requires a dataset for it', () => {
+    expect(parseExportRequest({ dataset: 'members' })).toEqual({
+      request: { format: 'csv', dataset: 'members' },
+      errors: [],
+    });
+    expect(parseExportRequest({}).errors).toEqual([
+      'dataset is required for CSV exports: members, submissions, standings, dictionary',
+    ]);
+  });
+
+  it('exports the whole workbook for XLSX without a dataset', () => {
+    expect(parseExportRequest({ format: 'xlsx', dataset: null })).toEqual({
+      request: { format: 'xlsx', dataset: null },
+      errors: [],
+    });
+  });
+
+  it('rejects unknown formats and datasets', () => {
+    expect(parseExportRequest({ format: 'pdf', dataset: 'payouts' }).errors).toEqual([
+      'format must be one of: csv, xlsx',
+      'dataset must be one of: members, submissions, standings, dictionary',
+    ]);
+  });
+});
+
+describe('getExportFilename', () => {
+  it('names downloads after the league and dataset', () => {
+    expect(getExportFilename('longevity-lab', { format: 'csv', dataset: 'members' })).toBe(
+      'longevity-lab-members.csv'
+    );
+    expect(getExportFilename('longevity-lab', { format: 'xlsx', dataset: null })).toBe('longevity-lab-export.xlsx');
+  });
+});
@@ -0,0 +1,441 @@
+/**
+ * League Export Datasets - What a league export contains
+ *
+ * Three datasets, each with a column dictionary (header and meaning) that
+ * ships with every export:
+ * - members: the roster with roles, join dates and each member's best and
+ *   latest approved result in the league
+ * - submissions: every approved submission to the league by current members,
+ *   with biomarker values only for athletes who share them with their
+ *   leagues (Athlete.shareBiomarkersWithLeagues); everyone else's are blank
+ * - standings: the league's leaderboard history, final standings for
+ *   completed seasons and the live entry for the others
+ *
+ * CSV downloads hold one dataset (or the dictionary); XLSX downloads hold one
+ * sheet per dataset plus a "Columns" sheet with the dictionary.
+ *
+ * @module lib/league-export/datasets
+ */
+
+import { BIOMARKER_CATALOG, fromBiomarkerValueRecords, type BiomarkerValues } from '@/lib/biomarkers';
+import type { CsvValue } from '@/lib/csv';
+
+export const EXPORT_DATASETS = ['members', 'submissions', 'standings'] as const;
+
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/** What to download: one dataset or the dictionary, or (XLSX only) everything */
+export interface ExportRequest {
+  format: ExportFormat;
+  /** Null for the whole workbook */
+  dataset: ExportDataset | 'dictionary' | null;
+}
+
+/** Sheet names in XLSX exports, also used in the dictionary */
+export const EXPORT_SHEET_NAMES: Record<ExportDataset | 'dictionary', string> = {
+  members: 'Members',
+  submissions: 'Submissions',
+  standings: 'Standings',
+  dictionary: 'Columns',
+};
+
+export interface ExportColumn<Row> {
+  header: string;
+  description: string;
+  value: (row: Row) => CsvValue;
+}
+
+/** One approved result, as the member summary sees it */
+export interface ExportResult {
+  phenoAge: number;
+  ageReduction: number;
+  paceOfAging: number;
+  submittedAt: Date;
+}
+
+export interface MemberExportRow {
+  athleteId: string;
+  displayName: string;
+  slug: string;
+  role: string;
+  owner: boolean;
+  joinedAt: Date;
+  division: string;
+  generation: string;
+  verified: boolean;
+  approvedSubmissions: number;
+  best: ExportResult | null;
+  latest: ExportResult | null;
+}
+
+export interface SubmissionExportRow {
+  id: string;
+  athleteId: string;
+  displayName: string;
+  season: string;
+  submittedAt: Date;
+  collectedAt: Date | null;
+  verifiedAt: Date | null;
+  algorithmId: string;
+  phenoAge: number;
+  ageReduction: number;
+  paceOfAging: number;
+  /** Null when the athlete doesn't share biomarker values with their leagues */
+  values: BiomarkerValues | null;
+}
+
+export interface StandingExportRow {
+  season: string;
+  seasonYear: number;
+  final: boolean;
+  rank: number;
+  previousRank: number | null;
+  scoringStrategy: string;
+  score: number;
+  totalMembers: number;
+  activeMembers: number;
+  bestIndividual: number;
+  worstIndividual: number | null;
+}
+
+function round(value: number | undefined, digits: number = 2): number | null {
+  return value === undefined ? null : Number(value.toFixed(digits));
+}
+
+export const MEMBER_COLUMNS: ExportColumn<MemberExportRow>[] = [
+  { header: 'Athlete ID', description: 'Stable athlete identifier', value: (row) => row.athleteId },
+  { header: 'Athlete', description: 'Display name', value: (row) => row.displayName },
+  { header: 'Profile Slug', description: 'Public profile at /athletes/<slug>', value: (row) => row.slug },
+  { header: 'Role', description: 'League role: MEMBER, CAPTAIN or ADMIN', value: (row) => row.role },
+  { header: 'Owner', description: 'Whether the athlete owns the league', value: (row) => row.owner },
+  { header: 'Joined At', description: 'When the athlete joined the league (UTC)', value: (row) => row.joinedAt },
+  { header: 'Division', description: 'Competition division: MENS, WOMENS or OPEN', value: (row) => row.division },
+  { header: 'Generation', description: 'Generation from the birth year', value: (row) => row.generation },
+  { header: 'Verified', description: 'Whether the athlete profile is verified', value: (row) => row.verified },
+  {
+    header: 'Approved Submissions',
+    description: 'Approved submissions to this league, all seasons',
+    value: (row) => row.approvedSubmissions,
+  },
+  {
+    header: 'Best PhenoAge',
+    description: 'Biological age in years on the best approved result (highest age reduction)',
+    value: (row) => round(row.best?.phenoAge),
+  },
+  {
+    header: 'Best Age Reduction',
+    description: 'Chronological minus biological age in years on the best result; positive is younger',
+    value: (row) => round(row.best?.ageReduction),
+  },
+  {
+    header: 'Best Submitted At',
+    description: 'When the best result was submitted (UTC)',
+    value: (row) => row.best?.submittedAt,
+  },
+  {
+    header: 'Latest PhenoAge',
+    description: 'Biological age in years on the most recent approved submission',
+    value: (row) => round(row.latest?.phenoAge),
+  },
+  {
+    header: 'Latest Age Reduction',
+    description: 'Age reduction in years on the most recent approved submission',
+    value: (row) => round(row.latest?.ageReduction),
+  },
+  {
+    header: 'Latest Submitted At',
+    description: 'When the most recent approved submission was made (UTC)',
+    value: (row) => row.latest?.submittedAt,
+  },
+];
+
+export const SUBMISSION_COLUMNS: ExportColumn<SubmissionExportRow>[] = [
+  { header: 'Submission ID', description: 'Stable submission identifier', value: (row) => row.id },
+  { header: 'Athlete ID', description: 'Stable athlete identifier', value: (row) => row.athleteId },
+  { header: 'Athlete', description: 'Display name', value: (row) => row.displayName },
+  { header: 'Season', description: 'Season the submission counts toward', value: (row) => row.season },
+  { header: 'Submitted At', description: 'When the submission was made (UTC)', value: (row) => row.submittedAt },
+  {
+    header: 'Collected At',
+    description: 'Blood draw date, when known (UTC)',
+    value: (row) => row.collectedAt,
+  },
+  { header: 'Approved At', description: 'When the submission was approved (UTC)', value: (row) => row.verifiedAt },
+  {
+    header: 'Algorithm',
+    description: 'Biological age algorithm of the season (e.g. levine-phenoage)',
+    value: (row) => row.algorithmId,
+  },
+  { header: 'PhenoAge', description: 'Biological age in years', value: (row) => round(row.phenoAge) },
+  {
+    header: 'Age Reduction',
+    description: 'Chronological minus biological age in years; positive is younger',
+    value: (row) => round(row.ageReduction),
+  },
+  {
+    header: 'Pace of Aging',
+    description: 'Biological years per chronological year; below 1 is slower',
+    value: (row) => round(row.paceOfAging, 3),
+  },
+  {
+    header: 'Biomarkers Shared',
+    description: 'Whether the athlete shares biomarker values with their leagues; the biomarker columns are blank otherwise',
+    value: (row) => row.values !== null,
+  },
+  ...BIOMARKER_CATALOG.map(
+    (biomarker): ExportColumn<SubmissionExportRow> => ({
+      header: `${biomarker.label} (${biomarker.unit})`,
+      description: `${biomarker.name} in ${biomarker.unit}; blank if not measured or not shared`,
+      value: (row) => row.values?.[biomarker.key],
+    })
+  ),
+];
+
+export const STANDING_COLUMNS: ExportColumn<StandingExportRow>[] = [
+  { header: 'Season', description: 'Season name', value: (row) => row.season },
+  { header: 'Year', description: 'Season year', value: (row) => row.seasonYear },
+  {
+    header: 'Final',
+    description: 'Whether this is the archived final standing; live standings can still change',
+    value: (row) => row.final,
+  },
+  { header: 'Rank', description: 'League rank among all leagues in the season', value: (row) => row.rank },
+  {
+    header: 'Previous Rank',
+    description: 'Rank before the last leaderboard update (live standings only)',
+    value: (row) => row.previousRank,
+  },
+  {
+    header: 'Scoring Strategy',
+    description: 'How the league score was calculated (e.g. TOP_N_AVERAGE)',
+    value: (row) => row.scoringStrategy,
+  },
+  { header: 'Score', description: 'League score in years of age reduction', value: (row) => round(row.score) },
+  { header: 'Total Members', description: 'League members at the time', value: (row) => row.totalMembers },
+  {
+    header: 'Active Members',
+    description: 'Members with an approved submission in the season',
+    value: (row) => row.activeMembers,
+  },
+  {
+    header: 'Best Individual',
+    description: "Best member's age reduction in years",
+    value: (row) => round(row.bestIndividual),
+  },
+  {
+    header: 'Worst Individual',
+    description: 'Lowest age reduction among the scored members (live standings only)',
+    value: (row) => round(row.worstIndividual ?? undefined),
+  },
+];
+
+/** Columns of the dictionary itself */
+export const DICTIONARY_HEADERS = ['Dataset', 'Column', 'Description'];
+
+/**
+ * Header and meaning of every exported column, by dataset
+ */
+export function getColumnDictionary(): CsvValue[][] {
+  const datasets: [ExportDataset, ExportColumn<never>[]][] = [
+    ['members', MEMBER_COLUMNS],
+    ['submissions', SUBMISSION_COLUMNS],
+    ['standings', STANDING_COLUMNS],
+  ];
+  return datasets.flatMap(([dataset, columns]) =>
+    columns.map((column) => [EXPORT_SHEET_NAMES[dataset], column.header, column.description])
+  );
+}
+
+/**
+ * A row's values in column order
+ */
+export function toExportRow<Row>(columns: ExportColumn<Row>[], row: Row): CsvValue[] {
+  return columns.map((column) => column.value(row));
+}
+
+/**
+ * Whether result `a` is better than `b` (the leaderboard order: higher age
+ * reduction, then lower pace of aging, then earlier submission)
+ */
+function isBetterResult(a: ExportResult, b: ExportResult): boolean {
+  if (a.ageReduction !== b.ageReduction) return a.ageReduction > b.ageReduction;
+  if (a.paceOfAging !== b.paceOfAging) return a.paceOfAging < b.paceOfAging;
+  return a.submittedAt.getTime() < b.submittedAt.getTime();
+}
+
+/**
+ * A member's best and most recent approved results
+ */
+export function summarizeResults(
+  results: ExportResult[]
+): Pick<MemberExportRow, 'approvedSubmissions' | 'best' | 'latest'> {
+  let best: ExportResult | null = null;
+  let latest: ExportResult | null = null;
+
+  for (const result of results) {
+    if (!best || isBetterResult(result, best)) best = result;
+    if (!latest || result.submittedAt.getTime() > latest.submittedAt.getTime()) latest = result;
+  }
+
+  return { approvedSubmissions: results.length, best, latest };
+}
+
+/**
+ * A submission as exported, with its biomarker values only if the athlete shares them
+ */
+export function toSubmissionExportRow(submission: {
+  id: string;
+  athleteId: string;
+  submittedAt: Date;
+  collectedAt: Date | null;
+  verifiedAt: Date | null;
+  algorithmId: string;
+  phenoAge: number;
+  ageReduction: number;
+  paceOfAging: number;
+  season: { name: string };
+  athlete: { displayName: string; shareBiomarkersWithLeagues: boolean };
+  values: { biomarkerKey: string; value: number; unit: string }[];
+}): SubmissionExportRow {
+  return {
+    id: submission.id,
+    athleteId: submission.athleteId,
+    displayName: submission.athlete.displayName,
+    season: submission.season.name,
+    submittedAt: submission.submittedAt,
+    collectedAt: submission.collectedAt,
+    verifiedAt: submission.verifiedAt,
+    algorithmId: submission.algorithmId,
+    phenoAge: submission.phenoAge,
+    ageReduction: submission.ageReduction,
+    paceOfAging: submission.paceOfAging,
+    values: submission.athlete.shareBiomarkersWithLeagues ? fromBiomarkerValueRecords(submission.values) : null,
+  };
+}
+
+interface ExportSeason {
+  id: string;
+  name: string;
+  year: number;
+  startDate: Date;
+}
+
+/**
+ * The league's standings history, oldest season first: the final standing of
+ * completed seasons, the live leaderboard entry for the rest
+ */
+export function mergeStandings(
+  finals: {
+    season: ExportSeason;
+    rank: number;
+    scoringStrategy: string;
+    score: number;
+    totalMembers: number;
+    activeMembers: number;
+    bestIndividual: number;
+  }[],
+  live: {
+    season: ExportSeason;
+    rank: number;
+    previousRank: number | null;
+    scoringStrategy: string;
+    avgAgeReduction: number;
+    totalMembers: number;
+    activeMembers: number;
+    bestIndividual: number;
+    worstIndividual: number;
+  }[]
+): StandingExportRow[] {
+  const finalSeasons = new Set(finals.map((standing) => standing.season.id));
+
+  const rows = [
+    ...finals.map((standing) => ({
+      startDate: standing.season.startDate,
+      row: {
+        season: standing.season.name,
+        seasonYear: standing.season.year,
+        final: true,
+        rank: standing.rank,
+        previousRank: null,
+        scoringStrategy: standing.scoringStrategy,
+        score: standing.score,
+        totalMembers: standing.totalMembers,
+        activeMembers: standing.activeMembers,
+        bestIndividual: standing.bestIndividual,
+        worstIndividual: null,
+      },
+    })),
+    ...live
+      .filter((entry) => !finalSeasons.has(entry.season.id))
+      .map((entry) => ({
+        startDate: entry.season.startDate,
+        row: {
+          season: entry.season.name,
+          seasonYear: entry.season.year,
+          final: false,
+          rank: entry.rank,
+          previousRank: entry.previousRank,
+          scoringStrategy: entry.scoringStrategy,
+          score: entry.avgAgeReduction,
+          totalMembers: entry.totalMembers,
+          activeMembers: entry.activeMembers,
+          bestIndividual: entry.bestIndividual,
+          worstIndividual: entry.worstIndividual,
+        },
+      })),
+  ];
+
+  return rows.sort((a, b) => a.startDate.getTime() - b.startDate.getTime()).map(({ row }) => row);
+}
+
+/**
+ * Validate the format and dataset of an export request
+ *
+ * @param input - format: csv (default) or xlsx; dataset: members, submissions,
+ *   standings or dictionary, required for CSV and optional for XLSX (all sheets)
+ * @returns The request, or the problems with it
+ */
+export function parseExportRequest(input: { format?: string | null; dataset?: string | null }): {
+  request: ExportRequest;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const request: ExportRequest = { format: 'csv', dataset: null };
+
+  if (input.format) {
+    if ((EXPORT_FORMATS as readonly string[]).includes(input.format)) {
+      request.format = input.format as ExportFormat;
+    } else {
+      errors.push(`format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+  }
+
+  const datasets = [...EXPORT_DATASETS, 'dictionary'];
+  if (input.dataset) {
+    if (datasets.includes(input.dataset)) {
+      request.dataset = input.dataset as ExportRequest['dataset'];
+    } else {
+      errors.push(`dataset must be one of: ${datasets.join(', ')}`);
+    }
+  } else if (request.format === 'csv') {
+    errors.push(`dataset is required for CSV exports: ${datasets.join(', ')}`);
+  }
+
+  return { request, errors };
+}
+
+/**
+ * Download file name, e.g. "longevity-crew-members.csv" or "longevity-crew-export.xlsx"
+ */
+export function getExportFilename(leagueSlug: string, request: ExportRequest): string {
+  return `${leagueSlug}-${request.dataset ?? 'export'}.${request.format}`;
+}
@@ -0,0 +1,232 @@
+/**
+ * League Export Service Tests
+ * Tests batched reads, member summaries, biomarker privacy and the streamed
+ * CSV and XLSX downloads
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import {
+  EXPORT_BATCH_SIZE,
+  exportMembers,
+  exportStandings,
+  exportSubmissions,
+  streamLeagueExport,
+  toReadableStream,
+} from './export-service';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    leagueMember: { findMany: vi.fn() },
+    biomarkerSubmission: { findMany: vi.fn() },
+    seasonFinalLeagueStanding: { findMany: vi.fn() },
+    leagueLeaderboardEntry: { findMany: vi.fn() },
+  },
+}));
+
+const league = { id: 'l1', ownerId: 'u1' };
+
+function member(index: number) {
+  return {
+    id: `m${index}`,
+    role: index === 0 ? ('ADMIN' as const) : ('MEMBER' as const),
+    joinedAt: new Date('2026-01-01T00:00:00Z'),
+    athlete: {
+      id: `a${index}`,
+      userId: `u${index + 1}`,
+      displayName: `Athlete ${index}`,
+      slug: `athlete-${index}`,
+      division: 'OPEN',
+      generation: 'GENX',
+      verified: true,
+    },
+  };
+}
+
+function submission(id: string, shareBiomarkersWithLeagues: boolean) {
+  return {
+    id,
+    athleteId: 'a0',
+    submittedAt: new Date('2026-02-01T00:00:00Z'),
+    collectedAt: null,
+    verifiedAt: new Date('2026-02-02T00:00:00Z'),
+    algorithmId: 'levine-phenoage',
+    phenoAge: 38,
+    ageReduction: 4,
+    paceOfAging: 0.9,
+    season: { name: 'Season 2026' },
+    athlete: { displayName: 'Athlete 0', shareBiomarkersWithLeagues },
+    values: [{ biomarkerKey: 'albumin', value: 4.6, unit: 'g/dL' }],
+  };
+}
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const row of rows) collected.push(row);
+  return collected;
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe('League Export Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.biomarkerSubmission.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.seasonFinalLeagueStanding.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.leagueLeaderboardEntry.findMany).mockResolvedValue([]);
+  });
+
+  describe('exportMembers', () => {
+    it('summarizes each member and flags the owner', async () => {
+      vi.mocked(prisma.leagueMember.findMany).mockResolvedValueOnce([member(0), member(1)] as never);
+      vi.mocked(prisma.biomarkerSubmission.findMany).mockResolvedValueOnce([
+        { athleteId: 'a0', phenoAge: 38, ageReduction: 4, paceOfAging: 0.9, submittedAt: new Date('2026-01-05') },
+        { athleteId: 'a0', phenoAge: 39, ageReduction: 3, paceOfAging: 0.9, submittedAt: new Date('2026-02-05') },
+      ] as never);
+
+      const rows = await collect(exportMembers(league));
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        athleteId: 'a0',
+        role: 'ADMIN',
+        owner: true,
+        approvedSubmissions: 2,
+        best: { ageReduction: 4 },
+        latest: { ageReduction: 3 },
+      });
+      expect(rows[1]).toMatchObject({ athleteId: 'a1', owner: false, approvedSubmissions: 0, best: null });
+      expect(prisma.biomarkerSubmission.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { leagueId: 'l1', status: 'APPROVED', athleteId: { in: ['a0', 'a1'] } },
+        })
+      );
+    });
+
+    it('reads large rosters in batches after the last row', async () => {
+      const firstPage = Array.from({ length: EXPORT_BATCH_SIZE }, (_, index) => member(index));
+      vi.mocked(prisma.leagueMember.findMany)
+        .mockResolvedValueOnce(firstPage as never)
+        .mockResolvedValueOnce([member(EXPORT_BATCH_SIZE)] as never);
+
+      const rows = await collect(exportMembers(league));
+
+      expect(rows).toHaveLength(EXPORT_BATCH_SIZE + 1);
+      expect(prisma.leagueMember.findMany).toHaveBeenCalledTimes(2);
+      expect(prisma.leagueMember.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ take: EXPORT_BATCH_SIZE, skip: 1, cursor: { id: `m${EXPORT_BATCH_SIZE - 1}` } })
+      );
+      expect(prisma.biomarkerSubmission.findMany).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('exportSubmissions', () => {
+    it('exports approved submissions by current members, with shared values only', async () => {
+      vi.mocked(prisma.biomarkerSubmission.findMany).mockResolvedValueOnce([
+        submission('sub1', true),
+        submission('sub2', false),
+      ] as never);
+
+      const rows = await collect(exportSubmissions(league));
+
+      expect(rows.map((row) => row.values)).toEqual([{ albumin: 4.6 }, null]);
+      expect(prisma.biomarkerSubmission.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            leagueId: 'l1',
+            status: 'APPROVED',
+            athlete: { leagueMemberships: { some: { leagueId: 'l1' } } },
+          },
+        })
+      );
+    });
+  });
+
+  describe('exportStandings', () => {
+    it('merges final and live standings', async () => {
+      const season = { id: 's1', name: 'Season 2026', year: 2026, startDate: new Date('2026-01-01') };
+      vi.mocked(prisma.leagueLeaderboardEntry.findMany).mockResolvedValueOnce([
+        {
+          season,
+          rank: 1,
+          previousRank: 2,
+          scoringStrategy: 'TOP_N_AVERAGE',
+          avgAgeReduction: 5,
+          totalMembers: 10,
+          activeMembers: 7,
+          bestIndividual: 9,
+          worstIndividual: 1,
+        },
+      ] as never);
+
+      const rows = await collect(exportStandings(league));
+
+      expect(rows).toEqual([expect.objectContaining({ season: 'Season 2026', final: false, rank: 1, score: 5 })]);
+    });
+  });
+
+  describe('streamLeagueExport', () => {
+    it('streams one dataset as CSV', async () => {
+      vi.mocked(prisma.leagueMember.findMany).mockResolvedValueOnce([member(0)] as never);
+
+      const csv = await readText(toReadableStream(streamLeagueExport(league, { format: 'csv', dataset: 'members' })));
+      const [header, row] = csv.split('\r\n');
+
+      expect(header).toMatch(/^Athlete ID,Athlete,Profile Slug,Role,Owner,Joined At/);
+      expect(row).toMatch(/^a0,Athlete 0,athlete-0,ADMIN,true,2026-01-01T00:00:00.000Z/);
+    });
+
+    it('streams the column dictionary as CSV without reading the league', async () => {
+      const csv = await readText(
+        toReadableStream(streamLeagueExport(league, { format: 'csv', dataset: 'dictionary' }))
+      );
+
+      expect(csv.startsWith('Dataset,Column,Description\r\nMembers,Athlete ID,')).toBe(true);
+      expect(prisma.leagueMember.findMany).not.toHaveBeenCalled();
+    });
+
+    it('streams every dataset into one workbook', async () => {
+      vi.mocked(prisma.leagueMember.findMany).mockResolvedValueOnce([member(0)] as never);
+
+      const stream = toReadableStream(streamLeagueExport(league, { format: 'xlsx', dataset: null }));
+      const workbook = Buffer.from(await new Response(stream).arrayBuffer());
+
+      expect(workbook.subarray(0, 2).toString()).toBe('PK');
+      expect(prisma.leagueMember.findMany).toHaveBeenCalled();
+      expect(prisma.seasonFinalLeagueStanding.findMany).toHaveBeenCalled();
+      // Members (with their results) and submissions both read approved submissions
+      expect(prisma.biomarkerSubmission.findMany).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('toReadableStream', () => {
+    it('fails the download when reading fails mid-export', async () => {
+      async function* chunks() {
+        yield 'header\r\n';
+        throw new Error('Database went away');
+      }
+
+      await expect(readText(toReadableStream(chunks(), { leagueId: 'l1' }))).rejects.toThrow('Database went away');
+    });
+
+    it('stops reading when the download is canceled', async () => {
+      let finished = false;
+      async function* chunks() {
+        try {
+          yield 'one';
+          yield 'two';
+        } finally {
+          finished = true;
+        }
+      }
+
+      const reader = toReadableStream(chunks()).getReader();
+      await reader.read();
+      await reader.cancel();
+
+      expect(finished).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * League Export Service - Streaming league exports
+ *
+ * Rows are read in batches of EXPORT_BATCH_SIZE with cursor pagination and
+ * written out as they arrive, so exporting a large league holds one batch
+ * in memory rather than the whole league.
+ *
+ * ## Usage
+ * ```typescript
+ * import { streamLeagueExport, toReadableStream } from '@/lib/league-export';
+ *
+ * const chunks = streamLeagueExport(league, { format: 'xlsx', dataset: null });
+ * return new NextResponse(toReadableStream(chunks), { headers });
+ * ```
+ *
+ * @module lib/league-export/export-service
+ */
+
+import type { League } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { streamCsv, type CsvValue } from '@/lib/csv';
+import { domainLoggers } from '@/lib/logger';
+import { streamXlsx } from '@/lib/xlsx';
+import {
+  DICTIONARY_HEADERS,
+  EXPORT_DATASETS,
+  EXPORT_SHEET_NAMES,
+  MEMBER_COLUMNS,
+  STANDING_COLUMNS,
+  SUBMISSION_COLUMNS,
+  getColumnDictionary,
+  mergeStandings,
+  summarizeResults,
+  toExportRow,
+  toSubmissionExportRow,
+  type ExportColumn,
+  type ExportDataset,
+  type ExportRequest,
+  type ExportResult,
+  type MemberExportRow,
+  type StandingExportRow,
+  type SubmissionExportRow,
+} from './datasets';
+
+const log = domainLoggers.leagues;
+
+/** Rows read per query */
+export const EXPORT_BATCH_SIZE = 500;
+
+type ExportLeague = Pick<League, 'id' | 'ownerId'>;
+
+/**
+ * Pages of up to EXPORT_BATCH_SIZE rows, each query continuing after the
+ * previous page's last row
+ */
+async function* inBatches<Row extends { id: string }>(
+  loadPage: (page: { take: number; skip?: number; cursor?: { id: string } }) => Promise<Row[]>
+): AsyncGenerator<Row[]> {
+  let cursor: string | null = null;
+  for (;;) {
+    const rows = await loadPage(
+      cursor ? { take: EXPORT_BATCH_SIZE, skip: 1, cursor: { id: cursor } } : { take: EXPORT_BATCH_SIZE }
+    );
+    if (rows.length > 0) yield rows;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+    cursor = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * The roster, earliest members first, with each member's best and latest
+ * approved result in the league
+ */
+export async function* exportMembers(league: ExportLeague): AsyncGenerator<MemberExportRow> {
+  const pages = inBatches((page) =>
+    prisma.leagueMember.findMany({
+      where: { leagueId: league.id },
+      orderBy: [{ joinedAt: 'asc' }, { id: 'asc' }],
+      select: {
+        id: true,
+        role: true,
+        joinedAt: true,
+        athlete: {
+          select: {
+            id: true,
+            userId: true,
+            displayName: true,
+            slug: true,
+            division: true,
+            generation: true,
+            verified: true,
+          },
+        },
+      },
+      ...page,
+    })
+  );
+
+  for await (const members of pages) {
+    const submissions = await prisma.biomarkerSubmission.findMany({
+      where: {
+        leagueId: league.id,
+        status: 'APPROVED',
+        athleteId: { in: members.map((member) => member.athlete.id) },
+      },
+      select: { athleteId: true, phenoAge: true, ageReduction: true, paceOfAging: true, submittedAt: true },
+    });
+
+    const resultsByAthlete = new Map<string, ExportResult[]>();
+    for (const { athleteId, ...result } of submissions) {
+      const results = resultsByAthlete.get(athleteId) ?? [];
+      results.push(result);
+      resultsByAthlete.set(athleteId, results);
+    }
+
+    for (const { athlete, role, joinedAt } of members) {
+      yield {
+        athleteId: athlete.id,
+        displayName: athlete.displayName,
+        slug: athlete.slug,
+        role,
+        owner: athlete.userId === league.ownerId,
+        joinedAt,
+        division: athlete.division,
+        generation: athlete.generation,
+        verified: athlete.verified,
+        ...summarizeResults(resultsByAthlete.get(athlete.id) ?? []),
+      };
+    }
+  }
+}
+
+/**
+ * Approved submissions to the league by current members, oldest first;
+ * biomarker values only for athletes who share them
+ */
+export async function* exportSubmissions(league: ExportLeague): AsyncGenerator<SubmissionExportRow> {
+  const pages = inBatches((page) =>
+    prisma.biomarkerSubmission.findMany({
+      where: {
+        leagueId: league.id,
+        status: 'APPROVED',
+        athlete: { leagueMemberships: { some: { leagueId: league.id } } },
+      },
+      orderBy: [{ submittedAt: 'asc' }, { id: 'asc' }],
+      select: {
+        id: true,
+        athleteId: true,
+        submittedAt: true,
+        collectedAt: true,
+        verifiedAt: true,
+        algorithmId: true,
+        phenoAge: true,
+        ageReduction: true,
+        paceOfAging: true,
+        season: { select: { name: true } },
+        athlete: { select: { displayName: true, shareBiomarkersWithLeagues: true } },
+        values: { select: { biomarkerKey: true, value: true, unit: true } },
+      },
+      ...page,
+    })
+  );
+
+  for await (const submissions of pages) {
+    yield* submissions.map(toSubmissionExportRow);
+  }
+}
+
+/**
+ * The league's leaderboard history, one row per season (at most a few dozen)
+ */
+export async function* exportStandings(league: ExportLeague): AsyncGenerator<StandingExportRow> {
+  const season = { select: { id: true, name: true, year: true, startDate: true } };
+  const [finals, live] = await Promise.all([
+    prisma.seasonFinalLeagueStanding.findMany({ where: { leagueId: league.id }, include: { season } }),
+    prisma.leagueLeaderboardEntry.findMany({ where: { leagueId: league.id }, include: { season } }),
+  ]);
+
+  yield* mergeStandings(finals, live);
+}
+
+async function* toRows<Row>(columns: ExportColumn<Row>[], rows: AsyncIterable<Row>): AsyncGenerator<CsvValue[]> {
+  for await (const row of rows) yield toExportRow(columns, row);
+}
+
+function toTable<Row>(
+  columns: ExportColumn<Row>[],
+  rows: AsyncIterable<Row>
+): { headers: string[]; rows: AsyncGenerator<CsvValue[]> } {
+  return { headers: columns.map((column) => column.header), rows: toRows(columns, rows) };
+}
+
+/**
+ * A dataset's headers and rows, in column order
+ */
+function getDataset(
+  league: ExportLeague,
+  dataset: ExportDataset
+): { headers: string[]; rows: AsyncGenerator<CsvValue[]> } {
+  switch (dataset) {
+    case 'members':
+      return toTable(MEMBER_COLUMNS, exportMembers(league));
+    case 'submissions':
+      return toTable(SUBMISSION_COLUMNS, exportSubmissions(league));
+    case 'standings':
+      return toTable(STANDING_COLUMNS, exportStandings(league));
+  }
+}
+
+/**
+ * An export as a stream of chunks: one CSV document, or an XLSX workbook
+ * with the requested sheet (all of them by default) and the column dictionary
+ */
+export function streamLeagueExport(league: ExportLeague, request: ExportRequest): AsyncGenerator<string | Buffer> {
+  const { dataset } = request;
+  log.info('League export started', { leagueId: league.id, format: request.format, dataset });
+
+  if (request.format === 'csv') {
+    if (dataset === 'dictionary' || dataset === null) {
+      return streamCsv(DICTIONARY_HEADERS, getColumnDictionary());
+    }
+    const { headers, rows } = getDataset(league, dataset);
+    return streamCsv(headers, rows);
+  }
+
+  const datasets = dataset === null ? EXPORT_DATASETS : EXPORT_DATASETS.filter((name) => name === dataset);
+  return streamXlsx([
+    ...datasets.map((name) => ({ name: EXPORT_SHEET_NAMES[name], ...getDataset(league, name) })),
+    { name: EXPORT_SHEET_NAMES.dictionary, headers: DICTIONARY_HEADERS, rows: getColumnDictionary() },
+  ]);
+}
+
+/**
+ * A response body from export chunks; failures mid-export are logged and
+ * abort the download, since the status line has already been sent
+ */
+export function toReadableStream(
+  chunks: AsyncGenerator<string | Buffer>,
+  context: Record<string, unknown> = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value));
+        }
+      } catch (error) {
+        log.error('League export failed', error, context);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * League Export Module
+ *
+ * Downloads of a league's roster, approved submissions and standings history
+ * for league managers (a STARTER feature), as streamed CSV or XLSX with the
+ * column dictionary. Biomarker values are only exported for athletes who
+ * share them with their leagues.
+ *
+ * @example
+ * ```typescript
+ * import { parseExportRequest, streamLeagueExport, toReadableStream } from '@/lib/league-export';
+ *
+ * const { request, errors } = parseExportRequest({ format: 'csv', dataset: 'members' });
+ * return new NextResponse(toReadableStream(streamLeagueExport(league, request)));
+ * ```
+ *
+ * @module lib/league-export
+ */
+
+export {
+  DICTIONARY_HEADERS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  EXPORT_SHEET_NAMES,
+  MEMBER_COLUMNS,
+  STANDING_COLUMNS,
+  SUBMISSION_COLUMNS,
+  getColumnDictionary,
+  getExportFilename,
+  mergeStandings,
+  parseExportRequest,
+  summarizeResults,
+  toExportRow,
+  toSubmissionExportRow,
+} from './datasets';
+export type {
+  ExportColumn,
+  ExportDataset,
+  ExportFormat,
+  ExportRequest,
+  ExportResult,
+  MemberExportRow,
+  StandingExportRow,
+  SubmissionExportRow,
+} from './datasets';
+export {
+  EXPORT_BATCH_SIZE,
+  exportMembers,
+  exportStandings,
+  exportSubmissions,
+  streamLeagueExport,
+  toReadableStream,
+} from './export-service';
@@ -0,0 +1,28 @@
+/**
+ * League Scoring Module
+ *
+ * League leaderboard scores, computed with each league's scoring strategy.
+ * Client components should import the strategy labels from
+ * `@/lib/league-scoring/strategies`, which has no database access.
+ *
+ * @module lib/league-scoring
+ */
+
+export {
+  calculateLeagueScore,
+  updateLeagueLeaderboardEntry,
+  recalculateAllLeagueRanks,
+  refreshAllLeagueScores,
+  onSubmissionApproved,
+  getLeagueTierInfo,
+} from "./league-scoring";
+export {
+  DEFAULT_SCORING_STRATEGY,
+  TOP_N_MEMBERS,
+  SCORING_STRATEGIES,
+  SCORING_STRATEGY_IDS,
+  isScoringStrategy,
+  getScoringStrategy,
+  scoreMembers,
+} from "./strategies";
+export type { MemberResult, ScoredMember, StrategyScore, ScoringStrategyDefinition } from "./strategies";
@@ -1,21 +1,21 @@
 import { prisma } from "@/lib/db";
+import type { LeagueScoringStrategy } from "@/types";
+import { getScoringStrategy, scoreMembers, type MemberResult } from "./strategies";
 
 /**
  * League Scoring Algorithm
  *
- * League score = average of top N members' best age reductions
- * - For leagues with 10+ active members: use top 10
- * - For leagues with <10 active members: use all active members
- *
- * This prevents sandbagging (adding bad performers to lower average)
- * and rewards recruiting top performers.
+ * Each league scores its members' best age reductions with its own strategy
+ * (League.scoringStrategy, see ./strategies). The default averages the top
+ * 10 members (or all, if fewer), which prevents sandbagging (adding bad
+ * performers to lower the average) and rewards recruiting top performers.
  */
 
-const TOP_N_MEMBERS = 10;
-
 interface LeagueScoringResult {
   leagueId: string;
   seasonId: string;
+  scoringStrategy: LeagueScoringStrategy;
+  /** League score under the strategy (years) */
   avgAgeReduction: number;
   totalMembers: number;
   activeMembers: number;
@@ -31,6 +31,17 @@ export async function calculateLeagueScore(
   leagueId: string,
   seasonId: string
 ): Promise<LeagueScoringResult | null> {
+  const league = await prisma.league.findUnique({
+    where: { id: leagueId },
+    select: { scoringStrategy: true },
+  });
+
+  if (!league) {
+    return null;
+  }
+
+  const strategy = getScoringStrategy(league.scoringStrategy);
+
   // Get all members with their best submissions
   const members = await prisma.leagueMember.findMany({
     where: { leagueId },
@@ -42,7 +53,7 @@ export async function calculateLeagueScore(
   }
 
   // Get best age reduction for each member this season
-  const memberScores = await Promise.all(
+  const memberResults: MemberResult[] = await Promise.all(
     members.map(async (member) => {
       const bestSubmission = await prisma.biomarkerSubmission.findFirst({
         where: {
@@ -55,17 +66,31 @@ export async function calculateLeagueScore(
         select: { ageReduction: true },
       });
 
-      return bestSubmission?.ageReduction ?? null;
+      // Baseline only matters for improvement scoring
+      const firstSubmission =
+        bestSubmission && strategy.id === "AVERAGE_IMPROVEMENT"
+          ? await prisma.biomarkerSubmission.findFirst({
+              where: { athleteId: member.athleteId, status: "APPROVED" },
+              orderBy: { submittedAt: "asc" },
+              select: { ageReduction: true },
+            })
+          : null;
+
+      return {
+        athleteId: member.athleteId,
+        bestAgeReduction: bestSubmission?.ageReduction ?? null,
+        baselineAgeReduction: firstSubmission?.ageReduction ?? null,
+      };
     })
   );
 
-  // Filter out members without submissions
-  const activeScores = memberScores.filter((s): s is number => s !== null);
+  const result = scoreMembers(strategy, memberResults);
 
-  if (activeScores.length === 0) {
+  if (!result) {
     return {
       leagueId,
       seasonId,
+      scoringStrategy: strategy.id,
       avgAgeReduction: 0,
       totalMembers: members.length,
       activeMembers: 0,
@@ -75,25 +100,21 @@ export async function calculateLeagueScore(
     };
   }
 
-  // Sort descending (best first)
-  const sortedScores = [...activeScores].sort((a, b) => b - a);
-
-  // Take top N or all if less than N
-  const topScores = sortedScores.slice(0, TOP_N_MEMBERS);
-
-  // Calculate average of top performers
-  const avgAgeReduction =
-    topScores.reduce((sum, score) => sum + score, 0) / topScores.length;
+  const activeScores = memberResults
+    .map((member) => member.bestAgeReduction)
+    .filter((score): score is number => score !== null)
+    .sort((a, b) => b - a);
 
   return {
     leagueId,
     seasonId,
-    avgAgeReduction,
+    scoringStrategy: strategy.id,
+    avgAgeReduction: result.score,
     totalMembers: members.length,
     activeMembers: activeScores.length,
-    bestIndividual: sortedScores[0],
-    worstIndividual: sortedScores[sortedScores.length - 1],
-    topMemberScores: topScores,
+    bestIndividual: activeScores[0],
+    worstIndividual: activeScores[activeScores.length - 1],
+    topMemberScores: result.counted.map((member) => member.bestAgeReduction),
   };
 }
 
@@ -127,6 +148,7 @@ export async function updateLeagueLeaderboardEntry(
       leagueId_seasonId: { leagueId, seasonId },
     },
     update: {
+      scoringStrategy: score.scoringStrategy,
       avgAgeReduction: score.avgAgeReduction,
       totalMembers: score.totalMembers,
       activeMembers: score.activeMembers,
@@ -138,6 +160,7 @@ export async function updateLeagueLeaderboardEntry(
       leagueId,
       seasonId,
       rank: 0, // Will be set by recalculateAllRanks
+      scoringStrategy: score.scoringStrategy,
       avgAgeReduction: score.avgAgeReduction,
       totalMembers: score.totalMembers,
       activeMembers: score.activeMembers,
@@ -241,7 +264,7 @@ export function getLeagueTierInfo(tier: string): {
     PRO: {
       name: "Pro",
       memberLimit: 250,
-      features: ["White-label options", "API access", "Custom domain", "Advanced analytics"],
+      features: ["White-label options", "Custom domain", "Advanced analytics"],
     },
     ENTERPRISE: {
       name: "Enterprise",
@@ -0,0 +1,113 @@
+/**
+ * League Scoring Strategy Tests
+ *
+ * Tests each strategy's score and the fallback for unknown strategies.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SCORING_STRATEGY,
+  SCORING_STRATEGIES,
+  getScoringStrategy,
+  isScoringStrategy,
+  scoreMembers,
+  type MemberResult,
+} from "./strategies";
+
+function member(
+  athleteId: string,
+  bestAgeReduction: number | null,
+  baselineAgeReduction: number | null = bestAgeReduction
+): MemberResult {
+  return { athleteId, bestAgeReduction, baselineAgeReduction };
+}
+
+describe("League Scoring Strategies", () => {
+  describe("TOP_N_AVERAGE", () => {
+    it("should average only the top 10 members", () => {
+      const members = Array.from({ length: 12 }, (_, i) => member(`a${i}`, 12 - i));
+      const result = scoreMembers(SCORING_STRATEGIES.TOP_N_AVERAGE, members);
+
+      // 12..3 averaged; 2 and 1 are left out
+      expect(result?.score).toBeCloseTo(7.5);
+      expect(result?.counted).toHaveLength(10);
+    });
+
+    it("should average all members when fewer than 10 submitted", () => {
+      const result = scoreMembers(SCORING_STRATEGIES.TOP_N_AVERAGE, [
+        member("a", 6),
+        member("b", 2),
+        member("c", null),
+      ]);
+      expect(result?.score).toBe(4);
+    });
+  });
+
+  describe("MEDIAN", () => {
+    it("should use the middle value for an odd count", () => {
+      const result = scoreMembers(SCORING_STRATEGIES.MEDIAN, [
+        member("a", 1),
+        member("b", 20),
+        member("c", 3),
+      ]);
+      expect(result?.score).toBe(3);
+    });
+
+    it("should average the two middle values for an even count", () => {
+      const result = scoreMembers(SCORING_STRATEGIES.MEDIAN, [
+        member("a", 1),
+        member("b", 2),
+        member("c", 4),
+        member("d", 10),
+      ]);
+      expect(result?.score).toBe(3);
+    });
+  });
+
+  describe("PARTICIPATION_WEIGHTED", () => {
+    it("should scale the average by the share of members who submitted", () => {
+      const result = scoreMembers(SCORING_STRATEGIES.PARTICIPATION_WEIGHTED, [
+        member("a", 6),
+        member("b", 4),
+        member("c", null),
+        member("d", null),
+      ]);
+      expect(result?.score).toBe(2.5);
+    });
+  });
+
+  describe("AVERAGE_IMPROVEMENT", () => {
+    it("should average each member's gain over their first submission", () => {
+      const result = scoreMembers(SCORING_STRATEGIES.AVERAGE_IMPROVEMENT, [
+        member("a", 5, 2),
+        member("b", 1, 0),
+      ]);
+      expect(result?.score).toBe(2);
+    });
+
+    it("should count a member without a baseline as no improvement", () => {
+      const result = scoreMembers(SCORING_STRATEGIES.AVERAGE_IMPROVEMENT, [
+        member("a", 5, null),
+        member("b", 4, 0),
+      ]);
+      expect(result?.score).toBe(2);
+    });
+  });
+
+  it("should return null when no member has submitted", () => {
+    expect(scoreMembers(SCORING_STRATEGIES.MEDIAN, [member("a", null)])).toBeNull();
+  });
+
+  describe("getScoringStrategy", () => {
+    it("should resolve stored ids", () => {
+      expect(getScoringStrategy("MEDIAN").id).toBe("MEDIAN");
+      expect(isScoringStrategy("PARTICIPATION_WEIGHTED")).toBe(true);
+    });
+
+    it("should fall back to the default for unknown ids", () => {
+      expect(isScoringStrategy("BEST_ONLY")).toBe(false);
+      expect(getScoringStrategy("BEST_ONLY").id).toBe(DEFAULT_SCORING_STRATEGY);
+      expect(getScoringStrategy(null).id).toBe(DEFAULT_SCORING_STRATEGY);
+    });
+  });
+});
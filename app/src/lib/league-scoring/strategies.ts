@@ -0,0 +1,132 @@
+import type { LeagueScoringStrategy } from "@/types";
+
+/**
+ * League Scoring Strategies
+ *
+ * How a league's members' results become one league score. Each league
+ * picks a strategy (League.scoringStrategy); the score is stored on its
+ * LeagueLeaderboardEntry together with the strategy that produced it.
+ *
+ * Client components import the labels from here, so it stays free of
+ * database access.
+ *
+ * ## Extension Points
+ * - **New strategies**: Add the id to LeagueScoringStrategy in @/types and an
+ *   entry to SCORING_STRATEGIES
+ */
+
+/** Default strategy: top 10 members' average age reduction */
+export const DEFAULT_SCORING_STRATEGY: LeagueScoringStrategy = "TOP_N_AVERAGE";
+
+export const TOP_N_MEMBERS = 10;
+
+/** A league member's results for the season */
+export interface MemberResult {
+  athleteId: string;
+  /** Best approved age reduction this season; null if they haven't submitted */
+  bestAgeReduction: number | null;
+  /** Age reduction of their first approved submission ever (baseline) */
+  baselineAgeReduction: number | null;
+}
+
+/** An active member counted by a strategy */
+export interface ScoredMember extends MemberResult {
+  bestAgeReduction: number;
+}
+
+export interface StrategyScore {
+  score: number;
+  /** Members whose results make up the score, best first */
+  counted: ScoredMember[];
+}
+
+export interface ScoringStrategyDefinition {
+  id: LeagueScoringStrategy;
+  label: string;
+  description: string;
+  /** Score from the active members (at least one), sorted best first */
+  score: (active: ScoredMember[], totalMembers: number) => StrategyScore;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export const SCORING_STRATEGIES: Record<LeagueScoringStrategy, ScoringStrategyDefinition> = {
+  TOP_N_AVERAGE: {
+    id: "TOP_N_AVERAGE",
+    label: `Top ${TOP_N_MEMBERS} average`,
+    description: `Average age reduction of the best ${TOP_N_MEMBERS} members (or all, if fewer). Adding weaker members can't lower the score.`,
+    score: (active) => {
+      const counted = active.slice(0, TOP_N_MEMBERS);
+      return { score: average(counted.map((m) => m.bestAgeReduction)), counted };
+    },
+  },
+  MEDIAN: {
+    id: "MEDIAN",
+    label: "Median",
+    description: "Median age reduction of all members who submitted. Not skewed by a few outliers.",
+    score: (active) => ({
+      score: median(active.map((m) => m.bestAgeReduction)),
+      counted: active,
+    }),
+  },
+  PARTICIPATION_WEIGHTED: {
+    id: "PARTICIPATION_WEIGHTED",
+    label: "Participation-weighted",
+    description: "Average age reduction of all members who submitted, scaled by the share of members who submitted.",
+    score: (active, totalMembers) => ({
+      score: average(active.map((m) => m.bestAgeReduction)) * (active.length / Math.max(totalMembers, active.length)),
+      counted: active,
+    }),
+  },
+  AVERAGE_IMPROVEMENT: {
+    id: "AVERAGE_IMPROVEMENT",
+    label: "Average improvement",
+    description: "Average gain in age reduction since each member's first submission.",
+    score: (active) => ({
+      score: average(active.map((m) => m.bestAgeReduction - (m.baselineAgeReduction ?? m.bestAgeReduction))),
+      counted: active,
+    }),
+  },
+};
+
+export const SCORING_STRATEGY_IDS = Object.keys(SCORING_STRATEGIES) as LeagueScoringStrategy[];
+
+/**
+ * Check whether a value is a known strategy id
+ */
+export function isScoringStrategy(value: unknown): value is LeagueScoringStrategy {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(SCORING_STRATEGIES, value);
+}
+
+/**
+ * Strategy definition for a stored id; unknown ids fall back to the default
+ */
+export function getScoringStrategy(id: string | null | undefined): ScoringStrategyDefinition {
+  return isScoringStrategy(id) ? SCORING_STRATEGIES[id] : SCORING_STRATEGIES[DEFAULT_SCORING_STRATEGY];
+}
+
+/**
+ * Score a league's members with a strategy; null when no member has submitted
+ */
+export function scoreMembers(
+  strategy: ScoringStrategyDefinition,
+  members: MemberResult[]
+): StrategyScore | null {
+  const active = members
+    .filter((m): m is ScoredMember => m.bestAgeReduction !== null)
+    .sort((a, b) => b.bestAgeReduction - a.bestAgeReduction);
+
+  if (active.length === 0) {
+    return null;
+  }
+
+  return strategy.score(active, members.length);
+}
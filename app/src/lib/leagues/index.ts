@@ -0,0 +1,91 @@
+/**
+ * Leagues Module
+ *
+ * Ways into a league and who may let people in:
+ * - Membership: the checks every way in applies, and who manages a league
+ * - Invites: the landing page preview, accepting (joining with the invited
+ *   role), declining and resending
+ * - Join links: reusable codes with optional usage caps and expiry
+ * - Join requests: the approval queue of REQUEST-policy leagues
+ *
+ * @example
+ * ```typescript
+ * import { acceptInvite, getInvitePreview } from '@/lib/leagues';
+ *
+ * const preview = await getInvitePreview(token);
+ * await acceptInvite(token, { email: user.email, athleteId: athlete.id, athleteName: athlete.displayName });
+ * ```
+ *
+ * @module lib/leagues
+ */
+
+export { LEAGUE_MANAGER_ROLES, getMembershipProblem } from './membership';
+export type { MembershipContext, MembershipProblem, MembershipProblemCode } from './membership';
+export {
+  MEMBERSHIP_PROBLEM_STATUS,
+  addLeagueMember,
+  canManageLeague,
+  getMembershipContext,
+  notifyLeagueManagers,
+  requireLeagueManager,
+  toLeaguePreview,
+  toProblemError,
+} from './membership-service';
+export type { LeagueJoinResult } from './membership-service';
+export {
+  acceptInvite,
+  declineInvite,
+  getInvitePreview,
+  resendInvite,
+} from './invite-service';
+export type { AcceptInviteResult, InviteAccount } from './invite-service';
+export {
+  INVITE_TTL_DAYS,
+  INVITE_STATUSES,
+  getClosedInviteProblem,
+  getInviteExpiry,
+  getInviteProblem,
+  getInviteStatus,
+  isInviteFor,
+  normalizeEmail,
+} from './invites';
+export type {
+  InviteStatus,
+  InviteState,
+  InviteProblem,
+  InviteProblemCode,
+  InviteAcceptanceContext,
+} from './invites';
+export {
+  JOIN_POLICIES,
+  JOIN_REQUEST_STATUSES,
+  JOIN_CODE_LENGTH,
+  MAX_JOIN_LINK_USES,
+  generateJoinCode,
+  getJoinLinkProblem,
+  getJoinLinkStatus,
+  isJoinPolicy,
+  normalizeJoinCode,
+  parseJoinLinkOptions,
+} from './join-links';
+export type {
+  JoinPolicy,
+  JoinRequestStatus,
+  JoinLinkStatus,
+  JoinLinkState,
+  JoinLinkOptions,
+  JoinLinkProblem,
+  JoinLinkProblemCode,
+} from './join-links';
+export {
+  approveJoinRequest,
+  createJoinLink,
+  denyJoinRequest,
+  getJoinLinkPreview,
+  joinWithLink,
+  listJoinLinks,
+  listJoinRequests,
+  requestToJoin,
+  revokeJoinLink,
+} from './join-service';
+export type { JoiningAthlete } from './join-service';
@@ -0,0 +1,278 @@
+/**
+ * League Invite Service Tests
+ * Tests accepting, declining and resending invites and their guards
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { ApiHttpError, ConflictError, ForbiddenError } from '@/lib/api-utils';
+import { sendLeagueInvite, sendLeagueMemberJoined } from '@/lib/email';
+import { badgeService } from '@/lib/badges';
+import { acceptInvite, declineInvite, getInvitePreview, resendInvite } from './invite-service';
+
+const tx = {
+  $queryRaw: vi.fn(),
+  leagueInvite: { findUnique: vi.fn(), updateMany: vi.fn() },
+  leagueMember: { findUnique: vi.fn(), count: vi.fn(), create: vi.fn() },
+  leagueJoinRequest: { deleteMany: vi.fn() },
+  leagueSubscription: { findMany: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+    leagueInvite: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+    },
+    leagueMember: { findMany: vi.fn(), count: vi.fn() },
+    leagueSubscription: { findMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendLeagueInvite: vi.fn(),
+  sendLeagueMemberJoined: vi.fn(),
+}));
+
+vi.mock('@/lib/badges', () => ({
+  badgeService: { checkAndAwardBadges: vi.fn() },
+}));
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const league = {
+  id: 'l1',
+  name: 'Longevity Lab',
+  slug: 'longevity-lab',
+  description: null,
+  logo: null,
+  type: 'COLLECTIVE' as const,
+  tier: 'FREE' as const,
+  status: 'ACTIVE',
+  ownerId: 'owner1',
+  _count: { members: 4 },
+};
+
+function invite(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'inv1',
+    leagueId: 'l1',
+    email: 'ada@example.com',
+    role: 'CAPTAIN',
+    token: 'token123',
+    expiresAt: new Date('2026-03-15T12:00:00Z'),
+    acceptedAt: null,
+    declinedAt: null,
+    sentAt: new Date('2026-03-08T12:00:00Z'),
+    league,
+    ...overrides,
+  };
+}
+
+const account = { email: 'Ada@example.com', athleteId: 'a1', athleteName: 'Ada' };
+
+/** Member counts seen inside the accept transaction */
+function memberCounts(league: number, athlete: number) {
+  tx.leagueMember.count.mockImplementation(({ where }: { where: { leagueId?: string } }) =>
+    Promise.resolve(where.leagueId ? league : athlete)
+  );
+}
+
+describe('League Invite Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (client: typeof tx) => unknown) => fn(tx)) as never);
+    vi.mocked(sendLeagueInvite).mockResolvedValue({} as never);
+    vi.mocked(sendLeagueMemberJoined).mockResolvedValue({} as never);
+    vi.mocked(badgeService.checkAndAwardBadges).mockResolvedValue({} as never);
+    vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([]);
+    tx.leagueSubscription.findMany.mockResolvedValue([]);
+
+    tx.leagueInvite.findUnique.mockResolvedValue(invite());
+    tx.leagueInvite.updateMany.mockResolvedValue({ count: 1 });
+    tx.leagueMember.findUnique.mockResolvedValue(null);
+    memberCounts(4, 1);
+    tx.leagueMember.create.mockResolvedValue({ id: 'm1', role: 'CAPTAIN', joinedAt: now });
+    tx.leagueJoinRequest.deleteMany.mockResolvedValue({ count: 0 });
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'owner@example.com', firstName: 'Olive' } as never);
+    vi.mocked(prisma.leagueMember.findMany).mockResolvedValue([]);
+  });
+
+  describe('getInvitePreview', () => {
+    it('returns null for unknown tokens', async () => {
+      vi.mocked(prisma.leagueInvite.findUnique).mockResolvedValue(null);
+      expect(await getInvitePreview('nope', now)).toBeNull();
+    });
+
+    it('describes the league, status and limit', async () => {
+      vi.mocked(prisma.leagueInvite.findUnique).mockResolvedValue(invite() as never);
+
+      const preview = await getInvitePreview('token123', now);
+
+      expect(preview).toMatchObject({
+        email: 'ada@example.com',
+        role: 'CAPTAIN',
+        status: 'PENDING',
+        league: { name: 'Longevity Lab', memberCount: 4, memberLimit: 10 },
+      });
+    });
+
+    it('reports unlimited tiers without a limit', async () => {
+      vi.mocked(prisma.leagueInvite.findUnique).mockResolvedValue(
+        invite({ league: { ...league, tier: 'ENTERPRISE' } }) as never
+      );
+
+      expect((await getInvitePreview('token123', now))?.league.memberLimit).toBeNull();
+    });
+  });
+
+  describe('acceptInvite', () => {
+    it('creates the membership with the invited role and claims the invite', async () => {
+      vi.mocked(prisma.leagueMember.count).mockResolvedValue(5);
+
+      const result = await acceptInvite('token123', account, now);
+
+      expect(tx.leagueInvite.updateMany).toHaveBeenCalledWith({
+        where: { id: 'inv1', acceptedAt: null, declinedAt: null },
+        data: { acceptedAt: now },
+      });
+      expect(tx.leagueMember.create).toHaveBeenCalledWith({
+        data: { leagueId: 'l1', athleteId: 'a1', role: 'CAPTAIN' },
+      });
+      expect(result).toEqual({
+        league: { id: 'l1', name: 'Longevity Lab', slug: 'longevity-lab' },
+        membership: { id: 'm1', role: 'CAPTAIN', joinedAt: now },
+      });
+      expect(badgeService.checkAndAwardBadges).toHaveBeenCalledWith('a1');
+      expect(sendLeagueMemberJoined).toHaveBeenCalledWith(
+        'owner@example.com',
+        expect.objectContaining({ newMemberName: 'Ada', memberCount: 5 })
+      );
+    });
+
+    it('refuses another account with 403', async () => {
+      const error = await acceptInvite('token123', { ...account, email: 'grace@example.com' }, now).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiHttpError);
+      expect(error.statusCode).toBe(403);
+      expect(error.details).toEqual({ code: 'EMAIL_MISMATCH' });
+      expect(tx.leagueMember.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses expired invites', async () => {
+      tx.leagueInvite.findUnique.mockResolvedValue(invite({ expiresAt: new Date('2026-03-09T00:00:00Z') }));
+
+      const error = await acceptInvite('token123', account, now).catch((e) => e);
+
+      expect(error.statusCode).toBe(400);
+      expect(error.details).toEqual({ code: 'EXPIRED' });
+    });
+
+    it('refuses full leagues and athletes at their league limit', async () => {
+      memberCounts(10, 1);
+      await expect(acceptInvite('token123', account, now)).rejects.toMatchObject({
+        statusCode: 402,
+        details: { code: 'LEAGUE_FULL' },
+      });
+
+      memberCounts(4, 3);
+      await expect(acceptInvite('token123', account, now)).rejects.toMatchObject({
+        details: { code: 'ATHLETE_LEAGUE_LIMIT' },
+      });
+      expect(tx.leagueMember.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses an invite claimed concurrently', async () => {
+      tx.leagueInvite.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(acceptInvite('token123', account, now)).rejects.toBeInstanceOf(ConflictError);
+      expect(tx.leagueMember.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('declineInvite', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.leagueInvite.findUnique).mockResolvedValue(invite() as never);
+      vi.mocked(prisma.leagueInvite.updateMany).mockResolvedValue({ count: 1 });
+    });
+
+    it('marks the invite declined', async () => {
+      await declineInvite('token123', 'ada@example.com', now);
+
+      expect(prisma.leagueInvite.updateMany).toHaveBeenCalledWith({
+        where: { id: 'inv1', acceptedAt: null, declinedAt: null },
+        data: { declinedAt: now },
+      });
+    });
+
+    it('only lets the invited account decline', async () => {
+      await expect(declineInvite('token123', 'grace@example.com', now)).rejects.toBeInstanceOf(ForbiddenError);
+      expect(prisma.leagueInvite.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses accepted invites', async () => {
+      vi.mocked(prisma.leagueInvite.findUnique).mockResolvedValue(invite({ acceptedAt: now }) as never);
+
+      await expect(declineInvite('token123', 'ada@example.com', now)).rejects.toMatchObject({
+        details: { code: 'ALREADY_ACCEPTED' },
+      });
+    });
+  });
+
+  describe('resendInvite', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.leagueInvite.findFirst).mockResolvedValue(invite() as never);
+      vi.mocked(prisma.leagueInvite.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.leagueInvite.findUniqueOrThrow).mockResolvedValue(invite() as never);
+      vi.mocked(prisma.leagueMember.count).mockResolvedValue(4);
+      vi.mocked(prisma.leagueInvite.count).mockResolvedValue(2);
+    });
+
+    it('renews the invite and emails it again', async () => {
+      await resendInvite('inv1', league, 'Olive', now);
+
+      expect(prisma.leagueInvite.updateMany).toHaveBeenCalledWith({
+        where: { id: 'inv1', acceptedAt: null, declinedAt: null },
+        data: { expiresAt: new Date('2026-03-17T12:00:00Z'), sentAt: now },
+      });
+      expect(sendLeagueInvite).toHaveBeenCalledWith('ada@example.com', {
+        inviteeName: 'ada',
+        leagueName: 'Longevity Lab',
+        inviterName: 'Olive',
+        inviteCode: 'token123',
+      });
+      // A pending invite already holds its place
+      expect(prisma.leagueMember.count).not.toHaveBeenCalled();
+    });
+
+    it('renews expired invites only while the league has room', async () => {
+      vi.mocked(prisma.leagueInvite.findFirst).mockResolvedValue(
+        invite({ expiresAt: new Date('2026-03-09T00:00:00Z') }) as never
+      );
+      vi.mocked(prisma.leagueInvite.count).mockResolvedValue(6);
+
+      await expect(resendInvite('inv1', league, 'Olive', now)).rejects.toMatchObject({
+        statusCode: 402,
+        details: { code: 'LEAGUE_FULL', upgrade: { requiredTier: 'STARTER' } },
+      });
+      expect(sendLeagueInvite).not.toHaveBeenCalled();
+
+      vi.mocked(prisma.leagueInvite.count).mockResolvedValue(5);
+      await resendInvite('inv1', league, 'Olive', now);
+      expect(sendLeagueInvite).toHaveBeenCalled();
+    });
+
+    it('refuses accepted and declined invites', async () => {
+      vi.mocked(prisma.leagueInvite.findFirst).mockResolvedValue(invite({ declinedAt: now }) as never);
+
+      await expect(resendInvite('inv1', league, 'Olive', now)).rejects.toBeInstanceOf(ConflictError);
+      expect(prisma.leagueInvite.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * League Invite Service - Redeeming, declining and resending invites
+ *
+ * - getInvitePreview: what the /invite/[token] landing page shows
+ * - acceptInvite: the signed-in athlete joins the league with the invited role
+ * - declineInvite: the invitee turns the invite down
+ * - resendInvite: a league manager renews an invite and emails it again
+ *
+ * Accepting and declining are guarded on the invite still being open, so an
+ * invite is redeemed at most once even when two requests race.
+ *
+ * ## Usage
+ * ```typescript
+ * import { acceptInvite } from '@/lib/leagues';
+ *
+ * const { league, membership } = await acceptInvite(token, {
+ *   email: user.email,
+ *   athleteId: athlete.id,
+ *   athleteName: athlete.displayName,
+ * });
+ * ```
+ *
+ * @module lib/leagues/invite-service
+ */
+
+import type { League, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '@/lib/api-utils';
+import { sendLeagueInvite } from '@/lib/email';
+import { requireMemberCapacity } from '@/lib/entitlements';
+import type { LeagueInvitePreview, LeagueMemberRole } from '@/types';
+import {
+  getClosedInviteProblem,
+  getInviteExpiry,
+  getInviteProblem,
+  getInviteStatus,
+  isInviteFor,
+  type InviteProblemCode,
+} from './invites';
+import {
+  MEMBERSHIP_PROBLEM_STATUS,
+  addLeagueMember,
+  getMembershipContext,
+  notifyLeagueManagers,
+  toLeaguePreview,
+  toProblemError,
+  type LeagueJoinResult,
+} from './membership-service';
+
+const log = domainLoggers.leagues;
+
+const inviteWithLeague = {
+  league: { include: { _count: { select: { members: true } } } },
+} satisfies Prisma.LeagueInviteInclude;
+
+const PROBLEM_STATUS: Record<InviteProblemCode, number> = {
+  ...MEMBERSHIP_PROBLEM_STATUS,
+  ALREADY_ACCEPTED: 409,
+  DECLINED: 409,
+  EXPIRED: 400,
+  EMAIL_MISMATCH: 403,
+};
+
+/** The accepting account */
+export interface InviteAccount {
+  email: string;
+  athleteId: string;
+  athleteName: string;
+}
+
+export type AcceptInviteResult = LeagueJoinResult;
+
+/**
+ * The league and state of an invite, or null for an unknown token
+ */
+export async function getInvitePreview(token: string, now: Date = new Date()): Promise<LeagueInvitePreview | null> {
+  const invite = await prisma.leagueInvite.findUnique({
+    where: { token },
+    include: inviteWithLeague,
+  });
+  if (!invite) return null;
+
+  return {
+    email: invite.email,
+    role: invite.role as LeagueMemberRole,
+    status: getInviteStatus(invite, now),
+    expiresAt: invite.expiresAt.toISOString(),
+    league: toLeaguePreview(invite.league),
+  };
+}
+
+/**
+ * Redeem an invite: the athlete joins the league with the invited role
+ *
+ * @throws NotFoundError for an unknown token
+ * @throws ApiHttpError (details.code) when the invite can't be accepted; see getInviteProblem
+ */
+export async function acceptInvite(
+  token: string,
+  account: InviteAccount,
+  now: Date = new Date()
+): Promise<AcceptInviteResult> {
+  const { invite, membership } = await prisma.$transaction(async (tx) => {
+    const invite = await tx.leagueInvite.findUnique({
+      where: { token },
+      include: { league: true },
+    });
+    if (!invite) {
+      throw new NotFoundError('Invite not found');
+    }
+
+    const membershipContext = await getMembershipContext(tx, invite.league, account.athleteId);
+    const problem = getInviteProblem({ ...membershipContext, invite, email: account.email }, now);
+    if (problem) {
+      throw toProblemError(problem, PROBLEM_STATUS);
+    }
+
+    // Claim the invite; a concurrent accept or decline finds it already used
+    const claimed = await tx.leagueInvite.updateMany({
+      where: { id: invite.id, acceptedAt: null, declinedAt: null },
+      data: { acceptedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError('This invite has already been used');
+    }
+
+    const membership = await addLeagueMember(tx, invite.leagueId, account.athleteId, invite.role);
+
+    return { invite, membership };
+  });
+
+  const { league } = invite;
+  log.info('League invite accepted', { inviteId: invite.id, leagueId: league.id, athleteId: account.athleteId });
+
+  await notifyLeagueManagers(league, { id: account.athleteId, displayName: account.athleteName });
+
+  return {
+    league: { id: league.id, name: league.name, slug: league.slug },
+    membership: { id: membership.id, role: membership.role, joinedAt: membership.joinedAt },
+  };
+}
+
+/**
+ * Turn down an invite; only the invited account can decline it
+ *
+ * @throws NotFoundError for an unknown token
+ * @throws ApiHttpError (details.code) when the invite is no longer open or
+ *   was sent to another address
+ */
+export async function declineInvite(token: string, email: string, now: Date = new Date()): Promise<void> {
+  const invite = await prisma.leagueInvite.findUnique({ where: { token } });
+  if (!invite) {
+    throw new NotFoundError('Invite not found');
+  }
+
+  const closed = getClosedInviteProblem(invite, now);
+  if (closed) {
+    throw toProblemError(closed, PROBLEM_STATUS);
+  }
+  if (!isInviteFor(invite, email)) {
+    throw new ForbiddenError('This invite was sent to another email address');
+  }
+
+  const declined = await prisma.leagueInvite.updateMany({
+    where: { id: invite.id, acceptedAt: null, declinedAt: null },
+    data: { declinedAt: now },
+  });
+  if (declined.count === 0) {
+    throw new ConflictError('This invite has already been used');
+  }
+
+  log.info('League invite declined', { inviteId: invite.id, leagueId: invite.leagueId });
+}
+
+/**
+ * Renew an open or expired invite for another INVITE_TTL_DAYS and email it again
+ *
+ * An expired invite no longer holds a place in the league, so it is only
+ * renewed while the league has room for it.
+ *
+ * @throws NotFoundError if the invite isn't one of the league's
+ * @throws ConflictError if the invite was accepted or declined
+ * @throws BadRequestError if the league is inactive
+ * @throws ApiHttpError (402 or 403) if an expired invite no longer fits the league's plan
+ */
+export async function resendInvite(
+  inviteId: string,
+  league: Pick<League, 'id' | 'name' | 'status' | 'tier'>,
+  inviterName: string,
+  now: Date = new Date()
+) {
+  const invite = await prisma.leagueInvite.findFirst({ where: { id: inviteId, leagueId: league.id } });
+  if (!invite) {
+    throw new NotFoundError('Invite not found');
+  }
+
+  const status = getInviteStatus(invite, now);
+  if (status === 'ACCEPTED' || status === 'DECLINED') {
+    throw new ConflictError(`This invite was ${status.toLowerCase()} and can't be resent`);
+  }
+  if (league.status !== 'ACTIVE') {
+    throw new BadRequestError('Cannot send invites: League is not active');
+  }
+
+  if (status === 'EXPIRED') {
+    await requireMemberCapacity(prisma, league, 1, { countPendingInvites: true, now });
+  }
+
+  const renewed = await prisma.leagueInvite.updateMany({
+    where: { id: invite.id, acceptedAt: null, declinedAt: null },
+    data: { expiresAt: getInviteExpiry(now), sentAt: now },
+  });
+  if (renewed.count === 0) {
+    throw new ConflictError('This invite has already been used');
+  }
+
+  sendLeagueInvite(invite.email, {
+    inviteeName: invite.email.split('@')[0],
+    leagueName: league.name,
+    inviterName,
+    inviteCode: invite.token,
+  }).catch((error) => {
+    log.error('Failed to resend league invite email', error, { inviteId: invite.id });
+  });
+
+  log.info('League invite resent', { inviteId: invite.id, leagueId: league.id });
+  return prisma.leagueInvite.findUniqueOrThrow({ where: { id: invite.id } });
+}
@@ -0,0 +1,104 @@
+/**
+ * League Invite Tests
+ * Tests invite status, expiry, recipient matching and acceptance checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getInviteExpiry,
+  getInviteProblem,
+  getInviteStatus,
+  isInviteFor,
+  type InviteAcceptanceContext,
+} from './invites';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+function context(overrides: Partial<InviteAcceptanceContext> = {}): InviteAcceptanceContext {
+  return {
+    invite: {
+      email: 'ada@example.com',
+      expiresAt: new Date('2026-03-15T12:00:00Z'),
+      acceptedAt: null,
+      declinedAt: null,
+    },
+    league: { name: 'Longevity Lab', status: 'ACTIVE', tier: 'FREE', memberCount: 4 },
+    email: 'ada@example.com',
+    athleteLeagueCount: 1,
+    alreadyMember: false,
+    ...overrides,
+  };
+}
+
+describe('getInviteExpiry', () => {
+  it('expires invites seven days after they are sent', () => {
+    expect(getInviteExpiry(now)).toEqual(new Date('2026-03-17T12:00:00Z'));
+  });
+});
+
+describe('getInviteStatus', () => {
+  const open = { expiresAt: new Date('2026-03-15T12:00:00Z'), acceptedAt: null, declinedAt: null };
+
+  it('is pending until it expires', () => {
+    expect(getInviteStatus(open, now)).toBe('PENDING');
+    expect(getInviteStatus(open, new Date('2026-03-15T12:00:00Z'))).toBe('EXPIRED');
+  });
+
+  it('keeps accepted and declined invites from expiring', () => {
+    const later = new Date('2026-04-01T00:00:00Z');
+    expect(getInviteStatus({ ...open, acceptedAt: now }, later)).toBe('ACCEPTED');
+    expect(getInviteStatus({ ...open, declinedAt: now }, later)).toBe('DECLINED');
+  });
+});
+
+describe('isInviteFor', () => {
+  it('matches email addresses regardless of case and spacing', () => {
+    expect(isInviteFor({ email: 'ada@example.com' }, ' Ada@Example.com ')).toBe(true);
+    expect(isInviteFor({ email: 'ada@example.com' }, 'grace@example.com')).toBe(false);
+  });
+});
+
+describe('getInviteProblem', () => {
+  it('accepts an open invite with room in the league', () => {
+    expect(getInviteProblem(context(), now)).toBeNull();
+  });
+
+  it('refuses invites that are no longer open', () => {
+    const invite = context().invite;
+    expect(getInviteProblem(context({ invite: { ...invite, acceptedAt: now } }), now)?.code).toBe('ALREADY_ACCEPTED');
+    expect(getInviteProblem(context({ invite: { ...invite, declinedAt: now } }), now)?.code).toBe('DECLINED');
+    expect(getInviteProblem(context(), new Date('2026-03-16T00:00:00Z'))?.code).toBe('EXPIRED');
+  });
+
+  it('refuses accounts the invite was not sent to before looking at the league', () => {
+    const problem = getInviteProblem(
+      context({ email: 'grace@example.com', league: { name: 'Longevity Lab', status: 'SUSPENDED', tier: 'FREE', memberCount: 10 } }),
+      now
+    );
+    expect(problem?.code).toBe('EMAIL_MISMATCH');
+    expect(problem?.message).not.toContain('Longevity Lab');
+  });
+
+  it('refuses inactive leagues and existing members', () => {
+    expect(getInviteProblem(context({ league: { ...context().league, status: 'PENDING' } }), now)?.code).toBe(
+      'LEAGUE_INACTIVE'
+    );
+    expect(getInviteProblem(context({ alreadyMember: true }), now)?.code).toBe('ALREADY_MEMBER');
+  });
+
+  it('enforces the per-athlete league limit', () => {
+    expect(getInviteProblem(context({ athleteLeagueCount: 2 }), now)).toBeNull();
+    expect(getInviteProblem(context({ athleteLeagueCount: 3 }), now)?.code).toBe('ATHLETE_LEAGUE_LIMIT');
+  });
+
+  it('enforces the tier member limit', () => {
+    const league = context().league;
+    expect(getInviteProblem(context({ league: { ...league, memberCount: 9 } }), now)).toBeNull();
+
+    const full = getInviteProblem(context({ league: { ...league, memberCount: 10 } }), now);
+    expect(full?.code).toBe('LEAGUE_FULL');
+    expect(full?.message).toContain('(10)');
+
+    expect(getInviteProblem(context({ league: { ...league, tier: 'ENTERPRISE', memberCount: 5000 } }), now)).toBeNull();
+  });
+});
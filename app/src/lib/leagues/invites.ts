@@ -0,0 +1,117 @@
+/**
+ * League Invites - Invite status and the checks for redeeming one
+ *
+ * A league owner, admin or captain invites someone by email. The invite link
+ * carries a random token; whoever opens it signs in (or signs up and completes
+ * onboarding) and then accepts or declines:
+ *
+ *   PENDING → ACCEPTED   (a LeagueMember is created with the invited role)
+ *   PENDING → DECLINED
+ *   PENDING → EXPIRED    (expiresAt passed; resending renews it)
+ *
+ * An invite can only be accepted by the account it was sent to, and only if
+ * the athlete may join the league (see lib/leagues/membership).
+ *
+ * @module lib/leagues/invites
+ */
+
+import {
+  getMembershipProblem,
+  type MembershipContext,
+  type MembershipProblem,
+  type MembershipProblemCode,
+} from './membership';
+
+/** Days an invite stays valid after it is sent */
+export const INVITE_TTL_DAYS = 7;
+
+export const INVITE_STATUSES = ['PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED'] as const;
+
+export type InviteStatus = (typeof INVITE_STATUSES)[number];
+
+/** Invite fields the status depends on */
+export interface InviteState {
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  declinedAt: Date | null;
+}
+
+export type InviteProblemCode = 'ALREADY_ACCEPTED' | 'DECLINED' | 'EXPIRED' | 'EMAIL_MISMATCH' | MembershipProblemCode;
+
+export type InviteProblem = MembershipProblem<InviteProblemCode>;
+
+/** Everything the acceptance checks look at */
+export interface InviteAcceptanceContext extends MembershipContext {
+  invite: InviteState & { email: string };
+  /** Email address of the account accepting */
+  email: string;
+}
+
+/**
+ * When an invite sent at `sentAt` expires
+ */
+export function getInviteExpiry(sentAt: Date): Date {
+  const expiresAt = new Date(sentAt);
+  expiresAt.setDate(expiresAt.getDate() + INVITE_TTL_DAYS);
+  return expiresAt;
+}
+
+/**
+ * An invite's status at `now`; accepted and declined invites never expire
+ */
+export function getInviteStatus(invite: InviteState, now: Date): InviteStatus {
+  if (invite.acceptedAt) return 'ACCEPTED';
+  if (invite.declinedAt) return 'DECLINED';
+  return invite.expiresAt > now ? 'PENDING' : 'EXPIRED';
+}
+
+/**
+ * Normalized form of an email address for comparisons
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Whether an invite was sent to `email`
+ */
+export function isInviteFor(invite: { email: string }, email: string): boolean {
+  return normalizeEmail(invite.email) === normalizeEmail(email);
+}
+
+/**
+ * Why an invite is no longer open, or null while it is pending
+ */
+export function getClosedInviteProblem(invite: InviteState, now: Date): InviteProblem | null {
+  switch (getInviteStatus(invite, now)) {
+    case 'ACCEPTED':
+      return { code: 'ALREADY_ACCEPTED', message: 'This invite has already been accepted' };
+    case 'DECLINED':
+      return { code: 'DECLINED', message: 'This invite has been declined' };
+    case 'EXPIRED':
+      return { code: 'EXPIRED', message: 'This invite has expired. Ask the league to send a new one.' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * The first reason an invite can't be accepted, or null if it can
+ *
+ * Invite problems (status, recipient) come before league and athlete ones,
+ * so someone opening another person's invite learns nothing about the league.
+ */
+export function getInviteProblem(context: InviteAcceptanceContext, now: Date): InviteProblem | null {
+  const { invite } = context;
+
+  const closed = getClosedInviteProblem(invite, now);
+  if (closed) return closed;
+
+  if (!isInviteFor(invite, context.email)) {
+    return {
+      code: 'EMAIL_MISMATCH',
+      message: 'This invite was sent to another email address. Sign in with that account to accept it.',
+    };
+  }
+  return getMembershipProblem(context);
+}
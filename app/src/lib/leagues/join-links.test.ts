@@ -0,0 +1,103 @@
+/**
+ * League Join Link Tests
+ * Tests join codes, link status, join checks and link option validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  JOIN_CODE_LENGTH,
+  generateJoinCode,
+  getJoinLinkProblem,
+  getJoinLinkStatus,
+  isJoinPolicy,
+  normalizeJoinCode,
+  parseJoinLinkOptions,
+  type JoinLinkState,
+} from './join-links';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const link: JoinLinkState = { maxUses: 5, useCount: 2, expiresAt: new Date('2026-03-15T12:00:00Z'), revokedAt: null };
+
+const membership = {
+  league: { name: 'Longevity Lab', status: 'ACTIVE', tier: 'FREE', memberCount: 4 },
+  athleteLeagueCount: 1,
+  alreadyMember: false,
+};
+
+describe('isJoinPolicy', () => {
+  it('accepts the known policies only', () => {
+    expect(isJoinPolicy('OPEN')).toBe(true);
+    expect(isJoinPolicy('REQUEST')).toBe(true);
+    expect(isJoinPolicy('open')).toBe(false);
+    expect(isJoinPolicy(undefined)).toBe(false);
+  });
+});
+
+describe('generateJoinCode', () => {
+  it('draws unambiguous characters from the random bytes', () => {
+    const code = generateJoinCode((size) => new Uint8Array(size).map((_, i) => i));
+    expect(code).toBe('ABCDEFGH');
+
+    const random = generateJoinCode();
+    expect(random).toHaveLength(JOIN_CODE_LENGTH);
+    expect(random).not.toMatch(/[01ILO]/);
+  });
+});
+
+describe('normalizeJoinCode', () => {
+  it('upper-cases typed codes and drops separators', () => {
+    expect(normalizeJoinCode(' abcd-efgh ')).toBe('ABCDEFGH');
+  });
+});
+
+describe('getJoinLinkStatus', () => {
+  it('is active until it expires or runs out of uses', () => {
+    expect(getJoinLinkStatus(link, now)).toBe('ACTIVE');
+    expect(getJoinLinkStatus(link, new Date('2026-03-15T12:00:00Z'))).toBe('EXPIRED');
+    expect(getJoinLinkStatus({ ...link, useCount: 5 }, now)).toBe('EXHAUSTED');
+  });
+
+  it('never runs out without a cap or expires without a date', () => {
+    expect(getJoinLinkStatus({ ...link, maxUses: null, useCount: 9999, expiresAt: null }, now)).toBe('ACTIVE');
+  });
+
+  it('reports revoked links as revoked whatever else holds', () => {
+    expect(getJoinLinkStatus({ ...link, useCount: 5, revokedAt: now }, now)).toBe('REVOKED');
+  });
+});
+
+describe('getJoinLinkProblem', () => {
+  it('lets athletes join with an active link', () => {
+    expect(getJoinLinkProblem({ ...membership, link }, now)).toBeNull();
+  });
+
+  it('refuses unusable links before looking at the league', () => {
+    const full = { ...membership, league: { ...membership.league, memberCount: 10 } };
+    expect(getJoinLinkProblem({ ...full, link: { ...link, revokedAt: now } }, now)?.code).toBe('LINK_REVOKED');
+    expect(getJoinLinkProblem({ ...full, link: { ...link, useCount: 5 } }, now)?.code).toBe('LINK_EXHAUSTED');
+    expect(getJoinLinkProblem({ ...full, link }, now)?.code).toBe('LEAGUE_FULL');
+  });
+});
+
+describe('parseJoinLinkOptions', () => {
+  it('defaults to an unlimited link that never expires', () => {
+    expect(parseJoinLinkOptions({}, now)).toEqual({ options: { maxUses: null, expiresAt: null }, errors: [] });
+  });
+
+  it('accepts a usage cap and a future expiry', () => {
+    const { options, errors } = parseJoinLinkOptions({ maxUses: '20', expiresAt: '2026-04-01T00:00:00Z' }, now);
+    expect(errors).toEqual([]);
+    expect(options).toEqual({ maxUses: 20, expiresAt: new Date('2026-04-01T00:00:00Z') });
+  });
+
+  it('rejects bad caps and past or invalid dates', () => {
+    expect(parseJoinLinkOptions({ maxUses: 0 }, now).errors).toHaveLength(1);
+    expect(parseJoinLinkOptions({ maxUses: 1.5 }, now).errors).toHaveLength(1);
+    expect(parseJoinLinkOptions({ maxUses: 10_001 }, now).errors).toHaveLength(1);
+    expect(parseJoinLinkOptions({ expiresAt: '2026-03-01T00:00:00Z' }, now).errors).toEqual([
+      'expiresAt must be in the future',
+    ]);
+    expect(parseJoinLinkOptions({ expiresAt: 'soon' }, now).errors).toEqual(['expiresAt is not a valid date']);
+  });
+});
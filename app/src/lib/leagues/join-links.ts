@@ -0,0 +1,151 @@
+/**
+ * League Join Links - Shareable codes and the join policy
+ *
+ * Besides invites to specific emails, a league can share reusable join links
+ * (/join/[code]), optionally capped at a number of uses and/or expiring. A
+ * link is usable until it is revoked, expires or runs out of uses:
+ *
+ *   ACTIVE → REVOKED | EXPIRED | EXHAUSTED
+ *
+ * The league's join policy decides what happens when an athlete joins from
+ * the league page without a link or invite:
+ *
+ * - OPEN: they become a member right away
+ * - REQUEST: a join request waits for an owner, admin or captain to approve it
+ *
+ * Join links and invites skip the approval; whoever shares them vouches for
+ * the athlete. All ways in still apply the membership checks.
+ *
+ * @module lib/leagues/join-links
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  getMembershipProblem,
+  type MembershipContext,
+  type MembershipProblem,
+  type MembershipProblemCode,
+} from './membership';
+
+export const JOIN_POLICIES = ['OPEN', 'REQUEST'] as const;
+
+export type JoinPolicy = (typeof JOIN_POLICIES)[number];
+
+export const JOIN_REQUEST_STATUSES = ['PENDING', 'APPROVED', 'DENIED'] as const;
+
+export type JoinRequestStatus = (typeof JOIN_REQUEST_STATUSES)[number];
+
+export type JoinLinkStatus = 'ACTIVE' | 'REVOKED' | 'EXPIRED' | 'EXHAUSTED';
+
+/** Unambiguous characters (no 0/O, 1/I/L) so codes survive being read aloud */
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const JOIN_CODE_LENGTH = 8;
+
+/** Largest usage cap a link can have */
+export const MAX_JOIN_LINK_USES = 10_000;
+
+/** Link fields the status depends on */
+export interface JoinLinkState {
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface JoinLinkOptions {
+  maxUses: number | null;
+  expiresAt: Date | null;
+}
+
+export type JoinLinkProblemCode = 'LINK_REVOKED' | 'LINK_EXPIRED' | 'LINK_EXHAUSTED' | MembershipProblemCode;
+
+export type JoinLinkProblem = MembershipProblem<JoinLinkProblemCode>;
+
+/**
+ * Check whether a value is a known join policy
+ */
+export function isJoinPolicy(value: unknown): value is JoinPolicy {
+  return typeof value === 'string' && (JOIN_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * A random join code
+ *
+ * @param random - Source of random bytes (injectable for tests)
+ */
+export function generateJoinCode(random: (size: number) => Uint8Array = randomBytes): string {
+  return Array.from(random(JOIN_CODE_LENGTH), (byte) => JOIN_CODE_ALPHABET[byte % JOIN_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * A typed-in code in its stored form: upper case, without spaces or dashes
+ */
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * A link's status at `now`
+ */
+export function getJoinLinkStatus(link: JoinLinkState, now: Date): JoinLinkStatus {
+  if (link.revokedAt) return 'REVOKED';
+  if (link.expiresAt && link.expiresAt <= now) return 'EXPIRED';
+  if (link.maxUses !== null && link.useCount >= link.maxUses) return 'EXHAUSTED';
+  return 'ACTIVE';
+}
+
+/**
+ * The first reason the athlete can't join with a link, or null if they can
+ */
+export function getJoinLinkProblem(
+  context: MembershipContext & { link: JoinLinkState },
+  now: Date
+): JoinLinkProblem | null {
+  switch (getJoinLinkStatus(context.link, now)) {
+    case 'REVOKED':
+      return { code: 'LINK_REVOKED', message: 'This join link is no longer valid' };
+    case 'EXPIRED':
+      return { code: 'LINK_EXPIRED', message: 'This join link has expired' };
+    case 'EXHAUSTED':
+      return { code: 'LINK_EXHAUSTED', message: 'This join link has reached its usage limit' };
+    default:
+      return getMembershipProblem(context);
+  }
+}
+
+/**
+ * Validate the usage cap and expiry of a new link
+ *
+ * @param input - maxUses: positive integer or null; expiresAt: ISO date in the future or null
+ * @returns The options, or the problems with them
+ */
+export function parseJoinLinkOptions(
+  input: { maxUses?: unknown; expiresAt?: unknown },
+  now: Date
+): { options: JoinLinkOptions; errors: string[] } {
+  const errors: string[] = [];
+  const options: JoinLinkOptions = { maxUses: null, expiresAt: null };
+
+  if (input.maxUses !== undefined && input.maxUses !== null) {
+    const maxUses = Number(input.maxUses);
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_JOIN_LINK_USES) {
+      errors.push(`maxUses must be a whole number from 1 to ${MAX_JOIN_LINK_USES}`);
+    } else {
+      options.maxUses = maxUses;
+    }
+  }
+
+  if (input.expiresAt !== undefined && input.expiresAt !== null) {
+    const expiresAt = typeof input.expiresAt === 'string' ? new Date(input.expiresAt) : null;
+    if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+      errors.push('expiresAt is not a valid date');
+    } else if (expiresAt <= now) {
+      errors.push('expiresAt must be in the future');
+    } else {
+      options.expiresAt = expiresAt;
+    }
+  }
+
+  return { options, errors };
+}
@@ -0,0 +1,329 @@
+/**
+ * League Join Service Tests
+ * Tests join links (create, revoke, join) and the join request queue
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { ConflictError, NotFoundError } from '@/lib/api-utils';
+import { sendLeagueMemberJoined } from '@/lib/email';
+import { badgeService } from '@/lib/badges';
+import {
+  approveJoinRequest,
+  createJoinLink,
+  denyJoinRequest,
+  getJoinLinkPreview,
+  joinWithLink,
+  requestToJoin,
+  revokeJoinLink,
+} from './join-service';
+
+const tx = {
+  $queryRaw: vi.fn(),
+  leagueJoinLink: { findUnique: vi.fn(), updateMany: vi.fn() },
+  leagueJoinRequest: { findFirst: vi.fn(), updateMany: vi.fn(), deleteMany: vi.fn() },
+  leagueMember: { findUnique: vi.fn(), count: vi.fn(), create: vi.fn() },
+  leagueSubscription: { findMany: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+    leagueJoinLink: { create: vi.fn(), findUnique: vi.fn(), findMany: vi.fn(), updateMany: vi.fn() },
+    leagueJoinRequest: { findUnique: vi.fn(), findFirst: vi.fn(), upsert: vi.fn(), updateMany: vi.fn() },
+    leagueMember: { findUnique: vi.fn(), findMany: vi.fn(), count: vi.fn() },
+    leagueSubscription: { findMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendLeagueMemberJoined: vi.fn(),
+}));
+
+vi.mock('@/lib/badges', () => ({
+  badgeService: { checkAndAwardBadges: vi.fn() },
+}));
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const league = {
+  id: 'l1',
+  name: 'Longevity Lab',
+  slug: 'longevity-lab',
+  description: null,
+  logo: null,
+  type: 'COLLECTIVE' as const,
+  tier: 'FREE' as const,
+  status: 'ACTIVE',
+  joinPolicy: 'REQUEST',
+  ownerId: 'owner1',
+};
+
+const athlete = { id: 'a1', displayName: 'Ada' };
+
+function link(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'link1',
+    leagueId: 'l1',
+    code: 'ABCD2345',
+    maxUses: 5,
+    useCount: 2,
+    expiresAt: null,
+    revokedAt: null,
+    createdBy: 'owner1',
+    createdAt: now,
+    league,
+    ...overrides,
+  };
+}
+
+function joinRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'req1',
+    leagueId: 'l1',
+    athleteId: 'a1',
+    status: 'PENDING',
+    message: 'Hi!',
+    reviewedBy: null,
+    reviewedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    athlete: { id: 'a1', displayName: 'Ada', slug: 'ada', profilePicture: null },
+    ...overrides,
+  };
+}
+
+/** Member counts seen by the membership checks */
+function memberCounts(client: { leagueMember: { count: ReturnType<typeof vi.fn> } }, leagueCount: number, athleteCount: number) {
+  client.leagueMember.count.mockImplementation(({ where }: { where: { leagueId?: string } }) =>
+    Promise.resolve(where.leagueId ? leagueCount : athleteCount)
+  );
+}
+
+describe('League Join Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (client: typeof tx) => unknown) => fn(tx)) as never);
+    vi.mocked(sendLeagueMemberJoined).mockResolvedValue({} as never);
+    vi.mocked(badgeService.checkAndAwardBadges).mockResolvedValue({} as never);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'owner@example.com', firstName: 'Olive' } as never);
+    vi.mocked(prisma.leagueMember.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([]);
+    tx.leagueSubscription.findMany.mockResolvedValue([]);
+
+    memberCounts(tx, 4, 1);
+    tx.leagueMember.findUnique.mockResolvedValue(null);
+    tx.leagueMember.create.mockResolvedValue({ id: 'm1', role: 'MEMBER', joinedAt: now });
+    tx.leagueJoinRequest.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe('join links', () => {
+    it('creates links with a fresh code and the given options', async () => {
+      vi.mocked(prisma.leagueJoinLink.create).mockImplementation((({ data }: { data: object }) =>
+        Promise.resolve({ ...link(), ...data })) as never);
+
+      const created = await createJoinLink('l1', 'owner1', { maxUses: 20, expiresAt: null }, now);
+
+      const { data } = vi.mocked(prisma.leagueJoinLink.create).mock.calls[0][0];
+      expect(data).toMatchObject({ leagueId: 'l1', createdBy: 'owner1', maxUses: 20, expiresAt: null });
+      expect(data.code).toMatch(/^[A-Z2-9]{8}$/);
+      expect(created).toMatchObject({ maxUses: 20, useCount: 2, status: 'ACTIVE' });
+    });
+
+    it('revokes only unrevoked links of the league', async () => {
+      vi.mocked(prisma.leagueJoinLink.updateMany).mockResolvedValue({ count: 1 });
+      await revokeJoinLink('l1', 'link1', now);
+
+      expect(prisma.leagueJoinLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link1', leagueId: 'l1', revokedAt: null },
+        data: { revokedAt: now },
+      });
+
+      vi.mocked(prisma.leagueJoinLink.updateMany).mockResolvedValue({ count: 0 });
+      await expect(revokeJoinLink('l1', 'link1', now)).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('previews links by their typed-in code', async () => {
+      vi.mocked(prisma.leagueJoinLink.findUnique).mockResolvedValue(
+        link({ useCount: 5, league: { ...league, _count: { members: 4 } } }) as never
+      );
+
+      const preview = await getJoinLinkPreview('abcd-2345', now);
+
+      expect(prisma.leagueJoinLink.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { code: 'ABCD2345' } })
+      );
+      expect(preview).toMatchObject({ status: 'EXHAUSTED', league: { name: 'Longevity Lab', memberLimit: 10 } });
+    });
+  });
+
+  describe('joinWithLink', () => {
+    beforeEach(() => {
+      tx.leagueJoinLink.findUnique.mockResolvedValue(link());
+      tx.leagueJoinLink.updateMany.mockResolvedValue({ count: 1 });
+    });
+
+    it('joins as a member without approval and counts the use', async () => {
+      vi.mocked(prisma.leagueMember.count).mockResolvedValue(5);
+
+      const result = await joinWithLink('ABCD2345', athlete, now);
+
+      expect(tx.leagueJoinLink.updateMany).toHaveBeenCalledWith({
+        where: { id: 'link1', revokedAt: null, useCount: { lt: 5 } },
+        data: { useCount: { increment: 1 } },
+      });
+      expect(tx.leagueMember.create).toHaveBeenCalledWith({
+        data: { leagueId: 'l1', athleteId: 'a1', role: 'MEMBER' },
+      });
+      expect(result.league).toEqual({ id: 'l1', name: 'Longevity Lab', slug: 'longevity-lab' });
+      expect(sendLeagueMemberJoined).toHaveBeenCalledWith(
+        'owner@example.com',
+        expect.objectContaining({ newMemberName: 'Ada', memberCount: 5 })
+      );
+    });
+
+    it('does not cap uses of unlimited links', async () => {
+      tx.leagueJoinLink.findUnique.mockResolvedValue(link({ maxUses: null }));
+
+      await joinWithLink('ABCD2345', athlete, now);
+
+      expect(tx.leagueJoinLink.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'link1', revokedAt: null } })
+      );
+    });
+
+    it('refuses unknown, revoked and used-up links', async () => {
+      tx.leagueJoinLink.findUnique.mockResolvedValue(null);
+      await expect(joinWithLink('NOPE', athlete, now)).rejects.toBeInstanceOf(NotFoundError);
+
+      tx.leagueJoinLink.findUnique.mockResolvedValue(link({ revokedAt: now }));
+      await expect(joinWithLink('ABCD2345', athlete, now)).rejects.toMatchObject({
+        statusCode: 410,
+        details: { code: 'LINK_REVOKED' },
+      });
+
+      tx.leagueJoinLink.findUnique.mockResolvedValue(link({ useCount: 5 }));
+      await expect(joinWithLink('ABCD2345', athlete, now)).rejects.toMatchObject({
+        details: { code: 'LINK_EXHAUSTED' },
+      });
+      expect(tx.leagueMember.create).not.toHaveBeenCalled();
+    });
+
+    it('applies the membership checks', async () => {
+      memberCounts(tx, 10, 1);
+
+      await expect(joinWithLink('ABCD2345', athlete, now)).rejects.toMatchObject({
+        statusCode: 402,
+        details: { code: 'LEAGUE_FULL' },
+      });
+      expect(tx.leagueJoinLink.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses when a concurrent join took the last use', async () => {
+      tx.leagueJoinLink.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(joinWithLink('ABCD2345', athlete, now)).rejects.toBeInstanceOf(ConflictError);
+      expect(tx.leagueMember.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestToJoin', () => {
+    beforeEach(() => {
+      memberCounts(prisma as never, 4, 1);
+      vi.mocked(prisma.leagueMember.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.leagueJoinRequest.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.leagueJoinRequest.upsert).mockResolvedValue(joinRequest() as never);
+    });
+
+    it('queues a pending request', async () => {
+      const request = await requestToJoin(league, athlete, 'Hi!', now);
+
+      expect(prisma.leagueJoinRequest.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { leagueId: 'l1', athleteId: 'a1', message: 'Hi!', createdAt: now },
+          update: { status: 'PENDING', message: 'Hi!', reviewedBy: null, reviewedAt: null, createdAt: now },
+        })
+      );
+      expect(request).toMatchObject({ id: 'req1', status: 'PENDING', athlete: { displayName: 'Ada' } });
+    });
+
+    it('refuses a second pending request but lets denied athletes ask again', async () => {
+      vi.mocked(prisma.leagueJoinRequest.findUnique).mockResolvedValue(joinRequest() as never);
+      await expect(requestToJoin(league, athlete, null, now)).rejects.toBeInstanceOf(ConflictError);
+
+      vi.mocked(prisma.leagueJoinRequest.findUnique).mockResolvedValue(joinRequest({ status: 'DENIED' }) as never);
+      await expect(requestToJoin(league, athlete, null, now)).resolves.toMatchObject({ status: 'PENDING' });
+    });
+
+    it('refuses athletes who could not join anyway', async () => {
+      vi.mocked(prisma.leagueMember.findUnique).mockResolvedValue({ id: 'm1' } as never);
+
+      await expect(requestToJoin(league, athlete, null, now)).rejects.toMatchObject({
+        details: { code: 'ALREADY_MEMBER' },
+      });
+      expect(prisma.leagueJoinRequest.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewing join requests', () => {
+    beforeEach(() => {
+      tx.leagueJoinRequest.findFirst.mockResolvedValue(joinRequest());
+      tx.leagueJoinRequest.updateMany.mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.leagueJoinRequest.findFirst).mockResolvedValue(joinRequest() as never);
+      vi.mocked(prisma.leagueJoinRequest.updateMany).mockResolvedValue({ count: 1 });
+    });
+
+    it('approves: the athlete joins and the managers hear about it', async () => {
+      const result = await approveJoinRequest('req1', league, 'owner1', now);
+
+      expect(tx.leagueJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'req1', status: 'PENDING' },
+        data: { status: 'APPROVED', reviewedBy: 'owner1', reviewedAt: now },
+      });
+      expect(tx.leagueMember.create).toHaveBeenCalledWith({
+        data: { leagueId: 'l1', athleteId: 'a1', role: 'MEMBER' },
+      });
+      expect(result.membership).toEqual({ id: 'm1', role: 'MEMBER', joinedAt: now });
+      expect(sendLeagueMemberJoined).toHaveBeenCalledWith(
+        'owner@example.com',
+        expect.objectContaining({ newMemberName: 'Ada' })
+      );
+    });
+
+    it('does not approve when the league has filled up', async () => {
+      memberCounts(tx, 10, 1);
+
+      await expect(approveJoinRequest('req1', league, 'owner1', now)).rejects.toMatchObject({
+        details: { code: 'LEAGUE_FULL' },
+      });
+      expect(tx.leagueJoinRequest.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('reviews each request once', async () => {
+      tx.leagueJoinRequest.findFirst.mockResolvedValue(joinRequest({ status: 'DENIED' }));
+      await expect(approveJoinRequest('req1', league, 'owner1', now)).rejects.toThrow('already denied');
+
+      tx.leagueJoinRequest.findFirst.mockResolvedValue(joinRequest());
+      tx.leagueJoinRequest.updateMany.mockResolvedValue({ count: 0 });
+      await expect(approveJoinRequest('req1', league, 'owner1', now)).rejects.toBeInstanceOf(ConflictError);
+      expect(tx.leagueMember.create).not.toHaveBeenCalled();
+    });
+
+    it('denies pending requests of the league', async () => {
+      await denyJoinRequest('req1', 'l1', 'owner1', now);
+
+      expect(prisma.leagueJoinRequest.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'req1', leagueId: 'l1' } })
+      );
+      expect(prisma.leagueJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'req1', status: 'PENDING' },
+        data: { status: 'DENIED', reviewedBy: 'owner1', reviewedAt: now },
+      });
+
+      vi.mocked(prisma.leagueJoinRequest.findFirst).mockResolvedValue(null);
+      await expect(denyJoinRequest('req2', 'l1', 'owner1', now)).rejects.toBeInstanceOf(NotFoundError);
+    });
+  });
+});
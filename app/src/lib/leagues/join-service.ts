@@ -0,0 +1,345 @@
+/**
+ * League Join Service - Join links and the join request queue
+ *
+ * - Join links: managers create, list and revoke reusable codes; athletes
+ *   join with one while it is active
+ * - Join requests: athletes ask to join a REQUEST-policy league; owners,
+ *   admins and captains approve or deny
+ *
+ * Link uses and request reviews are claimed with guarded updates, so a capped
+ * link is never used past its cap and a request is reviewed once.
+ *
+ * ## Usage
+ * ```typescript
+ * import { createJoinLink, joinWithLink } from '@/lib/leagues';
+ *
+ * const link = await createJoinLink(league.id, user.id, { maxUses: 20, expiresAt: null });
+ * await joinWithLink(link.code, { id: athlete.id, displayName: athlete.displayName });
+ * ```
+ *
+ * @module lib/leagues/join-service
+ */
+
+import type { League, LeagueJoinLink as JoinLinkRecord, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { ConflictError, NotFoundError } from '@/lib/api-utils';
+import type { LeagueJoinLink, LeagueJoinLinkPreview, LeagueJoinRequest } from '@/types';
+import {
+  generateJoinCode,
+  getJoinLinkProblem,
+  getJoinLinkStatus,
+  normalizeJoinCode,
+  type JoinLinkOptions,
+  type JoinLinkProblemCode,
+  type JoinRequestStatus,
+} from './join-links';
+import { getMembershipProblem } from './membership';
+import {
+  MEMBERSHIP_PROBLEM_STATUS,
+  addLeagueMember,
+  getMembershipContext,
+  notifyLeagueManagers,
+  toLeaguePreview,
+  toProblemError,
+  type LeagueJoinResult,
+} from './membership-service';
+
+const log = domainLoggers.leagues;
+
+const LINK_PROBLEM_STATUS: Record<JoinLinkProblemCode, number> = {
+  ...MEMBERSHIP_PROBLEM_STATUS,
+  LINK_REVOKED: 410,
+  LINK_EXPIRED: 410,
+  LINK_EXHAUSTED: 410,
+};
+
+/** The athlete joining or asking to join */
+export interface JoiningAthlete {
+  id: string;
+  displayName: string;
+}
+
+const joinRequestWithAthlete = {
+  athlete: { select: { id: true, displayName: true, slug: true, profilePicture: true } },
+} satisfies Prisma.LeagueJoinRequestInclude;
+
+type JoinRequestRecord = Prisma.LeagueJoinRequestGetPayload<{ include: typeof joinRequestWithAthlete }>;
+
+function toJoinLink(link: JoinLinkRecord, now: Date): LeagueJoinLink {
+  return {
+    id: link.id,
+    code: link.code,
+    status: getJoinLinkStatus(link, now),
+    maxUses: link.maxUses,
+    useCount: link.useCount,
+    expiresAt: link.expiresAt?.toISOString() ?? null,
+    createdAt: link.createdAt.toISOString(),
+  };
+}
+
+function toJoinRequest(request: JoinRequestRecord): LeagueJoinRequest {
+  return {
+    id: request.id,
+    status: request.status as JoinRequestStatus,
+    message: request.message,
+    createdAt: request.createdAt.toISOString(),
+    reviewedAt: request.reviewedAt?.toISOString() ?? null,
+    athlete: request.athlete,
+  };
+}
+
+// ============================================
+// Join links
+// ============================================
+
+/**
+ * Create a join link for a league
+ */
+export async function createJoinLink(
+  leagueId: string,
+  createdBy: string,
+  options: JoinLinkOptions,
+  now: Date = new Date()
+): Promise<LeagueJoinLink> {
+  const link = await prisma.leagueJoinLink.create({
+    data: { leagueId, createdBy, code: generateJoinCode(), ...options },
+  });
+
+  log.info('League join link created', { leagueId, linkId: link.id, ...options });
+  return toJoinLink(link, now);
+}
+
+/**
+ * A league's join links that haven't been revoked, newest first
+ */
+export async function listJoinLinks(leagueId: string, now: Date = new Date()): Promise<LeagueJoinLink[]> {
+  const links = await prisma.leagueJoinLink.findMany({
+    where: { leagueId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+  });
+  return links.map((link) => toJoinLink(link, now));
+}
+
+/**
+ * Revoke a join link; it stops working immediately
+ *
+ * @throws NotFoundError if the league has no such unrevoked link
+ */
+export async function revokeJoinLink(leagueId: string, linkId: string, now: Date = new Date()): Promise<void> {
+  const revoked = await prisma.leagueJoinLink.updateMany({
+    where: { id: linkId, leagueId, revokedAt: null },
+    data: { revokedAt: now },
+  });
+  if (revoked.count === 0) {
+    throw new NotFoundError('Join link not found');
+  }
+
+  log.info('League join link revoked', { leagueId, linkId });
+}
+
+/**
+ * The league and state of a join link, or null for an unknown code
+ */
+export async function getJoinLinkPreview(code: string, now: Date = new Date()): Promise<LeagueJoinLinkPreview | null> {
+  const link = await prisma.leagueJoinLink.findUnique({
+    where: { code: normalizeJoinCode(code) },
+    include: { league: { include: { _count: { select: { members: true } } } } },
+  });
+  if (!link) return null;
+
+  return {
+    code: link.code,
+    status: getJoinLinkStatus(link, now),
+    expiresAt: link.expiresAt?.toISOString() ?? null,
+    league: toLeaguePreview(link.league),
+  };
+}
+
+/**
+ * Join a league with a link, as a MEMBER
+ *
+ * @throws NotFoundError for an unknown code
+ * @throws ApiHttpError (details.code) when the link is unusable or the athlete
+ *   can't join; see getJoinLinkProblem
+ */
+export async function joinWithLink(
+  code: string,
+  athlete: JoiningAthlete,
+  now: Date = new Date()
+): Promise<LeagueJoinResult> {
+  const { league, membership } = await prisma.$transaction(async (tx) => {
+    const link = await tx.leagueJoinLink.findUnique({
+      where: { code: normalizeJoinCode(code) },
+      include: { league: true },
+    });
+    if (!link) {
+      throw new NotFoundError('Join link not found');
+    }
+
+    const membershipContext = await getMembershipContext(tx, link.league, athlete.id);
+    const problem = getJoinLinkProblem({ ...membershipContext, link }, now);
+    if (problem) {
+      throw toProblemError(problem, LINK_PROBLEM_STATUS);
+    }
+
+    // Count the use; a concurrent join that took the last use leaves none
+    const used = await tx.leagueJoinLink.updateMany({
+      where: {
+        id: link.id,
+        revokedAt: null,
+        ...(link.maxUses !== null && { useCount: { lt: link.maxUses } }),
+      },
+      data: { useCount: { increment: 1 } },
+    });
+    if (used.count === 0) {
+      throw new ConflictError('This join link has just been used up');
+    }
+
+    const membership = await addLeagueMember(tx, link.leagueId, athlete.id, 'MEMBER');
+    return { league: link.league, membership };
+  });
+
+  log.info('League joined with link', { leagueId: league.id, athleteId: athlete.id });
+  await notifyLeagueManagers(league, athlete);
+
+  return {
+    league: { id: league.id, name: league.name, slug: league.slug },
+    membership: { id: membership.id, role: membership.role, joinedAt: membership.joinedAt },
+  };
+}
+
+// ============================================
+// Join requests
+// ============================================
+
+/**
+ * Ask to join a league; a denied athlete may ask again
+ *
+ * @throws ApiHttpError (details.code) when the athlete couldn't join anyway
+ * @throws ConflictError if a request is already waiting
+ */
+export async function requestToJoin(
+  league: Pick<League, 'id' | 'name' | 'status' | 'tier'>,
+  athlete: JoiningAthlete,
+  message: string | null,
+  now: Date = new Date()
+): Promise<LeagueJoinRequest> {
+  const problem = getMembershipProblem(await getMembershipContext(prisma, league, athlete.id));
+  if (problem) {
+    throw toProblemError(problem, MEMBERSHIP_PROBLEM_STATUS);
+  }
+
+  const existing = await prisma.leagueJoinRequest.findUnique({
+    where: { leagueId_athleteId: { leagueId: league.id, athleteId: athlete.id } },
+  });
+  if (existing?.status === 'PENDING') {
+    throw new ConflictError(`You have already asked to join ${league.name}`);
+  }
+
+  const request = await prisma.leagueJoinRequest.upsert({
+    where: { leagueId_athleteId: { leagueId: league.id, athleteId: athlete.id } },
+    create: { leagueId: league.id, athleteId: athlete.id, message, createdAt: now },
+    update: { status: 'PENDING', message, reviewedBy: null, reviewedAt: null, createdAt: now },
+    include: joinRequestWithAthlete,
+  });
+
+  log.info('League join requested', { leagueId: league.id, athleteId: athlete.id });
+  return toJoinRequest(request);
+}
+
+/**
+ * A league's join requests in one status, oldest first
+ */
+export async function listJoinRequests(
+  leagueId: string,
+  status: JoinRequestStatus = 'PENDING'
+): Promise<LeagueJoinRequest[]> {
+  const requests = await prisma.leagueJoinRequest.findMany({
+    where: { leagueId, status },
+    orderBy: { createdAt: 'asc' },
+    include: joinRequestWithAthlete,
+  });
+  return requests.map(toJoinRequest);
+}
+
+async function findPendingRequest(db: Prisma.TransactionClient, requestId: string, leagueId: string) {
+  const request = await db.leagueJoinRequest.findFirst({
+    where: { id: requestId, leagueId },
+    include: joinRequestWithAthlete,
+  });
+  if (!request) {
+    throw new NotFoundError('Join request not found');
+  }
+  if (request.status !== 'PENDING') {
+    throw new ConflictError(`This join request was already ${request.status.toLowerCase()}`);
+  }
+  return request;
+}
+
+/**
+ * Approve a join request: the athlete joins as a MEMBER
+ *
+ * @throws NotFoundError if the league has no such request
+ * @throws ConflictError if it was already reviewed
+ * @throws ApiHttpError (details.code) when the athlete can no longer join
+ */
+export async function approveJoinRequest(
+  requestId: string,
+  league: Pick<League, 'id' | 'name' | 'slug' | 'status' | 'tier' | 'ownerId'>,
+  reviewerId: string,
+  now: Date = new Date()
+): Promise<LeagueJoinResult> {
+  const { request, membership } = await prisma.$transaction(async (tx) => {
+    const request = await findPendingRequest(tx, requestId, league.id);
+
+    const problem = getMembershipProblem(await getMembershipContext(tx, league, request.athleteId));
+    if (problem) {
+      throw toProblemError(problem, MEMBERSHIP_PROBLEM_STATUS);
+    }
+
+    const reviewed = await tx.leagueJoinRequest.updateMany({
+      where: { id: request.id, status: 'PENDING' },
+      data: { status: 'APPROVED', reviewedBy: reviewerId, reviewedAt: now },
+    });
+    if (reviewed.count === 0) {
+      throw new ConflictError('This join request has just been reviewed');
+    }
+
+    const membership = await addLeagueMember(tx, league.id, request.athleteId, 'MEMBER');
+    return { request, membership };
+  });
+
+  log.info('League join request approved', { leagueId: league.id, requestId, reviewerId });
+  await notifyLeagueManagers(league, request.athlete);
+
+  return {
+    league: { id: league.id, name: league.name, slug: league.slug },
+    membership: { id: membership.id, role: membership.role, joinedAt: membership.joinedAt },
+  };
+}
+
+/**
+ * Deny a join request; the athlete may ask again later
+ *
+ * @throws NotFoundError if the league has no such request
+ * @throws ConflictError if it was already reviewed
+ */
+export async function denyJoinRequest(
+  requestId: string,
+  leagueId: string,
+  reviewerId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const request = await findPendingRequest(prisma, requestId, leagueId);
+
+  const reviewed = await prisma.leagueJoinRequest.updateMany({
+    where: { id: request.id, status: 'PENDING' },
+    data: { status: 'DENIED', reviewedBy: reviewerId, reviewedAt: now },
+  });
+  if (reviewed.count === 0) {
+    throw new ConflictError('This join request has just been reviewed');
+  }
+
+  log.info('League join request denied', { leagueId, requestId, reviewerId });
+}
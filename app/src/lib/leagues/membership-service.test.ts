@@ -0,0 +1,159 @@
+/**
+ * League Membership Service Tests
+ * Tests league manager checks, adding members and notifying the managers
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { ForbiddenError, NotFoundError } from '@/lib/api-utils';
+import { sendLeagueMemberJoined } from '@/lib/email';
+import { badgeService } from '@/lib/badges';
+import {
+  addLeagueMember,
+  canManageLeague,
+  getMembershipContext,
+  notifyLeagueManagers,
+  requireLeagueManager,
+} from './membership-service';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $queryRaw: vi.fn(),
+    league: { findUnique: vi.fn() },
+    leagueMember: { findFirst: vi.fn(), findMany: vi.fn(), findUnique: vi.fn(), count: vi.fn(), create: vi.fn() },
+    leagueSubscription: { findMany: vi.fn() },
+    leagueJoinRequest: { deleteMany: vi.fn() },
+    user: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/email', () => ({
+  sendLeagueMemberJoined: vi.fn(),
+}));
+
+vi.mock('@/lib/badges', () => ({
+  badgeService: { checkAndAwardBadges: vi.fn() },
+}));
+
+const league = { id: 'l1', name: 'Longevity Lab', slug: 'longevity-lab', ownerId: 'owner1' };
+
+function admin(email: string, firstName: string | null) {
+  return { athlete: { user: { email, firstName } } };
+}
+
+describe('League Membership Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sendLeagueMemberJoined).mockResolvedValue({} as never);
+    vi.mocked(badgeService.checkAndAwardBadges).mockResolvedValue({} as never);
+  });
+
+  describe('canManageLeague', () => {
+    it('allows the owner and league admins and captains', async () => {
+      expect(await canManageLeague(league, 'owner1')).toBe(true);
+
+      vi.mocked(prisma.leagueMember.findFirst).mockResolvedValue({ role: 'CAPTAIN' } as never);
+      expect(await canManageLeague(league, 'u2')).toBe(true);
+
+      vi.mocked(prisma.leagueMember.findFirst).mockResolvedValue({ role: 'MEMBER' } as never);
+      expect(await canManageLeague(league, 'u2')).toBe(false);
+
+      vi.mocked(prisma.leagueMember.findFirst).mockResolvedValue(null);
+      expect(await canManageLeague(league, 'u3')).toBe(false);
+    });
+  });
+
+  describe('requireLeagueManager', () => {
+    it('returns the league for its managers', async () => {
+      vi.mocked(prisma.league.findUnique).mockResolvedValue(league as never);
+      expect(await requireLeagueManager('longevity-lab', 'owner1')).toBe(league);
+    });
+
+    it('refuses unknown leagues and other users', async () => {
+      vi.mocked(prisma.league.findUnique).mockResolvedValue(null);
+      await expect(requireLeagueManager('nope', 'owner1')).rejects.toBeInstanceOf(NotFoundError);
+
+      vi.mocked(prisma.league.findUnique).mockResolvedValue(league as never);
+      vi.mocked(prisma.leagueMember.findFirst).mockResolvedValue(null);
+      await expect(requireLeagueManager('longevity-lab', 'u3')).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  describe('getMembershipContext', () => {
+    it('locks the league row before counting its members', async () => {
+      const calls: string[] = [];
+      vi.mocked(prisma.$queryRaw).mockImplementation((async () => {
+        calls.push('lock');
+        return [];
+      }) as never);
+      vi.mocked(prisma.leagueMember.count).mockImplementation((async () => {
+        calls.push('count');
+        return 3;
+      }) as never);
+      vi.mocked(prisma.leagueMember.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.leagueSubscription.findMany).mockResolvedValue([]);
+
+      const context = await getMembershipContext(
+        prisma,
+        { id: 'l1', name: 'Longevity Lab', status: 'ACTIVE', tier: 'FREE' },
+        'a1'
+      );
+
+      expect(calls[0]).toBe('lock');
+      expect(String(vi.mocked(prisma.$queryRaw).mock.calls[0][0])).toContain('FOR UPDATE');
+      expect(context.league.memberCount).toBe(3);
+      expect(context.alreadyMember).toBe(false);
+    });
+  });
+
+  describe('addLeagueMember', () => {
+    it('settles the athlete pending join request', async () => {
+      vi.mocked(prisma.leagueMember.create).mockResolvedValue({ id: 'm1' } as never);
+
+      await addLeagueMember(prisma as never, 'l1', 'a1', 'MEMBER');
+
+      expect(prisma.leagueMember.create).toHaveBeenCalledWith({
+        data: { leagueId: 'l1', athleteId: 'a1', role: 'MEMBER' },
+      });
+      expect(prisma.leagueJoinRequest.deleteMany).toHaveBeenCalledWith({
+        where: { leagueId: 'l1', athleteId: 'a1', status: 'PENDING' },
+      });
+    });
+  });
+
+  describe('notifyLeagueManagers', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ email: 'owner@example.com', firstName: 'Olive' } as never);
+      vi.mocked(prisma.leagueMember.count).mockResolvedValue(6);
+    });
+
+    it('emails the owner and each league admin once', async () => {
+      vi.mocked(prisma.leagueMember.findMany).mockResolvedValue([
+        admin('owner@example.com', 'Olive'),
+        admin('grace@example.com', null),
+      ] as never);
+
+      await notifyLeagueManagers(league, { id: 'a1', displayName: 'Ada' });
+
+      expect(badgeService.checkAndAwardBadges).toHaveBeenCalledWith('a1');
+      expect(sendLeagueMemberJoined).toHaveBeenCalledTimes(2);
+      expect(sendLeagueMemberJoined).toHaveBeenCalledWith('owner@example.com', {
+        ownerName: 'Olive',
+        leagueName: 'Longevity Lab',
+        newMemberName: 'Ada',
+        memberCount: 6,
+      });
+      expect(sendLeagueMemberJoined).toHaveBeenCalledWith(
+        'grace@example.com',
+        expect.objectContaining({ ownerName: 'League Admin' })
+      );
+    });
+
+    it('does not fail the join when the lookup fails', async () => {
+      vi.mocked(prisma.leagueMember.findMany).mockRejectedValue(new Error('db down'));
+
+      await expect(notifyLeagueManagers(league, { id: 'a1', displayName: 'Ada' })).resolves.toBeUndefined();
+      expect(sendLeagueMemberJoined).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * League Membership Service - Adding members and telling the managers
+ *
+ * Shared by every way into a league: invites, join links, approved join
+ * requests and joining directly. Membership checks run against the client
+ * passed in, so callers can load and write inside one transaction.
+ *
+ * ## Usage
+ * ```typescript
+ * await prisma.$transaction(async (tx) => {
+ *   const problem = getMembershipProblem(await getMembershipContext(tx, league, athleteId));
+ *   if (problem) throw toProblemError(problem, MEMBERSHIP_PROBLEM_STATUS);
+ *   await addLeagueMember(tx, league.id, athleteId, 'MEMBER');
+ * });
+ * await notifyLeagueManagers(league, athlete);
+ * ```
+ *
+ * @module lib/leagues/membership-service
+ */
+
+import type { League, LeagueMemberRole, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { ApiHttpError, ForbiddenError, NotFoundError } from '@/lib/api-utils';
+import { sendLeagueMemberJoined } from '@/lib/email';
+import { badgeService } from '@/lib/badges';
+import { getLeagueMemberLimit, getSubscriptionStatus } from '@/lib/entitlements';
+import type { LeaguePreview, LeagueType } from '@/types';
+import {
+  LEAGUE_MANAGER_ROLES,
+  type MembershipContext,
+  type MembershipProblem,
+  type MembershipProblemCode,
+} from './membership';
+
+const log = domainLoggers.leagues;
+
+/** Outcome of joining a league by any route */
+export interface LeagueJoinResult {
+  league: { id: string; name: string; slug: string };
+  membership: { id: string; role: string; joinedAt: Date };
+}
+
+/** HTTP status for each membership problem */
+export const MEMBERSHIP_PROBLEM_STATUS: Record<MembershipProblemCode, number> = {
+  LEAGUE_INACTIVE: 400,
+  ALREADY_MEMBER: 409,
+  ATHLETE_LEAGUE_LIMIT: 409,
+  LEAGUE_FULL: 402,
+  PAYMENT_PAST_DUE: 402,
+};
+
+/**
+ * API error for a problem; details.code lets clients tell problems apart, and
+ * plan problems add details.upgrade
+ */
+export function toProblemError<Code extends string>(
+  problem: MembershipProblem<Code>,
+  statuses: Record<Code, number>
+): ApiHttpError {
+  return new ApiHttpError(problem.status ?? statuses[problem.code], problem.message, {
+    code: problem.code,
+    ...(problem.upgrade && { upgrade: problem.upgrade }),
+  });
+}
+
+/**
+ * A league as the invite and join link landing pages show it
+ */
+export function toLeaguePreview(league: League & { _count: { members: number } }): LeaguePreview {
+  const memberLimit = getLeagueMemberLimit(league.tier);
+  return {
+    name: league.name,
+    slug: league.slug,
+    description: league.description,
+    logo: league.logo,
+    type: league.type as LeagueType,
+    memberCount: league._count.members,
+    memberLimit: Number.isFinite(memberLimit) ? memberLimit : null,
+  };
+}
+
+/**
+ * Whether a user is the league owner or one of its admins or captains
+ */
+export async function canManageLeague(league: Pick<League, 'id' | 'ownerId'>, userId: string): Promise<boolean> {
+  if (league.ownerId === userId) return true;
+
+  const membership = await prisma.leagueMember.findFirst({
+    where: { leagueId: league.id, athlete: { userId } },
+    select: { role: true },
+  });
+  return !!membership && LEAGUE_MANAGER_ROLES.includes(membership.role);
+}
+
+/**
+ * The league at `slug`, if the user may manage it
+ *
+ * @throws NotFoundError if there is no such league
+ * @throws ForbiddenError unless the user is the owner, an admin or a captain
+ */
+export async function requireLeagueManager(slug: string, userId: string): Promise<League> {
+  const league = await prisma.league.findUnique({ where: { slug } });
+  if (!league) {
+    throw new NotFoundError('League not found');
+  }
+  if (!(await canManageLeague(league, userId))) {
+    throw new ForbiddenError('Forbidden: Only owners, admins, and captains can manage this league');
+  }
+  return league;
+}
+
+/**
+ * Current member counts and subscription status for the membership checks
+ *
+ * Locks the league row first, so within a transaction concurrent joins count
+ * members one after another instead of all passing the member limit check.
+ */
+export async function getMembershipContext(
+  db: Prisma.TransactionClient,
+  league: Pick<League, 'id' | 'name' | 'status' | 'tier'>,
+  athleteId: string
+): Promise<MembershipContext> {
+  await db.$queryRaw`SELECT id FROM "League" WHERE id = ${league.id} FOR UPDATE`;
+
+  const [memberCount, existing, athleteLeagueCount, subscriptionStatus] = await Promise.all([
+    db.leagueMember.count({ where: { leagueId: league.id } }),
+    db.leagueMember.findUnique({ where: { leagueId_athleteId: { leagueId: league.id, athleteId } } }),
+    db.leagueMember.count({ where: { athleteId } }),
+    getSubscriptionStatus(db, league.id),
+  ]);
+
+  return {
+    league: { name: league.name, status: league.status, tier: league.tier, subscriptionStatus, memberCount },
+    athleteLeagueCount,
+    alreadyMember: !!existing,
+  };
+}
+
+/**
+ * Create the membership; a pending join request of the athlete is settled by it
+ */
+export async function addLeagueMember(
+  db: Prisma.TransactionClient,
+  leagueId: string,
+  athleteId: string,
+  role: LeagueMemberRole
+) {
+  const membership = await db.leagueMember.create({ data: { leagueId, athleteId, role } });
+  await db.leagueJoinRequest.deleteMany({ where: { leagueId, athleteId, status: 'PENDING' } });
+  return membership;
+}
+
+/**
+ * After someone joins: award badges and email the owner and league admins
+ *
+ * Fire-and-forget; failures are logged.
+ */
+export async function notifyLeagueManagers(
+  league: Pick<League, 'id' | 'name' | 'ownerId'>,
+  athlete: { id: string; displayName: string }
+): Promise<void> {
+  badgeService.checkAndAwardBadges(athlete.id).catch((error) => {
+    log.error('Failed to check badges after joining league', error, { athleteId: athlete.id });
+  });
+
+  try {
+    const [owner, admins, memberCount] = await Promise.all([
+      prisma.user.findUnique({ where: { id: league.ownerId }, select: { email: true, firstName: true } }),
+      prisma.leagueMember.findMany({
+        where: { leagueId: league.id, role: 'ADMIN', athleteId: { not: athlete.id } },
+        select: { athlete: { select: { user: { select: { email: true, firstName: true } } } } },
+      }),
+      prisma.leagueMember.count({ where: { leagueId: league.id } }),
+    ]);
+
+    const recipients = new Map<string, string>();
+    if (owner?.email) recipients.set(owner.email, owner.firstName || 'League Owner');
+    for (const { athlete: admin } of admins) {
+      if (admin.user.email && !recipients.has(admin.user.email)) {
+        recipients.set(admin.user.email, admin.user.firstName || 'League Admin');
+      }
+    }
+
+    for (const [email, name] of recipients) {
+      sendLeagueMemberJoined(email, {
+        ownerName: name,
+        leagueName: league.name,
+        newMemberName: athlete.displayName,
+        memberCount,
+      }).catch((error) => {
+        log.error('Failed to send league member joined email', error, { leagueId: league.id });
+      });
+    }
+  } catch (error) {
+    log.error('Failed to notify league managers', error, { leagueId: league.id });
+  }
+}
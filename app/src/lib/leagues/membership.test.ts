@@ -0,0 +1,48 @@
+/**
+ * League Membership Tests
+ * Tests the checks every way into a league applies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getMembershipProblem, type MembershipContext } from './membership';
+
+function context(overrides: Partial<MembershipContext> = {}): MembershipContext {
+  return {
+    league: { name: 'Longevity Lab', status: 'ACTIVE', tier: 'FREE', memberCount: 4 },
+    athleteLeagueCount: 1,
+    alreadyMember: false,
+    ...overrides,
+  };
+}
+
+describe('getMembershipProblem', () => {
+  it('lets athletes join active leagues with room', () => {
+    expect(getMembershipProblem(context())).toBeNull();
+  });
+
+  it('checks the league status before anything else', () => {
+    const problem = getMembershipProblem(
+      context({ league: { ...context().league, status: 'SUSPENDED', memberCount: 10 }, alreadyMember: true })
+    );
+    expect(problem?.code).toBe('LEAGUE_INACTIVE');
+  });
+
+  it('refuses existing members and athletes at their league limit', () => {
+    expect(getMembershipProblem(context({ alreadyMember: true }))?.code).toBe('ALREADY_MEMBER');
+    expect(getMembershipProblem(context({ athleteLeagueCount: 3 }))?.code).toBe('ATHLETE_LEAGUE_LIMIT');
+  });
+
+  it('refuses full leagues and mentions the limit', () => {
+    const full = getMembershipProblem(context({ league: { ...context().league, memberCount: 10 } }));
+    expect(full?.code).toBe('LEAGUE_FULL');
+    expect(full?.message).toContain('(10)');
+    expect(full?.upgrade).toEqual({ currentTier: 'FREE', requiredTier: 'STARTER', action: 'UPGRADE' });
+  });
+
+  it('holds growth beyond the FREE limit while a payment is past due', () => {
+    const league = { ...context().league, tier: 'STARTER', subscriptionStatus: 'PAST_DUE' as const };
+
+    expect(getMembershipProblem(context({ league: { ...league, memberCount: 9 } }))).toBeNull();
+    expect(getMembershipProblem(context({ league: { ...league, memberCount: 10 } }))?.code).toBe('PAYMENT_PAST_DUE');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * League Membership - Who may join a league and who manages it
+ *
+ * Every way into a league (joining directly, an invite, a join link or an
+ * approved join request) applies the same checks: the league is active, the
+ * athlete isn't a member yet, is in fewer than MAX_LEAGUES_PER_ATHLETE leagues
+ * and the league's plan has room for another member (see lib/entitlements).
+ *
+ * @module lib/leagues/membership
+ */
+
+import { getCapacityProblem, type EntitlementProblemCode, type LeaguePlan } from '@/lib/entitlements/entitlements';
+import { MAX_LEAGUES_PER_ATHLETE, type LeagueUpgradeHint } from '@/types';
+
+/** Member roles that manage invites, join links and join requests (besides the owner) */
+export const LEAGUE_MANAGER_ROLES = ['ADMIN', 'CAPTAIN'];
+
+export type MembershipProblemCode =
+  | 'LEAGUE_INACTIVE'
+  | 'ALREADY_MEMBER'
+  | 'ATHLETE_LEAGUE_LIMIT'
+  | Exclude<EntitlementProblemCode, 'FEATURE_UNAVAILABLE'>;
+
+export interface MembershipProblem<Code extends string = MembershipProblemCode> {
+  code: Code;
+  message: string;
+  /** Set by plan problems, whose status depends on the upgrade that unlocks them */
+  status?: number;
+  upgrade?: LeagueUpgradeHint;
+}
+
+/** Everything the membership checks look at */
+export interface MembershipContext {
+  league: LeaguePlan & { status: string; memberCount: number };
+  /** Leagues the athlete is already in */
+  athleteLeagueCount: number;
+  alreadyMember: boolean;
+}
+
+/**
+ * The first reason the athlete can't join the league, or null if they can
+ */
+export function getMembershipProblem(context: MembershipContext): MembershipProblem | null {
+  const { league } = context;
+
+  if (league.status !== 'ACTIVE') {
+    return { code: 'LEAGUE_INACTIVE', message: `${league.name} is not accepting new members` };
+  }
+  if (context.alreadyMember) {
+    return { code: 'ALREADY_MEMBER', message: `You are already a member of ${league.name}` };
+  }
+  if (context.athleteLeagueCount >= MAX_LEAGUES_PER_ATHLETE) {
+    return {
+      code: 'ATHLETE_LEAGUE_LIMIT',
+      message: `Maximum ${MAX_LEAGUES_PER_ATHLETE} league memberships allowed per athlete`,
+    };
+  }
+
+  return getCapacityProblem(league, 1);
+}
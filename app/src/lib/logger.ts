@@ -263,4 +263,25 @@ export const domainLoggers = {
 
   /** Database operation logs */
   db: logger.child({ domain: 'db' }),
+
+  /** Season lifecycle logs */
+  seasons: logger.child({ domain: 'seasons' }),
+
+  /** Prize payout ledger logs */
+  payouts: logger.child({ domain: 'payouts' }),
+
+  /** Donation ingestion logs */
+  donations: logger.child({ domain: 'donations' }),
+
+  /** BTC/USD price logs */
+  prices: logger.child({ domain: 'prices' }),
+
+  /** Submission review logs */
+  submissions: logger.child({ domain: 'submissions' }),
+
+  /** League membership logs (invites, join links, join requests) */
+  leagues: logger.child({ domain: 'leagues' }),
+
+  /** League subscription billing logs */
+  billing: logger.child({ domain: 'billing' }),
 };
@@ -4,6 +4,7 @@
  * Includes various lab formats, unit systems, and edge cases
  */
 
+import type { PhenoAgeBiomarkerKey } from '../../../phenoage';
 import type { BiomarkerKey } from '../../types';
 
 /**
@@ -15,7 +16,7 @@ export interface TestParticipant {
   chronologicalAge: number;
   expectedPhenoAge: number;
   expectedAgeReduction: number;
-  biomarkers: Record<BiomarkerKey, number>;
+  biomarkers: Record<PhenoAgeBiomarkerKey, number>;
   biomarkersInSI?: Partial<Record<BiomarkerKey, number>>; // SI unit equivalents
 }
 
@@ -498,7 +499,7 @@ export const TEST_PARTICIPANTS: TestParticipant[] = [
 export interface LabReportFormat {
   name: string;
   description: string;
-  template: (values: Record<BiomarkerKey, number>, options?: { unit?: 'US' | 'SI' }) => string;
+  template: (values: Record<PhenoAgeBiomarkerKey, number>, options?: { unit?: 'US' | 'SI' }) => string;
 }
 
 /**
@@ -3,89 +3,30 @@
  */
 
 import { distance } from 'fastest-levenshtein';
-import { BiomarkerKey, BiomarkerExtraction, ConfidenceFactors, CONFIDENCE_THRESHOLDS } from './types';
-import { BIOMARKER_RANGES } from '../phenoage';
+import {
+  BiomarkerKey,
+  BiomarkerExtraction,
+  ConfidenceFactors,
+  ExtractionOptions,
+  CONFIDENCE_THRESHOLDS,
+} from './types';
+import { BIOMARKER_CATALOG, BIOMARKER_KEYS, getBiomarker } from '../biomarkers/catalog';
+import { deriveAbnormalFlag, findReferenceRange, scaleReferenceRange } from './reference-range';
 
 /**
- * Comprehensive aliases for each biomarker
+ * Aliases for each biomarker, from the biomarker catalog
  * Includes international variations, abbreviations, and common OCR errors
  */
-export const BIOMARKER_ALIASES: Record<BiomarkerKey, string[]> = {
-  albumin: [
-    'albumin', 'alb', 'serum albumin', 'albumina', 'albumine',
-    'alb.', 's-albumin', 'plasma albumin', 'albúmina', 'albumen',
-    'ser albumin', 'total albumin', 'albumin serum',
-    'albumine serique'  // French
-  ],
-  creatinine: [
-    'creatinine', 'creat', 'crea', 'creatinin', 'kreatinin',
-    'serum creatinine', 's-creatinine', 'creat.', 'créatinine',
-    'kreatinine', 'creatinina', 'plasma creatinine', 'creatinine serum'
-  ],
-  glucose: [
-    'glucose', 'gluc', 'glu', 'fasting glucose', 'blood glucose',
-    'glucosa', 'glukose', 'fbs', 'fbg', 'blood sugar', 'fasting blood sugar',
-    'glycemia', 'glycémie', 'blutzucker', 'plasma glucose', 'serum glucose',
-    'glucose fasting', 'fasting plasma glucose', 'fpg', 'random glucose'
-  ],
-  crp: [
-    'crp', 'c-reactive protein', 'c reactive protein', 'hs-crp',
-    'hscrp', 'high sensitivity crp', 'proteina c reactiva', 'pcr',
-    'c-reaktives protein', 'protéine c réactive', 'high-sensitivity crp',
-    'hs crp', 'c-reactive', 'creactive protein', 'sensitive crp',
-    'cardiac crp', 'crp-hs', 'ultra-sensitive crp'
-  ],
-  lymphocytePercent: [
-    'lymphocyte', 'lymph', 'lymphocytes', 'lymph %', 'lymph%',
-    'lym', 'lym%', 'lymphocyte %', 'linfocitos', 'lymphozyten',
-    'lymphocytes %', 'lymph percent', 'ly%', 'ly %', 'lymph pct',
-    'lymphocyte percent', '% lymphocytes', 'lymphocyte percentage',
-    'lymfocyty', 'b_lymfocyty', 'lymfocyt',  // Czech
-    'lymphozyten, relativ', 'lymphozyten relativ'  // German
-  ],
-  mcv: [
-    'mcv', 'mean corpuscular volume', 'mean cell volume',
-    'vcm', 'mch volume', 'mean corp vol', 'mean corp. volume',
-    'corpuscular volume', 'm.c.v', 'm.c.v.', 'erythrocyte mcv'
-  ],
-  rdw: [
-    'rdw', 'red cell distribution width', 'rdw-cv', 'rdw-sd',
-    'red blood cell distribution width', 'anisocytosis', 'rdw cv',
-    'rdw sd', 'rbc distribution width', 'r.d.w', 'r.d.w.',
-    'red cell dist width', 'erythrocyte distribution width',
-    'rdw-distr', 'distr. šířka rbc', 'šířka rbc',  // Czech
-    'evb', 'evb (rdw)', 'erythrozytenverteilungsbreite'  // German
-  ],
-  alp: [
-    'alp', 'alkaline phosphatase', 'alk phos', 'alkp',
-    'fosfatasa alcalina', 'ap', 'alk. phos.', 'alk phosphatase',
-    'alkalische phosphatase', 'phosphatase alcaline', 'alk.phos',
-    'alkaline phos', 'total alp', 'serum alp', 'palc'
-  ],
-  wbc: [
-    'wbc', 'white blood cell', 'white blood cells', 'leucocytes',
-    'leukocytes', 'wcc', 'leucocitos', 'total wbc', 'white cell count',
-    'white blood count', 'w.b.c', 'w.b.c.', 'leukozyten', 'leucocyte count',
-    'leukocyte count', 'total white count', 'twbc',
-    'leukocyty', 'b_leukocyty',  // Czech
-    'globules blancs', 'gb'  // French
-  ]
-};
+export const BIOMARKER_ALIASES = Object.fromEntries(
+  BIOMARKER_CATALOG.map((biomarker) => [biomarker.key, biomarker.aliases])
+) as Record<BiomarkerKey, string[]>;
 
 /**
- * Expected units for each biomarker with variations
+ * Expected units for each biomarker with variations, from the biomarker catalog
  */
-export const BIOMARKER_UNITS: Record<BiomarkerKey, string[]> = {
-  albumin: ['g/dl', 'g/l', 'gm/dl', 'g%'],
-  creatinine: ['mg/dl', 'mg/l', 'umol/l', 'μmol/l', 'µmol/l'],
-  glucose: ['mg/dl', 'mmol/l', 'mg/l', 'mg%'],
-  crp: ['mg/l', 'mg/dl', 'nmol/l', 'ug/ml', 'μg/ml'],
-  lymphocytePercent: ['%', 'percent', 'pct'],
-  mcv: ['fl', 'femtoliters', 'um3', 'μm3'],
-  rdw: ['%', 'percent', 'pct', 'cv', 'ratio'],  // ratio needs conversion to %
-  alp: ['u/l', 'iu/l', 'u/i', 'units/l'],
-  wbc: ['k/ul', 'k/μl', '10^3/ul', '10^9/l', 'x10^3/ul', 'x10^9/l', 'thou/ul', 'k/mcl', 'giga/l', 'g/l']
-};
+export const BIOMARKER_UNITS = Object.fromEntries(
+  BIOMARKER_CATALOG.map((biomarker) => [biomarker.key, biomarker.reportUnits])
+) as Record<BiomarkerKey, string[]>;
 
 /**
  * Regex patterns for extracting numeric values
@@ -202,20 +143,21 @@ export function calculateConfidence(
   value: number | null,
   matchQuality: number,
   unit: string | null,
-  ocrConfidence: number = 0.8
+  ocrConfidence: number = 0.8,
+  contextClarity: number = 0.7
 ): { confidence: number; factors: ConfidenceFactors } {
-  const range = BIOMARKER_RANGES[biomarker];
+  const range = getBiomarker(biomarker);
 
   const factors: ConfidenceFactors = {
     nameMatchQuality: matchQuality,
     valueInRange: 0,
     unitRecognized: unit ? 0.8 : 0.3,
-    contextClarity: 0.7, // Default, could be improved with more context analysis
+    contextClarity, // Default 0.7; table-aware extraction scores it from the column structure
     ocrConfidence,
   };
 
   // Check if value is within acceptable range
-  if (value !== null && range) {
+  if (value !== null) {
     if (value >= range.min && value <= range.max) {
       factors.valueInRange = 1.0;
     } else if (value >= range.min * 0.5 && value <= range.max * 2) {
@@ -243,16 +185,27 @@ export function calculateConfidence(
   return { confidence, factors };
 }
 
+/**
+ * Get aliases for a biomarker, with template overrides first
+ */
+export function getBiomarkerAliases(
+  biomarker: BiomarkerKey,
+  options: ExtractionOptions = {}
+): string[] {
+  return [...(options.aliasOverrides?.[biomarker] ?? []), ...BIOMARKER_ALIASES[biomarker]];
+}
+
 /**
  * Extract a single biomarker from OCR text
  */
 export function extractBiomarkerFromText(
   ocrText: string,
   targetBiomarker: BiomarkerKey,
-  pageNumber: number = 1
+  pageNumber: number = 1,
+  options: ExtractionOptions = {}
 ): BiomarkerExtraction {
   const lines = ocrText.split('\n');
-  const aliases = BIOMARKER_ALIASES[targetBiomarker];
+  const aliases = getBiomarkerAliases(targetBiomarker, options);
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -268,13 +221,19 @@ export function extractBiomarkerFromText(
       const searchText = lines.slice(i, Math.min(i + 3, lines.length)).join(' ');
       let value = extractNumericValue(searchText);
       const unit = extractUnit(searchText, targetBiomarker);
+      let { referenceRange, flag } = findReferenceRange(line, value);
 
       // RDW ratio-to-percentage conversion: if RDW value is < 1, it's likely a ratio
       // (e.g., 0.120 should be 12.0%)
       if (targetBiomarker === 'rdw' && value !== null && value < 1) {
         value = value * 100;
+        if (referenceRange && (referenceRange.high ?? referenceRange.low ?? 0) < 1) {
+          referenceRange = scaleReferenceRange(referenceRange, 100);
+        }
       }
 
+      flag = flag ?? deriveAbnormalFlag(value, referenceRange);
+
       const matchQuality = matchedAlias.toLowerCase() === lowerLine.trim().toLowerCase() ? 1.0 : 0.85;
       const { confidence } = calculateConfidence(targetBiomarker, value, matchQuality, unit);
 
@@ -286,6 +245,8 @@ export function extractBiomarkerFromText(
         rawText: searchText.substring(0, 200),
         lineNumber: i,
         pageNumber,
+        referenceRange,
+        flag,
       };
     }
   }
@@ -307,17 +268,15 @@ export function extractBiomarkerFromText(
  */
 export function extractAllBiomarkers(
   ocrText: string,
-  pageNumber: number = 1
+  pageNumber: number = 1,
+  options: ExtractionOptions = {}
 ): Record<BiomarkerKey, BiomarkerExtraction> {
-  const biomarkers: BiomarkerKey[] = [
-    'albumin', 'creatinine', 'glucose', 'crp',
-    'lymphocytePercent', 'mcv', 'rdw', 'alp', 'wbc'
-  ];
+  const biomarkers = BIOMARKER_KEYS;
 
   const results: Record<string, BiomarkerExtraction> = {};
 
   for (const biomarker of biomarkers) {
-    results[biomarker] = extractBiomarkerFromText(ocrText, biomarker, pageNumber);
+    results[biomarker] = extractBiomarkerFromText(ocrText, biomarker, pageNumber, options);
   }
 
   return results as Record<BiomarkerKey, BiomarkerExtraction>;
@@ -328,12 +287,10 @@ export function extractAllBiomarkers(
  * Merges results, preferring higher confidence extractions
  */
 export function extractFromMultiplePages(
-  pageTexts: Array<{ text: string; pageNumber: number }>
+  pageTexts: Array<{ text: string; pageNumber: number }>,
+  options: ExtractionOptions = {}
 ): Record<BiomarkerKey, BiomarkerExtraction> {
-  const biomarkers: BiomarkerKey[] = [
-    'albumin', 'creatinine', 'glucose', 'crp',
-    'lymphocytePercent', 'mcv', 'rdw', 'alp', 'wbc'
-  ];
+  const biomarkers = BIOMARKER_KEYS;
 
   const results: Record<string, BiomarkerExtraction> = {};
 
@@ -352,7 +309,7 @@ export function extractFromMultiplePages(
 
   // Process each page
   for (const page of pageTexts) {
-    const pageResults = extractAllBiomarkers(page.text, page.pageNumber);
+    const pageResults = extractAllBiomarkers(page.text, page.pageNumber, options);
 
     // Merge results, keeping higher confidence
     for (const biomarker of biomarkers) {
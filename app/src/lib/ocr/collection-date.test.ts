@@ -0,0 +1,66 @@
+/**
+ * Collection Date Tests
+ * Tests specimen collection date detection on lab reports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseReportDate, extractCollectionDate } from './collection-date';
+
+const iso = (date: Date | null) => date?.toISOString().slice(0, 10) ?? null;
+
+describe('Collection Date', () => {
+  describe('parseReportDate', () => {
+    it('should parse ISO dates', () => {
+      expect(iso(parseReportDate('2025-01-15'))).toBe('2025-01-15');
+    });
+
+    it('should read slash dates month-first and dot dates day-first by default', () => {
+      expect(iso(parseReportDate('01/02/2025'))).toBe('2025-01-02');
+      expect(iso(parseReportDate('01.02.2025'))).toBe('2025-02-01');
+    });
+
+    it('should follow the template date order for ambiguous dates', () => {
+      expect(iso(parseReportDate('01/02/2025', 'DMY'))).toBe('2025-02-01');
+    });
+
+    it('should disambiguate when one part cannot be a month', () => {
+      expect(iso(parseReportDate('15/01/2025', 'MDY'))).toBe('2025-01-15');
+      expect(iso(parseReportDate('01.15.2025', 'DMY'))).toBe('2025-01-15');
+    });
+
+    it('should parse named months', () => {
+      expect(iso(parseReportDate('15 Jan 2025'))).toBe('2025-01-15');
+      expect(iso(parseReportDate('January 15, 2025'))).toBe('2025-01-15');
+    });
+
+    it('should reject impossible dates', () => {
+      expect(parseReportDate('02/30/2025')).toBeNull();
+      expect(parseReportDate('no date here')).toBeNull();
+    });
+  });
+
+  describe('extractCollectionDate', () => {
+    it.each([
+      ['Date Collected: 01/15/2025', undefined],
+      ['Collected: 01/15/2025 08:30', undefined],
+      ['Entnahme: 15.01.2025', 'DMY' as const],
+      ['Datum odběru: 15.01.2025', 'DMY' as const],
+      ['Prélevé le 15/01/2025', 'DMY' as const],
+    ])('should find the date in "%s"', (text, dateOrder) => {
+      expect(iso(extractCollectionDate(text, dateOrder))).toBe('2025-01-15');
+    });
+
+    it('should prefer the collection date over other report dates', () => {
+      const text = 'Reported: 01/20/2025\nDate: 01/20/2025\nCollected: 01/15/2025';
+      expect(iso(extractCollectionDate(text))).toBe('2025-01-15');
+    });
+
+    it('should fall back to a generic date label', () => {
+      expect(iso(extractCollectionDate('Patient: Jane Doe\nDate: 2025-01-15'))).toBe('2025-01-15');
+    });
+
+    it('should return null when no date is printed', () => {
+      expect(extractCollectionDate('Albumin 4.5 g/dL')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Collection Date - Specimen collection date detection
+ *
+ * Finds the date the blood sample was collected on a lab report
+ * ("Collected: 01/15/2025", "Entnahme: 15.01.2025", "Prélevé le 15/01/2025").
+ * Multi-document submissions use it to check that separately reported panels
+ * come from the same blood draw window.
+ *
+ * Ambiguous numeric dates (01/02/2025) are read in the lab template's date
+ * order; without a template, "/" dates are read month-first and "." dates
+ * day-first.
+ *
+ * ## Extension Points
+ * - **Labels**: Add localized labels to COLLECTION_LABELS
+ *
+ * @module lib/ocr/collection-date
+ */
+
+export type DateOrder = 'MDY' | 'DMY';
+
+// Labels printed before the collection date, strongest first
+const COLLECTION_LABELS = [
+  /date\s+collected/i,
+  /collect(?:ion|ed)(?:\s+date)?(?:\s+on)?/i,
+  /specimen\s+date/i,
+  /entnahme(?:datum)?|abnahme(?:datum)?/i,
+  /datum\s+odběru|odběr(?:\s+dne)?/i,
+  /prélev(?:é|ement)(?:\s+le)?|date\s+de\s+prélèvement/i,
+];
+
+// Generic report date, used only when no collection label is present
+const FALLBACK_LABEL = /\b(?:date|datum)\b/i;
+
+const NUMERIC_DATE = /(\d{1,4})([./-])(\d{1,2})\2(\d{2,4})/;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+const NAMED_DATE = /(?:(\d{1,2})\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4}))|(?:([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4}))/i;
+
+// Only search this far after a label for the date itself
+const LABEL_LOOKAHEAD = 40;
+
+/**
+ * Build a UTC date, rejecting impossible day/month combinations
+ */
+function toDate(year: number, month: number, day: number): Date | null {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCDate() === day ? date : null;
+}
+
+/**
+ * Parse a single date string
+ */
+export function parseReportDate(text: string, dateOrder?: DateOrder): Date | null {
+  const numeric = text.match(NUMERIC_DATE);
+  if (numeric) {
+    const [, a, separator, b, c] = numeric;
+
+    // ISO: 2025-01-15
+    if (a.length === 4) {
+      return toDate(parseInt(a), parseInt(b), parseInt(c));
+    }
+
+    const first = parseInt(a);
+    const second = parseInt(b);
+    let order: DateOrder = dateOrder ?? (separator === '/' ? 'MDY' : 'DMY');
+    if (first > 12) order = 'DMY';
+    else if (second > 12) order = 'MDY';
+
+    return order === 'MDY'
+      ? toDate(parseInt(c), first, second)
+      : toDate(parseInt(c), second, first);
+  }
+
+  const named = text.match(NAMED_DATE);
+  if (named) {
+    const [day, monthName, year] = named[1]
+      ? [named[1], named[2], named[3]]
+      : [named[5], named[4], named[6]];
+    const month = MONTHS[monthName.toLowerCase()];
+    return month ? toDate(parseInt(year), month, parseInt(day)) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Find the specimen collection date in report text
+ */
+export function extractCollectionDate(text: string, dateOrder?: DateOrder): Date | null {
+  for (const label of [...COLLECTION_LABELS, FALLBACK_LABEL]) {
+    const match = label.exec(text);
+    if (!match) continue;
+
+    const start = match.index + match[0].length;
+    const date = parseReportDate(text.slice(start, start + LABEL_LOOKAHEAD), dateOrder);
+    if (date) return date;
+  }
+
+  return null;
+}
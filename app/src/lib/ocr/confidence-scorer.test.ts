@@ -75,6 +75,18 @@ describe('Confidence Scorer', () => {
       expect(result.score).toBeLessThanOrEqual(0.1);
       expect(result.suggestion).toContain('unit conversion');
     });
+
+    it('should score values inside the lab reference range as optimal', () => {
+      const labRange = { low: 65, high: 110, text: '65-110' };
+      expect(scoreValueRange('glucose', 105).score).toBe(0.9);
+      expect(scoreValueRange('glucose', 105, labRange).score).toBe(1.0);
+    });
+
+    it('should not treat lab-flagged abnormal values as misreads', () => {
+      const result = scoreValueRange('glucose', 95, { low: 65, high: 90, text: '65-90' });
+      expect(result.score).toBe(0.9);
+      expect(result.warning).toBeUndefined();
+    });
   });
 
   describe('scoreUnitRecognition', () => {
@@ -188,7 +200,7 @@ describe('Confidence Scorer', () => {
 
   describe('aggregateConfidence', () => {
     it('should calculate average and counts correctly', () => {
-      const extractions: Record<BiomarkerKey, BiomarkerExtraction> = {
+      const extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>> = {
         albumin: createExtraction('albumin', 4.5, 'g/dL', 0.9),
         creatinine: createExtraction('creatinine', 0.9, 'mg/dL', 0.85),
         glucose: createExtraction('glucose', 85, 'mg/dL', 0.88),
@@ -210,7 +222,7 @@ describe('Confidence Scorer', () => {
       const highConfExtraction = (biomarker: BiomarkerKey) =>
         createExtraction(biomarker, 1, 'unit', 0.9);
 
-      const extractions: Record<BiomarkerKey, BiomarkerExtraction> = {
+      const extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>> = {
         albumin: highConfExtraction('albumin'),
         creatinine: highConfExtraction('creatinine'),
         glucose: highConfExtraction('glucose'),
@@ -231,7 +243,7 @@ describe('Confidence Scorer', () => {
       const missingExtraction = (biomarker: BiomarkerKey) =>
         createExtraction(biomarker, null, null, 0);
 
-      const extractions: Record<BiomarkerKey, BiomarkerExtraction> = {
+      const extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>> = {
         albumin: missingExtraction('albumin'),
         creatinine: missingExtraction('creatinine'),
         glucose: missingExtraction('glucose'),
@@ -252,7 +264,7 @@ describe('Confidence Scorer', () => {
 
   describe('getExtractionSummary', () => {
     it('should return formatted summary string', () => {
-      const extractions: Record<BiomarkerKey, BiomarkerExtraction> = {
+      const extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>> = {
         albumin: createExtraction('albumin', 4.5, 'g/dL', 0.9),
         creatinine: createExtraction('creatinine', 0.9, 'mg/dL', 0.6),
         glucose: createExtraction('glucose', null, null, 0),
@@ -271,7 +283,7 @@ describe('Confidence Scorer', () => {
     });
 
     it('should mention not found items', () => {
-      const extractions: Record<BiomarkerKey, BiomarkerExtraction> = {
+      const extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>> = {
         albumin: createExtraction('albumin', null, null, 0),
         creatinine: createExtraction('creatinine', null, null, 0),
         glucose: createExtraction('glucose', 85, 'mg/dL', 0.9),
@@ -9,8 +9,10 @@ import {
   ConfidenceFactors,
   CONFIDENCE_THRESHOLDS,
   ConfidenceBreakdownDetailed,
+  ReferenceRange,
 } from './types';
-import { BIOMARKER_RANGES } from '../phenoage';
+import { getBiomarker } from '../biomarkers/catalog';
+import { PHENOAGE_BIOMARKER_KEYS } from '../phenoage';
 
 /**
  * Detailed confidence breakdown with explanations
@@ -61,10 +63,13 @@ export function scoreNameMatch(
 
 /**
  * Score whether value is in expected range
+ * When the lab printed a reference range, a value inside it scores as optimal;
+ * a value outside it is a real abnormal result as long as it stays plausible.
  */
 export function scoreValueRange(
   biomarker: BiomarkerKey,
-  value: number | null
+  value: number | null,
+  referenceRange?: ReferenceRange | null
 ): { score: number; warning?: string; suggestion?: string } {
   if (value === null) {
     return {
@@ -74,13 +79,14 @@ export function scoreValueRange(
     };
   }
 
-  const range = BIOMARKER_RANGES[biomarker];
-  if (!range) {
-    return { score: 0.5 };
+  if (referenceRange && isWithinReferenceRange(value, referenceRange)) {
+    return { score: 1.0 };
   }
 
-  // Check optimal range
-  if (value >= range.optimal.min && value <= range.optimal.max) {
+  const range = getBiomarker(biomarker);
+
+  // Check optimal range (the lab's own range replaces it when printed)
+  if (!referenceRange && value >= range.optimal.min && value <= range.optimal.max) {
     return { score: 1.0 };
   }
 
@@ -106,6 +112,13 @@ export function scoreValueRange(
   };
 }
 
+/**
+ * Check a value against a lab reference range (open-ended bounds allowed)
+ */
+function isWithinReferenceRange(value: number, range: ReferenceRange): boolean {
+  return (range.low === null || value >= range.low) && (range.high === null || value <= range.high);
+}
+
 /**
  * Score unit recognition
  */
@@ -133,12 +146,32 @@ export function scoreUnitRecognition(
 
 /**
  * Score context clarity (how isolated/clear the value is)
+ * When table structure is known, the column the value came from is used
+ * instead of counting nearby numbers.
  */
 export function scoreContextClarity(
   rawText: string,
-  value: number | null
+  value: number | null,
+  structure: Pick<BiomarkerExtraction, 'valueColumn' | 'tableRow'> = {}
 ): { score: number; warning?: string } {
-  if (!rawText || value === null) {
+  if (value === null) {
+    return { score: 0.3 };
+  }
+
+  if (structure.valueColumn) {
+    if (structure.valueColumn !== 'result') {
+      return {
+        score: 0.4,
+        warning: `Value was read from the ${structure.valueColumn} column - please verify`,
+      };
+    }
+
+    // Result column with reference range/unit in their own columns is unambiguous
+    const row = structure.tableRow;
+    return { score: row?.reference || row?.unit ? 1.0 : 0.9 };
+  }
+
+  if (!rawText) {
     return { score: 0.3 };
   }
 
@@ -192,7 +225,7 @@ export function calculateComprehensiveConfidence(
   );
   if (nameResult.warning) warnings.push(nameResult.warning);
 
-  const rangeResult = scoreValueRange(extraction.biomarker, extraction.value);
+  const rangeResult = scoreValueRange(extraction.biomarker, extraction.value, extraction.referenceRange);
   if (rangeResult.warning) warnings.push(rangeResult.warning);
   if (rangeResult.suggestion) suggestions.push(rangeResult.suggestion);
 
@@ -203,7 +236,7 @@ export function calculateComprehensiveConfidence(
   );
   if (unitResult.warning) warnings.push(unitResult.warning);
 
-  const contextResult = scoreContextClarity(extraction.rawText, extraction.value);
+  const contextResult = scoreContextClarity(extraction.rawText, extraction.value, extraction);
   if (contextResult.warning) warnings.push(contextResult.warning);
 
   // Build factors object
@@ -269,11 +302,15 @@ export function getConfidenceExplanation(breakdown: ConfidenceBreakdown): string
   return parts.join(' | ');
 }
 
+function isPhenoAgeBiomarker(biomarker: BiomarkerKey): boolean {
+  return (PHENOAGE_BIOMARKER_KEYS as BiomarkerKey[]).includes(biomarker);
+}
+
 /**
  * Aggregate confidence across all biomarkers
  */
 export function aggregateConfidence(
-  extractions: Record<BiomarkerKey, BiomarkerExtraction>
+  extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>>
 ): {
   averageConfidence: number;
   highConfidenceCount: number;
@@ -282,7 +319,12 @@ export function aggregateConfidence(
   missingCount: number;
   overallQuality: 'excellent' | 'good' | 'fair' | 'poor';
 } {
-  const biomarkers = Object.keys(extractions) as BiomarkerKey[];
+  // Optional biomarkers (outside the PhenoAge set) only count when found
+  const biomarkers = (Object.keys(extractions) as BiomarkerKey[]).filter(
+    (biomarker) =>
+      extractions[biomarker] !== undefined &&
+      (extractions[biomarker].value !== null || isPhenoAgeBiomarker(biomarker))
+  );
 
   let totalConfidence = 0;
   let highConfidenceCount = 0;
@@ -291,7 +333,7 @@ export function aggregateConfidence(
   let missingCount = 0;
 
   for (const biomarker of biomarkers) {
-    const extraction = extractions[biomarker];
+    const extraction = extractions[biomarker] as BiomarkerExtraction;
     totalConfidence += extraction.confidence;
 
     if (extraction.value === null) {
@@ -333,7 +375,7 @@ export function aggregateConfidence(
  * Get extraction summary for UI display
  */
 export function getExtractionSummary(
-  extractions: Record<BiomarkerKey, BiomarkerExtraction>
+  extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>>
 ): string {
   const stats = aggregateConfidence(extractions);
 
@@ -386,8 +428,12 @@ function getFactorExplanation(
       return `Could not find "${biomarker}" in the document`;
 
     case 'valueInRange': {
-      const range = BIOMARKER_RANGES[biomarker];
-      if (!range) return `No reference range available for ${biomarker}`;
+      const labRange = extraction.referenceRange;
+      if (labRange && extraction.value !== null) {
+        if (score >= 1) return `Value ${extraction.value} is within the lab's reference range (${labRange.text})`;
+        if (score >= 0.9) return `Value ${extraction.value} is outside the lab's reference range (${labRange.text}) but plausible`;
+      }
+      const range = getBiomarker(biomarker);
       if (score >= 0.9) return `Value ${extraction.value} is within normal range (${range.min}-${range.max})`;
       if (score >= 0.5) return `Value ${extraction.value} is slightly outside typical range`;
       if (extraction.value === null) return 'No numeric value could be extracted';
@@ -400,6 +446,12 @@ function getFactorExplanation(
       return 'Unit not found - using assumed standard unit';
 
     case 'contextClarity': {
+      if (extraction.valueColumn) {
+        if (extraction.valueColumn !== 'result') {
+          return `Value read from the ${extraction.valueColumn} column - verify correct value was extracted`;
+        }
+        return 'Value read from the result column of the report table';
+      }
       const numbers = (extraction.rawText.match(/\d+\.?\d*/g) || []).length;
       if (score >= 0.9) return 'Value clearly isolated in text';
       if (score >= 0.7) return `${numbers} numbers found nearby - likely includes reference range`;
@@ -470,9 +522,9 @@ export function generateDetailedConfidenceBreakdown(
 
   // Get individual factor scores
   const nameResult = scoreNameMatch(extraction.rawText, extraction.biomarker, isExactNameMatch);
-  const rangeResult = scoreValueRange(extraction.biomarker, extraction.value);
+  const rangeResult = scoreValueRange(extraction.biomarker, extraction.value, extraction.referenceRange);
   const unitResult = scoreUnitRecognition(extraction.biomarker, extraction.unit, wasUnitConverted);
-  const contextResult = scoreContextClarity(extraction.rawText, extraction.value);
+  const contextResult = scoreContextClarity(extraction.rawText, extraction.value, extraction);
 
   // Build detailed factors with explanations
   const factors: ConfidenceBreakdownDetailed['factors'] = {
@@ -0,0 +1,134 @@
+/**
+ * Document Merge Tests
+ * Tests merging extractions across documents, conflicts and the collection gap
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mergeDocumentExtractions,
+  checkCollectionGap,
+  type MergeDocument,
+} from './document-merge';
+import type { BiomarkerExtraction, BiomarkerKey } from './types';
+
+function extraction(biomarker: BiomarkerKey, value: number, confidence = 0.9): BiomarkerExtraction {
+  return {
+    biomarker,
+    value,
+    unit: null,
+    confidence,
+    rawText: `${biomarker} ${value}`,
+    lineNumber: 1,
+    pageNumber: 1,
+  };
+}
+
+function document(
+  jobId: string,
+  extractions: BiomarkerExtraction[],
+  collectedAt: string | null = '2025-01-15'
+): MergeDocument {
+  return {
+    jobId,
+    fileName: `${jobId}.pdf`,
+    collectedAt: collectedAt ? new Date(collectedAt) : null,
+    extractions: Object.fromEntries(extractions.map((e) => [e.biomarker, e])),
+  };
+}
+
+describe('Document Merge', () => {
+  describe('mergeDocumentExtractions', () => {
+    it('should combine biomarkers found in different documents', () => {
+      const chemistry = document('chem', [extraction('albumin', 4.5), extraction('glucose', 90)]);
+      const cbc = document('cbc', [extraction('wbc', 6.1), extraction('mcv', 88)]);
+
+      const merged = mergeDocumentExtractions([chemistry, cbc]);
+
+      expect(merged.extractions.albumin.value).toBe(4.5);
+      expect(merged.extractions.wbc.value).toBe(6.1);
+      expect(merged.extractions.crp.value).toBeNull();
+      expect(merged.sources).toMatchObject({ albumin: 'chem', wbc: 'cbc' });
+      expect(merged.conflicts).toHaveLength(0);
+    });
+
+    it('should take agreeing values from the most confident extraction', () => {
+      const merged = mergeDocumentExtractions([
+        document('a', [extraction('glucose', 90, 0.7)]),
+        document('b', [extraction('glucose', 91, 0.95)]),
+      ]);
+
+      expect(merged.extractions.glucose.value).toBe(91);
+      expect(merged.sources.glucose).toBe('b');
+      expect(merged.conflicts).toHaveLength(0);
+    });
+
+    it('should report disagreeing values as unresolved conflicts', () => {
+      const merged = mergeDocumentExtractions([
+        document('a', [extraction('glucose', 90, 0.95)]),
+        document('b', [extraction('glucose', 110, 0.8)]),
+      ]);
+
+      expect(merged.unresolved).toEqual(['glucose']);
+      expect(merged.conflicts[0]).toMatchObject({ biomarker: 'glucose', resolvedJobId: null });
+      expect(merged.conflicts[0].candidates.map((c) => c.jobId)).toEqual(['a', 'b']);
+      expect(merged.extractions.glucose.value).toBe(90);
+    });
+
+    it('should use the document chosen by the athlete', () => {
+      const merged = mergeDocumentExtractions(
+        [
+          document('a', [extraction('glucose', 90, 0.95)]),
+          document('b', [extraction('glucose', 110, 0.8)]),
+        ],
+        { glucose: 'b' }
+      );
+
+      expect(merged.unresolved).toHaveLength(0);
+      expect(merged.conflicts[0].resolvedJobId).toBe('b');
+      expect(merged.extractions.glucose.value).toBe(110);
+    });
+
+    it('should ignore resolutions pointing at other documents', () => {
+      const merged = mergeDocumentExtractions(
+        [
+          document('a', [extraction('glucose', 90)]),
+          document('b', [extraction('glucose', 110)]),
+        ],
+        { glucose: 'removed' }
+      );
+
+      expect(merged.unresolved).toEqual(['glucose']);
+    });
+  });
+
+  describe('checkCollectionGap', () => {
+    it('should always accept a single document', () => {
+      expect(checkCollectionGap([document('a', [], null)], 14).valid).toBe(true);
+    });
+
+    it('should accept documents collected within the window', () => {
+      const check = checkCollectionGap(
+        [document('a', [], '2025-01-10'), document('b', [], '2025-01-20')],
+        14
+      );
+
+      expect(check).toMatchObject({ valid: true, gapDays: 10 });
+    });
+
+    it('should reject documents collected too far apart', () => {
+      const check = checkCollectionGap(
+        [document('a', [], '2025-01-01'), document('b', [], '2025-02-01')],
+        14
+      );
+
+      expect(check).toMatchObject({ valid: false, gapDays: 31, maxGapDays: 14 });
+    });
+
+    it('should list documents without a collection date', () => {
+      const check = checkCollectionGap([document('a', []), document('b', [], null)], 14);
+
+      expect(check.valid).toBe(false);
+      expect(check.missingDates).toEqual(['b.pdf']);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Document Merge - Combine extractions from several lab documents
+ *
+ * Athletes often receive their CBC and chemistry panel as separate reports.
+ * A submission draft collects those documents and merges their extractions
+ * per biomarker:
+ *
+ * - A biomarker found in one document is taken from it
+ * - A biomarker found in several documents with agreeing values (within
+ *   VALUE_AGREEMENT_TOLERANCE) is taken from the most confident extraction
+ * - Disagreeing values are a conflict; the athlete resolves it by picking the
+ *   source document, until then the most confident value is shown
+ *
+ * checkCollectionGap() enforces the season's maximum gap between the
+ * documents' collection dates so all values come from one blood-draw window.
+ *
+ * @module lib/ocr/document-merge
+ */
+
+import type { BiomarkerExtraction, BiomarkerKey } from './types';
+import { BIOMARKER_KEYS } from '../biomarkers/catalog';
+
+// Values within 2% of each other are the same result printed twice
+export const VALUE_AGREEMENT_TOLERANCE = 0.02;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A completed OCR document in a draft
+ */
+export interface MergeDocument {
+  jobId: string;
+  fileName: string;
+  collectedAt: Date | null;
+  extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>>;
+}
+
+/**
+ * One document's value for a biomarker
+ */
+export interface MergeCandidate {
+  jobId: string;
+  fileName: string;
+  value: number;
+  unit: string | null;
+  confidence: number;
+}
+
+/**
+ * Biomarker with disagreeing values across documents
+ */
+export interface BiomarkerConflict {
+  biomarker: BiomarkerKey;
+  candidates: MergeCandidate[];
+  /** Source document chosen by the athlete, null while unresolved */
+  resolvedJobId: string | null;
+}
+
+/** Chosen source document per conflicting biomarker */
+export type ConflictResolutions = Partial<Record<BiomarkerKey, string>>;
+
+export interface MergedDocuments {
+  extractions: Record<BiomarkerKey, BiomarkerExtraction>;
+  /** Source document of each merged value */
+  sources: Partial<Record<BiomarkerKey, string>>;
+  conflicts: BiomarkerConflict[];
+  unresolved: BiomarkerKey[];
+}
+
+export interface CollectionGapCheck {
+  valid: boolean;
+  gapDays: number | null;
+  maxGapDays: number;
+  /** Documents without a collection date (the gap cannot be checked) */
+  missingDates: string[];
+}
+
+/**
+ * Check whether two values are the same result
+ */
+function valuesAgree(a: number, b: number): boolean {
+  const scale = Math.max(Math.abs(a), Math.abs(b));
+  return scale === 0 || Math.abs(a - b) / scale <= VALUE_AGREEMENT_TOLERANCE;
+}
+
+function emptyExtraction(biomarker: BiomarkerKey): BiomarkerExtraction {
+  return {
+    biomarker,
+    value: null,
+    unit: null,
+    confidence: 0,
+    rawText: '',
+    lineNumber: -1,
+    pageNumber: 1,
+  };
+}
+
+/**
+ * Merge per-biomarker extractions from several documents
+ */
+export function mergeDocumentExtractions(
+  documents: MergeDocument[],
+  resolutions: ConflictResolutions = {}
+): MergedDocuments {
+  const extractions = {} as Record<BiomarkerKey, BiomarkerExtraction>;
+  const sources: Partial<Record<BiomarkerKey, string>> = {};
+  const conflicts: BiomarkerConflict[] = [];
+  const unresolved: BiomarkerKey[] = [];
+
+  for (const biomarker of BIOMARKER_KEYS) {
+    const found = documents
+      .map((document) => ({ document, extraction: document.extractions[biomarker] }))
+      .filter(
+        (entry): entry is { document: MergeDocument; extraction: BiomarkerExtraction } =>
+          entry.extraction !== undefined && entry.extraction.value !== null
+      )
+      .sort((a, b) => b.extraction.confidence - a.extraction.confidence);
+
+    if (found.length === 0) {
+      extractions[biomarker] = emptyExtraction(biomarker);
+      continue;
+    }
+
+    let chosen = found[0];
+    const best = chosen.extraction.value as number;
+    const disagrees = found.some((entry) => !valuesAgree(entry.extraction.value as number, best));
+
+    if (disagrees) {
+      const resolvedJobId = resolutions[biomarker] ?? null;
+      const resolved = found.find((entry) => entry.document.jobId === resolvedJobId);
+
+      conflicts.push({
+        biomarker,
+        candidates: found.map(({ document, extraction }) => ({
+          jobId: document.jobId,
+          fileName: document.fileName,
+          value: extraction.value as number,
+          unit: extraction.unit,
+          confidence: extraction.confidence,
+        })),
+        resolvedJobId: resolved ? resolvedJobId : null,
+      });
+
+      if (resolved) {
+        chosen = resolved;
+      } else {
+        unresolved.push(biomarker);
+      }
+    }
+
+    extractions[biomarker] = chosen.extraction;
+    sources[biomarker] = chosen.document.jobId;
+  }
+
+  return { extractions, sources, conflicts, unresolved };
+}
+
+/**
+ * Check the gap between the documents' collection dates
+ * A single document always passes; several documents all need a date.
+ */
+export function checkCollectionGap(
+  documents: Array<Pick<MergeDocument, 'fileName' | 'collectedAt'>>,
+  maxGapDays: number
+): CollectionGapCheck {
+  if (documents.length < 2) {
+    return { valid: true, gapDays: null, maxGapDays, missingDates: [] };
+  }
+
+  const missingDates = documents.filter((d) => !d.collectedAt).map((d) => d.fileName);
+  if (missingDates.length > 0) {
+    return { valid: false, gapDays: null, maxGapDays, missingDates };
+  }
+
+  const times = documents.map((d) => (d.collectedAt as Date).getTime());
+  const gapDays = Math.round((Math.max(...times) - Math.min(...times)) / DAY_MS);
+
+  return { valid: gapDays <= maxGapDays, gapDays, maxGapDays, missingDates };
+}
@@ -0,0 +1,283 @@
+/**
+ * Document Processor
+ *
+ * Runs the full OCR pipeline for a single uploaded lab report:
+ * per-page engine selection (PDF text layer or rasterized OCR, see
+ * ocr-engine.ts), lab template detection (lab-templates.ts), table-aware
+ * and line-based biomarker extraction, collection date detection and unit
+ * normalization.
+ *
+ * Shared by the OCR job queue so the work can run outside the request.
+ */
+
+import {
+  selectOcrEngine,
+  getDefaultOcrEngine,
+  type OcrPageInput,
+  type OcrPageResult,
+} from './ocr-engine';
+import { renderPdfPage, isPdf, extractPdfText } from './pdf-processor';
+import { extractFromMultiplePages } from './biomarker-extractor';
+import { extractFromTablePages, preferTableExtractions } from './table-extractor';
+import {
+  detectLabTemplate,
+  getLabTemplate,
+  getTemplateDefaultUnit,
+  normalizeDecimals,
+} from './lab-templates';
+import { scaleReferenceRange } from './reference-range';
+import { extractCollectionDate } from './collection-date';
+import { smartConvert } from './unit-converter';
+import { convertToStandardFormat, type FileFormatInfo } from './file-formats';
+import type {
+  BiomarkerKey,
+  BiomarkerExtraction,
+  ExtractionOptions,
+  OcrExtractionResult,
+} from './types';
+import { BIOMARKER_KEYS } from '../biomarkers/catalog';
+
+// Maximum number of scanned pages sent to a raster OCR engine
+const MAX_OCR_PAGES = 10;
+
+/** Called with a 0-100 progress value as pages are processed */
+export type ProgressCallback = (progress: number) => void;
+
+export interface ProcessedDocument {
+  result: OcrExtractionResult;
+  processingNotes: string[];
+}
+
+/**
+ * Process an uploaded document (PDF or image) and extract biomarkers
+ */
+export async function processDocument(
+  buffer: Buffer,
+  formatInfo: FileFormatInfo,
+  onProgress?: ProgressCallback
+): Promise<ProcessedDocument> {
+  const startTime = Date.now();
+  const processingNotes: string[] = [];
+  let result: OcrExtractionResult;
+
+  if (formatInfo.category === 'pdf' || isPdf(buffer)) {
+    result = await processPdf(buffer, onProgress);
+  } else {
+    // Convert image to standard format if needed
+    const { buffer: processableBuffer, converted, originalFormat } =
+      await convertToStandardFormat(buffer, formatInfo);
+
+    if (converted) {
+      processingNotes.push(`Converted from ${originalFormat.toUpperCase()} to PNG`);
+    }
+
+    result = await processImage(processableBuffer);
+  }
+
+  onProgress?.(100);
+
+  return {
+    result: {
+      ...result,
+      processingTimeMs: Date.now() - startTime,
+    },
+    processingNotes,
+  };
+}
+
+/**
+ * Process a PDF file page by page
+ * Pages with a usable text layer are read directly; the rest are rasterized
+ * and sent to the default OCR engine.
+ */
+async function processPdf(
+  buffer: Buffer,
+  onProgress?: ProgressCallback
+): Promise<OcrExtractionResult> {
+  const errors: string[] = [];
+  const { pages } = await extractPdfText(buffer);
+
+  if (pages.length === 0) {
+    errors.push('Could not extract any pages from PDF');
+    return createEmptyResult(errors, 0);
+  }
+
+  const pageResults: OcrPageResult[] = [];
+  let rasterizedPages = 0;
+
+  for (const [index, page] of pages.entries()) {
+    onProgress?.(Math.round((index / pages.length) * 100));
+
+    const textInput: OcrPageInput = {
+      pageNumber: page.pageNumber,
+      textItems: page.items,
+      width: page.width,
+      height: page.height,
+    };
+    const engine = selectOcrEngine(textInput);
+
+    try {
+      if (!engine.requiresRaster) {
+        pageResults.push(await engine.recognize(textInput));
+        continue;
+      }
+
+      // Limit rasterized OCR to the first pages of long scanned reports
+      if (rasterizedPages >= MAX_OCR_PAGES) continue;
+      rasterizedPages++;
+
+      const pageImage = await renderPdfPage(buffer, page.pageNumber);
+      pageResults.push(
+        await engine.recognize({
+          pageNumber: page.pageNumber,
+          imageBuffer: pageImage.imageBuffer,
+          width: pageImage.width,
+          height: pageImage.height,
+        })
+      );
+    } catch (err) {
+      errors.push(`Failed to ${engine.requiresRaster ? 'OCR' : 'read'} page ${page.pageNumber}: ${err}`);
+    }
+  }
+
+  if (pageResults.length === 0) {
+    errors.push('OCR failed on all pages');
+    return createEmptyResult(errors, pages.length);
+  }
+
+  return extractFromPages(pageResults, pages.length, errors);
+}
+
+/**
+ * Process an image file with the default OCR engine
+ */
+async function processImage(buffer: Buffer): Promise<OcrExtractionResult> {
+  const errors: string[] = [];
+
+  try {
+    const ocrResult = await getDefaultOcrEngine().recognize({ pageNumber: 1, imageBuffer: buffer });
+    return extractFromPages([ocrResult], 1, errors);
+  } catch (err) {
+    errors.push(`OCR failed: ${err}`);
+    return createEmptyResult(errors, 1);
+  }
+}
+
+/**
+ * Detect the lab template and extract biomarkers from recognized pages,
+ * preferring table rows rebuilt from word positions over line matches
+ */
+function extractFromPages(
+  pageResults: OcrPageResult[],
+  pageCount: number,
+  errors: string[]
+): OcrExtractionResult {
+  const detected = detectLabTemplate(pageResults.map((p) => p.text).join('\n'));
+  const template = detected ? getLabTemplate(detected.id) : null;
+  const options: ExtractionOptions = { aliasOverrides: template?.aliasOverrides };
+
+  const normalize = (text: string) => (template ? normalizeDecimals(text, template) : text);
+
+  const pageTexts = pageResults.map((p) => ({ text: normalize(p.text), pageNumber: p.pageNumber }));
+  const pageWords = pageResults.map((p) => ({
+    pageNumber: p.pageNumber,
+    words: p.words.map((word) => ({ ...word, text: normalize(word.text) })),
+  }));
+
+  const extractions = preferTableExtractions(
+    extractFromMultiplePages(pageTexts, options),
+    extractFromTablePages(pageWords, options)
+  );
+
+  // Values printed without a unit follow the lab's unit system
+  if (template) {
+    for (const extraction of Object.values(extractions)) {
+      if (extraction.value !== null && !extraction.unit) {
+        extraction.unit = getTemplateDefaultUnit(template, extraction.biomarker);
+      }
+    }
+  }
+
+  const rawText = pageResults
+    .map((p) => `--- Page ${p.pageNumber} ---\n${p.text}`)
+    .join('\n\n');
+  const collectedAt = extractCollectionDate(
+    pageTexts.map((p) => p.text).join('\n'),
+    template?.dateOrder
+  );
+
+  return {
+    success: true,
+    extractions: applyUnitConversions(extractions),
+    rawText: pageResults.length === 1 ? pageResults[0].text : rawText,
+    pageCount,
+    processingTimeMs: 0,
+    errors,
+    labTemplate: detected
+      ? { id: detected.id, name: detected.name, version: detected.version }
+      : null,
+    collectedAt: collectedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Apply unit conversions to all extractions
+ */
+function applyUnitConversions(
+  extractions: Record<BiomarkerKey, BiomarkerExtraction>
+): Record<BiomarkerKey, BiomarkerExtraction> {
+  const result: Record<string, BiomarkerExtraction> = {};
+
+  for (const [key, extraction] of Object.entries(extractions)) {
+    const biomarker = key as BiomarkerKey;
+
+    if (extraction.value !== null) {
+      const converted = smartConvert(biomarker, extraction.value, extraction.unit);
+
+      // The lab's range converts with the same factor and offset as the value
+      result[biomarker] = {
+        ...extraction,
+        value: converted.value,
+        unit: converted.unit,
+        referenceRange:
+          extraction.referenceRange && converted.converted
+            ? scaleReferenceRange(extraction.referenceRange, converted.factor, converted.offset)
+            : extraction.referenceRange,
+        // Adjust confidence if unit was detected/converted
+        confidence: extraction.confidence * converted.confidence,
+      };
+    } else {
+      result[biomarker] = extraction;
+    }
+  }
+
+  return result as Record<BiomarkerKey, BiomarkerExtraction>;
+}
+
+/**
+ * Create an empty result with errors
+ */
+function createEmptyResult(errors: string[], pageCount: number): OcrExtractionResult {
+  const emptyExtractions: Record<string, BiomarkerExtraction> = {};
+
+  for (const biomarker of BIOMARKER_KEYS) {
+    emptyExtractions[biomarker] = {
+      biomarker,
+      value: null,
+      unit: null,
+      confidence: 0,
+      rawText: '',
+      lineNumber: -1,
+      pageNumber: 0,
+    };
+  }
+
+  return {
+    success: false,
+    extractions: emptyExtractions as Record<BiomarkerKey, BiomarkerExtraction>,
+    rawText: '',
+    pageCount,
+    processingTimeMs: 0,
+    errors,
+  };
+}
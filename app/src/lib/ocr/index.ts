@@ -39,10 +39,28 @@ export {
   isPdf,
   extractPdfText,
   needsOcr,
+  textNeedsOcr,
   type PdfPageImage,
   type PdfInfo,
+  type PdfTextItem,
+  type PdfTextPage,
 } from './pdf-processor';
 
+// OCR engines
+export {
+  tesseractEngine,
+  pdfTextEngine,
+  registerOcrEngine,
+  getOcrEngine,
+  setDefaultOcrEngine,
+  getDefaultOcrEngine,
+  selectOcrEngine,
+  type OcrEngine,
+  type OcrPageInput,
+  type OcrPageResult,
+  type PageGeometry,
+} from './ocr-engine';
+
 // Biomarker extraction
 export {
   BIOMARKER_ALIASES,
@@ -54,10 +72,49 @@ export {
   extractBiomarkerFromText,
   extractAllBiomarkers,
   extractFromMultiplePages,
+  getBiomarkerAliases,
   getConfidenceLevel,
   shouldAutoFill,
 } from './biomarker-extractor';
 
+// Table-aware extraction
+export {
+  rebuildTableRows,
+  matchBiomarkerName,
+  extractBiomarkersFromTable,
+  extractFromTablePages,
+  preferTableExtractions,
+  type PositionedWord,
+  type TableCell,
+  type TableRow,
+} from './table-extractor';
+
+// Reference ranges and abnormal flags
+export {
+  parseReferenceRange,
+  parseAbnormalFlag,
+  deriveAbnormalFlag,
+  scaleReferenceRange,
+  findReferenceRange,
+  collectReferenceRanges,
+} from './reference-range';
+
+// Lab report templates
+export {
+  LAB_TEMPLATES,
+  UNIT_SYSTEM_DEFAULTS,
+  registerLabTemplate,
+  getLabTemplate,
+  getLabTemplates,
+  detectLabTemplate,
+  normalizeDecimals,
+  getTemplateDefaultUnit,
+  type LabTemplate,
+  type LabFingerprints,
+  type DetectedLabTemplate,
+  type UnitSystem,
+} from './lab-templates';
+
 // Unit conversion
 export {
   UNIT_CONVERSIONS,
@@ -109,3 +166,47 @@ export {
   type FileFormatInfo,
   type FileValidationResult,
 } from './file-formats';
+
+// Document pipeline
+export {
+  processDocument,
+  type ProcessedDocument,
+  type ProgressCallback,
+} from './document-processor';
+
+// Collection dates
+export {
+  extractCollectionDate,
+  parseReportDate,
+  type DateOrder,
+} from './collection-date';
+
+// Multi-document submissions
+export {
+  VALUE_AGREEMENT_TOLERANCE,
+  mergeDocumentExtractions,
+  checkCollectionGap,
+  type MergeDocument,
+  type MergeCandidate,
+  type BiomarkerConflict,
+  type ConflictResolutions,
+  type MergedDocuments,
+  type CollectionGapCheck,
+} from './document-merge';
+export {
+  DEFAULT_MAX_DOCUMENT_GAP_DAYS,
+  getSubmissionDraftView,
+  type DraftDocumentSummary,
+  type SubmissionDraftView,
+} from './submission-draft';
+
+// Background job queue
+export {
+  enqueueOcrJob,
+  runOcrJob,
+  getOcrJobProgress,
+  getQueuePosition,
+  failOrphanedOcrJob,
+  OCR_JOB_TIMEOUT_MS,
+  type QueuedOcrJob,
+} from './ocr-queue';
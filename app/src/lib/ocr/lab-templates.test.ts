@@ -0,0 +1,114 @@
+/**
+ * Lab Templates Tests
+ * Tests lab layout fingerprinting and template-specific parsing rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  detectLabTemplate,
+  getLabTemplate,
+  registerLabTemplate,
+  normalizeDecimals,
+  getTemplateDefaultUnit,
+} from './lab-templates';
+import { extractAllBiomarkers } from './biomarker-extractor';
+import {
+  TEST_PARTICIPANTS,
+  QUEST_FORMAT,
+  LABCORP_FORMAT,
+  GERMAN_LAB_FORMAT,
+  CZECH_LAB_FORMAT,
+  FRENCH_LAB_FORMAT,
+  SIMPLE_FORMAT,
+} from './__tests__/fixtures/lab-report-fixtures';
+
+const values = TEST_PARTICIPANTS[0].biomarkers;
+
+describe('Lab Templates', () => {
+  describe('detectLabTemplate', () => {
+    it.each([
+      [QUEST_FORMAT, 'quest'],
+      [LABCORP_FORMAT, 'labcorp'],
+      [GERMAN_LAB_FORMAT, 'de-lab'],
+      [CZECH_LAB_FORMAT, 'cz-lab'],
+      [FRENCH_LAB_FORMAT, 'fr-lab'],
+    ])('should detect the $name layout', (format, expectedId) => {
+      const detected = detectLabTemplate(format.template(values));
+
+      expect(detected?.id).toBe(expectedId);
+      expect(detected?.version).toBe('1.1');
+      expect(detected?.matchedFingerprints.length).toBeGreaterThan(0);
+    });
+
+    it('should return null for unknown layouts', () => {
+      expect(detectLabTemplate(SIMPLE_FORMAT.template(values))).toBeNull();
+    });
+
+    it('should not match on a shared accreditation id alone', () => {
+      expect(detectLabTemplate('CLIA# 05D0642827\nAlbumin 4.5 g/dL')).toBeNull();
+    });
+
+    it('should use accreditation ids to strengthen a header match', () => {
+      const withId = detectLabTemplate('Quest Diagnostics\nCLIA# 05D0642827');
+      const withoutId = detectLabTemplate('Quest Diagnostics');
+
+      expect(withId?.score).toBeGreaterThan(withoutId?.score ?? 0);
+      expect(withId?.matchedFingerprints).toContain('CLIA# 05D0642827');
+    });
+
+    it('should detect custom registered templates', () => {
+      registerLabTemplate({
+        id: 'test-lab',
+        name: 'Test Lab',
+        version: '2.1',
+        fingerprints: { headers: ['test lab reference laboratory'] },
+        unitSystem: 'US',
+        decimalComma: false,
+        dateOrder: 'MDY',
+      });
+
+      expect(detectLabTemplate('TEST LAB REFERENCE LABORATORY')).toMatchObject({
+        id: 'test-lab',
+        version: '2.1',
+      });
+    });
+  });
+
+  describe('normalizeDecimals', () => {
+    it('should convert decimal commas for European labs', () => {
+      const template = getLabTemplate('de-lab')!;
+      expect(normalizeDecimals('Leukozyten 4,5-11,0', template)).toBe('Leukozyten 4.5-11.0');
+    });
+
+    it('should strip thousands separators for US labs', () => {
+      const template = getLabTemplate('quest')!;
+      expect(normalizeDecimals('Platelets 1,200 and 3,5', template)).toBe('Platelets 1200 and 3,5');
+    });
+  });
+
+  describe('getTemplateDefaultUnit', () => {
+    it('should fall back to the unit system defaults', () => {
+      expect(getTemplateDefaultUnit(getLabTemplate('de-lab')!, 'glucose')).toBe('mmol/l');
+      expect(getTemplateDefaultUnit(getLabTemplate('quest')!, 'glucose')).toBe('mg/dl');
+    });
+
+    it('should prefer per-template unit overrides', () => {
+      expect(getTemplateDefaultUnit(getLabTemplate('labcorp')!, 'wbc')).toBe('10^3/ul');
+    });
+  });
+
+  describe('alias overrides', () => {
+    it('should extract French abbreviations only with the template aliases', () => {
+      const text = 'VGM  91.2 fL\nIDR  12.4 %';
+      const { aliasOverrides } = getLabTemplate('fr-lab')!;
+
+      const withoutTemplate = extractAllBiomarkers(text);
+      const withTemplate = extractAllBiomarkers(text, 1, { aliasOverrides });
+
+      expect(withoutTemplate.mcv.value).toBeNull();
+      expect(withoutTemplate.rdw.value).toBeNull();
+      expect(withTemplate.mcv.value).toBe(91.2);
+      expect(withTemplate.rdw.value).toBe(12.4);
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Lab Templates - Registry of known lab report layouts
+ *
+ * Each template describes how to recognize a lab's report (header strings,
+ * accreditation ids) and how to parse it: alias overrides for local test
+ * names, the default unit system for values printed without units, and
+ * whether the lab uses a decimal comma.
+ *
+ * The document processor detects the template first and passes its parsing
+ * rules to the extractors. The detected template id and version are stored on
+ * the OCR job and copied to the submission so admins can see which parser ran.
+ *
+ * ## Extension Points
+ * - **New labs**: Add a template to LAB_TEMPLATES or call registerLabTemplate()
+ * - **Template changes**: Bump `version` when parsing rules change so stored
+ *   submissions still point at the rules that produced them
+ *
+ * @module lib/ocr/lab-templates
+ */
+
+import { BIOMARKER_CATALOG } from '../biomarkers/catalog';
+import type { DateOrder } from './collection-date';
+import type { BiomarkerKey } from './types';
+
+export type UnitSystem = 'US' | 'SI';
+
+/**
+ * Detection fingerprints for a lab report
+ */
+export interface LabFingerprints {
+  /** Case-insensitive strings printed in report headers/sections */
+  headers: string[];
+  /** Accreditation/registration id patterns (CLIA, DAkkS, ČIA, COFRAC...) */
+  accreditationIds?: RegExp[];
+}
+
+/**
+ * A known lab report layout
+ */
+export interface LabTemplate {
+  id: string;
+  name: string;
+  version: string;
+  country?: string;
+  fingerprints: LabFingerprints;
+  /** Extra aliases checked before the global ones */
+  aliasOverrides?: Partial<Record<BiomarkerKey, string[]>>;
+  /** Unit system assumed for values printed without a unit */
+  unitSystem: UnitSystem;
+  /** Per-biomarker unit overrides on top of the unit system defaults */
+  defaultUnits?: Partial<Record<BiomarkerKey, string>>;
+  /** Whether "4,5" means 4.5 (true) or "1,200" means 1200 (false) */
+  decimalComma: boolean;
+  /** How ambiguous numeric dates (01/02/2025) are read */
+  dateOrder: DateOrder;
+}
+
+/**
+ * Result of template detection
+ */
+export interface DetectedLabTemplate {
+  id: string;
+  name: string;
+  version: string;
+  score: number;
+  matchedFingerprints: string[];
+}
+
+/**
+ * Units assumed for each unit system when a value has no unit, from the biomarker catalog
+ */
+export const UNIT_SYSTEM_DEFAULTS: Record<UnitSystem, Record<BiomarkerKey, string>> = {
+  US: Object.fromEntries(
+    BIOMARKER_CATALOG.map((biomarker) => [biomarker.key, biomarker.defaultUnits.US])
+  ) as Record<BiomarkerKey, string>,
+  SI: Object.fromEntries(
+    BIOMARKER_CATALOG.map((biomarker) => [biomarker.key, biomarker.defaultUnits.SI])
+  ) as Record<BiomarkerKey, string>,
+};
+
+// Header matches count once each; an accreditation id is a stronger signal
+const HEADER_WEIGHT = 1;
+const ACCREDITATION_WEIGHT = 2;
+
+// US CLIA numbers: two digits, "D", seven digits (e.g. 05D0642827)
+const CLIA_ID = /\bCLIA\s*(?:#|No\.?|ID|Number)?\s*:?\s*\d{2}D\d{7}\b/i;
+
+/**
+ * Built-in templates (matching the layouts in the OCR test fixtures)
+ */
+export const LAB_TEMPLATES: LabTemplate[] = [
+  {
+    id: 'quest',
+    name: 'Quest Diagnostics',
+    version: '1.1',
+    country: 'US',
+    fingerprints: {
+      headers: ['quest diagnostics', 'questdiagnostics.com', 'comprehensive metabolic panel'],
+      accreditationIds: [CLIA_ID],
+    },
+    aliasOverrides: {
+      glucose: ['glucose, fasting'],
+      crp: ['c-reactive protein (crp)'],
+    },
+    unitSystem: 'US',
+    decimalComma: false,
+    dateOrder: 'MDY',
+  },
+  {
+    id: 'labcorp',
+    name: 'LabCorp',
+    version: '1.1',
+    country: 'US',
+    fingerprints: {
+      headers: ['labcorp', 'laboratory corporation of america', 'labcorp.com'],
+      accreditationIds: [CLIA_ID],
+    },
+    aliasOverrides: {
+      crp: ['crp, high sensitivity'],
+      alp: ['alk phos'],
+    },
+    unitSystem: 'US',
+    defaultUnits: { wbc: '10^3/ul' },
+    decimalComma: false,
+    dateOrder: 'MDY',
+  },
+  {
+    id: 'de-lab',
+    name: 'German Laboratory',
+    version: '1.1',
+    country: 'DE',
+    fingerprints: {
+      headers: ['laboratorium', 'patientenbefund', 'klinische chemie', 'blutbild', 'entzündungsmarker'],
+      accreditationIds: [/\bD-ML-\d{5}-\d{2}-\d{2}\b/, /\bDAkkS\b/],
+    },
+    aliasOverrides: {
+      creatinine: ['kreatinin'],
+      glucose: ['glukose (nüchtern)', 'glukose'],
+      crp: ['c-reaktives protein'],
+      lymphocytePercent: ['lymphozyten'],
+      rdw: ['erythrozytenverteilungsbreite'],
+      alp: ['alkalische phosphatase'],
+      wbc: ['leukozyten'],
+    },
+    unitSystem: 'SI',
+    decimalComma: true,
+    dateOrder: 'DMY',
+  },
+  {
+    id: 'cz-lab',
+    name: 'Czech Laboratory',
+    version: '1.1',
+    country: 'CZ',
+    fingerprints: {
+      headers: ['laboratoř', 'výsledky vyšetření', 'biochemie', 'krevní obraz'],
+      accreditationIds: [/akreditovan\S*\s+zkušební\s+laboratoř\S*\s+č\.\s*\d{3,4}/i],
+    },
+    aliasOverrides: {
+      creatinine: ['kreatinin'],
+      glucose: ['glykémie', 'glykemie'],
+      lymphocytePercent: ['lymfocyty'],
+      wbc: ['leukocyty'],
+    },
+    unitSystem: 'SI',
+    decimalComma: true,
+    dateOrder: 'DMY',
+  },
+  {
+    id: 'fr-lab',
+    name: 'French Laboratory',
+    version: '1.1',
+    country: 'FR',
+    fingerprints: {
+      headers: ['laboratoire', "résultats d'analyses", 'biochimie', 'numération formule sanguine'],
+      accreditationIds: [/\bCOFRAC\b/i],
+    },
+    aliasOverrides: {
+      albumin: ['albumine'],
+      glucose: ['glycémie à jeun', 'glycémie'],
+      crp: ['protéine c-réactive'],
+      mcv: ['vgm', 'volume globulaire moyen'],
+      rdw: ['idr', 'indice de distribution des rouges'],
+      alp: ['phosphatase alcaline'],
+      wbc: ['globules blancs', 'leucocytes'],
+    },
+    unitSystem: 'SI',
+    defaultUnits: { wbc: '10^9/l' },
+    decimalComma: true,
+    dateOrder: 'DMY',
+  },
+];
+
+const templates = new Map<string, LabTemplate>(LAB_TEMPLATES.map((t) => [t.id, t]));
+
+/**
+ * Register (or replace) a lab template
+ */
+export function registerLabTemplate(template: LabTemplate): void {
+  templates.set(template.id, template);
+}
+
+/**
+ * Get a registered template by id
+ */
+export function getLabTemplate(id: string): LabTemplate | null {
+  return templates.get(id) ?? null;
+}
+
+/**
+ * Get all registered templates
+ */
+export function getLabTemplates(): LabTemplate[] {
+  return [...templates.values()];
+}
+
+/**
+ * Detect the lab template from report text
+ * Returns the best scoring template, or null if no header fingerprint matched.
+ */
+export function detectLabTemplate(text: string): DetectedLabTemplate | null {
+  const lowerText = text.toLowerCase();
+  let best: DetectedLabTemplate | null = null;
+
+  for (const template of templates.values()) {
+    const matchedFingerprints: string[] = [];
+    let score = 0;
+
+    for (const header of template.fingerprints.headers) {
+      if (lowerText.includes(header.toLowerCase())) {
+        matchedFingerprints.push(header);
+        score += HEADER_WEIGHT;
+      }
+    }
+
+    // Accreditation ids only count alongside a header match (CLIA is shared by US labs)
+    if (score === 0) continue;
+
+    for (const pattern of template.fingerprints.accreditationIds ?? []) {
+      const match = text.match(pattern);
+      if (match) {
+        matchedFingerprints.push(match[0]);
+        score += ACCREDITATION_WEIGHT;
+      }
+    }
+
+    if (!best || score > best.score) {
+      best = {
+        id: template.id,
+        name: template.name,
+        version: template.version,
+        score,
+        matchedFingerprints,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Normalize numbers according to the template's decimal convention
+ * Decimal-comma labs: "4,5" → "4.5". Decimal-point labs: "1,200" → "1200".
+ */
+export function normalizeDecimals(text: string, template: LabTemplate): string {
+  if (template.decimalComma) {
+    return text.replace(/(\d),(\d)/g, '$1.$2');
+  }
+  return text.replace(/(\d),(\d{3})(?!\d)/g, '$1$2');
+}
+
+/**
+ * Get the unit assumed for a biomarker printed without a unit
+ */
+export function getTemplateDefaultUnit(template: LabTemplate, biomarker: BiomarkerKey): string {
+  return template.defaultUnits?.[biomarker] ?? UNIT_SYSTEM_DEFAULTS[template.unitSystem][biomarker];
+}
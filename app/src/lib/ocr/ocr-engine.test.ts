@@ -0,0 +1,127 @@
+/**
+ * OCR Engine Tests
+ * Tests the PDF text-layer engine and per-page engine selection
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  pdfTextEngine,
+  tesseractEngine,
+  selectOcrEngine,
+  registerOcrEngine,
+  getOcrEngine,
+  type OcrEngine,
+} from './ocr-engine';
+import type { PdfTextItem } from './pdf-processor';
+
+vi.mock('./ocr-service', () => ({
+  recognizeImage: vi.fn(),
+}));
+
+// Page rendering is not exercised here; avoid loading the native canvas binding
+vi.mock('canvas', () => ({
+  createCanvas: vi.fn(),
+}));
+
+// Two-column Quest-style rows, emitted out of order like pdf.js often does
+const QUEST_ITEMS: PdfTextItem[] = [
+  { text: '4.6', x: 300, y: 120, width: 18, height: 10 },
+  { text: 'Albumin', x: 50, y: 120, width: 42, height: 10 },
+  { text: 'g/dL', x: 360, y: 121, width: 24, height: 10 },
+  { text: 'Glucose', x: 50, y: 140, width: 42, height: 10 },
+  { text: '88', x: 300, y: 140, width: 12, height: 10 },
+  { text: 'mg/dL', x: 360, y: 140, width: 30, height: 10 },
+  { text: 'Quest Diagnostics Incorporated', x: 50, y: 40, width: 180, height: 12 },
+];
+
+function textLayer(wordCount: number): PdfTextItem[] {
+  return Array.from({ length: wordCount }, (_, i) => ({
+    text: `word${i}`,
+    x: (i % 10) * 60,
+    y: Math.floor(i / 10) * 20,
+    width: 30,
+    height: 10,
+  }));
+}
+
+describe('pdfTextEngine', () => {
+  it('should rebuild visual lines from positioned text items', async () => {
+    const result = await pdfTextEngine.recognize({
+      pageNumber: 1,
+      textItems: QUEST_ITEMS,
+      width: 612,
+      height: 792,
+    });
+
+    expect(result.lines.map((line) => line.text)).toEqual([
+      'Quest Diagnostics Incorporated',
+      'Albumin 4.6 g/dL',
+      'Glucose 88 mg/dL',
+    ]);
+    expect(result.text).toBe(
+      'Quest Diagnostics Incorporated\nAlbumin 4.6 g/dL\nGlucose 88 mg/dL'
+    );
+  });
+
+  it('should report full confidence and PDF point geometry', async () => {
+    const result = await pdfTextEngine.recognize({
+      pageNumber: 2,
+      textItems: QUEST_ITEMS,
+      width: 612,
+      height: 792,
+    });
+
+    expect(result.engine).toBe('pdf-text');
+    expect(result.pageNumber).toBe(2);
+    expect(result.confidence).toBe(1);
+    expect(result.geometry).toEqual({ width: 612, height: 792, unit: 'pt' });
+  });
+
+  it('should split multi-word items into words with approximate boxes', async () => {
+    const result = await pdfTextEngine.recognize({
+      pageNumber: 1,
+      textItems: [{ text: 'Quest Diagnostics', x: 50, y: 40, width: 170, height: 12 }],
+    });
+
+    expect(result.words).toHaveLength(2);
+    expect(result.words[0]).toMatchObject({
+      text: 'Quest',
+      bbox: { x0: 50, y0: 40, x1: 100, y1: 52 },
+    });
+    expect(result.words[1].bbox.x0).toBe(110);
+  });
+});
+
+describe('selectOcrEngine', () => {
+  it('should use the text layer when the page has enough native text', () => {
+    const engine = selectOcrEngine({ pageNumber: 1, textItems: textLayer(40) });
+    expect(engine.name).toBe('pdf-text');
+  });
+
+  it('should fall back to the raster engine for scanned pages', () => {
+    expect(selectOcrEngine({ pageNumber: 1, textItems: textLayer(3) })).toBe(tesseractEngine);
+    expect(selectOcrEngine({ pageNumber: 1, textItems: [] })).toBe(tesseractEngine);
+    expect(selectOcrEngine({ pageNumber: 1, imageBuffer: Buffer.from('png') })).toBe(
+      tesseractEngine
+    );
+  });
+});
+
+describe('engine registry', () => {
+  it('should register custom engines by name', () => {
+    const customEngine: OcrEngine = {
+      name: 'custom-test',
+      requiresRaster: true,
+      canRecognize: () => true,
+      recognize: vi.fn(),
+    };
+
+    registerOcrEngine(customEngine);
+
+    expect(getOcrEngine('custom-test')).toBe(customEngine);
+  });
+
+  it('should throw for unknown engines', () => {
+    expect(() => getOcrEngine('does-not-exist')).toThrow('Unknown OCR engine');
+  });
+});
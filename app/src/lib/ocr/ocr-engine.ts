@@ -0,0 +1,252 @@
+/**
+ * OCR Engine - Pluggable Text Recognition
+ *
+ * Defines the `OcrEngine` interface used by the document processor to turn a
+ * single page into positioned text. Two engines ship by default:
+ *
+ * - **tesseract**: rasterized page/image → Tesseract.js (the default)
+ * - **pdf-text**: native PDF text layer (pdf.js text items with positions),
+ *   used for digitally generated reports so they skip rasterization entirely
+ *
+ * ## Extension Points
+ * - **Cloud providers**: Implement `OcrEngine` for Google Vision, AWS Textract
+ *   or Azure and register it with registerOcrEngine()
+ * - **Engine selection**: Change selectOcrEngine() to route pages differently
+ *   (e.g. by lab template or file type)
+ *
+ * @module lib/ocr/ocr-engine
+ */
+
+import { recognizeImage, type OcrResult } from './ocr-service';
+import { textNeedsOcr, type PdfTextItem } from './pdf-processor';
+
+/**
+ * Coordinate space of a page's word bounding boxes
+ */
+export interface PageGeometry {
+  width: number;
+  height: number;
+  /** 'px' for raster images, 'pt' for PDF text layers */
+  unit: 'px' | 'pt';
+}
+
+/**
+ * A single page handed to an engine
+ * Raster engines read `imageBuffer`; text-layer engines read `textItems`.
+ */
+export interface OcrPageInput {
+  pageNumber: number;
+  imageBuffer?: Buffer;
+  textItems?: PdfTextItem[];
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Recognized page with confidence and geometry
+ */
+export interface OcrPageResult extends OcrResult {
+  engine: string;
+  pageNumber: number;
+  geometry: PageGeometry;
+}
+
+/**
+ * OCR engine contract
+ */
+export interface OcrEngine {
+  /** Unique engine name, stored alongside results for traceability */
+  readonly name: string;
+  /** Whether the engine needs a rasterized image of the page */
+  readonly requiresRaster: boolean;
+  /** Whether the engine can handle this page input */
+  canRecognize(input: OcrPageInput): boolean;
+  /** Recognize text, word boxes and confidence for a page */
+  recognize(input: OcrPageInput): Promise<OcrPageResult>;
+}
+
+// Items within this fraction of a line height are treated as the same line
+const LINE_MERGE_TOLERANCE = 0.5;
+
+/**
+ * Tesseract.js engine (default) - works on any rasterized page or image
+ */
+export const tesseractEngine: OcrEngine = {
+  name: 'tesseract',
+  requiresRaster: true,
+
+  canRecognize(input) {
+    return Boolean(input.imageBuffer);
+  },
+
+  async recognize(input) {
+    if (!input.imageBuffer) {
+      throw new Error(`Page ${input.pageNumber} has no image for the tesseract engine`);
+    }
+
+    const result = await recognizeImage(input.imageBuffer);
+
+    return {
+      ...result,
+      engine: 'tesseract',
+      pageNumber: input.pageNumber,
+      geometry: {
+        width: result.width ?? input.width ?? 0,
+        height: result.height ?? input.height ?? 0,
+        unit: 'px',
+      },
+    };
+  },
+};
+
+/**
+ * PDF text-layer engine - reads pdf.js text items directly
+ * Native text is exact, so confidence is always 1.
+ */
+export const pdfTextEngine: OcrEngine = {
+  name: 'pdf-text',
+  requiresRaster: false,
+
+  canRecognize(input) {
+    if (!input.textItems || input.textItems.length === 0) return false;
+    return !textNeedsOcr(input.textItems.map((item) => item.text).join(' '));
+  },
+
+  async recognize(input) {
+    const items = input.textItems ?? [];
+    const words = splitItemsIntoWords(items);
+    const lines = groupItemsIntoLines(items).map((lineItems) => {
+      const text = lineItems.map((item) => item.text.trim()).join(' ');
+      return {
+        text,
+        confidence: 1,
+        words: text.split(/\s+/).filter(Boolean),
+      };
+    });
+
+    return {
+      text: lines.map((line) => line.text).join('\n'),
+      confidence: 1,
+      words,
+      lines,
+      width: input.width,
+      height: input.height,
+      engine: 'pdf-text',
+      pageNumber: input.pageNumber,
+      geometry: {
+        width: input.width ?? 0,
+        height: input.height ?? 0,
+        unit: 'pt',
+      },
+    };
+  },
+};
+
+/**
+ * Group text items into visual lines (top-to-bottom, left-to-right)
+ */
+function groupItemsIntoLines(items: PdfTextItem[]): PdfTextItem[][] {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: Array<{ centerY: number; height: number; items: PdfTextItem[] }> = [];
+
+  for (const item of sorted) {
+    const centerY = item.y + item.height / 2;
+    const line = lines.find(
+      (l) => Math.abs(l.centerY - centerY) <= Math.max(l.height, item.height) * LINE_MERGE_TOLERANCE
+    );
+
+    if (line) {
+      line.items.push(item);
+    } else {
+      lines.push({ centerY, height: item.height, items: [item] });
+    }
+  }
+
+  return lines
+    .sort((a, b) => a.centerY - b.centerY)
+    .map((line) => line.items.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Split text items into words with approximate boxes (even character widths)
+ */
+function splitItemsIntoWords(items: PdfTextItem[]): OcrResult['words'] {
+  const words: OcrResult['words'] = [];
+
+  for (const item of items) {
+    const charWidth = item.text.length > 0 ? item.width / item.text.length : 0;
+    const pattern = /\S+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(item.text)) !== null) {
+      const x0 = item.x + match.index * charWidth;
+      words.push({
+        text: match[0],
+        confidence: 1,
+        bbox: {
+          x0,
+          y0: item.y,
+          x1: x0 + match[0].length * charWidth,
+          y1: item.y + item.height,
+        },
+      });
+    }
+  }
+
+  return words;
+}
+
+// ============================================
+// Engine Registry
+// ============================================
+
+const engines = new Map<string, OcrEngine>([
+  [tesseractEngine.name, tesseractEngine],
+  [pdfTextEngine.name, pdfTextEngine],
+]);
+
+let defaultEngineName = tesseractEngine.name;
+
+/**
+ * Register (or replace) an OCR engine
+ */
+export function registerOcrEngine(engine: OcrEngine): void {
+  engines.set(engine.name, engine);
+}
+
+/**
+ * Get a registered engine by name
+ */
+export function getOcrEngine(name: string): OcrEngine {
+  const engine = engines.get(name);
+  if (!engine) {
+    throw new Error(`Unknown OCR engine: ${name}`);
+  }
+  return engine;
+}
+
+/**
+ * Set the engine used for pages without a usable text layer
+ */
+export function setDefaultOcrEngine(name: string): void {
+  getOcrEngine(name);
+  defaultEngineName = name;
+}
+
+/**
+ * Get the engine used for pages without a usable text layer
+ */
+export function getDefaultOcrEngine(): OcrEngine {
+  return getOcrEngine(defaultEngineName);
+}
+
+/**
+ * Pick the engine for a page: native text layer first, raster engine otherwise
+ */
+export function selectOcrEngine(input: OcrPageInput): OcrEngine {
+  const textEngine = getOcrEngine(pdfTextEngine.name);
+  if (textEngine.canRecognize(input)) {
+    return textEngine;
+  }
+  return getDefaultOcrEngine();
+}
@@ -0,0 +1,190 @@
+/**
+ * OCR Job Queue Tests
+ * Tests job status transitions and persistence of extraction results
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { processDocument } from './document-processor';
+import type { OcrJob } from '@prisma/client';
+import {
+  enqueueOcrJob,
+  runOcrJob,
+  getOcrJobProgress,
+  failOrphanedOcrJob,
+  OCR_JOB_TIMEOUT_MS,
+} from './ocr-queue';
+import { FILE_FORMAT_MAP } from './file-formats';
+import type { BiomarkerExtraction, BiomarkerKey, OcrExtractionResult } from './types';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    ocrJob: {
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('./document-processor', () => ({
+  processDocument: vi.fn(),
+}));
+
+const pdfFormat = FILE_FORMAT_MAP['application/pdf'];
+
+function createResult(overrides: Partial<OcrExtractionResult> = {}): OcrExtractionResult {
+  const albumin: BiomarkerExtraction = {
+    biomarker: 'albumin',
+    value: 4.5,
+    unit: 'g/dL',
+    confidence: 0.9,
+    rawText: 'Albumin 4.5 g/dL',
+    lineNumber: 3,
+    pageNumber: 1,
+  };
+
+  return {
+    success: true,
+    extractions: { albumin } as Record<BiomarkerKey, BiomarkerExtraction>,
+    rawText: 'Albumin 4.5 g/dL',
+    pageCount: 3,
+    processingTimeMs: 1200,
+    errors: [],
+    ...overrides,
+  };
+}
+
+function getStatusUpdates(): string[] {
+  return vi.mocked(prisma.ocrJob.update).mock.calls.map(
+    ([args]) => (args.data as { status: string }).status
+  );
+}
+
+describe('OCR Job Queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('runOcrJob', () => {
+    it('should move a job through PROCESSING to COMPLETED and store results', async () => {
+      vi.mocked(processDocument).mockResolvedValue({
+        result: createResult(),
+        processingNotes: [],
+      });
+
+      await runOcrJob({ jobId: 'job-1', buffer: Buffer.from('pdf'), formatInfo: pdfFormat });
+
+      expect(getStatusUpdates()).toEqual(['PROCESSING', 'COMPLETED']);
+
+      const completed = vi.mocked(prisma.ocrJob.update).mock.calls[1][0];
+      expect(completed.where).toEqual({ id: 'job-1' });
+      expect(completed.data).toMatchObject({
+        pageCount: 3,
+        rawOcrText: 'Albumin 4.5 g/dL',
+        processingTime: 1200,
+      });
+      expect(completed.data.extractedValues).toHaveProperty('albumin.value', 4.5);
+      expect(completed.data.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should mark the job FAILED when extraction is unsuccessful', async () => {
+      vi.mocked(processDocument).mockResolvedValue({
+        result: createResult({ success: false, errors: ['OCR failed on all pages'] }),
+        processingNotes: [],
+      });
+
+      await runOcrJob({ jobId: 'job-2', buffer: Buffer.from('pdf'), formatInfo: pdfFormat });
+
+      expect(getStatusUpdates()).toEqual(['PROCESSING', 'FAILED']);
+      expect(vi.mocked(prisma.ocrJob.update).mock.calls[1][0].data).toMatchObject({
+        errorMessage: 'OCR failed on all pages',
+      });
+    });
+
+    it('should mark the job FAILED when processing throws', async () => {
+      vi.mocked(processDocument).mockRejectedValue(new Error('Worker crashed'));
+
+      await runOcrJob({ jobId: 'job-3', buffer: Buffer.from('pdf'), formatInfo: pdfFormat });
+
+      expect(getStatusUpdates()).toEqual(['PROCESSING', 'FAILED']);
+      expect(vi.mocked(prisma.ocrJob.update).mock.calls[1][0].data).toMatchObject({
+        errorMessage: 'Worker crashed',
+      });
+    });
+  });
+
+  describe('enqueueOcrJob', () => {
+    it('should process queued jobs one at a time in order', async () => {
+      const started: string[] = [];
+      let releaseFirst: () => void = () => {};
+
+      vi.mocked(processDocument).mockImplementation(async (buffer) => {
+        started.push(buffer.toString());
+        if (buffer.toString() === 'first') {
+          await new Promise<void>((resolve) => {
+            releaseFirst = resolve;
+          });
+        }
+        return { result: createResult(), processingNotes: [] };
+      });
+
+      enqueueOcrJob({ jobId: 'job-a', buffer: Buffer.from('first'), formatInfo: pdfFormat });
+      enqueueOcrJob({ jobId: 'job-b', buffer: Buffer.from('second'), formatInfo: pdfFormat });
+
+      await vi.waitFor(() => expect(started).toEqual(['first']));
+      expect(getOcrJobProgress('job-b')).toBe(0);
+
+      releaseFirst();
+
+      await vi.waitFor(() => expect(started).toEqual(['first', 'second']));
+      await vi.waitFor(() => expect(getOcrJobProgress('job-b')).toBeNull());
+    });
+  });
+
+  describe('failOrphanedOcrJob', () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+
+    function createJob(overrides: Partial<OcrJob> = {}): OcrJob {
+      return {
+        id: 'job-orphan',
+        status: 'PROCESSING',
+        createdAt: new Date(now.getTime() - OCR_JOB_TIMEOUT_MS - 1000),
+        completedAt: null,
+        errorMessage: null,
+        ...overrides,
+      } as OcrJob;
+    }
+
+    it('should mark an untracked job older than the timeout FAILED', async () => {
+      vi.mocked(prisma.ocrJob.updateMany).mockResolvedValue({ count: 1 });
+
+      const job = await failOrphanedOcrJob(createJob(), now);
+
+      expect(prisma.ocrJob.updateMany).toHaveBeenCalledWith({
+        where: { id: 'job-orphan', status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'FAILED', completedAt: now }),
+      });
+      expect(job.status).toBe('FAILED');
+      expect(job.errorMessage).toMatch(/upload the document again/);
+    });
+
+    it('should leave recent and finished jobs alone', async () => {
+      const recent = createJob({ createdAt: new Date(now.getTime() - 60_000) });
+      const finished = createJob({ status: 'COMPLETED' });
+
+      expect(await failOrphanedOcrJob(recent, now)).toBe(recent);
+      expect(await failOrphanedOcrJob(finished, now)).toBe(finished);
+      expect(prisma.ocrJob.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should return the stored job when a worker finished it meanwhile', async () => {
+      vi.mocked(prisma.ocrJob.updateMany).mockResolvedValue({ count: 0 });
+      vi.mocked(prisma.ocrJob.findUnique).mockResolvedValue(createJob({ status: 'COMPLETED' }));
+
+      const job = await failOrphanedOcrJob(createJob(), now);
+
+      expect(job.status).toBe('COMPLETED');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * OCR Job Queue
+ *
+ * In-process worker queue for OCR jobs. Uploads create an `OcrJob` row and
+ * enqueue the file buffer here; the worker drains the queue one job at a time
+ * (Tesseract runs on a single shared worker) and moves each job through
+ * PENDING → PROCESSING → COMPLETED / FAILED.
+ *
+ * The queue lives in memory, so jobs held by a process that restarts are lost
+ * while their rows stay PENDING / PROCESSING. `failOrphanedOcrJob` marks such
+ * a job FAILED once it is older than OCR_JOB_TIMEOUT_MS, so polling clients
+ * get an answer instead of waiting forever.
+ *
+ * For production with multiple instances, consider moving this to a
+ * durable queue (e.g. BullMQ with Redis) - the job record format stays the same.
+ */
+
+import { Prisma, type OcrJob } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { processDocument } from './document-processor';
+import type { FileFormatInfo } from './file-formats';
+
+const log = domainLoggers.ocr;
+
+export interface QueuedOcrJob {
+  jobId: string;
+  buffer: Buffer;
+  formatInfo: FileFormatInfo;
+}
+
+// Jobs waiting for the worker, in FIFO order
+const pendingJobs: QueuedOcrJob[] = [];
+
+// Progress (0-100) of jobs currently held by this process
+const jobProgress = new Map<string, number>();
+
+let isDraining = false;
+
+// Untracked jobs still unfinished this long after upload were lost with their process
+export const OCR_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+const ORPHANED_JOB_MESSAGE = 'OCR processing was interrupted. Please upload the document again.';
+
+/**
+ * Add a job to the queue and start the worker if it is idle
+ */
+export function enqueueOcrJob(job: QueuedOcrJob): void {
+  pendingJobs.push(job);
+  jobProgress.set(job.jobId, 0);
+  void drainQueue();
+}
+
+/**
+ * Get the in-memory progress of a job, or null if this process is not tracking it
+ */
+export function getOcrJobProgress(jobId: string): number | null {
+  return jobProgress.get(jobId) ?? null;
+}
+
+/**
+ * Get the number of jobs ahead of a pending job (0 = next), or -1 if not queued
+ */
+export function getQueuePosition(jobId: string): number {
+  return pendingJobs.findIndex((job) => job.jobId === jobId);
+}
+
+/**
+ * Mark a PENDING / PROCESSING job FAILED when no queue in this process holds it
+ * and it is older than OCR_JOB_TIMEOUT_MS. Returns the job as it now stands.
+ */
+export async function failOrphanedOcrJob(job: OcrJob, now: Date = new Date()): Promise<OcrJob> {
+  const unfinished = job.status === 'PENDING' || job.status === 'PROCESSING';
+  if (!unfinished || jobProgress.has(job.id)) return job;
+  if (now.getTime() - job.createdAt.getTime() < OCR_JOB_TIMEOUT_MS) return job;
+
+  // Guarded on the status read, so a worker that finishes meanwhile wins
+  const { count } = await prisma.ocrJob.updateMany({
+    where: { id: job.id, status: job.status },
+    data: { status: 'FAILED', errorMessage: ORPHANED_JOB_MESSAGE, completedAt: now },
+  });
+  if (count === 0) {
+    return (await prisma.ocrJob.findUnique({ where: { id: job.id } })) ?? job;
+  }
+
+  log.warn('OCR job orphaned', { jobId: job.id, status: job.status });
+  return { ...job, status: 'FAILED', errorMessage: ORPHANED_JOB_MESSAGE, completedAt: now };
+}
+
+/**
+ * Process queued jobs one at a time until the queue is empty
+ */
+async function drainQueue(): Promise<void> {
+  if (isDraining) return;
+  isDraining = true;
+
+  try {
+    let job = pendingJobs.shift();
+    while (job) {
+      await runOcrJob(job);
+      job = pendingJobs.shift();
+    }
+  } finally {
+    isDraining = false;
+  }
+}
+
+/**
+ * Run a single OCR job and persist its outcome on the OcrJob record
+ */
+export async function runOcrJob({ jobId, buffer, formatInfo }: QueuedOcrJob): Promise<void> {
+  try {
+    await prisma.ocrJob.update({
+      where: { id: jobId },
+      data: { status: 'PROCESSING' },
+    });
+
+    const { result } = await processDocument(buffer, formatInfo, (progress) => {
+      jobProgress.set(jobId, progress);
+    });
+
+    if (!result.success) {
+      await prisma.ocrJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'FAILED',
+          pageCount: result.pageCount,
+          processingTime: result.processingTimeMs,
+          errorMessage: result.errors.join('. ') || 'OCR processing failed',
+          completedAt: new Date(),
+        },
+      });
+      log.warn('OCR job failed', { jobId, errors: result.errors });
+      return;
+    }
+
+    await prisma.ocrJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'COMPLETED',
+        pageCount: result.pageCount,
+        extractedValues: result.extractions as unknown as Prisma.InputJsonValue,
+        rawOcrText: result.rawText,
+        processingTime: result.processingTimeMs,
+        labName: result.labTemplate?.name ?? null,
+        labTemplateId: result.labTemplate?.id ?? null,
+        labTemplateVersion: result.labTemplate?.version ?? null,
+        collectedAt: result.collectedAt ? new Date(result.collectedAt) : null,
+        completedAt: new Date(),
+      },
+    });
+    log.info('OCR job completed', {
+      jobId,
+      pageCount: result.pageCount,
+      processingTimeMs: result.processingTimeMs,
+      labTemplateId: result.labTemplate?.id,
+    });
+  } catch (error) {
+    log.error('OCR job crashed', error, { jobId });
+
+    try {
+      await prisma.ocrJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'FAILED',
+          errorMessage: error instanceof Error ? error.message : 'OCR processing failed',
+          completedAt: new Date(),
+        },
+      });
+    } catch (updateError) {
+      log.error('Failed to mark OCR job as failed', updateError, { jobId });
+    }
+  } finally {
+    jobProgress.delete(jobId);
+  }
+}
@@ -11,7 +11,8 @@
  * 4. Confidence scoring (in confidence-scorer.ts)
  *
  * ## Extension Points
- * - **Alternative OCR Engines**: Replace getWorker() to use:
+ * - **Alternative OCR Engines**: Implement the `OcrEngine` interface in
+ *   ocr-engine.ts and register it with registerOcrEngine(), e.g.:
  *   - Google Cloud Vision API (higher accuracy for complex layouts)
  *   - AWS Textract (structured document extraction)
  *   - Azure Computer Vision
@@ -24,7 +25,7 @@
  */
 
 import { createWorker, Worker, RecognizeResult } from 'tesseract.js';
-import { preprocessImage, autoRotate } from './image-processor';
+import { preprocessImage, autoRotate, getImageMetadata } from './image-processor';
 import { PreprocessingOptions, DEFAULT_PREPROCESSING } from './types';
 
 // Singleton worker instance for reuse
@@ -124,6 +125,9 @@ export interface OcrResult {
     confidence: number;
     words: string[];
   }>;
+  /** Dimensions of the image the word bboxes refer to (after preprocessing) */
+  width?: number;
+  height?: number;
 }
 
 /**
@@ -147,6 +151,7 @@ export async function recognizeImage(
     processedBuffer = await preprocessImage(processedBuffer, preprocessingOptions);
   }
 
+  const { width, height } = await getImageMetadata(processedBuffer);
   const worker = await getWorker();
 
   const result: RecognizeResult = await worker.recognize(processedBuffer);
@@ -186,6 +191,8 @@ export async function recognizeImage(
     confidence: result.data.confidence / 100,
     words: extractedWords,
     lines: extractedLines,
+    width,
+    height,
   };
 }
 
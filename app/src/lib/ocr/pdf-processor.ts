@@ -191,6 +191,32 @@ export function isPdf(buffer: Buffer): boolean {
   return header === '%PDF-';
 }
 
+/**
+ * Positioned text item from a PDF text layer
+ * Coordinates are in PDF points with a top-left origin (like image bboxes)
+ */
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Text layer of a single PDF page
+ */
+export interface PdfTextPage {
+  pageNumber: number;
+  text: string;
+  width: number;
+  height: number;
+  items: PdfTextItem[];
+}
+
+// Pages with fewer words than this are treated as scanned images
+const MIN_TEXT_LAYER_WORDS = 20;
+
 /**
  * Extract text content directly from PDF (without OCR)
  * Useful for PDFs with embedded text
@@ -198,21 +224,47 @@ export function isPdf(buffer: Buffer): boolean {
 export async function extractPdfText(
   pdfBuffer: Buffer
 ): Promise<{
-  pages: Array<{ pageNumber: number; text: string }>;
+  pages: PdfTextPage[];
   fullText: string;
 }> {
   const pdf = await loadPdf(pdfBuffer);
-  const pages: Array<{ pageNumber: number; text: string }> = [];
+  const pages: PdfTextPage[] = [];
 
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
+    const viewport = page.getViewport({ scale: 1 });
     const textContent = await page.getTextContent();
+
+    const items: PdfTextItem[] = textContent.items
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .filter((item: any) => typeof item.str === 'string' && item.str.trim() !== '')
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .map((item: any) => {
+        // transform = [scaleX, skewY, skewX, scaleY, translateX, translateY]
+        const [, , , scaleY, translateX, translateY] = item.transform as number[];
+        const height = item.height || Math.abs(scaleY);
+
+        return {
+          text: item.str,
+          x: translateX,
+          y: viewport.height - translateY - height,
+          width: item.width,
+          height,
+        };
+      });
+
     const text = textContent.items
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       .map((item: any) => item.str)
       .join(' ');
 
-    pages.push({ pageNumber: i, text });
+    pages.push({
+      pageNumber: i,
+      text,
+      width: viewport.width,
+      height: viewport.height,
+      items,
+    });
   }
 
   const fullText = pages.map((p) => p.text).join('\n\n');
@@ -220,13 +272,28 @@ export async function extractPdfText(
   return { pages, fullText };
 }
 
+/**
+ * Determine if a page's extracted text layer is too sparse to use
+ */
+export function textNeedsOcr(text: string): boolean {
+  const trimmed = text.trim();
+  if (!trimmed) return true;
+
+  return trimmed.split(/\s+/).length < MIN_TEXT_LAYER_WORDS;
+}
+
 /**
  * Determine if PDF has embedded text or needs OCR
+ * Pass a page number to check a single page instead of the whole document
  */
-export async function needsOcr(pdfBuffer: Buffer): Promise<boolean> {
-  const { fullText } = await extractPdfText(pdfBuffer);
+export async function needsOcr(pdfBuffer: Buffer, pageNumber?: number): Promise<boolean> {
+  const { pages, fullText } = await extractPdfText(pdfBuffer);
+
+  if (pageNumber !== undefined) {
+    const page = pages.find((p) => p.pageNumber === pageNumber);
+    return !page || textNeedsOcr(page.text);
+  }
 
   // If extracted text is very short, probably needs OCR
-  const wordCount = fullText.trim().split(/\s+/).length;
-  return wordCount < 20;
+  return textNeedsOcr(fullText);
 }
@@ -0,0 +1,120 @@
+/**
+ * Reference Range Tests
+ * Tests parsing of lab-printed reference intervals and abnormal flags
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseReferenceRange,
+  parseAbnormalFlag,
+  deriveAbnormalFlag,
+  findReferenceRange,
+  collectReferenceRanges,
+} from './reference-range';
+import { extractAllBiomarkers } from './biomarker-extractor';
+import type { BiomarkerExtraction } from './types';
+
+describe('Reference Range', () => {
+  describe('parseReferenceRange', () => {
+    it('should parse bounded intervals', () => {
+      expect(parseReferenceRange('3.5-5.0')).toEqual({ low: 3.5, high: 5, text: '3.5-5.0' });
+      expect(parseReferenceRange('0.6 to 1.2')).toMatchObject({ low: 0.6, high: 1.2 });
+      expect(parseReferenceRange('(80 - 100)')).toMatchObject({ low: 80, high: 100, text: '80 - 100' });
+    });
+
+    it('should parse decimal commas and thousands separators', () => {
+      expect(parseReferenceRange('11,5-14,5')).toMatchObject({ low: 11.5, high: 14.5 });
+      expect(parseReferenceRange('1,200-3,400')).toMatchObject({ low: 1200, high: 3400 });
+    });
+
+    it('should parse open-ended intervals', () => {
+      expect(parseReferenceRange('<3,0')).toEqual({ low: null, high: 3, text: '<3,0' });
+      expect(parseReferenceRange('≤ 5')).toMatchObject({ low: null, high: 5 });
+      expect(parseReferenceRange('> 60')).toMatchObject({ low: 60, high: null });
+    });
+
+    it('should return null for text without an interval', () => {
+      expect(parseReferenceRange('see note')).toBeNull();
+      expect(parseReferenceRange(null)).toBeNull();
+    });
+  });
+
+  describe('parseAbnormalFlag', () => {
+    it('should normalize common flag notations', () => {
+      expect(parseAbnormalFlag('H')).toBe('H');
+      expect(parseAbnormalFlag('Low')).toBe('L');
+      expect(parseAbnormalFlag('↑')).toBe('H');
+      expect(parseAbnormalFlag('HH')).toBe('HH');
+      expect(parseAbnormalFlag('H*')).toBe('H');
+      expect(parseAbnormalFlag('**')).toBe('A');
+    });
+
+    it('should ignore non-flag text', () => {
+      expect(parseAbnormalFlag('mg/L')).toBeNull();
+      expect(parseAbnormalFlag('')).toBeNull();
+    });
+  });
+
+  describe('deriveAbnormalFlag', () => {
+    it('should compare the value with the range bounds', () => {
+      const range = { low: 65, high: 99, text: '65-99' };
+      expect(deriveAbnormalFlag(105, range)).toBe('H');
+      expect(deriveAbnormalFlag(60, range)).toBe('L');
+      expect(deriveAbnormalFlag(80, range)).toBeNull();
+      expect(deriveAbnormalFlag(4, { low: null, high: 3, text: '<3.0' })).toBe('H');
+    });
+  });
+
+  describe('findReferenceRange', () => {
+    it('should read the interval and flag after the value', () => {
+      expect(findReferenceRange('Glucose 105 H 65-99 mg/dL', 105)).toEqual({
+        referenceRange: { low: 65, high: 99, text: '65-99' },
+        flag: 'H',
+      });
+    });
+
+    it('should not mistake a comparator result for the range', () => {
+      const { referenceRange } = findReferenceRange('CRP: <0.5 mg/L <3.0', 0.5);
+      expect(referenceRange).toMatchObject({ low: null, high: 3 });
+    });
+
+    it('should prefer explicit reference markers', () => {
+      const { referenceRange } = findReferenceRange('Glykémie: 4.3 mmol/L (ref: 3,9-5,6)', 4.3);
+      expect(referenceRange).toMatchObject({ low: 3.9, high: 5.6 });
+    });
+  });
+
+  describe('line-based extraction', () => {
+    it('should attach ranges and derived flags to extractions', () => {
+      const result = extractAllBiomarkers('Albumin 4.6 g/dL 3.5-5.0\nGlucose 105 mg/dL 65-99');
+
+      expect(result.albumin).toMatchObject({ referenceRange: { low: 3.5, high: 5 }, flag: null });
+      expect(result.glucose).toMatchObject({ referenceRange: { low: 65, high: 99 }, flag: 'H' });
+      expect(result.crp.referenceRange).toBeUndefined();
+    });
+  });
+
+  describe('collectReferenceRanges', () => {
+    const glucose: BiomarkerExtraction = {
+      biomarker: 'glucose',
+      value: 105,
+      unit: 'mg/dl',
+      confidence: 0.9,
+      rawText: 'Glucose 105 H 65-99',
+      lineNumber: 0,
+      pageNumber: 1,
+      referenceRange: { low: 65, high: 99, text: '65-99' },
+      flag: 'H',
+    };
+
+    it('should keep the printed flag for unedited values', () => {
+      expect(collectReferenceRanges({ glucose }, { glucose: 105 })).toEqual({
+        glucose: { low: 65, high: 99, text: '65-99', flag: 'H' },
+      });
+    });
+
+    it('should re-flag values edited after extraction', () => {
+      expect(collectReferenceRanges({ glucose }, { glucose: 85 }).glucose?.flag).toBeNull();
+    });
+  });
+});
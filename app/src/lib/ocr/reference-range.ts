@@ -0,0 +1,206 @@
+/**
+ * Reference Range - Lab-printed reference intervals and abnormal flags
+ *
+ * Parses the reference interval a lab prints next to each result
+ * ("3.5-5.0", "<3,0", "(VN: 80-100)", "> 60") and its abnormal flag
+ * ("H", "L", "HH", "↑"...). Parsed ranges are stored on the extraction and
+ * the submission, and used by scoreValueRange() in place of the global
+ * plausibility ranges when a lab printed one.
+ *
+ * ## Extension Points
+ * - **Range notations**: Add prefixes to REFERENCE_MARKER or bound words to
+ *   UPPER_BOUND_PATTERN / LOWER_BOUND_PATTERN
+ * - **Flag notations**: Add lab-specific markers to FLAG_ALIASES
+ *
+ * @module lib/ocr/reference-range
+ */
+
+import type {
+  AbnormalFlag,
+  BiomarkerExtraction,
+  BiomarkerKey,
+  ReferenceRange,
+  SubmissionReferenceRange,
+} from './types';
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+
+const BOUNDED_PATTERN = new RegExp(`${NUMBER}\\s*(?:-|–|—|to|bis|à)\\s*${NUMBER}`, 'i');
+const UPPER_BOUND_PATTERN = new RegExp(`(?:<=?|≤|up to|below|under)\\s*${NUMBER}`, 'i');
+const LOWER_BOUND_PATTERN = new RegExp(`(?:>=?|≥|above|over)\\s*${NUMBER}`, 'i');
+
+// Prefixes labs print before the interval: "ref:", "VN:" (valeurs normales), "Referenz"...
+const REFERENCE_MARKER = /\b(?:ref(?:erence)?(?:\s+(?:range|interval))?|referenz(?:bereich)?|vn|normal(?:\s+range)?)\s*[:.]?/i;
+
+const FLAG_ALIASES: Record<string, AbnormalFlag> = {
+  h: 'H',
+  high: 'H',
+  '↑': 'H',
+  l: 'L',
+  low: 'L',
+  '↓': 'L',
+  hh: 'HH',
+  '↑↑': 'HH',
+  ll: 'LL',
+  '↓↓': 'LL',
+  a: 'A',
+  aa: 'A',
+  abnormal: 'A',
+  critical: 'A',
+  '*': 'A',
+};
+
+/**
+ * Normalize decimal commas ("11,5") and thousands separators ("1,200")
+ */
+function normalizeNumbers(text: string): string {
+  return text.replace(/(\d),(\d{3})(?!\d)/g, '$1$2').replace(/(\d),(\d)/g, '$1.$2');
+}
+
+/**
+ * Find the first interval in normalized text
+ */
+function matchInterval(normalized: string): ReferenceRange | null {
+  const bounded = normalized.match(BOUNDED_PATTERN);
+  if (bounded && parseFloat(bounded[1]) <= parseFloat(bounded[2])) {
+    return {
+      low: parseFloat(bounded[1]),
+      high: parseFloat(bounded[2]),
+      text: bounded[0],
+    };
+  }
+
+  const upper = normalized.match(UPPER_BOUND_PATTERN);
+  if (upper) {
+    return { low: null, high: parseFloat(upper[1]), text: upper[0] };
+  }
+
+  const lower = normalized.match(LOWER_BOUND_PATTERN);
+  if (lower) {
+    return { low: parseFloat(lower[1]), high: null, text: lower[0] };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a printed reference interval (e.g. a table reference cell)
+ * Returns null when the text contains no recognizable interval.
+ */
+export function parseReferenceRange(text: string | null | undefined): ReferenceRange | null {
+  if (!text) return null;
+
+  const original = text.trim().replace(/^\(\s*|\s*\)$/g, '');
+  const interval = matchInterval(normalizeNumbers(original));
+  if (!interval) return null;
+
+  return { low: interval.low, high: interval.high, text: original };
+}
+
+/**
+ * Parse a printed abnormal flag ("H", "Low", "↑", "*")
+ */
+export function parseAbnormalFlag(text: string | null | undefined): AbnormalFlag | null {
+  if (!text) return null;
+  const token = text.trim().toLowerCase().replace(/^\*+(?=\w)|(?<=\w)\*+$/g, '');
+  return FLAG_ALIASES[token] ?? (/^\*+$/.test(token) ? 'A' : null);
+}
+
+/**
+ * Derive a high/low flag by comparing the value with the lab's range
+ */
+export function deriveAbnormalFlag(
+  value: number | null,
+  range: ReferenceRange | null | undefined
+): AbnormalFlag | null {
+  if (value === null || !range) return null;
+  if (range.high !== null && value > range.high) return 'H';
+  if (range.low !== null && value < range.low) return 'L';
+  return null;
+}
+
+/**
+ * Scale a range's bounds (unit conversion, RDW ratio to percent)
+ */
+export function scaleReferenceRange(range: ReferenceRange, factor: number, offset: number = 0): ReferenceRange {
+  return {
+    ...range,
+    low: range.low !== null ? range.low * factor + offset : null,
+    high: range.high !== null ? range.high * factor + offset : null,
+  };
+}
+
+/**
+ * Find the reference interval and flag printed after a value on a text line
+ * Used by line-based extraction, where there is no reference column.
+ */
+export function findReferenceRange(
+  line: string,
+  value: number | null
+): { referenceRange: ReferenceRange | null; flag: AbnormalFlag | null } {
+  const none = { referenceRange: null, flag: null };
+  if (value === null) return none;
+
+  // An explicit "ref:" / "VN:" marker wins wherever it is on the line
+  const marker = line.match(REFERENCE_MARKER);
+  const afterValue = marker ? null : textAfterValue(line, value);
+  const rangeText = marker ? line.slice((marker.index ?? 0) + marker[0].length) : afterValue;
+  if (rangeText === null) return none;
+
+  const referenceRange = matchInterval(normalizeNumbers(rangeText));
+
+  // Flags sit between the value and the interval as standalone tokens
+  let flag: AbnormalFlag | null = null;
+  const flagText = textAfterValue(marker ? line.slice(0, marker.index) : line, value) ?? '';
+  for (const token of flagText.split(/\s+/)) {
+    if (/\d/.test(token)) break;
+    flag = parseAbnormalFlag(token.replace(/[()]/g, ''));
+    if (flag) break;
+  }
+
+  return { referenceRange, flag };
+}
+
+/**
+ * Collect the lab ranges and flags to store with a submission
+ * Values edited after extraction are re-flagged against the lab's range.
+ */
+export function collectReferenceRanges(
+  extractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>>,
+  submittedValues: Partial<Record<BiomarkerKey, number>> = {}
+): Partial<Record<BiomarkerKey, SubmissionReferenceRange>> {
+  const ranges: Partial<Record<BiomarkerKey, SubmissionReferenceRange>> = {};
+
+  for (const [key, extraction] of Object.entries(extractions) as [BiomarkerKey, BiomarkerExtraction][]) {
+    if (!extraction.referenceRange) continue;
+
+    const submitted = submittedValues[key];
+    const edited = submitted !== undefined && submitted !== extraction.value;
+
+    ranges[key] = {
+      ...extraction.referenceRange,
+      flag: edited
+        ? deriveAbnormalFlag(submitted, extraction.referenceRange)
+        : extraction.flag ?? null,
+    };
+  }
+
+  return ranges;
+}
+
+/**
+ * Get the part of a line after the first number equal to `value`
+ */
+function textAfterValue(line: string, value: number): string | null {
+  const normalized = normalizeNumbers(line);
+  const pattern = /\d+(?:\.\d+)?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(normalized)) !== null) {
+    if (Math.abs(parseFloat(match[0]) - value) < 1e-9) {
+      return normalized.slice(match.index + match[0].length);
+    }
+  }
+
+  return null;
+}
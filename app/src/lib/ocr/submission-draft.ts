@@ -0,0 +1,107 @@
+/**
+ * Submission Draft - Multi-document submission state
+ *
+ * Loads a draft with its OCR documents and builds the merged view shown to
+ * the athlete and checked by POST /api/submissions: merged values, conflicts
+ * still to resolve and the collection-date gap check.
+ *
+ * @module lib/ocr/submission-draft
+ */
+
+import { prisma } from '@/lib/db';
+import {
+  checkCollectionGap,
+  mergeDocumentExtractions,
+  type CollectionGapCheck,
+  type ConflictResolutions,
+  type MergeDocument,
+  type MergedDocuments,
+} from './document-merge';
+import type { BiomarkerExtraction, BiomarkerKey, OcrJobStatus } from './types';
+
+// Used when no season is active
+export const DEFAULT_MAX_DOCUMENT_GAP_DAYS = 14;
+
+export interface DraftDocumentSummary {
+  jobId: string;
+  fileName: string;
+  status: OcrJobStatus;
+  collectedAt: string | null;
+  labName: string | null;
+  labTemplateId: string | null;
+  labTemplateVersion: string | null;
+  errorMessage: string | null;
+}
+
+export interface SubmissionDraftView {
+  id: string;
+  status: string;
+  documents: DraftDocumentSummary[];
+  merged: MergedDocuments;
+  collectionGap: CollectionGapCheck;
+  /** True once every document is processed, conflicts are resolved and dates are in range */
+  ready: boolean;
+}
+
+/**
+ * Load a draft owned by an athlete and build its merged view
+ * Returns null when the draft does not exist or belongs to someone else.
+ */
+export async function getSubmissionDraftView(
+  draftId: string,
+  athleteId: string
+): Promise<SubmissionDraftView | null> {
+  const draft = await prisma.submissionDraft.findFirst({
+    where: { id: draftId, athleteId },
+    include: { documents: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  if (!draft) return null;
+
+  const season = await prisma.season.findFirst({
+    where: { status: 'ACTIVE' },
+    select: { maxDocumentGapDays: true },
+  });
+
+  const completed: MergeDocument[] = draft.documents
+    .filter((job) => job.status === 'COMPLETED')
+    .map((job) => ({
+      jobId: job.id,
+      fileName: job.originalFileName,
+      collectedAt: job.collectedAt,
+      extractions: (job.extractedValues ?? {}) as Partial<Record<BiomarkerKey, BiomarkerExtraction>>,
+    }));
+
+  const merged = mergeDocumentExtractions(
+    completed,
+    (draft.resolutions ?? {}) as ConflictResolutions
+  );
+  const collectionGap = checkCollectionGap(
+    completed,
+    season?.maxDocumentGapDays ?? DEFAULT_MAX_DOCUMENT_GAP_DAYS
+  );
+
+  const allProcessed = draft.documents.every((job) => job.status === 'COMPLETED');
+
+  return {
+    id: draft.id,
+    status: draft.status,
+    documents: draft.documents.map((job) => ({
+      jobId: job.id,
+      fileName: job.originalFileName,
+      status: job.status as OcrJobStatus,
+      collectedAt: job.collectedAt?.toISOString() ?? null,
+      labName: job.labName,
+      labTemplateId: job.labTemplateId,
+      labTemplateVersion: job.labTemplateVersion,
+      errorMessage: job.errorMessage,
+    })),
+    merged,
+    collectionGap,
+    ready:
+      completed.length > 0 &&
+      allProcessed &&
+      merged.unresolved.length === 0 &&
+      collectionGap.valid,
+  };
+}
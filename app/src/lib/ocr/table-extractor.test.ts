@@ -0,0 +1,200 @@
+/**
+ * Table Extractor Tests
+ * Tests row/column reconstruction from word bounding boxes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  rebuildTableRows,
+  matchBiomarkerName,
+  extractBiomarkersFromTable,
+  preferTableExtractions,
+  type PositionedWord,
+} from './table-extractor';
+import { extractAllBiomarkers } from './biomarker-extractor';
+import { scoreContextClarity } from './confidence-scorer';
+
+const CHAR_WIDTH = 6;
+const WORD_HEIGHT = 10;
+
+/**
+ * Lay out a row of cells as positioned words (one space between words in a cell)
+ */
+function row(y: number, cells: Array<[number, string]>, confidence = 0.95): PositionedWord[] {
+  const words: PositionedWord[] = [];
+
+  for (const [x, text] of cells) {
+    let cursor = x;
+    for (const part of text.split(' ')) {
+      words.push({
+        text: part,
+        confidence,
+        bbox: { x0: cursor, y0: y, x1: cursor + part.length * CHAR_WIDTH, y1: y + WORD_HEIGHT },
+      });
+      cursor += (part.length + 1) * CHAR_WIDTH;
+    }
+  }
+
+  return words;
+}
+
+describe('Table Extractor', () => {
+  describe('rebuildTableRows', () => {
+    it('should group words into rows and split cells on wide gaps', () => {
+      const rows = rebuildTableRows([
+        ...row(100, [[50, 'Serum Albumin'], [250, '4.6'], [320, 'g/dL'], [400, '3.5-5.0']]),
+        ...row(121, [[50, 'Glucose'], [250, '88'], [320, 'mg/dL'], [400, '65-99']]),
+      ]);
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0].cells.map((c) => c.text)).toEqual(['Serum Albumin', '4.6', 'g/dL', '3.5-5.0']);
+      expect(rows[1].cells.map((c) => c.text)).toEqual(['Glucose', '88', 'mg/dL', '65-99']);
+    });
+
+    it('should keep slightly misaligned words on the same row', () => {
+      const words = [
+        ...row(100, [[50, 'Albumin']]),
+        ...row(103, [[250, '4.6']]),
+      ];
+
+      const rows = rebuildTableRows(words);
+      expect(rows).toHaveLength(1);
+      expect(rows[0].cells).toHaveLength(2);
+    });
+  });
+
+  describe('matchBiomarkerName', () => {
+    it('should match exact and whole-word aliases', () => {
+      expect(matchBiomarkerName('Albumin')).toEqual({ biomarker: 'albumin', quality: 1.0 });
+      expect(matchBiomarkerName('Glucose, Fasting')?.biomarker).toBe('glucose');
+      expect(matchBiomarkerName('MCV')?.biomarker).toBe('mcv');
+    });
+
+    it('should not match aliases inside other words', () => {
+      // "ap" (alkaline phosphatase) must not match inside "Apolipoprotein"
+      expect(matchBiomarkerName('Apolipoprotein B')?.biomarker).toBe('apoB');
+      expect(matchBiomarkerName('Apolipoprotein A1')).toBeNull();
+    });
+
+    it('should not treat absolute lymphocyte counts as the percentage', () => {
+      expect(matchBiomarkerName('Lymphocytes (Absolute)')).toBeNull();
+      expect(matchBiomarkerName('Lymphocytes')?.biomarker).toBe('lymphocytePercent');
+    });
+  });
+
+  describe('extractBiomarkersFromTable', () => {
+    it('should read values from the result column of a headed table', () => {
+      const words = [
+        ...row(80, [[50, 'Test'], [250, 'Result'], [320, 'Flag'], [380, 'Units'], [450, 'Reference Interval']]),
+        ...row(100, [[50, 'Albumin'], [250, '4.6'], [380, 'g/dL'], [450, '3.5-5.0']]),
+        ...row(120, [[50, 'Glucose'], [250, '105'], [320, 'H'], [380, 'mg/dL'], [450, '65-99']]),
+      ];
+
+      const result = extractBiomarkersFromTable(words, 2);
+
+      expect(result.albumin).toMatchObject({
+        value: 4.6,
+        unit: 'g/dl',
+        pageNumber: 2,
+        valueColumn: 'result',
+        tableRow: { name: 'Albumin', result: '4.6', reference: '3.5-5.0', flag: null },
+      });
+      expect(result.glucose).toMatchObject({
+        value: 105,
+        tableRow: { flag: 'H', reference: '65-99' },
+        referenceRange: { low: 65, high: 99, text: '65-99' },
+        flag: 'H',
+      });
+      expect(result.albumin?.flag).toBeNull();
+    });
+
+    it('should ignore previous-result columns', () => {
+      const words = [
+        ...row(80, [[50, 'Tests'], [200, 'Current Result'], [320, 'Previous Result'], [450, 'Units']]),
+        ...row(100, [[50, 'Creatinine'], [200, '0.92'], [320, '1.40'], [450, 'mg/dL']]),
+      ];
+
+      const result = extractBiomarkersFromTable(words);
+
+      expect(result.creatinine?.value).toBe(0.92);
+    });
+
+    it('should split side-by-side tables into separate records', () => {
+      const words = [
+        ...row(100, [[20, 'Albumin'], [120, '4.6'], [170, 'g/dL'], [220, '3.5-5.0'],
+          [320, 'WBC'], [420, '5.8'], [470, 'K/uL'], [520, '3.8-10.8']]),
+      ];
+
+      const result = extractBiomarkersFromTable(words);
+
+      expect(result.albumin?.value).toBe(4.6);
+      expect(result.wbc?.value).toBe(5.8);
+    });
+
+    it('should avoid the reference range when it precedes the result', () => {
+      const words = [
+        ...row(100, [[50, 'MCV'], [200, '80-100'], [300, '91'], [360, 'fL']]),
+      ];
+
+      const result = extractBiomarkersFromTable(words);
+
+      expect(result.mcv).toMatchObject({
+        value: 91,
+        tableRow: { reference: '80-100', result: '91' },
+      });
+    });
+
+    it('should split result cells with attached flags and units', () => {
+      const words = [...row(100, [[50, 'CRP'], [200, '6.2 H mg/L'], [320, '<3.0']])];
+
+      const result = extractBiomarkersFromTable(words);
+
+      expect(result.crp).toMatchObject({
+        value: 6.2,
+        unit: 'mg/l',
+        tableRow: { flag: 'H', reference: '<3.0' },
+      });
+    });
+
+    it('should convert RDW ratios to percentages', () => {
+      const words = [...row(100, [[50, 'RDW'], [200, '0.125'], [300, 'ratio']])];
+
+      expect(extractBiomarkersFromTable(words).rdw).toMatchObject({ value: 12.5, unit: '%' });
+    });
+  });
+
+  describe('preferTableExtractions', () => {
+    it('should replace line-based values with table values', () => {
+      const lineExtractions = extractAllBiomarkers('MCV 80-100 91 fL\nAlbumin 4.4 g/dL');
+      const tableExtractions = extractBiomarkersFromTable([
+        ...row(100, [[50, 'MCV'], [200, '80-100'], [300, '91'], [360, 'fL']]),
+      ]);
+
+      const merged = preferTableExtractions(lineExtractions, tableExtractions);
+
+      expect(merged.mcv.value).toBe(91);
+      expect(merged.mcv.valueColumn).toBe('result');
+      expect(merged.albumin.value).toBe(4.4);
+      expect(merged.albumin.valueColumn).toBeUndefined();
+    });
+  });
+
+  describe('scoreContextClarity with table structure', () => {
+    it('should score result-column values highly regardless of nearby numbers', () => {
+      const result = scoreContextClarity('MCV 80-100 91 fL', 91, {
+        valueColumn: 'result',
+        tableRow: { name: 'MCV', result: '91', unit: 'fL', reference: '80-100', flag: null },
+      });
+
+      expect(result.score).toBe(1.0);
+      expect(result.warning).toBeUndefined();
+    });
+
+    it('should warn when the value came from another column', () => {
+      const result = scoreContextClarity('MCV 80-100', 80, { valueColumn: 'reference' });
+
+      expect(result.score).toBeLessThan(0.5);
+      expect(result.warning).toContain('reference column');
+    });
+  });
+});
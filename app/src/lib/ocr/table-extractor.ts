@@ -0,0 +1,507 @@
+/**
+ * Table Extractor - Structure-aware biomarker extraction
+ *
+ * Rebuilds lab report table rows and columns (name, result, unit, reference
+ * range, flag) from word bounding boxes produced by an OCR engine, so values
+ * are read from the result column instead of the nearest number on a line.
+ *
+ * ## Processing Pipeline
+ * 1. Group words into rows by vertical position
+ * 2. Split rows into cells on large horizontal gaps
+ * 3. Detect a header row ("Test", "Result", "Units", "Reference"...) and map
+ *    cells to columns by x-position; fall back to classifying cell content
+ * 4. Split side-by-side tables into separate records per row
+ * 5. Match record names against biomarker aliases and score confidence
+ *
+ * ## Extension Points
+ * - **Header vocabularies**: Add languages to HEADER_PATTERNS
+ * - **Flag notations**: Extend FLAG_PATTERN for lab-specific markers
+ *
+ * @module lib/ocr/table-extractor
+ */
+
+import {
+  BIOMARKER_ALIASES,
+  BIOMARKER_UNITS,
+  calculateConfidence,
+  extractUnit,
+  getBiomarkerAliases,
+} from './biomarker-extractor';
+import { scoreContextClarity } from './confidence-scorer';
+import {
+  deriveAbnormalFlag,
+  parseAbnormalFlag,
+  parseReferenceRange,
+  scaleReferenceRange,
+} from './reference-range';
+import type { OcrResult } from './ocr-service';
+import type {
+  BiomarkerExtraction,
+  BiomarkerKey,
+  ExtractionOptions,
+  TableColumn,
+  TableRowCells,
+} from './types';
+
+export type PositionedWord = OcrResult['words'][number];
+
+/**
+ * A cell of horizontally adjacent words
+ */
+export interface TableCell {
+  text: string;
+  x0: number;
+  x1: number;
+  confidence: number;
+}
+
+/**
+ * A visual row of cells
+ */
+export interface TableRow {
+  cells: TableCell[];
+  lineNumber: number;
+}
+
+/**
+ * A column header detected in the table
+ * `group` separates side-by-side tables that repeat the same headers.
+ */
+interface HeaderColumn {
+  column: TableColumn | null;
+  x0: number;
+  x1: number;
+  group: number;
+}
+
+/**
+ * A single test record rebuilt from a row
+ */
+interface TableRecord {
+  cells: TableRowCells;
+  rawText: string;
+  confidences: number[];
+}
+
+// Words whose vertical centers are within this fraction of a word height share a row
+const ROW_TOLERANCE = 0.5;
+
+// Horizontal gaps wider than this multiple of the word height start a new cell
+const COLUMN_GAP_FACTOR = 1.2;
+
+const HEADER_PATTERNS: Record<TableColumn, RegExp> = {
+  name: /^(tests?|test name|analyte|component|parameter|examination|untersuchung|analyse|vyšetření)$/i,
+  result: /(result|value|current|ergebnis|wert|výsledek|résultat)/i,
+  unit: /^(units?|einheit|jednotka|unité)$/i,
+  reference: /(reference|range|interval|normal|referenz|norm|ref\.?)/i,
+  flag: /^(flag|flags|abn|abnormal|status)$/i,
+};
+
+const FLAG_PATTERN = /^(H|L|HH|LL|A|AA|High|Low|Abnormal|Critical|\*+|↑|↓)$/i;
+const RANGE_PATTERN = /^\(?\s*\d+(?:[.,]\d+)?\s*[-–—]\s*\d+(?:[.,]\d+)?\s*\)?/;
+const COMPARATOR_PATTERN = /^\(?\s*[<>≤≥]=?\s*\d+(?:[.,]\d+)?\s*\)?/;
+const RESULT_PATTERN = /^([<>]?\s*\d+(?:[.,]\d+)?)\s*(.*)$/;
+
+const KNOWN_UNITS = new Set(
+  Object.values(BIOMARKER_UNITS)
+    .flat()
+    .map((unit) => unit.toLowerCase())
+);
+
+/**
+ * Group words into rows of cells using their bounding boxes
+ */
+export function rebuildTableRows(words: PositionedWord[]): TableRow[] {
+  const visibleWords = words.filter((word) => word.text.trim() !== '');
+  if (visibleWords.length === 0) return [];
+
+  const heights = visibleWords.map((word) => word.bbox.y1 - word.bbox.y0).sort((a, b) => a - b);
+  const wordHeight = Math.max(1, heights[Math.floor(heights.length / 2)]);
+
+  // Group words into rows by vertical center
+  const rows: Array<{ centerY: number; words: PositionedWord[] }> = [];
+  const byCenter = [...visibleWords].sort(
+    (a, b) => a.bbox.y0 + a.bbox.y1 - (b.bbox.y0 + b.bbox.y1)
+  );
+
+  for (const word of byCenter) {
+    const centerY = (word.bbox.y0 + word.bbox.y1) / 2;
+    const row = rows.find((r) => Math.abs(r.centerY - centerY) <= wordHeight * ROW_TOLERANCE);
+
+    if (row) {
+      row.words.push(word);
+    } else {
+      rows.push({ centerY, words: [word] });
+    }
+  }
+
+  return rows
+    .sort((a, b) => a.centerY - b.centerY)
+    .map((row, lineNumber) => ({
+      cells: splitIntoCells(row.words, wordHeight),
+      lineNumber,
+    }));
+}
+
+/**
+ * Split a row's words into cells on wide horizontal gaps
+ */
+function splitIntoCells(words: PositionedWord[], wordHeight: number): TableCell[] {
+  const sorted = [...words].sort((a, b) => a.bbox.x0 - b.bbox.x0);
+  const cells: Array<{ words: PositionedWord[]; x0: number; x1: number }> = [];
+
+  for (const word of sorted) {
+    const current = cells[cells.length - 1];
+
+    if (current && word.bbox.x0 - current.x1 <= wordHeight * COLUMN_GAP_FACTOR) {
+      current.words.push(word);
+      current.x1 = Math.max(current.x1, word.bbox.x1);
+    } else {
+      cells.push({ words: [word], x0: word.bbox.x0, x1: word.bbox.x1 });
+    }
+  }
+
+  return cells.map((cell) => ({
+    text: cell.words.map((word) => word.text).join(' '),
+    x0: cell.x0,
+    x1: cell.x1,
+    confidence: cell.words.reduce((sum, word) => sum + word.confidence, 0) / cell.words.length,
+  }));
+}
+
+/**
+ * Detect a header row and return its columns, or null if the row is not a header
+ */
+function detectHeader(row: TableRow): HeaderColumn[] | null {
+  const columns: HeaderColumn[] = [];
+  let group = 0;
+  let seenInGroup = new Set<TableColumn>();
+  let matched = 0;
+
+  for (const cell of row.cells) {
+    const text = cell.text.trim();
+    const column =
+      (Object.keys(HEADER_PATTERNS) as TableColumn[]).find((key) => HEADER_PATTERNS[key].test(text)) ??
+      null;
+
+    if (column) {
+      matched++;
+
+      // A repeated name column starts a side-by-side table
+      if (column === 'name' && seenInGroup.has('name')) {
+        group++;
+        seenInGroup = new Set();
+      }
+
+      // Only the first column of each kind counts (e.g. "Previous Result" is ignored)
+      const isDuplicate = seenInGroup.has(column);
+      seenInGroup.add(column);
+      columns.push({ column: isDuplicate ? null : column, x0: cell.x0, x1: cell.x1, group });
+    } else {
+      columns.push({ column: null, x0: cell.x0, x1: cell.x1, group });
+    }
+  }
+
+  const hasNameAndResult = columns.some((c) => c.column === 'result') && matched >= 2;
+  return hasNameAndResult ? columns : null;
+}
+
+/**
+ * Find the header column a cell belongs to (largest overlap, else nearest center)
+ */
+function findHeaderColumn(cell: TableCell, header: HeaderColumn[]): HeaderColumn {
+  let best = header[0];
+  let bestScore = -Infinity;
+
+  for (const column of header) {
+    const overlap = Math.min(cell.x1, column.x1) - Math.max(cell.x0, column.x0);
+    const centerDistance = Math.abs((cell.x0 + cell.x1) / 2 - (column.x0 + column.x1) / 2);
+    const score = overlap > 0 ? overlap : -centerDistance;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = column;
+    }
+  }
+
+  return best;
+}
+
+function emptyCells(): TableRowCells {
+  return { name: null, result: null, unit: null, reference: null, flag: null };
+}
+
+function isUnit(text: string): boolean {
+  const normalized = text.trim().toLowerCase();
+  if (KNOWN_UNITS.has(normalized)) return true;
+  return /^[a-zμµ%x0-9^*]*\/[a-zμµ0-9^]+$/i.test(normalized) && /[a-zμµ]/i.test(normalized);
+}
+
+function isReference(text: string): boolean {
+  return RANGE_PATTERN.test(text.trim());
+}
+
+/**
+ * Split a result cell like "4.6 H g/dL" into result, flag and unit parts
+ */
+function parseResultCell(text: string, cells: TableRowCells): void {
+  const match = text.trim().match(RESULT_PATTERN);
+  if (!match) return;
+
+  cells.result = match[1].replace(/\s+/g, '');
+
+  for (const part of match[2].split(/\s+/).filter(Boolean)) {
+    if (!cells.flag && FLAG_PATTERN.test(part)) {
+      cells.flag = part;
+    } else if (!cells.unit && isUnit(part)) {
+      cells.unit = part;
+    }
+  }
+}
+
+/**
+ * Build records for a row using header columns
+ */
+function recordsFromHeader(row: TableRow, header: HeaderColumn[]): TableRecord[] {
+  const groups = new Map<number, TableRecord>();
+
+  for (const cell of row.cells) {
+    const column = findHeaderColumn(cell, header);
+    if (!column.column) continue;
+
+    const record = groups.get(column.group) ?? { cells: emptyCells(), rawText: '', confidences: [] };
+    const cells = record.cells;
+
+    if (column.column === 'result') {
+      parseResultCell(cell.text, cells);
+    } else {
+      cells[column.column] = cells[column.column] ? `${cells[column.column]} ${cell.text}` : cell.text;
+    }
+
+    record.rawText = record.rawText ? `${record.rawText} ${cell.text}` : cell.text;
+    record.confidences.push(cell.confidence);
+    groups.set(column.group, record);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Build records for a row by classifying cell content
+ * A name cell after a result starts a new record (side-by-side tables).
+ */
+function recordsFromContent(row: TableRow): TableRecord[] {
+  const records: TableRecord[] = [];
+  let current: TableRecord | null = null;
+
+  for (const cell of row.cells) {
+    const text = cell.text.trim();
+    const isNumeric = RESULT_PATTERN.test(text) && !isReference(text);
+    const isName = /[a-zA-Zα-ωÀ-ž]{2,}/.test(text) && !isNumeric && !isUnit(text) && !FLAG_PATTERN.test(text);
+
+    if (isName && (!current || current.cells.result)) {
+      current = { cells: emptyCells(), rawText: '', confidences: [] };
+      records.push(current);
+    }
+    if (!current) continue;
+
+    const cells = current.cells;
+
+    if (isName) {
+      cells.name = cells.name ? `${cells.name} ${text}` : text;
+    } else if (isReference(text) || (cells.result && COMPARATOR_PATTERN.test(text))) {
+      cells.reference = cells.reference ?? text;
+    } else if (isNumeric && !cells.result) {
+      parseResultCell(text, cells);
+    } else if (FLAG_PATTERN.test(text)) {
+      cells.flag = cells.flag ?? text;
+    } else if (isUnit(text)) {
+      cells.unit = cells.unit ?? text;
+    }
+
+    current.rawText = current.rawText ? `${current.rawText} ${text}` : text;
+    current.confidences.push(cell.confidence);
+  }
+
+  return records.filter((record) => record.cells.name && record.cells.result);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a table name cell to a biomarker (whole-word alias match)
+ */
+export function matchBiomarkerName(
+  name: string,
+  options: ExtractionOptions = {}
+): { biomarker: BiomarkerKey; quality: number } | null {
+  const normalized = name.toLowerCase().replace(/[:,]+$/, '').trim();
+
+  // Absolute lymphocyte counts share aliases with the percentage
+  const isAbsoluteCount = /\b(absolute|abs|count|#)\b|#/.test(normalized);
+
+  let best: { biomarker: BiomarkerKey; quality: number; aliasLength: number } | null = null;
+
+  for (const biomarker of Object.keys(BIOMARKER_ALIASES) as BiomarkerKey[]) {
+    if (biomarker === 'lymphocytePercent' && isAbsoluteCount) continue;
+
+    for (const alias of getBiomarkerAliases(biomarker, options)) {
+      const normalizedAlias = alias.toLowerCase();
+      let quality = 0;
+
+      if (normalized === normalizedAlias) {
+        quality = 1.0;
+      } else if (
+        new RegExp(`(^|[^a-zà-ž])${escapeRegExp(normalizedAlias)}([^a-zà-ž]|$)`).test(normalized)
+      ) {
+        quality = 0.9;
+      }
+
+      if (
+        quality > 0 &&
+        (!best || quality > best.quality || (quality === best.quality && alias.length > best.aliasLength))
+      ) {
+        best = { biomarker, quality, aliasLength: alias.length };
+      }
+    }
+  }
+
+  return best ? { biomarker: best.biomarker, quality: best.quality } : null;
+}
+
+/**
+ * Extract biomarkers from a page's positioned words using table structure
+ * Only biomarkers found in a table row are returned.
+ */
+export function extractBiomarkersFromTable(
+  words: PositionedWord[],
+  pageNumber: number = 1,
+  options: ExtractionOptions = {}
+): Partial<Record<BiomarkerKey, BiomarkerExtraction>> {
+  const results: Partial<Record<BiomarkerKey, BiomarkerExtraction>> = {};
+  let header: HeaderColumn[] | null = null;
+
+  for (const row of rebuildTableRows(words)) {
+    const rowHeader = detectHeader(row);
+    if (rowHeader) {
+      header = rowHeader;
+      continue;
+    }
+
+    const records = header ? recordsFromHeader(row, header) : recordsFromContent(row);
+
+    for (const record of records) {
+      const extraction = toExtraction(record, row.lineNumber, pageNumber, options);
+      if (!extraction) continue;
+
+      const existing = results[extraction.biomarker];
+      if (!existing || extraction.confidence > existing.confidence) {
+        results[extraction.biomarker] = extraction;
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Turn a table record into a biomarker extraction
+ */
+function toExtraction(
+  record: TableRecord,
+  lineNumber: number,
+  pageNumber: number,
+  options: ExtractionOptions
+): BiomarkerExtraction | null {
+  const { cells } = record;
+  if (!cells.name || !cells.result) return null;
+
+  const match = matchBiomarkerName(cells.name, options);
+  if (!match) return null;
+
+  let value = parseFloat(cells.result.replace(/[<>\s]/g, '').replace(',', '.'));
+  if (isNaN(value) || !isFinite(value)) return null;
+
+  let unit = cells.unit ? extractUnit(cells.unit, match.biomarker) ?? cells.unit : null;
+  let referenceRange = parseReferenceRange(cells.reference);
+
+  // RDW ratio-to-percentage conversion (e.g. 0.120 → 12.0%)
+  if (match.biomarker === 'rdw' && value < 1) {
+    value = value * 100;
+    if (unit === 'ratio') unit = '%';
+    if (referenceRange && (referenceRange.high ?? referenceRange.low ?? 0) < 1) {
+      referenceRange = scaleReferenceRange(referenceRange, 100);
+    }
+  }
+
+  const valueColumn: TableColumn = 'result';
+  const ocrConfidence =
+    record.confidences.reduce((sum, c) => sum + c, 0) / Math.max(1, record.confidences.length);
+  const context = scoreContextClarity(record.rawText, value, { valueColumn, tableRow: cells });
+  const { confidence } = calculateConfidence(
+    match.biomarker,
+    value,
+    match.quality,
+    unit,
+    ocrConfidence,
+    context.score
+  );
+
+  return {
+    biomarker: match.biomarker,
+    value,
+    unit,
+    confidence,
+    rawText: record.rawText.substring(0, 200),
+    lineNumber,
+    pageNumber,
+    valueColumn,
+    tableRow: cells,
+    referenceRange,
+    flag: parseAbnormalFlag(cells.flag) ?? deriveAbnormalFlag(value, referenceRange),
+  };
+}
+
+/**
+ * Extract biomarkers from multiple pages of positioned words
+ * Keeps the highest confidence extraction for each biomarker.
+ */
+export function extractFromTablePages(
+  pages: Array<{ pageNumber: number; words: PositionedWord[] }>,
+  options: ExtractionOptions = {}
+): Partial<Record<BiomarkerKey, BiomarkerExtraction>> {
+  const results: Partial<Record<BiomarkerKey, BiomarkerExtraction>> = {};
+
+  for (const page of pages) {
+    const pageResults = extractBiomarkersFromTable(page.words, page.pageNumber, options);
+
+    for (const [key, extraction] of Object.entries(pageResults) as [BiomarkerKey, BiomarkerExtraction][]) {
+      const existing = results[key];
+      if (!existing || extraction.confidence > existing.confidence) {
+        results[key] = extraction;
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Prefer table-aware extractions over line-based ones when a value was found
+ */
+export function preferTableExtractions(
+  lineExtractions: Record<BiomarkerKey, BiomarkerExtraction>,
+  tableExtractions: Partial<Record<BiomarkerKey, BiomarkerExtraction>>
+): Record<BiomarkerKey, BiomarkerExtraction> {
+  const merged = { ...lineExtractions };
+
+  for (const [key, extraction] of Object.entries(tableExtractions) as [BiomarkerKey, BiomarkerExtraction][]) {
+    if (extraction.value !== null) {
+      merged[key] = extraction;
+    }
+  }
+
+  return merged;
+}
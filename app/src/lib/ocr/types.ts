@@ -2,21 +2,35 @@
  * OCR Types for Biomarker Extraction
  */
 
-// Biomarker keys matching the phenoage.ts definitions
-export type BiomarkerKey =
-  | 'albumin'
-  | 'creatinine'
-  | 'glucose'
-  | 'crp'
-  | 'lymphocytePercent'
-  | 'mcv'
-  | 'rdw'
-  | 'alp'
-  | 'wbc';
+import type { BiomarkerKey } from '../biomarkers/catalog';
+
+// Biomarker keys from the biomarker catalog
+export type { BiomarkerKey };
 
 // Standard units for each biomarker
 export type BiomarkerUnit = 'g/dL' | 'mg/dL' | 'mg/L' | '%' | 'fL' | 'U/L' | 'K/uL';
 
+// Lab report table columns recognized by table-aware extraction
+export type TableColumn = 'name' | 'result' | 'unit' | 'reference' | 'flag';
+
+// Cells of a lab report table row rebuilt from word bounding boxes
+export type TableRowCells = Record<TableColumn, string | null>;
+
+// Reference interval printed by the lab; open-ended ranges have a null bound
+export interface ReferenceRange {
+  low: number | null;
+  high: number | null;
+  text: string; // As printed, e.g. "3.5-5.0" or "<3,0"
+}
+
+// Abnormal flag printed by the lab (or derived from its reference range)
+export type AbnormalFlag = 'H' | 'L' | 'HH' | 'LL' | 'A';
+
+// Lab range and flag stored with a submission (BiomarkerSubmission.referenceRanges)
+export interface SubmissionReferenceRange extends ReferenceRange {
+  flag: AbnormalFlag | null;
+}
+
 // Extraction result for a single biomarker
 export interface BiomarkerExtraction {
   biomarker: BiomarkerKey;
@@ -26,6 +40,22 @@ export interface BiomarkerExtraction {
   rawText: string;
   lineNumber: number;
   pageNumber: number;
+  valueColumn?: TableColumn; // Set by table-aware extraction; absent for line-based
+  tableRow?: TableRowCells;  // Table row the value was read from
+  referenceRange?: ReferenceRange | null; // Lab's reference interval, in the same unit as value
+  flag?: AbnormalFlag | null;             // Lab's abnormal flag for the value
+}
+
+// Template-specific parsing rules passed to the extractors (see lab-templates.ts)
+export interface ExtractionOptions {
+  aliasOverrides?: Partial<Record<BiomarkerKey, string[]>>; // Checked before the global aliases
+}
+
+// Lab template detected for a document
+export interface LabTemplateInfo {
+  id: string;
+  name: string;
+  version: string;
 }
 
 // Confidence factors used to calculate overall confidence
@@ -45,6 +75,8 @@ export interface OcrExtractionResult {
   pageCount: number;
   processingTimeMs: number;
   errors: string[];
+  labTemplate?: LabTemplateInfo | null;
+  collectedAt?: string | null; // Specimen collection date (ISO), when printed on the report
 }
 
 // OCR Job status
@@ -187,6 +219,7 @@ export interface OcrStatusResponse {
   jobId: string;
   status: OcrJobStatus;
   progress?: number;
+  queuePosition?: number;
   message?: string;
 }
 
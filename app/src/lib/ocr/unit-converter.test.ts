@@ -119,6 +119,22 @@ describe('Unit Converter', () => {
       });
     });
 
+    describe('catalog-only biomarkers', () => {
+      it('should convert ApoB g/L to mg/dL', () => {
+        const result = convertToStandardUnit('apoB', 0.85, 'g/L');
+        expect(result.value).toBeCloseTo(85, 1);
+        expect(result.unit).toBe('mg/dL');
+        expect(result.converted).toBe(true);
+      });
+
+      it('should convert HbA1c mmol/mol to % with an offset', () => {
+        const result = convertToStandardUnit('hba1c', 37, 'mmol/mol');
+        expect(result.value).toBeCloseTo(5.5, 1);
+        expect(result.unit).toBe('%');
+        expect(result.offset).toBe(2.152);
+      });
+    });
+
     it('should return original value when unit not recognized', () => {
       const result = convertToStandardUnit('albumin', 4.5, 'xyz');
       expect(result.value).toBe(4.5);
@@ -184,6 +200,16 @@ describe('Unit Converter', () => {
       });
     });
 
+    describe('hba1c detection', () => {
+      it('should detect % for typical NGSP values', () => {
+        expect(detectUnitFromValue('hba1c', 5.4).likelyUnit).toBe('%');
+      });
+
+      it('should detect mmol/mol for typical IFCC values', () => {
+        expect(detectUnitFromValue('hba1c', 37).likelyUnit).toBe('mmol/mol');
+      });
+    });
+
     it('should return low confidence for out-of-range values', () => {
       const result = detectUnitFromValue('albumin', 1000);
       expect(result.confidence).toBeLessThan(0.5);
@@ -2,18 +2,11 @@
  * Unit Converter for International Lab Values
  * Converts between SI units and US conventional units
  *
- * Target units (US conventional, as used in phenoage.ts):
- * - Albumin: g/dL
- * - Creatinine: mg/dL
- * - Glucose: mg/dL
- * - CRP: mg/L
- * - Lymphocyte %: %
- * - MCV: fL
- * - RDW: %
- * - ALP: U/L
- * - WBC: K/uL
+ * Target units are the canonical units of the biomarker catalog
+ * (lib/biomarkers), e.g. albumin g/dL, glucose mg/dL, CRP mg/L, WBC K/uL.
  */
 
+import { BIOMARKER_CATALOG, getBiomarker } from '../biomarkers/catalog';
 import { BiomarkerKey } from './types';
 
 /**
@@ -23,104 +16,33 @@ interface UnitConversion {
   fromUnit: string;
   toUnit: string;
   factor: number;
+  offset?: number;
   aliases: string[];
 }
 
 /**
- * Conversion factors for each biomarker
- * All conversions are TO the standard unit used in phenoage.ts
+ * Conversion factors for each biomarker, from the biomarker catalog
+ * All conversions are TO the biomarker's canonical unit
  */
-export const UNIT_CONVERSIONS: Record<BiomarkerKey, UnitConversion[]> = {
-  albumin: [
-    // g/L to g/dL (divide by 10)
-    { fromUnit: 'g/l', toUnit: 'g/dL', factor: 0.1, aliases: ['g/l', 'grams/l', 'grams/liter'] },
-    // Already in g/dL
-    { fromUnit: 'g/dl', toUnit: 'g/dL', factor: 1, aliases: ['g/dl', 'gm/dl', 'g%'] },
-  ],
-
-  creatinine: [
-    // μmol/L to mg/dL (divide by 88.4)
-    { fromUnit: 'umol/l', toUnit: 'mg/dL', factor: 0.0113, aliases: ['umol/l', 'μmol/l', 'µmol/l', 'micromol/l'] },
-    // mg/L to mg/dL (divide by 10)
-    { fromUnit: 'mg/l', toUnit: 'mg/dL', factor: 0.1, aliases: ['mg/l'] },
-    // Already in mg/dL
-    { fromUnit: 'mg/dl', toUnit: 'mg/dL', factor: 1, aliases: ['mg/dl', 'mg%'] },
-  ],
-
-  glucose: [
-    // mmol/L to mg/dL (multiply by 18.0182)
-    { fromUnit: 'mmol/l', toUnit: 'mg/dL', factor: 18.0182, aliases: ['mmol/l', 'millimol/l'] },
-    // mg/L to mg/dL (divide by 10)
-    { fromUnit: 'mg/l', toUnit: 'mg/dL', factor: 0.1, aliases: ['mg/l'] },
-    // Already in mg/dL
-    { fromUnit: 'mg/dl', toUnit: 'mg/dL', factor: 1, aliases: ['mg/dl', 'mg%'] },
-  ],
-
-  crp: [
-    // nmol/L to mg/L (multiply by 0.0001047)
-    { fromUnit: 'nmol/l', toUnit: 'mg/L', factor: 0.0001047, aliases: ['nmol/l', 'nanomol/l'] },
-    // mg/dL to mg/L (multiply by 10)
-    { fromUnit: 'mg/dl', toUnit: 'mg/L', factor: 10, aliases: ['mg/dl'] },
-    // μg/mL to mg/L (same as mg/L)
-    { fromUnit: 'ug/ml', toUnit: 'mg/L', factor: 1, aliases: ['ug/ml', 'μg/ml', 'µg/ml', 'mcg/ml'] },
-    // Already in mg/L
-    { fromUnit: 'mg/l', toUnit: 'mg/L', factor: 1, aliases: ['mg/l'] },
-  ],
-
-  lymphocytePercent: [
-    // Already in %
-    { fromUnit: '%', toUnit: '%', factor: 1, aliases: ['%', 'percent', 'pct'] },
-    // Decimal to % (if given as 0.35 instead of 35%)
-    { fromUnit: 'decimal', toUnit: '%', factor: 100, aliases: [] },
-  ],
-
-  mcv: [
-    // Already in fL (femtoliters)
-    { fromUnit: 'fl', toUnit: 'fL', factor: 1, aliases: ['fl', 'femtoliters', 'femtoliter'] },
-    // μm³ to fL (same)
-    { fromUnit: 'um3', toUnit: 'fL', factor: 1, aliases: ['um3', 'μm3', 'µm3', 'cubic microns'] },
-  ],
-
-  rdw: [
-    // Already in %
-    { fromUnit: '%', toUnit: '%', factor: 1, aliases: ['%', 'percent', 'pct', 'cv'] },
-  ],
-
-  alp: [
-    // Already in U/L
-    { fromUnit: 'u/l', toUnit: 'U/L', factor: 1, aliases: ['u/l', 'iu/l', 'units/l', 'unit/l'] },
-    // μkat/L to U/L (multiply by 60)
-    { fromUnit: 'ukat/l', toUnit: 'U/L', factor: 60, aliases: ['ukat/l', 'μkat/l', 'µkat/l', 'microkat/l'] },
-    // nkat/L to U/L (multiply by 0.06)
-    { fromUnit: 'nkat/l', toUnit: 'U/L', factor: 0.06, aliases: ['nkat/l', 'nanokat/l'] },
-  ],
-
-  wbc: [
-    // 10^9/L to K/uL (same numeric value)
-    { fromUnit: '10^9/l', toUnit: 'K/uL', factor: 1, aliases: ['10^9/l', 'x10^9/l', 'giga/l', 'g/l'] },
-    // 10^3/μL to K/uL (same)
-    { fromUnit: '10^3/ul', toUnit: 'K/uL', factor: 1, aliases: ['10^3/ul', 'x10^3/ul', 'thou/ul', 'k/mcl'] },
-    // Already in K/uL
-    { fromUnit: 'k/ul', toUnit: 'K/uL', factor: 1, aliases: ['k/ul', 'k/μl', 'k/µl'] },
-    // cells/μL to K/uL (divide by 1000)
-    { fromUnit: 'cells/ul', toUnit: 'K/uL', factor: 0.001, aliases: ['cells/ul', '/ul', '/μl'] },
-  ],
-};
+export const UNIT_CONVERSIONS = Object.fromEntries(
+  BIOMARKER_CATALOG.map((biomarker) => [
+    biomarker.key,
+    biomarker.conversions.map((conversion): UnitConversion => ({
+      fromUnit: normalizeUnit(conversion.unit),
+      toUnit: biomarker.unit,
+      factor: conversion.factor,
+      offset: conversion.offset,
+      aliases: conversion.aliases,
+    })),
+  ])
+) as Record<BiomarkerKey, UnitConversion[]>;
 
 /**
  * Standard units for each biomarker (target units)
  */
-export const STANDARD_UNITS: Record<BiomarkerKey, string> = {
-  albumin: 'g/dL',
-  creatinine: 'mg/dL',
-  glucose: 'mg/dL',
-  crp: 'mg/L',
-  lymphocytePercent: '%',
-  mcv: 'fL',
-  rdw: '%',
-  alp: 'U/L',
-  wbc: 'K/uL',
-};
+export const STANDARD_UNITS = Object.fromEntries(
+  BIOMARKER_CATALOG.map((biomarker) => [biomarker.key, biomarker.unit])
+) as Record<BiomarkerKey, string>;
 
 /**
  * Normalize a unit string for comparison
@@ -156,14 +78,17 @@ export function convertToStandardUnit(
   biomarker: BiomarkerKey,
   value: number,
   fromUnit: string
-): { value: number; unit: string; converted: boolean } {
+): { value: number; unit: string; converted: boolean; factor: number; offset: number } {
   const conversion = findConversion(biomarker, fromUnit);
 
   if (conversion) {
+    const offset = conversion.offset ?? 0;
     return {
-      value: value * conversion.factor,
+      value: value * conversion.factor + offset,
       unit: STANDARD_UNITS[biomarker],
-      converted: conversion.factor !== 1,
+      converted: conversion.factor !== 1 || offset !== 0,
+      factor: conversion.factor,
+      offset,
     };
   }
 
@@ -172,6 +97,8 @@ export function convertToStandardUnit(
     value,
     unit: fromUnit,
     converted: false,
+    factor: 1,
+    offset: 0,
   };
 }
 
@@ -183,43 +110,19 @@ export function detectUnitFromValue(
   biomarker: BiomarkerKey,
   value: number
 ): { likelyUnit: string; confidence: number } {
-  // Use expected ranges to guess the unit
-  const expectedRanges: Record<BiomarkerKey, Array<{ unit: string; min: number; max: number }>> = {
-    albumin: [
-      { unit: 'g/dL', min: 2, max: 6 },
-      { unit: 'g/L', min: 20, max: 60 },
-    ],
-    creatinine: [
-      { unit: 'mg/dL', min: 0.3, max: 3 },
-      { unit: 'μmol/L', min: 26, max: 265 },
-    ],
-    glucose: [
-      { unit: 'mg/dL', min: 40, max: 300 },
-      { unit: 'mmol/L', min: 2.2, max: 16.7 },
-    ],
-    crp: [
-      { unit: 'mg/L', min: 0, max: 50 },
-      { unit: 'mg/dL', min: 0, max: 5 },
-    ],
-    lymphocytePercent: [
-      { unit: '%', min: 5, max: 60 },
-    ],
-    mcv: [
-      { unit: 'fL', min: 60, max: 120 },
-    ],
-    rdw: [
-      { unit: '%', min: 10, max: 25 },
-    ],
-    alp: [
-      { unit: 'U/L', min: 20, max: 300 },
-    ],
-    wbc: [
-      { unit: 'K/uL', min: 2, max: 20 },
-      { unit: 'cells/uL', min: 2000, max: 20000 },
-    ],
-  };
-
-  const ranges = expectedRanges[biomarker];
+  // Use expected ranges to guess the unit: the canonical range first, then
+  // the catalog range expressed in each detectable lab unit
+  const { unit, min, max, conversions } = getBiomarker(biomarker);
+  const ranges = [
+    { unit, min, max },
+    ...conversions
+      .filter((conversion) => conversion.detect)
+      .map((conversion) => ({
+        unit: conversion.unit,
+        min: (min - (conversion.offset ?? 0)) / conversion.factor,
+        max: (max - (conversion.offset ?? 0)) / conversion.factor,
+      })),
+  ];
 
   for (const range of ranges) {
     if (value >= range.min && value <= range.max) {
@@ -246,6 +149,9 @@ export function smartConvert(
   value: number;
   unit: string;
   converted: boolean;
+  /** Applied conversion: value = original * factor + offset */
+  factor: number;
+  offset: number;
   unitDetected: boolean;
   confidence: number;
 } {
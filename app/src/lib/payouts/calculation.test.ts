@@ -0,0 +1,112 @@
+/**
+ * Payout Calculation Tests
+ * Tests podium and division prizes, tie-splitting and the ledger steps
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePayouts,
+  canAdvancePayout,
+  totalPayouts,
+  type PayoutStanding,
+  type PayoutTerms,
+} from './calculation';
+
+const terms: PayoutTerms = {
+  prizePoolBTC: 1,
+  prizePoolUSD: 100000,
+  firstPlacePct: 60,
+  secondPlacePct: 25,
+  thirdPlacePct: 15,
+  divisionPrizePct: 0,
+};
+
+function standing(
+  athleteId: string,
+  rank: number,
+  overrides: Partial<PayoutStanding> = {}
+): PayoutStanding {
+  return {
+    athleteId,
+    displayName: `Athlete ${athleteId}`,
+    division: 'MENS',
+    rank,
+    divisionRank: rank,
+    bestAgeReduction: 10 - rank,
+    bestPaceOfAging: 0.8,
+    ...overrides,
+  };
+}
+
+describe('Payout Calculation', () => {
+  describe('calculatePayouts', () => {
+    it('should pay the podium its distribution percentages', () => {
+      const payouts = calculatePayouts(terms, [
+        standing('a', 1),
+        standing('b', 2),
+        standing('c', 3),
+        standing('d', 4),
+      ]);
+
+      expect(payouts.map((p) => [p.athleteId, p.category, p.place, p.sharePct, p.amountBTC])).toEqual([
+        ['a', 'OVERALL', 1, 60, 0.6],
+        ['b', 'OVERALL', 2, 25, 0.25],
+        ['c', 'OVERALL', 3, 15, 0.15],
+      ]);
+    });
+
+    it('should split the prizes of tied places', () => {
+      const payouts = calculatePayouts(terms, [
+        standing('a', 1, { bestAgeReduction: 9 }),
+        standing('b', 2, { bestAgeReduction: 9 }),
+        standing('c', 3),
+      ]);
+
+      expect(payouts.map((p) => [p.athleteId, p.sharePct, p.amountUSD])).toEqual([
+        ['a', 42.5, 42500],
+        ['b', 42.5, 42500],
+        ['c', 15, 15000],
+      ]);
+    });
+
+    it('should pay division winners an equal part of the division pool', () => {
+      const payouts = calculatePayouts(
+        { ...terms, firstPlacePct: 50, secondPlacePct: 20, thirdPlacePct: 10, divisionPrizePct: 20 },
+        [
+          standing('a', 1, { division: 'MENS', divisionRank: 1 }),
+          standing('b', 2, { division: 'WOMENS', divisionRank: 1 }),
+          standing('c', 3, { division: 'MENS', divisionRank: 2 }),
+        ]
+      );
+
+      expect(payouts.filter((p) => p.category === 'DIVISION')).toEqual([
+        expect.objectContaining({ athleteId: 'a', division: 'MENS', place: 1, sharePct: 10, amountBTC: 0.1 }),
+        expect.objectContaining({ athleteId: 'b', division: 'WOMENS', place: 1, sharePct: 10, amountBTC: 0.1 }),
+      ]);
+    });
+
+    it('should pay nothing without standings', () => {
+      expect(calculatePayouts({ ...terms, divisionPrizePct: 10 }, [])).toEqual([]);
+    });
+  });
+
+  describe('totalPayouts', () => {
+    it('should sum without float drift', () => {
+      expect(
+        totalPayouts([
+          { amountBTC: 0.1, amountUSD: 0.1 },
+          { amountBTC: 0.2, amountUSD: 0.2 },
+        ])
+      ).toEqual({ count: 2, amountBTC: 0.3, amountUSD: 0.3 });
+    });
+  });
+
+  describe('canAdvancePayout', () => {
+    it('should only move one step forward', () => {
+      expect(canAdvancePayout('CALCULATED', 'APPROVED')).toBe(true);
+      expect(canAdvancePayout('APPROVED', 'PAID')).toBe(true);
+      expect(canAdvancePayout('CALCULATED', 'PAID')).toBe(false);
+      expect(canAdvancePayout('PAID', 'APPROVED')).toBe(false);
+    });
+  });
+});
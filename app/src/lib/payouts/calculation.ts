@@ -0,0 +1,148 @@
+/**
+ * Payout Calculation - Who is owed what from a season's prize pool
+ *
+ * Computed from the frozen final standings (lib/seasons/final-standings),
+ * never the live leaderboard, so a season's payouts can't move.
+ *
+ * ## Prizes
+ * - OVERALL: places 1-3 receive firstPlacePct / secondPlacePct / thirdPlacePct
+ * - DIVISION: divisionPrizePct, when set, is split equally between the
+ *   divisions with ranked athletes and goes to each division's winner
+ *
+ * Athletes level on merit split the prizes of the places they occupy (see
+ * splitTiedShares). A division winner who also places overall gets both.
+ *
+ * ## Ledger
+ * CALCULATED → APPROVED → PAID, one step at a time; paid payouts carry the
+ * transaction reference of the transfer.
+ *
+ * @module lib/payouts/calculation
+ */
+
+import {
+  allocatePrize,
+  getPlacePct,
+  splitTiedShares,
+  type SeasonPrizeTerms,
+} from '@/lib/seasons/final-standings';
+
+export const PAYOUT_STATUSES = ['CALCULATED', 'APPROVED', 'PAID'] as const;
+export type PayoutStatus = (typeof PAYOUT_STATUSES)[number];
+
+export type PayoutCategory = 'OVERALL' | 'DIVISION';
+
+export interface PayoutTerms extends SeasonPrizeTerms {
+  divisionPrizePct: number;
+}
+
+/** Final standing fields a payout is calculated from */
+export interface PayoutStanding {
+  athleteId: string | null;
+  displayName: string;
+  division: string;
+  rank: number;
+  divisionRank: number;
+  bestAgeReduction: number;
+  bestPaceOfAging: number;
+}
+
+export interface CalculatedPayout {
+  athleteId: string | null;
+  displayName: string;
+  category: PayoutCategory;
+  division: string | null;
+  place: number;
+  sharePct: number;
+  amountBTC: number;
+  amountUSD: number;
+}
+
+export interface PayoutTotals {
+  count: number;
+  amountBTC: number;
+  amountUSD: number;
+}
+
+const NEXT_STATUS: Record<PayoutStatus, PayoutStatus | null> = {
+  CALCULATED: 'APPROVED',
+  APPROVED: 'PAID',
+  PAID: null,
+};
+
+/**
+ * Check whether a value is a known payout status
+ */
+export function isPayoutStatus(value: unknown): value is PayoutStatus {
+  return typeof value === 'string' && (PAYOUT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a payout may move from `from` to `to` (one step forward only)
+ */
+export function canAdvancePayout(from: PayoutStatus, to: PayoutStatus): boolean {
+  return NEXT_STATUS[from] === to;
+}
+
+/**
+ * Payouts for places in `ordered`, skipping places without a prize
+ */
+function payoutsForPlaces(
+  terms: PayoutTerms,
+  ordered: PayoutStanding[],
+  placePct: (place: number) => number,
+  category: PayoutCategory
+): CalculatedPayout[] {
+  const shares = splitTiedShares(ordered, placePct);
+
+  return ordered.flatMap((standing, index) => {
+    if (shares[index] <= 0) return [];
+    const { prizePct, prizeBTC, prizeUSD } = allocatePrize(terms, shares[index]);
+    return [
+      {
+        athleteId: standing.athleteId,
+        displayName: standing.displayName,
+        category,
+        division: category === 'DIVISION' ? standing.division : null,
+        place: category === 'DIVISION' ? standing.divisionRank : standing.rank,
+        sharePct: prizePct,
+        amountBTC: prizeBTC,
+        amountUSD: prizeUSD,
+      },
+    ];
+  });
+}
+
+/**
+ * Every prize won in a season, overall prizes first
+ */
+export function calculatePayouts(terms: PayoutTerms, standings: PayoutStanding[]): CalculatedPayout[] {
+  const overall = [...standings].sort((a, b) => a.rank - b.rank);
+  const payouts = payoutsForPlaces(terms, overall, (place) => getPlacePct(terms, place), 'OVERALL');
+
+  if (terms.divisionPrizePct <= 0) return payouts;
+
+  const divisions = [...new Set(standings.map((s) => s.division))].sort();
+  const divisionPct = terms.divisionPrizePct / divisions.length;
+
+  for (const division of divisions) {
+    const members = overall
+      .filter((s) => s.division === division)
+      .sort((a, b) => a.divisionRank - b.divisionRank);
+    payouts.push(
+      ...payoutsForPlaces(terms, members, (place) => (place === 1 ? divisionPct : 0), 'DIVISION')
+    );
+  }
+
+  return payouts;
+}
+
+/**
+ * Number and sum of a set of payouts
+ */
+export function totalPayouts(payouts: Array<Pick<CalculatedPayout, 'amountBTC' | 'amountUSD'>>): PayoutTotals {
+  // Sum in satoshis and cents so float error doesn't show up in the totals
+  const satoshis = payouts.reduce((sum, payout) => sum + Math.round(payout.amountBTC * 1e8), 0);
+  const cents = payouts.reduce((sum, payout) => sum + Math.round(payout.amountUSD * 100), 0);
+
+  return { count: payouts.length, amountBTC: satoshis / 1e8, amountUSD: cents / 100 };
+}
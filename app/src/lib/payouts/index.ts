@@ -0,0 +1,39 @@
+/**
+ * Payouts Module
+ *
+ * Prize payout calculation from a season's final standings and the payout
+ * ledger (CALCULATED → APPROVED → PAID).
+ *
+ * @example
+ * ```typescript
+ * import { calculateSeasonPayouts, payoutsToCsv } from '@/lib/payouts';
+ *
+ * const payouts = await calculateSeasonPayouts(seasonId);
+ * const csv = payoutsToCsv(season, payouts);
+ * ```
+ *
+ * @module lib/payouts
+ */
+
+export {
+  calculateSeasonPayouts,
+  listSeasonPayouts,
+  updatePayoutStatus,
+  payoutsToCsv,
+} from './payout-service';
+export type { PayoutStatusUpdate } from './payout-service';
+export {
+  PAYOUT_STATUSES,
+  isPayoutStatus,
+  canAdvancePayout,
+  calculatePayouts,
+  totalPayouts,
+} from './calculation';
+export type {
+  PayoutStatus,
+  PayoutCategory,
+  PayoutTerms,
+  PayoutStanding,
+  CalculatedPayout,
+  PayoutTotals,
+} from './calculation';
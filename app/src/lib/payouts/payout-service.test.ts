@@ -0,0 +1,159 @@
+/**
+ * Payout Service Tests
+ * Tests recalculation guards, ledger moves and the treasurer CSV
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { SeasonPayout } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { BadRequestError, ConflictError } from '@/lib/api-utils';
+import { calculateSeasonPayouts, payoutsToCsv, updatePayoutStatus } from './payout-service';
+
+const tx = {
+  season: { findUnique: vi.fn() },
+  seasonPayout: { count: vi.fn(), deleteMany: vi.fn(), createMany: vi.fn(), findMany: vi.fn() },
+  seasonFinalStanding: { findMany: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    seasonPayout: { findUnique: vi.fn(), findUniqueOrThrow: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+const season = {
+  id: 's1',
+  name: 'Season 2025',
+  archivedAt: new Date('2026-01-02T00:00:00Z'),
+  prizePoolBTC: 1,
+  prizePoolUSD: 100000,
+  firstPlacePct: 60,
+  secondPlacePct: 25,
+  thirdPlacePct: 15,
+  divisionPrizePct: 0,
+};
+
+function payout(overrides: Partial<SeasonPayout> = {}): SeasonPayout {
+  return {
+    id: 'p1',
+    seasonId: 's1',
+    athleteId: 'a1',
+    displayName: 'Ada',
+    category: 'OVERALL',
+    division: null,
+    place: 1,
+    sharePct: 60,
+    amountBTC: 0.6,
+    amountUSD: 60000,
+    status: 'CALCULATED',
+    approvedAt: null,
+    approvedBy: null,
+    paidAt: null,
+    paidBy: null,
+    txReference: null,
+    createdAt: new Date('2026-01-02T00:00:00Z'),
+    updatedAt: new Date('2026-01-02T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Payout Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (client: typeof tx) => unknown) =>
+      fn(tx)) as never);
+    tx.season.findUnique.mockResolvedValue(season);
+    tx.seasonPayout.count.mockResolvedValue(0);
+    tx.seasonPayout.findMany.mockResolvedValue([]);
+    tx.seasonFinalStanding.findMany.mockResolvedValue([
+      {
+        athleteId: 'a1',
+        displayName: 'Ada',
+        division: 'WOMENS',
+        rank: 1,
+        divisionRank: 1,
+        bestAgeReduction: 7,
+        bestPaceOfAging: 0.8,
+      },
+    ]);
+  });
+
+  describe('calculateSeasonPayouts', () => {
+    it('should replace the calculated payouts with fresh ones', async () => {
+      await calculateSeasonPayouts('s1');
+
+      expect(tx.seasonPayout.deleteMany).toHaveBeenCalledWith({ where: { seasonId: 's1' } });
+      expect(tx.seasonPayout.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ seasonId: 's1', athleteId: 'a1', category: 'OVERALL', amountBTC: 0.6 })],
+      });
+    });
+
+    it('should refuse once a payout has been approved', async () => {
+      tx.seasonPayout.count.mockResolvedValue(1);
+
+      await expect(calculateSeasonPayouts('s1')).rejects.toBeInstanceOf(ConflictError);
+      expect(tx.seasonPayout.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse seasons without final standings', async () => {
+      tx.season.findUnique.mockResolvedValue({ ...season, archivedAt: null });
+
+      await expect(calculateSeasonPayouts('s1')).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('updatePayoutStatus', () => {
+    const at = new Date('2026-02-01T00:00:00Z');
+
+    beforeEach(() => {
+      vi.mocked(prisma.seasonPayout.updateMany).mockResolvedValue({ count: 1 });
+    });
+
+    it('should record who approved a payout', async () => {
+      vi.mocked(prisma.seasonPayout.findUnique).mockResolvedValue(payout());
+
+      await updatePayoutStatus('p1', { status: 'APPROVED' }, 'admin-1', at);
+
+      expect(prisma.seasonPayout.updateMany).toHaveBeenCalledWith({
+        where: { id: 'p1', status: 'CALCULATED' },
+        data: { status: 'APPROVED', approvedAt: at, approvedBy: 'admin-1' },
+      });
+    });
+
+    it('should require a transaction reference to mark a payout paid', async () => {
+      await expect(updatePayoutStatus('p1', { status: 'PAID', txReference: ' ' }, 'admin-1')).rejects.toBeInstanceOf(
+        BadRequestError
+      );
+    });
+
+    it('should not skip approval', async () => {
+      vi.mocked(prisma.seasonPayout.findUnique).mockResolvedValue(payout());
+
+      await expect(
+        updatePayoutStatus('p1', { status: 'PAID', txReference: 'abc' }, 'admin-1')
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should reject a payout changed by someone else meanwhile', async () => {
+      vi.mocked(prisma.seasonPayout.findUnique).mockResolvedValue(payout({ status: 'APPROVED' }));
+      vi.mocked(prisma.seasonPayout.updateMany).mockResolvedValue({ count: 0 });
+
+      await expect(
+        updatePayoutStatus('p1', { status: 'PAID', txReference: 'abc' }, 'admin-1')
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('payoutsToCsv', () => {
+    it('should write one line per payout with fixed-precision amounts', () => {
+      const csv = payoutsToCsv(season, [
+        payout({ status: 'PAID', paidAt: new Date('2026-02-01T00:00:00Z'), txReference: 'abc123' }),
+      ]);
+
+      expect(csv.split('\r\n')[1]).toBe(
+        'Season 2025,Ada,a1,OVERALL,,1,60,0.60000000,60000.00,PAID,,2026-02-01T00:00:00.000Z,abc123'
+      );
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Payout Service - The prize payout ledger
+ *
+ * Payouts are calculated from a season's archived final standings (see
+ * ./calculation) and then approved and marked paid by admins. Calculation
+ * can be rerun (e.g. after a late donation grows the pool) until the first
+ * payout is approved; from then on the ledger only moves forward.
+ *
+ * ## Usage
+ * ```typescript
+ * import { calculateSeasonPayouts, updatePayoutStatus } from '@/lib/payouts';
+ *
+ * const payouts = await calculateSeasonPayouts(seasonId);
+ * await updatePayoutStatus(payouts[0].id, { status: 'APPROVED' }, adminUserId);
+ * await updatePayoutStatus(payouts[0].id, { status: 'PAID', txReference: txid }, adminUserId);
+ * ```
+ *
+ * @module lib/payouts/payout-service
+ */
+
+import type { Season, SeasonPayout } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/api-utils';
+import { toCsv } from '@/lib/csv';
+import { calculatePayouts, canAdvancePayout, isPayoutStatus, type PayoutStatus } from './calculation';
+
+const log = domainLoggers.payouts;
+
+const PAYOUT_ORDER = [{ category: 'desc' as const }, { division: 'asc' as const }, { place: 'asc' as const }];
+
+export interface PayoutStatusUpdate {
+  status: PayoutStatus;
+  /** Transaction id or bank reference; required when marking paid */
+  txReference?: string;
+}
+
+/**
+ * (Re)calculate a season's payouts from its final standings
+ *
+ * @throws NotFoundError if the season doesn't exist
+ * @throws ConflictError if the season has no archive yet or a payout was already approved
+ */
+export async function calculateSeasonPayouts(seasonId: string): Promise<SeasonPayout[]> {
+  const payouts = await prisma.$transaction(async (tx) => {
+    const season = await tx.season.findUnique({ where: { id: seasonId } });
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+    if (!season.archivedAt) {
+      throw new ConflictError(`${season.name} has no final standings yet; complete it first`);
+    }
+
+    const settled = await tx.seasonPayout.count({ where: { seasonId, status: { not: 'CALCULATED' } } });
+    if (settled > 0) {
+      throw new ConflictError(`${season.name} has approved payouts; they can no longer be recalculated`);
+    }
+
+    const standings = await tx.seasonFinalStanding.findMany({ where: { seasonId } });
+
+    await tx.seasonPayout.deleteMany({ where: { seasonId } });
+    await tx.seasonPayout.createMany({
+      data: calculatePayouts(season, standings).map((payout) => ({ ...payout, seasonId })),
+    });
+
+    return tx.seasonPayout.findMany({ where: { seasonId }, orderBy: PAYOUT_ORDER });
+  });
+
+  log.info('Season payouts calculated', { seasonId, count: payouts.length });
+  return payouts;
+}
+
+/**
+ * A season's payouts, overall prizes first
+ */
+export async function listSeasonPayouts(seasonId: string): Promise<SeasonPayout[]> {
+  return prisma.seasonPayout.findMany({ where: { seasonId }, orderBy: PAYOUT_ORDER });
+}
+
+/**
+ * Move a payout one step along the ledger
+ *
+ * @param adminUserId - Recorded as the approver or payer
+ * @throws BadRequestError for an unknown status or a paid payout without a reference
+ * @throws NotFoundError if the payout doesn't exist
+ * @throws ConflictError if the move isn't the next step (or the payout changed meanwhile)
+ */
+export async function updatePayoutStatus(
+  payoutId: string,
+  update: PayoutStatusUpdate,
+  adminUserId: string,
+  at: Date = new Date()
+): Promise<SeasonPayout> {
+  if (!isPayoutStatus(update.status)) {
+    throw new BadRequestError('status must be APPROVED or PAID');
+  }
+  const txReference = update.txReference?.trim();
+  if (update.status === 'PAID' && !txReference) {
+    throw new BadRequestError('txReference is required to mark a payout paid');
+  }
+
+  const payout = await prisma.seasonPayout.findUnique({ where: { id: payoutId } });
+  if (!payout) {
+    throw new NotFoundError('Payout not found');
+  }
+
+  const from = payout.status;
+  if (!isPayoutStatus(from) || !canAdvancePayout(from, update.status)) {
+    throw new ConflictError(`Payout cannot move from ${from} to ${update.status}`);
+  }
+
+  const data =
+    update.status === 'APPROVED'
+      ? { status: update.status, approvedAt: at, approvedBy: adminUserId }
+      : { status: update.status, paidAt: at, paidBy: adminUserId, txReference };
+
+  // Only apply if nobody else moved the payout since it was read
+  const { count } = await prisma.seasonPayout.updateMany({ where: { id: payoutId, status: from }, data });
+  if (count === 0) {
+    throw new ConflictError('Payout was updated by someone else; reload and try again');
+  }
+
+  log.info('Payout status changed', { payoutId, seasonId: payout.seasonId, from, to: update.status });
+  return prisma.seasonPayout.findUniqueOrThrow({ where: { id: payoutId } });
+}
+
+/**
+ * The treasurer's CSV of a season's payouts
+ */
+export function payoutsToCsv(season: Pick<Season, 'name'>, payouts: SeasonPayout[]): string {
+  return toCsv(
+    [
+      'Season',
+      'Athlete',
+      'Athlete ID',
+      'Category',
+      'Division',
+      'Place',
+      'Share %',
+      'Amount BTC',
+      'Amount USD',
+      'Status',
+      'Approved At',
+      'Paid At',
+      'Tx Reference',
+    ],
+    payouts.map((payout) => [
+      season.name,
+      payout.displayName,
+      payout.athleteId,
+      payout.category,
+      payout.division,
+      payout.place,
+      Number(payout.sharePct.toFixed(4)),
+      payout.amountBTC.toFixed(8),
+      payout.amountUSD.toFixed(2),
+      payout.status,
+      payout.approvedAt,
+      payout.paidAt,
+      payout.txReference,
+    ])
+  );
+}
@@ -3,6 +3,7 @@ import {
   calculatePhenoAge,
   calculateAgeReduction,
   calculatePaceOfAging,
+  calculateChronologicalAge,
   validateBiomarkers,
   calculateZScore,
   BIOMARKER_RANGES,
@@ -161,6 +162,20 @@ describe('PhenoAge Calculator', () => {
     });
   });
 
+  describe('calculateChronologicalAge', () => {
+    it('should return fractional years at the given date', () => {
+      const birthDate = new Date('1985-07-01T00:00:00Z');
+      const result = calculateChronologicalAge(birthDate, new Date('2025-01-01T00:00:00Z'));
+      expect(result).toBeCloseTo(39.5, 1);
+    });
+
+    it('should return whole years on the birthday', () => {
+      const birthDate = new Date('1985-03-10T00:00:00Z');
+      const result = calculateChronologicalAge(birthDate, new Date('2025-03-10T00:00:00Z'));
+      expect(result).toBeCloseTo(40, 2);
+    });
+  });
+
   describe('validateBiomarkers', () => {
     it('should validate correct biomarker values', () => {
       const result = validateBiomarkers(healthyInput);
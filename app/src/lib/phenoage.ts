@@ -14,13 +14,15 @@
  * and healthspan." Aging (2018). https://doi.org/10.18632/aging.101414
  *
  * ## Extension Points
- * - Add new biomarkers: Extend BiomarkerInput interface and BIOMARKER_RANGES
- * - Alternative algorithms: Create parallel functions (e.g., calculateDunedinPACE)
- * - Unit conversions: Add to unit-converter.ts for non-standard lab formats
+ * - Add new biomarkers: Add to the catalog in lib/biomarkers
+ * - Alternative algorithms: Register a BiologicalAgeAlgorithm in lib/biological-age
+ * - Unit conversions: Add to the biomarker's catalog conversions
  *
  * @module lib/phenoage
  */
 
+import { getBiomarker, type BiomarkerKey } from './biomarkers/catalog';
+
 export interface BiomarkerInput {
   albumin: number;        // g/dL (3.5-5.0)
   creatinine: number;     // mg/dL (0.6-1.2)
@@ -42,22 +44,32 @@ export interface BiomarkerRanges {
   name: string;
 }
 
-export const BIOMARKER_RANGES: Record<keyof Omit<BiomarkerInput, 'chronologicalAge'>, BiomarkerRanges> = {
-  albumin: { min: 2.0, max: 6.0, optimal: { min: 3.5, max: 5.0 }, unit: 'g/dL', name: 'Albumin' },
-  creatinine: { min: 0.3, max: 3.0, optimal: { min: 0.6, max: 1.2 }, unit: 'mg/dL', name: 'Creatinine' },
-  glucose: { min: 40, max: 300, optimal: { min: 70, max: 100 }, unit: 'mg/dL', name: 'Glucose' },
-  crp: { min: 0, max: 50, optimal: { min: 0, max: 3.0 }, unit: 'mg/L', name: 'C-Reactive Protein' },
-  lymphocytePercent: { min: 5, max: 60, optimal: { min: 20, max: 40 }, unit: '%', name: 'Lymphocyte %' },
-  mcv: { min: 60, max: 120, optimal: { min: 80, max: 100 }, unit: 'fL', name: 'Mean Corpuscular Volume' },
-  rdw: { min: 10, max: 25, optimal: { min: 11.5, max: 14.5 }, unit: '%', name: 'Red Cell Distribution Width' },
-  alp: { min: 20, max: 300, optimal: { min: 44, max: 147 }, unit: 'U/L', name: 'Alkaline Phosphatase' },
-  wbc: { min: 2, max: 20, optimal: { min: 4.5, max: 11.0 }, unit: 'K/uL', name: 'White Blood Cell Count' },
-};
+export type PhenoAgeBiomarkerKey = keyof Omit<BiomarkerInput, 'chronologicalAge'>;
+
+/** The 9 Levine biomarkers, inputs of the default ranking algorithm */
+export const PHENOAGE_BIOMARKER_KEYS: PhenoAgeBiomarkerKey[] = [
+  'albumin', 'creatinine', 'glucose', 'crp',
+  'lymphocytePercent', 'mcv', 'rdw', 'alp', 'wbc',
+];
 
 /**
- * Calculate PhenoAge from biomarkers using the Levine et al. formula
+ * Get ranges for a catalog biomarker
  */
-export function calculatePhenoAge(input: BiomarkerInput): number {
+export function getBiomarkerRanges(key: BiomarkerKey): BiomarkerRanges {
+  const { min, max, optimal, unit, name } = getBiomarker(key);
+  return { min, max, optimal, unit, name };
+}
+
+// Ranges of the PhenoAge inputs, from the biomarker catalog
+export const BIOMARKER_RANGES = Object.fromEntries(
+  PHENOAGE_BIOMARKER_KEYS.map((key) => [key, getBiomarkerRanges(key)])
+) as Record<PhenoAgeBiomarkerKey, BiomarkerRanges>;
+
+/**
+ * Calculate the Levine et al. mortality linear predictor (xb)
+ * Exposed so algorithm variants can add or replace terms.
+ */
+export function calculateLevineLinearPredictor(input: BiomarkerInput): number {
   const {
     albumin,
     creatinine,
@@ -74,9 +86,8 @@ export function calculatePhenoAge(input: BiomarkerInput): number {
   // Log-transform CRP (as per the original formula)
   const logCrp = Math.log(crp + 0.1); // Add small value to avoid log(0)
 
-  // Linear predictor (xb) calculation
   // Coefficients from Levine et al. 2018
-  const xb =
+  return (
     -19.9067 +
     -0.0336 * albumin +
     0.0095 * creatinine +
@@ -87,8 +98,14 @@ export function calculatePhenoAge(input: BiomarkerInput): number {
     0.3306 * rdw +
     0.00188 * alp +
     0.0554 * wbc +
-    0.0804 * chronologicalAge;
+    0.0804 * chronologicalAge
+  );
+}
 
+/**
+ * Convert a mortality linear predictor into PhenoAge
+ */
+export function phenoAgeFromLinearPredictor(xb: number, chronologicalAge: number): number {
   // Mortality score
   const mortalityScore = 1 - Math.exp(-Math.exp(xb) * (Math.exp(120 * 0.0076927) - 1) / 0.0076927);
 
@@ -114,6 +131,24 @@ export function calculatePhenoAge(input: BiomarkerInput): number {
   return Math.round(clampedPhenoAge * 10) / 10; // Round to 1 decimal
 }
 
+/**
+ * Calculate PhenoAge from biomarkers using the Levine et al. formula
+ */
+export function calculatePhenoAge(input: BiomarkerInput): number {
+  return phenoAgeFromLinearPredictor(calculateLevineLinearPredictor(input), input.chronologicalAge);
+}
+
+// Mean Gregorian year, so fractional ages don't drift across leap years
+const MS_PER_YEAR = 365.2425 * 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate exact chronological age in fractional years at a given date
+ * (e.g. the blood draw date). Birth dates are stored as UTC midnight.
+ */
+export function calculateChronologicalAge(birthDate: Date, at: Date = new Date()): number {
+  return (at.getTime() - birthDate.getTime()) / MS_PER_YEAR;
+}
+
 /**
  * Calculate age reduction (positive = younger, negative = older)
  */
@@ -156,11 +191,8 @@ export function validateBiomarkers(input: Partial<BiomarkerInput>): { valid: boo
 /**
  * Calculate z-score for a biomarker relative to optimal range
  */
-export function calculateZScore(
-  value: number,
-  biomarker: keyof Omit<BiomarkerInput, 'chronologicalAge'>
-): number {
-  const range = BIOMARKER_RANGES[biomarker];
+export function calculateZScore(value: number, biomarker: BiomarkerKey): number {
+  const range = getBiomarkerRanges(biomarker);
   const optimalMid = (range.optimal.min + range.optimal.max) / 2;
   const optimalRange = range.optimal.max - range.optimal.min;
 
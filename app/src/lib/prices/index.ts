@@ -0,0 +1,36 @@
+/**
+ * Prices Module
+ *
+ * BTC/USD rates at a point in time, from a local store of historical rates
+ * (importable from CSV) backed by a pluggable price provider. Donations are
+ * valued at the rate when they confirm; the live prize pool at the latest.
+ *
+ * @example
+ * ```typescript
+ * import { getBtcUsdRate, importBtcUsdRates } from '@/lib/prices';
+ *
+ * await importBtcUsdRates(csv);
+ * const rate = await getBtcUsdRate(new Date('2025-06-01'));
+ * ```
+ *
+ * @module lib/prices
+ */
+
+export { getBtcUsdRate, importBtcUsdRates, valuePrizePool } from './price-service';
+export type { RateLookupOptions } from './price-service';
+export {
+  DEFAULT_PRICE_PROVIDER,
+  FixedPriceProvider,
+  registerPriceProvider,
+  getPriceProvider,
+} from './providers';
+export {
+  CURRENT_RATE_MAX_AGE_MS,
+  HISTORICAL_RATE_MAX_AGE_MS,
+  parseRateCsv,
+  getRateMaxAge,
+  isRateFresh,
+  valueInUsd,
+} from './rates';
+export type { RateRecord } from './rates';
+export type { PriceProvider, PriceQuote } from './types';
@@ -0,0 +1,174 @@
+/**
+ * Price Service Tests
+ * Tests the stored-rate lookup, provider fallback, CSV import and pool valuation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { BadRequestError } from '@/lib/api-utils';
+import { FixedPriceProvider } from './providers';
+import { getBtcUsdRate, importBtcUsdRates, valuePrizePool } from './price-service';
+import type { PriceProvider } from './types';
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    btcUsdRate: { findFirst: vi.fn(), createMany: vi.fn() },
+    donation: { findFirst: vi.fn() },
+  },
+}));
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+function stored(timestamp: string, usd = 60000) {
+  return { id: 'r1', timestamp: new Date(timestamp), usd, source: 'csv', createdAt: now };
+}
+
+/** A market data provider whose quotes apply at `quotedAt` */
+function market(usd: number, quotedAt: Date): PriceProvider {
+  return { name: 'market', cacheable: true, getRate: async () => ({ usd, at: quotedAt, source: 'market' }) };
+}
+
+describe('getBtcUsdRate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.btcUsdRate.createMany).mockResolvedValue({ count: 1 });
+  });
+
+  it('uses a fresh stored rate without asking the provider', async () => {
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(stored('2026-03-01T11:55:00Z'));
+    const provider = { name: 'spy', cacheable: true, getRate: vi.fn() };
+
+    const rate = await getBtcUsdRate(now, { provider, now });
+
+    expect(rate).toEqual({ usd: 60000, at: new Date('2026-03-01T11:55:00Z'), source: 'csv' });
+    expect(prisma.btcUsdRate.findFirst).toHaveBeenCalledWith({
+      where: { timestamp: { lte: now } },
+      orderBy: { timestamp: 'desc' },
+    });
+    expect(provider.getRate).not.toHaveBeenCalled();
+  });
+
+  it('uses a daily stored rate for past times', async () => {
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(stored('2026-02-01T00:00:00Z'));
+    const provider = { name: 'spy', cacheable: true, getRate: vi.fn() };
+
+    const rate = await getBtcUsdRate(new Date('2026-02-01T18:00:00Z'), { provider, now });
+
+    expect(rate?.usd).toBe(60000);
+    expect(provider.getRate).not.toHaveBeenCalled();
+  });
+
+  it('fetches and stores a rate when the stored one is stale', async () => {
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(stored('2026-03-01T10:00:00Z'));
+    const quotedAt = new Date('2026-03-01T11:59:00Z');
+
+    const rate = await getBtcUsdRate(now, { provider: market(65000, quotedAt), now });
+
+    expect(rate).toEqual({ usd: 65000, at: quotedAt, source: 'market' });
+    expect(prisma.btcUsdRate.createMany).toHaveBeenCalledWith({
+      data: [{ timestamp: quotedAt, usd: 65000, source: 'market' }],
+      skipDuplicates: true,
+    });
+  });
+
+  it('uses but never stores the configured fixed rate', async () => {
+    const at = new Date('2025-06-01T00:00:00Z');
+
+    const rate = await getBtcUsdRate(at, { provider: new FixedPriceProvider(65000), now });
+
+    expect(rate?.usd).toBe(65000);
+    expect(prisma.btcUsdRate.createMany).not.toHaveBeenCalled();
+  });
+
+  it('does not store quotes that are not fresh for the time asked', async () => {
+    const at = new Date('2025-06-01T00:00:00Z');
+    const monthOld = market(65000, new Date('2025-05-01T00:00:00Z'));
+
+    const rate = await getBtcUsdRate(at, { provider: monthOld, now });
+
+    expect(rate?.usd).toBe(65000);
+    expect(prisma.btcUsdRate.createMany).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the latest stored rate when the provider has none', async () => {
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(stored('2026-02-20T00:00:00Z'));
+
+    const rate = await getBtcUsdRate(now, { provider: new FixedPriceProvider(null), now });
+
+    expect(rate).toEqual({ usd: 60000, at: new Date('2026-02-20T00:00:00Z'), source: 'csv' });
+    expect(prisma.btcUsdRate.createMany).not.toHaveBeenCalled();
+  });
+
+  it('falls back when the provider fails', async () => {
+    const provider: PriceProvider = { name: 'down', cacheable: true, getRate: () => Promise.reject(new Error('timeout')) };
+
+    expect(await getBtcUsdRate(now, { provider, now })).toBeNull();
+  });
+
+  it('falls back to stored rates when PRICE_PROVIDER is unknown', async () => {
+    vi.stubEnv('PRICE_PROVIDER', 'nope');
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(stored('2026-02-20T00:00:00Z'));
+
+    const rate = await getBtcUsdRate(now, { now });
+    vi.unstubAllEnvs();
+
+    expect(rate?.usd).toBe(60000);
+  });
+});
+
+describe('importBtcUsdRates', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores the rates, keeping existing ones', async () => {
+    vi.mocked(prisma.btcUsdRate.createMany).mockResolvedValue({ count: 1 });
+
+    const result = await importBtcUsdRates('date,close\n2025-01-01,93429.2\n2025-01-02,94419.76');
+
+    expect(prisma.btcUsdRate.createMany).toHaveBeenCalledWith({
+      data: [
+        { timestamp: new Date('2025-01-01T00:00:00Z'), usd: 93429.2, source: 'csv' },
+        { timestamp: new Date('2025-01-02T00:00:00Z'), usd: 94419.76, source: 'csv' },
+      ],
+      skipDuplicates: true,
+    });
+    expect(result).toEqual({ rows: 2, imported: 1 });
+  });
+
+  it('rejects unreadable CSVs', async () => {
+    await expect(importBtcUsdRates('date,close\nyesterday,1')).rejects.toThrow(BadRequestError);
+    expect(prisma.btcUsdRate.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('valuePrizePool', () => {
+  const season = { id: 's1', prizePoolBTC: 0.5, prizePoolUSD: 25000 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(stored('2026-03-01T11:58:00Z', 70000));
+    vi.mocked(prisma.donation.findFirst).mockResolvedValue({ confirmedAt: new Date('2026-02-10T09:00:00Z') } as never);
+  });
+
+  it('values the pool as donated and at the current rate', async () => {
+    const valuation = await valuePrizePool(season, { provider: new FixedPriceProvider(null), now });
+
+    expect(valuation).toEqual({
+      btc: 0.5,
+      atDonation: { usd: 25000, lastConfirmedAt: '2026-02-10T09:00:00.000Z' },
+      current: { usd: 35000, rate: 70000, rateAt: '2026-03-01T11:58:00.000Z', source: 'csv' },
+    });
+  });
+
+  it('has no current value without any rate', async () => {
+    vi.mocked(prisma.btcUsdRate.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.donation.findFirst).mockResolvedValue(null);
+
+    const valuation = await valuePrizePool(season, { provider: new FixedPriceProvider(null), now });
+
+    expect(valuation.current).toBeNull();
+    expect(valuation.atDonation.lastConfirmedAt).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Price Service - BTC/USD rates at a point in time
+ *
+ * Rates come from the local store of historical rates (BtcUsdRate) first.
+ * When the store has nothing recent enough for the time asked (see
+ * getRateMaxAge), the configured price provider is asked. Answers from
+ * cacheable providers that apply close enough to the time asked are stored,
+ * so each rate is fetched once. If the provider has nothing either,
+ * the latest stored rate before that time is used, however old; callers show
+ * its timestamp.
+ *
+ * Donations are valued at the time their confirming block was mined, not when
+ * a poll first saw them confirmed: polls can lag by hours, and the block time
+ * is when the donor paid. A donation's confirmedAt is used only when the chain
+ * adapter reports no block time (see lib/donations/donation-service).
+ *
+ * ## Usage
+ * ```typescript
+ * import { getBtcUsdRate, valuePrizePool } from '@/lib/prices';
+ *
+ * const rate = await getBtcUsdRate(donation.blockTime ?? donation.confirmedAt);
+ * const valuation = await valuePrizePool(season);
+ * ```
+ *
+ * @module lib/prices/price-service
+ */
+
+import type { Season } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { BadRequestError } from '@/lib/api-utils';
+import type { PrizePoolValuation } from '@/types';
+import { getPriceProvider } from './providers';
+import { getRateMaxAge, isRateFresh, parseRateCsv, valueInUsd, type RateRecord } from './rates';
+import type { PriceProvider, PriceQuote } from './types';
+
+const log = domainLoggers.prices;
+
+export interface RateLookupOptions {
+  provider?: PriceProvider;
+  now?: Date;
+}
+
+/**
+ * The provider to ask: the one passed, else the configured one; null (and
+ * stored rates only) when PRICE_PROVIDER names no registered provider
+ */
+function resolveProvider(provider: PriceProvider | undefined): PriceProvider | null {
+  if (provider) return provider;
+  try {
+    return getPriceProvider();
+  } catch (error) {
+    log.warn('Price provider unavailable', { error: String(error) });
+    return null;
+  }
+}
+
+/**
+ * Ask the provider, storing what it returns; null on no rate or failure
+ *
+ * Only cacheable quotes fresh for `at` are stored: a configured rate, or a
+ * provider's latest rate returned for an older time, isn't history.
+ */
+async function fetchAndStoreRate(provider: PriceProvider, at: Date, now: Date): Promise<PriceQuote | null> {
+  let quote: PriceQuote | null;
+  try {
+    quote = await provider.getRate(at);
+  } catch (error) {
+    log.warn('Price provider failed', { provider: provider.name, at: at.toISOString(), error: String(error) });
+    return null;
+  }
+  if (!quote || !provider.cacheable || !isRateFresh(quote.at, at, getRateMaxAge(at, now))) {
+    return quote;
+  }
+
+  await prisma.btcUsdRate.createMany({
+    data: [{ timestamp: quote.at, usd: quote.usd, source: quote.source }],
+    skipDuplicates: true,
+  });
+  return quote;
+}
+
+/**
+ * The BTC/USD rate in force at `at`, or null if none is known
+ */
+export async function getBtcUsdRate(at: Date, options: RateLookupOptions = {}): Promise<PriceQuote | null> {
+  const now = options.now ?? new Date();
+  const stored = await prisma.btcUsdRate.findFirst({
+    where: { timestamp: { lte: at } },
+    orderBy: { timestamp: 'desc' },
+  });
+  const storedQuote = stored ? { usd: stored.usd, at: stored.timestamp, source: stored.source } : null;
+
+  if (storedQuote && isRateFresh(storedQuote.at, at, getRateMaxAge(at, now))) {
+    return storedQuote;
+  }
+
+  const provider = resolveProvider(options.provider);
+  const fetched = provider ? await fetchAndStoreRate(provider, at, now) : null;
+  return fetched ?? storedQuote;
+}
+
+/**
+ * Store historical rates from a CSV (see ./rates for the format); rates
+ * already stored for the same timestamp are kept
+ *
+ * @throws BadRequestError if the CSV can't be read
+ */
+export async function importBtcUsdRates(
+  csv: string,
+  source = 'csv'
+): Promise<{ rows: number; imported: number }> {
+  let records: RateRecord[];
+  try {
+    records = parseRateCsv(csv);
+  } catch (error) {
+    throw new BadRequestError(error instanceof Error ? error.message : 'Invalid rate CSV');
+  }
+  if (records.length === 0) return { rows: 0, imported: 0 };
+
+  const { count } = await prisma.btcUsdRate.createMany({
+    data: records.map((record) => ({ ...record, source })),
+    skipDuplicates: true,
+  });
+
+  log.info('BTC/USD rates imported', { source, rows: records.length, imported: count });
+  return { rows: records.length, imported: count };
+}
+
+/**
+ * A season's prize pool as donated and at the current rate
+ */
+export async function valuePrizePool(
+  season: Pick<Season, 'id' | 'prizePoolBTC' | 'prizePoolUSD'>,
+  options: RateLookupOptions = {}
+): Promise<PrizePoolValuation> {
+  const now = options.now ?? new Date();
+  const [rate, lastDonation] = await Promise.all([
+    getBtcUsdRate(now, { ...options, now }),
+    prisma.donation.findFirst({
+      where: { seasonId: season.id, status: 'CONFIRMED' },
+      orderBy: { confirmedAt: 'desc' },
+      select: { confirmedAt: true },
+    }),
+  ]);
+
+  return {
+    btc: season.prizePoolBTC,
+    atDonation: {
+      usd: season.prizePoolUSD,
+      lastConfirmedAt: lastDonation?.confirmedAt?.toISOString() ?? null,
+    },
+    current: rate
+      ? {
+          usd: valueInUsd(season.prizePoolBTC, rate.usd),
+          rate: rate.usd,
+          rateAt: rate.at.toISOString(),
+          source: rate.source,
+        }
+      : null,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Price Providers - Where BTC/USD rates come from
+ *
+ * Built in:
+ * - `fixed`: the rate in BTC_USD_RATE, for local setups and tests; none when unset
+ *
+ * PRICE_PROVIDER selects the provider (default `fixed`). With no provider
+ * rate, valuations use the stored historical rates alone (see
+ * importBtcUsdRates).
+ *
+ * ## Extension Points
+ * - **Market data**: Implement `PriceProvider` (e.g. against an exchange or
+ *   price index API) and call registerPriceProvider()
+ *
+ * @module lib/prices/providers
+ */
+
+import type { PriceProvider, PriceQuote } from './types';
+
+export const DEFAULT_PRICE_PROVIDER = 'fixed';
+
+/**
+ * The same rate at every time
+ */
+export class FixedPriceProvider implements PriceProvider {
+  readonly name = 'fixed';
+  readonly cacheable = false;
+
+  constructor(private readonly usd: number | null) {}
+
+  async getRate(at: Date): Promise<PriceQuote | null> {
+    return this.usd ? { usd: this.usd, at, source: this.name } : null;
+  }
+}
+
+function envRate(): number | null {
+  const rate = Number(process.env.BTC_USD_RATE);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+const providers = new Map<string, () => PriceProvider>([
+  ['fixed', () => new FixedPriceProvider(envRate())],
+]);
+
+/**
+ * Register (or replace) a provider factory
+ */
+export function registerPriceProvider(name: string, factory: () => PriceProvider): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Create the configured provider (PRICE_PROVIDER, default `fixed`)
+ */
+export function getPriceProvider(name: string = process.env.PRICE_PROVIDER || DEFAULT_PRICE_PROVIDER): PriceProvider {
+  const factory = providers.get(name);
+  if (!factory) {
+    throw new Error(`Unknown price provider: ${name}`);
+  }
+  return factory();
+}
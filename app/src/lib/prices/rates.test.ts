@@ -0,0 +1,84 @@
+/**
+ * BTC/USD Rates Tests
+ * Tests CSV parsing, freshness and USD valuation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_RATE_MAX_AGE_MS,
+  HISTORICAL_RATE_MAX_AGE_MS,
+  getRateMaxAge,
+  isRateFresh,
+  parseRateCsv,
+  valueInUsd,
+} from './rates';
+
+describe('parseRateCsv', () => {
+  it('parses a daily export, oldest first', () => {
+    const csv = 'date,close\r\n2025-01-02,94419.76\r\n2025-01-01,93429.20\r\n';
+
+    expect(parseRateCsv(csv)).toEqual([
+      { timestamp: new Date('2025-01-01T00:00:00Z'), usd: 93429.2 },
+      { timestamp: new Date('2025-01-02T00:00:00Z'), usd: 94419.76 },
+    ]);
+  });
+
+  it('finds the columns by name in any order', () => {
+    const csv = 'source,USD,Timestamp\nx,"60000",2025-03-01T12:00:00\ny,61000,2025-03-01T13:00:00+01:00';
+
+    expect(parseRateCsv(csv)).toEqual([
+      { timestamp: new Date('2025-03-01T12:00:00Z'), usd: 60000 },
+      { timestamp: new Date('2025-03-01T12:00:00Z'), usd: 61000 },
+    ]);
+  });
+
+  it('reads Unix seconds', () => {
+    expect(parseRateCsv('timestamp,price\n1735689600,93429.2')).toEqual([
+      { timestamp: new Date('2025-01-01T00:00:00Z'), usd: 93429.2 },
+    ]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseRateCsv('\n\n')).toEqual([]);
+  });
+
+  it('requires time and rate columns', () => {
+    expect(() => parseRateCsv('day,value\n2025-01-01,1')).toThrow('CSV header needs a time column');
+  });
+
+  it('names the first unreadable line', () => {
+    expect(() => parseRateCsv('date,usd\n2025-01-01,1\n\nnot-a-date,2')).toThrow('Line 4: invalid time');
+    expect(() => parseRateCsv('date,usd\n2025-01-01,-5')).toThrow('Line 2: invalid rate');
+  });
+});
+
+describe('getRateMaxAge', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+
+  it('needs a fresh rate for the present', () => {
+    expect(getRateMaxAge(now, now)).toBe(CURRENT_RATE_MAX_AGE_MS);
+  });
+
+  it('accepts a daily rate for the past', () => {
+    expect(getRateMaxAge(new Date('2026-02-01T00:00:00Z'), now)).toBe(HISTORICAL_RATE_MAX_AGE_MS);
+  });
+});
+
+describe('isRateFresh', () => {
+  const at = new Date('2026-03-01T12:00:00Z');
+
+  it('accepts rates up to maxAge before the time', () => {
+    expect(isRateFresh(new Date('2026-03-01T11:50:00Z'), at, CURRENT_RATE_MAX_AGE_MS)).toBe(true);
+    expect(isRateFresh(new Date('2026-03-01T11:40:00Z'), at, CURRENT_RATE_MAX_AGE_MS)).toBe(false);
+  });
+
+  it('rejects rates from after the time', () => {
+    expect(isRateFresh(new Date('2026-03-01T12:01:00Z'), at, CURRENT_RATE_MAX_AGE_MS)).toBe(false);
+  });
+});
+
+describe('valueInUsd', () => {
+  it('values BTC to the cent', () => {
+    expect(valueInUsd(0.12345678, 60000)).toBe(7407.41);
+  });
+});
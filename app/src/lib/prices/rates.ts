@@ -0,0 +1,107 @@
+/**
+ * BTC/USD Rates - Parsing and applying historical rates
+ *
+ * ## CSV Format
+ * A header row naming a time column (`timestamp`, `date` or `time`) and a
+ * rate column (`usd`, `price` or `close`), e.g. a daily export:
+ *
+ * ```csv
+ * date,close
+ * 2025-01-01,93429.20
+ * 2025-01-02,94419.76
+ * ```
+ *
+ * Times are ISO dates or datetimes (read as UTC without a zone) or Unix
+ * seconds.
+ *
+ * ## Freshness
+ * A stored rate applies from its timestamp until a newer one. For times in
+ * the past a daily rate will do; for the present, rates older than
+ * CURRENT_RATE_MAX_AGE_MS are refreshed from the price provider first.
+ *
+ * @module lib/prices/rates
+ */
+
+export interface RateRecord {
+  timestamp: Date;
+  usd: number;
+}
+
+/** How old a stored rate may be when valuing at the current time */
+export const CURRENT_RATE_MAX_AGE_MS = 15 * 60 * 1000;
+
+/** How old a stored rate may be when valuing at a past time */
+export const HISTORICAL_RATE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const TIME_COLUMNS = ['timestamp', 'date', 'time'];
+const RATE_COLUMNS = ['usd', 'price', 'close'];
+
+function parseTimestamp(value: string): Date {
+  if (/^\d{9,10}$/.test(value)) return new Date(Number(value) * 1000);
+  if (/^\d{4}-\d{2}-\d{2}T[\d:.]+$/.test(value)) return new Date(`${value}Z`);
+  return new Date(value);
+}
+
+/**
+ * Parse a CSV of historical rates, oldest first
+ *
+ * @throws Error naming the first unreadable line
+ */
+export function parseRateCsv(text: string): RateRecord[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({
+      number: index + 1,
+      cells: line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, '')),
+    }))
+    .filter((line) => line.cells.some((cell) => cell !== ''));
+  if (lines.length === 0) return [];
+
+  const [header, ...rows] = lines;
+  const columns = header.cells.map((cell) => cell.toLowerCase());
+  const timeIndex = columns.findIndex((column) => TIME_COLUMNS.includes(column));
+  const rateIndex = columns.findIndex((column) => RATE_COLUMNS.includes(column));
+  if (timeIndex === -1 || rateIndex === -1) {
+    throw new Error(
+      `CSV header needs a time column (${TIME_COLUMNS.join('/')}) and a rate column (${RATE_COLUMNS.join('/')})`
+    );
+  }
+
+  const records = rows.map(({ number, cells }) => {
+    const timestamp = parseTimestamp(cells[timeIndex] ?? '');
+    const usd = Number(cells[rateIndex]);
+    if (Number.isNaN(timestamp.getTime())) {
+      throw new Error(`Line ${number}: invalid time "${cells[timeIndex] ?? ''}"`);
+    }
+    if (!Number.isFinite(usd) || usd <= 0) {
+      throw new Error(`Line ${number}: invalid rate "${cells[rateIndex] ?? ''}"`);
+    }
+    return { timestamp, usd };
+  });
+
+  return records.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * How old a stored rate may be to value an amount at `at`
+ */
+export function getRateMaxAge(at: Date, now: Date): number {
+  return now.getTime() - at.getTime() < CURRENT_RATE_MAX_AGE_MS
+    ? CURRENT_RATE_MAX_AGE_MS
+    : HISTORICAL_RATE_MAX_AGE_MS;
+}
+
+/**
+ * Whether a rate from `rateAt` is recent enough for `at`
+ */
+export function isRateFresh(rateAt: Date, at: Date, maxAgeMs: number): boolean {
+  const age = at.getTime() - rateAt.getTime();
+  return age >= 0 && age <= maxAgeMs;
+}
+
+/**
+ * USD value of a BTC amount, to the cent
+ */
+export function valueInUsd(btc: number, usdPerBtc: number): number {
+  return Math.round(btc * usdPerBtc * 100) / 100;
+}
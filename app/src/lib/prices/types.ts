@@ -0,0 +1,31 @@
+/**
+ * Prices - BTC/USD price provider contract
+ *
+ * A price provider reports the BTC/USD rate at a point in time. The price
+ * service asks it only when the local store of historical rates has nothing
+ * recent enough, and stores what it returns if the provider is cacheable.
+ *
+ * @module lib/prices/types
+ */
+
+/** A BTC/USD rate and when it applied */
+export interface PriceQuote {
+  /** USD per BTC */
+  usd: number;
+  /** When the rate applied; at or before the time asked for */
+  at: Date;
+  /** 'csv' or the provider name */
+  source: string;
+}
+
+export interface PriceProvider {
+  /** Provider id, e.g. 'fixed' */
+  readonly name: string;
+  /**
+   * Whether its quotes are market data worth keeping as historical rates;
+   * false for configured rates, which would otherwise pass for history
+   */
+  readonly cacheable: boolean;
+  /** The rate in force at `at`, or null if the provider has none */
+  getRate(at: Date): Promise<PriceQuote | null>;
+}
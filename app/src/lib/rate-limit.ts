@@ -117,6 +117,9 @@ export const rateLimiters = {
 
   /** Admin actions: 30 per minute */
   admin: (identifier: string) => checkRateLimit(`admin:${identifier}`, { limit: 30, windowSeconds: 60 }),
+
+  /** Data exports: 10 per minute (streams whole leagues) */
+  export: (identifier: string) => checkRateLimit(`export:${identifier}`, { limit: 10, windowSeconds: 60 }),
 };
 
 /**
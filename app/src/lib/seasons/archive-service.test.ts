@@ -0,0 +1,147 @@
+/**
+ * Season Archive Service Tests
+ * Tests that final standings are written once, only for completed seasons
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { ConflictError } from '@/lib/api-utils';
+import { archiveFinalStandings, getSeasonArchive } from './archive-service';
+
+const tx = {
+  season: { findUnique: vi.fn(), updateMany: vi.fn() },
+  leaderboardEntry: { findMany: vi.fn() },
+  leagueLeaderboardEntry: { findMany: vi.fn() },
+  seasonFinalStanding: { createMany: vi.fn() },
+  seasonFinalLeagueStanding: { createMany: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    season: { findUnique: vi.fn() },
+  },
+}));
+
+const completedSeason = {
+  id: 's1',
+  name: 'Season 2025',
+  slug: 'season-2025',
+  year: 2025,
+  status: 'COMPLETED',
+  startDate: new Date('2025-01-01T00:00:00Z'),
+  endDate: new Date('2025-12-31T00:00:00Z'),
+  completedAt: new Date('2026-01-02T00:00:00Z'),
+  archivedAt: null as Date | null,
+  prizePoolBTC: 1,
+  prizePoolUSD: 100000,
+  firstPlacePct: 60,
+  secondPlacePct: 25,
+  thirdPlacePct: 15,
+};
+
+describe('Season Archive Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (client: typeof tx) => unknown) =>
+      fn(tx)) as never);
+    tx.season.findUnique.mockResolvedValue(completedSeason);
+    tx.season.updateMany.mockResolvedValue({ count: 1 });
+    tx.leaderboardEntry.findMany.mockResolvedValue([
+      {
+        athleteId: 'a1',
+        rank: 1,
+        bestPhenoAge: 38,
+        bestAgeReduction: 7,
+        bestPaceOfAging: 0.8,
+        submissionCount: 2,
+        athlete: { displayName: 'Ada', slug: 'ada', division: 'WOMENS', generation: 'GENX' },
+      },
+    ]);
+    tx.leagueLeaderboardEntry.findMany.mockResolvedValue([]);
+  });
+
+  describe('archiveFinalStandings', () => {
+    it('should claim the season and write its standings with prizes', async () => {
+      const at = new Date('2026-01-02T00:00:00Z');
+
+      const result = await archiveFinalStandings('s1', at);
+
+      expect(result).toEqual({ archived: true, standings: 1, leagueStandings: 0 });
+      expect(tx.season.updateMany).toHaveBeenCalledWith({
+        where: { id: 's1', archivedAt: null },
+        data: { archivedAt: at },
+      });
+      expect(tx.seasonFinalStanding.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ seasonId: 's1', athleteId: 'a1', displayName: 'Ada', prizeBTC: 0.6 })],
+      });
+    });
+
+    it('should leave an existing archive untouched', async () => {
+      tx.season.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await archiveFinalStandings('s1');
+
+      expect(result.archived).toBe(false);
+      expect(tx.leaderboardEntry.findMany).not.toHaveBeenCalled();
+      expect(tx.seasonFinalStanding.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should refuse seasons that are not completed', async () => {
+      tx.season.findUnique.mockResolvedValue({ ...completedSeason, status: 'LOCKED' });
+
+      await expect(archiveFinalStandings('s1')).rejects.toBeInstanceOf(ConflictError);
+      expect(tx.season.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSeasonArchive', () => {
+    it('should return null for a season without an archive', async () => {
+      vi.mocked(prisma.season.findUnique).mockResolvedValue({
+        ...completedSeason,
+        finalStandings: [],
+        finalLeagueStandings: [],
+      } as never);
+
+      expect(await getSeasonArchive('season-2025')).toBeNull();
+    });
+
+    it('should hide the profile link of a deleted athlete', async () => {
+      vi.mocked(prisma.season.findUnique).mockResolvedValue({
+        ...completedSeason,
+        archivedAt: new Date('2026-01-02T00:00:00Z'),
+        finalStandings: [
+          {
+            athleteId: null,
+            displayName: 'Ada',
+            athleteSlug: 'ada',
+            division: 'WOMENS',
+            generation: 'GENX',
+            rank: 1,
+            divisionRank: 1,
+            generationRank: 1,
+            bestPhenoAge: 38,
+            bestAgeReduction: 7,
+            bestPaceOfAging: 0.8,
+            submissionCount: 2,
+            prizePct: 60,
+            prizeBTC: 0.6,
+            prizeUSD: 60000,
+          },
+        ],
+        finalLeagueStandings: [],
+      } as never);
+
+      const archive = await getSeasonArchive('season-2025');
+
+      expect(archive?.podium[0].athlete).toEqual({
+        displayName: 'Ada',
+        slug: null,
+        division: 'WOMENS',
+        generation: 'GENX',
+      });
+      expect(archive?.podium[0].prize).toEqual({ pct: 60, btc: 0.6, usd: 60000 });
+      expect(archive?.divisions.WOMENS).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Season Archive Service - Writes and reads the final standings of completed seasons
+ *
+ * archiveFinalStandings runs as a COMPLETED transition hook. It claims the
+ * season by setting archivedAt and writes every row in the same transaction,
+ * so a season is archived exactly once even if the hook is rerun. Public
+ * archive pages read only the frozen rows, never the live leaderboard.
+ *
+ * ## Usage
+ * ```typescript
+ * import { archiveFinalStandings, getSeasonArchive } from '@/lib/seasons';
+ *
+ * await archiveFinalStandings(seasonId);
+ * const archive = await getSeasonArchive('season-2025');
+ * ```
+ *
+ * @module lib/seasons/archive-service
+ */
+
+import type { Season, SeasonFinalLeagueStanding, SeasonFinalStanding } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { ConflictError, NotFoundError } from '@/lib/api-utils';
+import { getScoringStrategy } from '@/lib/league-scoring/strategies';
+import type {
+  LeagueType,
+  SeasonArchiveData,
+  SeasonArchiveLeagueStanding,
+  SeasonArchiveStanding,
+  SeasonArchiveSummary,
+} from '@/types';
+import { PODIUM_SIZE, buildFinalLeagueStandings, buildFinalStandings, getGroupPodiums } from './final-standings';
+
+const log = domainLoggers.seasons;
+
+export interface ArchiveResult {
+  /** False when the season had already been archived */
+  archived: boolean;
+  standings: number;
+  leagueStandings: number;
+}
+
+/**
+ * Freeze a completed season's leaderboards into its final standings
+ *
+ * @throws NotFoundError if the season doesn't exist
+ * @throws ConflictError if the season isn't completed
+ */
+export async function archiveFinalStandings(seasonId: string, at: Date = new Date()): Promise<ArchiveResult> {
+  const result = await prisma.$transaction(async (tx) => {
+    const season = await tx.season.findUnique({ where: { id: seasonId } });
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+    if (season.status !== 'COMPLETED') {
+      throw new ConflictError(`${season.name} must be completed before its standings are archived`);
+    }
+
+    // Claim the season; a concurrent or repeated run finds it already archived
+    const claimed = await tx.season.updateMany({
+      where: { id: seasonId, archivedAt: null },
+      data: { archivedAt: at },
+    });
+    if (claimed.count === 0) {
+      return { archived: false, standings: 0, leagueStandings: 0 };
+    }
+
+    const [entries, leagueEntries] = await Promise.all([
+      tx.leaderboardEntry.findMany({
+        where: { seasonId },
+        include: { athlete: { select: { displayName: true, slug: true, division: true, generation: true } } },
+      }),
+      tx.leagueLeaderboardEntry.findMany({
+        where: { seasonId },
+        include: { league: { select: { name: true, slug: true, type: true } } },
+      }),
+    ]);
+
+    const standings = buildFinalStandings(season, entries);
+    const leagueStandings = buildFinalLeagueStandings(leagueEntries);
+
+    await tx.seasonFinalStanding.createMany({
+      data: standings.map((standing) => ({ ...standing, seasonId })),
+    });
+    await tx.seasonFinalLeagueStanding.createMany({
+      data: leagueStandings.map((standing) => ({ ...standing, seasonId })),
+    });
+
+    return { archived: true, standings: standings.length, leagueStandings: leagueStandings.length };
+  });
+
+  if (result.archived) {
+    log.info('Season final standings archived', { seasonId, ...result });
+  }
+  return result;
+}
+
+function toArchiveStanding(standing: SeasonFinalStanding): SeasonArchiveStanding {
+  return {
+    rank: standing.rank,
+    divisionRank: standing.divisionRank,
+    generationRank: standing.generationRank,
+    athlete: {
+      displayName: standing.displayName,
+      slug: standing.athleteId ? standing.athleteSlug : null,
+      division: standing.division,
+      generation: standing.generation,
+    },
+    bestPhenoAge: standing.bestPhenoAge,
+    bestAgeReduction: standing.bestAgeReduction,
+    bestPaceOfAging: standing.bestPaceOfAging,
+    submissionCount: standing.submissionCount,
+    prize: standing.prizePct > 0
+      ? { pct: standing.prizePct, btc: standing.prizeBTC, usd: standing.prizeUSD }
+      : null,
+  };
+}
+
+function toArchiveLeagueStanding(standing: SeasonFinalLeagueStanding): SeasonArchiveLeagueStanding {
+  return {
+    rank: standing.rank,
+    league: {
+      name: standing.leagueName,
+      slug: standing.leagueId ? standing.leagueSlug : null,
+      type: standing.leagueType as LeagueType,
+    },
+    scoringStrategy: getScoringStrategy(standing.scoringStrategy).id,
+    score: standing.score,
+    totalMembers: standing.totalMembers,
+    activeMembers: standing.activeMembers,
+    bestIndividual: standing.bestIndividual,
+  };
+}
+
+function toArchiveSummary(
+  season: Season,
+  champion: SeasonFinalStanding | null,
+  athleteCount: number
+): SeasonArchiveSummary {
+  return {
+    name: season.name,
+    slug: season.slug,
+    year: season.year,
+    startDate: season.startDate.toISOString(),
+    endDate: season.endDate.toISOString(),
+    completedAt: season.completedAt?.toISOString() ?? null,
+    prizePoolBTC: season.prizePoolBTC,
+    prizePoolUSD: season.prizePoolUSD,
+    athleteCount,
+    champion: champion ? toArchiveStanding(champion) : null,
+  };
+}
+
+/**
+ * Archived seasons with their champions, newest first
+ */
+export async function listSeasonArchives(): Promise<SeasonArchiveSummary[]> {
+  const seasons = await prisma.season.findMany({
+    where: { status: 'COMPLETED', archivedAt: { not: null } },
+    orderBy: { startDate: 'desc' },
+    include: {
+      finalStandings: { where: { rank: 1 } },
+      _count: { select: { finalStandings: true } },
+    },
+  });
+
+  return seasons.map((season) =>
+    toArchiveSummary(season, season.finalStandings[0] ?? null, season._count.finalStandings)
+  );
+}
+
+/**
+ * A completed season's frozen standings, or null if it has no archive
+ */
+export async function getSeasonArchive(slug: string): Promise<SeasonArchiveData | null> {
+  const season = await prisma.season.findUnique({
+    where: { slug },
+    include: {
+      finalStandings: { orderBy: { rank: 'asc' } },
+      finalLeagueStandings: { orderBy: { rank: 'asc' } },
+    },
+  });
+  if (!season || season.status !== 'COMPLETED' || !season.archivedAt) {
+    return null;
+  }
+
+  const standings = season.finalStandings.map(toArchiveStanding);
+  const podiumsBy = (group: 'division' | 'generation') =>
+    Object.fromEntries(
+      Object.entries(getGroupPodiums(season.finalStandings, group)).map(([key, podium]) => [
+        key,
+        podium.map(toArchiveStanding),
+      ])
+    );
+
+  return {
+    season: {
+      ...toArchiveSummary(season, season.finalStandings[0] ?? null, standings.length),
+      distribution: {
+        first: season.firstPlacePct,
+        second: season.secondPlacePct,
+        third: season.thirdPlacePct,
+      },
+    },
+    podium: standings.slice(0, PODIUM_SIZE),
+    divisions: podiumsBy('division'),
+    generations: podiumsBy('generation'),
+    standings,
+    leagues: season.finalLeagueStandings.map(toArchiveLeagueStanding),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Final Standings Tests
+ * Tests prize allocation and tie-splitting, group ranks and podiums of the season archive
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  allocatePrize,
+  buildFinalLeagueStandings,
+  buildFinalStandings,
+  getGroupPodiums,
+  getPlacePct,
+  splitTiedShares,
+  type FinalLeaderboardEntry,
+  type SeasonPrizeTerms,
+} from './final-standings';
+
+const terms: SeasonPrizeTerms = {
+  prizePoolBTC: 1,
+  prizePoolUSD: 100000,
+  firstPlacePct: 60,
+  secondPlacePct: 25,
+  thirdPlacePct: 15,
+};
+
+function entry(athleteId: string, rank: number, division = 'MENS', generation = 'GENX'): FinalLeaderboardEntry {
+  return {
+    athleteId,
+    rank,
+    bestPhenoAge: 40 + rank,
+    bestAgeReduction: 10 - rank,
+    bestPaceOfAging: 0.8,
+    submissionCount: 2,
+    athlete: { displayName: `Athlete ${athleteId}`, slug: `athlete-${athleteId}`, division, generation },
+  };
+}
+
+describe('Final Standings', () => {
+  describe('allocatePrize', () => {
+    it('should give a share of both pools', () => {
+      expect(allocatePrize(terms, 25)).toEqual({ prizePct: 25, prizeBTC: 0.25, prizeUSD: 25000 });
+    });
+
+    it('should round down to the satoshi and the cent', () => {
+      const prize = allocatePrize({ ...terms, prizePoolBTC: 0.00000001, prizePoolUSD: 0.05 }, 60);
+
+      expect(prize.prizeBTC).toBe(0);
+      expect(prize.prizeUSD).toBe(0.03);
+    });
+  });
+
+  describe('splitTiedShares', () => {
+    const placePct = (place: number) => getPlacePct(terms, place);
+
+    it('should give each place its percentage', () => {
+      const results = [1, 2, 3, 4].map((n) => ({ bestAgeReduction: 10 - n, bestPaceOfAging: 0.8 }));
+
+      expect(splitTiedShares(results, placePct)).toEqual([60, 25, 15, 0]);
+    });
+
+    it('should split the places of tied results evenly', () => {
+      const results = [
+        { bestAgeReduction: 9, bestPaceOfAging: 0.8 },
+        { bestAgeReduction: 8, bestPaceOfAging: 0.8 },
+        { bestAgeReduction: 8, bestPaceOfAging: 0.8 },
+        { bestAgeReduction: 7, bestPaceOfAging: 0.8 },
+      ];
+
+      expect(splitTiedShares(results, placePct)).toEqual([60, 20, 20, 0]);
+    });
+
+    it('should split a tie across the edge of the podium', () => {
+      const results = [
+        { bestAgeReduction: 9, bestPaceOfAging: 0.8 },
+        { bestAgeReduction: 8, bestPaceOfAging: 0.8 },
+        { bestAgeReduction: 7, bestPaceOfAging: 0.8 },
+        { bestAgeReduction: 7, bestPaceOfAging: 0.8 },
+      ];
+
+      expect(splitTiedShares(results, placePct)).toEqual([60, 25, 7.5, 7.5]);
+    });
+
+    it('should not treat a different pace of aging as a tie', () => {
+      const results = [
+        { bestAgeReduction: 9, bestPaceOfAging: 0.7 },
+        { bestAgeReduction: 9, bestPaceOfAging: 0.8 },
+      ];
+
+      expect(splitTiedShares(results, placePct)).toEqual([60, 25]);
+    });
+  });
+
+  describe('buildFinalStandings', () => {
+    it('should copy the athlete details and rank within groups in overall order', () => {
+      const standings = buildFinalStandings(terms, [
+        entry('c', 3, 'WOMENS', 'GENX'),
+        entry('a', 1, 'MENS', 'GENX'),
+        entry('b', 2, 'WOMENS', 'MILLENNIAL'),
+      ]);
+
+      expect(standings.map((s) => [s.athleteSlug, s.rank, s.divisionRank, s.generationRank])).toEqual([
+        ['athlete-a', 1, 1, 1],
+        ['athlete-b', 2, 1, 1],
+        ['athlete-c', 3, 2, 2],
+      ]);
+      expect(standings[0]).toMatchObject({ displayName: 'Athlete a', division: 'MENS', prizePct: 60 });
+    });
+  });
+
+  describe('buildFinalLeagueStandings', () => {
+    it('should record each league score with its strategy', () => {
+      const standings = buildFinalLeagueStandings([
+        {
+          leagueId: 'l1',
+          rank: 1,
+          scoringStrategy: 'MEDIAN',
+          avgAgeReduction: 4.2,
+          totalMembers: 12,
+          activeMembers: 8,
+          bestIndividual: 9.1,
+          league: { name: 'Clinic', slug: 'clinic', type: 'CLINIC' },
+        },
+      ]);
+
+      expect(standings).toEqual([
+        {
+          leagueId: 'l1',
+          leagueName: 'Clinic',
+          leagueSlug: 'clinic',
+          leagueType: 'CLINIC',
+          rank: 1,
+          scoringStrategy: 'MEDIAN',
+          score: 4.2,
+          totalMembers: 12,
+          activeMembers: 8,
+          bestIndividual: 9.1,
+        },
+      ]);
+    });
+  });
+
+  describe('getGroupPodiums', () => {
+    it('should keep the top three of each division', () => {
+      const standings = buildFinalStandings(terms, [
+        entry('a', 1, 'MENS'),
+        entry('b', 2, 'MENS'),
+        entry('c', 3, 'WOMENS'),
+        entry('d', 4, 'MENS'),
+        entry('e', 5, 'MENS'),
+      ]);
+
+      const podiums = getGroupPodiums(standings, 'division');
+
+      expect(podiums.MENS.map((s) => s.athleteId)).toEqual(['a', 'b', 'd']);
+      expect(podiums.WOMENS.map((s) => s.athleteId)).toEqual(['c']);
+    });
+  });
+});
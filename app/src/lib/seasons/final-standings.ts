@@ -0,0 +1,244 @@
+/**
+ * Final Standings - Frozen results of a completed season
+ *
+ * When a season completes, its leaderboard is copied into the final standings
+ * archive together with the athlete and league details of that moment and the
+ * prize each podium place receives. The archive is written once and never
+ * recomputed, so later profile edits, reviews or deletions don't change past
+ * podiums.
+ *
+ * ## Prize Allocation
+ * Places 1-3 receive firstPlacePct / secondPlacePct / thirdPlacePct of the
+ * prize pool. Athletes level on merit (same age reduction and pace of aging)
+ * still get distinct ranks from the leaderboard's tie-breakers, but share the
+ * prizes of the places they occupy equally. BTC is rounded down to the
+ * satoshi and USD to the cent, so the allocations never add up to more than
+ * the pool.
+ *
+ * @module lib/seasons/final-standings
+ */
+
+/** Prize pool and distribution of a season */
+export interface SeasonPrizeTerms {
+  prizePoolBTC: number;
+  prizePoolUSD: number;
+  firstPlacePct: number;
+  secondPlacePct: number;
+  thirdPlacePct: number;
+}
+
+export interface PrizeAllocation {
+  prizePct: number;
+  prizeBTC: number;
+  prizeUSD: number;
+}
+
+/** Result fields that decide whether two athletes tie for prize money */
+export interface TiedResult {
+  bestAgeReduction: number;
+  bestPaceOfAging: number;
+}
+
+/** Leaderboard entry with the athlete as of completion */
+export interface FinalLeaderboardEntry {
+  athleteId: string;
+  rank: number;
+  bestPhenoAge: number;
+  bestAgeReduction: number;
+  bestPaceOfAging: number;
+  submissionCount: number;
+  athlete: {
+    displayName: string;
+    slug: string;
+    division: string;
+    generation: string;
+  };
+}
+
+/** League leaderboard entry with the league as of completion */
+export interface FinalLeagueLeaderboardEntry {
+  leagueId: string;
+  rank: number;
+  scoringStrategy: string;
+  avgAgeReduction: number;
+  totalMembers: number;
+  activeMembers: number;
+  bestIndividual: number;
+  league: {
+    name: string;
+    slug: string;
+    type: string;
+  };
+}
+
+export interface FinalStanding extends PrizeAllocation {
+  athleteId: string | null;
+  displayName: string;
+  athleteSlug: string;
+  division: string;
+  generation: string;
+  rank: number;
+  divisionRank: number;
+  generationRank: number;
+  bestPhenoAge: number;
+  bestAgeReduction: number;
+  bestPaceOfAging: number;
+  submissionCount: number;
+}
+
+export interface FinalLeagueStanding {
+  leagueId: string | null;
+  leagueName: string;
+  leagueSlug: string;
+  leagueType: string;
+  rank: number;
+  scoringStrategy: string;
+  score: number;
+  totalMembers: number;
+  activeMembers: number;
+  bestIndividual: number;
+}
+
+const SATOSHIS_PER_BTC = 100_000_000;
+const CENTS_PER_USD = 100;
+
+/** Places shown on division and generation podiums */
+export const PODIUM_SIZE = 3;
+
+function roundDown(value: number, unitsPerWhole: number): number {
+  return Math.floor(value * unitsPerWhole) / unitsPerWhole;
+}
+
+/**
+ * Whether two results are level on merit; leaderboard tie-breakers past
+ * these (submission time, athlete id) don't decide prize money
+ */
+export function isTiedResult(a: TiedResult, b: TiedResult): boolean {
+  return a.bestAgeReduction === b.bestAgeReduction && a.bestPaceOfAging === b.bestPaceOfAging;
+}
+
+/**
+ * Percentage of the pool for an overall place; zero outside the podium
+ */
+export function getPlacePct(terms: SeasonPrizeTerms, place: number): number {
+  return [terms.firstPlacePct, terms.secondPlacePct, terms.thirdPlacePct][place - 1] ?? 0;
+}
+
+/**
+ * Each result's share of the pool, with tied results splitting the
+ * percentages of the places they occupy evenly
+ *
+ * @param ordered - Results in finishing order
+ * @param placePct - Percentage for a place (1-based)
+ * @returns Shares in the same order
+ */
+export function splitTiedShares(ordered: TiedResult[], placePct: (place: number) => number): number[] {
+  const shares: number[] = [];
+
+  let start = 0;
+  while (start < ordered.length) {
+    let end = start + 1;
+    while (end < ordered.length && isTiedResult(ordered[start], ordered[end])) end++;
+
+    let pct = 0;
+    for (let place = start + 1; place <= end; place++) pct += placePct(place);
+    for (let i = start; i < end; i++) shares.push(pct / (end - start));
+
+    start = end;
+  }
+
+  return shares;
+}
+
+/**
+ * BTC and USD amounts for a share of the prize pool
+ */
+export function allocatePrize(terms: SeasonPrizeTerms, prizePct: number): PrizeAllocation {
+  return {
+    prizePct,
+    prizeBTC: roundDown((terms.prizePoolBTC * prizePct) / 100, SATOSHIS_PER_BTC),
+    prizeUSD: roundDown((terms.prizePoolUSD * prizePct) / 100, CENTS_PER_USD),
+  };
+}
+
+/**
+ * Final individual standings with division/generation ranks and prizes
+ *
+ * Group ranks follow the overall order within the division or generation the
+ * athlete is in at completion, so they stay consistent with the copied details.
+ */
+export function buildFinalStandings(
+  terms: SeasonPrizeTerms,
+  entries: FinalLeaderboardEntry[]
+): FinalStanding[] {
+  const divisionCounts = new Map<string, number>();
+  const generationCounts = new Map<string, number>();
+  const ordered = [...entries].sort((a, b) => a.rank - b.rank);
+  const shares = splitTiedShares(ordered, (place) => getPlacePct(terms, place));
+
+  return ordered.map((entry, index) => {
+    const { division, generation } = entry.athlete;
+    const divisionRank = (divisionCounts.get(division) ?? 0) + 1;
+    const generationRank = (generationCounts.get(generation) ?? 0) + 1;
+    divisionCounts.set(division, divisionRank);
+    generationCounts.set(generation, generationRank);
+
+    return {
+      athleteId: entry.athleteId,
+      displayName: entry.athlete.displayName,
+      athleteSlug: entry.athlete.slug,
+      division,
+      generation,
+      rank: entry.rank,
+      divisionRank,
+      generationRank,
+      bestPhenoAge: entry.bestPhenoAge,
+      bestAgeReduction: entry.bestAgeReduction,
+      bestPaceOfAging: entry.bestPaceOfAging,
+      submissionCount: entry.submissionCount,
+      ...allocatePrize(terms, shares[index]),
+    };
+  });
+}
+
+/**
+ * Final league standings in rank order
+ */
+export function buildFinalLeagueStandings(entries: FinalLeagueLeaderboardEntry[]): FinalLeagueStanding[] {
+  return [...entries]
+    .sort((a, b) => a.rank - b.rank)
+    .map((entry) => ({
+      leagueId: entry.leagueId,
+      leagueName: entry.league.name,
+      leagueSlug: entry.league.slug,
+      leagueType: entry.league.type,
+      rank: entry.rank,
+      scoringStrategy: entry.scoringStrategy,
+      score: entry.avgAgeReduction,
+      totalMembers: entry.totalMembers,
+      activeMembers: entry.activeMembers,
+      bestIndividual: entry.bestIndividual,
+    }));
+}
+
+/**
+ * Top finishers of each division or generation, keyed by group
+ */
+export function getGroupPodiums<T extends Pick<FinalStanding, 'division' | 'generation' | 'divisionRank' | 'generationRank'>>(
+  standings: T[],
+  group: 'division' | 'generation'
+): Record<string, T[]> {
+  const rankField = group === 'division' ? 'divisionRank' : 'generationRank';
+  const podiums: Record<string, T[]> = {};
+
+  for (const standing of standings) {
+    if (standing[rankField] > PODIUM_SIZE) continue;
+    const key = standing[group];
+    podiums[key] = [...(podiums[key] ?? []), standing];
+  }
+  for (const podium of Object.values(podiums)) {
+    podium.sort((a, b) => a[rankField] - b[rankField]);
+  }
+
+  return podiums;
+}
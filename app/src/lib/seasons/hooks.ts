@@ -0,0 +1,165 @@
+/**
+ * Season Transition Hooks - Work done when a season enters a status
+ *
+ * Hooks run in order after the status change is committed. A failing hook is
+ * logged and reported in the transition result; it doesn't undo the
+ * transition or stop the hooks after it, and every hook is safe to rerun.
+ *
+ * ## Extension Points
+ * - **New hooks**: Append to the entered status in SEASON_TRANSITION_HOOKS
+ *
+ * @module lib/seasons/hooks
+ */
+
+import type { Season } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { createEvent } from '@/lib/api-utils';
+import { badgeService } from '@/lib/badges';
+import { recomputeSeasonLeaderboard, takeRankSnapshots } from '@/lib/leaderboard';
+import { refreshAllLeagueScores } from '@/lib/league-scoring';
+import { archiveFinalStandings } from './archive-service';
+import type { SeasonLifecycleStatus } from './lifecycle';
+
+/** Athletes whose badges are rechecked when a season completes */
+const FINAL_BADGE_CHECK_COUNT = 10;
+
+export interface SeasonHookContext {
+  /** The season after the transition */
+  season: Season;
+  from: SeasonLifecycleStatus;
+  to: SeasonLifecycleStatus;
+}
+
+export interface SeasonTransitionHook {
+  name: string;
+  run: (context: SeasonHookContext) => Promise<void>;
+}
+
+export interface SeasonHookResult {
+  name: string;
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Announce that the season accepts submissions
+ */
+const openSubmissions: SeasonTransitionHook = {
+  name: 'open-submissions',
+  run: async ({ season }) => {
+    await createEvent({
+      type: 'SEASON_STARTED',
+      seasonId: season.id,
+      message: `${season.name} is open for submissions`,
+      data: { submissionDeadline: season.submissionDeadline.toISOString() },
+    });
+  },
+};
+
+/**
+ * Settle standings as of the deadline; only reviews can move them from here
+ */
+const freezeLeaderboards: SeasonTransitionHook = {
+  name: 'freeze-leaderboards',
+  run: async ({ season }) => {
+    await recomputeSeasonLeaderboard(season.id);
+    await refreshAllLeagueScores(season.id);
+    await takeRankSnapshots(season.id, 'EVENT');
+    await createEvent({
+      type: 'SEASON_LOCKED',
+      seasonId: season.id,
+      message: `Submissions for ${season.name} are closed; final results follow review`,
+    });
+  },
+};
+
+/**
+ * Final standings from the approved submissions as they stand now
+ */
+const finalizeStandings: SeasonTransitionHook = {
+  name: 'finalize-standings',
+  run: async ({ season }) => {
+    await recomputeSeasonLeaderboard(season.id);
+    await refreshAllLeagueScores(season.id);
+  },
+};
+
+/**
+ * Freeze the final standings and prize allocations (written once)
+ */
+const archiveStandings: SeasonTransitionHook = {
+  name: 'archive-final-standings',
+  run: async ({ season }) => {
+    await archiveFinalStandings(season.id);
+  },
+};
+
+/**
+ * Competition badges (podium, top 10, ...) for the final top athletes
+ */
+const awardFinalBadges: SeasonTransitionHook = {
+  name: 'final-badge-awards',
+  run: async ({ season }) => {
+    const finalRankings = await prisma.leaderboardEntry.findMany({
+      where: { seasonId: season.id },
+      orderBy: { rank: 'asc' },
+      take: FINAL_BADGE_CHECK_COUNT,
+      select: { athleteId: true },
+    });
+
+    const results = await Promise.allSettled(
+      finalRankings.map((entry) => badgeService.checkAndAwardBadges(entry.athleteId))
+    );
+    const failed = results.filter((result) => result.status === 'rejected').length;
+    if (failed > 0) {
+      throw new Error(`Badge check failed for ${failed} of ${finalRankings.length} athletes`);
+    }
+  },
+};
+
+/**
+ * Keep the final ranks in the rank history
+ */
+const archiveSnapshots: SeasonTransitionHook = {
+  name: 'archive-snapshots',
+  run: async ({ season }) => {
+    await takeRankSnapshots(season.id, 'EVENT');
+  },
+};
+
+/**
+ * Announce the final podium
+ */
+const announceResults: SeasonTransitionHook = {
+  name: 'announce-results',
+  run: async ({ season }) => {
+    const topThree = await prisma.leaderboardEntry.findMany({
+      where: { seasonId: season.id },
+      orderBy: { rank: 'asc' },
+      take: 3,
+      include: { athlete: { select: { displayName: true } } },
+    });
+
+    await createEvent({
+      type: 'SEASON_COMPLETED',
+      seasonId: season.id,
+      message: `${season.name} has been completed`,
+      data: {
+        topThree: topThree.map((entry) => ({
+          rank: entry.rank,
+          athleteId: entry.athleteId,
+          athleteName: entry.athlete.displayName,
+          ageReduction: entry.bestAgeReduction,
+        })),
+      },
+    });
+  },
+};
+
+/** Hooks by the status being entered, run in order */
+export const SEASON_TRANSITION_HOOKS: Record<SeasonLifecycleStatus, SeasonTransitionHook[]> = {
+  UPCOMING: [],
+  ACTIVE: [openSubmissions],
+  LOCKED: [freezeLeaderboards],
+  COMPLETED: [finalizeStandings, archiveStandings, awardFinalBadges, archiveSnapshots, announceResults],
+};
@@ -0,0 +1,60 @@
+/**
+ * Seasons Module
+ *
+ * Season lifecycle (UPCOMING → ACTIVE → LOCKED → COMPLETED), the transition
+ * schedule and hooks, season create/edit and the final standings archive.
+ *
+ * @example
+ * ```typescript
+ * import { getCurrentSeason, runScheduledTransitions } from '@/lib/seasons';
+ *
+ * const season = await getCurrentSeason();
+ * const { transitions, skipped } = await runScheduledTransitions();
+ * ```
+ *
+ * @module lib/seasons
+ */
+
+export {
+  getCurrentSeason,
+  parseSeasonInput,
+  createSeason,
+  updateSeason,
+  transitionSeason,
+  completeSeason,
+  runScheduledTransitions,
+} from './season-service';
+export type { SeasonInput, SeasonTransitionResult, ScheduledTransitionsResult } from './season-service';
+export { SEASON_TRANSITION_HOOKS } from './hooks';
+export type { SeasonHookContext, SeasonTransitionHook, SeasonHookResult } from './hooks';
+export {
+  SEASON_STATUSES,
+  CURRENT_SEASON_STATUSES,
+  isSeasonStatus,
+  getNextSeasonStatus,
+  canTransition,
+  getDueTransition,
+  validateSeasonDates,
+} from './lifecycle';
+export type { SeasonLifecycleStatus, ScheduledSeason } from './lifecycle';
+export { archiveFinalStandings, listSeasonArchives, getSeasonArchive } from './archive-service';
+export type { ArchiveResult } from './archive-service';
+export {
+  PODIUM_SIZE,
+  isTiedResult,
+  getPlacePct,
+  splitTiedShares,
+  allocatePrize,
+  buildFinalStandings,
+  buildFinalLeagueStandings,
+  getGroupPodiums,
+} from './final-standings';
+export type {
+  SeasonPrizeTerms,
+  PrizeAllocation,
+  TiedResult,
+  FinalLeaderboardEntry,
+  FinalLeagueLeaderboardEntry,
+  FinalStanding,
+  FinalLeagueStanding,
+} from './final-standings';
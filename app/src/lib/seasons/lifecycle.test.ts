@@ -0,0 +1,100 @@
+/**
+ * Season Lifecycle Tests
+ * Tests allowed transitions, the schedule and date validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canTransition,
+  getDueTransition,
+  getNextSeasonStatus,
+  isSeasonStatus,
+  validateSeasonDates,
+  type ScheduledSeason,
+} from './lifecycle';
+
+function season(status: string): ScheduledSeason {
+  return {
+    status,
+    startDate: new Date('2025-01-01T00:00:00Z'),
+    submissionDeadline: new Date('2025-11-30T00:00:00Z'),
+    endDate: new Date('2025-12-31T00:00:00Z'),
+  };
+}
+
+describe('Season Lifecycle', () => {
+  describe('canTransition', () => {
+    it('should only allow one step forward', () => {
+      expect(canTransition('UPCOMING', 'ACTIVE')).toBe(true);
+      expect(canTransition('ACTIVE', 'LOCKED')).toBe(true);
+      expect(canTransition('LOCKED', 'COMPLETED')).toBe(true);
+
+      expect(canTransition('UPCOMING', 'LOCKED')).toBe(false);
+      expect(canTransition('ACTIVE', 'COMPLETED')).toBe(false);
+      expect(canTransition('LOCKED', 'ACTIVE')).toBe(false);
+      expect(canTransition('COMPLETED', 'ACTIVE')).toBe(false);
+    });
+
+    it('should end at COMPLETED', () => {
+      expect(getNextSeasonStatus('COMPLETED')).toBeNull();
+    });
+  });
+
+  describe('isSeasonStatus', () => {
+    it('should accept the lifecycle statuses only', () => {
+      expect(isSeasonStatus('LOCKED')).toBe(true);
+      expect(isSeasonStatus('active')).toBe(false);
+      expect(isSeasonStatus(undefined)).toBe(false);
+    });
+  });
+
+  describe('getDueTransition', () => {
+    it('should open an upcoming season on its start date', () => {
+      expect(getDueTransition(season('UPCOMING'), new Date('2024-12-31T23:59:00Z'))).toBeNull();
+      expect(getDueTransition(season('UPCOMING'), new Date('2025-01-01T00:00:00Z'))).toBe('ACTIVE');
+    });
+
+    it('should lock an active season after the submission deadline', () => {
+      expect(getDueTransition(season('ACTIVE'), new Date('2025-11-30T00:00:00Z'))).toBeNull();
+      expect(getDueTransition(season('ACTIVE'), new Date('2025-11-30T00:01:00Z'))).toBe('LOCKED');
+    });
+
+    it('should complete a locked season after its end once review is done', () => {
+      const afterEnd = new Date('2026-01-01T00:00:00Z');
+
+      expect(getDueTransition(season('LOCKED'), new Date('2025-12-15T00:00:00Z'))).toBeNull();
+      expect(getDueTransition(season('LOCKED'), afterEnd, 2)).toBeNull();
+      expect(getDueTransition(season('LOCKED'), afterEnd, 0)).toBe('COMPLETED');
+    });
+
+    it('should never move a completed season', () => {
+      expect(getDueTransition(season('COMPLETED'), new Date('2030-01-01T00:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('validateSeasonDates', () => {
+    it('should accept start < deadline <= end', () => {
+      expect(validateSeasonDates(season('UPCOMING'))).toEqual([]);
+    });
+
+    it('should reject a deadline after the season end', () => {
+      expect(
+        validateSeasonDates({
+          startDate: new Date('2025-01-01T00:00:00Z'),
+          submissionDeadline: new Date('2026-01-15T00:00:00Z'),
+          endDate: new Date('2025-12-31T00:00:00Z'),
+        })
+      ).toEqual(['submissionDeadline must not be after endDate']);
+    });
+
+    it('should reject invalid dates', () => {
+      expect(
+        validateSeasonDates({
+          startDate: new Date('nope'),
+          submissionDeadline: new Date('2025-11-30T00:00:00Z'),
+          endDate: new Date('2025-12-31T00:00:00Z'),
+        })
+      ).toEqual(['startDate is not a valid date']);
+    });
+  });
+});
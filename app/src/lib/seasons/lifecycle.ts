@@ -0,0 +1,107 @@
+/**
+ * Season Lifecycle - Statuses, allowed transitions and the schedule
+ *
+ * A season moves one way through:
+ *
+ *   UPCOMING → ACTIVE → LOCKED → COMPLETED
+ *
+ * - UPCOMING: created, not open yet
+ * - ACTIVE: open for submissions (at most one season at a time)
+ * - LOCKED: submission deadline passed; pending submissions are still reviewed
+ * - COMPLETED: final standings, read-only
+ *
+ * ## Schedule
+ * - UPCOMING → ACTIVE once startDate is reached
+ * - ACTIVE → LOCKED once submissionDeadline has passed
+ * - LOCKED → COMPLETED once endDate has passed and no submission is pending
+ *
+ * @module lib/seasons/lifecycle
+ */
+
+export const SEASON_STATUSES = ['UPCOMING', 'ACTIVE', 'LOCKED', 'COMPLETED'] as const;
+
+export type SeasonLifecycleStatus = (typeof SEASON_STATUSES)[number];
+
+/** Statuses whose leaderboard is the one to show (ACTIVE, or LOCKED under review) */
+export const CURRENT_SEASON_STATUSES: SeasonLifecycleStatus[] = ['ACTIVE', 'LOCKED'];
+
+const NEXT_STATUS: Record<SeasonLifecycleStatus, SeasonLifecycleStatus | null> = {
+  UPCOMING: 'ACTIVE',
+  ACTIVE: 'LOCKED',
+  LOCKED: 'COMPLETED',
+  COMPLETED: null,
+};
+
+/** Season fields the schedule looks at */
+export interface ScheduledSeason {
+  status: string;
+  startDate: Date;
+  endDate: Date;
+  submissionDeadline: Date;
+}
+
+/**
+ * Check whether a value is a known season status
+ */
+export function isSeasonStatus(value: unknown): value is SeasonLifecycleStatus {
+  return typeof value === 'string' && (SEASON_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * The status a season moves to next, or null once completed
+ */
+export function getNextSeasonStatus(status: SeasonLifecycleStatus): SeasonLifecycleStatus | null {
+  return NEXT_STATUS[status];
+}
+
+/**
+ * Whether a season may move from `from` to `to` (one step forward only)
+ */
+export function canTransition(from: SeasonLifecycleStatus, to: SeasonLifecycleStatus): boolean {
+  return NEXT_STATUS[from] === to;
+}
+
+/**
+ * The transition the schedule calls for at `now`, or null if none is due
+ *
+ * @param pendingSubmissions - Submissions still awaiting review; a LOCKED
+ *   season is not completed while any remain
+ */
+export function getDueTransition(
+  season: ScheduledSeason,
+  now: Date,
+  pendingSubmissions = 0
+): SeasonLifecycleStatus | null {
+  switch (season.status) {
+    case 'UPCOMING':
+      return now >= season.startDate ? 'ACTIVE' : null;
+    case 'ACTIVE':
+      return now > season.submissionDeadline ? 'LOCKED' : null;
+    case 'LOCKED':
+      return now > season.endDate && pendingSubmissions === 0 ? 'COMPLETED' : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Problems with a season's dates; empty when they are consistent
+ */
+export function validateSeasonDates(dates: {
+  startDate: Date;
+  endDate: Date;
+  submissionDeadline: Date;
+}): string[] {
+  const errors: string[] = [];
+  const { startDate, endDate, submissionDeadline } = dates;
+
+  for (const field of ['startDate', 'endDate', 'submissionDeadline'] as const) {
+    if (Number.isNaN(dates[field].getTime())) errors.push(`${field} is not a valid date`);
+  }
+  if (errors.length > 0) return errors;
+
+  if (endDate <= startDate) errors.push('endDate must be after startDate');
+  if (submissionDeadline <= startDate) errors.push('submissionDeadline must be after startDate');
+  if (submissionDeadline > endDate) errors.push('submissionDeadline must not be after endDate');
+  return errors;
+}
@@ -0,0 +1,234 @@
+/**
+ * Season Service Tests
+ * Tests lifecycle enforcement, hooks, the scheduled runner and input parsing
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { ConflictError } from '@/lib/api-utils';
+import { SEASON_TRANSITION_HOOKS } from './hooks';
+import { completeSeason, parseSeasonInput, runScheduledTransitions, transitionSeason } from './season-service';
+
+const tx = {
+  $executeRaw: vi.fn(),
+  season: { findUnique: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+  biomarkerSubmission: { count: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    season: { findMany: vi.fn(), findUnique: vi.fn() },
+    biomarkerSubmission: { count: vi.fn() },
+  },
+}));
+
+vi.mock('./hooks', () => ({
+  SEASON_TRANSITION_HOOKS: { UPCOMING: [], ACTIVE: [], LOCKED: [], COMPLETED: [] },
+}));
+
+function season(id: string, status: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: `Season ${id}`,
+    status,
+    startDate: new Date('2025-01-01T00:00:00Z'),
+    submissionDeadline: new Date('2025-11-30T00:00:00Z'),
+    endDate: new Date('2025-12-31T00:00:00Z'),
+    rankingAlgorithmId: 'levine-phenoage',
+    _count: { submissions: 0 },
+    ...overrides,
+  };
+}
+
+describe('Season Service', () => {
+  const seasons = new Map<string, ReturnType<typeof season>>();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    seasons.clear();
+    SEASON_TRANSITION_HOOKS.ACTIVE = [];
+    SEASON_TRANSITION_HOOKS.LOCKED = [];
+    vi.mocked(prisma.$transaction).mockImplementation(((fn: (client: typeof tx) => unknown) =>
+      fn(tx)) as never);
+    tx.season.findUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+      Promise.resolve(seasons.get(where.id) ?? null)
+    );
+    tx.season.findFirst.mockImplementation(({ where }: { where: { status: string; id: { not: string } } }) =>
+      Promise.resolve(
+        [...seasons.values()].find((s) => s.status === where.status && s.id !== where.id.not) ?? null
+      )
+    );
+    tx.season.update.mockImplementation(({ where, data }: { where: { id: string }; data: object }) => {
+      const updated = { ...seasons.get(where.id)!, ...data };
+      seasons.set(where.id, updated);
+      return Promise.resolve(updated);
+    });
+    tx.biomarkerSubmission.count.mockResolvedValue(0);
+    vi.mocked(prisma.season.findUnique).mockImplementation((({ where }: { where: { id: string } }) =>
+      Promise.resolve(seasons.get(where.id) ?? null)) as never);
+    vi.mocked(prisma.biomarkerSubmission.count).mockResolvedValue(0);
+    vi.mocked(prisma.season.findMany).mockImplementation((() =>
+      Promise.resolve([...seasons.values()].filter((s) => s.status !== 'COMPLETED'))) as never);
+  });
+
+  describe('transitionSeason', () => {
+    it('should open a season, stamp it and run its hooks', async () => {
+      const hook = { name: 'open-submissions', run: vi.fn() };
+      SEASON_TRANSITION_HOOKS.ACTIVE = [hook];
+      seasons.set('s1', season('s1', 'UPCOMING'));
+      const at = new Date('2025-01-01T00:00:00Z');
+
+      const result = await transitionSeason('s1', 'ACTIVE', at);
+
+      expect(tx.$executeRaw).toHaveBeenCalled();
+      expect(tx.season.update).toHaveBeenCalledWith({
+        where: { id: 's1' },
+        data: { status: 'ACTIVE', startedAt: at },
+      });
+      expect(result.from).toBe('UPCOMING');
+      expect(hook.run).toHaveBeenCalledWith(expect.objectContaining({ from: 'UPCOMING', to: 'ACTIVE' }));
+      expect(result.hooks).toEqual([{ name: 'open-submissions', ok: true }]);
+    });
+
+    it('should refuse to skip a status', async () => {
+      seasons.set('s1', season('s1', 'UPCOMING'));
+
+      await expect(transitionSeason('s1', 'LOCKED')).rejects.toThrow(ConflictError);
+      expect(tx.season.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep at most one active season', async () => {
+      seasons.set('s1', season('s1', 'ACTIVE'));
+      seasons.set('s2', season('s2', 'UPCOMING'));
+
+      await expect(transitionSeason('s2', 'ACTIVE')).rejects.toThrow('Season s1 is still active');
+    });
+
+    it('should not complete a season with submissions pending review', async () => {
+      seasons.set('s1', season('s1', 'LOCKED'));
+      tx.biomarkerSubmission.count.mockResolvedValue(2);
+
+      await expect(transitionSeason('s1', 'COMPLETED')).rejects.toThrow('2 submissions still pending');
+    });
+
+    it('should report a failing hook without undoing the transition', async () => {
+      const next = { name: 'after', run: vi.fn() };
+      SEASON_TRANSITION_HOOKS.LOCKED = [
+        { name: 'freeze-leaderboards', run: vi.fn().mockRejectedValue(new Error('boom')) },
+        next,
+      ];
+      seasons.set('s1', season('s1', 'ACTIVE'));
+
+      const result = await transitionSeason('s1', 'LOCKED');
+
+      expect(seasons.get('s1')?.status).toBe('LOCKED');
+      expect(result.hooks).toEqual([
+        { name: 'freeze-leaderboards', ok: false, error: 'boom' },
+        { name: 'after', ok: true },
+      ]);
+      expect(next.run).toHaveBeenCalled();
+    });
+  });
+
+  describe('completeSeason', () => {
+    it('should lock an active season before completing it', async () => {
+      seasons.set('s1', season('s1', 'ACTIVE'));
+
+      const transitions = await completeSeason('s1');
+
+      expect(transitions.map((t) => t.to)).toEqual(['LOCKED', 'COMPLETED']);
+      expect(seasons.get('s1')?.status).toBe('COMPLETED');
+    });
+
+    it('should leave an active season open while submissions are pending', async () => {
+      seasons.set('s1', season('s1', 'ACTIVE'));
+      vi.mocked(prisma.biomarkerSubmission.count).mockResolvedValue(1);
+
+      await expect(completeSeason('s1')).rejects.toThrow('1 submissions still pending');
+      expect(tx.season.update).not.toHaveBeenCalled();
+      expect(seasons.get('s1')?.status).toBe('ACTIVE');
+    });
+  });
+
+  describe('runScheduledTransitions', () => {
+    it('should lock the old season before opening the next one', async () => {
+      seasons.set('old', season('old', 'ACTIVE'));
+      seasons.set(
+        'new',
+        season('new', 'UPCOMING', {
+          startDate: new Date('2025-12-01T00:00:00Z'),
+          submissionDeadline: new Date('2026-11-30T00:00:00Z'),
+          endDate: new Date('2026-12-31T00:00:00Z'),
+        })
+      );
+
+      const result = await runScheduledTransitions(new Date('2025-12-01T00:00:00Z'));
+
+      expect(result.transitions.map(({ season: s, to }) => [s.id, to])).toEqual([
+        ['old', 'LOCKED'],
+        ['new', 'ACTIVE'],
+      ]);
+      expect(result.skipped).toEqual([]);
+    });
+
+    it('should skip opening a season while another is still active', async () => {
+      seasons.set(
+        'current',
+        season('current', 'ACTIVE', { submissionDeadline: new Date('2026-06-30T00:00:00Z'), endDate: new Date('2026-12-31T00:00:00Z') })
+      );
+      seasons.set('next', season('next', 'UPCOMING'));
+
+      const result = await runScheduledTransitions(new Date('2025-12-01T00:00:00Z'));
+
+      expect(result.transitions).toEqual([]);
+      expect(result.skipped).toEqual([
+        expect.objectContaining({ seasonId: 'next', to: 'ACTIVE' }),
+      ]);
+    });
+
+    it('should change nothing when no transition is due', async () => {
+      seasons.set('s1', season('s1', 'ACTIVE'));
+
+      const result = await runScheduledTransitions(new Date('2025-06-01T00:00:00Z'));
+
+      expect(result).toEqual({ transitions: [], skipped: [] });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parseSeasonInput', () => {
+    it('should parse dates and numbers', () => {
+      const input = parseSeasonInput({
+        name: ' 2026 Season ',
+        year: 2026,
+        startDate: '2026-01-01',
+        endDate: '2026-12-31',
+        submissionDeadline: '2026-11-30',
+        prizePoolUSD: 5000,
+      });
+
+      expect(input.name).toBe('2026 Season');
+      expect(input.startDate?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+      expect(input.prizePoolUSD).toBe(5000);
+    });
+
+    it('should require the core fields when creating', () => {
+      expect(() => parseSeasonInput({ name: 'x' })).toThrow('Invalid season');
+      expect(() => parseSeasonInput({ name: 'x' }, true)).not.toThrow();
+    });
+
+    it('should reject malformed values and unknown algorithms', () => {
+      try {
+        parseSeasonInput({ startDate: 'soon', year: -1, rankingAlgorithmId: 'nope' }, true);
+        expect.unreachable();
+      } catch (error) {
+        expect((error as { details: string[] }).details).toEqual([
+          'startDate must be an ISO date',
+          'year must be a non-negative number',
+          'Unknown biological age algorithm: nope',
+        ]);
+      }
+    });
+  });
+});
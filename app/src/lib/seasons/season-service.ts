@@ -0,0 +1,404 @@
+/**
+ * Season Service - Creates, edits and moves seasons through their lifecycle
+ *
+ * Every status change goes through transitionSeason, which checks the move
+ * against the lifecycle (./lifecycle), keeps at most one season ACTIVE and
+ * then runs the hooks for the status entered (./hooks). Transitions take a
+ * database-wide advisory lock, so two admins (or an admin and the scheduler)
+ * can't both activate a season.
+ *
+ * ## Usage
+ * ```typescript
+ * import { runScheduledTransitions, transitionSeason } from '@/lib/seasons';
+ *
+ * // From the cron endpoint: apply every transition that is due
+ * const results = await runScheduledTransitions();
+ *
+ * // From the admin API: close submissions early
+ * await transitionSeason(seasonId, 'LOCKED');
+ *
+ * // ...or finish the season now
+ * await completeSeason(seasonId);
+ * ```
+ *
+ * @module lib/seasons/season-service
+ */
+
+import type { Prisma, Season } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '@/lib/api-utils';
+import { hasBiologicalAgeAlgorithm } from '@/lib/biological-age';
+import { SEASON_TRANSITION_HOOKS, type SeasonHookResult } from './hooks';
+import {
+  CURRENT_SEASON_STATUSES,
+  canTransition,
+  getDueTransition,
+  isSeasonStatus,
+  validateSeasonDates,
+  type SeasonLifecycleStatus,
+} from './lifecycle';
+
+const log = domainLoggers.seasons;
+
+// A season can be overdue for several steps (e.g. created after its deadline)
+const MAX_SCHEDULED_STEPS = 3;
+
+export interface SeasonTransitionResult {
+  season: Season;
+  from: SeasonLifecycleStatus;
+  to: SeasonLifecycleStatus;
+  hooks: SeasonHookResult[];
+}
+
+export interface ScheduledTransitionsResult {
+  transitions: SeasonTransitionResult[];
+  /** Due transitions that couldn't be applied, e.g. another season is still active */
+  skipped: Array<{ seasonId: string; to: SeasonLifecycleStatus; reason: string }>;
+}
+
+/** Editable season fields (status changes go through transitionSeason) */
+export interface SeasonInput {
+  name: string;
+  year: number;
+  slug: string;
+  startDate: Date;
+  endDate: Date;
+  submissionDeadline: Date;
+  prizePoolBTC: number;
+  prizePoolUSD: number;
+  prizeGoalBTC: number;
+  prizeGoalUSD: number;
+  bitcoinAddress: string | null;
+  firstPlacePct: number;
+  secondPlacePct: number;
+  thirdPlacePct: number;
+  divisionPrizePct: number;
+  maxDocumentGapDays: number;
+  rankingAlgorithmId: string;
+}
+
+// When the season entered each status
+const STATUS_TIMESTAMPS: Partial<Record<SeasonLifecycleStatus, 'startedAt' | 'lockedAt' | 'completedAt'>> = {
+  ACTIVE: 'startedAt',
+  LOCKED: 'lockedAt',
+  COMPLETED: 'completedAt',
+};
+
+const DATE_FIELDS = ['startDate', 'endDate', 'submissionDeadline'] as const;
+const NUMBER_FIELDS = [
+  'year',
+  'prizePoolBTC',
+  'prizePoolUSD',
+  'prizeGoalBTC',
+  'prizeGoalUSD',
+  'firstPlacePct',
+  'secondPlacePct',
+  'thirdPlacePct',
+  'divisionPrizePct',
+  'maxDocumentGapDays',
+] as const;
+const STRING_FIELDS = ['name', 'slug', 'rankingAlgorithmId'] as const;
+
+/**
+ * The season whose leaderboard is current: the active one, or the latest
+ * locked one while its results are under review
+ */
+export async function getCurrentSeason(): Promise<Season | null> {
+  return prisma.season.findFirst({
+    where: { status: { in: CURRENT_SEASON_STATUSES } },
+    orderBy: { startDate: 'desc' },
+  });
+}
+
+/**
+ * Parse a season create/edit request body
+ *
+ * @param partial - Edits: only the fields present are returned
+ * @throws BadRequestError for a malformed field
+ */
+export function parseSeasonInput(body: unknown, partial = false): Partial<SeasonInput> {
+  if (typeof body !== 'object' || body === null) {
+    throw new BadRequestError('Request body must be a JSON object');
+  }
+
+  const raw = body as Record<string, unknown>;
+  const input: Partial<SeasonInput> = {};
+  const errors: string[] = [];
+
+  for (const field of DATE_FIELDS) {
+    if (raw[field] === undefined) continue;
+    const date = typeof raw[field] === 'string' ? new Date(raw[field]) : null;
+    if (!date || Number.isNaN(date.getTime())) errors.push(`${field} must be an ISO date`);
+    else input[field] = date;
+  }
+
+  for (const field of NUMBER_FIELDS) {
+    if (raw[field] === undefined) continue;
+    const value = raw[field];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${field} must be a non-negative number`);
+    } else {
+      input[field] = value;
+    }
+  }
+
+  for (const field of STRING_FIELDS) {
+    if (raw[field] === undefined) continue;
+    const value = raw[field];
+    if (typeof value !== 'string' || value.trim() === '') errors.push(`${field} must be a non-empty string`);
+    else input[field] = value.trim();
+  }
+
+  if (raw.bitcoinAddress !== undefined) {
+    if (raw.bitcoinAddress !== null && typeof raw.bitcoinAddress !== 'string') {
+      errors.push('bitcoinAddress must be a string or null');
+    } else {
+      input.bitcoinAddress = raw.bitcoinAddress || null;
+    }
+  }
+
+  if (!partial) {
+    for (const field of ['name', 'year', ...DATE_FIELDS] as const) {
+      if (raw[field] === undefined) errors.push(`${field} is required`);
+    }
+  }
+
+  if (input.rankingAlgorithmId !== undefined && !hasBiologicalAgeAlgorithm(input.rankingAlgorithmId)) {
+    errors.push(`Unknown biological age algorithm: ${input.rankingAlgorithmId}`);
+  }
+
+  if (errors.length > 0) {
+    throw new BadRequestError('Invalid season', errors);
+  }
+
+  return input;
+}
+
+/**
+ * Check the fields a season would have after a create or edit
+ */
+function assertConsistentSeason(season: Pick<
+  SeasonInput,
+  | 'startDate'
+  | 'endDate'
+  | 'submissionDeadline'
+  | 'firstPlacePct'
+  | 'secondPlacePct'
+  | 'thirdPlacePct'
+  | 'divisionPrizePct'
+>): void {
+  const errors = validateSeasonDates(season);
+  const distributed =
+    season.firstPlacePct + season.secondPlacePct + season.thirdPlacePct + season.divisionPrizePct;
+  if (distributed !== 100) {
+    errors.push('Prize distribution percentages (podium and division prizes) must add up to 100');
+  }
+  if (errors.length > 0) {
+    throw new BadRequestError('Invalid season', errors);
+  }
+}
+
+/**
+ * Create a season; it starts UPCOMING and opens on schedule
+ */
+export async function createSeason(input: Partial<SeasonInput>): Promise<Season> {
+  const { name, year, startDate, endDate, submissionDeadline } = input;
+  if (!name || year === undefined || !startDate || !endDate || !submissionDeadline) {
+    throw new BadRequestError('name, year, startDate, endDate and submissionDeadline are required');
+  }
+
+  assertConsistentSeason({
+    startDate,
+    endDate,
+    submissionDeadline,
+    firstPlacePct: input.firstPlacePct ?? 60,
+    secondPlacePct: input.secondPlacePct ?? 25,
+    thirdPlacePct: input.thirdPlacePct ?? 15,
+    divisionPrizePct: input.divisionPrizePct ?? 0,
+  });
+
+  return prisma.season.create({
+    data: {
+      ...input,
+      name,
+      year,
+      startDate,
+      endDate,
+      submissionDeadline,
+      slug: input.slug ?? `season-${year}`,
+      status: 'UPCOMING',
+    },
+  });
+}
+
+/**
+ * Edit a season's details; completed seasons are read-only
+ */
+export async function updateSeason(seasonId: string, input: Partial<SeasonInput>): Promise<Season> {
+  const season = await prisma.season.findUnique({ where: { id: seasonId } });
+  if (!season) {
+    throw new NotFoundError('Season not found');
+  }
+  if (season.status === 'COMPLETED') {
+    throw new ConflictError('Completed seasons cannot be edited');
+  }
+  if (input.rankingAlgorithmId !== undefined && input.rankingAlgorithmId !== season.rankingAlgorithmId) {
+    throw new BadRequestError('Change the ranking algorithm through the season algorithm endpoint');
+  }
+
+  assertConsistentSeason({ ...season, ...input });
+
+  return prisma.season.update({ where: { id: seasonId }, data: input });
+}
+
+/**
+ * @throws ConflictError while the season has submissions pending review
+ */
+async function assertNothingPending(
+  client: Prisma.TransactionClient,
+  season: Pick<Season, 'id' | 'name'>
+): Promise<void> {
+  const pending = await client.biomarkerSubmission.count({ where: { seasonId: season.id, status: 'PENDING' } });
+  if (pending > 0) {
+    throw new ConflictError(`${season.name} has ${pending} submissions still pending review`);
+  }
+}
+
+/**
+ * Apply a status change inside the lifecycle lock
+ */
+async function applyTransition(
+  tx: Prisma.TransactionClient,
+  seasonId: string,
+  to: SeasonLifecycleStatus,
+  at: Date
+): Promise<{ season: Season; from: SeasonLifecycleStatus }> {
+  // One lifecycle change at a time across the whole database
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('season-lifecycle'))`;
+
+  const season = await tx.season.findUnique({ where: { id: seasonId } });
+  if (!season) {
+    throw new NotFoundError('Season not found');
+  }
+
+  const from = season.status;
+  if (!isSeasonStatus(from) || !canTransition(from, to)) {
+    throw new ConflictError(`${season.name} cannot move from ${from} to ${to}`);
+  }
+
+  if (to === 'ACTIVE') {
+    const active = await tx.season.findFirst({
+      where: { status: 'ACTIVE', id: { not: seasonId } },
+      select: { name: true },
+    });
+    if (active) {
+      throw new ConflictError(`${active.name} is still active; lock it before opening ${season.name}`);
+    }
+  }
+
+  if (to === 'COMPLETED') {
+    await assertNothingPending(tx, season);
+  }
+
+  const timestampField = STATUS_TIMESTAMPS[to];
+  const updated = await tx.season.update({
+    where: { id: seasonId },
+    data: { status: to, ...(timestampField ? { [timestampField]: at } : {}) },
+  });
+
+  return { season: updated, from };
+}
+
+/**
+ * Move a season to its next status and run that status's hooks
+ *
+ * @throws NotFoundError if the season doesn't exist
+ * @throws ConflictError if the move isn't allowed right now
+ */
+export async function transitionSeason(
+  seasonId: string,
+  to: SeasonLifecycleStatus,
+  at: Date = new Date()
+): Promise<SeasonTransitionResult> {
+  const { season, from } = await prisma.$transaction((tx) => applyTransition(tx, seasonId, to, at));
+  log.info('Season transitioned', { seasonId, from, to });
+
+  const hooks: SeasonHookResult[] = [];
+  for (const hook of SEASON_TRANSITION_HOOKS[to]) {
+    try {
+      await hook.run({ season, from, to });
+      hooks.push({ name: hook.name, ok: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      log.error('Season transition hook failed', error, { seasonId, to, hook: hook.name });
+      hooks.push({ name: hook.name, ok: false, error: message });
+    }
+  }
+
+  return { season, from, to, hooks };
+}
+
+/**
+ * Complete a season now instead of waiting for the schedule
+ *
+ * An ACTIVE season is locked first, so both steps' hooks run. Pending
+ * submissions are checked before locking: seasons never move back, so a
+ * season that can't complete yet must stay open rather than end up locked.
+ *
+ * @throws NotFoundError if the season doesn't exist
+ * @throws ConflictError if a submission is pending review or the season
+ *   can't complete from its status
+ */
+export async function completeSeason(seasonId: string, at: Date = new Date()): Promise<SeasonTransitionResult[]> {
+  const season = await prisma.season.findUnique({ where: { id: seasonId } });
+  if (!season) {
+    throw new NotFoundError('Season not found');
+  }
+  if (season.status !== 'ACTIVE') {
+    return [await transitionSeason(seasonId, 'COMPLETED', at)];
+  }
+
+  await assertNothingPending(prisma, season);
+  const locked = await transitionSeason(seasonId, 'LOCKED', at);
+  return [locked, await transitionSeason(seasonId, 'COMPLETED', at)];
+}
+
+/**
+ * Apply every transition the schedule calls for at `now`
+ *
+ * Seasons are closed before others are opened, so a season starting the day
+ * the previous one locks can take over the active slot in the same run.
+ */
+export async function runScheduledTransitions(now: Date = new Date()): Promise<ScheduledTransitionsResult> {
+  const result: ScheduledTransitionsResult = { transitions: [], skipped: [] };
+
+  for (let step = 0; step < MAX_SCHEDULED_STEPS; step++) {
+    const seasons = await prisma.season.findMany({
+      where: { status: { in: ['UPCOMING', 'ACTIVE', 'LOCKED'] } },
+      orderBy: { startDate: 'asc' },
+      include: { _count: { select: { submissions: { where: { status: 'PENDING' } } } } },
+    });
+
+    const due = seasons
+      .map((season) => ({ season, to: getDueTransition(season, now, season._count.submissions) }))
+      .filter((item): item is { season: (typeof seasons)[number]; to: SeasonLifecycleStatus } => item.to !== null)
+      .sort((a, b) => Number(a.to === 'ACTIVE') - Number(b.to === 'ACTIVE'));
+
+    let applied = 0;
+    for (const { season, to } of due) {
+      if (result.skipped.some((skip) => skip.seasonId === season.id)) continue;
+      try {
+        result.transitions.push(await transitionSeason(season.id, to, now));
+        applied++;
+      } catch (error) {
+        if (!(error instanceof ConflictError)) throw error;
+        result.skipped.push({ seasonId: season.id, to, reason: error.message });
+      }
+    }
+
+    if (applied === 0) break;
+  }
+
+  return result;
+}
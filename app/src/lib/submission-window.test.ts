@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkSubmissionWindow,
+  SubmissionWindowErrorCode,
+  type SeasonWindow,
+} from './submission-window';
+
+const season: SeasonWindow = {
+  name: '2025 Season',
+  startDate: new Date('2025-01-01T00:00:00Z'),
+  endDate: new Date('2025-12-31T00:00:00Z'),
+  submissionDeadline: new Date('2025-11-30T00:00:00Z'),
+};
+
+const date = (value: string) => new Date(`${value}T00:00:00Z`);
+
+describe('Submission Window', () => {
+  describe('checkSubmissionWindow', () => {
+    it('should allow a draw within the season submitted before the deadline', () => {
+      expect(checkSubmissionWindow(season, date('2025-03-10'), date('2025-03-12'))).toBeNull();
+    });
+
+    it('should allow a same-day draw', () => {
+      const submittedAt = new Date('2025-03-10T08:00:00Z');
+      expect(checkSubmissionWindow(season, date('2025-03-10'), submittedAt)).toBeNull();
+    });
+
+    it.each([
+      ['2024-12-20', '2024-12-01', SubmissionWindowErrorCode.SEASON_NOT_STARTED],
+      ['2025-12-05', '2025-12-01', SubmissionWindowErrorCode.SUBMISSION_DEADLINE_PASSED],
+      ['2025-03-10', '2025-03-12', SubmissionWindowErrorCode.COLLECTION_DATE_IN_FUTURE],
+      ['2025-03-10', '2024-12-20', SubmissionWindowErrorCode.COLLECTED_BEFORE_SEASON],
+    ])('should reject a submission on %s with a draw on %s as %s', (submitted, collected, code) => {
+      expect(checkSubmissionWindow(season, date(collected), date(submitted))?.code).toBe(code);
+    });
+
+    it('should reject draws after the season end', () => {
+      const lateSeason = { ...season, submissionDeadline: new Date('2026-01-31T00:00:00Z') };
+      expect(checkSubmissionWindow(lateSeason, date('2026-01-05'), date('2026-01-10'))?.code).toBe(
+        SubmissionWindowErrorCode.COLLECTED_AFTER_SEASON
+      );
+    });
+
+    it('should require a collection date', () => {
+      expect(checkSubmissionWindow(season, null, date('2025-03-12'))).toMatchObject({
+        code: SubmissionWindowErrorCode.COLLECTION_DATE_REQUIRED,
+      });
+    });
+
+    it('should check the submission time before the collection date', () => {
+      expect(checkSubmissionWindow(season, null, date('2025-12-05'))?.code).toBe(
+        SubmissionWindowErrorCode.SUBMISSION_DEADLINE_PASSED
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Submission Window - Season rules for when blood can be drawn and submitted
+ *
+ * A submission counts for a season only when:
+ * - the season is ACTIVE (SEASON_NOT_OPEN otherwise; see lib/seasons)
+ * - it is made between the season start and the submission deadline
+ * - the blood was drawn within the season (start to end) and not in the future
+ *
+ * Violations carry a SubmissionWindowErrorCode so clients can show a specific
+ * message. Profiles without a birth date cannot submit at all: PhenoAge needs
+ * the exact age at the blood draw (BIRTH_DATE_REQUIRED).
+ *
+ * No server imports, so client code can share the error codes.
+ *
+ * @module lib/submission-window
+ */
+
+export enum SubmissionWindowErrorCode {
+  BIRTH_DATE_REQUIRED = 'BIRTH_DATE_REQUIRED',
+  COLLECTION_DATE_REQUIRED = 'COLLECTION_DATE_REQUIRED',
+  COLLECTION_DATE_INVALID = 'COLLECTION_DATE_INVALID',
+  COLLECTION_DATE_IN_FUTURE = 'COLLECTION_DATE_IN_FUTURE',
+  COLLECTED_BEFORE_SEASON = 'COLLECTED_BEFORE_SEASON',
+  COLLECTED_AFTER_SEASON = 'COLLECTED_AFTER_SEASON',
+  SEASON_NOT_OPEN = 'SEASON_NOT_OPEN',
+  SEASON_NOT_STARTED = 'SEASON_NOT_STARTED',
+  SUBMISSION_DEADLINE_PASSED = 'SUBMISSION_DEADLINE_PASSED',
+}
+
+export interface SubmissionWindowViolation {
+  code: SubmissionWindowErrorCode;
+  message: string;
+}
+
+export interface SeasonWindow {
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  submissionDeadline: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Check a submission against the season's windows
+ * Returns the first rule broken, or null when the submission is allowed.
+ */
+export function checkSubmissionWindow(
+  season: SeasonWindow,
+  collectedAt: Date | null,
+  submittedAt: Date = new Date()
+): SubmissionWindowViolation | null {
+  if (submittedAt < season.startDate) {
+    return {
+      code: SubmissionWindowErrorCode.SEASON_NOT_STARTED,
+      message: `${season.name} opens for submissions on ${formatDate(season.startDate)}`,
+    };
+  }
+
+  if (submittedAt > season.submissionDeadline) {
+    return {
+      code: SubmissionWindowErrorCode.SUBMISSION_DEADLINE_PASSED,
+      message: `The submission deadline for ${season.name} was ${formatDate(season.submissionDeadline)}`,
+    };
+  }
+
+  if (!collectedAt) {
+    return {
+      code: SubmissionWindowErrorCode.COLLECTION_DATE_REQUIRED,
+      message: "Enter the date your blood was drawn",
+    };
+  }
+
+  // Compare whole days: a same-day draw is never "in the future"
+  if (Math.floor(collectedAt.getTime() / DAY_MS) > Math.floor(submittedAt.getTime() / DAY_MS)) {
+    return {
+      code: SubmissionWindowErrorCode.COLLECTION_DATE_IN_FUTURE,
+      message: "The blood draw date cannot be in the future",
+    };
+  }
+
+  if (collectedAt < season.startDate) {
+    return {
+      code: SubmissionWindowErrorCode.COLLECTED_BEFORE_SEASON,
+      message: `Blood must be drawn on or after ${formatDate(season.startDate)} to count for ${season.name}`,
+    };
+  }
+
+  if (collectedAt > season.endDate) {
+    return {
+      code: SubmissionWindowErrorCode.COLLECTED_AFTER_SEASON,
+      message: `Blood must be drawn by ${formatDate(season.endDate)} to count for ${season.name}`,
+    };
+  }
+
+  return null;
+}
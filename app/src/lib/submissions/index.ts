@@ -0,0 +1,37 @@
+/**
+ * Submissions Module
+ *
+ * Review workflow of biomarker submissions beyond approve/reject: appeals
+ * with new evidence (optionally amending values), revoking approvals, and the
+ * per-submission status history.
+ *
+ * @example
+ * ```typescript
+ * import { appealRejection, getSubmissionHistory } from '@/lib/submissions';
+ *
+ * await appealRejection(submissionId, athlete.id, athlete.userId, { reason, proofImages });
+ * const history = await getSubmissionHistory(submissionId);
+ * ```
+ *
+ * @module lib/submissions
+ */
+
+export {
+  appealRejection,
+  revokeApproval,
+  assertReviewable,
+  assertSeasonReviewable,
+  getAppealableSubmission,
+  getSubmissionHistory,
+} from './review-service';
+export type { AppealInput, RevokeResult } from './review-service';
+export {
+  SUBMISSION_STATUSES,
+  REVIEW_ACTIONS,
+  REVIEWABLE_SEASON_STATUSES,
+  getReviewTransition,
+  isSeasonReviewable,
+  buildStatusChange,
+  getAmendedBiomarkers,
+} from './review';
+export type { SubmissionStatus, ReviewAction, StatusChangeRecord } from './review';
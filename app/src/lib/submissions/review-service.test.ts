@@ -0,0 +1,244 @@
+/**
+ * Submission Review Service Tests
+ * Tests appeals (with amendments), revocations and their guards
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma } from '@/lib/db';
+import { BadRequestError, ConflictError, ForbiddenError, createEvent } from '@/lib/api-utils';
+import { applySubmissionChange } from '@/lib/leaderboard';
+import { badgeService } from '@/lib/badges';
+import { appealRejection, assertReviewable, assertSeasonReviewable, revokeApproval } from './review-service';
+
+const tx = {
+  biomarkerSubmission: { updateMany: vi.fn(), update: vi.fn(), findUniqueOrThrow: vi.fn() },
+  biomarkerValue: { deleteMany: vi.fn() },
+  biologicalAgeScore: { deleteMany: vi.fn() },
+  submissionStatusChange: { create: vi.fn() },
+};
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    biomarkerSubmission: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/leaderboard', () => ({
+  applySubmissionChange: vi.fn(),
+}));
+
+vi.mock('@/lib/badges', () => ({
+  badgeService: { revokeUnearnedBadges: vi.fn() },
+}));
+
+vi.mock('@/lib/api-utils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/api-utils')>()),
+  createEvent: vi.fn(),
+}));
+
+const values = {
+  albumin: 4.5,
+  creatinine: 0.9,
+  glucose: 85,
+  crp: 0.5,
+  lymphocytePercent: 30,
+  mcv: 90,
+  rdw: 12.5,
+  alp: 70,
+  wbc: 5.5,
+};
+
+const approvedAt = new Date('2026-03-05T10:00:00Z');
+
+function submission(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub1',
+    athleteId: 'a1',
+    seasonId: 's1',
+    leagueId: 'l1',
+    status: 'REJECTED',
+    verifiedBy: 'admin1',
+    verifiedAt: approvedAt,
+    proofImages: ['https://files/old.png'],
+    submittedAt: new Date('2026-03-02T00:00:00Z'),
+    collectedAt: new Date('2026-03-01T00:00:00Z'),
+    athlete: { id: 'a1', userId: 'u1', displayName: 'Ada', birthDate: new Date('1980-01-01T00:00:00Z') },
+    season: {
+      name: 'Season 2026',
+      status: 'ACTIVE',
+      rankingAlgorithmId: 'levine-phenoage',
+      startDate: new Date('2026-01-01T00:00:00Z'),
+      endDate: new Date('2026-12-31T00:00:00Z'),
+      submissionDeadline: new Date('2026-12-01T00:00:00Z'),
+    },
+    values: Object.entries(values).map(([biomarkerKey, value]) => ({ biomarkerKey, value, unit: '' })),
+    ...overrides,
+  };
+}
+
+const appeal = { reason: 'Lab corrected the report', proofImages: ['https://files/new.png'] };
+
+describe('appealRejection', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation((fn: unknown) => (fn as (t: typeof tx) => unknown)(tx) as never);
+    vi.mocked(prisma.biomarkerSubmission.findUnique).mockResolvedValue(submission() as never);
+    tx.biomarkerSubmission.updateMany.mockResolvedValue({ count: 1 });
+    tx.biomarkerSubmission.findUniqueOrThrow.mockResolvedValue({ id: 'sub1', status: 'PENDING' });
+  });
+
+  it('sends the submission back to review with the new evidence', async () => {
+    const result = await appealRejection('sub1', 'a1', 'u1', appeal);
+
+    expect(tx.biomarkerSubmission.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sub1', status: 'REJECTED' },
+      data: {
+        status: 'PENDING',
+        verifiedBy: null,
+        verifiedAt: null,
+        proofImages: ['https://files/old.png', 'https://files/new.png'],
+      },
+    });
+    expect(tx.biomarkerValue.deleteMany).not.toHaveBeenCalled();
+    expect(tx.submissionStatusChange.create).toHaveBeenCalledWith({
+      data: {
+        submissionId: 'sub1',
+        action: 'APPEALED',
+        fromStatus: 'REJECTED',
+        toStatus: 'PENDING',
+        changedBy: 'u1',
+        reason: 'Lab corrected the report',
+        data: { proofImages: ['https://files/new.png'], amended: [] },
+      },
+    });
+    expect(createEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'SUBMISSION_APPEALED' }));
+    expect(result).toEqual({ id: 'sub1', status: 'PENDING' });
+  });
+
+  it('rescores amended values', async () => {
+    await appealRejection('sub1', 'a1', 'u1', { ...appeal, amendment: { biomarkers: { ...values, glucose: 95 } } });
+
+    expect(tx.biomarkerValue.deleteMany).toHaveBeenCalledWith({ where: { submissionId: 'sub1' } });
+    expect(tx.biologicalAgeScore.deleteMany).toHaveBeenCalledWith({ where: { submissionId: 'sub1' } });
+    const update = tx.biomarkerSubmission.update.mock.calls[0][0];
+    expect(update.data.algorithmId).toBe('levine-phenoage');
+    expect(update.data.values.create).toContainEqual(expect.objectContaining({ biomarkerKey: 'glucose', value: 95 }));
+    expect(tx.submissionStatusChange.create.mock.calls[0][0].data.data.amended).toEqual(['glucose']);
+  });
+
+  it('rejects amendments that leave the ranking algorithm without inputs', async () => {
+    const { albumin: _albumin, ...incomplete } = values;
+
+    await expect(
+      appealRejection('sub1', 'a1', 'u1', { ...appeal, amendment: { biomarkers: incomplete } })
+    ).rejects.toThrow(BadRequestError);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("refuses other athletes' submissions", async () => {
+    await expect(appealRejection('sub1', 'a2', 'u2', appeal)).rejects.toThrow(ForbiddenError);
+  });
+
+  it('only appeals rejected submissions', async () => {
+    vi.mocked(prisma.biomarkerSubmission.findUnique).mockResolvedValue(submission({ status: 'PENDING' }) as never);
+
+    await expect(appealRejection('sub1', 'a1', 'u1', appeal)).rejects.toThrow(ConflictError);
+  });
+
+  it('refuses appeals once the season is completed', async () => {
+    vi.mocked(prisma.biomarkerSubmission.findUnique).mockResolvedValue(
+      submission({ season: { ...submission().season, status: 'COMPLETED' } }) as never
+    );
+
+    await expect(appealRejection('sub1', 'a1', 'u1', appeal)).rejects.toThrow('its results are final');
+  });
+
+  it('requires new evidence', async () => {
+    await expect(appealRejection('sub1', 'a1', 'u1', { ...appeal, proofImages: [] })).rejects.toThrow(
+      'Attach new evidence'
+    );
+  });
+
+  it('fails when the submission was reviewed meanwhile', async () => {
+    tx.biomarkerSubmission.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(appealRejection('sub1', 'a1', 'u1', appeal)).rejects.toThrow(ConflictError);
+    expect(createEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe('revokeApproval', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.biomarkerSubmission.findUnique).mockResolvedValue(submission({ status: 'APPROVED' }) as never);
+    vi.mocked(applySubmissionChange).mockImplementation(async (_submission, change) => ({
+      result: await change(tx as never),
+      leaderboard: { standings: [], created: 0, updated: 0, removed: 0 },
+    }) as never);
+    tx.biomarkerSubmission.updateMany.mockResolvedValue({ count: 1 });
+    vi.mocked(badgeService.revokeUnearnedBadges).mockResolvedValue(['podium']);
+  });
+
+  it('returns the submission to review and unwinds its effects', async () => {
+    const result = await revokeApproval('sub1', { userId: 'admin2', reason: 'Proof is of another report' });
+
+    expect(tx.biomarkerSubmission.updateMany).toHaveBeenCalledWith({
+      where: { id: 'sub1', status: 'APPROVED' },
+      data: { status: 'PENDING', verifiedBy: null, verifiedAt: null },
+    });
+    expect(tx.submissionStatusChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'REVOKED',
+        fromStatus: 'APPROVED',
+        toStatus: 'PENDING',
+        changedBy: 'admin2',
+        reason: 'Proof is of another report',
+      }),
+    });
+    expect(badgeService.revokeUnearnedBadges).toHaveBeenCalledWith('a1', approvedAt);
+    expect(createEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'SUBMISSION_REVOKED' }));
+    expect(result).toEqual({ submissionId: 'sub1', revokedBadges: ['podium'] });
+  });
+
+  it('only revokes approved submissions', async () => {
+    vi.mocked(prisma.biomarkerSubmission.findUnique).mockResolvedValue(submission({ status: 'PENDING' }) as never);
+
+    await expect(revokeApproval('sub1', { userId: 'admin2', reason: 'x' })).rejects.toThrow(ConflictError);
+    expect(applySubmissionChange).not.toHaveBeenCalled();
+  });
+
+  it('requires a reason', async () => {
+    await expect(revokeApproval('sub1', { userId: 'admin2', reason: ' ' })).rejects.toThrow(BadRequestError);
+  });
+
+  it('keeps badges when the submission was reviewed meanwhile', async () => {
+    tx.biomarkerSubmission.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(revokeApproval('sub1', { userId: 'admin2', reason: 'x' })).rejects.toThrow(ConflictError);
+    expect(badgeService.revokeUnearnedBadges).not.toHaveBeenCalled();
+  });
+});
+
+describe('assertReviewable', () => {
+  it('allows rejecting an approval while the season is open', () => {
+    expect(() => assertReviewable(submission({ status: 'APPROVED' }), 'REJECTED')).not.toThrow();
+  });
+
+  it('keeps a completed season final', () => {
+    const completed = submission({ status: 'APPROVED', season: { name: 'Season 2025', status: 'COMPLETED' } });
+
+    expect(() => assertReviewable(completed, 'REJECTED')).toThrow('Season 2025 is completed; its results are final');
+  });
+
+  it('rejects actions the status does not allow', () => {
+    expect(() => assertReviewable(submission({ status: 'REJECTED' }), 'REJECTED')).toThrow(ConflictError);
+  });
+});
+
+describe('assertSeasonReviewable', () => {
+  it('allows changes while the season is active or locked', () => {
+    expect(() => assertSeasonReviewable({ name: 'Season 2026', status: 'LOCKED' })).not.toThrow();
+    expect(() => assertSeasonReviewable({ name: 'Season 2025', status: 'COMPLETED' })).toThrow(ConflictError);
+  });
+});
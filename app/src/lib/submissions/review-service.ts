@@ -0,0 +1,306 @@
+/**
+ * Submission Review Service - Appeals, revocations and the status history
+ *
+ * - appealRejection: the athlete attaches new evidence to a rejected
+ *   submission, optionally amending its values, and it returns to PENDING
+ * - revokeApproval: an admin withdraws an approval; the submission returns to
+ *   PENDING, the season leaderboard is rebuilt without it and badges earned
+ *   since the approval that no longer hold are taken back
+ *
+ * Status updates are guarded on the expected status, so two concurrent
+ * reviews can't both apply. Every change is recorded in the status history.
+ *
+ * ## Usage
+ * ```typescript
+ * import { revokeApproval } from '@/lib/submissions';
+ *
+ * await revokeApproval(submissionId, { userId: admin.id, reason: 'Proof image is of another report' });
+ * ```
+ *
+ * @module lib/submissions/review-service
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { domainLoggers } from '@/lib/logger';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError, createEvent } from '@/lib/api-utils';
+import { fromBiomarkerValueRecords, toBiomarkerValueRecords, validateBiomarkerValues } from '@/lib/biomarkers';
+import {
+  calculateBiologicalAges,
+  getBiologicalAgeAlgorithm,
+  validateAlgorithmInput,
+} from '@/lib/biological-age';
+import { calculateChronologicalAge } from '@/lib/phenoage';
+import { applySubmissionChange } from '@/lib/leaderboard';
+import { badgeService } from '@/lib/badges';
+import { checkSubmissionWindow } from '@/lib/submission-window';
+import {
+  buildStatusChange,
+  getAmendedBiomarkers,
+  getReviewTransition,
+  isSeasonReviewable,
+  type ReviewAction,
+} from './review';
+
+const log = domainLoggers.submissions;
+
+export interface AppealInput {
+  reason: string;
+  /** URLs of the new evidence, already uploaded */
+  proofImages: string[];
+  /** Corrections; the submission is scored again with the season's ranking algorithm */
+  amendment?: {
+    /** All values; the current ones when only the date is corrected */
+    biomarkers?: Record<string, unknown>;
+    collectedAt?: Date | null;
+  };
+}
+
+export interface RevokeResult {
+  submissionId: string;
+  /** Badge slugs taken back */
+  revokedBadges: string[];
+}
+
+const submissionWithContext = {
+  athlete: { select: { id: true, userId: true, displayName: true, birthDate: true } },
+  season: true,
+  values: true,
+} satisfies Prisma.BiomarkerSubmissionInclude;
+
+async function loadSubmission(submissionId: string) {
+  const submission = await prisma.biomarkerSubmission.findUnique({
+    where: { id: submissionId },
+    include: submissionWithContext,
+  });
+  if (!submission) {
+    throw new NotFoundError('Submission not found');
+  }
+  return submission;
+}
+
+/**
+ * Check that the season's results aren't final yet, before a change that
+ * rewrites its standings
+ *
+ * @throws ConflictError otherwise
+ */
+export function assertSeasonReviewable(season: { name: string; status: string }) {
+  if (!isSeasonReviewable(season.status)) {
+    throw new ConflictError(`${season.name} is ${season.status.toLowerCase()}; its results are final`);
+  }
+}
+
+/**
+ * Check that a review action is allowed from the submission's status and that
+ * its season's results aren't final yet
+ *
+ * @throws ConflictError otherwise
+ */
+export function assertReviewable(
+  submission: { status: string; season: { name: string; status: string } },
+  action: ReviewAction
+) {
+  if (!getReviewTransition(action, submission.status)) {
+    throw new ConflictError(`A ${submission.status.toLowerCase()} submission can't be ${action.toLowerCase()}`);
+  }
+  assertSeasonReviewable(submission.season);
+}
+
+/**
+ * A rejected submission of the athlete that can be appealed
+ *
+ * @throws NotFoundError, ForbiddenError (not the athlete's) or ConflictError
+ */
+export async function getAppealableSubmission(submissionId: string, athleteId: string) {
+  const submission = await loadSubmission(submissionId);
+  if (submission.athleteId !== athleteId) {
+    throw new ForbiddenError('You can only appeal your own submissions');
+  }
+  assertReviewable(submission, 'APPEALED');
+  return submission;
+}
+
+/**
+ * Score amended values for a submission the way new submissions are scored
+ *
+ * @throws BadRequestError if the values or date are invalid
+ */
+function scoreAmendment(
+  submission: Awaited<ReturnType<typeof loadSubmission>>,
+  amendment: NonNullable<AppealInput['amendment']>
+) {
+  const { birthDate } = submission.athlete;
+  if (!birthDate) {
+    throw new BadRequestError('Add your birth date to your profile before amending');
+  }
+
+  const collectedAt = amendment.collectedAt ?? submission.collectedAt;
+  // The window is checked as of the original submission
+  const windowViolation = checkSubmissionWindow(submission.season, collectedAt, submission.submittedAt);
+  if (windowViolation) {
+    throw new BadRequestError(windowViolation.message, { code: windowViolation.code });
+  }
+
+  const current = fromBiomarkerValueRecords(submission.values);
+  const validation = validateBiomarkerValues(amendment.biomarkers ?? current);
+  if (!validation.valid) {
+    throw new BadRequestError('Invalid biomarker values', validation.errors);
+  }
+
+  const ageAtCollection = calculateChronologicalAge(birthDate, collectedAt as Date);
+  const biologicalAges = calculateBiologicalAges(validation.values, ageAtCollection);
+  const ranked = biologicalAges.find((result) => result.algorithmId === submission.season.rankingAlgorithmId);
+  if (!ranked) {
+    const algorithm = getBiologicalAgeAlgorithm(submission.season.rankingAlgorithmId);
+    throw new BadRequestError(
+      `${algorithm.name} cannot be calculated from these values`,
+      validateAlgorithmInput(algorithm, validation.values, ageAtCollection).errors
+    );
+  }
+
+  return {
+    values: validation.values,
+    collectedAt,
+    biologicalAges,
+    ranked,
+    amended: getAmendedBiomarkers(current, validation.values),
+  };
+}
+
+/**
+ * Appeal a rejected submission with new evidence; it returns to PENDING
+ *
+ * @param userId - User id of the appealing athlete
+ * @throws NotFoundError, ForbiddenError, ConflictError or BadRequestError
+ */
+export async function appealRejection(
+  submissionId: string,
+  athleteId: string,
+  userId: string,
+  input: AppealInput
+) {
+  const submission = await getAppealableSubmission(submissionId, athleteId);
+  if (!input.reason.trim()) {
+    throw new BadRequestError('Explain why the submission should be reviewed again');
+  }
+  if (input.proofImages.length === 0) {
+    throw new BadRequestError('Attach new evidence to appeal');
+  }
+
+  const scored = input.amendment ? scoreAmendment(submission, input.amendment) : null;
+  const proofImages = [...(submission.proofImages as string[]), ...input.proofImages];
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.biomarkerSubmission.updateMany({
+      where: { id: submissionId, status: 'REJECTED' },
+      data: { status: 'PENDING', verifiedBy: null, verifiedAt: null, proofImages },
+    });
+    if (count === 0) {
+      throw new ConflictError('Submission was reviewed meanwhile');
+    }
+
+    if (scored) {
+      await tx.biomarkerValue.deleteMany({ where: { submissionId } });
+      await tx.biologicalAgeScore.deleteMany({ where: { submissionId } });
+      await tx.biomarkerSubmission.update({
+        where: { id: submissionId },
+        data: {
+          collectedAt: scored.collectedAt,
+          phenoAge: scored.ranked.biologicalAge,
+          ageReduction: scored.ranked.ageReduction,
+          paceOfAging: scored.ranked.paceOfAging,
+          algorithmId: scored.ranked.algorithmId,
+          values: { create: toBiomarkerValueRecords(scored.values) },
+          biologicalAges: { create: scored.biologicalAges },
+        },
+      });
+    }
+
+    await tx.submissionStatusChange.create({
+      data: {
+        submissionId,
+        ...buildStatusChange('APPEALED', submission.status, {
+          changedBy: userId,
+          reason: input.reason.trim(),
+          data: { proofImages: input.proofImages, amended: scored?.amended ?? [] },
+        }),
+      },
+    });
+
+    return tx.biomarkerSubmission.findUniqueOrThrow({ where: { id: submissionId } });
+  });
+
+  await createEvent({
+    type: 'SUBMISSION_APPEALED',
+    athleteId,
+    seasonId: submission.seasonId,
+    message: `${submission.athlete.displayName} appealed a rejected biomarker submission`,
+    data: { submissionId, amended: scored?.amended ?? [] },
+  });
+
+  log.info('Submission appealed', { submissionId, amended: scored?.amended ?? [] });
+  return updated;
+}
+
+/**
+ * Withdraw an approval; the submission returns to PENDING for re-review
+ *
+ * @throws NotFoundError or ConflictError (not approved, or season final)
+ */
+export async function revokeApproval(
+  submissionId: string,
+  revocation: { userId: string; reason: string }
+): Promise<RevokeResult> {
+  const submission = await loadSubmission(submissionId);
+  assertReviewable(submission, 'REVOKED');
+  if (!revocation.reason.trim()) {
+    throw new BadRequestError('A reason is required to revoke an approval');
+  }
+
+  await applySubmissionChange(submission, async (tx) => {
+    const { count } = await tx.biomarkerSubmission.updateMany({
+      where: { id: submissionId, status: 'APPROVED' },
+      data: { status: 'PENDING', verifiedBy: null, verifiedAt: null },
+    });
+    if (count === 0) {
+      throw new ConflictError('Submission was reviewed meanwhile');
+    }
+
+    await tx.submissionStatusChange.create({
+      data: {
+        submissionId,
+        ...buildStatusChange('REVOKED', submission.status, {
+          changedBy: revocation.userId,
+          reason: revocation.reason.trim(),
+          data: { approvedBy: submission.verifiedBy, approvedAt: submission.verifiedAt?.toISOString() ?? null },
+        }),
+      },
+    });
+  });
+
+  const revokedBadges = submission.verifiedAt
+    ? await badgeService.revokeUnearnedBadges(submission.athleteId, submission.verifiedAt)
+    : [];
+
+  await createEvent({
+    type: 'SUBMISSION_REVOKED',
+    athleteId: submission.athleteId,
+    seasonId: submission.seasonId,
+    message: `Approval of ${submission.athlete.displayName}'s biomarker submission was revoked for re-review`,
+    data: { submissionId, reason: revocation.reason.trim() },
+  });
+
+  log.info('Submission approval revoked', { submissionId, revokedBadges });
+  return { submissionId, revokedBadges };
+}
+
+/**
+ * A submission's status changes, oldest first
+ */
+export async function getSubmissionHistory(submissionId: string) {
+  return prisma.submissionStatusChange.findMany({
+    where: { submissionId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
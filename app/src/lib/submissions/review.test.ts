@@ -0,0 +1,77 @@
+/**
+ * Submission Review Tests
+ * Tests review transitions, reviewable seasons, history rows and amendments
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildStatusChange,
+  getAmendedBiomarkers,
+  getReviewTransition,
+  isSeasonReviewable,
+} from './review';
+
+describe('getReviewTransition', () => {
+  it('records new submissions as pending', () => {
+    expect(getReviewTransition('SUBMITTED', null)).toBe('PENDING');
+    expect(getReviewTransition('SUBMITTED', 'PENDING')).toBeNull();
+  });
+
+  it('approves only pending submissions', () => {
+    expect(getReviewTransition('APPROVED', 'PENDING')).toBe('APPROVED');
+    expect(getReviewTransition('APPROVED', 'REJECTED')).toBeNull();
+  });
+
+  it('rejects pending and approved submissions', () => {
+    expect(getReviewTransition('REJECTED', 'PENDING')).toBe('REJECTED');
+    expect(getReviewTransition('REJECTED', 'APPROVED')).toBe('REJECTED');
+    expect(getReviewTransition('REJECTED', 'REJECTED')).toBeNull();
+  });
+
+  it('sends appealed rejections back to review', () => {
+    expect(getReviewTransition('APPEALED', 'REJECTED')).toBe('PENDING');
+    expect(getReviewTransition('APPEALED', 'PENDING')).toBeNull();
+    expect(getReviewTransition('APPEALED', 'APPROVED')).toBeNull();
+  });
+
+  it('sends revoked approvals back to review', () => {
+    expect(getReviewTransition('REVOKED', 'APPROVED')).toBe('PENDING');
+    expect(getReviewTransition('REVOKED', 'PENDING')).toBeNull();
+  });
+});
+
+describe('isSeasonReviewable', () => {
+  it('allows appeals and revocations until the season completes', () => {
+    expect(isSeasonReviewable('ACTIVE')).toBe(true);
+    expect(isSeasonReviewable('LOCKED')).toBe(true);
+    expect(isSeasonReviewable('COMPLETED')).toBe(false);
+    expect(isSeasonReviewable('UPCOMING')).toBe(false);
+  });
+});
+
+describe('buildStatusChange', () => {
+  it('derives the new status from the action', () => {
+    expect(buildStatusChange('REVOKED', 'APPROVED', { changedBy: 'u1', reason: 'Wrong report' })).toEqual({
+      action: 'REVOKED',
+      fromStatus: 'APPROVED',
+      toStatus: 'PENDING',
+      changedBy: 'u1',
+      reason: 'Wrong report',
+    });
+  });
+
+  it('keeps action details', () => {
+    const change = buildStatusChange('APPEALED', 'REJECTED', { data: { amended: ['glucose'] } });
+
+    expect(change).toMatchObject({ changedBy: null, reason: null, data: { amended: ['glucose'] } });
+  });
+});
+
+describe('getAmendedBiomarkers', () => {
+  it('lists changed, added and removed biomarkers', () => {
+    expect(
+      getAmendedBiomarkers({ albumin: 4.5, glucose: 85, crp: 0.5 }, { albumin: 4.5, glucose: 90, wbc: 5.5 })
+    ).toEqual(expect.arrayContaining(['glucose', 'crp', 'wbc']));
+    expect(getAmendedBiomarkers({ albumin: 4.5 }, { albumin: 4.5 })).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Submission Review - Statuses, review actions and the status history
+ *
+ * A submission's status changes only through a review action, and each
+ * change is recorded (SubmissionStatusChange) with who made it and why:
+ *
+ *   SUBMITTED  → PENDING
+ *   APPROVED   PENDING → APPROVED             (admin; enters the leaderboard)
+ *   REJECTED   PENDING | APPROVED → REJECTED  (admin; leaves the leaderboard)
+ *   APPEALED   REJECTED → PENDING             (athlete adds evidence, may amend values)
+ *   REVOKED    APPROVED → PENDING             (admin withdraws an approval for re-review)
+ *
+ * Appeals and revocations are only possible while the season is ACTIVE or
+ * LOCKED; a completed season's results are final.
+ *
+ * @module lib/submissions/review
+ */
+
+import type { Prisma } from '@prisma/client';
+import { BIOMARKER_KEYS, type BiomarkerKey, type BiomarkerValues } from '@/lib/biomarkers';
+
+export const SUBMISSION_STATUSES = ['PENDING', 'APPROVED', 'REJECTED'] as const;
+
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+export const REVIEW_ACTIONS = ['SUBMITTED', 'APPROVED', 'REJECTED', 'APPEALED', 'REVOKED'] as const;
+
+export type ReviewAction = (typeof REVIEW_ACTIONS)[number];
+
+/** Season statuses in which submissions can be appealed or revoked */
+export const REVIEWABLE_SEASON_STATUSES = ['ACTIVE', 'LOCKED'];
+
+const REVIEW_TRANSITIONS: Record<ReviewAction, { from: SubmissionStatus[]; to: SubmissionStatus }> = {
+  SUBMITTED: { from: [], to: 'PENDING' },
+  APPROVED: { from: ['PENDING'], to: 'APPROVED' },
+  REJECTED: { from: ['PENDING', 'APPROVED'], to: 'REJECTED' },
+  APPEALED: { from: ['REJECTED'], to: 'PENDING' },
+  REVOKED: { from: ['APPROVED'], to: 'PENDING' },
+};
+
+/** A status history row, without its submission */
+export interface StatusChangeRecord {
+  action: ReviewAction;
+  fromStatus: string | null;
+  toStatus: SubmissionStatus;
+  changedBy: string | null;
+  reason: string | null;
+  data?: Prisma.InputJsonValue;
+}
+
+/**
+ * The status a review action leaves a submission in, or null if the action
+ * isn't allowed from `status`
+ */
+export function getReviewTransition(action: ReviewAction, status: string | null): SubmissionStatus | null {
+  const transition = REVIEW_TRANSITIONS[action];
+  if (status === null) {
+    return transition.from.length === 0 ? transition.to : null;
+  }
+  return (transition.from as string[]).includes(status) ? transition.to : null;
+}
+
+/**
+ * Whether a season's submissions can still be appealed or revoked
+ */
+export function isSeasonReviewable(seasonStatus: string): boolean {
+  return REVIEWABLE_SEASON_STATUSES.includes(seasonStatus);
+}
+
+/**
+ * The history row for a review action
+ *
+ * @param fromStatus - Status before the action; null for SUBMITTED
+ */
+export function buildStatusChange(
+  action: ReviewAction,
+  fromStatus: string | null,
+  details: { changedBy?: string | null; reason?: string | null; data?: Prisma.InputJsonValue } = {}
+): StatusChangeRecord {
+  return {
+    action,
+    fromStatus,
+    toStatus: REVIEW_TRANSITIONS[action].to,
+    changedBy: details.changedBy ?? null,
+    reason: details.reason ?? null,
+    ...(details.data !== undefined ? { data: details.data } : {}),
+  };
+}
+
+/**
+ * Biomarkers an amendment adds, removes or changes, in catalog order
+ */
+export function getAmendedBiomarkers(before: BiomarkerValues, after: BiomarkerValues): BiomarkerKey[] {
+  return BIOMARKER_KEYS.filter((key) => before[key] !== after[key]);
+}
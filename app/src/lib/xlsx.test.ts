@@ -0,0 +1,150 @@
+/**
+ * XLSX Tests
+ * Tests the workbook parts, cell encoding and the ZIP container
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, inflateRawSync } from 'node:zlib';
+import { streamXlsx, toColumnName } from './xlsx';
+
+async function collect(chunks: AsyncIterable<Buffer>): Promise<Buffer> {
+  const buffers: Buffer[] = [];
+  for await (const chunk of chunks) buffers.push(chunk);
+  return Buffer.concat(buffers);
+}
+
+/** Entries of a ZIP file, read through its central directory */
+function unzip(zip: Buffer): Map<string, string> {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let position = zip.readUInt32LE(end + 16);
+
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(position + 16);
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const size = zip.readUInt32LE(position + 24);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const offset = zip.readUInt32LE(position + 42);
+    const name = zip.toString('utf8', position + 46, position + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+    // Data descriptor right after the data repeats the checksum
+    expect(zip.readUInt32LE(dataStart + compressedSize)).toBe(0x08074b50);
+    expect(zip.readUInt32LE(dataStart + compressedSize + 4)).toBe(crc);
+
+    entries.set(name, data.toString('utf8'));
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('XLSX', () => {
+  it('should name columns like spreadsheets do', () => {
+    expect(toColumnName(0)).toBe('A');
+    expect(toColumnName(25)).toBe('Z');
+    expect(toColumnName(26)).toBe('AA');
+    expect(toColumnName(701)).toBe('ZZ');
+    expect(toColumnName(702)).toBe('AAA');
+  });
+
+  it('should write a workbook with one sheet per table', async () => {
+    const zip = await collect(
+      streamXlsx([
+        { name: 'Members', headers: ['Name'], rows: [['Jane']] },
+        { name: 'Columns', headers: ['Column'], rows: [] },
+      ])
+    );
+    const entries = unzip(zip);
+
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Members" sheetId="1" r:id="rId1"/>');
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Columns" sheetId="2" r:id="rId2"/>');
+    expect(entries.get('xl/_rels/workbook.xml.rels')).toContain('Target="worksheets/sheet2.xml"');
+    expect(entries.get('[Content_Types].xml')).toContain('PartName="/xl/worksheets/sheet2.xml"');
+  });
+
+  it('should write typed cells and a bold header row', async () => {
+    const entries = unzip(
+      await collect(
+        streamXlsx([
+          {
+            name: 'Data',
+            headers: ['Text', 'Number', 'Flag', 'Date', 'Empty'],
+            rows: [['<a & "b">', -1.5, true, new Date('2025-06-01T00:00:00Z'), null]],
+          },
+        ])
+      )
+    );
+    const sheet = entries.get('xl/worksheets/sheet1.xml');
+
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Text</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">&lt;a &amp; &quot;b&quot;&gt;</t>');
+    expect(sheet).toContain('<c r="B2"><v>-1.5</v></c>');
+    expect(sheet).toContain('<c r="C2" t="b"><v>1</v></c>');
+    expect(sheet).toContain('2025-06-01T00:00:00.000Z');
+    expect(sheet).not.toContain('r="E2"');
+  });
+
+  it('should not quote formula-like text, which inline strings never evaluate', async () => {
+    const entries = unzip(await collect(streamXlsx([{ name: 'Data', headers: ['Text'], rows: [['=SUM(A1)']] }])));
+
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('<t xml:space="preserve">=SUM(A1)</t>');
+  });
+
+  it('should drop characters XML cannot hold', async () => {
+    const entries = unzip(await collect(streamXlsx([{ name: 'Data', headers: ['Text'], rows: [['a\u0001b']] }])));
+
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('<t xml:space="preserve">ab</t>');
+  });
+
+  it('should stream rows from an async source', async () => {
+    async function* rows() {
+      for (let i = 0; i < 5000; i++) yield [i, `Athlete ${i}`];
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of streamXlsx([{ name: 'Data', headers: ['N', 'Name'], rows: rows() }])) {
+      chunks.push(chunk);
+    }
+    const sheet = unzip(Buffer.concat(chunks)).get('xl/worksheets/sheet1.xml');
+
+    expect(chunks.length).toBeGreaterThan(10);
+    expect(sheet).toContain('<c r="A5001"><v>4999</v></c>');
+  });
+
+  it('should fail the stream when rows fail', async () => {
+    async function* rows() {
+      yield ['ok'];
+      throw new Error('Database went away');
+    }
+
+    await expect(collect(streamXlsx([{ name: 'Data', headers: ['Text'], rows: rows() }]))).rejects.toThrow(
+      'Database went away'
+    );
+  });
+
+  it('should reject invalid or duplicate sheet names', () => {
+    expect(() => streamXlsx([{ name: 'a/b', headers: [], rows: [] }])).toThrow('Invalid sheet name');
+    expect(() => streamXlsx([{ name: 'x'.repeat(32), headers: [], rows: [] }])).toThrow('Invalid sheet name');
+    expect(() =>
+      streamXlsx([
+        { name: 'Data', headers: [], rows: [] },
+        { name: 'data', headers: [], rows: [] },
+      ])
+    ).toThrow('Duplicate sheet name');
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * XLSX - Minimal streaming workbook writer for league exports
+ *
+ * Writes an Office Open XML workbook (a ZIP of SpreadsheetML parts) with one
+ * sheet per table: a bold, frozen header row, then numbers, booleans and
+ * inline strings. Dates are written as ISO text, like the CSV exports.
+ *
+ * Sheets are deflated as their rows arrive, so a large export never sits in
+ * memory: each ZIP entry's checksum and sizes follow its data in a data
+ * descriptor. Inline strings are never evaluated as formulas, so unlike
+ * lib/csv text is written as is.
+ *
+ * @module lib/xlsx
+ */
+
+import { Readable, pipeline } from 'node:stream';
+import { crc32, createDeflateRaw } from 'node:zlib';
+import type { CsvValue } from '@/lib/csv';
+
+export interface XlsxSheet {
+  /** Tab name: 1-31 characters, none of []:*?/\ */
+  name: string;
+  headers: string[];
+  rows: AsyncIterable<CsvValue[]> | Iterable<CsvValue[]>;
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+const CHUNK_SIZE = 64 * 1024;
+const INVALID_SHEET_NAME = /[[\]:*?/\\]/;
+// Characters XML 1.0 can't hold, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+/** cellXfs index of the header style in STYLES_XML */
+const HEADER_STYLE = 1;
+
+const STYLES_XML =
+  XML_DECLARATION +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+/**
+ * Spreadsheet column name of a zero-based column index (0 → A, 26 → AA)
+ */
+export function toColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * One cell; empty for missing values (and non-finite numbers)
+ */
+function toCell(ref: string, value: CsvValue, style?: number): string {
+  const attributes = `r="${ref}"${style ? ` s="${style}"` : ''}`;
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c ${attributes}><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') return `<c ${attributes} t="b"><v>${value ? 1 : 0}</v></c>`;
+
+  const text = value instanceof Date ? value.toISOString() : value;
+  return `<c ${attributes} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function toRow(rowNumber: number, values: CsvValue[], style?: number): string {
+  const cells = values.map((value, index) => toCell(`${toColumnName(index)}${rowNumber}`, value, style));
+  return `<row r="${rowNumber}">${cells.join('')}</row>`;
+}
+
+async function* toSheetXml(sheet: XlsxSheet): AsyncGenerator<string> {
+  let chunk =
+    XML_DECLARATION +
+    `<worksheet xmlns="${MAIN_NS}"><sheetViews><sheetView workbookViewId="0">` +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${toRow(1, sheet.headers, HEADER_STYLE)}`;
+
+  let rowNumber = 1;
+  for await (const row of sheet.rows) {
+    chunk += toRow(++rowNumber, row);
+    if (chunk.length >= CHUNK_SIZE) {
+      yield chunk;
+      chunk = '';
+    }
+  }
+  yield `${chunk}</sheetData></worksheet>`;
+}
+
+function toContentTypesXml(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="${CONTENT_TYPE}.worksheet+xml"/>`
+  );
+  return (
+    XML_DECLARATION +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    `<Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPE}.sheet.main+xml"/>` +
+    sheets.join('') +
+    `<Override PartName="/xl/styles.xml" ContentType="${CONTENT_TYPE}.styles+xml"/>` +
+    '</Types>'
+  );
+}
+
+function toWorkbookXml(sheets: XlsxSheet[]): string {
+  const entries = sheets.map(
+    (sheet, index) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+  );
+  return (
+    XML_DECLARATION +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${DOCUMENT_RELATIONSHIP}"><sheets>${entries.join('')}</sheets></workbook>`
+  );
+}
+
+function toWorkbookRelsXml(sheetCount: number): string {
+  const sheets = Array.from(
+    { length: sheetCount },
+    (_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="${DOCUMENT_RELATIONSHIP}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+  );
+  return (
+    XML_DECLARATION +
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">${sheets.join('')}` +
+    `<Relationship Id="rId${sheetCount + 1}" Type="${DOCUMENT_RELATIONSHIP}/styles" Target="styles.xml"/>` +
+    '</Relationships>'
+  );
+}
+
+const ROOT_RELS_XML =
+  XML_DECLARATION +
+  `<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+  `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+// ============================================
+// ZIP (deflated entries with data descriptors)
+// ============================================
+
+/** General purpose flags: sizes in a data descriptor (bit 3), UTF-8 names (bit 11) */
+const ZIP_FLAGS = 0x0808;
+const ZIP_VERSION = 20;
+const ZIP_DEFLATE = 8;
+
+interface ZipEntry {
+  name: string;
+  content: AsyncIterable<string> | Iterable<string>;
+}
+
+interface ZipRecord {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/** MS-DOS time and date fields of a timestamp (UTC, 2-second resolution) */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+function toLocalHeader(name: Buffer, modified: { time: number; date: number }): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_FLAGS, 6);
+  header.writeUInt16LE(ZIP_DEFLATE, 8);
+  header.writeUInt16LE(modified.time, 10);
+  header.writeUInt16LE(modified.date, 12);
+  // Checksum and sizes (14-25) are zero: they follow in the data descriptor
+  header.writeUInt16LE(name.length, 26);
+  return Buffer.concat([header, name]);
+}
+
+function toDataDescriptor(record: ZipRecord): Buffer {
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(record.crc, 4);
+  descriptor.writeUInt32LE(record.compressedSize, 8);
+  descriptor.writeUInt32LE(record.size, 12);
+  return descriptor;
+}
+
+function toCentralDirectory(records: ZipRecord[], modified: { time: number; date: number }, offset: number): Buffer {
+  const headers = records.map((record) => {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_VERSION, 6);
+    header.writeUInt16LE(ZIP_FLAGS, 8);
+    header.writeUInt16LE(ZIP_DEFLATE, 10);
+    header.writeUInt16LE(modified.time, 12);
+    header.writeUInt16LE(modified.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt32LE(record.offset, 42);
+    return Buffer.concat([header, record.name]);
+  });
+  const directory = Buffer.concat(headers);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([directory, end]);
+}
+
+/**
+ * Entry content as buffers, adding up its checksum and size on the way into the deflater
+ */
+async function* measure(content: ZipEntry['content'], record: ZipRecord): AsyncGenerator<Buffer> {
+  for await (const part of content) {
+    const data = Buffer.from(part, 'utf8');
+    record.crc = crc32(data, record.crc);
+    record.size += data.length;
+    yield data;
+  }
+}
+
+async function* writeZip(entries: ZipEntry[], modifiedAt: Date): AsyncGenerator<Buffer> {
+  const modified = toDosDateTime(modifiedAt);
+  const records: ZipRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const record: ZipRecord = { name: Buffer.from(entry.name, 'utf8'), crc: 0, compressedSize: 0, size: 0, offset };
+
+    const header = toLocalHeader(record.name, modified);
+    offset += header.length;
+    yield header;
+
+    // pipeline destroys the deflater when the content fails, ending the loop with the error
+    const deflated = pipeline(Readable.from(measure(entry.content, record)), createDeflateRaw(), () => {});
+    for await (const chunk of deflated as AsyncIterable<Buffer>) {
+      record.compressedSize += chunk.length;
+      offset += chunk.length;
+      yield chunk;
+    }
+
+    const descriptor = toDataDescriptor(record);
+    offset += descriptor.length;
+    yield descriptor;
+    records.push(record);
+  }
+
+  yield toCentralDirectory(records, modified, offset);
+}
+
+/**
+ * A workbook with one sheet per table, streamed in chunks
+ *
+ * @throws Error for an invalid or duplicate sheet name (before any output)
+ */
+export function streamXlsx(sheets: XlsxSheet[], modifiedAt: Date = new Date()): AsyncGenerator<Buffer> {
+  const names = new Set<string>();
+  for (const sheet of sheets) {
+    if (!sheet.name || sheet.name.length > 31 || INVALID_SHEET_NAME.test(sheet.name)) {
+      throw new Error(`Invalid sheet name: ${sheet.name}`);
+    }
+    if (names.has(sheet.name.toLowerCase())) {
+      throw new Error(`Duplicate sheet name: ${sheet.name}`);
+    }
+    names.add(sheet.name.toLowerCase());
+  }
+
+  return writeZip(
+    [
+      { name: '[Content_Types].xml', content: [toContentTypesXml(sheets.length)] },
+      { name: '_rels/.rels', content: [ROOT_RELS_XML] },
+      { name: 'xl/workbook.xml', content: [toWorkbookXml(sheets)] },
+      { name: 'xl/_rels/workbook.xml.rels', content: [toWorkbookRelsXml(sheets.length)] },
+      { name: 'xl/styles.xml', content: [STYLES_XML] },
+      ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, content: toSheetXml(sheet) })),
+    ],
+    modifiedAt
+  );
+}
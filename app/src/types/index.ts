@@ -1,16 +1,20 @@
 // Core domain types for Longevity World Cup
 
+import type { BiomarkerValues } from "@/lib/biomarkers";
+
 export type Division = "mens" | "womens" | "open";
 export type Generation = "silent" | "boomer" | "genx" | "millennial" | "genz" | "genalpha";
 export type AthleteStatus = "pending" | "verified" | "suspended";
 export type SubmissionStatus = "pending" | "approved" | "rejected";
-export type SeasonStatus = "upcoming" | "active" | "completed";
+export type SeasonStatus = "upcoming" | "active" | "locked" | "completed";
 
 // League types
 export type LeagueType = "CLINIC" | "CORPORATE" | "COLLECTIVE" | "GEOGRAPHIC" | "CUSTOM";
 export type LeagueTier = "FREE" | "STARTER" | "PRO" | "ENTERPRISE";
 export type LeagueMemberRole = "MEMBER" | "CAPTAIN" | "ADMIN";
 export type LeagueStatus = "PENDING" | "ACTIVE" | "SUSPENDED";
+export type LeagueScoringStrategy = "TOP_N_AVERAGE" | "MEDIAN" | "PARTICIPATION_WEIGHTED" | "AVERAGE_IMPROVEMENT";
+export type LeagueJoinPolicy = "OPEN" | "REQUEST";
 export type SubscriptionStatus = "ACTIVE" | "PAST_DUE" | "CANCELED";
 
 export interface Athlete {
@@ -52,17 +56,8 @@ export interface BiomarkerSubmission {
   notes?: string;
 }
 
-export interface Biomarkers {
-  albumin: number;
-  creatinine: number;
-  glucose: number;
-  crp: number;
-  lymphocytePercent: number;
-  mcv: number;
-  rdw: number;
-  alp: number;
-  wbc: number;
-}
+// Submitted values by biomarker catalog key (lib/biomarkers)
+export type Biomarkers = BiomarkerValues;
 
 export interface LeaderboardEntry {
   rank: number;
@@ -77,6 +72,29 @@ export interface LeaderboardEntry {
   rankChange?: number;
 }
 
+// "Most improved" standing: PhenoAge drop from first to best sample in a season
+export interface ImprovementLeaderboardEntry {
+  rank: number;
+  divisionRank: number;
+  generationRank: number;
+  athlete: {
+    id: string;
+    displayName: string;
+    slug: string;
+    profilePicture: string | null;
+    division: string;
+    generation: string;
+  };
+  league: { name: string; slug: string } | null;
+  baselinePhenoAge: number;
+  bestPhenoAge: number;
+  improvement: number;
+  ageReductionChange: number;
+  baselineDate: string;
+  bestDate: string;
+  sampleCount: number;
+}
+
 export interface Season {
   id: string;
   name: string;
@@ -90,6 +108,62 @@ export interface Season {
   submissionCount: number;
 }
 
+// Frozen final standing of a completed season (season archive pages)
+export interface SeasonArchiveStanding {
+  rank: number;
+  divisionRank: number;
+  generationRank: number;
+  athlete: {
+    displayName: string;
+    slug: string | null; // null once the athlete has been deleted
+    division: string;
+    generation: string;
+  };
+  bestPhenoAge: number;
+  bestAgeReduction: number;
+  bestPaceOfAging: number;
+  submissionCount: number;
+  prize: { pct: number; btc: number; usd: number } | null;
+}
+
+export interface SeasonArchiveLeagueStanding {
+  rank: number;
+  league: {
+    name: string;
+    slug: string | null; // null once the league has been deleted
+    type: LeagueType;
+  };
+  scoringStrategy: LeagueScoringStrategy;
+  score: number;
+  totalMembers: number;
+  activeMembers: number;
+  bestIndividual: number;
+}
+
+export interface SeasonArchiveSummary {
+  name: string;
+  slug: string;
+  year: number;
+  startDate: string;
+  endDate: string;
+  completedAt: string | null;
+  prizePoolBTC: number;
+  prizePoolUSD: number;
+  athleteCount: number;
+  champion: SeasonArchiveStanding | null;
+}
+
+export interface SeasonArchiveData {
+  season: SeasonArchiveSummary & {
+    distribution: { first: number; second: number; third: number };
+  };
+  podium: SeasonArchiveStanding[];
+  divisions: Record<string, SeasonArchiveStanding[]>;
+  generations: Record<string, SeasonArchiveStanding[]>;
+  standings: SeasonArchiveStanding[];
+  leagues: SeasonArchiveLeagueStanding[];
+}
+
 export interface PrizePool {
   totalBTC: number;
   totalUSD: number;
@@ -103,6 +177,23 @@ export interface PrizePool {
   bitcoinAddress: string;
 }
 
+/** Prize pool in USD both as donated and at the latest rate */
+export interface PrizePoolValuation {
+  btc: number;
+  /** Sum of donations, each valued when it confirmed */
+  atDonation: {
+    usd: number;
+    lastConfirmedAt: string | null;
+  };
+  /** Whole pool at the latest BTC/USD rate; null without any rate */
+  current: {
+    usd: number;
+    rate: number;
+    rateAt: string;
+    source: string;
+  } | null;
+}
+
 export interface Badge {
   id: string;
   name: string;
@@ -181,24 +272,17 @@ export interface LeaderboardFilters {
 }
 
 // Chart data types
-export interface BiomarkerChartData {
+export interface BiomarkerChartData extends BiomarkerValues {
   date: string;
   phenoAge: number;
   chronologicalAge: number;
-  albumin?: number;
-  creatinine?: number;
-  glucose?: number;
-  crp?: number;
-  lymphocytePercent?: number;
-  mcv?: number;
-  rdw?: number;
-  alp?: number;
-  wbc?: number;
 }
 
 export interface RankHistoryData {
   date: string;
   rank: number;
+  divisionRank: number | null;
+  generationRank: number | null;
   ageReduction: number;
 }
 
@@ -220,6 +304,8 @@ export interface League {
   verified: boolean;
   verifiedAt?: Date;
   verifiedBy?: string;
+  scoringStrategy?: LeagueScoringStrategy;
+  joinPolicy?: LeagueJoinPolicy;
   ownerId: string;
   owner?: {
     id: string;
@@ -247,6 +333,7 @@ export interface LeagueLeaderboardEntry {
   rank: number;
   previousRank?: number;
   league: League;
+  scoringStrategy?: LeagueScoringStrategy;
   avgAgeReduction: number;
   totalMembers: number;
   activeMembers: number;
@@ -269,6 +356,43 @@ export interface LeagueSubscription {
   updatedAt: Date;
 }
 
+// Tier-gated league features (lib/entitlements)
+export type LeagueFeature = "CSV_EXPORT" | "CUSTOM_BRANDING" | "ADVANCED_ANALYTICS";
+
+// How a league can unlock an action its plan blocks (details.upgrade of 402/403 errors)
+export interface LeagueUpgradeHint {
+  currentTier: LeagueTier;
+  /** Lowest tier that allows the action */
+  requiredTier: LeagueTier;
+  /** UPGRADE from the manage page, SETTLE_PAYMENT that is past due, or CONTACT_US for ENTERPRISE */
+  action: "UPGRADE" | "SETTLE_PAYMENT" | "CONTACT_US";
+}
+
+// What a league's plan allows
+export interface LeagueEntitlements {
+  tier: LeagueTier;
+  features: Record<LeagueFeature, boolean>;
+  memberCount: number;
+  /** Null for unlimited tiers */
+  memberLimit: number | null;
+  /** Members beyond the limit after a downgrade; they stay, but nobody new can join */
+  overLimitBy: number;
+  /** Members that can be added now; null for unlimited tiers */
+  remainingSeats: number | null;
+  paymentPastDue: boolean;
+}
+
+// League plan and subscription (league manage page)
+export interface LeagueBillingStatus extends LeagueEntitlements {
+  subscription: {
+    tier: LeagueTier;
+    status: SubscriptionStatus;
+    currentPeriodEnd: string;
+  } | null;
+  /** Only the owner starts checkouts and upgrades */
+  canPurchase: boolean;
+}
+
 // League tier limits
 export const LEAGUE_TIER_LIMITS: Record<LeagueTier, number> = {
   FREE: 10,
@@ -307,5 +431,62 @@ export interface LeagueInvite {
   role: LeagueMemberRole;
   expiresAt: Date;
   acceptedAt?: Date;
+  declinedAt?: Date;
+  sentAt: Date;
   createdAt: Date;
 }
+
+// League as shown on the invite and join link landing pages
+export interface LeaguePreview {
+  name: string;
+  slug: string;
+  description: string | null;
+  logo: string | null;
+  type: LeagueType;
+  memberCount: number;
+  /** Null for unlimited tiers */
+  memberLimit: number | null;
+}
+
+// What the invite landing page shows before the invite is accepted
+export interface LeagueInvitePreview {
+  email: string;
+  role: LeagueMemberRole;
+  status: "PENDING" | "ACCEPTED" | "DECLINED" | "EXPIRED";
+  expiresAt: string;
+  league: LeaguePreview;
+}
+
+// Reusable join link/code (league manage page)
+export interface LeagueJoinLink {
+  id: string;
+  code: string;
+  status: "ACTIVE" | "REVOKED" | "EXPIRED" | "EXHAUSTED";
+  maxUses: number | null;
+  useCount: number;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+// What the /join/[code] landing page shows
+export interface LeagueJoinLinkPreview {
+  code: string;
+  status: LeagueJoinLink["status"];
+  expiresAt: string | null;
+  league: LeaguePreview;
+}
+
+// Athlete asking to join a REQUEST-policy league
+export interface LeagueJoinRequest {
+  id: string;
+  status: "PENDING" | "APPROVED" | "DENIED";
+  message: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  athlete: {
+    id: string;
+    displayName: string;
+    slug: string;
+    profilePicture: string | null;
+  };
+}